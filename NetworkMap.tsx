@@ -17,6 +17,7 @@ const typeColors = {
   employer: '#00BCD4', // Cyan
   state_hie: '#795548', // Brown
   public_health_agency: '#607D8B', // Blue-grey
+  network: '#E91E63', // Pink
   other: '#9E9E9E', // Grey
 };
 
@@ -32,16 +33,20 @@ const typeNames = {
   employer: 'Employer',
   state_hie: 'State HIE',
   public_health_agency: 'Public Health Agency',
+  network: 'Network',
   other: 'Other',
 };
 
+// Search radius options for the area around the user, in miles
+const radiusOptions = [25, 50, 100, 250];
+
 // Interface for network participant data structure
 interface Participant {
   id: string;
   name: string;
   type: string;
-  latitude: string;
-  longitude: string;
+  latitude: number;
+  longitude: number;
   address?: string;
   city?: string;
   state?: string;
@@ -59,8 +64,8 @@ const mockParticipants: Participant[] = [
     id: "1",
     name: "Central Hospital",
     type: "provider",
-    latitude: "40.7128",
-    longitude: "-74.0060",
+    latitude: 40.7128,
+    longitude: -74.0060,
     address: "123 Main St",
     city: "New York",
     state: "NY",
@@ -73,8 +78,8 @@ const mockParticipants: Participant[] = [
     id: "2",
     name: "BlueShield Insurance",
     type: "payer",
-    latitude: "34.0522",
-    longitude: "-118.2437",
+    latitude: 34.0522,
+    longitude: -118.2437,
     address: "456 Wilshire Blvd",
     city: "Los Angeles",
     state: "CA",
@@ -87,8 +92,8 @@ const mockParticipants: Participant[] = [
     id: "3", 
     name: "HealthExchange Clearing House",
     type: "clearing_house",
-    latitude: "41.8781",
-    longitude: "-87.6298",
+    latitude: 41.8781,
+    longitude: -87.6298,
     address: "789 Michigan Ave",
     city: "Chicago",
     state: "IL",
@@ -105,8 +110,18 @@ export default function NetworkMap() {
   const [loading, setLoading] = useState(false);
   const [filterType, setFilterType] = useState<string | null>(null);
   const [filterService, setFilterService] = useState<string | null>(null);
+  const [center, setCenter] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [radiusMiles, setRadiusMiles] = useState(50);
   const { toast } = useToast();
 
+  // Center the map on the user when the browser can tell where they are
+  useEffect(() => {
+    navigator.geolocation?.getCurrentPosition(
+      position => setCenter({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+      () => setCenter(null)
+    );
+  }, []);
+
   // Load participants based on filters
   const loadParticipants = useCallback(async () => {
     try {
@@ -115,6 +130,18 @@ export default function NetworkMap() {
       let url = '/api/network/map/participants';
       const params = new URLSearchParams();
       
+      // Only load the area around the user, nearest first
+      if (center) {
+        url += '/nearby';
+        params.append('latitude', String(center.latitude));
+        params.append('longitude', String(center.longitude));
+        params.append('radiusMiles', String(radiusMiles));
+        params.append('sort', 'distance');
+        if (filterService) {
+          params.append('serviceType', filterService);
+        }
+      }
+      
       // Add filters to query if available
       if (filterType) {
         params.append('types', filterType);
@@ -157,7 +184,7 @@ export default function NetworkMap() {
     } finally {
       setLoading(false);
     }
-  }, [filterType, filterService, toast]);
+  }, [filterType, filterService, center, radiusMiles, toast]);
 
   // Load participants on mount and when filters change
   useEffect(() => {
@@ -193,6 +220,22 @@ export default function NetworkMap() {
         ))}
       </div>
       
+      {center && (
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <div className="font-medium">Within:</div>
+          {radiusOptions.map((miles) => (
+            <Button
+              key={miles}
+              variant={radiusMiles === miles ? "default" : "outline"}
+              size="sm"
+              onClick={() => setRadiusMiles(miles)}
+            >
+              {miles} miles
+            </Button>
+          ))}
+        </div>
+      )}
+      
       <div className="relative">
         {loading && (
           <div className="absolute inset-0 bg-background/50 flex items-center justify-center z-10">
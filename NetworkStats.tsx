@@ -42,6 +42,7 @@ const typeNames = {
   employer: 'Employer',
   state_hie: 'State HIE',
   public_health_agency: 'Public Health Agency',
+  network: 'Network',
   other: 'Other',
 };
 
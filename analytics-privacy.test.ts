@@ -0,0 +1,153 @@
+import { COHORT, deidentify, laplace, secureRandom, type CountRow, type CountTable, type PrivacyPolicy } from './analytics-privacy';
+
+const policy = (overrides: Partial<PrivacyPolicy> = {}): PrivacyPolicy => ({
+  minCohortSize: 11,
+  complementarySuppression: false,
+  noise: 'none',
+  epsilon: null,
+  ...overrides
+});
+
+const countRow = (segment: string | null, cohort: number, participants: number): CountRow => ({
+  segment,
+  label: segment ?? 'All employees',
+  counts: { cohort, participants }
+});
+
+const departments = (...rows: CountRow[]): CountTable => ({ dimension: 'department', rows });
+
+const published = (row: { counts: Record<string, number | null>; suppressed: Record<string, string> }) =>
+  ({ counts: row.counts, suppressed: row.suppressed });
+
+describe('deidentify', () => {
+  describe('primary suppression', () => {
+    it('withholds small cohorts, and counts that leave too few employees on either side', () => {
+      const report = deidentify(
+        countRow(null, 100, 60),
+        [departments(countRow('sales', 5, 2), countRow('support', 40, 37), countRow('engineering', 55, 21))],
+        ['participants'],
+        policy()
+      );
+
+      expect(report.tables[0].rows.map(published)).toEqual([
+        { counts: { cohort: null, participants: null }, suppressed: { cohort: 'small_cohort', participants: 'small_cohort' } },
+        { counts: { cohort: 40, participants: null }, suppressed: { participants: 'small_count' } },
+        { counts: { cohort: 55, participants: 21 }, suppressed: {} }
+      ]);
+      expect(report.tables[0].rows[2].rates).toEqual({ participants: 0.382 });
+      expect(report.overall.rates).toEqual({ participants: 0.6 });
+      expect(report.suppressedValues).toBe(3);
+    });
+
+    it('publishes counts of none and of everyone', () => {
+      const report = deidentify(countRow(null, 30, 0), [departments(countRow('sales', 15, 0), countRow('support', 15, 0))], ['participants'], policy());
+
+      expect(report.suppressedValues).toBe(0);
+      expect(deidentify(countRow(null, 30, 30), [], ['participants'], policy()).overall.counts).toEqual({ cohort: 30, participants: 30 });
+    });
+  });
+
+  describe('complementary suppression', () => {
+    it('withholds the smallest other row so a withheld row cannot be worked out from the overall row', () => {
+      const report = deidentify(
+        countRow(null, 100, 60),
+        [departments(countRow('sales', 5, 2), countRow('support', 40, 37), countRow('engineering', 55, 21))],
+        ['participants'],
+        policy({ complementarySuppression: true })
+      );
+
+      expect(report.tables[0].rows.map(published)).toEqual([
+        { counts: { cohort: null, participants: null }, suppressed: { cohort: 'small_cohort', participants: 'small_cohort' } },
+        // Its cohort is withheld, so its other values are too
+        { counts: { cohort: null, participants: null }, suppressed: { cohort: 'complementary', participants: 'small_count' } },
+        { counts: { cohort: 55, participants: 21 }, suppressed: {} }
+      ]);
+      expect(report.overall.counts).toEqual({ cohort: 100, participants: 60 });
+    });
+
+    it('keeps withholding until the withheld values add up to the minimum cohort size', () => {
+      const report = deidentify(
+        countRow(null, 100, 50),
+        [departments(countRow('sales', 5, 0), countRow('support', 4, 0), countRow('engineering', 91, 50))],
+        ['participants'],
+        policy({ complementarySuppression: true })
+      );
+
+      expect(report.tables[0].rows.map(row => row.suppressed[COHORT])).toEqual(['small_cohort', 'small_cohort', 'complementary']);
+    });
+
+    it('has nothing to protect when the overall count is withheld itself', () => {
+      const report = deidentify(
+        countRow(null, 50, 5),
+        [departments(countRow('sales', 25, 5), countRow('support', 25, 0))],
+        ['participants'],
+        policy({ complementarySuppression: true })
+      );
+
+      expect(report.overall.suppressed).toEqual({ participants: 'small_count' });
+      expect(report.tables[0].rows.map(published)).toEqual([
+        { counts: { cohort: 25, participants: null }, suppressed: { participants: 'small_count' } },
+        { counts: { cohort: 25, participants: 0 }, suppressed: {} }
+      ]);
+    });
+  });
+
+  describe('noise', () => {
+    // u = 0.25 above the median: laplace gives scale * ln 2
+    const above = () => 0.75;
+
+    it('splits epsilon evenly over every count of one row per table', () => {
+      const overall = countRow(null, 100, 60);
+      const tables = [departments(countRow('sales', 100, 60)), { dimension: 'location', rows: [countRow('boston', 100, 60)] }];
+
+      // 3 rows an employee is counted in, 2 counts each, epsilon 2: scale 3
+      const report = deidentify(overall, tables, ['participants'], policy({ noise: 'laplace', epsilon: 2 }), above);
+
+      expect(report.overall.counts).toEqual({ cohort: Math.round(100 + 3 * Math.LN2), participants: Math.round(60 + 3 * Math.LN2) });
+      // Half the epsilon, twice the noise
+      expect(deidentify(overall, tables, ['participants'], policy({ noise: 'laplace', epsilon: 1 }), above).overall.counts)
+        .toEqual({ cohort: Math.round(100 + 6 * Math.LN2), participants: Math.round(60 + 6 * Math.LN2) });
+    });
+
+    it('keeps noisy counts within zero and the cohort', () => {
+      const report = deidentify(countRow(null, 100, 100), [], ['participants'], policy({ noise: 'laplace', epsilon: 0.1, minCohortSize: 0 }), () => 0.001);
+      expect(report.overall.counts).toEqual({ cohort: 0, participants: 0 });
+
+      // Noise of about -1 on the cohort and +8 on the participants
+      const draws = [0.25, 0.99];
+      const clamped = deidentify(countRow(null, 100, 95), [], ['participants'], policy({ noise: 'laplace', epsilon: 1, minCohortSize: 0 }), () => draws.shift()!);
+      expect(clamped.overall.counts.participants).toBe(clamped.overall.counts.cohort);
+    });
+
+    it('suppresses on the noisy counts', () => {
+      // A cohort of 12 with noise of about -3 is withheld
+      const report = deidentify(countRow(null, 12, 6), [], ['participants'], policy({ noise: 'laplace', epsilon: 1 }), () => 0.1);
+      expect(report.overall.suppressed).toEqual({ cohort: 'small_cohort', participants: 'small_cohort' });
+    });
+
+    it('requires a positive epsilon', () => {
+      expect(() => deidentify(countRow(null, 100, 60), [], ['participants'], policy({ noise: 'laplace', epsilon: null })))
+        .toThrow('A positive epsilon is required for Laplace noise');
+      expect(() => deidentify(countRow(null, 100, 60), [], ['participants'], policy({ noise: 'laplace', epsilon: 0 })))
+        .toThrow('A positive epsilon is required for Laplace noise');
+    });
+  });
+});
+
+describe('laplace', () => {
+  it('draws symmetric samples of the given scale', () => {
+    expect(laplace(6, () => 0.75)).toBeCloseTo(6 * Math.LN2);
+    expect(laplace(6, () => 0.25)).toBeCloseTo(-6 * Math.LN2);
+    expect(laplace(6, () => 0.5)).toBeCloseTo(0);
+  });
+
+  it('has a mean absolute deviation of its scale', () => {
+    const samples = Array.from({ length: 20000 }, () => laplace(4, secureRandom));
+    const mean = samples.reduce((sum, sample) => sum + sample, 0) / samples.length;
+    const meanAbsolute = samples.reduce((sum, sample) => sum + Math.abs(sample), 0) / samples.length;
+
+    expect(Math.abs(mean)).toBeLessThan(0.2);
+    expect(meanAbsolute).toBeGreaterThan(3.8);
+    expect(meanAbsolute).toBeLessThan(4.2);
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Analytics De-identification
+ *
+ * Turns exact employee counts into tables an employer admin may see. Reports
+ * are made of tables: an overall row, and one table per segment dimension
+ * (department, location) whose rows add up to it. Every row counts a cohort
+ * of employees and some measures, each a number of employees in the cohort
+ * (participants, completers, ...). Under the employer's privacy policy:
+ *
+ * - Noise: with 'laplace', every count gets Laplace noise calibrated so the
+ *   whole report is epsilon-differentially private. Each employee is in one
+ *   row per table and adds at most one to each count, so the budget is split
+ *   evenly across tables and counts. Suppression then works on the noisy
+ *   counts, so it does not spend any more of the budget.
+ * - Primary suppression: rows whose cohort is smaller than the minimum cohort
+ *   size are withheld, as are counts that leave fewer than that many
+ *   employees on either side (a count of 3, or a count of 37 out of 40).
+ * - Complementary suppression: a withheld value could still be worked out by
+ *   subtracting the rest of a table from the overall row, so more values are
+ *   withheld, smallest first, until at least two are and they add up to at
+ *   least the minimum cohort size.
+ *
+ * Everything here is pure so it can be checked against hand-built tables.
+ */
+import { randomBytes } from 'crypto';
+
+export const COHORT = 'cohort';
+
+export interface PrivacyPolicy {
+  minCohortSize: number;
+  complementarySuppression: boolean;
+  noise: 'none' | 'laplace';
+  epsilon: number | null;
+}
+
+export const DEFAULT_PRIVACY_POLICY: PrivacyPolicy = {
+  minCohortSize: 11,
+  complementarySuppression: true,
+  noise: 'none',
+  epsilon: null
+};
+
+/**
+ * A row of exact counts: the cohort size under COHORT, and each measure
+ */
+export interface CountRow {
+  segment: string | null; // Department or location ID; null for employees without one, and for the overall row
+  label: string;
+  counts: Record<string, number>;
+}
+
+export interface CountTable {
+  dimension: string;
+  rows: CountRow[];
+}
+
+export type SuppressionReason = 'small_cohort' | 'small_count' | 'complementary';
+
+/**
+ * A row as published. Withheld counts and rates are null, with the reason.
+ */
+export interface PublishedRow {
+  segment: string | null;
+  label: string;
+  counts: Record<string, number | null>;
+  rates: Record<string, number | null>; // Each measure as a share of the cohort
+  suppressed: Record<string, SuppressionReason>;
+}
+
+export interface PublishedTable {
+  dimension: string;
+  rows: PublishedRow[];
+}
+
+export interface DeidentifiedReport {
+  overall: PublishedRow;
+  tables: PublishedTable[];
+  suppressedValues: number;
+}
+
+/**
+ * De-identify a report's counts under a privacy policy
+ */
+export function deidentify(
+  overall: CountRow,
+  tables: CountTable[],
+  measures: string[],
+  policy: PrivacyPolicy,
+  random: () => number = secureRandom
+): DeidentifiedReport {
+  if (policy.noise === 'laplace' && !(policy.epsilon && policy.epsilon > 0)) {
+    throw new Error('A positive epsilon is required for Laplace noise');
+  }
+
+  const keys = [COHORT, ...measures];
+  // Sequential composition: each employee contributes to every count of one row per table
+  const scale = policy.noise === 'laplace' ? ((tables.length + 1) * keys.length) / policy.epsilon! : 0;
+  const noisy = (row: CountRow): PublishedRow => ({
+    segment: row.segment,
+    label: row.label,
+    counts: addNoise(row.counts, keys, scale, random),
+    rates: {},
+    suppressed: {}
+  });
+
+  const published = {
+    overall: noisy(overall),
+    tables: tables.map(table => ({ dimension: table.dimension, rows: table.rows.map(noisy) }))
+  };
+
+  // Values before suppression, for working out what withheld values add up to
+  const values = new Map<PublishedRow, Record<string, number | null>>();
+  for (const row of [published.overall, ...published.tables.flatMap(table => table.rows)]) {
+    values.set(row, { ...row.counts });
+  }
+
+  const k = policy.minCohortSize;
+  for (const row of values.keys()) {
+    suppressSmallCells(row, measures, k);
+  }
+
+  if (policy.complementarySuppression) {
+    for (const table of published.tables) {
+      suppressComplements(table.rows, published.overall, COHORT, k, values);
+      // A row without its cohort is withheld entirely
+      for (const row of table.rows) {
+        if (row.suppressed[COHORT]) {
+          measures.forEach(measure => withhold(row, measure, row.suppressed[COHORT]));
+        }
+      }
+      measures.forEach(measure => suppressComplements(table.rows, published.overall, measure, k, values));
+    }
+  }
+
+  let suppressedValues = 0;
+  for (const row of values.keys()) {
+    suppressedValues += Object.keys(row.suppressed).length;
+    for (const measure of measures) {
+      const count = row.counts[measure];
+      const cohort = row.counts[COHORT];
+      row.rates[measure] = count === null || !cohort ? null : Math.round((count / cohort) * 1000) / 1000;
+    }
+  }
+
+  return { ...published, suppressedValues };
+}
+
+/**
+ * A sample from the Laplace distribution centred on 0
+ */
+export function laplace(scale: number, random: () => number = secureRandom): number {
+  let u: number;
+  do {
+    u = random() - 0.5;
+  } while (Math.abs(u) === 0.5);
+  return -scale * Math.sign(u) * Math.log(1 - 2 * Math.abs(u));
+}
+
+/**
+ * A uniform number in [0, 1) from the system's secure random source
+ */
+export function secureRandom(): number {
+  return randomBytes(6).readUIntBE(0, 6) / 2 ** 48;
+}
+
+function addNoise(counts: Record<string, number>, keys: string[], scale: number, random: () => number): Record<string, number | null> {
+  const result: Record<string, number | null> = {};
+  for (const key of keys) {
+    const value = counts[key] || 0;
+    result[key] = scale > 0 ? Math.max(0, Math.round(value + laplace(scale, random))) : value;
+  }
+
+  // Keep measures within the cohort, as the exact counts are
+  const cohort = result[COHORT]!;
+  for (const key of keys) {
+    result[key] = Math.min(result[key]!, cohort);
+  }
+  return result;
+}
+
+function suppressSmallCells(row: PublishedRow, measures: string[], k: number): void {
+  const cohort = row.counts[COHORT]!;
+  if (cohort < k) {
+    [COHORT, ...measures].forEach(key => withhold(row, key, 'small_cohort'));
+    return;
+  }
+
+  for (const measure of measures) {
+    const count = row.counts[measure]!;
+    if (isSmall(count, k) || isSmall(cohort - count, k)) {
+      withhold(row, measure, 'small_count');
+    }
+  }
+}
+
+/**
+ * Withhold more values of a table until the withheld ones cannot be worked
+ * out from the overall row: none, or at least two adding up to k or more
+ */
+function suppressComplements(
+  rows: PublishedRow[],
+  overall: PublishedRow,
+  key: string,
+  k: number,
+  values: Map<PublishedRow, Record<string, number | null>>
+): void {
+  if (overall.counts[key] === null) {
+    return; // Nothing to subtract from
+  }
+
+  const withheld = () => rows.filter(row => row.counts[key] === null);
+  const withheldTotal = () => withheld().reduce((sum, row) => sum + values.get(row)![key]!, 0);
+
+  while (withheld().length > 0 && (withheld().length === 1 || isSmall(withheldTotal(), k))) {
+    const candidates = rows.filter(row => row.counts[key] !== null);
+    if (candidates.length === 0) {
+      break;
+    }
+    const smallest = candidates.reduce((min, row) => (row.counts[key]! < min.counts[key]! ? row : min));
+    withhold(smallest, key, 'complementary');
+  }
+}
+
+function withhold(row: PublishedRow, key: string, reason: SuppressionReason): void {
+  if (row.counts[key] === null) {
+    return;
+  }
+  row.counts[key] = null;
+  row.suppressed[key] = reason;
+}
+
+function isSmall(count: number, k: number): boolean {
+  return count > 0 && count < k;
+}
@@ -0,0 +1,63 @@
+/**
+ * Smart Health Hub - Background Jobs
+ *
+ * Applies the services' migrations and starts their periodic jobs. Importing
+ * a service never starts its timers, so tests and scripts that import
+ * services don't run jobs against the database. Exported for server
+ * initialization: nothing runs until the server entry point awaits
+ * bootstrapServices() once at startup, after the database is reachable.
+ */
+
+import logger from '../../utils/logger';
+import { applyNetworkDirectoryMigrations, applyPriorAuthMigrations } from '../../db/partitioning/migrations';
+import { calendarSyncService } from './calendar-sync-service';
+import { goldcardingService } from './goldcarding-service';
+import { networkOnboardingService } from './network-onboarding-service';
+import { rewardRedemptionService } from './reward-redemption-service';
+import { vendorSyncService } from './vendor-sync-service';
+import { walletLedgerService } from './wallet-ledger-service';
+import { waitlistService } from './waitlist-service';
+
+let started = false;
+
+/**
+ * Start every periodic job. Calling it again does nothing.
+ */
+export function startBackgroundJobs(): void {
+  if (started) {
+    return;
+  }
+  started = true;
+
+  // One-off backfill; wallets already carried over are skipped
+  walletLedgerService.openLegacyBalances().catch(error => {
+    logger.error('Error opening wallet ledger balances:', error);
+  });
+
+  calendarSyncService.startPeriodicBusyPull();
+  waitlistService.startPeriodicOfferExpiry();
+
+  walletLedgerService.startPeriodicPointExpiry();
+  walletLedgerService.startPeriodicBalanceSnapshots();
+  rewardRedemptionService.startPeriodicHoldRelease();
+
+  vendorSyncService.startPeriodicSync();
+
+  networkOnboardingService.startPeriodicContractExpiry();
+
+  goldcardingService.startPeriodicReevaluation();
+
+  logger.info('Background jobs started');
+}
+
+/**
+ * Apply the migrations the services need, then start the periodic jobs.
+ * The migrations are safe to run again, and a failed one stops the bootstrap
+ * before any job runs against a schema it expects.
+ */
+export async function bootstrapServices(): Promise<void> {
+  await applyPriorAuthMigrations();
+  await applyNetworkDirectoryMigrations();
+
+  startBackgroundJobs();
+}
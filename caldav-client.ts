@@ -0,0 +1,322 @@
+/**
+ * Smart Health Hub - CalDAV Client
+ *
+ * Minimal CalDAV (RFC 4791) client for a single calendar collection: writes
+ * and deletes events by UID with ETag preconditions so external edits are
+ * detected, and reads events in a time range for busy time import.
+ */
+
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import dns, { LookupAddress } from 'dns';
+import http from 'http';
+import https from 'https';
+import net, { BlockList } from 'net';
+import { parseCalendarEvents, formatUtc, type CalendarEvent } from './calendar-ics';
+
+export interface CalDavCredentials {
+  username?: string;
+  password?: string;
+  bearerToken?: string;
+}
+
+export class CalDavError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'CalDavError';
+  }
+}
+
+/**
+ * The event on the server no longer matches the ETag last written, or an
+ * event with the UID already exists when creating
+ */
+export class CalDavConflictError extends CalDavError {
+  constructor(message: string, public readonly remoteEtag?: string) {
+    super(message, 412);
+    this.name = 'CalDavConflictError';
+  }
+}
+
+export interface CalDavClientOptions {
+  timeoutMs?: number;
+  // Let the client reach loopback and private network hosts, e.g. a local stand-in server
+  allowPrivateHosts?: boolean;
+}
+
+// Loopback, private, link-local, shared, reserved and multicast ranges a
+// user-supplied calendar URL must not reach
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is in a loopback, private or otherwise non-public range
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return PRIVATE_RANGES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Check a user-supplied calendar URL before connecting to it: it must be
+ * https and must not name a private host. Hostnames are checked again when
+ * the client resolves them, so a name pointing at a private address is
+ * refused too.
+ * @throws CalDavError when the URL is not allowed
+ */
+export function assertCalendarUrl(calendarUrl: string, allowPrivateHosts: boolean = false): void {
+  let url: URL;
+  try {
+    url = new URL(calendarUrl);
+  } catch {
+    throw new CalDavError('Calendar URL is not a valid URL', 400);
+  }
+
+  if (url.protocol !== 'https:' && !(allowPrivateHosts && url.protocol === 'http:')) {
+    throw new CalDavError('Calendar URL must use https', 400);
+  }
+
+  if (url.username || url.password) {
+    throw new CalDavError('Calendar URL must not contain credentials', 400);
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (!allowPrivateHosts && (host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host))) {
+    throw new CalDavError('Calendar URL must not point at a private network address', 400);
+  }
+}
+
+/**
+ * dns.lookup that refuses to resolve to a private address, so the check
+ * applies to the address actually connected to
+ */
+const publicLookup: typeof dns.lookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+  dns.lookup(hostname, { ...options }, (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => {
+    if (error) {
+      return callback(error, address, family);
+    }
+
+    const addresses = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+    if (addresses.some(isPrivateAddress)) {
+      return callback(new CalDavError(`Calendar host ${hostname} resolves to a private network address`, 400), address, family);
+    }
+
+    callback(null, address, family);
+  });
+}) as typeof dns.lookup;
+
+const publicHttpAgent = new http.Agent({ lookup: publicLookup });
+const publicHttpsAgent = new https.Agent({ lookup: publicLookup });
+
+// A stored event as returned by the server
+export interface CalDavResource {
+  href: string;
+  etag?: string;
+  calendarData: string;
+}
+
+export class CalDavClient {
+  private collectionUrl: string;
+  private timeoutMs: number;
+  private allowPrivateHosts: boolean;
+
+  constructor(
+    calendarUrl: string,
+    private credentials: CalDavCredentials = {},
+    options: CalDavClientOptions = {}
+  ) {
+    this.collectionUrl = calendarUrl.endsWith('/') ? calendarUrl : `${calendarUrl}/`;
+    this.timeoutMs = options.timeoutMs ?? 15000;
+    this.allowPrivateHosts = options.allowPrivateHosts ?? false;
+  }
+
+  /**
+   * URL of the resource holding the event with a UID
+   */
+  eventUrl(uid: string): string {
+    return `${this.collectionUrl}${encodeURIComponent(uid)}.ics`;
+  }
+
+  /**
+   * Create or replace an event. With an ETag the write only succeeds if the
+   * event is unchanged since; without one it only succeeds if the event does
+   * not exist yet, unless overwrite is set.
+   * @returns the new ETag, when the server reports one
+   */
+  async putEvent(
+    uid: string,
+    ics: string,
+    options: { etag?: string | null; overwrite?: boolean } = {}
+  ): Promise<string | undefined> {
+    const headers: Record<string, string> = { 'Content-Type': 'text/calendar; charset=utf-8' };
+    if (options.etag) {
+      headers['If-Match'] = options.etag;
+    } else if (!options.overwrite) {
+      headers['If-None-Match'] = '*';
+    }
+
+    const response = await this.request({ method: 'PUT', url: this.eventUrl(uid), data: ics, headers });
+
+    if (response.status === 412) {
+      const remote = await this.getEvent(uid).catch(() => null);
+      throw new CalDavConflictError(
+        options.etag
+          ? `Event ${uid} was changed in the external calendar`
+          : `Event ${uid} already exists in the external calendar`,
+        remote?.etag
+      );
+    }
+    this.assertSuccess(response, `write event ${uid}`);
+
+    return (response.headers['etag'] as string | undefined) || (await this.getEvent(uid))?.etag;
+  }
+
+  /**
+   * Read an event by UID, or null if it does not exist
+   */
+  async getEvent(uid: string): Promise<CalDavResource | null> {
+    const url = this.eventUrl(uid);
+    const response = await this.request({ method: 'GET', url });
+
+    if (response.status === 404) {
+      return null;
+    }
+    this.assertSuccess(response, `read event ${uid}`);
+
+    return {
+      href: url,
+      etag: response.headers['etag'] as string | undefined,
+      calendarData: String(response.data)
+    };
+  }
+
+  /**
+   * Delete an event; an event that is already gone counts as deleted
+   */
+  async deleteEvent(uid: string, etag?: string | null): Promise<void> {
+    const headers: Record<string, string> = {};
+    if (etag) {
+      headers['If-Match'] = etag;
+    }
+
+    const response = await this.request({ method: 'DELETE', url: this.eventUrl(uid), headers });
+
+    if (response.status === 404) {
+      return;
+    }
+    if (response.status === 412) {
+      const remote = await this.getEvent(uid).catch(() => null);
+      throw new CalDavConflictError(`Event ${uid} was changed in the external calendar`, remote?.etag);
+    }
+    this.assertSuccess(response, `delete event ${uid}`);
+  }
+
+  /**
+   * Read the events overlapping a time range (calendar-query REPORT), with
+   * recurring events expanded into their occurrences in the range
+   */
+  async listEvents(start: Date, end: Date): Promise<CalendarEvent[]> {
+    const body = [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      '<C:calendar-query xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">',
+      '  <D:prop><D:getetag/><C:calendar-data/></D:prop>',
+      '  <C:filter>',
+      '    <C:comp-filter name="VCALENDAR">',
+      '      <C:comp-filter name="VEVENT">',
+      `        <C:time-range start="${formatUtc(start)}" end="${formatUtc(end)}"/>`,
+      '      </C:comp-filter>',
+      '    </C:comp-filter>',
+      '  </C:filter>',
+      '</C:calendar-query>'
+    ].join('\n');
+
+    const response = await this.request({
+      method: 'REPORT',
+      url: this.collectionUrl,
+      data: body,
+      headers: { 'Content-Type': 'application/xml; charset=utf-8', Depth: '1' }
+    });
+    this.assertSuccess(response, 'query events');
+
+    return extractCalendarData(String(response.data))
+      .flatMap(data => parseCalendarEvents(data, { start, end }))
+      .filter(event => event.start < end && event.end > start);
+  }
+
+  private async request(config: AxiosRequestConfig): Promise<AxiosResponse> {
+    const headers: Record<string, string> = { ...(config.headers as Record<string, string>) };
+    if (this.credentials.bearerToken) {
+      headers['Authorization'] = `Bearer ${this.credentials.bearerToken}`;
+    }
+
+    try {
+      assertCalendarUrl(config.url!, this.allowPrivateHosts);
+
+      return await axios.request({
+        ...config,
+        headers,
+        ...(!this.allowPrivateHosts && { httpAgent: publicHttpAgent, httpsAgent: publicHttpsAgent }),
+        maxRedirects: 0, // A redirect could lead to a host that was never checked
+        ...(this.credentials.username && !this.credentials.bearerToken && {
+          auth: { username: this.credentials.username, password: this.credentials.password || '' }
+        }),
+        timeout: this.timeoutMs,
+        responseType: 'text',
+        transformResponse: data => data, // Keep XML and iCalendar bodies as text
+        validateStatus: () => true
+      });
+    } catch (error) {
+      if (error instanceof CalDavError) {
+        throw error;
+      }
+      throw new CalDavError(`CalDAV request failed: ${(error as Error).message}`);
+    }
+  }
+
+  private assertSuccess(response: AxiosResponse, action: string): void {
+    if (response.status < 200 || response.status >= 300) {
+      throw new CalDavError(`Failed to ${action}: HTTP ${response.status}`, response.status);
+    }
+  }
+}
+
+/**
+ * Pull the calendar-data bodies out of a multistatus response
+ */
+function extractCalendarData(xml: string): string[] {
+  const pattern = /<(?:[\w-]+:)?calendar-data\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?calendar-data>/gi;
+  const bodies: string[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(xml)) !== null) {
+    bodies.push(decodeXml(match[1]));
+  }
+
+  return bodies;
+}
+
+function decodeXml(text: string): string {
+  const cdata = /^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/.exec(text);
+  if (cdata) {
+    return cdata[1];
+  }
+
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,65 @@
+import { startCalDavStandIn, CalDavStandIn } from './caldav-stand-in';
+import { CalDavClient, CalDavConflictError } from './caldav-client';
+
+const event = (uid: string, lines: string[]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', 'BEGIN:VEVENT', `UID:${uid}`, ...lines, 'END:VEVENT', 'END:VCALENDAR'].join('\r\n');
+
+describe('CalDAV stand-in', () => {
+  let standIn: CalDavStandIn;
+  let client: CalDavClient;
+
+  beforeAll(async () => {
+    standIn = await startCalDavStandIn();
+    client = new CalDavClient(`${standIn.url}/calendars/dr-smith`, {}, { allowPrivateHosts: true });
+  });
+
+  afterAll(() => standIn.close());
+
+  it('creates, reads and deletes an event with ETag preconditions', async () => {
+    const ics = event('visit-1', ['DTSTART:20250303T150000Z', 'DTEND:20250303T153000Z']);
+    const etag = await client.putEvent('visit-1', ics);
+
+    expect(etag).toBeDefined();
+    expect(await client.getEvent('visit-1')).toMatchObject({ etag, calendarData: ics });
+
+    await expect(client.putEvent('visit-1', ics)).rejects.toBeInstanceOf(CalDavConflictError);
+
+    await client.deleteEvent('visit-1', etag);
+    expect(await client.getEvent('visit-1')).toBeNull();
+  });
+
+  it('reports a conflict when the event was changed externally', async () => {
+    const etag = await client.putEvent('visit-2', event('visit-2', ['DTSTART:20250304T150000Z', 'DTEND:20250304T153000Z']));
+    const remoteEtag = standIn.putEvent(
+      '/calendars/dr-smith/visit-2.ics',
+      event('visit-2', ['DTSTART:20250304T160000Z', 'DTEND:20250304T163000Z'])
+    );
+
+    const error = await client.putEvent('visit-2', event('visit-2', ['DTSTART:20250304T170000Z']), { etag })
+      .catch(caught => caught);
+    expect(error).toBeInstanceOf(CalDavConflictError);
+    expect(error.remoteEtag).toBe(remoteEtag);
+
+    await expect(client.deleteEvent('visit-2', etag)).rejects.toBeInstanceOf(CalDavConflictError);
+  });
+
+  it('lists events in a time range with recurring events expanded', async () => {
+    standIn.putEvent('/calendars/dr-smith/surgery.ics', event('surgery', [
+      'DTSTART:20250310T130000Z',
+      'DTEND:20250310T170000Z',
+      'RRULE:FREQ=WEEKLY;COUNT=10'
+    ]));
+    standIn.putEvent('/calendars/dr-smith/conference.ics', event('conference', [
+      'DTSTART;VALUE=DATE:20250601',
+      'DTEND;VALUE=DATE:20250603'
+    ]));
+    standIn.putEvent('/calendars/other/busy.ics', event('other', ['DTSTART:20250325T130000Z', 'DTEND:20250325T140000Z']));
+
+    const events = await client.listEvents(new Date('2025-03-20T00:00:00Z'), new Date('2025-04-05T00:00:00Z'));
+
+    expect(events.map(e => [e.uid, e.start.toISOString()])).toEqual([
+      ['surgery', '2025-03-24T13:00:00.000Z'],
+      ['surgery', '2025-03-31T13:00:00.000Z']
+    ]);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Smart Health Hub - Local CalDAV Stand-in
+ *
+ * An in-memory CalDAV server for development and integration testing of
+ * calendar sync without an external calendar. It supports what CalDavClient
+ * uses: GET, PUT and DELETE of event resources with ETag preconditions, and
+ * calendar-query REPORTs with a time range. Every path ending in "/" is
+ * treated as a calendar collection.
+ *
+ *   const standIn = await startCalDavStandIn();
+ *   // create a calendar connection with calendarUrl `${standIn.url}/calendars/dr-smith/`
+ *   await standIn.close();
+ */
+
+import http from 'http';
+import { createHash } from 'crypto';
+import { AddressInfo } from 'net';
+import { parseCalendarEvents } from './calendar-ics';
+
+interface StoredEvent {
+  etag: string;
+  data: string;
+}
+
+export interface CalDavStandIn {
+  url: string;
+  // Stored resources keyed by path, for inspecting or editing events as an external client would
+  events: Map<string, StoredEvent>;
+  // Store an event directly, e.g. to simulate a provider's own busy time
+  putEvent(path: string, data: string): string;
+  close(): Promise<void>;
+}
+
+/**
+ * Start the stand-in on a local port (a random free port by default)
+ */
+export async function startCalDavStandIn(port: number = 0): Promise<CalDavStandIn> {
+  const events = new Map<string, StoredEvent>();
+
+  const store = (path: string, data: string): string => {
+    const etag = `"${createHash('sha1').update(data).digest('hex')}"`;
+    events.set(path, { etag, data });
+    return etag;
+  };
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const path = decodeURI((req.url || '/').split('?')[0]);
+      const existing = events.get(path);
+      const ifMatch = req.headers['if-match'];
+      const ifNoneMatch = req.headers['if-none-match'];
+
+      const preconditionFailed =
+        (ifMatch !== undefined && (!existing || (ifMatch !== '*' && ifMatch !== existing.etag))) ||
+        (ifNoneMatch === '*' && !!existing);
+
+      switch (req.method) {
+        case 'GET':
+          if (!existing) {
+            res.writeHead(404).end();
+            return;
+          }
+          res.writeHead(200, { 'Content-Type': 'text/calendar; charset=utf-8', ETag: existing.etag }).end(existing.data);
+          return;
+
+        case 'PUT':
+          if (preconditionFailed) {
+            res.writeHead(412).end();
+            return;
+          }
+          res.writeHead(existing ? 204 : 201, { ETag: store(path, body) }).end();
+          return;
+
+        case 'DELETE':
+          if (!existing) {
+            res.writeHead(404).end();
+            return;
+          }
+          if (preconditionFailed) {
+            res.writeHead(412).end();
+            return;
+          }
+          events.delete(path);
+          res.writeHead(204).end();
+          return;
+
+        case 'REPORT': {
+          const range = /<(?:[\w-]+:)?time-range\b[^>]*?start="(\d{8}T\d{6}Z)"[^>]*?end="(\d{8}T\d{6}Z)"/i.exec(body);
+          const start = range ? parseUtc(range[1]) : null;
+          const end = range ? parseUtc(range[2]) : null;
+
+          const responses = Array.from(events.entries())
+            .filter(([href]) => href.startsWith(path) && !href.slice(path.length).includes('/'))
+            .filter(([, event]) => !start || !end || parseCalendarEvents(event.data, { start, end })
+              .some(e => e.start < end && e.end > start))
+            .map(([href, event]) => [
+              '  <D:response>',
+              `    <D:href>${escapeXml(href)}</D:href>`,
+              '    <D:propstat>',
+              `      <D:prop><D:getetag>${escapeXml(event.etag)}</D:getetag><C:calendar-data>${escapeXml(event.data)}</C:calendar-data></D:prop>`,
+              '      <D:status>HTTP/1.1 200 OK</D:status>',
+              '    </D:propstat>',
+              '  </D:response>'
+            ].join('\n'));
+
+          res.writeHead(207, { 'Content-Type': 'application/xml; charset=utf-8' }).end([
+            '<?xml version="1.0" encoding="utf-8"?>',
+            '<D:multistatus xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">',
+            ...responses,
+            '</D:multistatus>'
+          ].join('\n'));
+          return;
+        }
+
+        default:
+          res.writeHead(405, { Allow: 'GET, PUT, DELETE, REPORT' }).end();
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(port, '127.0.0.1', resolve));
+  const address = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${address.port}`,
+    events,
+    putEvent: store,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())))
+  };
+}
+
+function parseUtc(value: string): Date {
+  const m = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(value)!;
+  return new Date(Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]));
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,102 @@
+import { calendarEventKey, parseCalendarEvents } from './calendar-ics';
+
+const calendar = (...events: string[][]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events.flat(), 'END:VCALENDAR'].join('\r\n');
+
+// Weekly clinic on Mondays and Wednesdays, 09:00-10:00 New York time
+const weekly = [
+  'BEGIN:VEVENT',
+  'UID:clinic-1',
+  'DTSTART;TZID=America/New_York:20250303T090000',
+  'DTEND;TZID=America/New_York:20250303T100000',
+  'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=8',
+  'EXDATE;TZID=America/New_York:20250305T090000',
+  'SUMMARY:Clinic',
+  'END:VEVENT'
+];
+
+// The Monday of the second week moved to the afternoon
+const moved = [
+  'BEGIN:VEVENT',
+  'UID:clinic-1',
+  'RECURRENCE-ID;TZID=America/New_York:20250310T090000',
+  'DTSTART;TZID=America/New_York:20250310T140000',
+  'DTEND;TZID=America/New_York:20250310T150000',
+  'SUMMARY:Clinic (moved)',
+  'END:VEVENT'
+];
+
+const window = { start: new Date('2025-03-01T00:00:00Z'), end: new Date('2025-04-01T00:00:00Z') };
+
+describe('parseCalendarEvents', () => {
+  it('reads a recurring event as its first occurrence without a window', () => {
+    const events = parseCalendarEvents(calendar(weekly));
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ uid: 'clinic-1', start: new Date('2025-03-03T14:00:00Z'), summary: 'Clinic' });
+  });
+
+  it('expands RRULE and EXDATE over the window, keeping wall-clock time across DST', () => {
+    const starts = parseCalendarEvents(calendar(weekly), window).map(event => event.start.toISOString());
+    expect(starts).toEqual([
+      '2025-03-03T14:00:00.000Z',
+      // 2025-03-05 excluded
+      '2025-03-10T13:00:00.000Z', // EDT from 2025-03-09
+      '2025-03-12T13:00:00.000Z',
+      '2025-03-17T13:00:00.000Z',
+      '2025-03-19T13:00:00.000Z',
+      '2025-03-24T13:00:00.000Z',
+      '2025-03-26T13:00:00.000Z'
+    ]);
+  });
+
+  it('only returns occurrences overlapping the window', () => {
+    const events = parseCalendarEvents(calendar(weekly), {
+      start: new Date('2025-03-17T13:30:00Z'),
+      end: new Date('2025-03-20T00:00:00Z')
+    });
+    expect(events.map(event => event.recurrenceId)).toEqual(['20250317T130000Z', '20250319T130000Z']);
+    expect(events[0].end).toEqual(new Date('2025-03-17T14:00:00Z'));
+  });
+
+  it('replaces an occurrence with its RECURRENCE-ID event', () => {
+    const events = parseCalendarEvents(calendar(weekly, moved), window);
+    const march10 = events.filter(event => event.recurrenceId === '20250310T130000Z');
+    expect(march10).toHaveLength(1);
+    expect(march10[0]).toMatchObject({ summary: 'Clinic (moved)', start: new Date('2025-03-10T18:00:00Z') });
+    expect(events).toHaveLength(7);
+  });
+
+  it('keys occurrences apart and single events by UID', () => {
+    const [single] = parseCalendarEvents(calendar([
+      'BEGIN:VEVENT', 'UID:lunch', 'DTSTART:20250304T170000Z', 'DURATION:PT1H', 'END:VEVENT'
+    ]), window);
+    const occurrences = parseCalendarEvents(calendar(weekly), window);
+
+    expect(calendarEventKey(single)).toBe('lunch');
+    expect(new Set(occurrences.map(calendarEventKey)).size).toBe(occurrences.length);
+    expect(calendarEventKey(occurrences[0])).toBe('clinic-1;20250303T140000Z');
+  });
+
+  it('expands all-day recurrences with RDATE additions', () => {
+    const events = parseCalendarEvents(calendar([
+      'BEGIN:VEVENT',
+      'UID:leave',
+      'DTSTART;VALUE=DATE:20250303',
+      'RRULE:FREQ=MONTHLY;BYMONTHDAY=3;UNTIL=20250503',
+      'RDATE;VALUE=DATE:20250320,20250321',
+      'END:VEVENT'
+    ]), { start: new Date('2025-03-01T00:00:00Z'), end: new Date('2025-06-01T00:00:00Z') });
+
+    expect(events.map(event => event.start.toISOString().slice(0, 10)))
+      .toEqual(['2025-03-03', '2025-03-20', '2025-03-21', '2025-04-03', '2025-05-03']);
+    expect(events[0].end).toEqual(new Date('2025-03-04T00:00:00Z'));
+  });
+
+  it('reads rules finer than daily as their first occurrence', () => {
+    const events = parseCalendarEvents(calendar([
+      'BEGIN:VEVENT', 'UID:rounds', 'DTSTART:20250303T090000Z', 'DTEND:20250303T091500Z', 'RRULE:FREQ=HOURLY;COUNT=4', 'END:VEVENT'
+    ]), window);
+    expect(events).toHaveLength(1);
+    expect(events[0].start).toEqual(new Date('2025-03-03T09:00:00Z'));
+  });
+});
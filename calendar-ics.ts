@@ -0,0 +1,386 @@
+/**
+ * Smart Health Hub - iCalendar (RFC 5545) Support
+ *
+ * Builds VEVENTs for appointments and VCALENDAR documents for subscription
+ * feeds and CalDAV, and reads events back out of external calendars so busy
+ * times can be imported.
+ */
+
+import { type Appointment } from '../../../shared/scheduling-schema';
+import {
+  RecurrenceRuleError,
+  expandRecurrence,
+  isValidTimeZone,
+  localTimeToUtc,
+  toLocalDate
+} from './schedule-recurrence';
+
+const PRODUCT_ID = '-//Smart Health Hub//Scheduling//EN';
+const UID_DOMAIN = 'smarthealthhub';
+
+// VEVENT properties that may appear more than once and are all kept
+const REPEATED_PROPERTIES = ['RDATE', 'EXDATE'];
+
+type Property = { params: Record<string, string>; value: string };
+
+// A VEVENT's properties by name; only the first of each is kept, except REPEATED_PROPERTIES
+type EventProperties = Record<string, Property[]>;
+
+// An event read from an external calendar, or one occurrence of a recurring event
+export interface CalendarEvent {
+  uid: string;
+  recurrenceId?: string; // UTC start of the occurrence (as RECURRENCE-ID), for occurrences of recurring events
+  start: Date;
+  end: Date;
+  summary?: string;
+  status?: string; // TENTATIVE, CONFIRMED or CANCELLED
+  transparent: boolean; // TRANSP:TRANSPARENT events don't block time
+}
+
+/**
+ * iCalendar UID of an appointment's event
+ */
+export function appointmentEventUid(appointmentId: string): string {
+  return `${appointmentId}@${UID_DOMAIN}`;
+}
+
+/**
+ * Key telling occurrences of a recurring event apart; the UID for single events
+ */
+export function calendarEventKey(event: CalendarEvent): string {
+  return event.recurrenceId ? `${event.uid};${event.recurrenceId}` : event.uid;
+}
+
+/**
+ * Whether an event UID belongs to an appointment pushed from SHH
+ */
+export function isAppointmentEventUid(uid: string): boolean {
+  return uid.endsWith(`@${UID_DOMAIN}`);
+}
+
+/**
+ * Build the VEVENT lines for an appointment
+ */
+export function buildAppointmentEvent(
+  appointment: Appointment,
+  sequence: number = 0,
+  now: Date = new Date()
+): string[] {
+  const summary = appointment.reason
+    ? `Appointment: ${appointment.reason}`
+    : `${appointment.appointmentType} appointment`;
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${appointmentEventUid(appointment.id)}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `DTSTART:${formatUtc(appointment.startDateTime)}`,
+    `DTEND:${formatUtc(appointment.endDateTime)}`,
+    `SEQUENCE:${sequence}`,
+    `STATUS:${eventStatus(appointment.status)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    ...(appointment.description ? [`DESCRIPTION:${escapeText(appointment.description)}`] : []),
+    ...(appointment.isTelehealth && appointment.telehealthUrl
+      ? [`LOCATION:${escapeText(appointment.telehealthUrl)}`]
+      : []),
+    `LAST-MODIFIED:${formatUtc(appointment.updatedAt || appointment.createdAt)}`,
+    'END:VEVENT'
+  ];
+}
+
+/**
+ * Wrap events in a VCALENDAR document, folded and CRLF-terminated
+ */
+export function buildCalendar(events: string[][], name?: string): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    ...(name ? [`X-WR-CALNAME:${escapeText(name)}`] : []),
+    ...events.flat(),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Read the VEVENTs of an iCalendar document. Given a window, recurring events
+ * (RRULE, EXRULE, RDATE, EXDATE) are expanded into their occurrences that
+ * overlap it, with occurrences moved or cancelled by a RECURRENCE-ID event
+ * replaced by that event; without one they are read as their first
+ * occurrence only.
+ */
+export function parseCalendarEvents(ics: string, window?: { start: Date; end: Date }): CalendarEvent[] {
+  const parsed: EventProperties[] = [];
+  let current: EventProperties | null = null;
+  let depth = 0; // Nesting inside the VEVENT (e.g. VALARM)
+
+  for (const line of unfold(ics)) {
+    const property = parseProperty(line);
+    if (!property) {
+      continue;
+    }
+
+    if (property.name === 'BEGIN') {
+      if (property.value === 'VEVENT' && !current) {
+        current = {};
+      } else if (current) {
+        depth++;
+      }
+      continue;
+    }
+
+    if (property.name === 'END') {
+      if (current && depth > 0) {
+        depth--;
+      } else if (property.value === 'VEVENT' && current) {
+        parsed.push(current);
+        current = null;
+      }
+      continue;
+    }
+
+    if (current && depth === 0 && (!(property.name in current) || REPEATED_PROPERTIES.includes(property.name))) {
+      (current[property.name] ??= []).push({ params: property.params, value: property.value });
+    }
+  }
+
+  const events = parsed
+    .map(props => ({ props, event: toCalendarEvent(props) }))
+    .filter((entry): entry is { props: EventProperties; event: CalendarEvent } => entry.event !== null);
+
+  if (!window) {
+    return events.map(entry => entry.event);
+  }
+
+  // Occurrences replaced by their own RECURRENCE-ID event
+  const overridden = new Set(events.filter(entry => entry.event.recurrenceId).map(entry => calendarEventKey(entry.event)));
+
+  return events.flatMap(({ props, event }) =>
+    props.RRULE && !event.recurrenceId
+      ? expandOccurrences(event, props, window).filter(occurrence => !overridden.has(calendarEventKey(occurrence)))
+      : [event]
+  );
+}
+
+/**
+ * Format an instant as an iCalendar UTC date-time (e.g., 20250107T140000Z)
+ */
+export function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function eventStatus(status: string): string {
+  switch (status) {
+    case 'cancelled':
+    case 'noshow':
+    case 'entered-in-error':
+      return 'CANCELLED';
+    case 'proposed':
+    case 'pending':
+      return 'TENTATIVE';
+    default:
+      return 'CONFIRMED';
+  }
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+// Lines longer than 75 octets are folded with CRLF + space (RFC 5545 3.1)
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74; // Continuation lines start with a space
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function unfold(ics: string): string[] {
+  return ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(line => line.length > 0);
+}
+
+function parseProperty(line: string): { name: string; params: Record<string, string>; value: string } | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+
+  if (colon < 0) {
+    return null;
+  }
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function toCalendarEvent(props: EventProperties): CalendarEvent | null {
+  const prop = (name: string) => props[name]?.[0];
+  const uid = prop('UID');
+  const dtstart = prop('DTSTART');
+  if (!uid || !dtstart) {
+    return null;
+  }
+
+  const start = parseDateTime(dtstart.value, dtstart.params);
+  if (!start) {
+    return null;
+  }
+
+  let end: Date | null = null;
+  const dtend = prop('DTEND');
+  const duration = prop('DURATION');
+  if (dtend) {
+    end = parseDateTime(dtend.value, dtend.params);
+  } else if (duration) {
+    end = addDuration(start, duration.value);
+  } else if (dtstart.params.VALUE === 'DATE' || /^\d{8}$/.test(dtstart.value)) {
+    // An all-day event without an end lasts one day
+    end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+  }
+
+  const recurrenceId = prop('RECURRENCE-ID');
+  const recurrenceStart = recurrenceId ? parseDateTime(recurrenceId.value, recurrenceId.params) : null;
+
+  return {
+    uid: uid.value,
+    ...(recurrenceStart && { recurrenceId: formatUtc(recurrenceStart) }),
+    start,
+    end: end || start,
+    summary: prop('SUMMARY') ? unescapeText(prop('SUMMARY')!.value) : undefined,
+    status: prop('STATUS')?.value.toUpperCase(),
+    transparent: prop('TRANSP')?.value.toUpperCase() === 'TRANSPARENT'
+  };
+}
+
+/**
+ * Occurrences of a recurring event overlapping a window. Recurrence is
+ * evaluated on local dates in the DTSTART time zone, so occurrences keep their
+ * wall-clock time across DST changes; RDATEs take DTSTART's time of day.
+ * Rules finer than daily (e.g. FREQ=HOURLY) are not expanded, and the event
+ * is read as its first occurrence.
+ */
+function expandOccurrences(event: CalendarEvent, props: EventProperties, window: { start: Date; end: Date }): CalendarEvent[] {
+  const dtstart = props.DTSTART[0];
+  const timeZone = dtstart.params.TZID && isValidTimeZone(dtstart.params.TZID) && !/Z$/i.test(dtstart.value)
+    ? dtstart.params.TZID
+    : 'UTC';
+  const time = /T(\d{2})(\d{2})(\d{2})/.exec(dtstart.value);
+  const timeOfDay = time ? `${time[1]}:${time[2]}` : '00:00';
+  const seconds = time ? parseInt(time[3], 10) : 0;
+  const duration = event.end.getTime() - event.start.getTime();
+
+  let dates: string[];
+  try {
+    dates = expandRecurrence(
+      {
+        rrule: props.RRULE[0].value,
+        exrule: props.EXRULE?.[0].value,
+        rdates: dateValues(props.RDATE),
+        exdates: dateValues(props.EXDATE)
+      },
+      toLocalDate(event.start, timeZone),
+      toLocalDate(new Date(window.start.getTime() - duration), timeZone),
+      toLocalDate(window.end, timeZone),
+      timeZone
+    );
+  } catch (error) {
+    if (error instanceof RecurrenceRuleError) {
+      return [event];
+    }
+    throw error;
+  }
+
+  return dates
+    .map(date => {
+      const start = new Date(localTimeToUtc(date, timeOfDay, timeZone).getTime() + seconds * 1000);
+      return { ...event, recurrenceId: formatUtc(start), start, end: new Date(start.getTime() + duration) };
+    })
+    .filter(occurrence => occurrence.start < window.end && occurrence.end > window.start);
+}
+
+/**
+ * Flatten RDATE/EXDATE properties into DATE values and UTC DATE-TIME values
+ */
+function dateValues(properties: Property[] = []): string[] {
+  return properties.flatMap(property =>
+    property.value.split(',').flatMap(value => {
+      const date = value.split('/')[0].trim(); // RDATE periods count from their start
+      if (/^\d{8}$/.test(date)) {
+        return [date];
+      }
+      const instant = parseDateTime(date, property.params);
+      return instant ? [formatUtc(instant)] : [];
+    })
+  );
+}
+
+/**
+ * Read a DATE or DATE-TIME value: UTC ("Z"), with a TZID, or floating (read as UTC).
+ * All-day dates start at midnight in the TZID if given, otherwise UTC.
+ */
+function parseDateTime(value: string, params: Record<string, string>): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour = '00', minute = '00', second = '00', utc] = match;
+  const timeZone = params.TZID;
+
+  if (!utc && timeZone && isValidTimeZone(timeZone)) {
+    const local = localTimeToUtc(`${year}-${month}-${day}`, `${hour}:${minute}`, timeZone);
+    return new Date(local.getTime() + parseInt(second, 10) * 1000);
+  }
+
+  return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+}
+
+// Durations such as PT30M, PT1H30M, P1D or P1W (RFC 5545 3.3.6)
+function addDuration(start: Date, duration: string): Date | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(duration.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = ((+(weeks || 0) * 7 + +(days || 0)) * 86400 + +(hours || 0) * 3600 + +(minutes || 0) * 60 + +(seconds || 0)) * 1000;
+  return new Date(start.getTime() + (sign === '-' ? -ms : ms));
+}
@@ -0,0 +1,185 @@
+/**
+ * Calendar Sync API Routes
+ *
+ * Signed iCalendar subscription feeds, CalDAV calendar connections, busy time
+ * import and sync conflict resolution.
+ */
+
+import express from 'express';
+import { z } from 'zod';
+import logger from '../../../server/utils/logger';
+import { insertCalendarConnectionSchema } from '../../../shared/scheduling-schema';
+import { calendarSyncService } from './calendar-sync-service';
+import { CalDavError } from './caldav-client';
+
+// Create a router
+const router = express.Router();
+
+// Middleware to check if the user is authenticated
+const isAuthenticated = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'Not authenticated' });
+  }
+  next();
+};
+
+const resolveConflictSchema = z.object({
+  keep: z.enum(['local', 'remote'])
+});
+
+/**
+ * @swagger
+ * /api/calendar/feed/{token}.ics:
+ *   get:
+ *     summary: iCalendar subscription feed of a user's synced appointments
+ *     tags: [Calendar Sync]
+ *     description: The signed token in the URL authenticates the request, so calendar apps can subscribe without a session.
+ *     responses:
+ *       200:
+ *         description: text/calendar feed
+ *       404:
+ *         description: Unknown or invalid feed token
+ */
+router.get('/feed/:token.ics', async (req, res) => {
+  try {
+    const userId = calendarSyncService.verifyFeedToken(req.params.token);
+    if (!userId) {
+      return res.status(404).json({ message: 'Calendar feed not found' });
+    }
+
+    const ics = await calendarSyncService.buildFeed(userId);
+    res.type('text/calendar; charset=utf-8').send(ics);
+  } catch (error) {
+    logger.error('Error building calendar feed', { error: (error as Error).message });
+    res.status(500).json({ message: 'Failed to build calendar feed', error: (error as Error).message });
+  }
+});
+
+/**
+ * @swagger
+ * /api/calendar/feed-url:
+ *   get:
+ *     summary: Get the current user's signed calendar feed URL
+ *     tags: [Calendar Sync]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Feed URL to subscribe to
+ *       401:
+ *         description: Not authenticated
+ */
+router.get('/feed-url', isAuthenticated, (req, res) => {
+  const token = calendarSyncService.createFeedToken(String(req.user!.id));
+  res.json({ url: `${req.protocol}://${req.get('host')}${req.baseUrl}/feed/${token}.ics` });
+});
+
+/**
+ * @swagger
+ * /api/calendar/connections:
+ *   post:
+ *     summary: Connect a CalDAV calendar for the current user
+ *     tags: [Calendar Sync]
+ *     description: The calendar URL must be a public https URL. Only admins may set providerId, the provider whose schedules receive busy times.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Calendar connection created
+ *       400:
+ *         description: Invalid connection data or calendar URL
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - only admins may import busy times for a provider
+ */
+router.post('/connections', isAuthenticated, async (req, res) => {
+  try {
+    const data = insertCalendarConnectionSchema.parse({
+      ...req.body,
+      userId: String(req.user!.id)
+    });
+
+    // Users are not linked to provider records, so a provider's schedules can only be blocked out by an admin
+    if (data.providerId && req.user!.role !== 'admin') {
+      return res.status(403).json({ message: 'Forbidden: Admin access required to import busy times for a provider' });
+    }
+
+    const connection = await calendarSyncService.createConnection(data);
+    res.status(201).json({ ...connection, credentials: undefined });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid calendar connection', errors: error.errors });
+    }
+    if (error instanceof CalDavError) {
+      return res.status(400).json({ message: error.message });
+    }
+
+    logger.error('Error creating calendar connection', { error: (error as Error).message });
+    res.status(500).json({ message: 'Failed to create calendar connection', error: (error as Error).message });
+  }
+});
+
+/**
+ * @swagger
+ * /api/calendar/connections/{id}/pull-busy:
+ *   post:
+ *     summary: Import busy times from a connected calendar as blackout periods now
+ *     tags: [Calendar Sync]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Counts of blackout periods created, updated and removed
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Connection not found
+ */
+router.post('/connections/:id/pull-busy', isAuthenticated, async (req, res) => {
+  try {
+    const connection = await calendarSyncService.getConnection(req.params.id);
+    if (!connection || connection.userId !== String(req.user!.id)) {
+      return res.status(404).json({ message: 'Calendar connection not found' });
+    }
+
+    const result = await calendarSyncService.pullBusyTimes(connection.id);
+    res.json(result);
+  } catch (error) {
+    logger.error('Error pulling busy times', { error: (error as Error).message });
+    res.status(502).json({ message: 'Failed to pull busy times', error: (error as Error).message });
+  }
+});
+
+/**
+ * @swagger
+ * /api/calendar/sync/{id}/resolve:
+ *   post:
+ *     summary: Resolve a sync conflict by keeping the local appointment or the external event
+ *     tags: [Calendar Sync]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Updated calendar sync record
+ *       400:
+ *         description: Invalid request or record not in conflict
+ *       401:
+ *         description: Not authenticated
+ */
+router.post('/sync/:id/resolve', isAuthenticated, async (req, res) => {
+  try {
+    const { keep } = resolveConflictSchema.parse(req.body);
+    const record = await calendarSyncService.resolveConflict(req.params.id, String(req.user!.id), keep);
+    res.json(record);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid conflict resolution', errors: error.errors });
+    }
+
+    logger.error('Error resolving calendar sync conflict', { error: (error as Error).message });
+    res.status(400).json({ message: 'Failed to resolve calendar sync conflict', error: (error as Error).message });
+  }
+});
+
+export default router;
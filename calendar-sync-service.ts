@@ -0,0 +1,533 @@
+/**
+ * Smart Health Hub - Calendar Sync Service
+ *
+ * Two-way sync between appointments and users' calendars:
+ * - a signed iCalendar subscription feed per user of the appointments they
+ *   synced with the "ics" provider
+ * - CalDAV push of appointment creates, updates and cancellations, with
+ *   external edits detected through ETags and recorded as conflicts
+ * - pulling a provider's busy times from their CalDAV calendar into
+ *   blackout periods on the provider's schedules
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { eq, and } from 'drizzle-orm';
+import { db } from '../../db';
+import logger from '../../../server/utils/logger';
+import {
+  appointments,
+  calendarSync,
+  calendarConnections,
+  schedules,
+  type Appointment,
+  type CalendarSync,
+  type CalendarConnection,
+  type InsertCalendarConnection
+} from '../../../shared/scheduling-schema';
+import { schedulingService } from './scheduling-service';
+import {
+  appointmentEventUid,
+  buildAppointmentEvent,
+  buildCalendar,
+  calendarEventKey,
+  isAppointmentEventUid
+} from './calendar-ics';
+import { CalDavClient, CalDavConflictError, assertCalendarUrl } from './caldav-client';
+
+// Appointment statuses whose event is removed from a CalDAV calendar
+const REMOVED_STATUSES = ['cancelled', 'entered-in-error'];
+
+export class CalendarSyncService {
+  private feedSecret = process.env.CALENDAR_FEED_SECRET || 'dev-calendar-feed-secret';
+  // Only for development against a local CalDAV server such as the stand-in
+  private allowPrivateCalendarHosts = process.env.CALDAV_ALLOW_PRIVATE_HOSTS === 'true';
+  // How far ahead busy times are pulled
+  private busyPullHorizonDays = 60;
+
+  constructor() {
+    logger.info('Initializing Calendar Sync Service');
+  }
+
+  // ========== SUBSCRIPTION FEED ==========
+
+  /**
+   * Create the token for a user's feed URL. The token carries the user ID and
+   * an HMAC of it, so the feed can be fetched by calendar apps without a session.
+   */
+  createFeedToken(userId: string): string {
+    const encodedUserId = Buffer.from(userId).toString('base64url');
+    return `${encodedUserId}.${this.signFeed(encodedUserId)}`;
+  }
+
+  /**
+   * Verify a feed token, returning the user ID it was issued for
+   */
+  verifyFeedToken(token: string): string | null {
+    const [encodedUserId, signature] = token.split('.');
+    if (!encodedUserId || !signature) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.signFeed(encodedUserId));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    return Buffer.from(encodedUserId, 'base64url').toString();
+  }
+
+  /**
+   * Build a user's iCalendar feed. Cancelled appointments stay in the feed
+   * with STATUS:CANCELLED so subscribed calendars remove them.
+   */
+  async buildFeed(userId: string): Promise<string> {
+    const rows = await db.select({ appointment: appointments, sync: calendarSync })
+      .from(calendarSync)
+      .innerJoin(appointments, eq(calendarSync.appointmentId, appointments.id))
+      .where(
+        and(
+          eq(calendarSync.userId, userId),
+          eq(calendarSync.calendarProvider, 'ics')
+        )
+      )
+      .orderBy(appointments.startDateTime);
+
+    const now = new Date();
+    return buildCalendar(
+      rows.map(row => buildAppointmentEvent(row.appointment, row.sync.sequence, now)),
+      'Smart Health Hub Appointments'
+    );
+  }
+
+  // ========== CONNECTIONS ==========
+
+  /**
+   * Connect a user's CalDAV calendar. The calendar URL must be a public
+   * https URL, since the server makes requests to it.
+   */
+  async createConnection(data: InsertCalendarConnection): Promise<CalendarConnection> {
+    if (data.pullBusyTimes && !data.providerId) {
+      throw new Error('A provider is required to pull busy times');
+    }
+
+    assertCalendarUrl(data.calendarUrl, this.allowPrivateCalendarHosts);
+
+    const [connection] = await db.insert(calendarConnections)
+      .values({
+        ...data,
+        id: data.id || uuidv4(),
+        updatedAt: new Date()
+      })
+      .returning();
+
+    return connection;
+  }
+
+  /**
+   * Get a calendar connection by ID
+   */
+  async getConnection(connectionId: string): Promise<CalendarConnection | undefined> {
+    const [connection] = await db.select()
+      .from(calendarConnections)
+      .where(eq(calendarConnections.id, connectionId));
+
+    return connection;
+  }
+
+  /**
+   * Get a user's active CalDAV connection
+   */
+  async getUserConnection(userId: string): Promise<CalendarConnection | undefined> {
+    const [connection] = await db.select()
+      .from(calendarConnections)
+      .where(
+        and(
+          eq(calendarConnections.userId, userId),
+          eq(calendarConnections.isActive, true)
+        )
+      );
+
+    return connection;
+  }
+
+  // ========== PUSH ==========
+
+  /**
+   * Sync an appointment to a user's calendar: "ics" adds it to the user's
+   * feed, "caldav" writes it to their connected calendar. Failures are
+   * recorded on the returned calendar_sync row rather than thrown.
+   */
+  async syncAppointment(appointment: Appointment, userId: string, calendarProvider: string): Promise<CalendarSync> {
+    if (calendarProvider !== 'ics' && calendarProvider !== 'caldav') {
+      throw new Error(`Unsupported calendar provider: ${calendarProvider}`);
+    }
+
+    const [existing] = await db.select()
+      .from(calendarSync)
+      .where(
+        and(
+          eq(calendarSync.appointmentId, appointment.id),
+          eq(calendarSync.userId, userId),
+          eq(calendarSync.calendarProvider, calendarProvider)
+        )
+      );
+
+    if (calendarProvider === 'ics') {
+      return existing || await this.insertRecord({
+        appointmentId: appointment.id,
+        userId,
+        calendarProvider,
+        externalEventId: appointmentEventUid(appointment.id),
+        syncStatus: 'synced'
+      });
+    }
+
+    const connection = await this.getUserConnection(userId);
+    if (!connection) {
+      throw new Error('No CalDAV calendar connected for user');
+    }
+
+    const record = existing || await this.insertRecord({
+      appointmentId: appointment.id,
+      userId,
+      calendarProvider,
+      connectionId: connection.id,
+      externalEventId: appointmentEventUid(appointment.id),
+      syncStatus: 'pending'
+    });
+
+    return await this.pushToCalendar(appointment, record, connection);
+  }
+
+  /**
+   * Push an appointment change to every calendar it is synced to
+   */
+  async pushAppointmentChanges(appointmentId: string): Promise<CalendarSync[]> {
+    const appointment = await schedulingService.getAppointment(appointmentId);
+    if (!appointment) {
+      return [];
+    }
+
+    const records = await db.select()
+      .from(calendarSync)
+      .where(eq(calendarSync.appointmentId, appointmentId));
+
+    const results: CalendarSync[] = [];
+    for (const record of records) {
+      if (record.calendarProvider === 'ics') {
+        // The feed is built on request; bumping SEQUENCE tells subscribers the event changed
+        results.push(await this.updateRecord(record.id, {
+          sequence: record.sequence + 1,
+          syncStatus: 'synced',
+          lastSyncAt: new Date()
+        }));
+        continue;
+      }
+
+      // Don't overwrite an external edit until the conflict is resolved
+      if (record.syncStatus === 'conflict') {
+        results.push(record);
+        continue;
+      }
+
+      const connection = record.connectionId ? await this.getConnection(record.connectionId) : undefined;
+      if (!connection || !connection.isActive) {
+        results.push(await this.updateRecord(record.id, {
+          syncStatus: 'failed',
+          errorMessage: 'Calendar connection is no longer active',
+          lastSyncAt: new Date()
+        }));
+        continue;
+      }
+
+      results.push(await this.pushToCalendar(appointment, record, connection, record.sequence + 1));
+    }
+
+    return results;
+  }
+
+  /**
+   * Resolve a sync conflict, keeping either the SHH appointment (overwriting
+   * the external event) or the external event as it now is
+   */
+  async resolveConflict(syncId: string, userId: string, keep: 'local' | 'remote'): Promise<CalendarSync> {
+    const [record] = await db.select()
+      .from(calendarSync)
+      .where(eq(calendarSync.id, syncId));
+
+    if (!record || record.userId !== userId) {
+      throw new Error('Calendar sync record not found');
+    }
+
+    if (record.syncStatus !== 'conflict') {
+      throw new Error('Calendar sync record is not in conflict');
+    }
+
+    if (keep === 'remote') {
+      const remoteEtag = (record.conflictDetails as { remoteEtag?: string } | null)?.remoteEtag;
+      return await this.updateRecord(record.id, {
+        syncStatus: 'synced',
+        etag: remoteEtag || null,
+        conflictDetails: null,
+        errorMessage: null,
+        lastSyncAt: new Date()
+      });
+    }
+
+    const appointment = await schedulingService.getAppointment(record.appointmentId);
+    const connection = record.connectionId ? await this.getConnection(record.connectionId) : undefined;
+    if (!appointment || !connection) {
+      throw new Error('Appointment or calendar connection no longer exists');
+    }
+
+    return await this.pushToCalendar(appointment, record, connection, record.sequence + 1, true);
+  }
+
+  /**
+   * Write (or remove) the appointment's event and record the outcome
+   */
+  private async pushToCalendar(
+    appointment: Appointment,
+    record: CalendarSync,
+    connection: CalendarConnection,
+    sequence: number = record.sequence,
+    overwrite: boolean = false
+  ): Promise<CalendarSync> {
+    const client = this.clientFor(connection);
+    const uid = record.externalEventId || appointmentEventUid(appointment.id);
+
+    try {
+      if (REMOVED_STATUSES.includes(appointment.status)) {
+        await client.deleteEvent(uid, overwrite ? null : record.etag);
+        return await this.updateRecord(record.id, {
+          etag: null,
+          sequence,
+          syncStatus: 'synced',
+          errorMessage: null,
+          conflictDetails: null,
+          lastSyncAt: new Date()
+        });
+      }
+
+      const etag = await client.putEvent(
+        uid,
+        buildCalendar([buildAppointmentEvent(appointment, sequence)]),
+        { etag: overwrite ? null : record.etag, overwrite }
+      );
+
+      return await this.updateRecord(record.id, {
+        externalEventId: uid,
+        etag: etag || null,
+        sequence,
+        syncStatus: 'synced',
+        errorMessage: null,
+        conflictDetails: null,
+        lastSyncAt: new Date()
+      });
+    } catch (error) {
+      if (error instanceof CalDavConflictError) {
+        logger.warn('Calendar sync conflict', { syncId: record.id, appointmentId: appointment.id, uid });
+        return await this.updateRecord(record.id, {
+          syncStatus: 'conflict',
+          errorMessage: error.message,
+          conflictDetails: {
+            localEtag: record.etag,
+            remoteEtag: error.remoteEtag,
+            localSequence: sequence,
+            appointmentStatus: appointment.status,
+            detectedAt: new Date().toISOString()
+          },
+          lastSyncAt: new Date()
+        });
+      }
+
+      logger.error('Calendar sync failed', {
+        syncId: record.id,
+        appointmentId: appointment.id,
+        error: (error as Error).message
+      });
+      return await this.updateRecord(record.id, {
+        syncStatus: 'failed',
+        errorMessage: (error as Error).message,
+        lastSyncAt: new Date()
+      });
+    }
+  }
+
+  // ========== BUSY TIME PULL ==========
+
+  /**
+   * Import a provider's busy times from their calendar as blackout periods on
+   * each of their schedules. Blackouts imported earlier are updated or removed
+   * to match the calendar; events pushed from SHH are ignored.
+   */
+  async pullBusyTimes(
+    connectionId: string,
+    start: Date = new Date(),
+    end: Date = new Date(Date.now() + this.busyPullHorizonDays * 24 * 60 * 60 * 1000)
+  ): Promise<{ created: number; updated: number; removed: number }> {
+    const connection = await this.getConnection(connectionId);
+    if (!connection) {
+      throw new Error('Calendar connection not found');
+    }
+
+    if (!connection.providerId) {
+      throw new Error('Calendar connection has no provider to import busy times for');
+    }
+
+    const source = `calendar:${connection.id}`;
+    const counts = { created: 0, updated: 0, removed: 0 };
+
+    try {
+      const events = (await this.clientFor(connection).listEvents(start, end))
+        .filter(event =>
+          !isAppointmentEventUid(event.uid) &&
+          !event.transparent &&
+          event.status !== 'CANCELLED' &&
+          event.end > event.start
+        );
+      // Occurrences of a recurring event each get a blackout, keyed by UID and occurrence
+      const busyByKey = new Map(events.map(event => [calendarEventKey(event), event]));
+
+      const providerSchedules = await db.select()
+        .from(schedules)
+        .where(and(
+          eq(schedules.providerId, connection.providerId),
+          eq(schedules.status, 'active')
+        ));
+
+      for (const schedule of providerSchedules) {
+        const imported = (await schedulingService.getBlackoutPeriods(schedule.id, start, end))
+          .filter(blackout => blackout.source === source);
+        const importedByKey = new Map(imported.map(blackout => [blackout.externalEventId, blackout]));
+
+        for (const [key, event] of busyByKey) {
+          const blackout = importedByKey.get(key);
+
+          if (!blackout) {
+            await schedulingService.createBlackoutPeriod({
+              scheduleId: schedule.id,
+              startDateTime: event.start,
+              endDateTime: event.end,
+              reason: event.summary ? `Busy: ${event.summary}` : 'Busy in external calendar',
+              source,
+              externalEventId: key
+            });
+            counts.created++;
+          } else if (
+            blackout.startDateTime.getTime() !== event.start.getTime() ||
+            blackout.endDateTime.getTime() !== event.end.getTime()
+          ) {
+            await schedulingService.updateBlackoutPeriod(blackout.id, {
+              startDateTime: event.start,
+              endDateTime: event.end
+            });
+            counts.updated++;
+          }
+        }
+
+        for (const blackout of imported) {
+          if (!blackout.externalEventId || !busyByKey.has(blackout.externalEventId)) {
+            await schedulingService.deleteBlackoutPeriod(blackout.id);
+            counts.removed++;
+          }
+        }
+      }
+
+      await db.update(calendarConnections)
+        .set({
+          lastBusyPullAt: new Date(),
+          lastError: null,
+          updatedAt: new Date()
+        })
+        .where(eq(calendarConnections.id, connection.id));
+
+      logger.info('Pulled busy times from calendar', { connectionId, ...counts });
+      return counts;
+    } catch (error) {
+      await db.update(calendarConnections)
+        .set({
+          lastError: (error as Error).message,
+          updatedAt: new Date()
+        })
+        .where(eq(calendarConnections.id, connection.id));
+
+      throw error;
+    }
+  }
+
+  /**
+   * Pull busy times for every active connection that imports them
+   */
+  async pullAllBusyTimes(): Promise<void> {
+    const connections = await db.select()
+      .from(calendarConnections)
+      .where(
+        and(
+          eq(calendarConnections.isActive, true),
+          eq(calendarConnections.pullBusyTimes, true)
+        )
+      );
+
+    for (const connection of connections) {
+      try {
+        await this.pullBusyTimes(connection.id);
+      } catch (error) {
+        logger.error('Error pulling busy times', { connectionId: connection.id, error: (error as Error).message });
+      }
+    }
+  }
+
+  /**
+   * Start pulling busy times on a timer
+   */
+  startPeriodicBusyPull(intervalMs: number = 15 * 60 * 1000): void {
+    setInterval(() => {
+      this.pullAllBusyTimes().catch(error => {
+        logger.error('Error in periodic busy time pull:', error);
+      });
+    }, intervalMs).unref();
+  }
+
+  private clientFor(connection: CalendarConnection): CalDavClient {
+    return new CalDavClient(connection.calendarUrl, connection.credentials || {}, {
+      allowPrivateHosts: this.allowPrivateCalendarHosts
+    });
+  }
+
+  private signFeed(encodedUserId: string): string {
+    return createHmac('sha256', this.feedSecret).update(`calendar-feed.${encodedUserId}`).digest('base64url');
+  }
+
+  private async insertRecord(
+    data: Pick<CalendarSync, 'appointmentId' | 'userId' | 'calendarProvider' | 'externalEventId' | 'syncStatus'> &
+      Partial<Pick<CalendarSync, 'connectionId'>>
+  ): Promise<CalendarSync> {
+    const [record] = await db.insert(calendarSync)
+      .values({
+        ...data,
+        id: uuidv4(),
+        lastSyncAt: new Date()
+      })
+      .returning();
+
+    return record;
+  }
+
+  private async updateRecord(
+    syncId: string,
+    data: Partial<Omit<CalendarSync, 'id' | 'appointmentId' | 'userId'>>
+  ): Promise<CalendarSync> {
+    const [record] = await db.update(calendarSync)
+      .set(data)
+      .where(eq(calendarSync.id, syncId))
+      .returning();
+
+    return record;
+  }
+}
+
+// Singleton instance
+export const calendarSyncService = new CalendarSyncService();
@@ -0,0 +1,386 @@
+/**
+ * Smart Health Hub - Census Import Service
+ *
+ * Ingests employer eligibility files: weekly HR census CSVs and X12 834
+ * enrollment files. A file is first previewed: it is parsed and diffed against
+ * the employer's current employees (see employee-census), and the adds,
+ * updates, terminations and reactivations are stored for review. Committing
+ * applies them in one transaction, provided the employees they touch have not
+ * changed since the preview, and returns the change report.
+ */
+
+import { eq, and, asc, desc, inArray } from 'drizzle-orm';
+import { db } from '../../db';
+import logger from '../../utils/logger';
+import {
+  employees,
+  employerDepartments,
+  employerLocations,
+  censusImports,
+  censusImportChanges,
+  type CensusImport,
+  type CensusImportChange,
+  type CensusImportIssue,
+  type CensusImportSummary,
+  type Employee
+} from '../../../shared/employer-schema';
+import {
+  diffCensus,
+  readCensus834,
+  readCensusCsv,
+  resolveCensusRows,
+  sameValue,
+  type CensusFields,
+  type CensusRecord,
+  type CensusRow
+} from './employee-census';
+import { parse834 } from './x12-enrollment';
+import { X12ParseError } from './x12-utils';
+
+/**
+ * A census import request that cannot be carried out, with the HTTP status to report
+ */
+export class CensusImportError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 409
+  ) {
+    super(message);
+    this.name = 'CensusImportError';
+  }
+}
+
+/**
+ * An uploaded eligibility file
+ */
+export interface CensusFile {
+  format: 'csv' | 'x12_834';
+  content: string;
+  fileName?: string;
+  mode?: 'full' | 'changes'; // Defaults to full for CSV, and to what an 834 declares
+  effectiveDate?: Date; // Defaults to now
+}
+
+/**
+ * An import with its changes: the preview before committing, the change report after
+ */
+export interface CensusImportReport {
+  import: CensusImport;
+  changes: CensusImportChange[];
+}
+
+const DATE_FIELDS: (keyof CensusFields)[] = ['hireDate', 'terminationDate'];
+
+/**
+ * Census Import Service
+ */
+export class CensusImportService {
+
+  /**
+   * Parse and diff an eligibility file, storing the changes it would make for review
+   */
+  async previewFile(employerId: string, file: CensusFile, uploadedBy?: string): Promise<CensusImportReport> {
+    try {
+      let rows: CensusRow[];
+      let issues: CensusImportIssue[];
+      let mode = file.mode;
+
+      try {
+        if (file.format === 'x12_834') {
+          const enrollment = parse834(file.content);
+          ({ rows, issues } = readCensus834(enrollment));
+          mode = mode || (enrollment.fullFile ? 'full' : 'changes');
+        } else {
+          ({ rows, issues } = await readCensusCsv(file.content));
+          mode = mode || 'full';
+        }
+      } catch (error) {
+        throw new CensusImportError(`Could not read ${file.fileName || 'census file'}: ${(error as Error).message}`, 400);
+      }
+
+      const [departments, locations] = await Promise.all([
+        db.select().from(employerDepartments).where(eq(employerDepartments.employerId, employerId)),
+        db.select().from(employerLocations).where(eq(employerLocations.employerId, employerId))
+      ]);
+      const resolved = resolveCensusRows(rows, departments, locations);
+
+      return await this.previewRecords(employerId, resolved.records, {
+        format: file.format,
+        fileName: file.fileName,
+        mode,
+        effectiveDate: file.effectiveDate,
+        issues: [...issues, ...resolved.issues]
+      }, uploadedBy);
+    } catch (error) {
+      if (error instanceof X12ParseError) {
+        throw new CensusImportError(`Invalid 834 file: ${error.message}`, 400);
+      }
+      logger.error(`Error previewing census file for employer ${employerId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Diff census records against the employer's employees and store the changes for review
+   */
+  async previewRecords(
+    employerId: string,
+    records: CensusRecord[],
+    options: { format: string; mode: 'full' | 'changes'; fileName?: string; effectiveDate?: Date; issues?: CensusImportIssue[] },
+    uploadedBy?: string
+  ): Promise<CensusImportReport> {
+    try {
+      const current = await db.select().from(employees).where(eq(employees.employerId, employerId));
+      const effectiveDate = options.effectiveDate || new Date();
+      const diff = diffCensus(current, records, options.mode, effectiveDate);
+      const issues = [...(options.issues || []), ...diff.issues].sort((a, b) => a.line - b.line);
+
+      const summary: CensusImportSummary = {
+        records: records.length,
+        adds: diff.changes.filter(change => change.changeType === 'add').length,
+        updates: diff.changes.filter(change => change.changeType === 'update').length,
+        terminations: diff.changes.filter(change => change.changeType === 'terminate').length,
+        reactivations: diff.changes.filter(change => change.changeType === 'reactivate').length,
+        unchanged: diff.unchanged,
+        errors: issues.filter(issue => issue.severity === 'error').length,
+        warnings: issues.filter(issue => issue.severity === 'warning').length
+      };
+
+      const report = await db.transaction(async (tx) => {
+        const [censusImport] = await tx
+          .insert(censusImports)
+          .values({
+            employerId,
+            format: options.format,
+            fileName: options.fileName,
+            mode: options.mode,
+            effectiveDate,
+            status: 'previewed',
+            summary,
+            issues,
+            uploadedBy,
+            createdAt: new Date()
+          })
+          .returning();
+
+        const changes = diff.changes.length === 0 ? [] : await tx
+          .insert(censusImportChanges)
+          .values(diff.changes.map(change => ({ ...change, importId: censusImport.id })))
+          .returning();
+
+        return { import: censusImport, changes };
+      });
+
+      logger.info(`Previewed census import ${report.import.id} for employer ${employerId}`, summary);
+      return report;
+    } catch (error) {
+      logger.error(`Error previewing census records for employer ${employerId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply a previewed import's changes in one transaction. Fails without
+   * changing anything if an employee it touches has changed since the preview.
+   */
+  async commitImport(importId: string, committedBy?: string): Promise<CensusImportReport | undefined> {
+    try {
+      const report = await db.transaction(async (tx) => {
+        const [censusImport] = await tx
+          .select()
+          .from(censusImports)
+          .where(eq(censusImports.id, importId))
+          .for('update'); // Lock the row
+
+        if (!censusImport) {
+          return undefined;
+        }
+        if (censusImport.status !== 'previewed') {
+          throw new CensusImportError(`Census import ${importId} is ${censusImport.status}`);
+        }
+
+        const changes = await tx
+          .select()
+          .from(censusImportChanges)
+          .where(eq(censusImportChanges.importId, importId))
+          .orderBy(asc(censusImportChanges.line));
+
+        // Lock the employer's employees so they cannot change while the import is checked and applied
+        const current = await tx
+          .select()
+          .from(employees)
+          .where(eq(employees.employerId, censusImport.employerId))
+          .for('update'); // Lock the rows
+
+        const stale = staleChanges(changes, current);
+        if (stale.length > 0) {
+          throw new CensusImportError(
+            `${stale.length} employees changed since the preview (${stale.slice(0, 5).join(', ')}${stale.length > 5 ? ', ...' : ''}); preview the file again`
+          );
+        }
+
+        const now = new Date();
+        const applied: CensusImportChange[] = [];
+        for (const change of changes) {
+          const values = employeeValues(change.after as Partial<CensusFields>);
+          let employeeId = change.employeeId;
+
+          if (change.changeType === 'add') {
+            const [employee] = await tx
+              .insert(employees)
+              .values({ ...values, email: values.email!, employerId: censusImport.employerId, createdAt: now })
+              .returning({ id: employees.id });
+            employeeId = employee.id;
+          } else {
+            await tx
+              .update(employees)
+              .set({ ...values, updatedAt: now })
+              .where(eq(employees.id, change.employeeId!));
+          }
+
+          const [updated] = await tx
+            .update(censusImportChanges)
+            .set({ employeeId, status: 'applied', appliedAt: now })
+            .where(eq(censusImportChanges.id, change.id))
+            .returning();
+          applied.push(updated);
+        }
+
+        const [committed] = await tx
+          .update(censusImports)
+          .set({ status: 'committed', committedBy, committedAt: now, updatedAt: now })
+          .where(eq(censusImports.id, importId))
+          .returning();
+
+        return { import: committed, changes: applied };
+      });
+
+      if (report) {
+        logger.info(`Committed census import ${importId}: ${report.changes.length} employee changes applied`, report.import.summary);
+      }
+      return report;
+    } catch (error) {
+      logger.error(`Error committing census import ${importId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Discard a previewed import
+   */
+  async discardImport(importId: string): Promise<CensusImport | undefined> {
+    try {
+      const [censusImport] = await db
+        .update(censusImports)
+        .set({ status: 'discarded', discardedAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(censusImports.id, importId), eq(censusImports.status, 'previewed')))
+        .returning();
+
+      if (!censusImport) {
+        const [existing] = await db.select().from(censusImports).where(eq(censusImports.id, importId));
+        if (existing) {
+          throw new CensusImportError(`Census import ${importId} is ${existing.status}`);
+        }
+      }
+      return censusImport;
+    } catch (error) {
+      logger.error(`Error discarding census import ${importId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get an import with its changes: the preview, or the change report once committed
+   */
+  async getImport(importId: string): Promise<CensusImportReport | undefined> {
+    try {
+      const [censusImport] = await db.select().from(censusImports).where(eq(censusImports.id, importId));
+      if (!censusImport) {
+        return undefined;
+      }
+
+      const changes = await db
+        .select()
+        .from(censusImportChanges)
+        .where(eq(censusImportChanges.importId, importId))
+        .orderBy(asc(censusImportChanges.line));
+      return { import: censusImport, changes };
+    } catch (error) {
+      logger.error(`Error getting census import ${importId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get an employer's imports, newest first
+   */
+  async getImports(employerId: string, limit: number = 50): Promise<CensusImport[]> {
+    try {
+      return await db
+        .select()
+        .from(censusImports)
+        .where(eq(censusImports.employerId, employerId))
+        .orderBy(desc(censusImports.createdAt))
+        .limit(limit);
+    } catch (error) {
+      logger.error(`Error getting census imports for employer ${employerId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the employees an import added or changed
+   */
+  async getAppliedEmployees(report: CensusImportReport): Promise<Employee[]> {
+    const ids = report.changes.map(change => change.employeeId).filter((id): id is string => id !== null);
+    if (ids.length === 0) {
+      return [];
+    }
+    return await db.select().from(employees).where(inArray(employees.id, ids));
+  }
+}
+
+/**
+ * Keys of the employees whose changes no longer apply to the current data:
+ * changed fields that no longer hold their previewed values, or adds whose
+ * employee now exists
+ */
+function staleChanges(changes: CensusImportChange[], current: Employee[]): string[] {
+  const byId = new Map(current.map(employee => [employee.id, employee]));
+  const employeeIds = new Set(current.map(employee => employee.employeeId).filter(Boolean));
+  const emails = new Set(current.map(employee => employee.email.toLowerCase()));
+
+  const stale: string[] = [];
+  for (const change of changes) {
+    if (change.changeType === 'add') {
+      const after = change.after as Partial<CensusFields>;
+      if ((after.employeeId && employeeIds.has(after.employeeId)) || (after.email && emails.has(after.email.toLowerCase()))) {
+        stale.push(change.employeeKey);
+      }
+      continue;
+    }
+
+    const employee = change.employeeId ? byId.get(change.employeeId) : undefined;
+    const before = (change.before || {}) as Partial<CensusFields>;
+    if (!employee || Object.entries(before).some(([field, value]) => !sameValue(employee[field as keyof CensusFields], value))) {
+      stale.push(change.employeeKey);
+    }
+  }
+  return stale;
+}
+
+/**
+ * Employee column values from stored change values, whose dates have been through JSON
+ */
+function employeeValues(after: Partial<CensusFields>): Partial<CensusFields> {
+  const values: Record<string, unknown> = { ...after };
+  for (const field of DATE_FIELDS) {
+    if (typeof values[field] === 'string') {
+      values[field] = new Date(values[field] as string);
+    }
+  }
+  return values as Partial<CensusFields>;
+}
+
+// Create and export the service instance
+export const censusImportService = new CensusImportService();
@@ -100,10 +100,23 @@ export const claimPayerForwards = pgTable('claim_payer_forwards', {
   attemptCount: integer('attempt_count').notNull().default(0),
   nextAttempt: timestamp('next_attempt'),
   errorDetails: jsonb('error_details'),
+  interchangeControlNumber: text('interchange_control_number'), // ISA13 of the 837 sent (X12 only)
+  groupControlNumber: text('group_control_number'), // GS06 of the 837 sent, echoed on 999 AK1
+  senderId: text('sender_id'), // ISA06 of the 837 sent (X12 only)
+  receiverId: text('receiver_id'), // ISA08 of the 837 sent (X12 only)
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 });
 
+//-----------------------------------------------
+// X12 Control Numbers Table
+//-----------------------------------------------
+export const x12ControlNumbers = pgTable('x12_control_numbers', {
+  senderId: text('sender_id').primaryKey(), // ISA06 interchange sender
+  lastControlNumber: integer('last_control_number').notNull().default(0),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
 //-----------------------------------------------
 // Claim Rules Cache Table (Internal Processing)
 //-----------------------------------------------
@@ -624,27 +624,31 @@ const ConsentPage: React.FC = () => {
                       </div>
                     </div>
                   </CardContent>
-                  <CardFooter className="pt-2 flex justify-end gap-2">
-                    <Button 
-                      variant="destructive" 
-                      size="sm"
-                      onClick={() => {
-                        respondToRequestMutation.mutate({
-                          requestId: request.requestId,
-                          response: { approved: false }
-                        });
-                      }}
-                    >
-                      <XCircle className="mr-2 h-4 w-4" /> Deny
-                    </Button>
-                    <Button 
-                      variant="default" 
-                      size="sm"
-                      onClick={() => handleRequestSelect(request)}
-                    >
-                      <CheckCircle className="mr-2 h-4 w-4" /> Approve
-                    </Button>
-                  </CardFooter>
+                  {request.status === 'pending' && (
+                    <CardFooter className="pt-2 flex justify-end gap-2">
+                      <Button 
+                        variant="destructive" 
+                        size="sm"
+                        disabled={respondToRequestMutation.isPending}
+                        onClick={() => {
+                          respondToRequestMutation.mutate({
+                            requestId: request.requestId,
+                            response: { approved: false }
+                          });
+                        }}
+                      >
+                        <XCircle className="mr-2 h-4 w-4" /> Deny
+                      </Button>
+                      <Button 
+                        variant="default" 
+                        size="sm"
+                        disabled={respondToRequestMutation.isPending}
+                        onClick={() => handleRequestSelect(request)}
+                      >
+                        <CheckCircle className="mr-2 h-4 w-4" /> Approve
+                      </Button>
+                    </CardFooter>
+                  )}
                 </Card>
               ))}
             </div>
@@ -0,0 +1,417 @@
+/**
+ * Consent API Routes
+ *
+ * This module provides REST API endpoints for consent decisions, dynamic
+ * consent requests, and break-glass emergency access with its post-hoc review.
+ */
+
+import express from 'express';
+import { consentsService } from './consent-service';
+import { dynamicConsentService, ConsentRequestStateError } from './dynamic-consent-service';
+import { logger } from '../utils/logger';
+import {
+  authorizationRequestSchema,
+  breakGlassRequestSchema,
+  breakGlassReviewSchema,
+  createDynamicConsentRequestSchema,
+  dynamicConsentResponseSchema
+} from '../../shared/consent-schema';
+import { z } from 'zod';
+
+// Create a router
+const router = express.Router();
+
+// Roles allowed to invoke break-glass emergency access
+const BREAK_GLASS_ROLES = ['clinician', 'physician', 'nurse', 'provider'];
+
+// Middleware to check if the user is authenticated
+const isAuthenticated = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'Not authenticated' });
+  }
+  next();
+};
+
+// Middleware to check if the user has admin permissions
+const isAdmin = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'Not authenticated' });
+  }
+  if (req.user?.role !== 'admin') {
+    return res.status(403).json({ message: 'Forbidden: Admin access required' });
+  }
+  next();
+};
+
+// Middleware to check if the user is a clinician allowed to break the glass
+const isBreakGlassAuthorized = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'Not authenticated' });
+  }
+  if (!req.user?.role || !BREAK_GLASS_ROLES.includes(req.user.role)) {
+    return res.status(403).json({ message: 'Forbidden: Clinical role required for emergency access' });
+  }
+  next();
+};
+
+/**
+ * @swagger
+ * /api/consent/decisions:
+ *   post:
+ *     summary: Evaluate an authorization request against patient consents
+ *     tags: [Consent]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Consent decision with the deciding provision
+ *       400:
+ *         description: Invalid request data
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - requester is not the caller
+ */
+router.post('/decisions', isAuthenticated, async (req, res) => {
+  try {
+    const request = authorizationRequestSchema.parse(req.body);
+
+    // Decisions are recorded against the requester, so only admins may ask on someone else's behalf
+    if (req.user!.role !== 'admin' && request.requesterId !== String(req.user!.id)) {
+      return res.status(403).json({ message: 'Forbidden: cannot request decisions for another requester' });
+    }
+
+    const decision = await consentsService.evaluate(request);
+    res.json(decision);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid authorization request', errors: error.errors });
+    }
+
+    logger.error('Error evaluating consent decision', { error: (error as Error).message });
+    res.status(500).json({ message: 'Failed to evaluate consent decision', error: (error as Error).message });
+  }
+});
+
+/**
+ * @swagger
+ * /api/consent/requests:
+ *   post:
+ *     summary: Ask a patient for a new scope of data sharing
+ *     tags: [Consent]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Consent request created and patient notified
+ *       400:
+ *         description: Invalid request data
+ *       401:
+ *         description: Not authenticated
+ */
+router.post('/requests', isAuthenticated, async (req, res) => {
+  try {
+    const data = createDynamicConsentRequestSchema.parse({
+      ...req.body,
+      requesterId: String(req.user!.id)
+    });
+
+    const request = await dynamicConsentService.createRequest(data);
+    res.status(201).json(request);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid consent request', errors: error.errors });
+    }
+
+    logger.error('Error creating consent request', { error: (error as Error).message });
+    res.status(500).json({ message: 'Failed to create consent request', error: (error as Error).message });
+  }
+});
+
+/**
+ * @swagger
+ * /api/consent/requests/{patientId}:
+ *   get:
+ *     summary: Get consent requests addressed to a patient
+ *     tags: [Consent]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: patientId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - name: status
+ *         in: query
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Consent requests for the patient
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - not the patient
+ */
+router.get('/requests/:patientId', isAuthenticated, async (req, res) => {
+  try {
+    if (String(req.user!.id) !== req.params.patientId && req.user!.role !== 'admin') {
+      return res.status(403).json({ message: 'Forbidden: not the patient for these requests' });
+    }
+
+    const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+    const requests = await dynamicConsentService.getRequestsForPatient(req.params.patientId, status);
+    res.json(requests);
+  } catch (error) {
+    logger.error('Error getting consent requests', { error: (error as Error).message });
+    res.status(500).json({ message: 'Failed to get consent requests', error: (error as Error).message });
+  }
+});
+
+/**
+ * @swagger
+ * /api/consent/requests/{requestId}/status:
+ *   get:
+ *     summary: Get the status of a consent request raised by the caller
+ *     tags: [Consent]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Consent request
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Consent request not found
+ */
+router.get('/requests/:requestId/status', isAuthenticated, async (req, res) => {
+  try {
+    const request = await dynamicConsentService.getRequest(req.params.requestId);
+    const userId = String(req.user!.id);
+
+    if (!request || (request.requesterId !== userId && request.patientId !== userId)) {
+      return res.status(404).json({ message: 'Consent request not found' });
+    }
+
+    res.json(request);
+  } catch (error) {
+    logger.error('Error getting consent request', { error: (error as Error).message });
+    res.status(500).json({ message: 'Failed to get consent request', error: (error as Error).message });
+  }
+});
+
+/**
+ * @swagger
+ * /api/consent/requests/{requestId}/respond:
+ *   post:
+ *     summary: Approve or reject a consent request
+ *     tags: [Consent]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Response recorded; approval creates a consent
+ *       400:
+ *         description: Invalid response data
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Consent request not found
+ *       409:
+ *         description: Consent request is no longer pending
+ */
+router.post('/requests/:requestId/respond', isAuthenticated, async (req, res) => {
+  try {
+    const response = dynamicConsentResponseSchema.parse(req.body);
+    const request = await dynamicConsentService.respond(req.params.requestId, String(req.user!.id), response);
+
+    if (!request) {
+      return res.status(404).json({ message: 'Consent request not found' });
+    }
+
+    res.json(request);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid consent response', errors: error.errors });
+    }
+    if (error instanceof ConsentRequestStateError) {
+      return res.status(409).json({ message: error.message });
+    }
+
+    logger.error('Error responding to consent request', { error: (error as Error).message });
+    res.status(500).json({ message: 'Failed to respond to consent request', error: (error as Error).message });
+  }
+});
+
+/**
+ * @swagger
+ * /api/consent/requests/{requestId}/revoke:
+ *   post:
+ *     summary: Withdraw a pending consent request or revoke an approved one
+ *     tags: [Consent]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Consent request revoked
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Consent request not found
+ *       409:
+ *         description: Consent request can no longer be revoked
+ */
+router.post('/requests/:requestId/revoke', isAuthenticated, async (req, res) => {
+  try {
+    const request = await dynamicConsentService.revoke(req.params.requestId, String(req.user!.id));
+
+    if (!request) {
+      return res.status(404).json({ message: 'Consent request not found' });
+    }
+
+    res.json(request);
+  } catch (error) {
+    if (error instanceof ConsentRequestStateError) {
+      return res.status(409).json({ message: error.message });
+    }
+
+    logger.error('Error revoking consent request', { error: (error as Error).message });
+    res.status(500).json({ message: 'Failed to revoke consent request', error: (error as Error).message });
+  }
+});
+
+/**
+ * @swagger
+ * /api/consent/break-glass:
+ *   post:
+ *     summary: Invoke break-glass emergency access to a patient's records
+ *     tags: [Consent]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Emergency access granted for a bounded window
+ *       400:
+ *         description: Invalid request data or missing justification
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - clinical role required
+ */
+router.post('/break-glass', isBreakGlassAuthorized, async (req, res) => {
+  try {
+    const request = breakGlassRequestSchema.parse(req.body);
+
+    const decision = await consentsService.breakGlass(request, {
+      userId: req.user!.id,
+      username: req.user!.username,
+      requesterId: String(req.user!.id),
+      requesterType: 'Practitioner',
+      ipAddress: req.ip,
+      sessionId: req.sessionID
+    });
+
+    res.status(201).json(decision);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid break-glass request', errors: error.errors });
+    }
+
+    logger.error('Error granting break-glass access', { error: (error as Error).message });
+    res.status(500).json({ message: 'Failed to grant break-glass access', error: (error as Error).message });
+  }
+});
+
+/**
+ * @swagger
+ * /api/consent/break-glass/reviews:
+ *   get:
+ *     summary: Get the break-glass review queue
+ *     tags: [Consent]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: status
+ *         in: query
+ *         schema:
+ *           type: string
+ *           enum: [pending, attested, flagged]
+ *     responses:
+ *       200:
+ *         description: Break-glass events with the requested review status
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - admin access required
+ */
+router.get('/break-glass/reviews', isAdmin, async (req, res) => {
+  try {
+    const status = z.enum(['pending', 'attested', 'flagged'])
+      .default('pending')
+      .parse(req.query.status);
+
+    const queue = await consentsService.getBreakGlassReviewQueue(status);
+    res.json(queue);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid review status', errors: error.errors });
+    }
+
+    logger.error('Error getting break-glass review queue', { error: (error as Error).message });
+    res.status(500).json({ message: 'Failed to get break-glass review queue', error: (error as Error).message });
+  }
+});
+
+/**
+ * @swagger
+ * /api/consent/break-glass/reviews/{id}:
+ *   post:
+ *     summary: Attest or flag a break-glass event
+ *     tags: [Consent]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Review recorded
+ *       400:
+ *         description: Invalid review data
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - admin access required
+ *       404:
+ *         description: Break-glass event not found
+ */
+router.post('/break-glass/reviews/:id', isAdmin, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid break-glass event ID' });
+    }
+
+    const review = breakGlassReviewSchema.parse(req.body);
+    const updated = await consentsService.reviewBreakGlass(id, String(req.user!.id), review);
+
+    if (!updated) {
+      return res.status(404).json({ message: 'Break-glass event not found' });
+    }
+
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid break-glass review', errors: error.errors });
+    }
+
+    logger.error('Error reviewing break-glass event', { error: (error as Error).message });
+    res.status(500).json({ message: 'Failed to review break-glass event', error: (error as Error).message });
+  }
+});
+
+export default router;
@@ -118,8 +118,17 @@ export const consentDecisions = pgTable('consent_decisions', {
   purpose: purposeOfUseEnum('purpose').notNull(), // Purpose of use for this access
   decision: varchar('decision', { length: 50 }).notNull(), // PERMIT, DENY
   appliedConsentIds: json('applied_consent_ids').array(), // Consents applied to reach this decision
+  decidingConsentId: varchar('deciding_consent_id', { length: 255 }), // Consent holding the deciding provision
+  decidingProvisionId: varchar('deciding_provision_id', { length: 255 }), // Provision that decided the outcome
+  decisionReason: text('decision_reason'), // Human-readable explanation of the decision
   breakGlass: boolean('break_glass').default(false), // Whether this was a break-glass override
   breakGlassReason: text('break_glass_reason'), // Reason for break-glass, if applicable
+  breakGlassExpiresAt: timestamp('break_glass_expires_at'), // End of the emergency access window
+  overriddenTransactionId: varchar('overridden_transaction_id', { length: 255 }), // Deny decision that was overridden
+  reviewStatus: varchar('review_status', { length: 50 }), // pending, attested, flagged (break-glass only)
+  reviewedBy: varchar('reviewed_by', { length: 255 }), // Admin who reviewed the override
+  reviewedAt: timestamp('reviewed_at'),
+  reviewNotes: text('review_notes'),
   accessTime: timestamp('access_time').notNull().defaultNow(),
   created: timestamp('created').notNull().defaultNow(),
 });
@@ -151,7 +160,7 @@ export const dynamicConsentRequests = pgTable('dynamic_consent_requests', {
   resourceTypes: json('resource_types').array(),
   purpose: purposeOfUseEnum('purpose').notNull(),
   requestMessage: text('request_message'),
-  status: varchar('status', { length: 50 }).notNull().default('pending'), // pending, approved, rejected, expired
+  status: varchar('status', { length: 50 }).notNull().default('pending'), // pending, approved, rejected, expired, revoked
   expiresAt: timestamp('expires_at').notNull(), // When this request expires if not acted on
   responseTime: timestamp('response_time'), // When patient responded
   responseConsentId: varchar('response_consent_id', { length: 255 }), // ID of created consent if approved
@@ -217,4 +226,45 @@ export const authorizationRequestSchema = z.object({
   breakGlassReason: z.string().optional(),
 });
 
-export type AuthorizationRequest = z.infer<typeof authorizationRequestSchema>;
\ No newline at end of file
+export type AuthorizationRequest = z.infer<typeof authorizationRequestSchema>;
+
+// Break-glass request schema (emergency override of a deny decision)
+export const breakGlassRequestSchema = z.object({
+  patientId: z.string().min(1, 'Patient ID is required'),
+  resourceType: z.string().optional(),
+  dataCategory: z.string().optional(),
+  reason: z.string().trim().min(10, 'A justification of at least 10 characters is required'),
+  durationMinutes: z.number().int().min(5).max(240).default(60),
+});
+
+export type BreakGlassRequest = z.infer<typeof breakGlassRequestSchema>;
+
+// Break-glass review schema (post-hoc attestation by an administrator)
+export const breakGlassReviewSchema = z.object({
+  outcome: z.enum(['attested', 'flagged']),
+  notes: z.string().optional(),
+});
+
+export type BreakGlassReview = z.infer<typeof breakGlassReviewSchema>;
+
+// Dynamic consent request schema (partner asking a patient for a new scope of sharing)
+export const createDynamicConsentRequestSchema = z.object({
+  patientId: z.string().min(1, 'Patient ID is required'),
+  requesterId: z.string().min(1, 'Requester ID is required'),
+  requesterName: z.string().min(1, 'Requester name is required'),
+  requesterOrganization: z.string().optional(),
+  resourceTypes: z.array(z.string()).min(1, 'At least one resource type is required'),
+  purpose: z.enum(['TREAT', 'ETREAT', 'HPAYMT', 'HOPERAT', 'PATRQT', 'PUBHLTH', 'RESEARCH', 'HMARKT', 'HRESCH', 'FAMRQT', 'LEGAL', 'COVERAGE']),
+  requestMessage: z.string().optional(),
+  expiresInDays: z.number().int().min(1).max(90).default(14),
+});
+
+export type CreateDynamicConsentRequest = z.infer<typeof createDynamicConsentRequestSchema>;
+
+// Patient response to a dynamic consent request
+export const dynamicConsentResponseSchema = z.object({
+  approved: z.boolean(),
+  policyText: z.string().optional(),
+});
+
+export type DynamicConsentResponse = z.infer<typeof dynamicConsentResponseSchema>;
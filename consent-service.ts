@@ -1,16 +1,363 @@
+import { v4 as uuidv4 } from 'uuid';
+import { eq, and, lte, or, gt, isNull, inArray, desc } from 'drizzle-orm';
+import { db } from '../db';
 import { logger } from '../utils/logger';
+import { createAuditClient } from '../audit/client';
+import {
+  consents,
+  consentProvisions,
+  consentDecisions,
+  consentNotifications,
+  Consent,
+  ConsentProvision,
+  ConsentDecision,
+  AuthorizationRequest,
+  BreakGlassRequest,
+  BreakGlassReview
+} from '../../shared/consent-schema';
+
+/**
+ * Purpose of use codes accepted by the consent_decisions table
+ */
+export type PurposeOfUse = AuthorizationRequest['purpose'];
+
+/**
+ * Final outcome of a consent evaluation
+ */
+export type ConsentDecisionOutcome = 'PERMIT' | 'DENY';
+
+/**
+ * Provision that decided a consent evaluation
+ */
+export interface DecidingProvision {
+  consentId: string;
+  provisionId: string;
+  type: 'permit' | 'deny';
+  actorReference?: string | null;
+}
+
+/**
+ * Result of a consent evaluation, including the explanation of how it was reached
+ */
+export interface ConsentDecisionResult {
+  authorized: boolean;
+  decision: ConsentDecisionOutcome;
+  reason: string;
+  transactionId: string;
+  decidingProvision?: DecidingProvision;
+  appliedConsentIds: string[];
+  breakGlass?: boolean;
+  breakGlassReason?: string;
+  breakGlassExpiresAt?: Date;
+}
+
+/**
+ * Clinician invoking a break-glass override
+ */
+export interface BreakGlassRequester {
+  userId: number;
+  username: string;
+  requesterId: string;
+  requesterType: string;
+  ipAddress?: string;
+  sessionId?: string;
+  organizationId?: number;
+}
+
+/**
+ * Maps the internal purpose strings used by platform services onto
+ * HL7 purpose of use codes.
+ */
+const LEGACY_PURPOSE_MAP: Record<string, PurposeOfUse> = {
+  eligibility_verification: 'COVERAGE',
+  organization_representation: 'HOPERAT',
+  ai_processing: 'HOPERAT',
+  treatment: 'TREAT',
+  emergency_treatment: 'ETREAT',
+  payment: 'HPAYMT',
+  operations: 'HOPERAT',
+  patient_request: 'PATRQT',
+  public_health: 'PUBHLTH',
+  research: 'RESEARCH'
+};
+
+const PURPOSE_CODES: PurposeOfUse[] = [
+  'TREAT', 'ETREAT', 'HPAYMT', 'HOPERAT', 'PATRQT', 'PUBHLTH',
+  'RESEARCH', 'HMARKT', 'HRESCH', 'FAMRQT', 'LEGAL', 'COVERAGE'
+];
+
+// Purposes a break-glass override (granted for emergency treatment) can be used for
+const BREAK_GLASS_PURPOSES: PurposeOfUse[] = ['ETREAT', 'TREAT'];
+
+const auditClient = createAuditClient({
+  baseURL: process.env.AUDIT_SERVICE_URL || 'http://localhost:3011',
+  serviceName: 'consent-service'
+});
 
 /**
  * ConsentService manages authorization decisions and user consent
  * across the Smart Health Hub platform.
- * 
+ *
  * It functions as a Policy Decision Point (PDP) that evaluates
  * requests against stored consent policies and contextual information.
+ * Provisions are combined with deny-overrides semantics: any applicable
+ * deny provision wins, otherwise an applicable permit provision grants
+ * access, and a request with no applicable provision is denied.
  */
 class ConsentService {
+  /**
+   * Evaluate an authorization request against the patient's active consents
+   * and record the decision in consent_decisions.
+   *
+   * @param request Authorization request
+   * @returns Decision with the provision that produced it
+   */
+  async evaluate(request: AuthorizationRequest): Promise<ConsentDecisionResult> {
+    const transactionId = uuidv4();
+    const now = new Date();
+
+    const activeConsents = await this.getActiveConsents(request.patientId, now);
+    const provisions = await this.getProvisions(activeConsents.map(c => c.consentId));
+
+    const applicable = provisions.filter(p => this.isProvisionApplicable(p, request, now));
+    const appliedConsentIds = Array.from(new Set(applicable.map(p => p.consentId)));
+
+    const deny = applicable.find(p => p.type === 'deny');
+    const permit = applicable.find(p => p.type === 'permit');
+    const deciding = deny || permit;
+
+    let result: ConsentDecisionResult;
+
+    if (deciding) {
+      const decision: ConsentDecisionOutcome = deciding.type === 'deny' ? 'DENY' : 'PERMIT';
+      result = {
+        authorized: decision === 'PERMIT',
+        decision,
+        reason: deciding.type === 'deny'
+          ? `Denied by provision ${deciding.provisionId} of consent ${deciding.consentId}`
+          : `Permitted by provision ${deciding.provisionId} of consent ${deciding.consentId}`,
+        transactionId,
+        decidingProvision: {
+          consentId: deciding.consentId,
+          provisionId: deciding.provisionId,
+          type: deciding.type,
+          actorReference: deciding.actorReference
+        },
+        appliedConsentIds
+      };
+    } else {
+      result = {
+        authorized: false,
+        decision: 'DENY',
+        reason: activeConsents.length === 0
+          ? `No active consent on file for patient ${request.patientId}`
+          : 'No consent provision applies to this requester, purpose and data class',
+        transactionId,
+        appliedConsentIds
+      };
+    }
+
+    if (!result.authorized) {
+      const grant = await this.getActiveBreakGlassGrant(request, now);
+      if (grant) {
+        result = {
+          ...result,
+          authorized: true,
+          decision: 'PERMIT',
+          reason: `Break-glass override ${grant.transactionId} active until ${grant.breakGlassExpiresAt!.toISOString()}`,
+          breakGlass: true,
+          breakGlassReason: grant.breakGlassReason ?? undefined,
+          breakGlassExpiresAt: grant.breakGlassExpiresAt ?? undefined
+        };
+      }
+    }
+
+    await this.recordDecision(request, result, now);
+
+    logger.info('Consent decision', {
+      transactionId,
+      patientId: request.patientId,
+      requesterId: request.requesterId,
+      purpose: request.purpose,
+      decision: result.decision,
+      provisionId: result.decidingProvision?.provisionId
+    });
+
+    return result;
+  }
+
+  /**
+   * Grant a time-boxed emergency override of a deny decision.
+   *
+   * The request is evaluated normally first; if consent already permits
+   * access no override is created. Otherwise a break-glass decision is
+   * recorded for post-hoc review, audited, and the patient is notified.
+   *
+   * @param request Validated break-glass request
+   * @param requester Clinician invoking the override
+   * @returns The override decision (or the ordinary permit decision)
+   */
+  async breakGlass(request: BreakGlassRequest, requester: BreakGlassRequester): Promise<ConsentDecisionResult> {
+    const evaluation = await this.evaluate({
+      patientId: request.patientId,
+      requesterId: requester.requesterId,
+      requesterType: requester.requesterType,
+      resourceType: request.resourceType,
+      dataCategory: request.dataCategory,
+      purpose: 'ETREAT',
+      breakGlass: true,
+      breakGlassReason: request.reason
+    });
+
+    if (evaluation.authorized) {
+      return evaluation;
+    }
+
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + request.durationMinutes * 60 * 1000);
+    const transactionId = uuidv4();
+
+    const result: ConsentDecisionResult = {
+      authorized: true,
+      decision: 'PERMIT',
+      reason: `Break-glass override of decision ${evaluation.transactionId} until ${expiresAt.toISOString()}`,
+      transactionId,
+      decidingProvision: evaluation.decidingProvision,
+      appliedConsentIds: evaluation.appliedConsentIds,
+      breakGlass: true,
+      breakGlassReason: request.reason,
+      breakGlassExpiresAt: expiresAt
+    };
+
+    await db.insert(consentDecisions).values({
+      transactionId,
+      patientId: request.patientId,
+      requesterId: requester.requesterId,
+      requesterType: requester.requesterType,
+      resourceType: request.resourceType,
+      dataCategory: request.dataCategory,
+      purpose: 'ETREAT',
+      decision: result.decision,
+      appliedConsentIds: result.appliedConsentIds,
+      decidingConsentId: evaluation.decidingProvision?.consentId,
+      decidingProvisionId: evaluation.decidingProvision?.provisionId,
+      decisionReason: result.reason,
+      breakGlass: true,
+      breakGlassReason: request.reason,
+      breakGlassExpiresAt: expiresAt,
+      overriddenTransactionId: evaluation.transactionId,
+      reviewStatus: 'pending',
+      accessTime: now
+    });
+
+    logger.warn('Break-glass override granted', {
+      transactionId,
+      overriddenTransactionId: evaluation.transactionId,
+      patientId: request.patientId,
+      requesterId: requester.requesterId,
+      expiresAt
+    });
+
+    try {
+      await auditClient.auditResourceAccess(
+        requester.userId,
+        requester.username,
+        request.resourceType || 'Patient',
+        request.patientId,
+        true,
+        request.patientId,
+        'ETREAT',
+        {
+          ipAddress: requester.ipAddress,
+          sessionId: requester.sessionId,
+          organizationId: requester.organizationId,
+          consentId: evaluation.decidingProvision?.consentId,
+          emergencyAccess: true,
+          requestId: transactionId,
+          metadata: {
+            breakGlassReason: request.reason,
+            breakGlassExpiresAt: expiresAt.toISOString(),
+            overriddenTransactionId: evaluation.transactionId,
+            dataCategory: request.dataCategory
+          }
+        }
+      );
+    } catch (error) {
+      logger.error('Failed to audit break-glass override', { error, transactionId });
+    }
+
+    await db.insert(consentNotifications).values({
+      consentId: evaluation.decidingProvision?.consentId ?? transactionId,
+      patientId: request.patientId,
+      notificationType: 'break_glass',
+      status: 'pending',
+      message: `${requester.username} used emergency access to your ${request.dataCategory || request.resourceType || 'health'} records until ${expiresAt.toISOString()}. Reason given: ${request.reason}`,
+      channel: 'portal',
+      scheduledTime: now
+    });
+
+    return result;
+  }
+
+  /**
+   * Get break-glass overrides awaiting (or with a given) review status
+   *
+   * @param status Review status to filter by
+   * @returns Break-glass decisions, newest first
+   */
+  async getBreakGlassReviewQueue(status: 'pending' | 'attested' | 'flagged' = 'pending'): Promise<ConsentDecision[]> {
+    return db.select()
+      .from(consentDecisions)
+      .where(
+        and(
+          eq(consentDecisions.breakGlass, true),
+          eq(consentDecisions.reviewStatus, status)
+        )
+      )
+      .orderBy(desc(consentDecisions.accessTime));
+  }
+
+  /**
+   * Record an administrator's review of a break-glass override.
+   * Flagging an override also ends its access window immediately.
+   *
+   * @param id Decision ID
+   * @param reviewerId Reviewing administrator
+   * @param review Review outcome and notes
+   * @returns The updated decision, or undefined if no break-glass decision exists
+   */
+  async reviewBreakGlass(id: number, reviewerId: string, review: BreakGlassReview): Promise<ConsentDecision | undefined> {
+    const now = new Date();
+    const [existing] = await db.select()
+      .from(consentDecisions)
+      .where(and(eq(consentDecisions.id, id), eq(consentDecisions.breakGlass, true)));
+
+    if (!existing) {
+      return undefined;
+    }
+
+    const revoke = review.outcome === 'flagged' &&
+      existing.breakGlassExpiresAt && existing.breakGlassExpiresAt > now;
+
+    const [updated] = await db.update(consentDecisions)
+      .set({
+        reviewStatus: review.outcome,
+        reviewedBy: reviewerId,
+        reviewedAt: now,
+        reviewNotes: review.notes,
+        ...(revoke ? { breakGlassExpiresAt: now } : {})
+      })
+      .where(eq(consentDecisions.id, id))
+      .returning();
+
+    logger.info('Break-glass override reviewed', { id, reviewerId, outcome: review.outcome });
+
+    return updated;
+  }
+
   /**
    * Check if a user has consent/permission to perform an action
-   * 
+   *
    * @param params Parameters for consent check
    * @returns Authorization decision
    */
@@ -20,54 +367,53 @@ class ConsentService {
     resource: string;
     action: string;
     context?: Record<string, any>;
-  }): Promise<{ authorized: boolean; reason?: string }> {
+  }): Promise<{ authorized: boolean; reason?: string; decision?: ConsentDecisionResult }> {
     try {
-      logger.info('Checking user consent', { 
+      logger.info('Checking user consent', {
         userId: params.userId,
         purpose: params.purpose,
         resource: params.resource,
         action: params.action
       });
-      
-      // For eligibility verification service, we'll authorize all requests for now
-      // In a production implementation, this would check against stored consent records
-      
-      // When using for eligibility verification, we specifically allow that
-      if (params.purpose === 'eligibility_verification') {
-        return { authorized: true };
-      }
-      
-      // Allow organization representation for now
-      if (params.purpose === 'organization_representation') {
-        return { authorized: true };
-      }
-      
-      // Allow AI processing (for Shaia service)
-      if (params.purpose === 'ai_processing') {
-        return { authorized: true };
+
+      const purpose = this.normalizePurpose(params.purpose);
+      if (!purpose) {
+        return {
+          authorized: false,
+          reason: `Unknown purpose of use: ${params.purpose}`
+        };
       }
-      
-      // For all other purposes, default to authorized
-      // In a real implementation, this would check against stored user consents
-      return { authorized: true };
+
+      // The user is the data subject; the requester is whoever is acting on their data
+      const decision = await this.evaluate({
+        patientId: String(params.context?.patientId ?? params.userId),
+        requesterId: String(params.context?.requesterId ?? 'system'),
+        requesterType: params.context?.requesterType ?? 'system',
+        resourceType: params.resource,
+        dataCategory: params.context?.dataCategory,
+        purpose,
+        breakGlass: false
+      });
+
+      return { authorized: decision.authorized, reason: decision.reason, decision };
     } catch (error) {
-      logger.error('Error checking user consent', { 
+      logger.error('Error checking user consent', {
         error,
         userId: params.userId,
-        purpose: params.purpose 
+        purpose: params.purpose
       });
-      
+
       // Default to unauthorized on error
-      return { 
+      return {
         authorized: false,
         reason: `Error checking consent: ${error.message}`
       };
     }
   }
-  
+
   /**
    * Check if a user has access to specific data
-   * 
+   *
    * @param params Parameters for data access check
    * @returns Authorization decision for data access
    */
@@ -77,33 +423,215 @@ class ConsentService {
     resourceType: string;
     action: string;
     context?: Record<string, any>;
-  }): Promise<{ authorized: boolean; reason?: string }> {
+  }): Promise<{ authorized: boolean; reason?: string; decision?: ConsentDecisionResult }> {
     try {
-      logger.info('Checking data access', { 
+      logger.info('Checking data access', {
         userId: params.userId,
         resourceId: params.resourceId,
         resourceType: params.resourceType,
         action: params.action
       });
-      
-      // For now, we'll approve all data access requests
-      // In a production system, this would check against access policies
-      
-      return { authorized: true };
+
+      const patientId = params.context?.patientId;
+      if (!patientId) {
+        return {
+          authorized: false,
+          reason: 'Patient context is required to evaluate data access'
+        };
+      }
+
+      const purpose = this.normalizePurpose(params.context?.purpose ?? 'TREAT');
+      if (!purpose) {
+        return {
+          authorized: false,
+          reason: `Unknown purpose of use: ${params.context?.purpose}`
+        };
+      }
+
+      const decision = await this.evaluate({
+        patientId: String(patientId),
+        requesterId: String(params.userId),
+        requesterType: params.context?.requesterType ?? 'Practitioner',
+        resourceType: params.resourceType,
+        dataCategory: params.context?.dataCategory,
+        purpose,
+        breakGlass: false
+      });
+
+      return { authorized: decision.authorized, reason: decision.reason, decision };
     } catch (error) {
-      logger.error('Error checking data access', { 
+      logger.error('Error checking data access', {
         error,
         userId: params.userId,
         resourceId: params.resourceId
       });
-      
+
       // Default to unauthorized on error
-      return { 
+      return {
         authorized: false,
         reason: `Error checking data access: ${error.message}`
       };
     }
   }
+
+  /**
+   * Get consents that are active for a patient at a point in time
+   */
+  private async getActiveConsents(patientId: string, at: Date): Promise<Consent[]> {
+    return db.select()
+      .from(consents)
+      .where(
+        and(
+          eq(consents.patientId, patientId),
+          eq(consents.status, 'active'),
+          lte(consents.effectiveStart, at),
+          or(isNull(consents.effectiveEnd), gt(consents.effectiveEnd, at))
+        )
+      );
+  }
+
+  /**
+   * Get all provisions belonging to a set of consents
+   */
+  private async getProvisions(consentIds: string[]): Promise<ConsentProvision[]> {
+    if (consentIds.length === 0) {
+      return [];
+    }
+
+    return db.select()
+      .from(consentProvisions)
+      .where(inArray(consentProvisions.consentId, consentIds));
+  }
+
+  /**
+   * Determine whether a provision applies to a request.
+   * Empty actor, purpose and data class constraints match everything.
+   */
+  private isProvisionApplicable(provision: ConsentProvision, request: AuthorizationRequest, at: Date): boolean {
+    if (provision.periodStart && provision.periodStart > at) {
+      return false;
+    }
+    if (provision.periodEnd && provision.periodEnd <= at) {
+      return false;
+    }
+
+    if (provision.actorReference && !this.actorMatches(provision.actorReference, request)) {
+      return false;
+    }
+
+    const purposes = this.toStringList(provision.purpose);
+    if (purposes.length > 0 && !purposes.includes(request.purpose)) {
+      return false;
+    }
+
+    const requestedClasses = [request.dataCategory, request.resourceType]
+      .filter((value): value is string => !!value);
+
+    const excluded = this.toStringList(provision.excludeClasses);
+    if (requestedClasses.some(c => excluded.includes(c))) {
+      return false;
+    }
+
+    const covered = this.toStringList(provision.dataClasses);
+    if (covered.length > 0 && !requestedClasses.some(c => covered.includes(c))) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Match a provision actor reference (e.g. "Practitioner/123") against the requester
+   */
+  private actorMatches(actorReference: string, request: AuthorizationRequest): boolean {
+    if (actorReference === request.requesterId) {
+      return true;
+    }
+
+    const [type, id] = actorReference.split('/');
+    return !!id &&
+      id === request.requesterId &&
+      type.toLowerCase() === request.requesterType.toLowerCase();
+  }
+
+  /**
+   * Find an unexpired break-glass override held by a requester for a patient
+   * that covers the request. An override is for treatment only, and one
+   * granted for a resource type or data category covers only that type or
+   * category; one granted without them covers the whole record.
+   */
+  private async getActiveBreakGlassGrant(request: AuthorizationRequest, at: Date): Promise<ConsentDecision | undefined> {
+    if (!BREAK_GLASS_PURPOSES.includes(request.purpose)) {
+      return undefined;
+    }
+
+    const [grant] = await db.select()
+      .from(consentDecisions)
+      .where(
+        and(
+          eq(consentDecisions.patientId, request.patientId),
+          eq(consentDecisions.requesterId, request.requesterId),
+          eq(consentDecisions.breakGlass, true),
+          eq(consentDecisions.decision, 'PERMIT'),
+          eq(consentDecisions.purpose, 'ETREAT'),
+          gt(consentDecisions.breakGlassExpiresAt, at),
+          request.resourceType
+            ? or(isNull(consentDecisions.resourceType), eq(consentDecisions.resourceType, request.resourceType))
+            : isNull(consentDecisions.resourceType),
+          request.dataCategory
+            ? or(isNull(consentDecisions.dataCategory), eq(consentDecisions.dataCategory, request.dataCategory))
+            : isNull(consentDecisions.dataCategory)
+        )
+      )
+      .orderBy(desc(consentDecisions.breakGlassExpiresAt))
+      .limit(1);
+
+    return grant;
+  }
+
+  /**
+   * Normalize a purpose string to a purpose of use code
+   */
+  private normalizePurpose(purpose: string): PurposeOfUse | undefined {
+    const code = purpose.toUpperCase() as PurposeOfUse;
+    if (PURPOSE_CODES.includes(code)) {
+      return code;
+    }
+    return LEGACY_PURPOSE_MAP[purpose];
+  }
+
+  /**
+   * Flatten a json array column into a list of strings
+   */
+  private toStringList(value: unknown): string[] {
+    if (!Array.isArray(value)) {
+      return [];
+    }
+    return value.map(v => String(v));
+  }
+
+  /**
+   * Persist a decision to consent_decisions
+   */
+  private async recordDecision(request: AuthorizationRequest, result: ConsentDecisionResult, at: Date): Promise<void> {
+    await db.insert(consentDecisions).values({
+      transactionId: result.transactionId,
+      patientId: request.patientId,
+      requesterId: request.requesterId,
+      requesterType: request.requesterType,
+      resourceType: request.resourceType,
+      dataCategory: request.dataCategory,
+      purpose: request.purpose,
+      decision: result.decision,
+      appliedConsentIds: result.appliedConsentIds,
+      decidingConsentId: result.decidingProvision?.consentId,
+      decidingProvisionId: result.decidingProvision?.provisionId,
+      decisionReason: result.reason,
+      breakGlass: result.breakGlass ?? false,
+      breakGlassReason: result.breakGlassReason,
+      accessTime: at
+    });
+  }
 }
 
-export const consentsService = new ConsentService();
\ No newline at end of file
+export const consentsService = new ConsentService();
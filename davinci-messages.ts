@@ -0,0 +1,304 @@
+import { v4 as uuidv4 } from "uuid";
+
+/**
+ * Da Vinci Message Builders
+ *
+ * Pure builders and readers for the Da Vinci prior authorization IGs:
+ * - CRD: CDS Hooks order-select/order-sign requests and coverage-information
+ * - DTR: questionnaire references from CRD
+ * - PAS: Claim bundles for Claim/$submit and Claim/$inquire, and ClaimResponse decisions
+ */
+
+const CPT_SYSTEM = "http://www.ama-assn.org/go/cpt";
+const ICD10_SYSTEM = "http://hl7.org/fhir/sid/icd-10-cm";
+const COVERAGE_INFORMATION_EXTENSION =
+  "http://hl7.org/fhir/us/davinci-crd/StructureDefinition/ext-coverage-information";
+const REVIEW_ACTION_EXTENSION =
+  "http://hl7.org/fhir/us/davinci-pas/StructureDefinition/extension-reviewAction";
+const PAS_REQUEST_BUNDLE_PROFILE =
+  "http://hl7.org/fhir/us/davinci-pas/StructureDefinition/profile-pas-request-bundle";
+const PAS_CLAIM_PROFILE =
+  "http://hl7.org/fhir/us/davinci-pas/StructureDefinition/profile-claim";
+
+export type CrdHook = "order-select" | "order-sign";
+
+// The order being authorized
+export interface PriorAuthOrder {
+  requestId: string;
+  patientId: string;
+  providerId: string;
+  payerId: string;
+  procedureCode: string;
+  diagnosisCodes: string[];
+  serviceDate?: Date;
+  coverageId?: string;
+}
+
+// CRD coverage-information for the order
+export interface CoverageInformation {
+  covered?: string; // covered, not-covered, conditional
+  paNeeded?: string; // auth-needed, no-auth, satisfied, performpa, conditional
+  docNeeded?: string[]; // clinical, admin, patient, conditional
+  questionnaires: string[]; // DTR Questionnaire canonical URLs
+  coverageAssertionId?: string;
+  reason?: string;
+}
+
+// PAS decision read from a ClaimResponse
+export interface PasDecision {
+  outcome: "queued" | "complete" | "error" | "partial";
+  reviewAction?: string; // X12 306: A1 certified, A3 not certified, A4 pended, ...
+  status: "approved" | "denied" | "in_review" | "queued" | "additional_info_needed";
+  authNumber?: string;
+  expirationDate?: Date;
+  denialReason?: string;
+  claimResponseId?: string;
+}
+
+/**
+ * Build a ServiceRequest for the order
+ */
+export function buildServiceRequest(order: PriorAuthOrder): Record<string, any> {
+  return {
+    resourceType: "ServiceRequest",
+    id: order.requestId,
+    status: "draft",
+    intent: "order",
+    code: { coding: [{ system: CPT_SYSTEM, code: order.procedureCode }] },
+    subject: { reference: `Patient/${order.patientId}` },
+    requester: { reference: `Practitioner/${order.providerId}` },
+    reasonCode: order.diagnosisCodes.map(code => ({
+      coding: [{ system: ICD10_SYSTEM, code }],
+    })),
+    ...(order.serviceDate && { occurrenceDateTime: order.serviceDate.toISOString() }),
+    ...(order.coverageId && { insurance: [{ reference: `Coverage/${order.coverageId}` }] }),
+  };
+}
+
+/**
+ * Build a CDS Hooks request for CRD order-select/order-sign
+ */
+export function buildCrdHookRequest(hook: CrdHook, order: PriorAuthOrder): Record<string, any> {
+  const draftOrders = {
+    resourceType: "Bundle",
+    type: "collection",
+    entry: [{ resource: buildServiceRequest(order) }],
+  };
+
+  return {
+    hook,
+    hookInstance: uuidv4(),
+    context: {
+      userId: `Practitioner/${order.providerId}`,
+      patientId: order.patientId,
+      draftOrders,
+      // order-select also names the orders that were just selected
+      ...(hook === "order-select" && { selections: [`ServiceRequest/${order.requestId}`] }),
+    },
+  };
+}
+
+/**
+ * Read CRD coverage-information from a CDS Hooks response.
+ * Coverage information arrives as an extension on resources in
+ * systemActions or card suggestions (update actions on the draft order).
+ */
+export function readCoverageInformation(hookResponse: any): CoverageInformation {
+  const resources: any[] = [];
+
+  for (const action of hookResponse?.systemActions ?? []) {
+    if (action.resource) resources.push(action.resource);
+  }
+  for (const card of hookResponse?.cards ?? []) {
+    for (const suggestion of card.suggestions ?? []) {
+      for (const action of suggestion.actions ?? []) {
+        if (action.resource) resources.push(action.resource);
+      }
+    }
+  }
+
+  const info: CoverageInformation = { questionnaires: [] };
+
+  for (const resource of resources) {
+    const extensions = (resource.extension ?? []).filter(
+      (ext: any) => ext.url === COVERAGE_INFORMATION_EXTENSION
+    );
+
+    for (const extension of extensions) {
+      for (const part of extension.extension ?? []) {
+        switch (part.url) {
+          case "covered":
+            info.covered = part.valueCode;
+            break;
+          case "pa-needed":
+            info.paNeeded = part.valueCode;
+            break;
+          case "doc-needed":
+            info.docNeeded = [...(info.docNeeded ?? []), part.valueCode];
+            break;
+          case "questionnaire":
+            if (part.valueCanonical && !info.questionnaires.includes(part.valueCanonical)) {
+              info.questionnaires.push(part.valueCanonical);
+            }
+            break;
+          case "coverage-assertion-id":
+            info.coverageAssertionId = part.valueString;
+            break;
+          case "reason":
+            info.reason = part.valueCodeableConcept?.text ?? part.valueString;
+            break;
+        }
+      }
+    }
+  }
+
+  return info;
+}
+
+/**
+ * Build a PAS request bundle: Claim (use preauthorization) plus the resources it references
+ * @param order The order being authorized
+ * @param insurer Payer name and identifier
+ * @param questionnaireResponses Completed DTR QuestionnaireResponses
+ */
+export function buildPasBundle(
+  order: PriorAuthOrder,
+  insurer: { payerId: string; payerName: string },
+  questionnaireResponses: any[] = []
+): Record<string, any> {
+  const claim = {
+    resourceType: "Claim",
+    id: order.requestId,
+    meta: { profile: [PAS_CLAIM_PROFILE] },
+    identifier: [{ system: "urn:ietf:rfc:3986", value: order.requestId }],
+    status: "active",
+    type: {
+      coding: [{ system: "http://terminology.hl7.org/CodeSystem/claim-type", code: "professional" }],
+    },
+    use: "preauthorization",
+    patient: { reference: `Patient/${order.patientId}` },
+    created: new Date().toISOString(),
+    insurer: { reference: `Organization/${insurer.payerId}`, display: insurer.payerName },
+    provider: { reference: `Practitioner/${order.providerId}` },
+    priority: { coding: [{ system: "http://terminology.hl7.org/CodeSystem/processpriority", code: "normal" }] },
+    diagnosis: order.diagnosisCodes.map((code, index) => ({
+      sequence: index + 1,
+      diagnosisCodeableConcept: { coding: [{ system: ICD10_SYSTEM, code }] },
+    })),
+    insurance: [{
+      sequence: 1,
+      focal: true,
+      coverage: { reference: `Coverage/${order.coverageId ?? order.patientId}` },
+    }],
+    supportingInfo: questionnaireResponses.map((response, index) => ({
+      sequence: index + 1,
+      category: {
+        coding: [{ system: "http://hl7.org/fhir/us/davinci-pas/CodeSystem/PASSupportingInfoType", code: "questionnaire" }],
+      },
+      valueReference: { reference: `QuestionnaireResponse/${response.id}` },
+    })),
+    item: [{
+      sequence: 1,
+      diagnosisSequence: order.diagnosisCodes.map((_, index) => index + 1),
+      productOrService: { coding: [{ system: CPT_SYSTEM, code: order.procedureCode }] },
+      ...(order.serviceDate && { servicedDate: order.serviceDate.toISOString().slice(0, 10) }),
+    }],
+  };
+
+  return {
+    resourceType: "Bundle",
+    id: uuidv4(),
+    meta: { profile: [PAS_REQUEST_BUNDLE_PROFILE] },
+    identifier: { system: "urn:ietf:rfc:3986", value: order.requestId },
+    type: "collection",
+    timestamp: new Date().toISOString(),
+    entry: [
+      { fullUrl: `urn:uuid:${order.requestId}`, resource: claim },
+      ...questionnaireResponses.map(response => ({
+        fullUrl: `urn:uuid:${response.id}`,
+        resource: response,
+      })),
+    ],
+  };
+}
+
+/**
+ * Read the decision from a PAS response bundle (or bare ClaimResponse)
+ */
+export function readPasDecision(pasResponse: any): PasDecision {
+  const claimResponse = pasResponse?.resourceType === "ClaimResponse"
+    ? pasResponse
+    : (pasResponse?.entry ?? [])
+        .map((entry: any) => entry.resource)
+        .find((resource: any) => resource?.resourceType === "ClaimResponse");
+
+  if (!claimResponse) {
+    return { outcome: "error", status: "in_review", denialReason: "No ClaimResponse in PAS response" };
+  }
+
+  const outcome = claimResponse.outcome ?? "complete";
+  const reviewAction = findReviewAction(claimResponse);
+  const decision: PasDecision = {
+    outcome,
+    reviewAction,
+    status: "in_review",
+    authNumber: claimResponse.preAuthRef,
+    expirationDate: claimResponse.preAuthPeriod?.end ? new Date(claimResponse.preAuthPeriod.end) : undefined,
+    claimResponseId: claimResponse.id,
+  };
+
+  if (outcome === "queued") {
+    decision.status = "queued";
+  } else if (reviewAction === "A1" || reviewAction === "A2" || reviewAction === "A6") {
+    decision.status = "approved";
+  } else if (reviewAction === "A3") {
+    decision.status = "denied";
+    decision.denialReason = claimResponse.disposition
+      ?? readReviewActionReason(claimResponse)
+      ?? "Not certified";
+  } else if (reviewAction === "A4" && claimResponse.communicationRequest?.length) {
+    decision.status = "additional_info_needed";
+  } else if (outcome === "error") {
+    decision.status = "denied";
+    decision.denialReason = claimResponse.disposition ?? "Request rejected";
+  }
+
+  return decision;
+}
+
+/**
+ * Find the X12 306 review action code on a ClaimResponse or its first item
+ */
+function findReviewAction(claimResponse: any): string | undefined {
+  const candidates = [
+    ...(claimResponse.extension ?? []),
+    ...((claimResponse.item ?? []).flatMap((item: any) =>
+      (item.adjudication ?? []).flatMap((adjudication: any) => adjudication.extension ?? [])
+    )),
+  ];
+
+  for (const extension of candidates) {
+    if (extension.url !== REVIEW_ACTION_EXTENSION) continue;
+    const code = extension.extension?.find((part: any) => part.url === "code");
+    return code?.valueCodeableConcept?.coding?.[0]?.code;
+  }
+
+  return undefined;
+}
+
+/**
+ * Read the review action reason text, if any
+ */
+function readReviewActionReason(claimResponse: any): string | undefined {
+  for (const item of claimResponse.item ?? []) {
+    for (const adjudication of item.adjudication ?? []) {
+      for (const extension of adjudication.extension ?? []) {
+        if (extension.url !== REVIEW_ACTION_EXTENSION) continue;
+        const reason = extension.extension?.find((part: any) => part.url === "reasonCode");
+        const text = reason?.valueCodeableConcept?.text ?? reason?.valueCodeableConcept?.coding?.[0]?.display;
+        if (text) return text;
+      }
+    }
+  }
+  return undefined;
+}
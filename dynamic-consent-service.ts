@@ -0,0 +1,311 @@
+import { v4 as uuidv4 } from 'uuid';
+import { eq, and, lt, desc } from 'drizzle-orm';
+import { db } from '../db';
+import { logger } from '../utils/logger';
+import { consentWebhooks } from '../webhooks/webhook-triggers';
+import {
+  consents,
+  consentProvisions,
+  consentNotifications,
+  dynamicConsentRequests,
+  DynamicConsentRequest,
+  CreateDynamicConsentRequest,
+  DynamicConsentResponse
+} from '../../shared/consent-schema';
+
+/**
+ * Raised when a consent request is not in a state that allows the operation
+ */
+export class ConsentRequestStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConsentRequestStateError';
+  }
+}
+
+/**
+ * DynamicConsentService drives the lifecycle of consent requests raised by
+ * partner applications: request → patient approval or rejection → consent.
+ *
+ * Approving a request materializes a consent with a single permit provision
+ * scoped to the requester, purpose and resource types that were asked for.
+ * Pending requests lapse at their expiry time and can be withdrawn; revoking
+ * an approved request also revokes the consent it produced.
+ */
+class DynamicConsentService {
+  /**
+   * Create a consent request and notify the patient
+   *
+   * @param data Validated request data
+   * @returns The created request
+   */
+  async createRequest(data: CreateDynamicConsentRequest): Promise<DynamicConsentRequest> {
+    const requestId = uuidv4();
+    const expiresAt = new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000);
+
+    const [request] = await db.insert(dynamicConsentRequests).values({
+      requestId,
+      patientId: data.patientId,
+      requesterId: data.requesterId,
+      requesterName: data.requesterName,
+      requesterOrganization: data.requesterOrganization,
+      resourceTypes: data.resourceTypes,
+      purpose: data.purpose,
+      requestMessage: data.requestMessage,
+      status: 'pending',
+      expiresAt
+    }).returning();
+
+    await db.insert(consentNotifications).values({
+      consentId: requestId,
+      patientId: data.patientId,
+      notificationType: 'consent-request',
+      status: 'pending',
+      message: `${data.requesterName} is asking for access to your ${data.resourceTypes.join(', ')} records. Please respond by ${expiresAt.toISOString()}.`,
+      channel: 'portal',
+      scheduledTime: new Date()
+    });
+
+    logger.info('Dynamic consent request created', { requestId, patientId: data.patientId, requesterId: data.requesterId });
+
+    await consentWebhooks.requestCreated(requestId, this.toWebhookPayload(request));
+
+    return request;
+  }
+
+  /**
+   * Get a consent request by its request ID
+   */
+  async getRequest(requestId: string): Promise<DynamicConsentRequest | undefined> {
+    const [request] = await db.select()
+      .from(dynamicConsentRequests)
+      .where(eq(dynamicConsentRequests.requestId, requestId));
+
+    return request;
+  }
+
+  /**
+   * Get consent requests addressed to a patient.
+   * Lapsed requests are expired before the list is returned.
+   *
+   * @param patientId Patient ID
+   * @param status Optional status filter
+   * @returns Requests, newest first
+   */
+  async getRequestsForPatient(patientId: string, status?: string): Promise<DynamicConsentRequest[]> {
+    await this.expireStaleRequests();
+
+    const conditions = [eq(dynamicConsentRequests.patientId, patientId)];
+    if (status) {
+      conditions.push(eq(dynamicConsentRequests.status, status));
+    }
+
+    return db.select()
+      .from(dynamicConsentRequests)
+      .where(and(...conditions))
+      .orderBy(desc(dynamicConsentRequests.created));
+  }
+
+  /**
+   * Record the patient's response to a pending request.
+   * Approval creates the consent and its permit provision in one transaction.
+   *
+   * @param requestId Request ID
+   * @param patientId Patient responding (must own the request)
+   * @param response Approval decision and optional policy text
+   * @returns The updated request, or undefined if not found
+   */
+  async respond(requestId: string, patientId: string, response: DynamicConsentResponse): Promise<DynamicConsentRequest | undefined> {
+    const request = await this.getRequest(requestId);
+
+    if (!request || request.patientId !== patientId) {
+      return undefined;
+    }
+
+    if (request.status !== 'pending') {
+      throw new ConsentRequestStateError(`Consent request is already ${request.status}`);
+    }
+
+    const now = new Date();
+
+    if (request.expiresAt <= now) {
+      await this.markExpired(request);
+      throw new ConsentRequestStateError('Consent request has expired');
+    }
+
+    // Updates only apply while the request is still pending, so a concurrent
+    // response or expiry cannot be overwritten
+    const stillPending = and(eq(dynamicConsentRequests.id, request.id), eq(dynamicConsentRequests.status, 'pending'));
+
+    if (!response.approved) {
+      const [rejected] = await db.update(dynamicConsentRequests)
+        .set({ status: 'rejected', responseTime: now, updated: now })
+        .where(stillPending)
+        .returning();
+
+      if (!rejected) {
+        throw new ConsentRequestStateError('Consent request is no longer pending');
+      }
+
+      logger.info('Dynamic consent request rejected', { requestId });
+      await consentWebhooks.requestRejected(requestId, this.toWebhookPayload(rejected));
+
+      return rejected;
+    }
+
+    const consentId = uuidv4();
+
+    const approved = await db.transaction(async (tx) => {
+      const [updated] = await tx.update(dynamicConsentRequests)
+        .set({ status: 'approved', responseTime: now, responseConsentId: consentId, updated: now })
+        .where(stillPending)
+        .returning();
+
+      if (!updated) {
+        throw new ConsentRequestStateError('Consent request is no longer pending');
+      }
+
+      await tx.insert(consents).values({
+        consentId,
+        patientId: request.patientId,
+        status: 'active',
+        scope: 'patient-privacy',
+        category: '64292-6',
+        effectiveStart: now,
+        organization: request.requesterOrganization,
+        policyText: response.policyText ||
+          `Access granted to ${request.requesterName} for ${request.purpose} in response to request ${request.requestId}`,
+        templateReference: `dynamic-consent-request/${request.requestId}`,
+        createdBy: patientId
+      });
+
+      await tx.insert(consentProvisions).values({
+        consentId,
+        type: 'permit',
+        provisionId: `${consentId}-1`,
+        periodStart: now,
+        actorRole: 'PRCP',
+        actorReference: request.requesterId,
+        actorDisplay: request.requesterName,
+        purpose: [request.purpose],
+        dataClasses: request.resourceTypes ?? []
+      });
+
+      return updated;
+    });
+
+    logger.info('Dynamic consent request approved', { requestId, consentId });
+    await consentWebhooks.requestApproved(requestId, consentId, this.toWebhookPayload(approved));
+
+    return approved;
+  }
+
+  /**
+   * Withdraw a pending request, or revoke an approved one together with
+   * the consent it produced.
+   *
+   * @param requestId Request ID
+   * @param revokedBy Requester or patient revoking the request
+   * @returns The updated request, or undefined if not found or not owned
+   */
+  async revoke(requestId: string, revokedBy: string): Promise<DynamicConsentRequest | undefined> {
+    const request = await this.getRequest(requestId);
+
+    if (!request || (request.requesterId !== revokedBy && request.patientId !== revokedBy)) {
+      return undefined;
+    }
+
+    if (request.status !== 'pending' && request.status !== 'approved') {
+      throw new ConsentRequestStateError(`Cannot revoke a request that is ${request.status}`);
+    }
+
+    const now = new Date();
+
+    const revoked = await db.transaction(async (tx) => {
+      // Only revoke the request as it was read; if it was approved, rejected
+      // or expired in the meantime, the caller must look again
+      const [updated] = await tx.update(dynamicConsentRequests)
+        .set({ status: 'revoked', updated: now })
+        .where(and(eq(dynamicConsentRequests.id, request.id), eq(dynamicConsentRequests.status, request.status)))
+        .returning();
+
+      if (!updated) {
+        throw new ConsentRequestStateError('Consent request changed while it was being revoked');
+      }
+
+      if (updated.responseConsentId) {
+        await tx.update(consents)
+          .set({ status: 'revoked', effectiveEnd: now, updated: now })
+          .where(eq(consents.consentId, updated.responseConsentId));
+      }
+
+      return updated;
+    });
+
+    logger.info('Dynamic consent request revoked', { requestId, revokedBy });
+    await consentWebhooks.requestRevoked(requestId, { ...this.toWebhookPayload(revoked), revokedBy });
+
+    return revoked;
+  }
+
+  /**
+   * Expire pending requests whose response window has passed
+   *
+   * @returns Number of requests expired
+   */
+  async expireStaleRequests(): Promise<number> {
+    const now = new Date();
+
+    const expired = await db.update(dynamicConsentRequests)
+      .set({ status: 'expired', updated: now })
+      .where(
+        and(
+          eq(dynamicConsentRequests.status, 'pending'),
+          lt(dynamicConsentRequests.expiresAt, now)
+        )
+      )
+      .returning();
+
+    for (const request of expired) {
+      await consentWebhooks.requestExpired(request.requestId, this.toWebhookPayload(request));
+    }
+
+    if (expired.length > 0) {
+      logger.info('Expired stale consent requests', { count: expired.length });
+    }
+
+    return expired.length;
+  }
+
+  /**
+   * Mark a single request as expired
+   */
+  private async markExpired(request: DynamicConsentRequest): Promise<void> {
+    const [expired] = await db.update(dynamicConsentRequests)
+      .set({ status: 'expired', updated: new Date() })
+      .where(and(eq(dynamicConsentRequests.id, request.id), eq(dynamicConsentRequests.status, 'pending')))
+      .returning();
+
+    if (expired) {
+      await consentWebhooks.requestExpired(expired.requestId, this.toWebhookPayload(expired));
+    }
+  }
+
+  /**
+   * Build the webhook payload for a request (without the free-text message)
+   */
+  private toWebhookPayload(request: DynamicConsentRequest): Record<string, any> {
+    return {
+      patientId: request.patientId,
+      requesterId: request.requesterId,
+      requesterOrganization: request.requesterOrganization,
+      resourceTypes: request.resourceTypes,
+      purpose: request.purpose,
+      status: request.status,
+      expiresAt: request.expiresAt,
+      responseConsentId: request.responseConsentId
+    };
+  }
+}
+
+export const dynamicConsentService = new DynamicConsentService();
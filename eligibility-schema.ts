@@ -25,6 +25,20 @@ export const purposeEnum = pgEnum('eligibility_purpose', [
   'validation'
 ]);
 
+// X12 envelope settings for a clearinghouse, stored in eligibility_clearinghouses.config_settings
+export interface ClearinghouseX12Settings {
+  senderQualifier?: string;
+  senderId: string; // ISA06
+  receiverQualifier?: string;
+  receiverId: string; // ISA08
+  applicationSenderCode: string; // GS02
+  applicationReceiverCode: string; // GS03
+  originatorId?: string; // TRN03, defaults to senderId
+  usageIndicator?: 'T' | 'P';
+  timeoutMs?: number;
+  cacheTtlMinutes?: number;
+}
+
 // Eligibility request table
 export const eligibilityRequests = pgTable('eligibility_requests', {
   id: serial('id').primaryKey(),
@@ -223,7 +237,7 @@ export const eligibilityClearinghouses = pgTable('eligibility_clearinghouses', {
   credentialId: varchar('credential_id', { length: 255 }),
   
   // Configuration settings
-  configSettings: json('config_settings'),
+  configSettings: json('config_settings').$type<ClearinghouseX12Settings>(),
   
   // Metadata
   isActive: boolean('is_active').default(true),
@@ -300,6 +314,28 @@ export type InsertEligibilityClearinghouse = z.infer<typeof insertEligibilityCle
 export type EligibilityAuditLog = z.infer<typeof selectEligibilityAuditLogSchema>;
 export type InsertEligibilityAuditLog = z.infer<typeof insertEligibilityAuditLogSchema>;
 
+// X12 270 eligibility inquiry
+export const x12EligibilityInquirySchema = z.object({
+  patientId: z.string().min(1),
+  payerId: z.string().min(1),
+  coverageId: z.string().optional(),
+  subscriber: z.object({
+    memberId: z.string().min(1),
+    firstName: z.string().min(1),
+    lastName: z.string().min(1),
+    dateOfBirth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    gender: z.enum(['M', 'F', 'U']).optional()
+  }),
+  provider: z.object({
+    name: z.string().min(1),
+    npi: z.string().regex(/^\d{10}$/)
+  }),
+  serviceTypes: z.array(z.string().min(1).max(2)).min(1).default(['30']),
+  servicedDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional()
+});
+
+export type X12EligibilityInquiry = z.infer<typeof x12EligibilityInquirySchema>;
+
 // FHIR schemas for validation
 
 // CoverageEligibilityRequest schema
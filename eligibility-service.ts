@@ -0,0 +1,395 @@
+import { v4 as uuidv4 } from 'uuid';
+import axios from 'axios';
+import { db } from '../db';
+import { logger } from '../utils/logger';
+import { eligibilityStorage } from './eligibility-storage';
+import { build270, parse271, summarizeBenefits, X12EligibilityResponseData, X12BenefitSummary } from './x12-eligibility';
+import { nextControlNumber } from './x12-utils';
+import {
+  EligibilityRequest,
+  EligibilityResponse,
+  EligibilityBenefit,
+  EligibilityClearinghouse,
+  ClearinghouseX12Settings,
+  X12EligibilityInquiry
+} from '../../shared/eligibility-schema';
+
+// Default lifetime of a cached 271 when the clearinghouse does not set one
+const DEFAULT_CACHE_TTL_MINUTES = 24 * 60;
+
+// Retry policy for inquiries the clearinghouse could not be reached for
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+
+// Clearinghouse protocols that answer a 270 with a 271 in the same HTTP exchange
+const REAL_TIME_PROTOCOLS = ['REST', 'HTTP', 'HTTPS'];
+
+/**
+ * Raised when a payer has no usable clearinghouse route
+ */
+export class EligibilityRoutingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EligibilityRoutingError';
+  }
+}
+
+export interface EligibilityCheckResult {
+  request: EligibilityRequest;
+  response?: EligibilityResponse;
+  benefits: EligibilityBenefit[];
+  cached: boolean;
+}
+
+/**
+ * EligibilityService runs X12 270/271 eligibility checks.
+ *
+ * A check is answered from eligibility_cache when an unexpired 271 exists for
+ * the same subscriber, payer, service types and date. Otherwise a 270 is built
+ * and sent to the clearinghouse picked by the payer's routing; real-time
+ * clearinghouses answer in the same exchange, batch clearinghouses deliver the
+ * 271 later through receive271. Parsed benefits land in eligibility_benefits.
+ */
+class EligibilityService {
+  /**
+   * Check a subscriber's eligibility and benefits
+   *
+   * @param inquiry Validated inquiry
+   * @param createdBy User initiating the check
+   * @param options.skipCache Always go to the clearinghouse
+   * @returns The request, and the response and benefits when available
+   */
+  async checkEligibility(
+    inquiry: X12EligibilityInquiry,
+    createdBy: number,
+    options: { skipCache?: boolean } = {}
+  ): Promise<EligibilityCheckResult> {
+    const servicedDate = inquiry.servicedDate || new Date().toISOString().slice(0, 10);
+    const cacheServiceType = this.cacheServiceType(inquiry.serviceTypes);
+
+    if (!options.skipCache) {
+      const cachedResponse = await eligibilityStorage.getResponseByCacheParams(
+        inquiry.subscriber.memberId,
+        inquiry.payerId,
+        cacheServiceType,
+        servicedDate
+      );
+
+      if (cachedResponse) {
+        const request = await eligibilityStorage.createEligibilityRequest(
+          this.toRequestRecord(inquiry, servicedDate, createdBy, 'cached')
+        );
+
+        await eligibilityStorage.logAuditEvent({
+          requestId: request.id,
+          responseId: cachedResponse.id,
+          eventType: 'cache_hit',
+          actorId: createdBy,
+          actorType: 'user'
+        });
+
+        return {
+          request,
+          response: cachedResponse,
+          benefits: await eligibilityStorage.getEligibilityBenefitsByResponseId(cachedResponse.id),
+          cached: true
+        };
+      }
+    }
+
+    const request = await eligibilityStorage.createEligibilityRequest(
+      this.toRequestRecord(inquiry, servicedDate, createdBy, 'processing')
+    );
+
+    await eligibilityStorage.logAuditEvent({
+      requestId: request.id,
+      eventType: 'request_received',
+      actorId: createdBy,
+      actorType: 'user'
+    });
+
+    return this.sendInquiry(request, inquiry);
+  }
+
+  /**
+   * Apply a 271 delivered asynchronously (batch clearinghouses).
+   * The 271 is matched to its request by the TRN trace number.
+   *
+   * @param content Raw 271 content
+   * @returns The stored response and benefits
+   */
+  async receive271(content: string): Promise<EligibilityCheckResult> {
+    const parsed = parse271(content);
+
+    if (!parsed.traceNumber) {
+      throw new Error('271 has no subscriber trace number');
+    }
+
+    const request = await eligibilityStorage.getEligibilityRequestByTransactionId(parsed.traceNumber);
+    if (!request) {
+      throw new Error(`No eligibility request found for trace ${parsed.traceNumber}`);
+    }
+
+    return this.storeResponse(request, content, parsed);
+  }
+
+  /**
+   * Resend inquiries whose clearinghouse call failed and whose retry time has come
+   *
+   * @returns Number of requests retried
+   */
+  async retryFailedRequests(): Promise<number> {
+    const requests = await eligibilityStorage.getRetryReadyRequests();
+    let retried = 0;
+
+    for (const request of requests) {
+      if (request.source !== 'x12' || (request.retryCount ?? 0) >= MAX_RETRIES) {
+        continue;
+      }
+
+      try {
+        await eligibilityStorage.updateEligibilityRequestStatus(request.id, 'processing');
+        await this.sendInquiry(request, request.requestPayload as X12EligibilityInquiry);
+      } catch (error) {
+        logger.warn('Eligibility retry failed', { requestId: request.id, error: (error as Error).message });
+      }
+      retried++;
+    }
+
+    return retried;
+  }
+
+  /**
+   * Build the 270 for a request and send it through the payer's clearinghouse
+   */
+  private async sendInquiry(request: EligibilityRequest, inquiry: X12EligibilityInquiry): Promise<EligibilityCheckResult> {
+    const routing = await eligibilityStorage.getPayerRouting(inquiry.payerId);
+
+    if (!routing || !routing.useClearinghouse || !routing.clearinghouseId) {
+      await eligibilityStorage.updateEligibilityRequestStatus(request.id, 'failed');
+      throw new EligibilityRoutingError(`No clearinghouse route configured for payer ${inquiry.payerId}`);
+    }
+
+    const clearinghouse = await eligibilityStorage.getClearinghouse(routing.clearinghouseId);
+    const settings = clearinghouse?.configSettings;
+
+    if (!clearinghouse || !settings) {
+      await eligibilityStorage.updateEligibilityRequestStatus(request.id, 'failed');
+      throw new EligibilityRoutingError(`Clearinghouse ${routing.clearinghouseId} is inactive or has no X12 settings`);
+    }
+
+    const formattingRules = (routing.formattingRules || {}) as { x12PayerId?: string };
+    const controlNumber = await nextControlNumber(db, settings.senderId);
+
+    const x12 = build270({
+      traceNumber: request.transactionId,
+      originatorId: settings.originatorId || settings.senderId,
+      payer: { name: routing.payerName, payerId: formattingRules.x12PayerId || routing.payerId },
+      provider: inquiry.provider,
+      subscriber: inquiry.subscriber,
+      serviceTypes: inquiry.serviceTypes,
+      servicedDate: request.servicedDate || undefined
+    }, {
+      senderQualifier: settings.senderQualifier,
+      senderId: settings.senderId,
+      receiverQualifier: settings.receiverQualifier,
+      receiverId: settings.receiverId,
+      applicationSenderCode: settings.applicationSenderCode,
+      applicationReceiverCode: settings.applicationReceiverCode,
+      usageIndicator: settings.usageIndicator,
+      controlNumber
+    });
+
+    const forwarded = await eligibilityStorage.updateEligibilityRequestStatus(request.id, 'processing', {
+      rawRequestData: x12,
+      forwardedToPayerId: routing.payerId,
+      forwardedToClearinghouseId: clearinghouse.clearinghouseId,
+      forwardedAt: new Date()
+    });
+
+    await eligibilityStorage.logAuditEvent({
+      requestId: request.id,
+      eventType: 'forwarded',
+      actorType: 'clearinghouse',
+      eventDetails: { clearinghouseId: clearinghouse.clearinghouseId, controlNumber }
+    });
+
+    if (!REAL_TIME_PROTOCOLS.includes(clearinghouse.protocolType.toUpperCase())) {
+      // Batch clearinghouses pick up rawRequestData and return the 271 through receive271
+      logger.info('Eligibility inquiry queued for batch clearinghouse', {
+        requestId: request.id,
+        clearinghouseId: clearinghouse.clearinghouseId
+      });
+      return { request: forwarded, benefits: [], cached: false };
+    }
+
+    let content: string;
+    try {
+      const response = await axios.post(clearinghouse.endpoint, x12, {
+        headers: { 'Content-Type': 'application/EDI-X12' },
+        timeout: settings.timeoutMs ?? 30000,
+        responseType: 'text'
+      });
+      content = String(response.data);
+    } catch (error) {
+      await this.markForwardFailed(forwarded, clearinghouse, error as Error);
+      throw error;
+    }
+
+    return this.storeResponse(forwarded, content, parse271(content), settings);
+  }
+
+  /**
+   * Store a parsed 271: the response, its benefit rows, and a cache entry
+   */
+  private async storeResponse(
+    request: EligibilityRequest,
+    content: string,
+    parsed: X12EligibilityResponseData,
+    settings?: ClearinghouseX12Settings
+  ): Promise<EligibilityCheckResult> {
+    const now = new Date();
+    const rejections = parsed.issues.filter(issue => !issue.valid);
+    const active = parsed.benefits.some(benefit => benefit.infoCode === '1');
+    const inactive = !active && parsed.benefits.some(benefit => benefit.infoCode === '6');
+    const rows = summarizeBenefits(parsed.benefits);
+
+    if (!settings && request.forwardedToClearinghouseId) {
+      settings = (await eligibilityStorage.getClearinghouse(request.forwardedToClearinghouseId))?.configSettings ?? undefined;
+    }
+
+    const cacheable = rejections.length === 0;
+    const cacheExpiresAt = new Date(now.getTime() + (settings?.cacheTtlMinutes ?? DEFAULT_CACHE_TTL_MINUTES) * 60 * 1000);
+
+    const response = await eligibilityStorage.createEligibilityResponse({
+      requestId: request.id,
+      status: active ? 'active' : inactive ? 'inactive' : 'unknown',
+      outcome: rejections.length > 0 ? 'error' : 'complete',
+      disposition: rejections.length > 0 ? 'Rejected by payer' : undefined,
+      servicesFromDate: parsed.planBegin?.toISOString().slice(0, 10),
+      servicesToDate: parsed.planEnd?.toISOString().slice(0, 10),
+      responsePayload: parsed,
+      rawResponseData: content,
+      processedAt: now,
+      isCached: cacheable,
+      cacheExpiresAt: cacheable ? cacheExpiresAt : undefined,
+      patientResponsibility: this.summarizeResponsibility(rows),
+      isActive: active,
+      inactiveReason: inactive ? 'Coverage inactive' : undefined,
+      hasErrors: rejections.length > 0,
+      errorDetails: rejections.length > 0 ? { issues: rejections } : undefined
+    });
+
+    const benefits = await eligibilityStorage.createEligibilityBenefits(
+      rows.map(row => ({ ...row, responseId: response.id }))
+    );
+
+    const completed = await eligibilityStorage.updateEligibilityRequestStatus(request.id, 'completed');
+
+    if (cacheable) {
+      await eligibilityStorage.createEligibilityCache({
+        subscriberId: request.subscriberId || parsed.subscriber?.memberId || '',
+        payerId: request.insurerId,
+        serviceType: this.cacheServiceType(request.serviceTypes ?? []),
+        servicedDate: request.servicedDate,
+        responseId: response.id,
+        expiresAt: cacheExpiresAt
+      });
+    }
+
+    await eligibilityStorage.logAuditEvent({
+      requestId: request.id,
+      responseId: response.id,
+      eventType: 'response_received',
+      actorType: 'clearinghouse',
+      statusCode: response.status,
+      eventDetails: { benefitCount: benefits.length, rejections: rejections.map(issue => issue.rejectReason) }
+    });
+
+    return { request: completed, response, benefits, cached: false };
+  }
+
+  /**
+   * Record a failed clearinghouse call and schedule a retry
+   */
+  private async markForwardFailed(
+    request: EligibilityRequest,
+    clearinghouse: EligibilityClearinghouse,
+    error: Error
+  ): Promise<void> {
+    const retryCount = (request.retryCount ?? 0) + 1;
+
+    await eligibilityStorage.updateEligibilityRequestStatus(request.id, 'failed', {
+      retryCount,
+      nextRetryAt: retryCount < MAX_RETRIES
+        ? new Date(Date.now() + RETRY_BASE_DELAY_MS * Math.pow(2, retryCount - 1))
+        : null
+    });
+
+    await eligibilityStorage.logAuditEvent({
+      requestId: request.id,
+      eventType: 'forward_failed',
+      actorType: 'clearinghouse',
+      eventDetails: { clearinghouseId: clearinghouse.clearinghouseId, error: error.message, retryCount }
+    });
+
+    logger.error('Eligibility inquiry to clearinghouse failed', {
+      requestId: request.id,
+      clearinghouseId: clearinghouse.clearinghouseId,
+      error: error.message
+    });
+  }
+
+  /**
+   * Plan-level deductible and out-of-pocket amounts, by coverage level
+   */
+  private summarizeResponsibility(rows: X12BenefitSummary[]): Record<string, any> {
+    const summary: Record<string, any> = {};
+
+    for (const row of rows) {
+      if (row.serviceType !== '30' || row.networkStatus === 'out-network') {
+        continue;
+      }
+
+      const level = row.additionalInfo.coverageLevel === 'FAM' ? 'family' : 'individual';
+      summary[level] = {
+        ...summary[level],
+        ...(row.deductibleAmount !== undefined && { deductibleAmount: row.deductibleAmount }),
+        ...(row.deductibleRemaining !== undefined && { deductibleRemaining: row.deductibleRemaining }),
+        ...(row.outOfPocketAmount !== undefined && { outOfPocketAmount: row.outOfPocketAmount }),
+        ...(row.outOfPocketRemaining !== undefined && { outOfPocketRemaining: row.outOfPocketRemaining })
+      };
+    }
+
+    return summary;
+  }
+
+  /**
+   * Map an inquiry onto an eligibility_requests row
+   */
+  private toRequestRecord(inquiry: X12EligibilityInquiry, servicedDate: string, createdBy: number, status: 'cached' | 'processing') {
+    return {
+      transactionId: uuidv4(),
+      status,
+      source: 'x12' as const,
+      purpose: ['benefits' as const],
+      patientId: inquiry.patientId,
+      subscriberId: inquiry.subscriber.memberId,
+      insurerId: inquiry.payerId,
+      coverageId: inquiry.coverageId,
+      servicedDate,
+      serviceTypes: inquiry.serviceTypes,
+      requestPayload: inquiry,
+      createdBy
+    };
+  }
+
+  /**
+   * Cache key component for a set of service types (order-insensitive)
+   */
+  private cacheServiceType(serviceTypes: string[]): string {
+    return [...serviceTypes].sort().join(',');
+  }
+}
+
+export const eligibilityService = new EligibilityService();
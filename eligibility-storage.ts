@@ -1,4 +1,4 @@
-import { eq, and, sql, desc, lt, inArray } from 'drizzle-orm';
+import { eq, and, sql, desc, lt, gt, inArray } from 'drizzle-orm';
 import { db } from '../db';
 import { logger } from '../utils/logger';
 import { 
@@ -43,11 +43,13 @@ class EligibilityStorage {
   }
 
   /**
-   * Get eligibility request by transaction ID
+   * Get eligibility request by transaction ID, ignoring case since payers
+   * may echo the 270 TRN02 back upper-cased on the 271
    */
   async getEligibilityRequestByTransactionId(transactionId: string): Promise<EligibilityRequest | undefined> {
     try {
-      const [request] = await db.select().from(eligibilityRequests).where(eq(eligibilityRequests.transactionId, transactionId));
+      const [request] = await db.select().from(eligibilityRequests)
+        .where(sql`lower(${eligibilityRequests.transactionId}) = ${transactionId.toLowerCase()}`);
       return request;
     } catch (error) {
       logger.error('Error getting eligibility request by transaction ID', { error, transactionId });
@@ -226,7 +228,7 @@ class EligibilityStorage {
       const conditions = [
         eq(eligibilityCache.subscriberId, subscriberId),
         eq(eligibilityCache.payerId, payerId),
-        lt(now, eligibilityCache.expiresAt)
+        gt(eligibilityCache.expiresAt, now)
       ];
       
       if (serviceType) {
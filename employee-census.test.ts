@@ -0,0 +1,173 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import type { Employee } from './employer-schema';
+import { diffCensus, fieldChanges, readCensus834, readCensusCsv, resolveCensusRows } from './employee-census';
+import { parse834 } from './x12-enrollment';
+
+const fixture = (...name: string[]) => readFileSync(path.join(__dirname, 'fixtures', ...name), 'utf8');
+
+const day = (date: string) => new Date(`${date}T00:00:00Z`);
+
+const EFFECTIVE_DATE = day('2024-02-01');
+
+const employee = (id: string, fields: Partial<Employee> = {}): Employee => ({
+  id,
+  employerId: 'employer-1',
+  userId: null,
+  employeeId: null,
+  email: `${id}@example.com`,
+  firstName: null,
+  lastName: null,
+  status: 'active',
+  departmentId: null,
+  locationId: null,
+  jobTitle: null,
+  hireDate: null,
+  terminationDate: null,
+  invitationSentDate: null,
+  invitationAcceptedDate: day('2020-01-01'),
+  lastInvitationDate: null,
+  invitationCount: 1,
+  createdAt: day('2020-01-01'),
+  updatedAt: null,
+  ...fields
+} as Employee);
+
+describe('readCensus834', () => {
+  const data = parse834(fixture('x12', '834.edi'));
+  const { rows, issues } = readCensus834(data);
+  const row = (employeeId: string) => rows.find(r => r.employeeId === employeeId)!;
+
+  it('reads subscribers as employees and skips dependents', () => {
+    expect(data.fullFile).toBe(false);
+    expect(issues).toEqual([]);
+    expect(rows.map(r => r.employeeId)).toEqual(['E100', 'E200', 'E300', 'E400']);
+    expect(row('E100')).toMatchObject({
+      email: 'jane.doe@example.com',
+      firstName: 'JANE',
+      lastName: 'DOE',
+      hireDate: day('2020-01-15'),
+      department: 'ENG',
+      terminated: false
+    });
+  });
+
+  it('terminates a cancellation with an employment end date as of that date', () => {
+    expect(row('E200')).toMatchObject({ terminated: true, terminationDate: day('2024-01-31') });
+  });
+
+  it('does not terminate a cancellation that only ends coverage', () => {
+    expect(row('E300')).toMatchObject({ terminated: false, terminationDate: undefined });
+  });
+
+  it('terminates a retired employee, falling back to the end of their benefits', () => {
+    expect(row('E400')).toMatchObject({ terminated: true, terminationDate: day('2024-03-15') });
+  });
+});
+
+describe('readCensusCsv', () => {
+  it('matches columns by header name and reads each row', async () => {
+    const { rows, issues } = await readCensusCsv(fixture('census', 'census.csv'));
+
+    expect(rows.map(r => r.line)).toEqual([2, 3, 4, 5]);
+    expect(rows[0]).toMatchObject({
+      employeeId: 'E100',
+      email: 'jane.doe@example.com',
+      jobTitle: 'Engineer',
+      hireDate: day('2020-01-15'),
+      department: 'ENG',
+      location: 'Boston',
+      terminated: false
+    });
+    expect(rows[1]).toMatchObject({
+      jobTitle: 'Manager, Sales',
+      hireDate: day('2019-01-02'),
+      terminationDate: day('2024-01-31'),
+      terminated: true
+    });
+    expect(rows[3]).toMatchObject({ employeeId: 'E500', email: undefined, hireDate: day('2023-06-01') });
+
+    // 2019-02-30 does not exist
+    expect(rows[2].invalid).toBe(true);
+    expect(issues).toEqual([{ line: 4, employeeKey: 'E300', severity: 'error', message: 'Invalid hireDate: 2019-02-30' }]);
+  });
+
+  it('needs an employee ID or email column', async () => {
+    await expect(readCensusCsv('First Name,Last Name\nJane,Doe\n')).rejects.toThrow('needs an employee ID or email column');
+  });
+});
+
+describe('diffCensus', () => {
+  const departments = [{ id: 'dept-eng', name: 'Engineering', code: 'ENG' }];
+  const locations = [{ id: 'loc-bos', name: 'Boston' }];
+
+  it('terminates employees the file ends or omits, and leaves matching ones unchanged', async () => {
+    const { rows } = await readCensusCsv(fixture('census', 'census.csv'));
+    const { records, issues } = resolveCensusRows(rows, departments, locations);
+    expect(issues.map(issue => issue.message)).toEqual(['Unknown department SALES', 'Unknown department FIN', 'Unknown location Denver']);
+
+    const employees = [
+      employee('jane', { employeeId: 'E100', email: 'jane.doe@example.com', firstName: 'Jane', lastName: 'Doe', jobTitle: 'Engineer', hireDate: day('2020-01-15'), departmentId: 'dept-eng', locationId: 'loc-bos' }),
+      employee('john', { employeeId: 'E200', email: 'john.smith@example.com' }),
+      employee('anna', { employeeId: 'E300', email: 'anna.lee@example.com' }),
+      employee('omar', { employeeId: 'E600' })
+    ];
+    const diff = diffCensus(employees, records, 'full', EFFECTIVE_DATE);
+
+    expect(diff.unchanged).toBe(1);
+    expect(diff.changes.map(change => [change.changeType, change.employeeKey])).toEqual([
+      ['terminate', 'E200'],
+      ['terminate', 'E600']
+    ]);
+    expect(diff.changes[0].after).toMatchObject({ status: 'inactive', terminationDate: day('2024-01-31') });
+    // Absent from the file; Anna is listed, if on an invalid row, so she stays
+    expect(diff.changes[1]).toMatchObject({ employeeId: 'omar', line: null, after: { status: 'inactive', terminationDate: EFFECTIVE_DATE } });
+    expect(diff.issues).toEqual([
+      { line: 5, employeeKey: 'E500', severity: 'error', message: 'New employee has no email' },
+      expect.objectContaining({ line: 0, severity: 'warning' })
+    ]);
+  });
+
+  it('terminates neither employee when a row\'s ID and email belong to different ones', () => {
+    const employees = [
+      employee('first', { employeeId: 'E1', email: 'first@example.com' }),
+      employee('second', { employeeId: 'E2', email: 'second@example.com' })
+    ];
+    const diff = diffCensus(employees, [
+      { line: 2, employeeId: 'E1', email: 'second@example.com', terminated: false }
+    ], 'full', EFFECTIVE_DATE);
+
+    expect(diff.changes).toEqual([]);
+    expect(diff.issues).toEqual([{
+      line: 2,
+      employeeKey: 'E1',
+      severity: 'error',
+      message: 'Employee ID E1 and email second@example.com belong to different employees'
+    }]);
+  });
+
+  it('reactivates an inactive employee the file lists as active', () => {
+    const employees = [employee('ann', { employeeId: 'E1', status: 'inactive', terminationDate: day('2023-12-31') })];
+    const diff = diffCensus(employees, [{ line: 2, employeeId: 'E1', terminated: false }], 'changes', EFFECTIVE_DATE);
+
+    expect(diff.changes).toEqual([{
+      changeType: 'reactivate',
+      employeeId: 'ann',
+      employeeKey: 'E1',
+      line: 2,
+      before: { terminationDate: day('2023-12-31'), status: 'inactive' },
+      after: { terminationDate: null, status: 'active' }
+    }]);
+  });
+});
+
+describe('fieldChanges', () => {
+  it('reports only fields the target sets to a different value, ignoring case in names', () => {
+    const current = employee('ann', { firstName: 'ANN', jobTitle: 'Analyst', hireDate: day('2020-01-01') });
+    expect(fieldChanges(current, { firstName: 'Ann', jobTitle: 'Lead', hireDate: new Date('2020-01-01T00:00:00Z') })).toEqual({
+      before: { jobTitle: 'Analyst' },
+      after: { jobTitle: 'Lead' }
+    });
+    expect(fieldChanges(current, { firstName: 'ann' })).toBeNull();
+  });
+});
@@ -0,0 +1,453 @@
+/**
+ * Smart Health Hub - Employee Census
+ *
+ * Reading employer eligibility files (CSV HR census files and X12 834
+ * enrollment files) as census rows, and diffing census records against an
+ * employer's current employees into adds, updates, terminations and
+ * reactivations for the census import service to preview and apply.
+ *
+ * A blank value in a file leaves the employee's field as it is; files are
+ * not trusted to clear data.
+ */
+
+import type { CensusImportIssue, Employee } from '../../../shared/employer-schema';
+import { parseCsvRows } from './nppes';
+import { isTermination, terminationDate, type X12EnrollmentData } from './x12-enrollment';
+
+// Full files that would terminate more than this share of active employees are flagged
+export const MASS_TERMINATION_THRESHOLD = 0.2;
+
+// CSV header aliases, compared lower case with spaces and punctuation removed
+const CSV_COLUMNS: Record<keyof Omit<CensusRow, 'line' | 'terminated' | 'invalid'> | 'status', string[]> = {
+  employeeId: ['employeeid', 'employeenumber', 'employeeno', 'empid', 'workerid', 'id'],
+  email: ['email', 'emailaddress', 'workemail'],
+  firstName: ['firstname', 'givenname', 'first'],
+  lastName: ['lastname', 'surname', 'familyname', 'last'],
+  jobTitle: ['jobtitle', 'title', 'position'],
+  hireDate: ['hiredate', 'startdate', 'dateofhire'],
+  terminationDate: ['terminationdate', 'termdate', 'enddate'],
+  department: ['department', 'departmentcode', 'dept', 'deptcode'],
+  location: ['location', 'locationname', 'site', 'worksite'],
+  status: ['status', 'employmentstatus']
+};
+
+const TERMINATED_STATUSES = ['terminated', 'term', 'inactive', 't', 'te'];
+
+/**
+ * An employee as listed in a file. Department and location are the
+ * employer's codes or names; undefined means the file does not say.
+ */
+export interface CensusRow {
+  line: number; // CSV line or 834 INS loop number
+  employeeId?: string; // Employer's ID for the employee
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  jobTitle?: string;
+  hireDate?: Date;
+  terminationDate?: Date;
+  department?: string;
+  location?: string;
+  terminated: boolean; // The file says the employee has left
+  invalid?: boolean; // Has errors; only keeps its employee from being terminated by absence
+}
+
+/**
+ * A census row with its department and location resolved to IDs
+ */
+export interface CensusRecord extends Omit<CensusRow, 'department' | 'location'> {
+  departmentId?: string;
+  locationId?: string;
+}
+
+/**
+ * The employee fields a census import manages
+ */
+export type CensusFields = Pick<
+  Employee,
+  'employeeId' | 'email' | 'firstName' | 'lastName' | 'jobTitle' | 'hireDate' | 'terminationDate' | 'departmentId' | 'locationId' | 'status'
+>;
+
+export const CENSUS_FIELDS: (keyof CensusFields)[] = [
+  'employeeId', 'email', 'firstName', 'lastName', 'jobTitle', 'hireDate', 'terminationDate', 'departmentId', 'locationId', 'status'
+];
+
+// Compared ignoring case, since files differ in convention (834 names are upper case)
+const CASE_INSENSITIVE_FIELDS: (keyof CensusFields)[] = ['email', 'firstName', 'lastName', 'jobTitle'];
+
+/**
+ * A change a census would make to the employees
+ */
+export interface CensusChange {
+  changeType: 'add' | 'update' | 'terminate' | 'reactivate';
+  employeeId: string | null; // Null for adds
+  employeeKey: string; // Employer's ID or email of the employee
+  line: number | null; // Null for terminations by absence from a full file
+  before: Partial<CensusFields> | null; // Current values of the changed fields
+  after: Partial<CensusFields>;
+}
+
+export interface CensusDiff {
+  changes: CensusChange[];
+  unchanged: number;
+  issues: CensusImportIssue[];
+}
+
+/**
+ * Read a CSV census file. The first row is the header; columns are matched by
+ * common header names.
+ */
+export async function readCensusCsv(content: string): Promise<{ rows: CensusRow[]; issues: CensusImportIssue[] }> {
+  const rows: CensusRow[] = [];
+  const issues: CensusImportIssue[] = [];
+  let columns: Map<string, number> | null = null;
+  let line = 0;
+
+  for await (const cells of parseCsvRows([content])) {
+    line++;
+    if (!columns) {
+      columns = matchCsvHeader(cells);
+      if (!columns.has('employeeId') && !columns.has('email')) {
+        throw new Error('Census file needs an employee ID or email column');
+      }
+      continue;
+    }
+
+    const header = columns;
+    const cell = (name: string): string | undefined => {
+      const index = header.get(name);
+      const value = index === undefined ? undefined : cells[index]?.trim();
+      return value ? value : undefined;
+    };
+
+    const dates: Partial<Record<'hireDate' | 'terminationDate', Date>> = {};
+    let invalid = false;
+    for (const name of ['hireDate', 'terminationDate'] as const) {
+      const value = cell(name);
+      if (value === undefined) {
+        continue;
+      }
+      const date = parseCensusDate(value);
+      if (!date) {
+        issues.push({ line, employeeKey: cell('employeeId') || cell('email'), severity: 'error', message: `Invalid ${name}: ${value}` });
+        invalid = true;
+      } else {
+        dates[name] = date;
+      }
+    }
+
+    const status = cell('status')?.toLowerCase();
+    rows.push({
+      line,
+      employeeId: cell('employeeId'),
+      email: cell('email')?.toLowerCase(),
+      firstName: cell('firstName'),
+      lastName: cell('lastName'),
+      jobTitle: cell('jobTitle'),
+      department: cell('department'),
+      location: cell('location'),
+      ...dates,
+      terminated: (status !== undefined && TERMINATED_STATUSES.includes(status)) ||
+        (dates.terminationDate !== undefined && status === undefined),
+      invalid: invalid || undefined
+    });
+  }
+
+  return { rows, issues };
+}
+
+/**
+ * Read the subscribers of an 834 file as census rows. Dependents are not employees.
+ */
+export function readCensus834(data: X12EnrollmentData): { rows: CensusRow[]; issues: CensusImportIssue[] } {
+  const rows: CensusRow[] = [];
+  const issues: CensusImportIssue[] = [];
+
+  for (const member of data.members) {
+    if (!member.subscriber) {
+      continue;
+    }
+
+    const employeeId = member.subscriberId || member.memberIdentifier;
+    if (!employeeId && !member.email) {
+      issues.push({ line: member.position, severity: 'error', message: 'Subscriber has no subscriber ID or email' });
+      continue;
+    }
+
+    const terminated = isTermination(member);
+    rows.push({
+      line: member.position,
+      employeeId,
+      email: member.email?.toLowerCase(),
+      firstName: member.firstName,
+      lastName: member.lastName,
+      hireDate: member.employmentBeginDate,
+      terminationDate: terminated ? terminationDate(member) : undefined,
+      department: member.departmentNumber,
+      terminated
+    });
+  }
+
+  return { rows, issues };
+}
+
+/**
+ * Resolve rows' department and location codes or names to the employer's IDs.
+ * Unknown ones are left unset with a warning.
+ */
+export function resolveCensusRows(
+  rows: CensusRow[],
+  departments: { id: string; name: string; code: string | null }[],
+  locations: { id: string; name: string }[]
+): { records: CensusRecord[]; issues: CensusImportIssue[] } {
+  const departmentIds = new Map<string, string>();
+  for (const department of departments) {
+    departmentIds.set(department.name.toLowerCase(), department.id);
+    if (department.code) {
+      departmentIds.set(department.code.toLowerCase(), department.id);
+    }
+  }
+  const locationIds = new Map(locations.map(location => [location.name.toLowerCase(), location.id]));
+
+  const issues: CensusImportIssue[] = [];
+  const records = rows.map(({ department, location, ...row }) => {
+    const record: CensusRecord = { ...row };
+    if (department !== undefined) {
+      record.departmentId = departmentIds.get(department.toLowerCase());
+      if (!record.departmentId) {
+        issues.push({ line: row.line, employeeKey: rowKey(row), severity: 'warning', message: `Unknown department ${department}` });
+      }
+    }
+    if (location !== undefined) {
+      record.locationId = locationIds.get(location.toLowerCase());
+      if (!record.locationId) {
+        issues.push({ line: row.line, employeeKey: rowKey(row), severity: 'warning', message: `Unknown location ${location}` });
+      }
+    }
+    return record;
+  });
+
+  return { records, issues };
+}
+
+/**
+ * Diff census records against an employer's current employees. Employees are
+ * matched by the employer's ID, then by email. In a full census, employees
+ * who are not listed are terminated as of the effective date.
+ */
+export function diffCensus(
+  employees: Employee[],
+  records: CensusRecord[],
+  mode: 'full' | 'changes',
+  effectiveDate: Date
+): CensusDiff {
+  const byEmployeeId = new Map<string, Employee>();
+  const byEmail = new Map<string, Employee>();
+  for (const employee of employees) {
+    if (employee.employeeId) {
+      byEmployeeId.set(employee.employeeId, employee);
+    }
+    byEmail.set(employee.email.toLowerCase(), employee);
+  }
+
+  const diff: CensusDiff = { changes: [], unchanged: 0, issues: [] };
+  const listed = new Set<string>(); // Employees the file lists, even on invalid rows
+  const keys = new Set<string>(); // Employee keys already used in the file
+  const matched = new Set<string>(); // Employees already matched by a row
+
+  for (const record of records) {
+    const key = rowKey(record);
+    const idMatch = record.employeeId ? byEmployeeId.get(record.employeeId) : undefined;
+    const emailMatch = record.email ? byEmail.get(record.email) : undefined;
+    const employee = idMatch || emailMatch;
+
+    // Both, so a row whose ID and email disagree terminates neither employee by absence
+    for (const match of [idMatch, emailMatch]) {
+      if (match) {
+        listed.add(match.id);
+      }
+    }
+    if (record.invalid) {
+      continue;
+    }
+
+    if (keys.has(key) || (employee && matched.has(employee.id))) {
+      diff.issues.push({ line: record.line, employeeKey: key, severity: 'error', message: 'Employee is listed more than once' });
+      continue;
+    }
+    keys.add(key);
+
+    if (idMatch && emailMatch && idMatch.id !== emailMatch.id) {
+      diff.issues.push({
+        line: record.line,
+        employeeKey: key,
+        severity: 'error',
+        message: `Employee ID ${record.employeeId} and email ${record.email} belong to different employees`
+      });
+      continue;
+    }
+
+    if (!employee) {
+      if (record.terminated) {
+        diff.issues.push({ line: record.line, employeeKey: key, severity: 'warning', message: 'Terminated employee is not on file' });
+        continue;
+      }
+      if (!record.email) {
+        diff.issues.push({ line: record.line, employeeKey: key, severity: 'error', message: 'New employee has no email' });
+        continue;
+      }
+
+      diff.changes.push({
+        changeType: 'add',
+        employeeId: null,
+        employeeKey: key,
+        line: record.line,
+        before: null,
+        after: definedFields({ ...recordFields(record), status: 'pending_invitation' })
+      });
+      continue;
+    }
+    matched.add(employee.id);
+
+    const target = recordFields(record);
+    let changeType: CensusChange['changeType'] = 'update';
+    if (record.terminated) {
+      if (employee.status !== 'inactive') {
+        changeType = 'terminate';
+        target.status = 'inactive';
+        target.terminationDate = record.terminationDate || effectiveDate;
+      }
+    } else if (employee.status === 'inactive') {
+      changeType = 'reactivate';
+      target.status = employee.invitationAcceptedDate ? 'active' : 'pending_invitation';
+      target.terminationDate = null;
+    }
+
+    const change = fieldChanges(employee, target);
+    if (!change) {
+      diff.unchanged++;
+      continue;
+    }
+    diff.changes.push({ changeType, employeeId: employee.id, employeeKey: key, line: record.line, ...change });
+  }
+
+  if (mode === 'full') {
+    const active = employees.filter(employee => employee.status !== 'inactive');
+    const absent = active.filter(employee => !listed.has(employee.id));
+    for (const employee of absent) {
+      diff.changes.push({
+        changeType: 'terminate',
+        employeeId: employee.id,
+        employeeKey: employee.employeeId || employee.email,
+        line: null,
+        before: { status: employee.status, terminationDate: employee.terminationDate },
+        after: { status: 'inactive', terminationDate: effectiveDate }
+      });
+    }
+
+    if (active.length > 0 && absent.length / active.length > MASS_TERMINATION_THRESHOLD) {
+      diff.issues.push({
+        line: 0,
+        severity: 'warning',
+        message: `The file omits ${absent.length} of ${active.length} active employees, who would be terminated. Check that it is a complete census.`
+      });
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * The fields that differ between an employee and a target, or null if none do
+ */
+export function fieldChanges(
+  employee: CensusFields,
+  target: Partial<CensusFields>
+): { before: Partial<CensusFields>; after: Partial<CensusFields> } | null {
+  const before: Partial<CensusFields> = {};
+  const after: Partial<CensusFields> = {};
+  const compareField = <K extends keyof CensusFields>(field: K) => {
+    if (target[field] === undefined || sameValue(employee[field], target[field], CASE_INSENSITIVE_FIELDS.includes(field))) {
+      return;
+    }
+    before[field] = employee[field];
+    after[field] = target[field];
+  };
+  CENSUS_FIELDS.forEach(compareField);
+  return Object.keys(after).length > 0 ? { before, after } : null;
+}
+
+/**
+ * Compare field values, including dates that have been through JSON
+ */
+export function sameValue(a: unknown, b: unknown, ignoreCase: boolean = false): boolean {
+  const [x, y] = [comparable(a), comparable(b)];
+  return ignoreCase ? x?.toLowerCase() === y?.toLowerCase() : x === y;
+}
+
+function comparable(value: unknown): string | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return String(value);
+}
+
+function recordFields(record: CensusRecord): Partial<CensusFields> {
+  return {
+    employeeId: record.employeeId,
+    email: record.email,
+    firstName: record.firstName,
+    lastName: record.lastName,
+    jobTitle: record.jobTitle,
+    hireDate: record.hireDate,
+    terminationDate: record.terminated ? record.terminationDate : undefined,
+    departmentId: record.departmentId,
+    locationId: record.locationId
+  };
+}
+
+function definedFields(fields: Partial<CensusFields>): Partial<CensusFields> {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+}
+
+function rowKey(row: { employeeId?: string; email?: string; line: number }): string {
+  return row.employeeId || row.email || `line ${row.line}`;
+}
+
+/**
+ * Match header cells to census fields
+ */
+function matchCsvHeader(cells: string[]): Map<string, number> {
+  const columns = new Map<string, number>();
+  cells.forEach((cell, index) => {
+    const name = cell.toLowerCase().replace(/[^a-z0-9]/g, '');
+    for (const [field, aliases] of Object.entries(CSV_COLUMNS)) {
+      if (aliases.includes(name) && !columns.has(field)) {
+        columns.set(field, index);
+      }
+    }
+  });
+  return columns;
+}
+
+/**
+ * Parse YYYY-MM-DD, MM/DD/YYYY or YYYYMMDD as a UTC date
+ */
+function parseCensusDate(value: string): Date | undefined {
+  let match = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value) || /^(\d{4})(\d{2})(\d{2})$/.exec(value);
+  let [year, month, day] = match ? [match[1], match[2], match[3]] : [];
+  if (!match) {
+    match = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value);
+    if (!match) {
+      return undefined;
+    }
+    [month, day, year] = [match[1], match[2], match[3]];
+  }
+
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  // Reject dates that rolled over, e.g. 02/30
+  return date.getUTCMonth() === Number(month) - 1 && date.getUTCDate() === Number(day) ? date : undefined;
+}
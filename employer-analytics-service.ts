@@ -0,0 +1,553 @@
+/**
+ * Smart Health Hub - Employer Analytics Service
+ *
+ * Produces the participation and outcome reports employer admins see, for
+ * the employer as a whole and for each wellness program. Reports only ever
+ * hold de-identified counts (see analytics-privacy), made under the
+ * employer's analytics privacy policy, and are stored in employer_analytics
+ * and program_analytics.
+ *
+ * Reports cover calendar months, and one is released per month and policy
+ * and then reused: with differential privacy, releasing fresh noise for every
+ * request would let the noise be averaged away, and reports over arbitrary
+ * overlapping windows could be differenced to single out the employees who
+ * came and went between them. Each noisy release spends the report's epsilon
+ * from the employer's yearly privacy budget; once it is spent, no more noisy
+ * reports are released for that year.
+ */
+
+import { eq, and, ne, gte, lt, inArray, desc } from 'drizzle-orm';
+import { db } from '../../db';
+import logger from '../../utils/logger';
+import {
+  employers,
+  employees,
+  employerDepartments,
+  employerLocations,
+  wellnessPrograms,
+  programEnrollments,
+  wellnessActivities,
+  incentiveAwards,
+  employerAnalytics,
+  programAnalytics,
+  analyticsPrivacyPolicies,
+  analyticsPrivacyBudgets,
+  type AnalyticsDimension,
+  type AnalyticsPrivacyApplied,
+  type AnalyticsPrivacyPolicy,
+  type EmployerAnalyticsReport,
+  type InsertAnalyticsPrivacyPolicy,
+  type ProgramAnalyticsReport
+} from '../../../shared/employer-schema';
+import {
+  COHORT,
+  DEFAULT_PRIVACY_POLICY,
+  deidentify,
+  type CountRow,
+  type CountTable,
+  type DeidentifiedReport,
+  type PrivacyPolicy
+} from './analytics-privacy';
+
+/**
+ * An analytics request that cannot be carried out, with the HTTP status to report
+ */
+export class AnalyticsPrivacyError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 409
+  ) {
+    super(message);
+    this.name = 'AnalyticsPrivacyError';
+  }
+}
+
+export const PARTICIPATION_REPORT = 'participation';
+
+// Employer reports: the cohort is the employer's current employees
+export const EMPLOYER_MEASURES = ['enrolled', 'participants', 'completers', 'earners'];
+
+// Program reports: the cohort is the program's enrolled employees
+export const PROGRAM_MEASURES = ['participants', 'completers', 'earners'];
+
+// A report period: a calendar month, YYYY-MM
+const REPORT_PERIOD = /^(\d{4})-(0[1-9]|1[0-2])$/;
+
+// Allowance for floating point error when adding up epsilons
+const EPSILON_TOLERANCE = 1e-9;
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// The month a period covers, from its first instant (UTC) up to the next month's
+interface ReportRange {
+  from: Date;
+  to: Date;
+}
+
+interface EffectivePolicy {
+  policy: PrivacyPolicy;
+  dimensions: AnalyticsDimension[];
+  epsilonBudget: number | null;
+}
+
+interface Member {
+  id: string;
+  departmentId: string | null;
+  locationId: string | null;
+}
+
+const DEFAULT_DIMENSIONS: AnalyticsDimension[] = ['department', 'location'];
+
+/**
+ * Employer Analytics Service
+ */
+export class EmployerAnalyticsService {
+
+  /**
+   * Get an employer's analytics privacy policy, if it has set one
+   */
+  async getPolicy(employerId: string): Promise<AnalyticsPrivacyPolicy | undefined> {
+    try {
+      const [policy] = await db
+        .select()
+        .from(analyticsPrivacyPolicies)
+        .where(eq(analyticsPrivacyPolicies.employerId, employerId));
+      return policy;
+    } catch (error) {
+      logger.error(`Error getting analytics privacy policy for employer ${employerId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create or replace an employer's analytics privacy policy. Reports made
+   * under the previous policy are kept; new requests get new reports.
+   */
+  async setPolicy(
+    employerId: string,
+    data: Omit<InsertAnalyticsPrivacyPolicy, 'id' | 'employerId' | 'createdAt' | 'updatedAt'>
+  ): Promise<AnalyticsPrivacyPolicy> {
+    try {
+      if (data.noise === 'laplace' && !data.epsilon) {
+        throw new AnalyticsPrivacyError('epsilon is required when analytics use Laplace noise', 400);
+      }
+      if (data.noise === 'laplace' && !(data.epsilonBudget && data.epsilonBudget >= data.epsilon!)) {
+        throw new AnalyticsPrivacyError('epsilonBudget of at least epsilon is required when analytics use Laplace noise', 400);
+      }
+
+      const now = new Date();
+      const [policy] = await db
+        .insert(analyticsPrivacyPolicies)
+        .values({ ...data, employerId, createdAt: now })
+        .onConflictDoUpdate({ target: analyticsPrivacyPolicies.employerId, set: { ...data, updatedAt: now } })
+        .returning();
+
+      logger.info(`Set analytics privacy policy for employer ${employerId}: minimum cohort ${policy.minCohortSize}, noise ${policy.noise}`);
+      return policy;
+    } catch (error) {
+      logger.error(`Error setting analytics privacy policy for employer ${employerId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * The privacy budget an employer's reports have spent on the months of a year
+   */
+  async getBudgetUsage(employerId: string, year: number): Promise<{ year: number; epsilonBudget: number | null; epsilonSpent: number; releases: number }> {
+    try {
+      const { epsilonBudget } = await this.effectivePolicy(employerId);
+      const [budget] = await db
+        .select()
+        .from(analyticsPrivacyBudgets)
+        .where(and(eq(analyticsPrivacyBudgets.employerId, employerId), eq(analyticsPrivacyBudgets.year, year)));
+
+      return { year, epsilonBudget, epsilonSpent: budget?.epsilonSpent ?? 0, releases: budget?.releases ?? 0 };
+    } catch (error) {
+      logger.error(`Error getting analytics privacy budget for employer ${employerId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the employer's participation report for a month (YYYY-MM, by default
+   * the last complete one), releasing it if there is none yet under the
+   * current policy
+   */
+  async getEmployerReport(employerId: string, period: string = previousMonth()): Promise<EmployerAnalyticsReport | undefined> {
+    try {
+      const range = reportRange(period);
+      const { policy, dimensions, epsilonBudget } = await this.effectivePolicy(employerId);
+
+      return await db.transaction(async (tx) => {
+        // Lock the employer so concurrent requests release one report between them
+        const [employer] = await tx
+          .select({ id: employers.id })
+          .from(employers)
+          .where(eq(employers.id, employerId))
+          .for('update'); // Lock the row
+
+        if (!employer) {
+          return undefined;
+        }
+
+        const released = await tx
+          .select()
+          .from(employerAnalytics)
+          .where(and(
+            eq(employerAnalytics.employerId, employerId),
+            eq(employerAnalytics.reportType, PARTICIPATION_REPORT),
+            eq(employerAnalytics.reportDate, range.from)
+          ))
+          .orderBy(desc(employerAnalytics.generatedAt));
+        const existing = released.find(report => sameRelease(report, range, policy, dimensions));
+        if (existing) {
+          return existing;
+        }
+        await this.spendBudget(tx, employerId, range, policy, epsilonBudget);
+
+        const members = await tx
+          .select({ id: employees.id, departmentId: employees.departmentId, locationId: employees.locationId })
+          .from(employees)
+          .where(and(eq(employees.employerId, employerId), ne(employees.status, 'inactive')));
+        const ids = members.map(member => member.id);
+
+        const [enrolled, participants, completers, earners] = ids.length === 0 ? [[], [], [], []] : await Promise.all([
+          tx.selectDistinct({ employeeId: programEnrollments.employeeId })
+            .from(programEnrollments)
+            .innerJoin(wellnessPrograms, eq(wellnessPrograms.id, programEnrollments.programId))
+            .where(and(
+              eq(wellnessPrograms.employerId, employerId),
+              inArray(programEnrollments.employeeId, ids),
+              lt(programEnrollments.enrollmentDate, range.to)
+            )),
+          tx.selectDistinct({ employeeId: wellnessActivities.employeeId })
+            .from(wellnessActivities)
+            .where(and(
+              inArray(wellnessActivities.employeeId, ids),
+              ne(wellnessActivities.status, 'invalidated'),
+              gte(wellnessActivities.activityDate, range.from),
+              lt(wellnessActivities.activityDate, range.to)
+            )),
+          tx.selectDistinct({ employeeId: programEnrollments.employeeId })
+            .from(programEnrollments)
+            .innerJoin(wellnessPrograms, eq(wellnessPrograms.id, programEnrollments.programId))
+            .where(and(
+              eq(wellnessPrograms.employerId, employerId),
+              inArray(programEnrollments.employeeId, ids),
+              gte(programEnrollments.completionDate, range.from),
+              lt(programEnrollments.completionDate, range.to)
+            )),
+          tx.selectDistinct({ employeeId: incentiveAwards.employeeId })
+            .from(incentiveAwards)
+            .where(and(
+              inArray(incentiveAwards.employeeId, ids),
+              eq(incentiveAwards.status, 'awarded'),
+              gte(incentiveAwards.awardDate, range.from),
+              lt(incentiveAwards.awardDate, range.to)
+            ))
+        ]);
+
+        const measured = { enrolled, participants, completers, earners };
+        const { overall, tables } = await this.countTables(tx, employerId, members, measured, dimensions);
+        const metrics = deidentify(overall, tables, EMPLOYER_MEASURES, policy);
+
+        const [report] = await tx
+          .insert(employerAnalytics)
+          .values({
+            employerId,
+            reportDate: range.from,
+            reportType: PARTICIPATION_REPORT,
+            metrics: reportMetrics(metrics),
+            segmentDimensions: dimensions,
+            generatedAt: new Date(),
+            dataRange: rangeValue(range),
+            privacy: privacyApplied(policy, metrics),
+            createdAt: new Date()
+          })
+          .returning();
+
+        logger.info(`Released participation report ${report.id} for employer ${employerId}: ${metrics.suppressedValues} values suppressed`);
+        return report;
+      });
+    } catch (error) {
+      logger.error(`Error getting analytics report for employer ${employerId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a program's participation report for a month (YYYY-MM, by default the
+   * last complete one), releasing it if there is none yet under the
+   * employer's current policy
+   */
+  async getProgramReport(programId: string, period: string = previousMonth()): Promise<ProgramAnalyticsReport | undefined> {
+    try {
+      const range = reportRange(period);
+      const [program] = await db
+        .select({ id: wellnessPrograms.id, employerId: wellnessPrograms.employerId })
+        .from(wellnessPrograms)
+        .where(eq(wellnessPrograms.id, programId));
+
+      if (!program) {
+        return undefined;
+      }
+
+      const { policy, dimensions, epsilonBudget } = await this.effectivePolicy(program.employerId);
+
+      return await db.transaction(async (tx) => {
+        // Lock the program so concurrent requests release one report between them
+        await tx
+          .select({ id: wellnessPrograms.id })
+          .from(wellnessPrograms)
+          .where(eq(wellnessPrograms.id, programId))
+          .for('update'); // Lock the row
+
+        const released = await tx
+          .select()
+          .from(programAnalytics)
+          .where(and(
+            eq(programAnalytics.programId, programId),
+            eq(programAnalytics.reportType, PARTICIPATION_REPORT),
+            eq(programAnalytics.reportDate, range.from)
+          ))
+          .orderBy(desc(programAnalytics.createdAt));
+        const existing = released.find(report => sameRelease(report, range, policy, dimensions));
+        if (existing) {
+          return existing;
+        }
+        await this.spendBudget(tx, program.employerId, range, policy, epsilonBudget);
+
+        const members = await tx
+          .selectDistinct({ id: employees.id, departmentId: employees.departmentId, locationId: employees.locationId })
+          .from(programEnrollments)
+          .innerJoin(employees, eq(employees.id, programEnrollments.employeeId))
+          .where(and(
+            eq(programEnrollments.programId, programId),
+            lt(programEnrollments.enrollmentDate, range.to)
+          ));
+        const ids = members.map(member => member.id);
+
+        const [participants, completers, earners] = ids.length === 0 ? [[], [], []] : await Promise.all([
+          tx.selectDistinct({ employeeId: wellnessActivities.employeeId })
+            .from(wellnessActivities)
+            .where(and(
+              eq(wellnessActivities.programId, programId),
+              inArray(wellnessActivities.employeeId, ids),
+              ne(wellnessActivities.status, 'invalidated'),
+              gte(wellnessActivities.activityDate, range.from),
+              lt(wellnessActivities.activityDate, range.to)
+            )),
+          tx.selectDistinct({ employeeId: programEnrollments.employeeId })
+            .from(programEnrollments)
+            .where(and(
+              eq(programEnrollments.programId, programId),
+              gte(programEnrollments.completionDate, range.from),
+              lt(programEnrollments.completionDate, range.to)
+            )),
+          tx.selectDistinct({ employeeId: incentiveAwards.employeeId })
+            .from(incentiveAwards)
+            .where(and(
+              eq(incentiveAwards.programId, programId),
+              inArray(incentiveAwards.employeeId, ids),
+              eq(incentiveAwards.status, 'awarded'),
+              gte(incentiveAwards.awardDate, range.from),
+              lt(incentiveAwards.awardDate, range.to)
+            ))
+        ]);
+
+        const measured = { participants, completers, earners };
+        const { overall, tables } = await this.countTables(tx, program.employerId, members, measured, dimensions);
+        const metrics = deidentify(overall, tables, PROGRAM_MEASURES, policy);
+
+        const [report] = await tx
+          .insert(programAnalytics)
+          .values({
+            programId,
+            reportDate: range.from,
+            reportType: PARTICIPATION_REPORT,
+            metrics: reportMetrics(metrics),
+            segmentDimensions: dimensions,
+            dataRange: rangeValue(range),
+            privacy: privacyApplied(policy, metrics),
+            createdAt: new Date()
+          })
+          .returning();
+
+        logger.info(`Released participation report ${report.id} for program ${programId}: ${metrics.suppressedValues} values suppressed`);
+        return report;
+      });
+    } catch (error) {
+      logger.error(`Error getting analytics report for program ${programId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * The policy reports are made under: the employer's, or the defaults
+   */
+  private async effectivePolicy(employerId: string): Promise<EffectivePolicy> {
+    const stored = await this.getPolicy(employerId);
+    if (!stored) {
+      return { policy: DEFAULT_PRIVACY_POLICY, dimensions: DEFAULT_DIMENSIONS, epsilonBudget: null };
+    }
+
+    return {
+      policy: {
+        minCohortSize: stored.minCohortSize,
+        complementarySuppression: stored.complementarySuppression,
+        noise: stored.noise === 'laplace' ? 'laplace' : 'none',
+        epsilon: stored.epsilon
+      },
+      dimensions: stored.segmentDimensions,
+      epsilonBudget: stored.epsilonBudget
+    };
+  }
+
+  /**
+   * Spend a noisy report's epsilon from the employer's budget for the year of
+   * its month. Reports without noise spend nothing.
+   * @throws AnalyticsPrivacyError if the budget would be exceeded
+   */
+  private async spendBudget(
+    tx: DbTransaction,
+    employerId: string,
+    range: ReportRange,
+    policy: PrivacyPolicy,
+    epsilonBudget: number | null
+  ): Promise<void> {
+    if (policy.noise !== 'laplace') {
+      return;
+    }
+
+    const year = range.from.getUTCFullYear();
+    await tx
+      .insert(analyticsPrivacyBudgets)
+      .values({ employerId, year })
+      .onConflictDoNothing();
+    // Employer and program reports share the budget, so lock it rather than rely on their own locks
+    const [budget] = await tx
+      .select()
+      .from(analyticsPrivacyBudgets)
+      .where(and(eq(analyticsPrivacyBudgets.employerId, employerId), eq(analyticsPrivacyBudgets.year, year)))
+      .for('update'); // Lock the row
+
+    const epsilonSpent = budget.epsilonSpent + policy.epsilon!;
+    if (epsilonBudget === null || epsilonSpent > epsilonBudget + EPSILON_TOLERANCE) {
+      throw new AnalyticsPrivacyError(
+        `The analytics privacy budget for ${year} (epsilon ${epsilonBudget ?? 0}, ${budget.epsilonSpent} spent) does not cover another report`
+      );
+    }
+
+    await tx
+      .update(analyticsPrivacyBudgets)
+      .set({ epsilonSpent, releases: budget.releases + 1, updatedAt: new Date() })
+      .where(eq(analyticsPrivacyBudgets.id, budget.id));
+  }
+
+  /**
+   * Count the members and each measure overall and by segment. Members
+   * without a department or location are counted in an unassigned row, so
+   * each table adds up to the overall row.
+   */
+  private async countTables(
+    tx: DbTransaction,
+    employerId: string,
+    members: Member[],
+    measured: Record<string, { employeeId: string }[]>,
+    dimensions: AnalyticsDimension[]
+  ): Promise<{ overall: CountRow; tables: CountTable[] }> {
+    const sets = Object.entries(measured).map(([measure, rows]) => [measure, new Set(rows.map(row => row.employeeId))] as const);
+    const count = (group: Member[], segment: string | null, label: string): CountRow => {
+      const counts: Record<string, number> = { [COHORT]: group.length };
+      for (const [measure, ids] of sets) {
+        counts[measure] = group.filter(member => ids.has(member.id)).length;
+      }
+      return { segment, label, counts };
+    };
+
+    const tables: CountTable[] = [];
+    for (const dimension of dimensions) {
+      const labels = new Map(
+        dimension === 'department'
+          ? (await tx.select({ id: employerDepartments.id, name: employerDepartments.name }).from(employerDepartments).where(eq(employerDepartments.employerId, employerId))).map(d => [d.id, d.name])
+          : (await tx.select({ id: employerLocations.id, name: employerLocations.name }).from(employerLocations).where(eq(employerLocations.employerId, employerId))).map(l => [l.id, l.name])
+      );
+
+      const groups = new Map<string | null, Member[]>();
+      for (const member of members) {
+        const segment = dimension === 'department' ? member.departmentId : member.locationId;
+        groups.set(segment, [...(groups.get(segment) || []), member]);
+      }
+
+      tables.push({
+        dimension,
+        rows: [...groups.entries()].map(([segment, group]) =>
+          count(group, segment, segment === null ? 'Unassigned' : labels.get(segment) || 'Unknown'))
+      });
+    }
+
+    return { overall: count(members, null, 'All employees'), tables };
+  }
+}
+
+/**
+ * The last complete calendar month (UTC), as YYYY-MM
+ */
+function previousMonth(now: Date = new Date()): string {
+  const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  return month.toISOString().slice(0, 7);
+}
+
+/**
+ * The range a report period covers. Only complete months are reported, so a
+ * month's report never changes once released.
+ * @throws AnalyticsPrivacyError for a malformed or unfinished month
+ */
+function reportRange(period: string, now: Date = new Date()): ReportRange {
+  const match = REPORT_PERIOD.exec(period);
+  if (!match) {
+    throw new AnalyticsPrivacyError(`Report period must be a month (YYYY-MM), not ${period}`, 400);
+  }
+
+  const from = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, 1));
+  const to = new Date(Date.UTC(Number(match[1]), Number(match[2]), 1));
+  if (to > now) {
+    throw new AnalyticsPrivacyError(`Reports are released for complete months; ${period} has not ended`, 400);
+  }
+  return { from, to };
+}
+
+function rangeValue(range: ReportRange): { from: string; to: string } {
+  return { from: range.from.toISOString(), to: range.to.toISOString() };
+}
+
+function reportMetrics(report: DeidentifiedReport): Omit<DeidentifiedReport, 'suppressedValues'> {
+  return { overall: report.overall, tables: report.tables };
+}
+
+function privacyApplied(policy: PrivacyPolicy, report: DeidentifiedReport): AnalyticsPrivacyApplied {
+  return { ...policy, suppressedValues: report.suppressedValues };
+}
+
+/**
+ * Whether a stored report covers a period under a policy
+ */
+function sameRelease(
+  report: { dataRange: unknown; segmentDimensions: unknown; privacy: AnalyticsPrivacyApplied | null },
+  range: ReportRange,
+  policy: PrivacyPolicy,
+  dimensions: AnalyticsDimension[]
+): boolean {
+  const dataRange = report.dataRange as { from?: string } | null;
+  const privacy = report.privacy;
+  return dataRange?.from === range.from.toISOString() &&
+    JSON.stringify(report.segmentDimensions) === JSON.stringify(dimensions) &&
+    privacy !== null &&
+    privacy.minCohortSize === policy.minCohortSize &&
+    privacy.complementarySuppression === policy.complementarySuppression &&
+    privacy.noise === policy.noise &&
+    privacy.epsilon === policy.epsilon;
+}
+
+// Create and export the service instance
+export const employerAnalyticsService = new EmployerAnalyticsService();
@@ -5,11 +5,15 @@
  * - Employer organization profiles and hierarchies
  * - Employee relationships and membership
  * - Wellness program configurations
- * - Incentive and rewards rules
+ * - Incentive and rewards rules, and the requirement language the rule engine evaluates
+ * - The points wallet: a double-entry ledger, rewards catalog and redemptions
  * - Third-party vendor integrations
+ * - Eligibility file (census and 834) imports
+ * - De-identified employer and program analytics, and each employer's privacy policy for them
  */
 
-import { integer, pgTable, primaryKey, text, timestamp, boolean, jsonb, uuid, pgEnum } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import { integer, pgTable, primaryKey, serial, text, timestamp, boolean, jsonb, uuid, pgEnum, index, uniqueIndex, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -328,7 +332,7 @@ export const wellnessActivities = pgTable('wellness_activities', {
   // Activity details
   activityType: text('activity_type').notNull(),
   activityDate: timestamp('activity_date').notNull(),
-  status: text('status').notNull(),
+  status: text('status').notNull(), // 'completed' and 'verified' count towards incentives; 'invalidated' does not
   
   // Activity data
   activityData: jsonb('activity_data'),
@@ -342,6 +346,10 @@ export const wellnessActivities = pgTable('wellness_activities', {
   // Timestamps
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at'),
+}, (table) => {
+  return {
+    employeeTypeDateIdx: index('wellness_activities_employee_type_date_idx').on(table.employeeId, table.activityType, table.activityDate)
+  };
 });
 
 // ============================================================================
@@ -367,7 +375,7 @@ export const incentiveRules = pgTable('incentive_rules', {
   maxOccurrences: integer('max_occurrences'), // Limit per user, null = unlimited
   
   // Advanced rule details
-  requirementData: jsonb('requirement_data'),
+  requirementData: jsonb('requirement_data'), // Incentive requirement (see incentiveRequirementSchema); rules without one are awarded manually
   frequencyData: jsonb('frequency_data'),
   
   // Status
@@ -391,7 +399,8 @@ export const incentiveAwards = pgTable('incentive_awards', {
   // Award details
   awardDate: timestamp('award_date').notNull().defaultNow(),
   pointsAwarded: integer('points_awarded').notNull(),
-  status: text('status').notNull().default('awarded'),
+  status: text('status').notNull().default('awarded'), // 'awarded', 'reversed'
+  occurrenceKey: text('occurrence_key'), // Period and sequence of the occurrence, for awards made by the rule engine
   
   // Activity connection
   activityId: uuid('activity_id').references(() => wellnessActivities.id),
@@ -400,14 +409,28 @@ export const incentiveAwards = pgTable('incentive_awards', {
   // Details
   awardData: jsonb('award_data'),
   
+  // Reversal
+  reversedAt: timestamp('reversed_at'),
+  reversalReason: text('reversal_reason'),
+  
   // Timestamps
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at'),
   expirationDate: timestamp('expiration_date'),
+}, (table) => {
+  return {
+    // One standing award per occurrence
+    occurrenceIdx: uniqueIndex('incentive_awards_occurrence_idx')
+      .on(table.incentiveRuleId, table.employeeId, table.occurrenceKey)
+      .where(sql`${table.status} = 'awarded'`)
+  };
 });
 
 /**
- * Wallet transactions (for spending points/rewards)
+ * Wallet transactions (for spending points/rewards). Each is a balanced
+ * posting to the wallet ledger; its entries are in wallet_ledger_entries.
+ * Transactions from before the ledger have no entries and are carried into
+ * it by one 'opening_balance' transaction per wallet.
  */
 export const walletTransactions = pgTable('wallet_transactions', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -415,12 +438,16 @@ export const walletTransactions = pgTable('wallet_transactions', {
   
   // Transaction details
   transactionDate: timestamp('transaction_date').notNull().defaultNow(),
-  transactionType: text('transaction_type').notNull(), // 'award', 'redemption', 'expiration', etc.
-  points: integer('points').notNull(),
+  transactionType: text('transaction_type').notNull(), // 'award', 'reversal', 'hold', 'release', 'redemption', 'refund', 'expiration', 'adjustment', 'opening_balance'
+  points: integer('points').notNull(), // Change in the employee's available points
   
   // References
   awardId: uuid('award_id').references(() => incentiveAwards.id),
   rewardItemId: text('reward_item_id'),
+  redemptionId: uuid('redemption_id').references(() => rewardRedemptions.id),
+  
+  // Awarded points expire at this time under the employer's wallet policy
+  expiresAt: timestamp('expires_at'),
   
   // Additional data
   description: text('description'),
@@ -429,6 +456,150 @@ export const walletTransactions = pgTable('wallet_transactions', {
   // Timestamps
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at'),
+}, (table) => {
+  return {
+    employeeTypeIdx: index('wallet_transactions_employee_type_idx').on(table.employeeId, table.transactionType)
+  };
+});
+
+/**
+ * Wallet ledger accounts. Each employee has 'available' and 'held' accounts;
+ * each employer has 'funding' (points issued), 'redeemed' and 'expired'
+ * accounts on the other side of their postings.
+ */
+export const walletAccounts = pgTable('wallet_accounts', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  employerId: uuid('employer_id').notNull().references(() => employers.id),
+  employeeId: uuid('employee_id').references(() => employees.id), // Null for employer accounts
+  accountType: text('account_type').notNull(), // 'available', 'held', 'funding', 'redeemed', 'expired'
+  balance: integer('balance').notNull().default(0), // Sum of the account's entries, updated with every posting
+  
+  // Timestamps
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at'),
+}, (table) => {
+  return {
+    employeeAccountIdx: uniqueIndex('wallet_accounts_employee_type_idx')
+      .on(table.employeeId, table.accountType)
+      .where(sql`${table.employeeId} is not null`),
+    employerAccountIdx: uniqueIndex('wallet_accounts_employer_type_idx')
+      .on(table.employerId, table.accountType)
+      .where(sql`${table.employeeId} is null`)
+  };
+});
+
+/**
+ * Wallet ledger entries. The entries of a transaction sum to zero.
+ */
+export const walletLedgerEntries = pgTable('wallet_ledger_entries', {
+  id: serial('id').primaryKey(), // Entries are inserted with their account locked, so ids increase per account
+  transactionId: uuid('transaction_id').notNull().references(() => walletTransactions.id),
+  accountId: uuid('account_id').notNull().references(() => walletAccounts.id),
+  amount: integer('amount').notNull(), // Signed points
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => {
+  return {
+    accountIdx: index('wallet_ledger_entries_account_idx').on(table.accountId, table.id),
+    transactionIdx: index('wallet_ledger_entries_transaction_idx').on(table.transactionId)
+  };
+});
+
+/**
+ * Account balances at a point in the ledger, for audit
+ */
+export const walletBalanceSnapshots = pgTable('wallet_balance_snapshots', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  accountId: uuid('account_id').notNull().references(() => walletAccounts.id),
+  balance: integer('balance').notNull(),
+  lastEntryId: integer('last_entry_id').notNull().default(0), // Last entry included in the balance
+  takenAt: timestamp('taken_at').notNull().defaultNow(),
+}, (table) => {
+  return {
+    accountTakenIdx: index('wallet_balance_snapshots_account_idx').on(table.accountId, table.takenAt)
+  };
+});
+
+/**
+ * Employer wallet policies
+ */
+export const walletPolicies = pgTable('wallet_policies', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  employerId: uuid('employer_id').notNull().unique().references(() => employers.id),
+  
+  // Point expiry: 'none', 'months_after_award' or 'end_of_year' (the end of the calendar year awarded)
+  pointExpiry: text('point_expiry').notNull().default('none'),
+  pointExpiryMonths: integer('point_expiry_months'),
+  
+  // How long redeemed points are held awaiting fulfillment before being released
+  redemptionHoldMinutes: integer('redemption_hold_minutes').notNull().default(1440),
+  
+  // Timestamps
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at'),
+});
+
+/**
+ * Rewards employees can redeem points for, per employer
+ */
+export const rewardCatalogItems = pgTable('reward_catalog_items', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  employerId: uuid('employer_id').notNull().references(() => employers.id),
+  
+  // Reward details
+  name: text('name').notNull(),
+  description: text('description'),
+  rewardType: text('reward_type').notNull(), // 'gift_card', 'hsa_contribution', 'premium_discount', 'merchandise', 'charitable_donation'
+  pointsCost: integer('points_cost').notNull(),
+  cashValue: integer('cash_value'), // In cents
+  inventory: integer('inventory'), // Remaining, null = unlimited
+  maxPerEmployee: integer('max_per_employee'), // Standing redemptions per employee, null = unlimited
+  fulfillmentConfig: jsonb('fulfillment_config'), // Vendor, SKU, payroll code, etc.
+  
+  // Status
+  active: boolean('active').default(true),
+  startDate: timestamp('start_date'),
+  endDate: timestamp('end_date'),
+  
+  // Timestamps
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at'),
+});
+
+/**
+ * Redemptions of catalog rewards. Points are held when the redemption is
+ * requested and spent once it is fulfilled.
+ */
+export const rewardRedemptions = pgTable('reward_redemptions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  employeeId: uuid('employee_id').notNull().references(() => employees.id),
+  employerId: uuid('employer_id').notNull().references(() => employers.id),
+  catalogItemId: uuid('catalog_item_id').notNull().references(() => rewardCatalogItems.id),
+  idempotencyKey: text('idempotency_key'), // Client key, so a retried request does not redeem twice
+  
+  // Redemption details
+  pointsCost: integer('points_cost').notNull(),
+  cashValue: integer('cash_value'),
+  status: text('status').notNull().default('held'), // 'held', 'fulfilling', 'fulfilled', 'failed', 'canceled', 'expired', 'refunded'
+  holdExpiresAt: timestamp('hold_expires_at'),
+  
+  // Fulfillment
+  fulfillmentReference: text('fulfillment_reference'), // Gift card order, HSA deposit or payroll deduction ID
+  fulfillmentData: jsonb('fulfillment_data'),
+  failureReason: text('failure_reason'),
+  refundReason: text('refund_reason'),
+  
+  // Timestamps
+  requestedAt: timestamp('requested_at').notNull().defaultNow(),
+  fulfillmentStartedAt: timestamp('fulfillment_started_at'),
+  fulfilledAt: timestamp('fulfilled_at'),
+  closedAt: timestamp('closed_at'), // Failed, canceled, expired or refunded
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at'),
+}, (table) => {
+  return {
+    idempotencyIdx: uniqueIndex('reward_redemptions_idempotency_idx').on(table.employeeId, table.idempotencyKey),
+    statusHoldIdx: index('reward_redemptions_status_hold_idx').on(table.status, table.holdExpiresAt)
+  };
 });
 
 // ============================================================================
@@ -444,6 +615,7 @@ export const wellnessVendors = pgTable('wellness_vendors', {
   slug: text('slug').notNull().unique(),
   description: text('description'),
   vendorType: text('vendor_type').notNull(),
+  connectorType: text('connector_type'), // Registered activity connector, e.g. generic_activity_feed
   
   // Integration details
   integrationDetails: jsonb('integration_details'),
@@ -500,11 +672,18 @@ export const employeeVendorAccounts = pgTable('employee_vendor_accounts', {
   // External account details
   externalId: text('external_id'),
   externalUsername: text('external_username'),
-  accountStatus: text('account_status'),
+  accountStatus: text('account_status'), // pending_authorization, connected, reauthorization_required, disconnected
   
   // Connection details
   connectDate: timestamp('connect_date'),
   lastActivityDate: timestamp('last_activity_date'),
+  credentials: jsonb('credentials').$type<VendorAccountCredentials>(),
+  linkState: text('link_state'), // OAuth state while account linking is pending
+  linkStateExpiresAt: timestamp('link_state_expires_at'),
+  
+  // Incremental sync position
+  syncCursor: text('sync_cursor'),
+  lastSyncDate: timestamp('last_sync_date'),
   
   // Additional data
   metadata: jsonb('metadata'),
@@ -512,6 +691,43 @@ export const employeeVendorAccounts = pgTable('employee_vendor_accounts', {
   // Timestamps
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at'),
+}, (table) => {
+  return {
+    linkStateIdx: uniqueIndex('employee_vendor_accounts_link_state_idx').on(table.linkState),
+    externalIdx: index('employee_vendor_accounts_external_idx').on(table.integrationId, table.externalId),
+  };
+});
+
+/**
+ * Vendor sync runs: one pull of an account's activity or one webhook delivery.
+ * The records a run delivers are in vendor_activity_sync, by syncRunId.
+ */
+export const vendorSyncRuns = pgTable('vendor_sync_runs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  integrationId: uuid('integration_id').notNull().references(() => employerVendorIntegrations.id),
+  employeeVendorAccountId: uuid('employee_vendor_account_id').references(() => employeeVendorAccounts.id), // Null for webhook deliveries
+  trigger: text('trigger').notNull(), // pull, webhook
+  status: text('status').notNull().default('running'), // running, succeeded, partial, failed
+  
+  // Cursor positions the run started from and reached
+  cursorBefore: text('cursor_before'),
+  cursorAfter: text('cursor_after'),
+  
+  // Outcome
+  recordsReceived: integer('records_received').notNull().default(0),
+  recordsCreated: integer('records_created').notNull().default(0),
+  recordsUpdated: integer('records_updated').notNull().default(0),
+  recordsDuplicate: integer('records_duplicate').notNull().default(0),
+  recordsFailed: integer('records_failed').notNull().default(0),
+  errorDetails: jsonb('error_details').$type<VendorSyncError[]>(),
+  
+  startedAt: timestamp('started_at').notNull().defaultNow(),
+  finishedAt: timestamp('finished_at'),
+}, (table) => {
+  return {
+    accountIdx: index('vendor_sync_runs_account_idx').on(table.employeeVendorAccountId, table.startedAt),
+    integrationIdx: index('vendor_sync_runs_integration_idx').on(table.integrationId, table.startedAt),
+  };
 });
 
 /**
@@ -521,26 +737,144 @@ export const vendorActivitySync = pgTable('vendor_activity_sync', {
   id: uuid('id').primaryKey().defaultRandom(),
   employeeVendorAccountId: uuid('employee_vendor_account_id').notNull()
     .references(() => employeeVendorAccounts.id),
+  syncRunId: uuid('sync_run_id').references(() => vendorSyncRuns.id), // Run that last received the record
   
   // Sync details
   syncDate: timestamp('sync_date').notNull().defaultNow(),
   dataType: text('data_type').notNull(),
   activityDate: timestamp('activity_date').notNull(),
+  externalId: text('external_id'), // Vendor's record ID, used to dedupe
+  contentHash: text('content_hash'), // Detects revised records
+  syncCursor: text('sync_cursor'), // Cursor of the page that delivered the record
   
   // Data details
   rawData: jsonb('raw_data'),
   processedData: jsonb('processed_data'),
-  status: text('status').notNull(),
+  status: text('status').notNull(), // pending, processing, processed, failed, deleted
   
   // Processing details
   processedAt: timestamp('processed_at'),
   activityId: uuid('activity_id').references(() => wellnessActivities.id),
+  errorDetails: jsonb('error_details'),
   
   // Timestamps
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at'),
+}, (table) => {
+  return {
+    externalIdx: uniqueIndex('vendor_activity_sync_external_idx').on(table.employeeVendorAccountId, table.dataType, table.externalId),
+    statusIdx: index('vendor_activity_sync_status_idx').on(table.status, table.activityDate),
+  };
 });
 
+/**
+ * OAuth tokens of a linked vendor account
+ */
+export interface VendorAccountCredentials {
+  accessToken: string;
+  refreshToken?: string;
+  tokenType?: string;
+  scope?: string;
+  expiresAt?: string; // ISO timestamp
+}
+
+/**
+ * A problem with a record or page during a sync run
+ */
+export interface VendorSyncError {
+  externalId?: string;
+  message: string;
+  details?: unknown;
+}
+
+// ============================================================================
+// Eligibility File Tables
+// ============================================================================
+
+/**
+ * Eligibility file imports (HR census CSV or X12 834). An import is previewed
+ * as a set of changes to the employer's employees, then committed or discarded.
+ */
+export const censusImports = pgTable('census_imports', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  employerId: uuid('employer_id').notNull().references(() => employers.id),
+  
+  // File details
+  format: text('format').notNull(), // csv, x12_834, api
+  fileName: text('file_name'),
+  mode: text('mode').notNull(), // full (absent employees are terminated), changes
+  effectiveDate: timestamp('effective_date').notNull(), // Termination date for employees absent from a full file
+  
+  // Outcome
+  status: text('status').notNull().default('previewed'), // previewed, committed, discarded
+  summary: jsonb('summary').$type<CensusImportSummary>().notNull(),
+  issues: jsonb('issues').$type<CensusImportIssue[]>().notNull(),
+  
+  // Audit
+  uploadedBy: text('uploaded_by'),
+  committedBy: text('committed_by'),
+  committedAt: timestamp('committed_at'),
+  discardedAt: timestamp('discarded_at'),
+  
+  // Timestamps
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at'),
+}, (table) => {
+  return {
+    employerIdx: index('census_imports_employer_idx').on(table.employerId, table.createdAt),
+  };
+});
+
+/**
+ * Changes to employees found by a census import
+ */
+export const censusImportChanges = pgTable('census_import_changes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  importId: uuid('import_id').notNull().references(() => censusImports.id),
+  changeType: text('change_type').notNull(), // add, update, terminate, reactivate
+  employeeId: uuid('employee_id').references(() => employees.id), // Set for adds once applied
+  employeeKey: text('employee_key').notNull(), // Employer's ID or email of the employee
+  line: integer('line'), // Row or INS loop in the file; null for terminations by absence
+  
+  // Values of the changed fields before and after
+  before: jsonb('before'),
+  after: jsonb('after').notNull(),
+  
+  status: text('status').notNull().default('pending'), // pending, applied
+  appliedAt: timestamp('applied_at'),
+  
+  // Timestamps
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => {
+  return {
+    importIdx: index('census_import_changes_import_idx').on(table.importId),
+  };
+});
+
+/**
+ * Counts of a census import
+ */
+export interface CensusImportSummary {
+  records: number;
+  adds: number;
+  updates: number;
+  terminations: number;
+  reactivations: number;
+  unchanged: number;
+  errors: number;
+  warnings: number;
+}
+
+/**
+ * A problem with a row of a census file, or with the file as a whole (line 0)
+ */
+export interface CensusImportIssue {
+  line: number;
+  employeeKey?: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
 // ============================================================================
 // Analytics Tables
 // ============================================================================
@@ -563,10 +897,15 @@ export const employerAnalytics = pgTable('employer_analytics', {
   // Generation details
   generatedAt: timestamp('generated_at').notNull().defaultNow(),
   dataRange: jsonb('data_range'),
+  privacy: jsonb('privacy').$type<AnalyticsPrivacyApplied>(), // How the metrics were de-identified
   
   // Timestamps
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at'),
+}, (table) => {
+  return {
+    employerReportIdx: index('employer_analytics_employer_report_idx').on(table.employerId, table.reportType, table.reportDate),
+  };
 });
 
 /**
@@ -583,12 +922,82 @@ export const programAnalytics = pgTable('program_analytics', {
   // Metrics
   metrics: jsonb('metrics').notNull(),
   segmentDimensions: jsonb('segment_dimensions'),
+  dataRange: jsonb('data_range'),
+  privacy: jsonb('privacy').$type<AnalyticsPrivacyApplied>(), // How the metrics were de-identified
+  
+  // Timestamps
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at'),
+}, (table) => {
+  return {
+    programReportIdx: index('program_analytics_program_report_idx').on(table.programId, table.reportType, table.reportDate),
+  };
+});
+
+/**
+ * How an employer's analytics are de-identified before admins see them.
+ * Employers without a policy get the defaults.
+ */
+export const analyticsPrivacyPolicies = pgTable('analytics_privacy_policies', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  employerId: uuid('employer_id').notNull().unique().references(() => employers.id),
+  
+  // Cells describing fewer employees than this are suppressed, as are counts
+  // that leave fewer than this many employees on either side
+  minCohortSize: integer('min_cohort_size').notNull().default(11),
+  
+  // Also suppress cells that could otherwise be worked out from totals
+  complementarySuppression: boolean('complementary_suppression').notNull().default(true),
+  
+  // Differential privacy: 'none' or 'laplace', with the privacy budget for each report
+  noise: text('noise').notNull().default('none'),
+  epsilon: doublePrecision('epsilon'),
+  
+  // Total epsilon the employer's noisy reports (employer and program) may
+  // spend on the months of a calendar year; required with Laplace noise
+  epsilonBudget: doublePrecision('epsilon_budget'),
+  
+  // Dimensions reports are broken down by
+  segmentDimensions: jsonb('segment_dimensions').$type<AnalyticsDimension[]>().notNull().default(['department', 'location']),
+  
+  // Timestamps
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at'),
+});
+
+/**
+ * The differential privacy budget an employer's reports have spent, per
+ * calendar year of the months they cover
+ */
+export const analyticsPrivacyBudgets = pgTable('analytics_privacy_budgets', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  employerId: uuid('employer_id').notNull().references(() => employers.id),
+  year: integer('year').notNull(),
+  epsilonSpent: doublePrecision('epsilon_spent').notNull().default(0),
+  releases: integer('releases').notNull().default(0), // Noisy reports released
   
   // Timestamps
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at'),
+}, (table) => {
+  return {
+    employerYearIdx: uniqueIndex('analytics_privacy_budgets_employer_year_idx').on(table.employerId, table.year)
+  };
 });
 
+export type AnalyticsDimension = 'department' | 'location';
+
+/**
+ * The privacy policy a report was generated under, and what it suppressed
+ */
+export interface AnalyticsPrivacyApplied {
+  minCohortSize: number;
+  complementarySuppression: boolean;
+  noise: 'none' | 'laplace';
+  epsilon: number | null;
+  suppressedValues: number;
+}
+
 // ============================================================================
 // Composite Keys & Indexes
 // ============================================================================
@@ -639,13 +1048,92 @@ export const selectProgramContentSchema = createSelectSchema(programContents);
 export const insertProgramEnrollmentSchema = createInsertSchema(programEnrollments);
 export const selectProgramEnrollmentSchema = createSelectSchema(programEnrollments);
 
+// Wellness Activities
+export const insertWellnessActivitySchema = createInsertSchema(wellnessActivities);
+export const selectWellnessActivitySchema = createSelectSchema(wellnessActivities);
+
 // Incentive Rules
 export const insertIncentiveRuleSchema = createInsertSchema(incentiveRules);
 export const selectIncentiveRuleSchema = createSelectSchema(incentiveRules);
 
+// Incentive Awards
+export const selectIncentiveAwardSchema = createSelectSchema(incentiveAwards);
+
+// ---------- Incentive Requirement Language ----------
+// Rules with requirement data are evaluated automatically against the
+// employee's wellness activities. Occurrences are counted per calendar period
+// (UTC); each occurrence earns the rule's value, up to maxOccurrences in total.
+
+export const incentivePeriodSchema = z.enum(['day', 'week', 'month', 'quarter', 'year', 'all']);
+
+// Activities that count towards a requirement
+export const incentiveActivityFilterSchema = z.object({
+  activityType: z.string().min(1),
+  verified: z.boolean().optional(), // Only activities with status 'verified'
+  metric: z.string().min(1).optional(), // Numeric field of activityData ...
+  min: z.number().optional() // ... that must be at least this
+});
+
+export const incentiveRequirementSchema = z.discriminatedUnion('type', [
+  // Every `count` matching activities in a period is an occurrence,
+  // e.g. "biometric screening verified": { activity: { activityType: 'biometric_screening', verified: true } }
+  z.object({
+    type: z.literal('activity_count'),
+    activity: incentiveActivityFilterSchema,
+    count: z.number().int().min(1).default(1),
+    period: incentivePeriodSchema.default('all')
+  }),
+  // Every `days` days whose total of a metric reaches the threshold is an occurrence,
+  // e.g. "10k steps on 20 days in a month": { metric: 'steps', threshold: 10000, days: 20, period: 'month' }
+  z.object({
+    type: z.literal('daily_threshold'),
+    activityType: z.string().min(1),
+    metric: z.string().min(1),
+    threshold: z.number().positive(),
+    days: z.number().int().min(1),
+    period: incentivePeriodSchema.default('all')
+  }),
+  // Completing every content item of the rule's program (or the listed items) is the one occurrence
+  z.object({
+    type: z.literal('content_completion'),
+    contentIds: z.array(z.string().uuid()).min(1).optional()
+  })
+]);
+
+export type IncentivePeriod = z.infer<typeof incentivePeriodSchema>;
+export type IncentiveActivityFilter = z.infer<typeof incentiveActivityFilterSchema>;
+export type IncentiveRequirement = z.infer<typeof incentiveRequirementSchema>;
+
+// Wallet
+export const selectWalletTransactionSchema = createSelectSchema(walletTransactions);
+export const insertWalletPolicySchema = createInsertSchema(walletPolicies, {
+  pointExpiry: z.enum(['none', 'months_after_award', 'end_of_year']),
+  pointExpiryMonths: z.number().int().min(1).max(120).nullable().optional(),
+  redemptionHoldMinutes: z.number().int().min(1).optional()
+});
+export const insertRewardCatalogItemSchema = createInsertSchema(rewardCatalogItems, {
+  rewardType: z.enum(['gift_card', 'hsa_contribution', 'premium_discount', 'merchandise', 'charitable_donation']),
+  pointsCost: z.number().int().positive(),
+  cashValue: z.number().int().min(0).nullable().optional(),
+  inventory: z.number().int().min(0).nullable().optional(),
+  maxPerEmployee: z.number().int().min(1).nullable().optional()
+});
+export const selectRewardCatalogItemSchema = createSelectSchema(rewardCatalogItems);
+
 // Vendor Integrations
 export const insertVendorIntegrationSchema = createInsertSchema(employerVendorIntegrations);
 export const selectVendorIntegrationSchema = createSelectSchema(employerVendorIntegrations);
+export const selectWellnessVendorSchema = createSelectSchema(wellnessVendors);
+
+// Analytics
+export const insertAnalyticsPrivacyPolicySchema = createInsertSchema(analyticsPrivacyPolicies, {
+  minCohortSize: z.number().int().min(5).max(100).optional(),
+  complementarySuppression: z.boolean().optional(),
+  noise: z.enum(['none', 'laplace']).optional(),
+  epsilon: z.number().positive().max(10).nullable().optional(),
+  epsilonBudget: z.number().positive().max(100).nullable().optional(),
+  segmentDimensions: z.array(z.enum(['department', 'location'])).optional()
+});
 
 // ============================================================================
 // Types
@@ -671,10 +1159,42 @@ export type InsertProgramContent = z.infer<typeof insertProgramContentSchema>;
 export type ProgramEnrollment = z.infer<typeof selectProgramEnrollmentSchema>;
 export type InsertProgramEnrollment = z.infer<typeof insertProgramEnrollmentSchema>;
 
+// Wellness Activities
+export type WellnessActivity = z.infer<typeof selectWellnessActivitySchema>;
+export type InsertWellnessActivity = z.infer<typeof insertWellnessActivitySchema>;
+
 // Incentive Rules
 export type IncentiveRule = z.infer<typeof selectIncentiveRuleSchema>;
 export type InsertIncentiveRule = z.infer<typeof insertIncentiveRuleSchema>;
 
+// Incentive Awards
+export type IncentiveAward = z.infer<typeof selectIncentiveAwardSchema>;
+
+// Wallet
+export type WalletTransaction = z.infer<typeof selectWalletTransactionSchema>;
+export type WalletAccount = typeof walletAccounts.$inferSelect;
+export type WalletBalanceSnapshot = typeof walletBalanceSnapshots.$inferSelect;
+export type WalletPolicy = typeof walletPolicies.$inferSelect;
+export type InsertWalletPolicy = z.infer<typeof insertWalletPolicySchema>;
+export type RewardCatalogItem = z.infer<typeof selectRewardCatalogItemSchema>;
+export type InsertRewardCatalogItem = z.infer<typeof insertRewardCatalogItemSchema>;
+export type RewardRedemption = typeof rewardRedemptions.$inferSelect;
+
 // Vendor Integrations
 export type VendorIntegration = z.infer<typeof selectVendorIntegrationSchema>;
-export type InsertVendorIntegration = z.infer<typeof insertVendorIntegrationSchema>;
\ No newline at end of file
+export type InsertVendorIntegration = z.infer<typeof insertVendorIntegrationSchema>;
+export type WellnessVendor = z.infer<typeof selectWellnessVendorSchema>;
+export type EmployeeVendorAccount = typeof employeeVendorAccounts.$inferSelect;
+export type VendorSyncRun = typeof vendorSyncRuns.$inferSelect;
+export type VendorActivitySync = typeof vendorActivitySync.$inferSelect;
+
+// Eligibility File Imports
+export type CensusImport = typeof censusImports.$inferSelect;
+export type CensusImportChange = typeof censusImportChanges.$inferSelect;
+
+// Analytics
+export type EmployerAnalyticsReport = typeof employerAnalytics.$inferSelect;
+export type ProgramAnalyticsReport = typeof programAnalytics.$inferSelect;
+export type AnalyticsPrivacyPolicy = typeof analyticsPrivacyPolicies.$inferSelect;
+export type AnalyticsPrivacyBudget = typeof analyticsPrivacyBudgets.$inferSelect;
+export type InsertAnalyticsPrivacyPolicy = z.infer<typeof insertAnalyticsPrivacyPolicySchema>;
\ No newline at end of file
@@ -36,11 +36,19 @@ import {
   WellnessProgram,
   InsertWellnessProgram,
   IncentiveRule,
-  InsertIncentiveRule
+  InsertIncentiveRule,
+  EmployerAnalyticsReport
 } from '../../../shared/employer-schema';
-import { eq, and, inArray, like, isNull, not, or, desc, asc } from 'drizzle-orm';
+import { eq, and, inArray, like, isNull, not, or, desc, asc, sql } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
 import logger from '../../utils/logger';
+import { parseIncentiveRequirement } from './incentive-rules';
+import { walletLedgerService } from './wallet-ledger-service';
+import { incentiveEngineService } from './incentive-engine-service';
+import { censusImportService, CensusImportError } from './census-import-service';
+import type { CensusRecord } from './employee-census';
+import { employerAnalyticsService, AnalyticsPrivacyError } from './employer-analytics-service';
+import type { DeidentifiedReport } from './analytics-privacy';
 
 /**
  * Search parameters for querying employers
@@ -427,27 +435,37 @@ export class EmployerService {
   }
   
   /**
-   * Bulk upload employees for an employer
+   * Bulk upload employees for an employer. Employees already on file (by employer ID or
+   * email) are updated; the upload is recorded as a census import.
    */
   async bulkUploadEmployees(employerId: string, employeeList: Omit<InsertEmployee, 'id' | 'createdAt'>[]): Promise<Employee[]> {
     try {
-      // Prepare employee records
-      const employeesToInsert = employeeList.map(employee => ({
-        ...employee,
-        id: uuidv4(),
-        employerId,
-        status: 'pending_invitation',
-        createdAt: new Date()
+      // Apply the list as a census of changes, so existing employees are updated rather than duplicated
+      const records: CensusRecord[] = employeeList.map((employee, index) => ({
+        line: index + 1,
+        employeeId: employee.employeeId ?? undefined,
+        email: employee.email,
+        firstName: employee.firstName ?? undefined,
+        lastName: employee.lastName ?? undefined,
+        jobTitle: employee.jobTitle ?? undefined,
+        hireDate: employee.hireDate ?? undefined,
+        departmentId: employee.departmentId ?? undefined,
+        locationId: employee.locationId ?? undefined,
+        terminated: false
       }));
-      
-      // Insert all employee records
-      const createdEmployees = await db
-        .insert(employees)
-        .values(employeesToInsert)
-        .returning();
-      
-      logger.info(`Bulk uploaded ${createdEmployees.length} employees for employer ${employerId}`);
-      return createdEmployees;
+
+      const preview = await censusImportService.previewRecords(employerId, records, { format: 'api', mode: 'changes' });
+      const errors = preview.import.issues.filter(issue => issue.severity === 'error');
+      if (errors.length > 0) {
+        await censusImportService.discardImport(preview.import.id);
+        throw new CensusImportError(`Employee list has errors: ${errors.map(issue => `line ${issue.line}: ${issue.message}`).join('; ')}`, 400);
+      }
+
+      const report = await censusImportService.commitImport(preview.import.id);
+      const uploadedEmployees = await censusImportService.getAppliedEmployees(report!);
+
+      logger.info(`Bulk uploaded ${uploadedEmployees.length} employees for employer ${employerId}`);
+      return uploadedEmployees;
     } catch (error) {
       logger.error(`Error bulk uploading employees for employer ${employerId}:`, error);
       throw error;
@@ -604,6 +622,11 @@ export class EmployerService {
       // Set created timestamp
       data.createdAt = new Date();
       
+      // Rules with requirement data are awarded by the incentive engine, so it must parse
+      if (data.requirementData !== undefined && data.requirementData !== null) {
+        data.requirementData = parseIncentiveRequirement(data.requirementData);
+      }
+      
       // Insert the incentive rule
       const [rule] = await db.insert(incentiveRules).values(data).returning();
       
@@ -662,40 +685,59 @@ export class EmployerService {
         throw new Error('Incentive rule end date has passed');
       }
       
-      // Create the award record
-      const [award] = await db
-        .insert(incentiveAwards)
-        .values({
-          id: uuidv4(),
-          employeeId,
-          incentiveRuleId,
-          activityId,
-          programId,
-          awardDate: now,
-          pointsAwarded: rule.value,
-          status: 'awarded',
-          createdAt: now
-        })
-        .returning();
-      
-      if (!award) {
-        throw new Error('Failed to create incentive award');
-      }
-      
-      // Create wallet transaction
-      const [transaction] = await db
-        .insert(walletTransactions)
-        .values({
-          id: uuidv4(),
+      // Create the award record and post its points together
+      const { award, transaction } = await db.transaction(async (tx) => {
+        // Check the employee's standing awards against the rule's limits, under the
+        // same lock as the engine's awards so concurrent awards cannot both pass
+        await incentiveEngineService.lockEmployee(tx, employeeId);
+        const [standing] = await tx
+          .select({
+            count: sql<number>`count(*)::int`,
+            forActivity: sql<number>`count(*) filter (where ${activityId ? eq(incentiveAwards.activityId, activityId) : sql`false`})::int`
+          })
+          .from(incentiveAwards)
+          .where(
+            and(
+              eq(incentiveAwards.employeeId, employeeId),
+              eq(incentiveAwards.incentiveRuleId, incentiveRuleId),
+              eq(incentiveAwards.status, 'awarded')
+            )
+          );
+        if (standing.forActivity > 0) {
+          throw new Error('Incentive rule has already been awarded for this activity');
+        }
+        if (rule.maxOccurrences !== null && rule.maxOccurrences !== undefined && standing.count >= rule.maxOccurrences) {
+          throw new Error(`Incentive rule has already been awarded the maximum of ${rule.maxOccurrences} times`);
+        }
+        
+        const [award] = await tx
+          .insert(incentiveAwards)
+          .values({
+            id: uuidv4(),
+            employeeId,
+            incentiveRuleId,
+            activityId,
+            programId,
+            awardDate: now,
+            pointsAwarded: rule.value,
+            status: 'awarded',
+            createdAt: now
+          })
+          .returning();
+        
+        if (!award) {
+          throw new Error('Failed to create incentive award');
+        }
+        
+        const transaction = await walletLedgerService.postAward(tx, {
           employeeId,
-          transactionDate: now,
-          transactionType: 'award',
           points: rule.value,
           awardId: award.id,
-          description: `Points awarded for ${rule.name}`,
-          createdAt: now
-        })
-        .returning();
+          description: `Points awarded for ${rule.name}`
+        });
+        
+        return { award, transaction };
+      });
       
       logger.info(`Awarded ${rule.value} incentive points to employee ${employeeId} for rule ${incentiveRuleId}`);
       
@@ -714,16 +756,9 @@ export class EmployerService {
    */
   async getEmployeeWalletBalance(employeeId: string): Promise<number> {
     try {
-      // Calculate sum of all transactions
-      const result = await db.execute(
-        `SELECT COALESCE(SUM(points), 0) as balance 
-         FROM wallet_transactions 
-         WHERE employee_id = $1`,
-        [employeeId]
-      );
-      
-      // Extract balance from result
-      return result.rows[0]?.balance || 0;
+      // Points held for pending redemptions are not available to spend
+      const balance = await walletLedgerService.getBalance(employeeId);
+      return balance.available;
     } catch (error) {
       logger.error(`Error getting wallet balance for employee ${employeeId}:`, error);
       throw error;
@@ -756,14 +791,12 @@ export class EmployerService {
   // ============================================================================
   
   /**
-   * Get employer dashboard analytics
-   * This would typically generate or fetch precomputed analytics
+   * Get employer dashboard analytics. Participation and outcome metrics come
+   * from the de-identified participation report, so small groups of
+   * employees are never shown.
    */
   async getEmployerAnalytics(employerId: string): Promise<any> {
     try {
-      // This is a placeholder implementation
-      // In a real system, this would connect to an analytics pipeline or data warehouse
-      
       // Get summary statistics
       const employeeCount = await db
         .select({ count: employees.id })
@@ -785,6 +818,18 @@ export class EmployerService {
           )
         );
       
+      // With the privacy budget spent the metrics are withheld, but the summary is still shown
+      let report: EmployerAnalyticsReport | undefined;
+      try {
+        report = await employerAnalyticsService.getEmployerReport(employerId);
+      } catch (error) {
+        if (!(error instanceof AnalyticsPrivacyError)) {
+          throw error;
+        }
+        logger.warn(`Analytics metrics withheld for employer ${employerId}: ${error.message}`);
+      }
+      const metrics = report?.metrics as Omit<DeidentifiedReport, 'suppressedValues'> | undefined;
+      
       // Return the analytics data
       return {
         summary: {
@@ -792,12 +837,16 @@ export class EmployerService {
           programCount: programCount[0]?.count || 0,
           activeProgramCount: activePrograms[0]?.count || 0,
         },
-        // This would include additional aggregated metrics in a real implementation
+        // Rates are null where the privacy policy withholds them
         metrics: {
-          participationRate: 0.0, // Placeholder
-          averagePointsEarned: 0, // Placeholder
-          completionRate: 0.0, // Placeholder
-        }
+          participationRate: metrics?.overall.rates.participants ?? null,
+          enrollmentRate: metrics?.overall.rates.enrolled ?? null,
+          completionRate: metrics?.overall.rates.completers ?? null,
+          incentiveEarningRate: metrics?.overall.rates.earners ?? null,
+        },
+        segments: metrics?.tables || [],
+        dataRange: report?.dataRange,
+        privacy: report?.privacy
       };
     } catch (error) {
       logger.error(`Error getting analytics for employer ${employerId}:`, error);
@@ -12,16 +12,16 @@ import { AppError, FieldError } from './app-error';
 import { ErrorCode, ErrorCategory, HttpStatusCode } from './error-types';
 import { captureError } from './error-capture';
 
+// PostgreSQL error codes
+export const PG_UNIQUE_VIOLATION = '23505';
+export const PG_FOREIGN_KEY_VIOLATION = '23503';
+export const PG_NOT_NULL_VIOLATION = '23502';
+export const PG_CHECK_VIOLATION = '23514';
+
 /**
  * Convert database errors to AppErrors
  */
 export function handleDatabaseError(error: any, operation: string = 'Database operation'): AppError {
-  // PostgreSQL error codes
-  const PG_UNIQUE_VIOLATION = '23505';
-  const PG_FOREIGN_KEY_VIOLATION = '23503';
-  const PG_NOT_NULL_VIOLATION = '23502';
-  const PG_CHECK_VIOLATION = '23514';
-  
   // Database-specific error mappings
   if (error.code === PG_UNIQUE_VIOLATION) {
     // Extract constraint name and fields from error message if possible
@@ -5,10 +5,34 @@
  * It supports both real-time and asynchronous claim processing with retry logic.
  */
 import { v4 as uuidv4 } from 'uuid';
-import { eq, and, not, asc, desc } from 'drizzle-orm';
-import { claims, claimEvents, claimPayerForwards, Claim, ClaimPayerForward, InsertClaimEvent, InsertClaimPayerForward } from '@shared/claims-schema';
+import { eq, and, or, not, asc, desc, sql } from 'drizzle-orm';
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  claims,
+  claimLineItems,
+  claimEvents,
+  claimPayerForwards,
+  Claim,
+  ClaimLineItem,
+  ClaimPayerForward,
+  InsertClaimEvent,
+  InsertClaimPayerForward
+} from '@shared/claims-schema';
 import logger from '../../logger';
 import axios from 'axios';
+import { formatControlNumber, nextControlNumber, parseX12, readEnvelope, X12ParseError } from './x12-utils';
+import {
+  build837,
+  patientControlNumberFor,
+  parse999,
+  parse277CA,
+  parse835,
+  isProcessedClaimStatus,
+  X12ClaimParties,
+  X12SubmitterInfo,
+  X12Remittance
+} from './x12-claims';
 
 interface PayerConnection {
   id: string;
@@ -23,6 +47,30 @@ interface PayerConnection {
   supportsRealTime: boolean;
   retryInterval: number; // in milliseconds
   maxRetries: number;
+  transport?: 'API' | 'X12'; // Defaults to API (JSON)
+  x12?: X12ConnectionSettings;
+}
+
+// Interchange settings for payers that receive X12 5010
+interface X12ConnectionSettings extends X12SubmitterInfo {
+  senderQualifier?: string;
+  senderId: string; // ISA06
+  receiverQualifier?: string;
+  receiverId: string; // ISA08
+  applicationSenderCode: string; // GS02
+  applicationReceiverCode: string; // GS03
+  usageIndicator?: 'T' | 'P';
+  endpoint?: string; // HTTP endpoint accepting raw X12; otherwise files are dropped in outboundDirectory
+  outboundDirectory?: string;
+  inboundDirectory?: string; // 999, 277CA and 835 files picked up by pollInboundDirectories
+}
+
+// Result of processing one inbound X12 document
+export interface InboundX12Result {
+  transactionSetId: string;
+  interchangeControlNumber: string;
+  claimsUpdated: string[];
+  unmatched: string[];
 }
 
 interface PayerResponse {
@@ -148,6 +196,7 @@ export class ExternalPayerGateway {
         id: forwardId,
         claimId,
         payerId,
+        transportMethod: payerConnection.transport || 'API',
         attemptCount: 1,
         status: 'QUEUED',
         createdAt: now,
@@ -320,29 +369,35 @@ export class ExternalPayerGateway {
       
       logger.info(`Sending claim ${claim.id} to payer ${payerId} (attempt ${forwardingAttempt.attemptCount})`);
       
-      // Prepare the claim for the payer
-      // In a real system, this would transform to the required format (X12, FHIR, etc.)
-      const claimData = {
-        claimId: claim.id,
-        patientId: claim.patientId,
-        providerId: claim.providerId,
-        organizationId: claim.organizationId,
-        type: claim.type,
-        serviceDate: claim.serviceDate,
-        submissionDate: new Date(),
-        totalAmount: lineItems.reduce((sum, item) => sum + (item.amount || 0), 0),
-        lineItems: lineItems.map(item => ({
-          serviceCode: item.serviceCode,
-          description: item.description,
-          amount: item.amount,
-          quantity: item.quantity,
-          serviceDate: item.serviceDate
-        }))
-      };
-      
-      // Send to payer
-      // In a real system, this would use the appropriate protocol (API, SFTP, etc.)
-      const payerResponse = await this.callPayerApi(payerConnection, claimData);
+      // Send to payer in the format it accepts
+      let payerResponse: PayerResponse;
+      let sentData: any;
+
+      if (payerConnection.transport === 'X12') {
+        payerResponse = await this.sendX12Claim(payerConnection, claim, lineItems);
+        sentData = payerResponse.responseData;
+      } else {
+        const claimData = {
+          claimId: claim.id,
+          patientId: claim.patientId,
+          providerId: claim.providerId,
+          organizationId: claim.organizationId,
+          type: claim.type,
+          serviceDate: claim.serviceStartDate,
+          submissionDate: new Date(),
+          totalAmount: lineItems.reduce((sum: number, item: ClaimLineItem) => sum + (item.totalPrice || 0), 0),
+          lineItems: lineItems.map((item: ClaimLineItem) => ({
+            serviceCode: item.serviceCode,
+            description: item.serviceDescription,
+            amount: item.totalPrice,
+            quantity: item.quantity,
+            serviceDate: item.serviceDate
+          }))
+        };
+
+        payerResponse = await this.callPayerApi(payerConnection, claimData);
+        sentData = claimData;
+      }
       
       // Update forwarding attempt based on response
       if (payerResponse.success) {
@@ -351,7 +406,12 @@ export class ExternalPayerGateway {
           .set({
             status: payerResponse.status || 'SENT',
             responseData: payerResponse.responseData,
-            sentDate: new Date(),
+            sentData,
+            sentTimestamp: new Date(),
+            interchangeControlNumber: payerResponse.responseData?.interchangeControlNumber,
+            groupControlNumber: payerResponse.responseData?.groupControlNumber,
+            senderId: payerResponse.responseData?.senderId,
+            receiverId: payerResponse.responseData?.receiverId,
             updatedAt: new Date()
           })
           .where(eq(claimPayerForwards.id, forwardId));
@@ -372,8 +432,10 @@ export class ExternalPayerGateway {
           payerId
         });
         
-        // Schedule checking for response
-        this.scheduleResponseCheck(forwardId, payerConnection);
+        // X12 payers answer with 999/277CA/835 files instead of a status API
+        if (payerConnection.transport !== 'X12') {
+          this.scheduleResponseCheck(forwardId, payerConnection);
+        }
       } else {
         const now = new Date();
         const nextAttempt = forwardingAttempt.attemptCount >= payerConnection.maxRetries
@@ -602,6 +664,488 @@ export class ExternalPayerGateway {
     }
   }
 
+  /**
+   * Serialize a claim as an 837 and deliver it to an X12 payer
+   * @param payerConnection The payer connection (transport X12)
+   * @param claim The claim to send
+   * @param lineItems The claim line items
+   * @returns The delivery result, with the envelope control numbers in responseData
+   */
+  private async sendX12Claim(
+    payerConnection: PayerConnection,
+    claim: Claim,
+    lineItems: ClaimLineItem[]
+  ): Promise<PayerResponse> {
+    try {
+      const settings = payerConnection.x12;
+      if (!settings) {
+        throw new Error(`Payer ${payerConnection.id} has no X12 settings`);
+      }
+
+      // Billing provider, subscriber and payer details are captured when the claim is created
+      const parties = (claim.metadata as any)?.x12 as X12ClaimParties | undefined;
+      if (!parties) {
+        throw new Error(`Claim ${claim.id} has no X12 party information (metadata.x12)`);
+      }
+
+      // The claim is found again by the CLM01 echoed on the 277CA and 835
+      const patientControlNumber = patientControlNumberFor(claim);
+      if (claim.patientControlNumber !== patientControlNumber) {
+        await this.db
+          .update(claims)
+          .set({ patientControlNumber, updatedAt: new Date() })
+          .where(eq(claims.id, claim.id));
+      }
+
+      const controlNumber = await nextControlNumber(this.db, settings.senderId);
+      const content = build837({ ...claim, patientControlNumber }, lineItems, parties, settings, {
+        senderQualifier: settings.senderQualifier,
+        senderId: settings.senderId,
+        receiverQualifier: settings.receiverQualifier,
+        receiverId: settings.receiverId,
+        applicationSenderCode: settings.applicationSenderCode,
+        applicationReceiverCode: settings.applicationReceiverCode,
+        usageIndicator: settings.usageIndicator,
+        controlNumber
+      });
+
+      const interchangeControlNumber = formatControlNumber(controlNumber);
+      let fileName: string | undefined;
+
+      if (settings.endpoint) {
+        await axios.post(settings.endpoint, content, {
+          headers: { 'Content-Type': 'application/EDI-X12' }
+        });
+      } else if (settings.outboundDirectory) {
+        fileName = `${claim.id}-${interchangeControlNumber}.837`;
+        await fs.mkdir(settings.outboundDirectory, { recursive: true });
+        await fs.writeFile(path.join(settings.outboundDirectory, fileName), content, 'utf8');
+      } else {
+        throw new Error(`Payer ${payerConnection.id} has neither an X12 endpoint nor an outbound directory`);
+      }
+
+      return {
+        success: true,
+        status: 'SENT',
+        responseData: {
+          interchangeControlNumber,
+          groupControlNumber: String(controlNumber),
+          senderId: settings.senderId,
+          receiverId: settings.receiverId,
+          fileName,
+          x12: content
+        }
+      };
+    } catch (error) {
+      logger.error(`Error sending X12 claim ${claim.id} to ${payerConnection.name}`, { error });
+
+      return {
+        success: false,
+        status: 'FAILED',
+        errorDetails: {
+          message: error instanceof Error ? error.message : String(error),
+          statusCode: axios.isAxiosError(error) ? error.response?.status : undefined
+        }
+      };
+    }
+  }
+
+  /**
+   * Process an inbound X12 document (999, 277CA or 835) from a payer or clearinghouse
+   * @param content Raw X12 content
+   * @returns The claims the document was applied to
+   */
+  async processInboundX12(content: string): Promise<InboundX12Result> {
+    const { segments } = parseX12(content);
+    const envelope = readEnvelope(segments);
+
+    const result: InboundX12Result = {
+      transactionSetId: envelope.transactionSetId || '',
+      interchangeControlNumber: envelope.interchangeControlNumber,
+      claimsUpdated: [],
+      unmatched: []
+    };
+
+    logger.info(`Processing inbound X12 ${result.transactionSetId} (ISA13 ${result.interchangeControlNumber})`);
+
+    switch (envelope.transactionSetId) {
+      case '999':
+        await this.apply999(content, result);
+        break;
+      case '277':
+        await this.apply277CA(content, result);
+        break;
+      case '835':
+        await this.apply835(content, result);
+        break;
+      default:
+        throw new X12ParseError(`Unsupported inbound transaction set ${envelope.transactionSetId || 'none'}`);
+    }
+
+    if (result.unmatched.length > 0) {
+      logger.warn(`Inbound X12 ${result.transactionSetId} referenced unknown claims or groups`, {
+        unmatched: result.unmatched
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Pick up inbound files from every X12 payer's inbound directory.
+   * Processed files move to processed/, files that fail to apply move to failed/.
+   * @returns Results for the files that were applied
+   */
+  async pollInboundDirectories(): Promise<InboundX12Result[]> {
+    const results: InboundX12Result[] = [];
+
+    for (const payerConnection of this.payerConnections.values()) {
+      const directory = payerConnection.x12?.inboundDirectory;
+      if (payerConnection.transport !== 'X12' || !directory) {
+        continue;
+      }
+
+      let entries: string[];
+      try {
+        entries = await fs.readdir(directory);
+      } catch (error) {
+        logger.error(`Cannot read X12 inbound directory for ${payerConnection.name}`, { error });
+        continue;
+      }
+
+      for (const entry of entries) {
+        const filePath = path.join(directory, entry);
+        const stats = await fs.stat(filePath);
+        if (!stats.isFile()) {
+          continue;
+        }
+
+        let target = 'processed';
+        try {
+          const content = await fs.readFile(filePath, 'utf8');
+          results.push(await this.processInboundX12(content));
+        } catch (error) {
+          target = 'failed';
+          logger.error(`Error processing inbound X12 file ${filePath}`, { error });
+        }
+
+        await fs.mkdir(path.join(directory, target), { recursive: true });
+        await fs.rename(filePath, path.join(directory, target, entry));
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Apply a 999 implementation acknowledgment to the forwards it acknowledges
+   */
+  private async apply999(content: string, result: InboundX12Result): Promise<void> {
+    const { envelope, acknowledgments } = parse999(content);
+    const now = new Date();
+
+    for (const ack of acknowledgments) {
+      // Control numbers are allocated per sender, so the 999 must also come
+      // back from the receiver the 837 was sent to, addressed to its sender
+      const [forward] = await this.db
+        .select()
+        .from(claimPayerForwards)
+        .where(
+          and(
+            eq(claimPayerForwards.groupControlNumber, ack.groupControlNumber),
+            eq(claimPayerForwards.senderId, envelope.receiverId || ''),
+            eq(claimPayerForwards.receiverId, envelope.senderId || '')
+          )
+        );
+
+      if (!forward) {
+        result.unmatched.push(ack.groupControlNumber);
+        continue;
+      }
+
+      if (ack.accepted) {
+        await this.db
+          .update(claimPayerForwards)
+          .set({
+            status: 'ACKNOWLEDGED',
+            ackCode: ack.status,
+            responseData: { functionalAcknowledgment: ack },
+            responseTimestamp: now,
+            updatedAt: now
+          })
+          .where(eq(claimPayerForwards.id, forward.id));
+
+        await this.logClaimEvent(forward.claimId, 'PENDING', 'X12_999_ACCEPTED', {
+          forwardId: forward.id,
+          ackCode: ack.status,
+          errors: ack.errors
+        });
+      } else {
+        await this.db
+          .update(claimPayerForwards)
+          .set({
+            status: 'REJECTED',
+            ackCode: ack.status,
+            errorDetails: { functionalAcknowledgment: ack },
+            responseTimestamp: now,
+            updatedAt: now
+          })
+          .where(eq(claimPayerForwards.id, forward.id));
+
+        await this.db
+          .update(claims)
+          .set({
+            status: 'REJECTED',
+            errorData: { source: '999', ackCode: ack.status, errors: ack.errors },
+            lastStatusUpdate: now,
+            updatedAt: now
+          })
+          .where(eq(claims.id, forward.claimId));
+
+        await this.logClaimEvent(forward.claimId, 'REJECTED', 'X12_999_REJECTED', {
+          forwardId: forward.id,
+          ackCode: ack.status,
+          errors: ack.errors
+        });
+      }
+
+      result.claimsUpdated.push(forward.claimId);
+    }
+  }
+
+  /**
+   * Apply a 277CA claim acknowledgment to the claims it reports on
+   */
+  private async apply277CA(content: string, result: InboundX12Result): Promise<void> {
+    const { claims: acknowledgments } = parse277CA(content);
+    const now = new Date();
+
+    for (const ack of acknowledgments) {
+      const claim = await this.findClaimByControlNumber(ack.patientControlNumber);
+      if (!claim) {
+        result.unmatched.push(ack.patientControlNumber);
+        continue;
+      }
+
+      const status = ack.accepted ? 'ACCEPTED' : 'REJECTED';
+
+      await this.db
+        .update(claims)
+        .set({
+          status,
+          externalClaimId: ack.payerClaimControlNumber || claim.externalClaimId,
+          errorData: ack.accepted ? claim.errorData : { source: '277CA', statuses: ack.statuses },
+          lastStatusUpdate: now,
+          updatedAt: now
+        })
+        .where(eq(claims.id, claim.id));
+
+      const forward = await this.findLatestForward(claim.id);
+      if (forward) {
+        await this.db
+          .update(claimPayerForwards)
+          .set({
+            status: ack.accepted ? 'ACKNOWLEDGED' : 'REJECTED',
+            trackingNumber: ack.payerClaimControlNumber || forward.trackingNumber,
+            ackCode: ack.categoryCode,
+            responseTimestamp: now,
+            updatedAt: now
+          })
+          .where(eq(claimPayerForwards.id, forward.id));
+      }
+
+      await this.logClaimEvent(claim.id, status, ack.accepted ? 'X12_277CA_ACCEPTED' : 'X12_277CA_REJECTED', {
+        forwardId: forward?.id,
+        payerClaimControlNumber: ack.payerClaimControlNumber,
+        statuses: ack.statuses
+      });
+
+      result.claimsUpdated.push(claim.id);
+    }
+  }
+
+  /**
+   * Post an 835 remittance: payments and adjustments go to the claim and its
+   * line items, and a REMITTANCE_POSTED event is written per claim.
+   */
+  private async apply835(content: string, result: InboundX12Result): Promise<void> {
+    const remittance = parse835(content);
+    const now = new Date();
+
+    for (const payment of remittance.claims) {
+      const claim = await this.findClaimByControlNumber(payment.patientControlNumber);
+      if (!claim) {
+        result.unmatched.push(payment.patientControlNumber);
+        continue;
+      }
+
+      // CLP02 22 reverses a previous payment; the corrected claim follows as its own CLP
+      if (payment.statusCode === '22') {
+        await this.logClaimEvent(claim.id, claim.status, 'REMITTANCE_REVERSED', {
+          traceNumber: remittance.payment.traceNumber,
+          payerClaimControlNumber: payment.payerClaimControlNumber,
+          paidAmount: payment.paidAmount
+        });
+        result.claimsUpdated.push(claim.id);
+        continue;
+      }
+
+      const lineItems: ClaimLineItem[] = await this.db
+        .select()
+        .from(claimLineItems)
+        .where(eq(claimLineItems.claimId, claim.id));
+
+      const matched = new Set<string>();
+      for (const service of payment.services) {
+        const line = lineItems.find(item => item.id === service.lineItemControlNumber)
+          || lineItems.find(item => !matched.has(item.id) && item.serviceCode === service.procedureCode);
+
+        if (!line) {
+          continue;
+        }
+        matched.add(line.id);
+
+        const patientResponsibility = service.adjustments
+          .filter(adjustment => adjustment.groupCode === 'PR')
+          .reduce((sum, adjustment) => sum + adjustment.amount, 0);
+
+        await this.db
+          .update(claimLineItems)
+          .set({
+            adjudicationData: {
+              source: '835',
+              lineItemId: line.id,
+              serviceCode: service.procedureCode,
+              billedAmount: service.chargeAmount,
+              allowedAmount: service.allowedAmount ?? service.paidAmount + patientResponsibility,
+              patientResponsibility,
+              paidAmount: service.paidAmount,
+              adjudicationStatus: service.paidAmount > 0 || patientResponsibility > 0 ? 'APPROVED' : 'DENIED',
+              adjustments: service.adjustments,
+              remarkCodes: service.remarkCodes,
+              traceNumber: remittance.payment.traceNumber
+            },
+            updatedAt: now
+          })
+          .where(eq(claimLineItems.id, line.id));
+      }
+
+      const status = this.remittanceClaimStatus(payment.statusCode, payment.services);
+
+      await this.db
+        .update(claims)
+        .set({
+          status,
+          externalClaimId: payment.payerClaimControlNumber || claim.externalClaimId,
+          responseData: this.toRemittanceResponse(remittance, payment),
+          processedDate: now,
+          lastStatusUpdate: now,
+          updatedAt: now
+        })
+        .where(eq(claims.id, claim.id));
+
+      const forward = await this.findLatestForward(claim.id);
+      if (forward) {
+        await this.db
+          .update(claimPayerForwards)
+          .set({
+            status: status === 'REJECTED' ? 'REJECTED' : 'COMPLETED',
+            trackingNumber: payment.payerClaimControlNumber || forward.trackingNumber,
+            responseTimestamp: now,
+            updatedAt: now
+          })
+          .where(eq(claimPayerForwards.id, forward.id));
+      }
+
+      await this.logClaimEvent(claim.id, status, 'REMITTANCE_POSTED', {
+        forwardId: forward?.id,
+        traceNumber: remittance.payment.traceNumber,
+        paymentMethod: remittance.payment.method,
+        claimStatusCode: payment.statusCode,
+        chargeAmount: payment.chargeAmount,
+        paidAmount: payment.paidAmount,
+        patientResponsibility: payment.patientResponsibility,
+        adjustments: [
+          ...payment.adjustments,
+          ...payment.services.flatMap(service => service.adjustments)
+        ]
+      });
+
+      result.claimsUpdated.push(claim.id);
+    }
+  }
+
+  /**
+   * Map an 835 CLP02 claim status onto a claim status
+   */
+  private remittanceClaimStatus(statusCode: string, services: X12Remittance['claims'][number]['services']): string {
+    if (statusCode === '4') {
+      return 'REJECTED';
+    }
+    if (!isProcessedClaimStatus(statusCode)) {
+      return 'PENDING';
+    }
+
+    const deniedLines = services.filter(service => service.chargeAmount > 0 && service.paidAmount === 0
+      && !service.adjustments.some(adjustment => adjustment.groupCode === 'PR'));
+
+    if (deniedLines.length === 0) {
+      return 'COMPLETE';
+    }
+    return deniedLines.length === services.length ? 'REJECTED' : 'PARTIAL';
+  }
+
+  /**
+   * Build the claims.responseData payload for a posted remittance
+   */
+  private toRemittanceResponse(remittance: X12Remittance, payment: X12Remittance['claims'][number]): any {
+    return {
+      source: '835',
+      interchangeControlNumber: remittance.envelope.interchangeControlNumber,
+      payerName: remittance.payerName,
+      payment: remittance.payment,
+      claimStatusCode: payment.statusCode,
+      chargeAmount: payment.chargeAmount,
+      paidAmount: payment.paidAmount,
+      patientResponsibility: payment.patientResponsibility,
+      payerClaimControlNumber: payment.payerClaimControlNumber,
+      adjustments: payment.adjustments
+    };
+  }
+
+  /**
+   * Find a claim by the patient control number echoed back in CLM01/TRN02/CLP01.
+   * Payers may change the case of the value they echo, so it is matched ignoring case.
+   */
+  private async findClaimByControlNumber(patientControlNumber: string): Promise<Claim | undefined> {
+    const controlNumber = patientControlNumber.toLowerCase();
+    const [claim] = await this.db
+      .select()
+      .from(claims)
+      .where(
+        or(
+          sql`lower(${claims.patientControlNumber}) = ${controlNumber}`,
+          sql`lower(${claims.id}) = ${controlNumber}`
+        )
+      );
+
+    return claim;
+  }
+
+  /**
+   * Find the most recent forwarding attempt for a claim
+   */
+  private async findLatestForward(claimId: string): Promise<ClaimPayerForward | undefined> {
+    const [forward] = await this.db
+      .select()
+      .from(claimPayerForwards)
+      .where(eq(claimPayerForwards.claimId, claimId))
+      .orderBy(desc(claimPayerForwards.createdAt))
+      .limit(1);
+
+    return forward;
+  }
+
   /**
    * Schedule a retry for a failed claim submission
    * @param forwardId The ID of the forwarding attempt
@@ -708,6 +1252,11 @@ export class ExternalPayerGateway {
         logger.error(`No payer connection found for payer ${payerId}`);
         return;
       }
+
+      // X12 claim status arrives through processInboundX12
+      if (payerConnection.transport === 'X12') {
+        return;
+      }
       
       logger.info(`Checking status for claim ${claim.id} with payer ${payerId}`);
       
@@ -0,0 +1,84 @@
+import { createHmac } from 'crypto';
+import { GenericActivityFeedConnector } from './generic-activity-feed-connector';
+import { VendorWebhookError, type VendorConnectorContext } from './vendor-connector';
+
+const SECRET = 'feed-webhook-secret';
+
+const context = {
+  vendor: { id: 'vendor-1' },
+  integration: { id: 'integration-1' },
+  config: {},
+  secrets: { webhookSecret: SECRET }
+} as unknown as VendorConnectorContext;
+
+const BODY = JSON.stringify({
+  events: [
+    {
+      user_id: 4711,
+      data: [
+        { id: 'a-1', type: 'steps', date: '2024-03-11', metrics: { steps: 12000 }, source: 'device' },
+        { id: 'a-2', type: 'workout', date: '2024-03-11T07:30:00Z', source: 'manual', deleted: true },
+        { id: 'a-3', type: 'steps', date: 'yesterday' }
+      ]
+    }
+  ]
+});
+
+const now = () => Math.floor(Date.now() / 1000);
+
+const sign = (timestamp: number, body: string, secret: string = SECRET) =>
+  'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+// A webhook as the feed sends it: the body signed with its timestamp
+const webhook = ({ timestamp = now(), body = BODY, signedBody = body, secret = SECRET }: {
+  timestamp?: number;
+  body?: string;
+  signedBody?: string;
+  secret?: string;
+} = {}) => ({
+  headers: { 'x-feed-timestamp': String(timestamp), 'x-feed-signature': sign(timestamp, signedBody, secret) },
+  rawBody: Buffer.from(body)
+});
+
+const connector = new GenericActivityFeedConnector();
+
+describe('GenericActivityFeedConnector.parseWebhook', () => {
+  it('parses a validly signed push, keeping items that do not parse as errors', async () => {
+    const [batch] = await connector.parseWebhook(context, webhook());
+
+    expect(batch.externalAccountId).toBe('4711');
+    expect(batch.records.map(({ externalId, dataType, activityData, verified, deleted }) => ({ externalId, dataType, activityData, verified, deleted })))
+      .toEqual([
+        { externalId: 'a-1', dataType: 'steps', activityData: { steps: 12000 }, verified: true, deleted: undefined },
+        { externalId: 'a-2', dataType: 'workout', activityData: {}, verified: false, deleted: true }
+      ]);
+    expect(batch.errors).toEqual([expect.objectContaining({ externalId: 'a-3', message: 'date: Invalid date' })]);
+  });
+
+  it('rejects a body changed after it was signed', async () => {
+    const tampered = webhook({ body: BODY.replace('12000', '99000'), signedBody: BODY });
+
+    await expect(connector.parseWebhook(context, tampered)).rejects.toBeInstanceOf(VendorWebhookError);
+    await expect(connector.parseWebhook(context, tampered)).rejects.toMatchObject({ status: 401, message: 'Invalid webhook signature' });
+  });
+
+  it('rejects a signature made with another secret', async () => {
+    await expect(connector.parseWebhook(context, webhook({ secret: 'other-secret' }))).rejects.toThrow('Invalid webhook signature');
+  });
+
+  it('rejects a validly signed push outside the five minute window, so it cannot be replayed', async () => {
+    const stale = webhook({ timestamp: now() - 6 * 60 });
+    const early = webhook({ timestamp: now() + 6 * 60 });
+
+    await expect(connector.parseWebhook(context, stale)).rejects.toThrow('Webhook timestamp is outside the allowed window');
+    await expect(connector.parseWebhook(context, early)).rejects.toThrow('Webhook timestamp is outside the allowed window');
+    await expect(connector.parseWebhook(context, webhook({ timestamp: now() - 4 * 60 }))).resolves.toHaveLength(1);
+  });
+
+  it('rejects a push without a signature', async () => {
+    const { headers, rawBody } = webhook();
+
+    await expect(connector.parseWebhook(context, { headers: { 'x-feed-timestamp': headers['x-feed-timestamp'] }, rawBody }))
+      .rejects.toMatchObject({ status: 401, message: 'Missing webhook signature' });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Generic Activity Feed Connector
+ *
+ * Reference vendor connector for the generic step/activity feed format, which
+ * smaller vendors and in-house trackers can expose without a bespoke
+ * connector. The feed format:
+ *
+ * - OAuth 2.0 authorization code flow at the configured authorizationUrl and
+ *   tokenUrl; the linked account is identified by GET {apiBaseUrl}/me, which
+ *   returns { id, username? }.
+ * - GET {apiBaseUrl}/activities?cursor=&since=&limit= with a bearer token
+ *   returns { data: ActivityFeedItem[], next_cursor, has_more }. Without a
+ *   cursor, the feed starts from `since`.
+ * - Webhook pushes are POSTed as { events: [{ user_id, data: ActivityFeedItem[] }] },
+ *   signed in X-Feed-Signature as "sha256=" + hex HMAC-SHA256 of
+ *   "{X-Feed-Timestamp}.{body}" with the integration's webhookSecret.
+ *
+ * An ActivityFeedItem is { id, type, date, metrics?, source?, deleted? },
+ * where date is an ISO date or timestamp and source is "device" or "manual".
+ */
+
+import axios from 'axios';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import type { VendorAccountCredentials } from '../../../shared/employer-schema';
+import {
+  BaseVendorConnector,
+  VendorAuthorizationError,
+  VendorWebhookError,
+  type VendorActivityPage,
+  type VendorActivityRecord,
+  type VendorConnectorContext,
+  type VendorRecordError,
+  type VendorWebhookBatch,
+  type VendorWebhookRequest
+} from './vendor-connector';
+
+const DEFAULT_PAGE_SIZE = 200;
+const DEFAULT_BACKFILL_DAYS = 30;
+const WEBHOOK_TOLERANCE_MS = 5 * 60 * 1000;
+
+const feedItemSchema = z.object({
+  id: z.union([z.string().min(1), z.number()]).transform(String),
+  type: z.string().min(1),
+  date: z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid date'),
+  metrics: z.record(z.string(), z.union([z.number(), z.string(), z.boolean(), z.null()])).optional(),
+  source: z.enum(['device', 'manual']).optional(),
+  deleted: z.boolean().optional()
+});
+
+const feedPageSchema = z.object({
+  data: z.array(z.unknown()),
+  next_cursor: z.string().nullable().optional(),
+  has_more: z.boolean().optional()
+});
+
+const webhookBodySchema = z.object({
+  events: z.array(z.object({
+    user_id: z.union([z.string().min(1), z.number()]).transform(String),
+    data: z.array(z.unknown())
+  }))
+});
+
+/**
+ * Connector for the generic activity feed format
+ */
+export class GenericActivityFeedConnector extends BaseVendorConnector {
+  readonly connectorType = 'generic_activity_feed';
+
+  /**
+   * Pull a page of activity after the cursor
+   */
+  async fetchActivity(context: VendorConnectorContext, credentials: VendorAccountCredentials, cursor: string | null): Promise<VendorActivityPage> {
+    const params: Record<string, string | number> = { limit: context.config.pageSize || DEFAULT_PAGE_SIZE };
+    if (cursor) {
+      params.cursor = cursor;
+    } else {
+      const backfillDays = context.config.backfillDays ?? DEFAULT_BACKFILL_DAYS;
+      params.since = new Date(Date.now() - backfillDays * 24 * 60 * 60 * 1000).toISOString();
+    }
+
+    const data = await this.get(context, credentials, '/activities', params);
+    const page = feedPageSchema.safeParse(data);
+    if (!page.success) {
+      throw new Error(`Unexpected activity feed response: ${page.error.errors.map(issue => issue.message).join('; ')}`);
+    }
+
+    const { records, errors } = this.parseItems(page.data.data);
+    return {
+      records,
+      errors,
+      nextCursor: page.data.next_cursor ?? null,
+      hasMore: page.data.has_more ?? false
+    };
+  }
+
+  /**
+   * Verify the webhook signature and parse the pushed activity
+   */
+  async parseWebhook(context: VendorConnectorContext, request: VendorWebhookRequest): Promise<VendorWebhookBatch[]> {
+    const secret = this.requireSecret(context, 'webhookSecret');
+    const timestamp = header(request, 'x-feed-timestamp');
+    const signature = header(request, 'x-feed-signature');
+    if (!timestamp || !signature) {
+      throw new VendorWebhookError('Missing webhook signature', 401);
+    }
+
+    const sentAt = Number(timestamp) * 1000;
+    if (!Number.isFinite(sentAt) || Math.abs(Date.now() - sentAt) > WEBHOOK_TOLERANCE_MS) {
+      throw new VendorWebhookError('Webhook timestamp is outside the allowed window', 401);
+    }
+
+    const expected = Buffer.from(
+      'sha256=' + createHmac('sha256', secret).update(`${timestamp}.`).update(request.rawBody).digest('hex')
+    );
+    const received = Buffer.from(signature);
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      throw new VendorWebhookError('Invalid webhook signature', 401);
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(request.rawBody.toString('utf8'));
+    } catch {
+      throw new VendorWebhookError('Webhook body is not valid JSON');
+    }
+
+    const parsed = webhookBodySchema.safeParse(body);
+    if (!parsed.success) {
+      throw new VendorWebhookError(`Invalid webhook body: ${parsed.error.errors.map(issue => issue.message).join('; ')}`);
+    }
+
+    return parsed.data.events.map(event => ({
+      externalAccountId: event.user_id,
+      ...this.parseItems(event.data)
+    }));
+  }
+
+  /**
+   * Identify the linked account
+   */
+  protected async getAccountIdentity(
+    context: VendorConnectorContext,
+    credentials: VendorAccountCredentials
+  ): Promise<{ externalId: string; externalUsername?: string }> {
+    const data = await this.get(context, credentials, '/me');
+    if (data?.id === undefined || data?.id === null) {
+      throw new Error('Activity feed did not identify the account');
+    }
+    return { externalId: String(data.id), externalUsername: data.username };
+  }
+
+  /**
+   * Normalize feed items, keeping the ones that do not parse as errors
+   */
+  private parseItems(items: unknown[]): { records: VendorActivityRecord[]; errors: VendorRecordError[] } {
+    const records: VendorActivityRecord[] = [];
+    const errors: VendorRecordError[] = [];
+
+    for (const item of items) {
+      const parsed = feedItemSchema.safeParse(item);
+      if (!parsed.success) {
+        errors.push({
+          externalId: (item as any)?.id !== undefined ? String((item as any).id) : undefined,
+          message: parsed.error.errors.map(issue => `${issue.path.join('.') || 'item'}: ${issue.message}`).join('; '),
+          rawData: item
+        });
+        continue;
+      }
+
+      const { id, type, date, metrics, source, deleted } = parsed.data;
+      records.push({
+        externalId: id,
+        dataType: type,
+        activityDate: new Date(date),
+        activityData: metrics || {},
+        verified: source === 'device',
+        deleted,
+        rawData: item
+      });
+    }
+
+    return { records, errors };
+  }
+
+  private async get(context: VendorConnectorContext, credentials: VendorAccountCredentials, path: string, params?: Record<string, string | number>): Promise<any> {
+    try {
+      const response = await axios.get(`${this.requireConfig(context, 'apiBaseUrl').replace(/\/$/, '')}${path}`, {
+        params,
+        headers: { Authorization: `Bearer ${credentials.accessToken}`, Accept: 'application/json' },
+        timeout: 30000
+      });
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && (error.response?.status === 401 || error.response?.status === 403)) {
+        throw new VendorAuthorizationError(`Activity feed rejected the access token (${error.response.status})`);
+      }
+      throw error;
+    }
+  }
+}
+
+function header(request: VendorWebhookRequest, name: string): string | undefined {
+  const value = request.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
@@ -0,0 +1,80 @@
+import { evaluateGoldcardCriteria, GoldcardCriteriaFacts } from './goldcard-criteria';
+
+// The compiled goldcarding-schema.js next to the source predates the criteria language
+jest.mock('@shared/goldcarding-schema', () => jest.requireActual('./goldcarding-schema.ts'));
+
+const facts = (
+  metrics: Record<string, number | null> = {},
+  attributes: Record<string, string> = {},
+  denials = 0
+): GoldcardCriteriaFacts => ({
+  metric: async metric => metrics[metric] ?? null,
+  attribute: attribute => attributes[attribute],
+  denials: async () => denials
+});
+
+const approvalRate = { type: 'metric', metric: 'approval_rate', operator: '>=', value: 90, periodMonths: 12 };
+const oncology = { type: 'attribute', attribute: 'specialty', operator: 'in', values: ['Oncology'] };
+
+const criteria = (clause: object) => ({ version: 1, criteria: clause });
+
+describe('evaluateGoldcardCriteria', () => {
+  it('passes a rule without criteria', async () => {
+    expect(await evaluateGoldcardCriteria(null, facts())).toEqual({ passed: true, failures: [] });
+  });
+
+  it('fails a metric with no data, explaining what is missing', async () => {
+    const result = await evaluateGoldcardCriteria(criteria(approvalRate), facts());
+    expect(result.passed).toBe(false);
+    expect(result.failures).toEqual([{
+      path: 'criteria',
+      explanation: 'Prior auth approval rate over the last 12 months has no data; rule requires >= 90%'
+    }]);
+  });
+
+  it('does not pass the negation of a metric with no data', async () => {
+    const result = await evaluateGoldcardCriteria(criteria({ type: 'not', clause: approvalRate }), facts());
+    expect(result.passed).toBe(false);
+    expect(result.failures[0].explanation).toMatch(/has no data/);
+  });
+
+  it('does not pass the negation of an unrecorded attribute', async () => {
+    const result = await evaluateGoldcardCriteria(criteria({ type: 'not', clause: oncology }), facts());
+    expect(result.passed).toBe(false);
+    expect(result.failures[0].explanation).toMatch(/Specialty is not recorded/);
+  });
+
+  it('negates clauses that can be decided', async () => {
+    const notOncology = criteria({ type: 'not', clause: oncology });
+    expect((await evaluateGoldcardCriteria(notOncology, facts({}, { specialty: 'Cardiology' }))).passed).toBe(true);
+
+    const result = await evaluateGoldcardCriteria(notOncology, facts({}, { specialty: 'oncology' }));
+    expect(result.passed).toBe(false);
+    expect(result.failures[0].explanation).toBe('Must not hold: Specialty is "oncology"');
+  });
+
+  it('fails all when a clause is false, and treats an unknown clause as not passing', async () => {
+    const both = criteria({ type: 'all', clauses: [approvalRate, oncology] });
+    expect((await evaluateGoldcardCriteria(both, facts({ approval_rate: 95 }, { specialty: 'Oncology' }))).passed).toBe(true);
+    expect((await evaluateGoldcardCriteria(both, facts({}, { specialty: 'Oncology' }))).passed).toBe(false);
+
+    // not (false and unknown) is decided: the conjunction is false whatever the unknown is
+    const neither = criteria({ type: 'not', clause: { type: 'all', clauses: [approvalRate, oncology] } });
+    expect((await evaluateGoldcardCriteria(neither, facts({}, { specialty: 'Cardiology' }))).passed).toBe(true);
+  });
+
+  it('passes any when one alternative holds, even if another is unknown', async () => {
+    const either = criteria({ type: 'any', clauses: [approvalRate, oncology] });
+    expect((await evaluateGoldcardCriteria(either, facts({}, { specialty: 'Oncology' }))).passed).toBe(true);
+
+    // not (unknown or false) stays unknown
+    const neither = criteria({ type: 'not', clause: { type: 'any', clauses: [approvalRate, oncology] } });
+    expect((await evaluateGoldcardCriteria(neither, facts({}, { specialty: 'Cardiology' }))).passed).toBe(false);
+  });
+
+  it('fails criteria that no longer validate', async () => {
+    const result = await evaluateGoldcardCriteria({ version: 2, criteria: approvalRate }, facts({ approval_rate: 95 }));
+    expect(result.passed).toBe(false);
+    expect(result.failures[0].path).toBe('criteria');
+  });
+});
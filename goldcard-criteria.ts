@@ -0,0 +1,246 @@
+/**
+ * Goldcard Criteria
+ *
+ * Validation and evaluation of the criteria expressions stored in
+ * goldcard_rules.additionalCriteria (see goldcardCriteriaSchema). Evaluation
+ * reports every clause that failed with a human-readable explanation so a
+ * provider can be told why they are not goldcarded.
+ *
+ * A clause over missing data (a rate with no claims, an unrecorded attribute)
+ * is unknown rather than false, so negating it does not make it pass. Unknown
+ * combines three-valued through all, any and not; criteria that end up
+ * unknown fail.
+ */
+import {
+  GoldcardCriteria,
+  GoldcardCriteriaClause,
+  goldcardCriteriaSchema,
+  goldcardCriteriaMetrics,
+  goldcardCriteriaAttributes,
+  goldcardDenialReasons
+} from '@shared/goldcarding-schema';
+
+type CriteriaMetric = (typeof goldcardCriteriaMetrics)[number];
+type CriteriaAttribute = (typeof goldcardCriteriaAttributes)[number];
+type DenialReason = (typeof goldcardDenialReasons)[number];
+
+export class GoldcardCriteriaError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(message);
+    this.name = 'GoldcardCriteriaError';
+  }
+}
+
+/**
+ * Provider facts the criteria are evaluated against
+ */
+export interface GoldcardCriteriaFacts {
+  // Null when there is no data for the period (e.g. a rate with no claims)
+  metric(metric: CriteriaMetric, periodMonths: number): Promise<number | null>;
+  attribute(attribute: CriteriaAttribute): string | undefined;
+  denials(reason: DenialReason, periodMonths: number): Promise<number>;
+}
+
+export interface GoldcardClauseFailure {
+  path: string; // Location of the clause in the expression, e.g. criteria.clauses[1]
+  explanation: string;
+}
+
+export interface GoldcardCriteriaResult {
+  passed: boolean;
+  failures: GoldcardClauseFailure[];
+}
+
+const METRIC_LABELS: Record<CriteriaMetric, { label: string; unit: string }> = {
+  approval_rate: { label: 'Prior auth approval rate', unit: '%' },
+  auth_requests: { label: 'Prior auth requests', unit: '' },
+  claim_accuracy_rate: { label: 'Claim accuracy rate', unit: '%' },
+  claims: { label: 'Claims', unit: '' }
+};
+
+const ATTRIBUTE_LABELS: Record<CriteriaAttribute, string> = {
+  specialty: 'Specialty',
+  facility_type: 'Facility type'
+};
+
+// CARC 50: non-covered because not deemed a medical necessity
+const MEDICAL_NECESSITY_PATTERN = /^\s*(?:(?:CO|PR|OA)-?)?50\b|medical(?:ly)?\s+necess/i;
+
+/**
+ * Validate a criteria expression before it is saved
+ * @throws GoldcardCriteriaError listing every problem found
+ */
+export function validateGoldcardCriteria(input: unknown): GoldcardCriteria {
+  const result = goldcardCriteriaSchema.safeParse(input);
+
+  if (!result.success) {
+    const issues = result.error.issues.map(issue =>
+      `${issue.path.length > 0 ? issue.path.join('.') : 'criteria'}: ${issue.message}`
+    );
+    throw new GoldcardCriteriaError(`Invalid goldcard criteria: ${issues.join('; ')}`, issues);
+  }
+
+  return result.data;
+}
+
+/**
+ * Evaluate a rule's stored criteria. A rule without criteria passes; criteria
+ * that no longer validate fail closed.
+ */
+export async function evaluateGoldcardCriteria(
+  stored: unknown,
+  facts: GoldcardCriteriaFacts
+): Promise<GoldcardCriteriaResult> {
+  if (stored === null || stored === undefined) {
+    return { passed: true, failures: [] };
+  }
+
+  let criteria: GoldcardCriteria;
+  try {
+    criteria = validateGoldcardCriteria(stored);
+  } catch (error) {
+    return {
+      passed: false,
+      failures: [{ path: 'criteria', explanation: (error as Error).message }]
+    };
+  }
+
+  const result = await evaluateClause(criteria.criteria, 'criteria', facts);
+  return { passed: result.passed === true, failures: result.passed === true ? [] : result.failures };
+}
+
+/**
+ * Whether a denial reason falls in a denial category
+ */
+export function matchesDenialReason(reason: DenialReason, text: string | null | undefined): boolean {
+  if (reason === 'any') {
+    return true;
+  }
+  return !!text && MEDICAL_NECESSITY_PATTERN.test(text);
+}
+
+/**
+ * Evaluate a clause; passed is null when the data to decide it is missing.
+ * Failures explain why it did not hold.
+ */
+async function evaluateClause(
+  clause: GoldcardCriteriaClause,
+  path: string,
+  facts: GoldcardCriteriaFacts
+): Promise<{ passed: boolean | null; description: string; failures: GoldcardClauseFailure[] }> {
+  switch (clause.type) {
+    case 'all': {
+      const results = await Promise.all(
+        clause.clauses.map((child, index) => evaluateClause(child, `${path}.clauses[${index}]`, facts))
+      );
+      const passed = results.some(result => result.passed === false) ? false
+        : results.some(result => result.passed === null) ? null
+        : true;
+      return {
+        passed,
+        description: results.map(result => result.description).join(' and '),
+        failures: results.flatMap(result => result.passed === true ? [] : result.failures)
+      };
+    }
+
+    case 'any': {
+      const results = await Promise.all(
+        clause.clauses.map((child, index) => evaluateClause(child, `${path}.clauses[${index}]`, facts))
+      );
+      const passed = results.some(result => result.passed === true) ? true
+        : results.some(result => result.passed === null) ? null
+        : false;
+      return {
+        passed,
+        description: results.map(result => result.description).join(' or '),
+        failures: passed === true ? [] : [{
+          path,
+          explanation: `None of the alternatives hold: ${results
+            .flatMap(result => result.failures.map(failure => failure.explanation))
+            .join('; ')}`
+        }]
+      };
+    }
+
+    case 'not': {
+      const inner = await evaluateClause(clause.clause, `${path}.clause`, facts);
+      if (inner.passed === null) {
+        // Still unknown; its failures say what data is missing
+        return { passed: null, description: `not (${inner.description})`, failures: inner.failures };
+      }
+      return {
+        passed: !inner.passed,
+        description: `not (${inner.description})`,
+        failures: inner.passed ? [{ path, explanation: `Must not hold: ${inner.description}` }] : []
+      };
+    }
+
+    case 'metric': {
+      const { label, unit } = METRIC_LABELS[clause.metric];
+      const actual = await facts.metric(clause.metric, clause.periodMonths);
+      const period = `over the last ${clause.periodMonths} months`;
+      const required = `${clause.operator} ${clause.value}${unit}`;
+
+      if (actual === null) {
+        return {
+          passed: null,
+          description: `${label} ${period} is unavailable`,
+          failures: [{ path, explanation: `${label} ${period} has no data; rule requires ${required}` }]
+        };
+      }
+
+      const passed = compare(actual, clause.operator, clause.value);
+      const description = `${label} ${period} is ${actual}${unit}`;
+      return {
+        passed,
+        description,
+        failures: passed ? [] : [{ path, explanation: `${description}; rule requires ${required}` }]
+      };
+    }
+
+    case 'attribute': {
+      const label = ATTRIBUTE_LABELS[clause.attribute];
+      const actual = facts.attribute(clause.attribute);
+      const listed = clause.values.map(value => `"${value}"`).join(', ');
+      const requirement = clause.operator === 'in' ? `one of ${listed}` : `none of ${listed}`;
+
+      if (!actual) {
+        return {
+          passed: null,
+          description: `${label} is not recorded`,
+          failures: [{ path, explanation: `${label} is not recorded; rule requires ${requirement}` }]
+        };
+      }
+
+      const listedMatch = clause.values.some(value => value.toLowerCase() === actual.toLowerCase());
+      const passed = clause.operator === 'in' ? listedMatch : !listedMatch;
+      const description = `${label} is "${actual}"`;
+      return {
+        passed,
+        description,
+        failures: passed ? [] : [{ path, explanation: `${description}; rule requires ${requirement}` }]
+      };
+    }
+
+    case 'no_denials': {
+      const count = await facts.denials(clause.reason, clause.periodMonths);
+      const kind = clause.reason === 'medical_necessity' ? 'medical necessity denials' : 'denials';
+      const description = `${count} ${kind} in the last ${clause.periodMonths} months`;
+      return {
+        passed: count === 0,
+        description,
+        failures: count === 0 ? [] : [{ path, explanation: `${description}; rule allows none` }]
+      };
+    }
+  }
+}
+
+function compare(actual: number, operator: string, expected: number): boolean {
+  switch (operator) {
+    case '>=': return actual >= expected;
+    case '>': return actual > expected;
+    case '<=': return actual <= expected;
+    case '<': return actual < expected;
+    default: return actual === expected;
+  }
+}
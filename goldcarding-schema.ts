@@ -56,6 +56,7 @@ export const goldcardEligibility = pgTable("goldcard_eligibility", {
   lastReviewDate: timestamp("last_review_date"),
   reviewNotes: text("review_notes"),
   revocationReason: text("revocation_reason"),
+  gracePeriodEndDate: timestamp("grace_period_end_date"), // Set while the provider is below the rule's thresholds
   claimAccuracyRate: integer("claim_accuracy_rate"), // Percentage
   metadataJson: jsonb("metadata_json") // Additional flexible data
 });
@@ -70,10 +71,11 @@ export const goldcardRules = pgTable("goldcard_rules", {
   minAuthRequests: integer("min_auth_requests").notNull(), // Minimum number of requests required
   evaluationPeriodMonths: integer("evaluation_period_months").notNull(), // How far back to look
   reviewFrequency: text("review_frequency").notNull().default("monthly"), // How often to re-evaluate
+  gracePeriodDays: integer("grace_period_days").notNull().default(30), // Days below threshold before revocation
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-  additionalCriteria: jsonb("additional_criteria"), // Any other rule criteria in flexible format
+  additionalCriteria: jsonb("additional_criteria").$type<GoldcardCriteria>(), // Criteria expression, see goldcardCriteriaSchema
   payerId: text("payer_id"), // If null, applies to all payers
   organizationId: text("organization_id") // If null, applies to all orgs
 });
@@ -150,10 +152,86 @@ export const goldcardEventsRelations = relations(goldcardEvents, ({ one }) => ({
   })
 }));
 
+// Goldcard rule criteria language (stored in goldcard_rules.additional_criteria)
+//
+// A versioned expression tree evaluated in addition to minAuthRequests and
+// requiredApprovalRate. Metrics are percentages or counts over the last
+// periodMonths; attributes come from the provider profile's metadataJson.
+export const GOLDCARD_CRITERIA_VERSION = 1;
+
+export const goldcardCriteriaMetrics = [
+  "approval_rate", // % of prior auths approved
+  "auth_requests", // Number of prior auths
+  "claim_accuracy_rate", // % of claims paid
+  "claims" // Number of claims
+] as const;
+
+export const goldcardCriteriaAttributes = ["specialty", "facility_type"] as const;
+
+export const goldcardDenialReasons = ["any", "medical_necessity"] as const;
+
+export type GoldcardCriteriaClause =
+  | { type: "all"; clauses: GoldcardCriteriaClause[] }
+  | { type: "any"; clauses: GoldcardCriteriaClause[] }
+  | { type: "not"; clause: GoldcardCriteriaClause }
+  | {
+      type: "metric";
+      metric: (typeof goldcardCriteriaMetrics)[number];
+      operator: ">=" | ">" | "<=" | "<" | "=";
+      value: number;
+      periodMonths: number;
+    }
+  | {
+      type: "attribute";
+      attribute: (typeof goldcardCriteriaAttributes)[number];
+      operator: "in" | "not_in";
+      values: string[];
+    }
+  | {
+      type: "no_denials";
+      reason: (typeof goldcardDenialReasons)[number];
+      periodMonths: number;
+    };
+
+export const goldcardCriteriaClauseSchema: z.ZodType<GoldcardCriteriaClause> = z.lazy(() =>
+  z.discriminatedUnion("type", [
+    z.object({ type: z.literal("all"), clauses: z.array(goldcardCriteriaClauseSchema).min(1) }),
+    z.object({ type: z.literal("any"), clauses: z.array(goldcardCriteriaClauseSchema).min(1) }),
+    z.object({ type: z.literal("not"), clause: goldcardCriteriaClauseSchema }),
+    z.object({
+      type: z.literal("metric"),
+      metric: z.enum(goldcardCriteriaMetrics),
+      operator: z.enum([">=", ">", "<=", "<", "="]),
+      value: z.number().min(0),
+      periodMonths: z.number().int().min(1).max(60)
+    }),
+    z.object({
+      type: z.literal("attribute"),
+      attribute: z.enum(goldcardCriteriaAttributes),
+      operator: z.enum(["in", "not_in"]),
+      values: z.array(z.string().min(1)).min(1)
+    }),
+    z.object({
+      type: z.literal("no_denials"),
+      reason: z.enum(goldcardDenialReasons),
+      periodMonths: z.number().int().min(1).max(60)
+    })
+  ])
+);
+
+export const goldcardCriteriaSchema = z.object({
+  version: z.literal(GOLDCARD_CRITERIA_VERSION),
+  criteria: goldcardCriteriaClauseSchema
+});
+
+export type GoldcardCriteria = z.infer<typeof goldcardCriteriaSchema>;
+
 // Zod schemas
 export const insertGoldcardProviderProfileSchema = createInsertSchema(goldcardProviderProfiles);
 export const insertGoldcardEligibilitySchema = createInsertSchema(goldcardEligibility);
-export const insertGoldcardRuleSchema = createInsertSchema(goldcardRules);
+export const insertGoldcardRuleSchema = createInsertSchema(goldcardRules, {
+  additionalCriteria: goldcardCriteriaSchema.nullable().optional()
+});
 export const insertGoldcardEventSchema = createInsertSchema(goldcardEvents);
 export const insertGoldcardPriorAuthTrackerSchema = createInsertSchema(goldcardPriorAuthTracker);
 export const insertGoldcardClaimTrackerSchema = createInsertSchema(goldcardClaimTracker);
@@ -192,4 +270,15 @@ export type GoldcardCheckRequest = {
   patientId?: string;
   payerId?: string;
   additionalContext?: Record<string, any>;
-}
\ No newline at end of file
+}
+
+// Context for a prior authorization that was bypassed because the provider is goldcarded
+export type GoldcardExemptionContext = {
+  payerId: string;
+  patientId?: string;
+  organizationId?: string;
+  priorAuthRequestId?: string;
+  bypassedSource: string; // Which rule would have required PA: payer, canonical
+  bypassedDetails?: Record<string, any>;
+  userId?: string;
+}
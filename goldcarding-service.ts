@@ -11,6 +11,13 @@ import { db } from '../../db';
 import logger from '../../../server/utils/logger';
 import { drizzle } from 'drizzle-orm/postgres-js';
 import postgres from 'postgres';
+import { goldcardWebhooks } from '../webhooks/webhook-triggers';
+import {
+  GoldcardCriteriaFacts,
+  evaluateGoldcardCriteria,
+  matchesDenialReason,
+  validateGoldcardCriteria
+} from './goldcard-criteria';
 import { 
   goldcardProviderProfiles, 
   goldcardEligibility, 
@@ -26,8 +33,10 @@ import {
   GoldcardClaimTracker,
   GoldcardCheckRequest,
   GoldcardDecision,
+  GoldcardExemptionContext,
   InsertGoldcardProviderProfile,
   InsertGoldcardEligibility,
+  InsertGoldcardRule,
   InsertGoldcardEvent,
   InsertGoldcardPriorAuthTracker,
   InsertGoldcardClaimTracker
@@ -167,17 +176,36 @@ export class GoldcardingService {
         };
       }
 
+      const now = new Date();
+      const facts = this.criteriaFacts(providerProfile, serviceCode, now);
+      const ruleFailures: { ruleId: string; ruleName: string; failures: string[] }[] = [];
+
       // For each rule, check if the provider meets the criteria
       for (const rule of rules) {
         // Get provider's historical stats for this service
-        const stats = await this.getProviderServiceStats(providerId, serviceCode, rule.evaluationPeriodMonths);
+        const stats = await this.getProviderServiceStats(providerId, serviceCode, rule.evaluationPeriodMonths, now);
         
         // Check if the provider meets the rule criteria
         const meetsMinRequests = stats.totalAuthRequests >= rule.minAuthRequests;
         const meetsApprovalRate = stats.approvalRate >= rule.requiredApprovalRate;
+        const criteria = meetsMinRequests && meetsApprovalRate
+          ? await evaluateGoldcardCriteria(rule.additionalCriteria, facts)
+          : undefined;
+
+        if (!criteria?.passed) {
+          ruleFailures.push({
+            ruleId: rule.id,
+            ruleName: rule.name,
+            failures: [
+              ...(meetsMinRequests ? [] : [`${stats.totalAuthRequests} prior auth requests in the last ${rule.evaluationPeriodMonths} months; rule requires at least ${rule.minAuthRequests}`]),
+              ...(meetsApprovalRate ? [] : [`Prior auth approval rate is ${stats.approvalRate}%; rule requires ${rule.requiredApprovalRate}%`]),
+              ...(criteria?.failures.map(failure => failure.explanation) ?? [])
+            ]
+          });
+        }
 
         // If provider meets all criteria, they are eligible for goldcarding
-        if (meetsMinRequests && meetsApprovalRate) {
+        if (criteria?.passed) {
           // Provider is eligible - create an eligibility record
           const serviceName = await this.getServiceName(serviceCode);
           
@@ -233,7 +261,8 @@ export class GoldcardingService {
         isEligible: false,
         providerId,
         serviceCode,
-        reason: 'Provider does not meet goldcarding criteria for this service'
+        reason: `Provider does not meet goldcarding criteria for this service: ${ruleFailures[0].failures.join('; ')}`,
+        details: { ruleFailures }
       };
     } catch (error) {
       logger.error('Error evaluating eligibility by rules:', error);
@@ -298,6 +327,426 @@ export class GoldcardingService {
     }
   }
 
+  /**
+   * Record that a prior authorization was bypassed because the provider is goldcarded.
+   * Each bypass is kept as a PA_EXEMPTION event so payers can audit it.
+   */
+  async recordPriorAuthExemption(
+    decision: GoldcardDecision,
+    context: GoldcardExemptionContext
+  ): Promise<GoldcardEvent> {
+    try {
+      const profile = await this.getProviderProfile(decision.providerId);
+      if (!profile) {
+        throw new Error(`Provider profile not found for provider ${decision.providerId}`);
+      }
+
+      logger.info(`Recording goldcard PA exemption for provider ${decision.providerId} and service ${decision.serviceCode}`);
+
+      const serviceName = await this.getServiceName(decision.serviceCode);
+
+      return await this.recordEvent({
+        providerProfileId: profile.id,
+        eligibilityId: decision.details?.eligibilityId,
+        eventType: 'PA_EXEMPTION',
+        serviceCode: decision.serviceCode,
+        serviceName: serviceName || decision.serviceCode,
+        reason: decision.reason,
+        userId: context.userId,
+        details: {
+          payerId: context.payerId,
+          patientId: context.patientId,
+          organizationId: context.organizationId,
+          priorAuthRequestId: context.priorAuthRequestId,
+          bypassedSource: context.bypassedSource,
+          bypassedDetails: context.bypassedDetails,
+          approvalRate: decision.details?.approvalRate
+        }
+      });
+    } catch (error) {
+      logger.error('Error recording goldcard PA exemption:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Count prior authorizations bypassed by goldcarding, per service, over a period
+   */
+  async getExemptionSummary(startDate: Date, endDate: Date = new Date()): Promise<{
+    serviceCode: string;
+    serviceName: string;
+    exemptions: number;
+    providers: number;
+  }[]> {
+    try {
+      const rows = await db.select({
+        serviceCode: goldcardEvents.serviceCode,
+        serviceName: sql<string>`max(${goldcardEvents.serviceName})`,
+        exemptions: sql<number>`count(*)::int`,
+        providers: sql<number>`count(distinct ${goldcardEvents.providerProfileId})::int`
+      })
+        .from(goldcardEvents)
+        .where(and(
+          eq(goldcardEvents.eventType, 'PA_EXEMPTION'),
+          gte(goldcardEvents.timestamp, startDate),
+          lte(goldcardEvents.timestamp, endDate)
+        ))
+        .groupBy(goldcardEvents.serviceCode)
+        .orderBy(desc(sql`count(*)`));
+
+      return rows.map(row => ({
+        serviceCode: row.serviceCode ?? 'unknown',
+        serviceName: row.serviceName ?? row.serviceCode ?? 'unknown',
+        exemptions: row.exemptions,
+        providers: row.providers
+      }));
+    } catch (error) {
+      logger.error('Error getting goldcard exemption summary:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create a goldcarding rule, validating its additionalCriteria
+   * @throws GoldcardCriteriaError if the criteria expression is invalid
+   */
+  async createRule(data: Omit<InsertGoldcardRule, 'id' | 'createdAt' | 'updatedAt'>): Promise<GoldcardRule> {
+    const additionalCriteria = data.additionalCriteria == null
+      ? null
+      : validateGoldcardCriteria(data.additionalCriteria);
+
+    const [rule] = await db.insert(goldcardRules)
+      .values({
+        ...data,
+        additionalCriteria,
+        id: uuidv4()
+      })
+      .returning();
+
+    logger.info(`Created goldcarding rule ${rule.id} (${rule.name})`);
+    return rule;
+  }
+
+  /**
+   * Update a goldcarding rule, validating its additionalCriteria when it changes
+   * @throws GoldcardCriteriaError if the criteria expression is invalid
+   */
+  async updateRule(
+    id: string,
+    data: Partial<Omit<InsertGoldcardRule, 'id' | 'createdAt' | 'updatedAt'>>
+  ): Promise<GoldcardRule> {
+    const update = { ...data, updatedAt: new Date() };
+    if (data.additionalCriteria != null) {
+      update.additionalCriteria = validateGoldcardCriteria(data.additionalCriteria);
+    }
+
+    const [rule] = await db.update(goldcardRules)
+      .set(update)
+      .where(eq(goldcardRules.id, id))
+      .returning();
+
+    if (!rule) {
+      throw new Error(`Goldcarding rule ${id} not found`);
+    }
+
+    logger.info(`Updated goldcarding rule ${id}`);
+    return rule;
+  }
+
+  /**
+   * Re-evaluate active goldcard eligibilities that are due for review.
+   *
+   * An eligibility is due when its provider's evaluation frequency has elapsed
+   * since the last review, its end date has passed, or its grace period is over.
+   * Providers still meeting a rule are RENEWED when their period has lapsed.
+   * Providers whose approval rate fell below the rule's requiredApprovalRate, or
+   * who no longer meet its additionalCriteria, get the rule's grace period, then
+   * are REVOKED; lapsed eligibilities that no longer
+   * qualify are EXPIRED. Each change is recorded and the provider is notified
+   * with the stats that drove it.
+   */
+  async reevaluateEligibilities(now: Date = new Date()): Promise<{
+    reviewed: number;
+    renewed: number;
+    expired: number;
+    revoked: number;
+    gracePeriodsStarted: number;
+  }> {
+    const summary = { reviewed: 0, renewed: 0, expired: 0, revoked: 0, gracePeriodsStarted: 0 };
+
+    try {
+      const candidates = await db.select({
+        eligibility: goldcardEligibility,
+        profile: goldcardProviderProfiles
+      })
+        .from(goldcardEligibility)
+        .innerJoin(goldcardProviderProfiles,
+          eq(goldcardEligibility.providerProfileId, goldcardProviderProfiles.id))
+        .where(eq(goldcardEligibility.status, 'active'));
+
+      const reviewedProfiles = new Set<string>();
+
+      for (const { eligibility, profile } of candidates) {
+        if (!this.isDueForReview(eligibility, profile, now)) {
+          continue;
+        }
+
+        try {
+          const outcome = await this.reevaluateEligibility(eligibility, profile, now);
+          summary.reviewed++;
+          if (outcome === 'RENEWED') summary.renewed++;
+          if (outcome === 'EXPIRED') summary.expired++;
+          if (outcome === 'REVOKED') summary.revoked++;
+          if (outcome === 'GRACE_PERIOD_STARTED') summary.gracePeriodsStarted++;
+          reviewedProfiles.add(profile.id);
+        } catch (error) {
+          logger.error(`Error re-evaluating goldcard eligibility ${eligibility.id}:`, error);
+        }
+      }
+
+      if (reviewedProfiles.size > 0) {
+        await db.update(goldcardProviderProfiles)
+          .set({ lastEvaluationDate: now, updatedAt: now })
+          .where(inArray(goldcardProviderProfiles.id, [...reviewedProfiles]));
+      }
+
+      logger.info(`Goldcard re-evaluation complete: ${JSON.stringify(summary)}`);
+      return summary;
+    } catch (error) {
+      logger.error('Error re-evaluating goldcard eligibilities:', error);
+      return summary;
+    }
+  }
+
+  /**
+   * Initialize periodic goldcard re-evaluation
+   * @param intervalMs The interval in milliseconds
+   */
+  startPeriodicReevaluation(intervalMs: number = 24 * 60 * 60 * 1000): void {
+    this.reevaluateEligibilities().catch(error => {
+      logger.error('Error in initial goldcard re-evaluation:', error);
+    });
+
+    setInterval(() => {
+      this.reevaluateEligibilities().catch(error => {
+        logger.error('Error in periodic goldcard re-evaluation:', error);
+      });
+    }, intervalMs).unref();
+  }
+
+  /**
+   * Re-evaluate a single eligibility against the rules for its service
+   */
+  private async reevaluateEligibility(
+    eligibility: GoldcardEligibility,
+    profile: GoldcardProviderProfile,
+    now: Date
+  ): Promise<'RENEWED' | 'EXPIRED' | 'REVOKED' | 'GRACE_PERIOD_STARTED' | 'UNCHANGED'> {
+    const lapsed = !!eligibility.endDate && new Date(eligibility.endDate) <= now;
+    const rules = await this.getApplicableRules(eligibility.serviceCode);
+
+    if (rules.length === 0) {
+      if (lapsed) {
+        await this.expireEligibility(eligibility, profile, now, 'No active goldcarding rule covers this service');
+        return 'EXPIRED';
+      }
+      await db.update(goldcardEligibility)
+        .set({ lastReviewDate: now, updatedAt: now })
+        .where(eq(goldcardEligibility.id, eligibility.id));
+      return 'UNCHANGED';
+    }
+
+    // Goldcarded providers submit few PAs for the service, so low volume alone
+    // is not held against them; only the approval rate over enough requests is
+    const facts = this.criteriaFacts(profile, eligibility.serviceCode, now);
+    const evaluations = [];
+    for (const rule of rules) {
+      const stats = await this.getProviderServiceStats(profile.providerId, eligibility.serviceCode, rule.evaluationPeriodMonths, now);
+      const meetsApprovalRate = stats.totalAuthRequests < rule.minAuthRequests
+        || stats.approvalRate >= rule.requiredApprovalRate;
+      const criteria = await evaluateGoldcardCriteria(rule.additionalCriteria, facts);
+      evaluations.push({ rule, stats, meetsApprovalRate, criteria, passed: meetsApprovalRate && criteria.passed });
+    }
+
+    const passing = evaluations.find(evaluation => evaluation.passed);
+    const { rule, stats, meetsApprovalRate, criteria } = passing ?? evaluations[0];
+    const statsUpdate = {
+      approvalRate: stats.totalAuthRequests > 0 ? stats.approvalRate : eligibility.approvalRate,
+      eligibilityScore: stats.totalAuthRequests > 0 ? stats.approvalRate : eligibility.eligibilityScore,
+      totalAuthRequests: stats.totalAuthRequests,
+      totalApproved: stats.totalApproved,
+      totalDenied: stats.totalDenied,
+      lastReviewDate: now,
+      updatedAt: now
+    };
+    const notice = {
+      providerName: profile.providerName,
+      serviceCode: eligibility.serviceCode,
+      serviceName: eligibility.serviceName,
+      rule: {
+        id: rule.id,
+        name: rule.name,
+        requiredApprovalRate: rule.requiredApprovalRate,
+        minAuthRequests: rule.minAuthRequests,
+        evaluationPeriodMonths: rule.evaluationPeriodMonths
+      },
+      stats,
+      criteriaFailures: criteria.failures
+    };
+
+    if (passing) {
+      const recovered = !!eligibility.gracePeriodEndDate;
+
+      if (!lapsed && !recovered) {
+        await db.update(goldcardEligibility)
+          .set(statsUpdate)
+          .where(eq(goldcardEligibility.id, eligibility.id));
+        return 'UNCHANGED';
+      }
+
+      const endDate = lapsed ? this.calculateEndDate(rule.reviewFrequency, now) : eligibility.endDate;
+      await db.update(goldcardEligibility)
+        .set({ ...statsUpdate, endDate, gracePeriodEndDate: null })
+        .where(eq(goldcardEligibility.id, eligibility.id));
+
+      const reason = lapsed
+        ? `Renewed based on rule: ${rule.name}`
+        : `Provider met rule ${rule.name} again during grace period`;
+      await this.recordEvent({
+        providerProfileId: profile.id,
+        eligibilityId: eligibility.id,
+        eventType: 'RENEWED',
+        serviceCode: eligibility.serviceCode,
+        serviceName: eligibility.serviceName,
+        reason,
+        details: { ...notice, endDate, gracePeriodCleared: recovered }
+      });
+      await goldcardWebhooks.renewed(profile.providerId, { ...notice, reason, endDate });
+      return 'RENEWED';
+    }
+
+    const reason = meetsApprovalRate
+      ? `Rule criteria not met: ${criteria.failures.map(failure => failure.explanation).join('; ')}`
+      : `Approval rate ${stats.approvalRate}% is below the required ${rule.requiredApprovalRate}%`;
+
+    if (lapsed) {
+      await db.update(goldcardEligibility)
+        .set(statsUpdate)
+        .where(eq(goldcardEligibility.id, eligibility.id));
+      await this.expireEligibility(eligibility, profile, now, reason, notice);
+      return 'EXPIRED';
+    }
+
+    if (!eligibility.gracePeriodEndDate) {
+      const gracePeriodEndDate = new Date(now.getTime() + rule.gracePeriodDays * 24 * 60 * 60 * 1000);
+      await db.update(goldcardEligibility)
+        .set({ ...statsUpdate, gracePeriodEndDate, reviewNotes: reason })
+        .where(eq(goldcardEligibility.id, eligibility.id));
+
+      await this.recordEvent({
+        providerProfileId: profile.id,
+        eligibilityId: eligibility.id,
+        eventType: 'GRACE_PERIOD_STARTED',
+        serviceCode: eligibility.serviceCode,
+        serviceName: eligibility.serviceName,
+        reason,
+        details: { ...notice, gracePeriodEndDate }
+      });
+      await goldcardWebhooks.gracePeriodStarted(profile.providerId, { ...notice, reason, gracePeriodEndDate });
+      return 'GRACE_PERIOD_STARTED';
+    }
+
+    if (new Date(eligibility.gracePeriodEndDate) > now) {
+      await db.update(goldcardEligibility)
+        .set(statsUpdate)
+        .where(eq(goldcardEligibility.id, eligibility.id));
+      return 'UNCHANGED';
+    }
+
+    await db.update(goldcardEligibility)
+      .set({
+        ...statsUpdate,
+        status: 'revoked',
+        endDate: now,
+        gracePeriodEndDate: null,
+        revocationReason: reason
+      })
+      .where(eq(goldcardEligibility.id, eligibility.id));
+
+    await this.recordEvent({
+      providerProfileId: profile.id,
+      eligibilityId: eligibility.id,
+      eventType: 'REVOKED',
+      serviceCode: eligibility.serviceCode,
+      serviceName: eligibility.serviceName,
+      reason,
+      details: { ...notice, gracePeriodEndDate: eligibility.gracePeriodEndDate }
+    });
+    await goldcardWebhooks.revoked(profile.providerId, { ...notice, reason });
+    return 'REVOKED';
+  }
+
+  /**
+   * Mark a lapsed eligibility as expired, record it and notify the provider
+   */
+  private async expireEligibility(
+    eligibility: GoldcardEligibility,
+    profile: GoldcardProviderProfile,
+    now: Date,
+    reason: string,
+    notice: Record<string, any> = {}
+  ): Promise<void> {
+    await db.update(goldcardEligibility)
+      .set({
+        status: 'expired',
+        gracePeriodEndDate: null,
+        reviewNotes: reason,
+        lastReviewDate: now,
+        updatedAt: now
+      })
+      .where(eq(goldcardEligibility.id, eligibility.id));
+
+    await this.recordEvent({
+      providerProfileId: profile.id,
+      eligibilityId: eligibility.id,
+      eventType: 'EXPIRED',
+      serviceCode: eligibility.serviceCode,
+      serviceName: eligibility.serviceName,
+      reason,
+      details: { ...notice, endDate: eligibility.endDate }
+    });
+    await goldcardWebhooks.expired(profile.providerId, {
+      providerName: profile.providerName,
+      serviceCode: eligibility.serviceCode,
+      serviceName: eligibility.serviceName,
+      ...notice,
+      reason,
+      endDate: eligibility.endDate
+    });
+  }
+
+  /**
+   * Whether an eligibility needs re-evaluation now
+   */
+  private isDueForReview(
+    eligibility: GoldcardEligibility,
+    profile: GoldcardProviderProfile,
+    now: Date
+  ): boolean {
+    if (eligibility.endDate && new Date(eligibility.endDate) <= now) {
+      return true;
+    }
+    if (eligibility.gracePeriodEndDate && new Date(eligibility.gracePeriodEndDate) <= now) {
+      return true;
+    }
+    if (!eligibility.lastReviewDate) {
+      return true;
+    }
+
+    const nextReview = this.calculateEndDate(profile.evaluationFrequency || 'monthly', new Date(eligibility.lastReviewDate));
+    return nextReview <= now;
+  }
+
   /**
    * Get a provider's profile, creating it if it doesn't exist
    */
@@ -397,12 +846,12 @@ export class GoldcardingService {
   private async getProviderServiceStats(
     providerId: string, 
     serviceCode: string, 
-    months: number
+    months: number,
+    now: Date
   ): Promise<{ approvalRate: number; totalAuthRequests: number; totalApproved: number; totalDenied: number }> {
     try {
       // Calculate the date X months ago
-      const startDate = new Date();
-      startDate.setMonth(startDate.getMonth() - months);
+      const startDate = this.monthsAgo(months, now);
       
       // Get all prior auth records for this provider and service within the timeframe
       const authRecords = await db.select()
@@ -438,6 +887,89 @@ export class GoldcardingService {
     }
   }
 
+  /**
+   * Provider facts for evaluating a rule's additionalCriteria.
+   * Specialty and facility type come from the provider profile's metadataJson;
+   * periods are counted back from the time of the evaluation.
+   */
+  private criteriaFacts(profile: GoldcardProviderProfile, serviceCode: string, now: Date): GoldcardCriteriaFacts {
+    const metadata = (profile.metadataJson ?? {}) as Record<string, any>;
+
+    return {
+      metric: async (metric, periodMonths) => {
+        if (metric === 'approval_rate' || metric === 'auth_requests') {
+          const stats = await this.getProviderServiceStats(profile.providerId, serviceCode, periodMonths, now);
+          if (metric === 'auth_requests') return stats.totalAuthRequests;
+          return stats.totalAuthRequests > 0 ? stats.approvalRate : null;
+        }
+
+        const claims = await this.getProviderClaimStats(profile.providerId, serviceCode, periodMonths, now);
+        if (metric === 'claims') return claims.totalClaims;
+        return claims.totalClaims > 0 ? claims.accuracyRate : null;
+      },
+      attribute: attribute => attribute === 'specialty' ? metadata.specialty : metadata.facilityType,
+      denials: async (reason, periodMonths) => {
+        const startDate = this.monthsAgo(periodMonths, now);
+
+        const [authDenials, claimDenials] = await Promise.all([
+          db.select({ comments: goldcardPriorAuthTracker.comments })
+            .from(goldcardPriorAuthTracker)
+            .where(and(
+              eq(goldcardPriorAuthTracker.providerId, profile.providerId),
+              eq(goldcardPriorAuthTracker.serviceCode, serviceCode),
+              eq(goldcardPriorAuthTracker.outcome, 'denied'),
+              gte(goldcardPriorAuthTracker.requestedDate, startDate)
+            )),
+          db.select({ denialReason: goldcardClaimTracker.denialReason })
+            .from(goldcardClaimTracker)
+            .where(and(
+              eq(goldcardClaimTracker.providerId, profile.providerId),
+              eq(goldcardClaimTracker.serviceCode, serviceCode),
+              eq(goldcardClaimTracker.claimStatus, 'denied'),
+              gte(goldcardClaimTracker.dateOfService, startDate)
+            ))
+        ]);
+
+        return authDenials.filter(record => matchesDenialReason(reason, record.comments)).length
+          + claimDenials.filter(record => matchesDenialReason(reason, record.denialReason)).length;
+      }
+    };
+  }
+
+  /**
+   * Get provider's claim stats for a service
+   */
+  private async getProviderClaimStats(
+    providerId: string,
+    serviceCode: string,
+    months: number,
+    now: Date
+  ): Promise<{ accuracyRate: number; totalClaims: number; totalPaid: number; totalDenied: number }> {
+    const claims = await db.select({ claimStatus: goldcardClaimTracker.claimStatus })
+      .from(goldcardClaimTracker)
+      .where(and(
+        eq(goldcardClaimTracker.providerId, providerId),
+        eq(goldcardClaimTracker.serviceCode, serviceCode),
+        gte(goldcardClaimTracker.dateOfService, this.monthsAgo(months, now))
+      ));
+
+    const totalClaims = claims.length;
+    const totalPaid = claims.filter(claim => claim.claimStatus === 'paid').length;
+
+    return {
+      accuracyRate: totalClaims > 0 ? Math.round((totalPaid / totalClaims) * 100) : 0,
+      totalClaims,
+      totalPaid,
+      totalDenied: totalClaims - totalPaid
+    };
+  }
+
+  private monthsAgo(months: number, now: Date): Date {
+    const date = new Date(now);
+    date.setMonth(date.getMonth() - months);
+    return date;
+  }
+
   /**
    * Update provider's stats after a new prior auth decision
    */
@@ -639,8 +1171,8 @@ export class GoldcardingService {
   /**
    * Calculate end date based on review frequency
    */
-  private calculateEndDate(reviewFrequency: string): Date {
-    const endDate = new Date();
+  private calculateEndDate(reviewFrequency: string, from: Date = new Date()): Date {
+    const endDate = new Date(from);
     
     switch (reviewFrequency.toLowerCase()) {
       case 'monthly':
@@ -925,6 +1457,32 @@ async function initGoldcardingTables() {
       );
     `;
     
+    // Columns used by re-evaluation, grace periods and rule criteria. CREATE TABLE
+    // IF NOT EXISTS leaves tables from earlier versions as they are, so add them here.
+    await sql`
+      ALTER TABLE goldcard_provider_profiles
+        ADD COLUMN IF NOT EXISTS metadata_json JSONB,
+        ADD COLUMN IF NOT EXISTS last_evaluation_date TIMESTAMP WITH TIME ZONE,
+        ADD COLUMN IF NOT EXISTS evaluation_frequency TEXT DEFAULT 'monthly';
+    `;
+    
+    await sql`
+      ALTER TABLE goldcard_eligibility
+        ADD COLUMN IF NOT EXISTS last_review_date TIMESTAMP WITH TIME ZONE,
+        ADD COLUMN IF NOT EXISTS review_notes TEXT,
+        ADD COLUMN IF NOT EXISTS revocation_reason TEXT,
+        ADD COLUMN IF NOT EXISTS grace_period_end_date TIMESTAMP WITH TIME ZONE,
+        ADD COLUMN IF NOT EXISTS claim_accuracy_rate INTEGER,
+        ADD COLUMN IF NOT EXISTS metadata_json JSONB;
+    `;
+    
+    await sql`
+      ALTER TABLE goldcard_rules
+        ADD COLUMN IF NOT EXISTS grace_period_days INTEGER NOT NULL DEFAULT 30,
+        ADD COLUMN IF NOT EXISTS additional_criteria JSONB,
+        ADD COLUMN IF NOT EXISTS organization_id TEXT;
+    `;
+    
     logger.info('Goldcarding database tables initialized successfully');
     
     // Close the connection
@@ -0,0 +1,490 @@
+/**
+ * Smart Health Hub - Incentive Engine Service
+ *
+ * Awards incentive points automatically. Whenever a wellness activity is
+ * recorded (from the app or a vendor sync) or invalidated, every active
+ * incentive rule of the employee's employer whose requirement the activity
+ * concerns is re-evaluated. Evaluation reconciles the occurrences the employee
+ * has earned with the awards already made: missing occurrences are awarded,
+ * up to the rule's maxOccurrences, and awards that are no longer earned are
+ * reversed. Re-running an evaluation therefore never awards twice.
+ *
+ * Recording, evaluating and awarding all run with the employee's row locked,
+ * so concurrent activities for an employee are evaluated one after the other
+ * and cannot both fill the last place under a cap.
+ */
+
+import { eq, and, or, ne, inArray, isNull, isNotNull, gte, lte, asc } from 'drizzle-orm';
+import { db } from '../../db';
+import logger from '../../utils/logger';
+import {
+  employees,
+  programContents,
+  programEnrollments,
+  wellnessActivities,
+  incentiveRules,
+  incentiveAwards,
+  vendorActivitySync,
+  employeeVendorAccounts,
+  type Employee,
+  type IncentiveAward,
+  type IncentiveRequirement,
+  type IncentiveRule,
+  type InsertWellnessActivity,
+  type WellnessActivity
+} from '../../../shared/employer-schema';
+import {
+  COUNTED_ACTIVITY_STATUSES,
+  capOccurrences,
+  earnedOccurrences,
+  parseIncentiveRequirement,
+  requirementActivityTypes,
+  requirementConcerns,
+  IncentiveRuleError,
+  type RuleActivity
+} from './incentive-rules';
+import { walletLedgerService } from './wallet-ledger-service';
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Awards made and reversed by an evaluation
+ */
+export interface IncentiveEvaluation {
+  awarded: IncentiveAward[];
+  reversed: IncentiveAward[];
+}
+
+/**
+ * Outcome of processing vendor activity syncs
+ */
+export interface VendorSyncProcessingResult {
+  processed: number;
+  failed: number;
+}
+
+/**
+ * Incentive Engine Service
+ */
+export class IncentiveEngineService {
+
+  /**
+   * Record a wellness activity and evaluate the incentive rules it concerns.
+   * An activity from a source already recorded (and not invalidated) is not
+   * recorded again; the existing one is returned with an empty evaluation.
+   */
+  async recordActivity(data: InsertWellnessActivity): Promise<{ activity: WellnessActivity; evaluation: IncentiveEvaluation; duplicate: boolean }> {
+    try {
+      const recorded = await db.transaction(async (tx) => {
+        await this.lockEmployee(tx, data.employeeId);
+
+        if (data.sourceId) {
+          const [existing] = await tx
+            .select()
+            .from(wellnessActivities)
+            .where(
+              and(
+                eq(wellnessActivities.employeeId, data.employeeId),
+                data.sourceType ? eq(wellnessActivities.sourceType, data.sourceType) : isNull(wellnessActivities.sourceType),
+                eq(wellnessActivities.sourceId, data.sourceId),
+                ne(wellnessActivities.status, 'invalidated')
+              )
+            );
+          if (existing) {
+            return { activity: existing, evaluation: { awarded: [], reversed: [] }, duplicate: true };
+          }
+        }
+
+        const [activity] = await tx
+          .insert(wellnessActivities)
+          .values({ ...data, createdAt: new Date() })
+          .returning();
+
+        if (!activity) {
+          throw new Error('Failed to record wellness activity');
+        }
+
+        const evaluation = await this.evaluateActivityLocked(tx, activity);
+        return { activity, evaluation, duplicate: false };
+      });
+
+      if (recorded.duplicate) {
+        logger.info(`Wellness activity from ${data.sourceType} ${data.sourceId} is already recorded as ${recorded.activity.id}`);
+      } else {
+        logger.info(`Recorded wellness activity ${recorded.activity.id} (${recorded.activity.activityType}) for employee ${recorded.activity.employeeId}`);
+      }
+      return recorded;
+    } catch (error) {
+      logger.error('Error recording wellness activity:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Invalidate an activity (e.g. a rejected screening or a vendor correction)
+   * and reverse the awards it no longer supports
+   */
+  async invalidateActivity(
+    activityId: string,
+    reason: string,
+    invalidatedBy?: string
+  ): Promise<{ activity: WellnessActivity; evaluation: IncentiveEvaluation } | undefined> {
+    try {
+      const [found] = await db.select().from(wellnessActivities).where(eq(wellnessActivities.id, activityId));
+      if (!found) {
+        return undefined;
+      }
+
+      // Invalidate and reverse in one transaction under the employee's lock,
+      // so no evaluation sees the activity invalidated but its awards standing
+      const { activity, evaluation } = await db.transaction(async (tx) => {
+        await this.lockEmployee(tx, found.employeeId);
+
+        // Read again under the lock, in case a concurrent request invalidated it first
+        const [existing] = await tx.select().from(wellnessActivities).where(eq(wellnessActivities.id, activityId));
+        if (existing.status === 'invalidated') {
+          throw new Error(`Wellness activity ${activityId} is already invalidated`);
+        }
+
+        const now = new Date();
+        const [activity] = await tx
+          .update(wellnessActivities)
+          .set({
+            status: 'invalidated',
+            pointsEarned: 0,
+            verificationData: {
+              ...((existing.verificationData as Record<string, unknown> | null) || {}),
+              invalidation: { reason, invalidatedBy, invalidatedAt: now.toISOString(), previousStatus: existing.status }
+            },
+            updatedAt: now
+          })
+          .where(eq(wellnessActivities.id, activityId))
+          .returning();
+
+        const evaluation = await this.evaluateActivityLocked(tx, activity, `Activity invalidated: ${reason}`);
+        return { activity, evaluation };
+      });
+
+      logger.info(`Invalidated wellness activity ${activityId}; reversed ${evaluation.reversed.length} awards`);
+      return { activity, evaluation };
+    } catch (error) {
+      logger.error(`Error invalidating wellness activity ${activityId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Evaluate the rules an activity concerns for its employee
+   */
+  async evaluateActivity(activity: WellnessActivity, reversalReason?: string): Promise<IncentiveEvaluation> {
+    return await db.transaction(async (tx) => {
+      await this.lockEmployee(tx, activity.employeeId);
+      return this.evaluateActivityLocked(tx, activity, reversalReason);
+    });
+  }
+
+  /**
+   * Evaluate every automatic rule for an employee, e.g. after rules change
+   */
+  async evaluateEmployee(employeeId: string): Promise<IncentiveEvaluation> {
+    try {
+      const employee = await this.getEmployee(employeeId);
+      const rules = await this.applicableRules(employee);
+
+      return await db.transaction(async (tx) => {
+        await this.lockEmployee(tx, employee.id);
+
+        const evaluation: IncentiveEvaluation = { awarded: [], reversed: [] };
+        for (const { rule, requirement } of rules) {
+          const result = await this.reconcileRule(tx, rule, requirement, employee.id, 'Requirement no longer met');
+          evaluation.awarded.push(...result.awarded);
+          evaluation.reversed.push(...result.reversed);
+        }
+
+        return evaluation;
+      });
+    } catch (error) {
+      logger.error(`Error evaluating incentive rules for employee ${employeeId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Turn pending vendor activity syncs into wellness activities and evaluate them.
+   * A sync's processedData may carry the activityType (defaulting to its dataType)
+   * and activityData (defaulting to the processed data itself).
+   */
+  async processVendorActivitySyncs(limit: number = 500): Promise<VendorSyncProcessingResult> {
+    const pending = await db
+      .select({ sync: vendorActivitySync, employeeId: employeeVendorAccounts.employeeId })
+      .from(vendorActivitySync)
+      .innerJoin(employeeVendorAccounts, eq(employeeVendorAccounts.id, vendorActivitySync.employeeVendorAccountId))
+      .where(and(eq(vendorActivitySync.status, 'pending'), isNull(vendorActivitySync.activityId)))
+      .orderBy(asc(vendorActivitySync.activityDate))
+      .limit(limit);
+
+    const result: VendorSyncProcessingResult = { processed: 0, failed: 0 };
+    for (const { sync, employeeId } of pending) {
+      // Claim the sync so a concurrent run does not record it twice
+      const [claimed] = await db
+        .update(vendorActivitySync)
+        .set({ status: 'processing', updatedAt: new Date() })
+        .where(and(eq(vendorActivitySync.id, sync.id), eq(vendorActivitySync.status, 'pending')))
+        .returning({ id: vendorActivitySync.id });
+      if (!claimed) {
+        continue;
+      }
+
+      try {
+        const processed = (sync.processedData as Record<string, any> | null) || {};
+        const { activity } = await this.recordActivity({
+          employeeId,
+          activityType: processed.activityType || sync.dataType,
+          activityDate: sync.activityDate,
+          status: processed.verified ? 'verified' : 'completed',
+          activityData: processed.activityData || processed,
+          sourceType: 'integration',
+          sourceId: sync.id
+        });
+
+        await db
+          .update(vendorActivitySync)
+          .set({ status: 'processed', activityId: activity.id, processedAt: new Date(), updatedAt: new Date() })
+          .where(eq(vendorActivitySync.id, sync.id));
+        result.processed++;
+      } catch (error) {
+        logger.error(`Error processing vendor activity sync ${sync.id}:`, error);
+        await db
+          .update(vendorActivitySync)
+          .set({ status: 'failed', processedAt: new Date(), errorDetails: { message: (error as Error).message }, updatedAt: new Date() })
+          .where(eq(vendorActivitySync.id, sync.id));
+        result.failed++;
+      }
+    }
+
+    if (pending.length > 0) {
+      logger.info('Processed vendor activity syncs', result);
+    }
+    return result;
+  }
+
+  /**
+   * Evaluate the rules an activity concerns, with its employee locked
+   */
+  private async evaluateActivityLocked(
+    tx: DbTransaction,
+    activity: WellnessActivity,
+    reversalReason?: string
+  ): Promise<IncentiveEvaluation> {
+    const employee = await this.getEmployee(activity.employeeId);
+    const rules = await this.applicableRules(employee);
+
+    const evaluation: IncentiveEvaluation = { awarded: [], reversed: [] };
+    for (const { rule, requirement } of rules) {
+      if (!requirementConcerns(requirement, activity)) {
+        continue;
+      }
+      // Program rules only see activities for that program, or for no program
+      if (rule.programId && activity.programId && activity.programId !== rule.programId) {
+        continue;
+      }
+
+      const result = await this.reconcileRule(tx, rule, requirement, employee.id, reversalReason);
+      evaluation.awarded.push(...result.awarded);
+      evaluation.reversed.push(...result.reversed);
+    }
+
+    return evaluation;
+  }
+
+  /**
+   * Bring an employee's awards for a rule in line with the occurrences earned.
+   * The caller holds the employee's lock, so concurrent evaluations cannot
+   * both award the same occurrence.
+   */
+  private async reconcileRule(
+    tx: DbTransaction,
+    rule: IncentiveRule,
+    requirement: IncentiveRequirement,
+    employeeId: string,
+    reversalReason: string = 'Requirement no longer met'
+  ): Promise<IncentiveEvaluation> {
+    const activities = await this.ruleActivities(tx, rule, requirement, employeeId);
+    const contentIds = requirement.type === 'content_completion' && !requirement.contentIds && rule.programId
+      ? (await tx.select({ id: programContents.id }).from(programContents).where(eq(programContents.programId, rule.programId)))
+        .map(content => content.id)
+      : [];
+
+    const standing = await tx
+      .select()
+      .from(incentiveAwards)
+      .where(
+        and(
+          eq(incentiveAwards.incentiveRuleId, rule.id),
+          eq(incentiveAwards.employeeId, employeeId),
+          eq(incentiveAwards.status, 'awarded')
+        )
+      );
+    // Manual awards are kept, but count towards the cap
+    const manualAwards = standing.filter(award => !award.occurrenceKey).length;
+    const engineAwards = new Map(standing.filter(award => award.occurrenceKey).map(award => [award.occurrenceKey!, award]));
+
+    const earned = capOccurrences(earnedOccurrences(requirement, activities, contentIds), rule.maxOccurrences, manualAwards);
+    const earnedKeys = new Set(earned.map(occurrence => occurrence.key));
+
+    const now = new Date();
+    const evaluation: IncentiveEvaluation = { awarded: [], reversed: [] };
+
+    for (const [key, award] of engineAwards) {
+      if (earnedKeys.has(key)) {
+        continue;
+      }
+
+      const [reversed] = await tx
+        .update(incentiveAwards)
+        .set({ status: 'reversed', reversedAt: now, reversalReason, updatedAt: now })
+        .where(eq(incentiveAwards.id, award.id))
+        .returning();
+      await walletLedgerService.postReversal(tx, {
+        employeeId,
+        points: award.pointsAwarded,
+        awardId: award.id,
+        description: `Points reversed for ${rule.name}: ${reversalReason}`
+      });
+      evaluation.reversed.push(reversed);
+    }
+
+    for (const occurrence of earned) {
+      if (engineAwards.has(occurrence.key)) {
+        continue;
+      }
+
+      const [award] = await tx
+        .insert(incentiveAwards)
+        .values({
+          employeeId,
+          incentiveRuleId: rule.id,
+          activityId: occurrence.activityId,
+          programId: rule.programId,
+          awardDate: now,
+          pointsAwarded: rule.value,
+          status: 'awarded',
+          occurrenceKey: occurrence.key,
+          awardData: { period: occurrence.period, sequence: occurrence.sequence, earnedAt: occurrence.earnedAt.toISOString() },
+          createdAt: now
+        })
+        .returning();
+      await walletLedgerService.postAward(tx, {
+        employeeId,
+        points: rule.value,
+        awardId: award.id,
+        description: `Points awarded for ${rule.name}`
+      });
+      evaluation.awarded.push(award);
+    }
+
+    if (evaluation.awarded.length > 0 || evaluation.reversed.length > 0) {
+      logger.info(`Incentive rule ${rule.id} for employee ${employeeId}: awarded ${evaluation.awarded.length}, reversed ${evaluation.reversed.length}`);
+    }
+    return evaluation;
+  }
+
+  /**
+   * Counted activities in the rule's date range that its requirement could use
+   */
+  private async ruleActivities(
+    tx: DbTransaction,
+    rule: IncentiveRule,
+    requirement: IncentiveRequirement,
+    employeeId: string
+  ): Promise<RuleActivity[]> {
+    const activityTypes = requirementActivityTypes(requirement);
+
+    return await tx
+      .select({
+        id: wellnessActivities.id,
+        activityType: wellnessActivities.activityType,
+        activityDate: wellnessActivities.activityDate,
+        status: wellnessActivities.status,
+        contentId: wellnessActivities.contentId,
+        activityData: wellnessActivities.activityData
+      })
+      .from(wellnessActivities)
+      .where(
+        and(
+          eq(wellnessActivities.employeeId, employeeId),
+          inArray(wellnessActivities.status, COUNTED_ACTIVITY_STATUSES),
+          activityTypes ? inArray(wellnessActivities.activityType, activityTypes) : isNotNull(wellnessActivities.contentId),
+          rule.programId
+            ? or(isNull(wellnessActivities.programId), eq(wellnessActivities.programId, rule.programId))
+            : undefined,
+          rule.startDate ? gte(wellnessActivities.activityDate, rule.startDate) : undefined,
+          rule.endDate ? lte(wellnessActivities.activityDate, rule.endDate) : undefined
+        )
+      );
+  }
+
+  /**
+   * Active rules of the employee's employer with a requirement, limited to
+   * programs the employee is enrolled in. Rules with invalid requirement data
+   * are logged and skipped.
+   */
+  private async applicableRules(employee: Employee): Promise<{ rule: IncentiveRule; requirement: IncentiveRequirement }[]> {
+    const enrolledPrograms = db
+      .select({ programId: programEnrollments.programId })
+      .from(programEnrollments)
+      .where(eq(programEnrollments.employeeId, employee.id));
+
+    const rules = await db
+      .select()
+      .from(incentiveRules)
+      .where(
+        and(
+          eq(incentiveRules.employerId, employee.employerId),
+          eq(incentiveRules.active, true),
+          isNotNull(incentiveRules.requirementData),
+          or(isNull(incentiveRules.programId), inArray(incentiveRules.programId, enrolledPrograms))
+        )
+      );
+
+    const applicable: { rule: IncentiveRule; requirement: IncentiveRequirement }[] = [];
+    for (const rule of rules) {
+      try {
+        applicable.push({ rule, requirement: parseIncentiveRequirement(rule.requirementData) });
+      } catch (error) {
+        if (!(error instanceof IncentiveRuleError)) {
+          throw error;
+        }
+        logger.warn(`Skipping incentive rule ${rule.id} with invalid requirement data`, { issues: error.issues });
+      }
+    }
+    return applicable;
+  }
+
+  /**
+   * Lock an employee's row for the rest of the transaction. Everything that
+   * records activity or awards incentives for the employee takes this lock.
+   */
+  async lockEmployee(tx: DbTransaction, employeeId: string): Promise<void> {
+    const [employee] = await tx
+      .select({ id: employees.id })
+      .from(employees)
+      .where(eq(employees.id, employeeId))
+      .for('update'); // Lock the row
+
+    if (!employee) {
+      throw new Error(`Employee ${employeeId} not found`);
+    }
+  }
+
+  private async getEmployee(employeeId: string): Promise<Employee> {
+    const [employee] = await db.select().from(employees).where(eq(employees.id, employeeId));
+    if (!employee) {
+      throw new Error(`Employee ${employeeId} not found`);
+    }
+    return employee;
+  }
+}
+
+// Create and export the service instance
+export const incentiveEngineService = new IncentiveEngineService();
@@ -0,0 +1,170 @@
+import {
+  capOccurrences,
+  earnedOccurrences,
+  parseIncentiveRequirement,
+  periodKey,
+  requirementConcerns,
+  IncentiveRuleError,
+  type RuleActivity
+} from './incentive-rules';
+
+jest.mock('../../../shared/employer-schema', () => jest.requireActual('./employer-schema'), { virtual: true });
+
+const CONTENT_A = '9b2f6a3e-1c4d-4e8f-a1b2-000000000001';
+const CONTENT_B = '9b2f6a3e-1c4d-4e8f-a1b2-000000000002';
+
+let nextId = 0;
+const activity = (date: string, fields: Partial<RuleActivity> = {}): RuleActivity => ({
+  id: `activity-${String(++nextId).padStart(3, '0')}`,
+  activityType: 'steps',
+  activityDate: new Date(date),
+  status: 'completed',
+  contentId: null,
+  activityData: null,
+  ...fields
+});
+
+beforeEach(() => {
+  nextId = 0;
+});
+
+describe('parseIncentiveRequirement', () => {
+  it('fills in the defaults', () => {
+    expect(parseIncentiveRequirement({ type: 'activity_count', activity: { activityType: 'biometric_screening' } }))
+      .toEqual({ type: 'activity_count', activity: { activityType: 'biometric_screening' }, count: 1, period: 'all' });
+  });
+
+  it('lists what is wrong with invalid requirement data', () => {
+    expect(() => parseIncentiveRequirement({ type: 'daily_threshold', activityType: 'steps', threshold: -1, days: 20 }))
+      .toThrow(IncentiveRuleError);
+    try {
+      parseIncentiveRequirement({ type: 'daily_threshold', activityType: 'steps', threshold: -1, days: 20 });
+    } catch (error) {
+      expect((error as IncentiveRuleError).issues).toEqual([
+        expect.stringMatching(/^metric: /),
+        expect.stringMatching(/^threshold: /)
+      ]);
+    }
+  });
+});
+
+describe('earnedOccurrences', () => {
+  it('makes every `count` matching activities in a period an occurrence, completed by the last of them', () => {
+    const requirement = parseIncentiveRequirement({
+      type: 'activity_count',
+      activity: { activityType: 'gym_visit' },
+      count: 2,
+      period: 'month'
+    });
+    const activities = [
+      activity('2024-01-05T10:00:00Z', { activityType: 'gym_visit' }),
+      activity('2024-01-20T10:00:00Z', { activityType: 'gym_visit' }),
+      activity('2024-01-25T10:00:00Z', { activityType: 'gym_visit' }),
+      activity('2024-02-03T10:00:00Z', { activityType: 'gym_visit' }),
+      activity('2024-02-04T10:00:00Z', { activityType: 'gym_visit' }),
+      activity('2024-02-05T10:00:00Z', { activityType: 'steps' })
+    ];
+
+    expect(earnedOccurrences(requirement, activities).map(({ key, activityId }) => ({ key, activityId }))).toEqual([
+      { key: '2024-01#1', activityId: 'activity-002' },
+      { key: '2024-02#1', activityId: 'activity-005' }
+    ]);
+  });
+
+  it('counts only completed or verified activities that pass the filter', () => {
+    const requirement = parseIncentiveRequirement({
+      type: 'activity_count',
+      activity: { activityType: 'biometric_screening', verified: true, metric: 'score', min: 70 }
+    });
+    const activities = [
+      activity('2024-01-05T10:00:00Z', { activityType: 'biometric_screening', status: 'completed', activityData: { score: 90 } }),
+      activity('2024-01-06T10:00:00Z', { activityType: 'biometric_screening', status: 'verified', activityData: { score: 60 } }),
+      activity('2024-01-07T10:00:00Z', { activityType: 'biometric_screening', status: 'invalidated', activityData: { score: 95 } }),
+      activity('2024-01-08T10:00:00Z', { activityType: 'biometric_screening', status: 'verified', activityData: { score: '85' } })
+    ];
+
+    expect(earnedOccurrences(requirement, activities)).toEqual([
+      { key: 'all#1', period: 'all', sequence: 1, activityId: 'activity-004', earnedAt: new Date('2024-01-08T10:00:00Z') }
+    ]);
+  });
+
+  it('counts days whose total reaches a daily threshold, keyed by period and sequence', () => {
+    const requirement = parseIncentiveRequirement({
+      type: 'daily_threshold',
+      activityType: 'steps',
+      metric: 'steps',
+      threshold: 10000,
+      days: 2,
+      period: 'week'
+    });
+    const activities = [
+      // Monday 2024-01-08 reaches the threshold over two syncs
+      activity('2024-01-08T08:00:00Z', { activityData: { steps: 6000 } }),
+      activity('2024-01-08T20:00:00Z', { activityData: { steps: 5000 } }),
+      // Tuesday falls short
+      activity('2024-01-09T20:00:00Z', { activityData: { steps: 9000 } }),
+      activity('2024-01-10T20:00:00Z', { activityData: { steps: 12000 } }),
+      activity('2024-01-11T20:00:00Z', { activityData: { steps: 15000 } }),
+      activity('2024-01-12T20:00:00Z', { activityData: { steps: 10000 } }),
+      activity('2024-01-13T20:00:00Z', { activityData: { distance: 10000 } })
+    ];
+
+    expect(earnedOccurrences(requirement, activities).map(({ key, activityId }) => ({ key, activityId }))).toEqual([
+      { key: '2024-W02#1', activityId: 'activity-004' },
+      { key: '2024-W02#2', activityId: 'activity-006' }
+    ]);
+  });
+
+  it('completes content once every item has a counted activity, keyed all#1', () => {
+    const requirement = parseIncentiveRequirement({ type: 'content_completion' });
+    const activities = [
+      activity('2024-01-05T10:00:00Z', { activityType: 'content', contentId: CONTENT_A }),
+      activity('2024-01-06T10:00:00Z', { activityType: 'content', contentId: CONTENT_A }),
+      activity('2024-01-09T10:00:00Z', { activityType: 'content', contentId: CONTENT_B })
+    ];
+
+    expect(earnedOccurrences(requirement, activities.slice(0, 2), [CONTENT_A, CONTENT_B])).toEqual([]);
+    expect(earnedOccurrences(requirement, activities, [CONTENT_A, CONTENT_B])).toEqual([
+      { key: 'all#1', period: 'all', sequence: 1, activityId: 'activity-003', earnedAt: new Date('2024-01-09T10:00:00Z') }
+    ]);
+  });
+
+  it('uses the content items the requirement lists over the program content', () => {
+    const requirement = parseIncentiveRequirement({ type: 'content_completion', contentIds: [CONTENT_A] });
+    const activities = [activity('2024-01-05T10:00:00Z', { activityType: 'content', contentId: CONTENT_A })];
+
+    expect(earnedOccurrences(requirement, activities, [CONTENT_A, CONTENT_B])).toHaveLength(1);
+    expect(requirementConcerns(requirement, { activityType: 'content', contentId: CONTENT_B })).toBe(false);
+  });
+});
+
+describe('periodKey', () => {
+  it('labels calendar periods in UTC, with ISO weeks', () => {
+    const date = new Date('2024-12-30T23:30:00Z');
+    expect(periodKey(date, 'day')).toBe('2024-12-30');
+    expect(periodKey(date, 'week')).toBe('2025-W01');
+    expect(periodKey(date, 'month')).toBe('2024-12');
+    expect(periodKey(date, 'quarter')).toBe('2024-Q4');
+    expect(periodKey(date, 'year')).toBe('2024');
+    expect(periodKey(date, 'all')).toBe('all');
+  });
+});
+
+describe('capOccurrences', () => {
+  const requirement = parseIncentiveRequirement({ type: 'activity_count', activity: { activityType: 'gym_visit' }, period: 'month' });
+  const earned = () => earnedOccurrences(requirement, [
+    activity('2024-01-05T10:00:00Z', { activityType: 'gym_visit' }),
+    activity('2024-02-05T10:00:00Z', { activityType: 'gym_visit' }),
+    activity('2024-03-05T10:00:00Z', { activityType: 'gym_visit' })
+  ]);
+
+  it('keeps every occurrence without a limit', () => {
+    expect(capOccurrences(earned(), null)).toHaveLength(3);
+  });
+
+  it('keeps the earliest occurrences up to the limit, less the awards made by hand', () => {
+    expect(capOccurrences(earned(), 2).map(occurrence => occurrence.key)).toEqual(['2024-01#1', '2024-02#1']);
+    expect(capOccurrences(earned(), 2, 1).map(occurrence => occurrence.key)).toEqual(['2024-01#1']);
+    expect(capOccurrences(earned(), 2, 3)).toEqual([]);
+  });
+});
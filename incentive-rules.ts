@@ -0,0 +1,291 @@
+/**
+ * Smart Health Hub - Incentive Rules
+ *
+ * Evaluation of incentive requirements (see incentiveRequirementSchema) against
+ * an employee's wellness activities. Evaluation yields the occurrences the
+ * employee has earned, oldest first, each keyed by its period and sequence so
+ * that the rule engine can award them idempotently and reverse any that are
+ * no longer earned.
+ */
+
+import {
+  incentiveRequirementSchema,
+  type IncentiveActivityFilter,
+  type IncentivePeriod,
+  type IncentiveRequirement
+} from '../../../shared/employer-schema';
+
+// Activity statuses that count towards requirements
+export const COUNTED_ACTIVITY_STATUSES = ['completed', 'verified'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class IncentiveRuleError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(message);
+    this.name = 'IncentiveRuleError';
+  }
+}
+
+/**
+ * The parts of a wellness activity that requirements are evaluated against
+ */
+export interface RuleActivity {
+  id: string;
+  activityType: string;
+  activityDate: Date;
+  status: string;
+  contentId: string | null;
+  activityData: unknown;
+}
+
+/**
+ * An occurrence of a requirement that the employee has earned
+ */
+export interface EarnedOccurrence {
+  key: string; // "<period>#<sequence>", e.g. "2026-10#1"
+  period: string;
+  sequence: number;
+  activityId: string; // Activity that completed the occurrence
+  earnedAt: Date;
+}
+
+/**
+ * Parse stored requirement data, throwing an IncentiveRuleError listing what is wrong
+ */
+export function parseIncentiveRequirement(data: unknown): IncentiveRequirement {
+  const result = incentiveRequirementSchema.safeParse(data);
+  if (!result.success) {
+    throw new IncentiveRuleError(
+      'Invalid incentive requirement',
+      result.error.errors.map(issue => `${issue.path.join('.') || 'requirement'}: ${issue.message}`)
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Activity types a requirement counts, or null if it depends on program content instead
+ */
+export function requirementActivityTypes(requirement: IncentiveRequirement): string[] | null {
+  switch (requirement.type) {
+    case 'activity_count':
+      return [requirement.activity.activityType];
+    case 'daily_threshold':
+      return [requirement.activityType];
+    case 'content_completion':
+      return null;
+  }
+}
+
+/**
+ * Whether a change to this activity can change what the requirement has earned
+ */
+export function requirementConcerns(requirement: IncentiveRequirement, activity: Pick<RuleActivity, 'activityType' | 'contentId'>): boolean {
+  const activityTypes = requirementActivityTypes(requirement);
+  if (activityTypes) {
+    return activityTypes.includes(activity.activityType);
+  }
+  return activity.contentId !== null &&
+    (requirement.type !== 'content_completion' || !requirement.contentIds || requirement.contentIds.includes(activity.contentId));
+}
+
+/**
+ * The occurrences earned by the activities, oldest first. contentIds are the
+ * content items of the rule's program, for content_completion requirements
+ * that do not list their own.
+ */
+export function earnedOccurrences(
+  requirement: IncentiveRequirement,
+  activities: RuleActivity[],
+  contentIds: string[] = []
+): EarnedOccurrence[] {
+  const counted = activities
+    .filter(activity => COUNTED_ACTIVITY_STATUSES.includes(activity.status))
+    .sort(byDate);
+
+  let occurrences: EarnedOccurrence[];
+  switch (requirement.type) {
+    case 'activity_count':
+      occurrences = countOccurrences(
+        counted
+          .filter(activity => matchesFilter(activity, requirement.activity))
+          .map(activity => ({ activity, date: activity.activityDate })),
+        requirement.count,
+        requirement.period
+      );
+      break;
+    case 'daily_threshold':
+      occurrences = countOccurrences(
+        qualifyingDays(counted.filter(activity => activity.activityType === requirement.activityType), requirement.metric, requirement.threshold),
+        requirement.days,
+        requirement.period
+      );
+      break;
+    case 'content_completion':
+      occurrences = contentCompletion(counted, requirement.contentIds ?? contentIds);
+      break;
+  }
+
+  return occurrences.sort((a, b) => a.earnedAt.getTime() - b.earnedAt.getTime() || a.key.localeCompare(b.key));
+}
+
+/**
+ * The earliest occurrences that fit under a rule's maxOccurrences (null for
+ * no limit), after the awards already made by hand
+ */
+export function capOccurrences(
+  occurrences: EarnedOccurrence[],
+  maxOccurrences: number | null | undefined,
+  manualAwards: number = 0
+): EarnedOccurrence[] {
+  if (maxOccurrences === null || maxOccurrences === undefined) {
+    return occurrences;
+  }
+  return occurrences.slice(0, Math.max(maxOccurrences - manualAwards, 0));
+}
+
+/**
+ * Label of the calendar period (UTC) a date falls in
+ */
+export function periodKey(date: Date, period: IncentivePeriod): string {
+  const iso = date.toISOString();
+  switch (period) {
+    case 'day':
+      return iso.slice(0, 10);
+    case 'week':
+      return isoWeek(date);
+    case 'month':
+      return iso.slice(0, 7);
+    case 'quarter':
+      return `${date.getUTCFullYear()}-Q${Math.floor(date.getUTCMonth() / 3) + 1}`;
+    case 'year':
+      return String(date.getUTCFullYear());
+    case 'all':
+      return 'all';
+  }
+}
+
+/**
+ * Every `perOccurrence` items in a period make an occurrence, completed by the last of them
+ */
+function countOccurrences(
+  items: { activity: RuleActivity; date: Date }[],
+  perOccurrence: number,
+  period: IncentivePeriod
+): EarnedOccurrence[] {
+  const byPeriod = new Map<string, { activity: RuleActivity; date: Date }[]>();
+  for (const item of items) {
+    const key = periodKey(item.date, period);
+    byPeriod.set(key, [...(byPeriod.get(key) || []), item]);
+  }
+
+  const occurrences: EarnedOccurrence[] = [];
+  for (const [key, periodItems] of byPeriod) {
+    for (let sequence = 1; sequence * perOccurrence <= periodItems.length; sequence++) {
+      const completing = periodItems[sequence * perOccurrence - 1];
+      occurrences.push({
+        key: `${key}#${sequence}`,
+        period: key,
+        sequence,
+        activityId: completing.activity.id,
+        earnedAt: completing.activity.activityDate
+      });
+    }
+  }
+  return occurrences;
+}
+
+/**
+ * Days (UTC) whose total of the metric reaches the threshold, each with the
+ * activity that reached it
+ */
+function qualifyingDays(activities: RuleActivity[], metric: string, threshold: number): { activity: RuleActivity; date: Date }[] {
+  const totals = new Map<string, { total: number; reachedBy?: RuleActivity }>();
+  for (const activity of activities) {
+    const value = metricValue(activity.activityData, metric);
+    if (value === null) {
+      continue;
+    }
+
+    const day = periodKey(activity.activityDate, 'day');
+    const entry = totals.get(day) || { total: 0 };
+    entry.total += value;
+    if (!entry.reachedBy && entry.total >= threshold) {
+      entry.reachedBy = activity;
+    }
+    totals.set(day, entry);
+  }
+
+  return Array.from(totals.entries())
+    .filter(([, entry]) => entry.reachedBy)
+    .map(([day, entry]) => ({ activity: entry.reachedBy!, date: new Date(`${day}T00:00:00Z`) }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * One occurrence once every content item has a counted activity, completed by
+ * the item finished last
+ */
+function contentCompletion(activities: RuleActivity[], contentIds: string[]): EarnedOccurrence[] {
+  if (contentIds.length === 0) {
+    return [];
+  }
+
+  const firstCompletions = new Map<string, RuleActivity>();
+  for (const activity of activities) {
+    if (activity.contentId && contentIds.includes(activity.contentId) && !firstCompletions.has(activity.contentId)) {
+      firstCompletions.set(activity.contentId, activity);
+    }
+  }
+  if (firstCompletions.size < new Set(contentIds).size) {
+    return [];
+  }
+
+  const completing = Array.from(firstCompletions.values()).sort(byDate).pop()!;
+  return [{ key: 'all#1', period: 'all', sequence: 1, activityId: completing.id, earnedAt: completing.activityDate }];
+}
+
+function matchesFilter(activity: RuleActivity, filter: IncentiveActivityFilter): boolean {
+  if (activity.activityType !== filter.activityType) {
+    return false;
+  }
+  if (filter.verified && activity.status !== 'verified') {
+    return false;
+  }
+  if (filter.metric !== undefined) {
+    const value = metricValue(activity.activityData, filter.metric);
+    if (value === null || (filter.min !== undefined && value < filter.min)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Read a numeric field of activity data, null if missing or not a number
+ */
+function metricValue(activityData: unknown, metric: string): number | null {
+  if (!activityData || typeof activityData !== 'object') {
+    return null;
+  }
+  const raw = (activityData as Record<string, unknown>)[metric];
+  const value = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * ISO 8601 week label, e.g. "2026-W43"
+ */
+function isoWeek(date: Date): string {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  // The Thursday of the week decides its year
+  day.setUTCDate(day.getUTCDate() + 3 - ((day.getUTCDay() + 6) % 7));
+  const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+  const week = Math.floor((day.getTime() - yearStart) / DAY_MS / 7) + 1;
+  return `${day.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
+
+function byDate(a: RuleActivity, b: RuleActivity): number {
+  return a.activityDate.getTime() - b.activityDate.getTime() || a.id.localeCompare(b.id);
+}
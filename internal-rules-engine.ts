@@ -5,12 +5,52 @@
  * within the Hub, without forwarding to external payers.
  */
 import { v4 as uuidv4 } from 'uuid';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, ne, or, gt, gte, lt, lte, desc, inArray, isNull, sql } from 'drizzle-orm';
 import { claims, claimLineItems, claimEvents, claimRulesCache, Claim, ClaimLineItem, InsertClaimEvent } from '@shared/claims-schema';
+import { feeSchedules, feeScheduleItems, FeeSchedule, FeeScheduleItem } from '@shared/schema';
+import { payerConfig, procedureOverride, PayerConfig, ProcedureOverride, PayerAdjudicationRules } from '@shared/prior-auth-schema';
 import logger from '../../logger';
 
+// Claim adjustment reason codes (CARC) used by the engine
+const CARC = {
+  DEDUCTIBLE: '1',
+  COINSURANCE: '2',
+  COPAY: '3',
+  EXCEEDS_FEE_SCHEDULE: '45',
+  NOT_COVERED: '96',
+  BUNDLED: '97'
+} as const;
+
+// Remittance advice remark codes (RARC) used by the engine
+const RARC = {
+  BUNDLED: 'M15',
+  NO_FEE_SCHEDULE: 'N130'
+} as const;
+
+// Places of service billed at the facility rate (inpatient, outpatient hospital, ER, ASC, SNF)
+const FACILITY_PLACES_OF_SERVICE = ['19', '21', '22', '23', '24', '31', '51', '61'];
+
+// Modifiers that indicate a distinct procedural service and bypass bundling
+const DEFAULT_BUNDLING_BYPASS_MODIFIERS = ['59', 'XE', 'XP', 'XS', 'XU'];
+
+// Coinsurance applied when a payer has no configured rate
+const DEFAULT_COINSURANCE_RATE = 0.2;
+
 // Types for rule evaluation
-interface EvaluationContext {
+interface PayerRules {
+  config: PayerConfig | null;
+  overrides: ProcedureOverride[];
+}
+
+// What a claim is adjudicated against besides its own lines; part of the cache key
+interface AdjudicationState {
+  payer: PayerRules;
+  serviceDate: Date;
+  planYearStart: Date;
+  deductibleMet: number; // in cents
+}
+
+interface EvaluationContext extends AdjudicationState {
   claim: Claim;
   lineItems: ClaimLineItem[];
   config: RulesConfig;
@@ -21,6 +61,31 @@ interface RulesConfig {
   maxCacheAge: number; // in milliseconds
 }
 
+type AdjustmentGroupCode = 'CO' | 'PR' | 'OA' | 'PI';
+
+interface LineAdjustment {
+  groupCode: AdjustmentGroupCode;
+  reasonCode: string;
+  amount: number;
+}
+
+// Per-line adjudication, stored in adjudicationDetails.lineItems and claim_line_items.adjudication_data
+interface LineAdjudication {
+  lineItemId: string;
+  serviceCode: string;
+  billedAmount: number;
+  allowedAmount: number;
+  patientResponsibility: number;
+  paidAmount: number;
+  copay: number;
+  deductible: number;
+  coinsurance: number;
+  adjudicationStatus: 'APPROVED' | 'DENIED';
+  adjustments: LineAdjustment[];
+  remarkCodes: string[];
+  appliedRule: string;
+}
+
 interface RuleEvaluationResult {
   success: boolean;
   claimStatus: string;
@@ -68,39 +133,45 @@ export class InternalRulesEngine {
         .from(claimLineItems)
         .where(eq(claimLineItems.claimId, claimId));
       
+      const state = await this.loadAdjudicationState(claim);
+      
       // Check cache if enabled
-      if (this.config.useCaching) {
-        const cachedResult = await this.checkRulesCache(claim, lineItems);
-        if (cachedResult) {
-          logger.info(`Using cached rule result for claim ${claimId}`);
-          
-          // Log the event
-          await this.logClaimEvent(claimId, claim.status, 'INTERNAL_RULES_APPLIED', {
-            source: 'cache',
-            result: cachedResult
-          });
-          
-          return cachedResult;
-        }
+      const cachedResult = this.config.useCaching
+        ? await this.checkRulesCache(claim, lineItems, state)
+        : null;
+      if (cachedResult) {
+        logger.info(`Using cached rule result for claim ${claimId}`);
       }
       
       // Evaluate claim against rules
-      const result = await this.evaluateRules({
+      const result = cachedResult || await this.evaluateRules({
         claim,
         lineItems,
-        config: this.config
+        config: this.config,
+        ...state
       });
       
       // Cache the result if successful
-      if (this.config.useCaching && result.success) {
-        await this.cacheRuleResult(claim, lineItems, result);
+      if (this.config.useCaching && result.success && !cachedResult) {
+        await this.cacheRuleResult(claim, lineItems, state, result);
+      }
+      
+      // Record per-line adjudication
+      for (const line of result.adjudicationDetails.lineItems as LineAdjudication[]) {
+        await this.db
+          .update(claimLineItems)
+          .set({
+            adjudicationData: line,
+            updatedAt: new Date()
+          })
+          .where(eq(claimLineItems.id, line.lineItemId));
       }
       
       // Update claim status
       await this.db
         .update(claims)
         .set({
-          status: result.success ? 'COMPLETE' : 'REJECTED',
+          status: result.success ? result.claimStatus : 'REJECTED',
           responseData: result,
           processedDate: new Date(),
           lastStatusUpdate: new Date(),
@@ -109,7 +180,8 @@ export class InternalRulesEngine {
         .where(eq(claims.id, claimId));
       
       // Log the event
-      await this.logClaimEvent(claimId, result.success ? 'COMPLETE' : 'REJECTED', 'INTERNAL_RULES_APPLIED', {
+      await this.logClaimEvent(claimId, result.success ? result.claimStatus : 'REJECTED', 'INTERNAL_RULES_APPLIED', {
+        source: cachedResult ? 'cache' : 'rules',
         result
       });
       
@@ -144,11 +216,7 @@ export class InternalRulesEngine {
    * @returns The evaluation result
    */
   private async evaluateRules(context: EvaluationContext): Promise<RuleEvaluationResult> {
-    const { claim, lineItems } = context;
-    
-    // In a real implementation, this would be a much more complex rules engine
-    // with configurations loaded from a database or rules management system.
-    // For this prototype, we'll implement a simplified approach.
+    const { claim, lineItems, payer, serviceDate } = context;
     
     const result: RuleEvaluationResult = {
       success: true,
@@ -184,66 +252,433 @@ export class InternalRulesEngine {
       return result;
     }
     
-    // Process line items
+    if (!payer.config) {
+      result.warnings.push(`No payer configuration for ${claim.payerId}; using default benefit rules`);
+    }
+    
+    const rules = payer.config?.adjudicationRules || {};
+    const coinsuranceRate = rules.coinsuranceRate ?? DEFAULT_COINSURANCE_RATE;
+    let deductibleRemaining = Math.max(0, (rules.annualDeductible ?? 0) - context.deductibleMet);
+    
+    const region = (claim.metadata as any)?.region || rules.region;
+    const feeSchedule = await this.findFeeSchedule(serviceDate, region, rules.feeScheduleId);
+    if (!feeSchedule) {
+      result.warnings.push(`No active fee schedule for region ${region || 'default'}`);
+    }
+    
+    const feeItems = feeSchedule
+      ? await this.getFeeScheduleItems(feeSchedule.feeScheduleId, lineItems.map(item => item.serviceCode))
+      : [];
+    
+    const bundledLines = this.applyBundlingEdits(lineItems, rules.bundlingEdits || []);
+    
+    // Process line items in sequence so the deductible is consumed in order
     let totalBilled = 0;
     let totalAllowed = 0;
     let totalPatientResponsibility = 0;
+    let totalPaid = 0;
+    let totalDeductible = 0;
+    let deniedLines = 0;
+    
+    const orderedLines = [...lineItems].sort((a, b) => a.sequence - b.sequence);
     
-    for (const lineItem of lineItems) {
-      // Get service code
+    for (const lineItem of orderedLines) {
       const serviceCode = lineItem.serviceCode;
+      const billedAmount = lineItem.totalPrice || 0;
+      const override = payer.overrides.find(o => o.procedureCode === serviceCode);
+      const bundlingEdit = bundledLines.get(lineItem.id);
       
-      // In a real system, we would look up fee schedules, network status,
-      // coverage details, and apply complex rules here.
+      let line: LineAdjudication;
       
-      // For this prototype, use a simple calculation:
-      // - Allow 80% of billed amount for in-network services
-      // - Patient responsible for 20% after deductible
+      if (bundlingEdit) {
+        line = this.deniedLine(lineItem, billedAmount, {
+          groupCode: 'CO',
+          reasonCode: CARC.BUNDLED,
+          remarkCodes: [RARC.BUNDLED],
+          appliedRule: `BUNDLING_EDIT:${bundlingEdit.primaryCode}>${bundlingEdit.bundledCode}`
+        });
+      } else if (override?.adjudicationAction === 'deny') {
+        line = this.deniedLine(lineItem, billedAmount, {
+          groupCode: 'CO',
+          reasonCode: override.denialReasonCode || CARC.NOT_COVERED,
+          remarkCodes: override.remarkCode ? [override.remarkCode] : [],
+          appliedRule: `PROCEDURE_OVERRIDE:${override.id}`
+        });
+      } else {
+        // Determine the allowed amount from the override or fee schedule
+        let allowed: number | null = null;
+        let appliedRule: string;
+        
+        if (override?.adjudicationAction === 'fixed_amount' && override.allowedAmountOverride != null) {
+          allowed = override.allowedAmountOverride * (lineItem.quantity || 1);
+          appliedRule = `PROCEDURE_OVERRIDE:${override.id}`;
+        } else {
+          const feeItem = this.matchFeeItem(feeItems, lineItem);
+          if (feeItem) {
+            allowed = this.feeAmountInCents(feeItem, lineItem) * (lineItem.quantity || 1);
+            appliedRule = `FEE_SCHEDULE:${feeItem.feeScheduleId}:${feeItem.code}`;
+          } else {
+            appliedRule = 'NO_FEE_SCHEDULE_ITEM';
+          }
+        }
+        
+        if (allowed === null) {
+          line = this.deniedLine(lineItem, billedAmount, {
+            groupCode: 'CO',
+            reasonCode: CARC.NOT_COVERED,
+            remarkCodes: [RARC.NO_FEE_SCHEDULE],
+            appliedRule
+          });
+        } else {
+          line = this.paidLine(lineItem, billedAmount, Math.min(billedAmount, allowed), {
+            copay: rules.copayByServiceCode?.[serviceCode] ?? 0,
+            deductibleRemaining,
+            coinsuranceRate,
+            appliedRule,
+            remarkCodes: override?.remarkCode ? [override.remarkCode] : []
+          });
+          deductibleRemaining -= line.deductible;
+        }
+      }
       
-      const billedAmount = lineItem.amount || 0;
-      let allowedAmount = billedAmount * 0.8; // Simple 80% of billed
-      let patientAmount = billedAmount * 0.2; // Simple 20% coinsurance
+      if (line.adjudicationStatus === 'DENIED') {
+        deniedLines++;
+      }
       
       // Add to totals
       totalBilled += billedAmount;
-      totalAllowed += allowedAmount;
-      totalPatientResponsibility += patientAmount;
+      totalAllowed += line.allowedAmount;
+      totalPatientResponsibility += line.patientResponsibility;
+      totalPaid += line.paidAmount;
+      totalDeductible += line.deductible;
       
-      // Add line item adjudication details
-      result.adjudicationDetails.lineItems.push({
-        lineItemId: lineItem.id,
-        serviceCode,
-        billedAmount,
-        allowedAmount,
-        patientResponsibility: patientAmount,
-        adjudicationStatus: 'APPROVED'
-      });
+      result.adjudicationDetails.lineItems.push(line);
     }
     
     // Set overall amounts
     result.allowedAmount = totalAllowed;
     result.patientResponsibility = totalPatientResponsibility;
     
+    if (deniedLines > 0) {
+      result.claimStatus = deniedLines === orderedLines.length ? 'REJECTED' : 'PARTIAL';
+    }
+    
     // Add summary to adjudication details
     result.adjudicationDetails.summary = {
       totalBilled,
       totalAllowed,
-      totalPatientResponsibility
+      totalPatientResponsibility,
+      totalPaid,
+      totalDeductible,
+      feeScheduleId: feeSchedule?.feeScheduleId,
+      payerConfigId: payer.config?.id
     };
     
     return result;
   }
 
+  /**
+   * Load what the claim is adjudicated against: the payer's rules and the
+   * deductible already met in the plan year of the date of service
+   * @param claim The claim being adjudicated
+   */
+  private async loadAdjudicationState(claim: Claim): Promise<AdjudicationState> {
+    const payer = await this.loadPayerRules(claim.payerId);
+    const serviceDate = claim.serviceStartDate || claim.createdAt || new Date();
+    const planYearStart = this.planYearStart(serviceDate, payer.config?.adjudicationRules?.planYearStartMonth);
+    const deductibleMet = await this.getDeductibleMet(claim, planYearStart);
+    
+    return { payer, serviceDate, planYearStart, deductibleMet };
+  }
+
+  /**
+   * Load payer adjudication rules and procedure overrides
+   * @param payerId The payer ID
+   * @returns The payer config (if any) and its procedure overrides
+   */
+  private async loadPayerRules(payerId: string): Promise<PayerRules> {
+    const [config] = await this.db
+      .select()
+      .from(payerConfig)
+      .where(eq(payerConfig.payerId, payerId));
+    
+    if (!config) {
+      return { config: null, overrides: [] };
+    }
+    
+    const overrides = await this.db
+      .select()
+      .from(procedureOverride)
+      .where(eq(procedureOverride.payerConfigId, config.id));
+    
+    return { config, overrides };
+  }
+
+  /**
+   * Get the start of the plan year a date of service falls in
+   * @param serviceDate The date of service
+   * @param startMonth The month the plan year starts (1-12), January if unset
+   */
+  private planYearStart(serviceDate: Date, startMonth: number = 1): Date {
+    const month = startMonth - 1;
+    const year = serviceDate.getUTCMonth() >= month ? serviceDate.getUTCFullYear() : serviceDate.getUTCFullYear() - 1;
+    return new Date(Date.UTC(year, month, 1));
+  }
+
+  /**
+   * Sum the deductible already applied to the patient's other claims
+   * with this payer for services in the same plan year
+   * @param claim The claim being adjudicated
+   * @param planYearStart Start of the plan year of the claim's date of service
+   * @returns Deductible met so far, in cents
+   */
+  private async getDeductibleMet(claim: Claim, planYearStart: Date): Promise<number> {
+    const planYearEnd = new Date(planYearStart);
+    planYearEnd.setUTCFullYear(planYearEnd.getUTCFullYear() + 1);
+    const serviceDate = sql`coalesce(${claims.serviceStartDate}, ${claims.createdAt})`;
+    
+    const priorClaims: Claim[] = await this.db
+      .select()
+      .from(claims)
+      .where(
+        and(
+          eq(claims.patientId, claim.patientId),
+          eq(claims.payerId, claim.payerId),
+          inArray(claims.status, ['COMPLETE', 'PARTIAL']),
+          gte(serviceDate, planYearStart),
+          lt(serviceDate, planYearEnd),
+          ne(claims.id, claim.id)
+        )
+      );
+    
+    return priorClaims.reduce(
+      (sum, prior) => sum + ((prior.responseData as any)?.adjudicationDetails?.summary?.totalDeductible || 0),
+      0
+    );
+  }
+
+  /**
+   * Find the active fee schedule for a date and region.
+   * A region-specific schedule is preferred over a national one.
+   * @param serviceDate The date of service
+   * @param region The pricing region, if known
+   * @param feeScheduleId A payer-pinned fee schedule, if configured
+   * @returns The fee schedule, if one applies
+   */
+  private async findFeeSchedule(serviceDate: Date, region?: string, feeScheduleId?: string): Promise<FeeSchedule | null> {
+    const conditions = [
+      eq(feeSchedules.status, 'active'),
+      lte(feeSchedules.effectiveDate, serviceDate),
+      or(isNull(feeSchedules.expirationDate), gt(feeSchedules.expirationDate, serviceDate))
+    ];
+    
+    if (feeScheduleId) {
+      conditions.push(eq(feeSchedules.feeScheduleId, feeScheduleId));
+    }
+    
+    const candidates: FeeSchedule[] = await this.db
+      .select()
+      .from(feeSchedules)
+      .where(and(...conditions))
+      .orderBy(desc(feeSchedules.effectiveDate));
+    
+    return candidates.find(schedule => region && schedule.region === region)
+      || candidates.find(schedule => !schedule.region)
+      || null;
+  }
+
+  /**
+   * Get fee schedule items for a set of service codes
+   */
+  private async getFeeScheduleItems(feeScheduleId: string, codes: string[]): Promise<FeeScheduleItem[]> {
+    return this.db
+      .select()
+      .from(feeScheduleItems)
+      .where(
+        and(
+          eq(feeScheduleItems.feeScheduleId, feeScheduleId),
+          inArray(feeScheduleItems.code, Array.from(new Set(codes)))
+        )
+      );
+  }
+
+  /**
+   * Pick the fee schedule item for a line, preferring an exact modifier match
+   */
+  private matchFeeItem(feeItems: FeeScheduleItem[], lineItem: ClaimLineItem): FeeScheduleItem | undefined {
+    const modifiers = this.getModifiers(lineItem);
+    const candidates = feeItems.filter(item => item.code === lineItem.serviceCode);
+    
+    return candidates.find(item => item.mod1 && modifiers.includes(item.mod1))
+      || candidates.find(item => !item.mod1);
+  }
+
+  /**
+   * Price a line from its fee schedule item, in cents per unit.
+   * Facility places of service use the facility rate when one is published.
+   */
+  private feeAmountInCents(feeItem: FeeScheduleItem, lineItem: ClaimLineItem): number {
+    const isFacility = !!lineItem.placeOfService && FACILITY_PLACES_OF_SERVICE.includes(lineItem.placeOfService);
+    
+    let amount = isFacility
+      ? (feeItem.facilityRate ?? feeItem.amount)
+      : (feeItem.nonFacilityRate ?? feeItem.amount);
+    
+    if (feeItem.modifierAdjustment != null && feeItem.mod1 && this.getModifiers(lineItem).includes(feeItem.mod1)) {
+      amount = amount * (feeItem.modifierAdjustment / 100);
+    }
+    
+    return Math.round(amount * 100);
+  }
+
+  /**
+   * Find lines denied by bundling edits (a bundled code billed with its
+   * primary code on the same date, without a bypass modifier)
+   * @returns Map of line item ID to the edit that bundled it
+   */
+  private applyBundlingEdits(
+    lineItems: ClaimLineItem[],
+    edits: NonNullable<PayerAdjudicationRules['bundlingEdits']>
+  ): Map<string, NonNullable<PayerAdjudicationRules['bundlingEdits']>[number]> {
+    const bundled = new Map<string, NonNullable<PayerAdjudicationRules['bundlingEdits']>[number]>();
+    
+    for (const edit of edits) {
+      const primaryDates = lineItems
+        .filter(item => item.serviceCode === edit.primaryCode)
+        .map(item => this.serviceDay(item));
+      
+      if (primaryDates.length === 0) {
+        continue;
+      }
+      
+      for (const item of lineItems) {
+        if (item.serviceCode !== edit.bundledCode || bundled.has(item.id)) {
+          continue;
+        }
+        
+        const bypass = edit.bypassModifiers ?? DEFAULT_BUNDLING_BYPASS_MODIFIERS;
+        if (this.getModifiers(item).some(modifier => bypass.includes(modifier))) {
+          continue;
+        }
+        
+        if (primaryDates.includes(this.serviceDay(item))) {
+          bundled.set(item.id, edit);
+        }
+      }
+    }
+    
+    return bundled;
+  }
+
+  /**
+   * Build a paid line, applying copay, then deductible, then coinsurance
+   */
+  private paidLine(
+    lineItem: ClaimLineItem,
+    billedAmount: number,
+    allowedAmount: number,
+    options: {
+      copay: number;
+      deductibleRemaining: number;
+      coinsuranceRate: number;
+      appliedRule: string;
+      remarkCodes: string[];
+    }
+  ): LineAdjudication {
+    const adjustments: LineAdjustment[] = [];
+    
+    if (billedAmount > allowedAmount) {
+      adjustments.push({ groupCode: 'CO', reasonCode: CARC.EXCEEDS_FEE_SCHEDULE, amount: billedAmount - allowedAmount });
+    }
+    
+    let remaining = allowedAmount;
+    
+    const copay = Math.min(options.copay, remaining);
+    remaining -= copay;
+    
+    const deductible = Math.min(Math.max(options.deductibleRemaining, 0), remaining);
+    remaining -= deductible;
+    
+    const coinsurance = Math.round(remaining * options.coinsuranceRate);
+    remaining -= coinsurance;
+    
+    if (copay > 0) {
+      adjustments.push({ groupCode: 'PR', reasonCode: CARC.COPAY, amount: copay });
+    }
+    if (deductible > 0) {
+      adjustments.push({ groupCode: 'PR', reasonCode: CARC.DEDUCTIBLE, amount: deductible });
+    }
+    if (coinsurance > 0) {
+      adjustments.push({ groupCode: 'PR', reasonCode: CARC.COINSURANCE, amount: coinsurance });
+    }
+    
+    return {
+      lineItemId: lineItem.id,
+      serviceCode: lineItem.serviceCode,
+      billedAmount,
+      allowedAmount,
+      patientResponsibility: copay + deductible + coinsurance,
+      paidAmount: remaining,
+      copay,
+      deductible,
+      coinsurance,
+      adjudicationStatus: 'APPROVED',
+      adjustments,
+      remarkCodes: options.remarkCodes,
+      appliedRule: options.appliedRule
+    };
+  }
+
+  /**
+   * Build a denied line with the full billed amount adjusted off
+   */
+  private deniedLine(
+    lineItem: ClaimLineItem,
+    billedAmount: number,
+    denial: { groupCode: AdjustmentGroupCode; reasonCode: string; remarkCodes: string[]; appliedRule: string }
+  ): LineAdjudication {
+    return {
+      lineItemId: lineItem.id,
+      serviceCode: lineItem.serviceCode,
+      billedAmount,
+      allowedAmount: 0,
+      patientResponsibility: 0,
+      paidAmount: 0,
+      copay: 0,
+      deductible: 0,
+      coinsurance: 0,
+      adjudicationStatus: 'DENIED',
+      adjustments: [{ groupCode: denial.groupCode, reasonCode: denial.reasonCode, amount: billedAmount }],
+      remarkCodes: denial.remarkCodes,
+      appliedRule: denial.appliedRule
+    };
+  }
+
+  /**
+   * Get the modifiers billed on a line
+   */
+  private getModifiers(lineItem: ClaimLineItem): string[] {
+    return Array.isArray(lineItem.modifiers) ? (lineItem.modifiers as unknown[]).map(String) : [];
+  }
+
+  /**
+   * Get the service day of a line (YYYY-MM-DD), for same-day edits
+   */
+  private serviceDay(lineItem: ClaimLineItem): string {
+    return lineItem.serviceDate ? lineItem.serviceDate.toISOString().slice(0, 10) : '';
+  }
+
   /**
    * Check if there's a valid cached result for this claim
    * @param claim The claim
    * @param lineItems The claim line items
-   * @returns The cached result, if found and valid
+   * @param state The payer rules and deductible the claim is adjudicated against
+   * @returns The cached result, re-pointed at this claim's line items, if found and valid
    */
-  private async checkRulesCache(claim: Claim, lineItems: ClaimLineItem[]): Promise<RuleEvaluationResult | null> {
+  private async checkRulesCache(claim: Claim, lineItems: ClaimLineItem[], state: AdjudicationState): Promise<RuleEvaluationResult | null> {
     try {
-      // Create a cache key based on claim properties and line items
-      const cacheKey = this.createCacheKey(claim, lineItems);
+      // Create a cache key based on claim properties, line items and adjudication state
+      const cacheKey = this.createCacheKey(claim, lineItems, state);
       
       // Check for a cached entry
       const [cachedEntry] = await this.db
@@ -264,8 +699,22 @@ export class InternalRulesEngine {
         return null;
       }
       
-      // Return the cached result
-      return cachedEntry.result as RuleEvaluationResult;
+      // The cached lines belong to the claim that produced the entry; they are
+      // keyed in sequence order, so map them onto this claim's lines by position
+      const cached = cachedEntry.result as RuleEvaluationResult;
+      const cachedLines = cached.adjudicationDetails.lineItems as LineAdjudication[];
+      const orderedLines = [...lineItems].sort((a, b) => a.sequence - b.sequence);
+      if (cachedLines.length !== orderedLines.length) {
+        return null;
+      }
+      
+      return {
+        ...cached,
+        adjudicationDetails: {
+          ...cached.adjudicationDetails,
+          lineItems: cachedLines.map((line, index) => ({ ...line, lineItemId: orderedLines[index].id }))
+        }
+      };
     } catch (error) {
       logger.error('Error checking rules cache', { error });
       return null; // In case of error, proceed without cache
@@ -276,11 +725,17 @@ export class InternalRulesEngine {
    * Cache a rule evaluation result
    * @param claim The claim
    * @param lineItems The claim line items
+   * @param state The payer rules and deductible the claim was adjudicated against
    * @param result The evaluation result
    */
-  private async cacheRuleResult(claim: Claim, lineItems: ClaimLineItem[], result: RuleEvaluationResult): Promise<void> {
+  private async cacheRuleResult(
+    claim: Claim,
+    lineItems: ClaimLineItem[],
+    state: AdjudicationState,
+    result: RuleEvaluationResult
+  ): Promise<void> {
     try {
-      const cacheKey = this.createCacheKey(claim, lineItems);
+      const cacheKey = this.createCacheKey(claim, lineItems, state);
       
       // Check if entry already exists
       const [existingEntry] = await this.db
@@ -325,9 +780,10 @@ export class InternalRulesEngine {
    * Create a cache key for a claim and its line items
    * @param claim The claim
    * @param lineItems The claim line items
+   * @param state The payer rules and deductible the claim is adjudicated against
    * @returns A unique cache key
    */
-  private createCacheKey(claim: Claim, lineItems: ClaimLineItem[]): string {
+  private createCacheKey(claim: Claim, lineItems: ClaimLineItem[], state: AdjudicationState): string {
     // This is a simplified version for the prototype
     // In a real system, you might hash more properties for a more precise key
     
@@ -336,18 +792,35 @@ export class InternalRulesEngine {
       type: claim.type,
       payerId: claim.payerId,
       providerId: claim.providerId,
-      patientId: claim.patientId
+      patientId: claim.patientId,
+      region: (claim.metadata as any)?.region
+    };
+    
+    // A change to the payer's rules or overrides, or deductible met since, changes the result
+    const stateProps = {
+      payerConfigId: state.payer.config?.id,
+      payerConfigUpdatedAt: state.payer.config?.updatedAt,
+      overridesUpdatedAt: state.payer.overrides.map(o => o.updatedAt),
+      serviceDate: state.serviceDate,
+      planYearStart: state.planYearStart,
+      deductibleMet: state.deductibleMet
     };
     
-    // Include essential line item properties
-    const lineItemsProps = lineItems.map(item => ({
+    // Include essential line item properties, in the order lines are adjudicated
+    const lineItemsProps = [...lineItems].sort((a, b) => a.sequence - b.sequence).map(item => ({
+      sequence: item.sequence,
       serviceCode: item.serviceCode,
-      amount: item.amount
+      amount: item.totalPrice,
+      quantity: item.quantity,
+      modifiers: item.modifiers,
+      serviceDate: item.serviceDate,
+      placeOfService: item.placeOfService
     }));
     
     // Create a hash of these properties
     const combinedProps = {
       claim: claimProps,
+      state: stateProps,
       lineItems: lineItemsProps
     };
     
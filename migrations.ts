@@ -105,6 +105,81 @@ CREATE TABLE IF NOT EXISTS fhir_resources_y2023m12 PARTITION OF fhir_resources_p
   FOR VALUES FROM ('2023-12-01') TO ('2024-01-01');
 `;
 
+/**
+ * Network participant coordinates were stored as text. Convert them to
+ * numbers for proximity search; values that are not numbers, or are out of
+ * range, become null rather than failing the migration. Safe to run again.
+ */
+export const convertParticipantCoordinatesSQL = `
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'network_participants' AND column_name = 'latitude' AND data_type = 'text'
+  ) THEN
+    ALTER TABLE network_participants
+      ALTER COLUMN latitude TYPE double precision USING (
+        CASE WHEN trim(latitude) ~ '^[-+]?([0-9]+([.][0-9]*)?|[.][0-9]+)$' THEN
+          CASE WHEN trim(latitude)::double precision BETWEEN -90 AND 90 THEN trim(latitude)::double precision END
+        END
+      ),
+      ALTER COLUMN longitude TYPE double precision USING (
+        CASE WHEN trim(longitude) ~ '^[-+]?([0-9]+([.][0-9]*)?|[.][0-9]+)$' THEN
+          CASE WHEN trim(longitude)::double precision BETWEEN -180 AND 180 THEN trim(longitude)::double precision END
+        END
+      );
+  END IF;
+END $$;
+
+ALTER TABLE network_participants
+  ADD COLUMN IF NOT EXISTS specialties JSONB,
+  ADD COLUMN IF NOT EXISTS accepting_new_patients BOOLEAN;
+
+CREATE INDEX IF NOT EXISTS network_participant_location_idx
+  ON network_participants (latitude, longitude);
+
+CREATE INDEX IF NOT EXISTS network_service_metrics_period_idx
+  ON network_service_metrics (participant_service_id, period_end);
+`;
+
+/**
+ * Prior auth statuses for requests that never went to the payer: no PA
+ * needed, goldcard exempt, or a PAS submission that failed. Safe to run again.
+ */
+export const addPriorAuthStatusesSQL = `
+ALTER TYPE prior_auth_status ADD VALUE IF NOT EXISTS 'not_required';
+ALTER TYPE prior_auth_status ADD VALUE IF NOT EXISTS 'exempt';
+ALTER TYPE prior_auth_status ADD VALUE IF NOT EXISTS 'submission_failed';
+`;
+
+/**
+ * Apply the prior auth migrations
+ */
+export async function applyPriorAuthMigrations(): Promise<void> {
+  try {
+    await pool.query(addPriorAuthStatusesSQL);
+    
+    console.log('Prior auth migrations applied successfully');
+  } catch (error) {
+    console.error('Error applying prior auth migrations:', error);
+    throw error;
+  }
+}
+
+/**
+ * Apply the network directory migrations
+ */
+export async function applyNetworkDirectoryMigrations(): Promise<void> {
+  try {
+    await pool.query(convertParticipantCoordinatesSQL);
+    
+    console.log('Network directory migrations applied successfully');
+  } catch (error) {
+    console.error('Error applying network directory migrations:', error);
+    throw error;
+  }
+}
+
 /**
  * Apply all migrations for partitioned tables
  */
@@ -6,11 +6,16 @@
  * - Service capabilities and enablement status
  * - Connection relationships between network entities
  * - Geographic data for network visualization
+ * - NPPES imports and participant verification reviews
+ * - Insurance plans and bulk exports for the FHIR Plan-Net directory
+ * - Staged onboarding of connections, gated on connection tests and contracts
  */
 
-import { pgTable, text, timestamp, uuid, boolean, jsonb, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, timestamp, uuid, boolean, jsonb, pgEnum, doublePrecision, index, integer } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
+import { contracts } from "./contract-schema";
+import { connectionProfiles } from "./integration-schema";
 
 // ============================================================================
 // Enums
@@ -27,6 +32,7 @@ export const participantTypeEnum = pgEnum('participant_type', [
   'employer',
   'state_hie',
   'public_health_agency',
+  'network', // A payer's provider network
   'other'
 ]);
 
@@ -77,11 +83,12 @@ export const networkParticipants = pgTable('network_participants', {
   name: text('name').notNull(),
   displayName: text('display_name').notNull(),
   type: participantTypeEnum('type').notNull(),
+  entityType: text('entity_type').notNull().default('organization'), // 'organization' or 'individual' (a practitioner)
   description: text('description'),
   
   // Identifiers
   organizationId: uuid('organization_id'), // Reference to organizations table
-  externalIdentifiers: jsonb('external_identifiers'), // NPI, tax ID, HIE IDs, etc.
+  externalIdentifiers: jsonb('external_identifiers').$type<ParticipantExternalIdentifiers>(), // NPI, tax ID, HIE IDs, etc.
   
   // Contact information
   contactName: text('contact_name'),
@@ -97,13 +104,17 @@ export const networkParticipants = pgTable('network_participants', {
   postalCode: text('postal_code'),
   country: text('country').default('USA'),
   
-  // Geographic coordinates for mapping
-  latitude: text('latitude'),
-  longitude: text('longitude'),
+  // Geographic coordinates (WGS 84 decimal degrees) for mapping and proximity search
+  latitude: doublePrecision('latitude'),
+  longitude: doublePrecision('longitude'),
+  
+  // Care delivery details for provider search
+  specialties: jsonb('specialties').$type<string[]>(), // Specialty codes or names
+  acceptingNewPatients: boolean('accepting_new_patients'),
   
   // Status and metadata
   active: boolean('active').default(true),
-  verificationStatus: text('verification_status').default('unverified'),
+  verificationStatus: text('verification_status').default('unverified'), // 'unverified', 'verified', 'mismatch', 'deactivated'
   verifiedAt: timestamp('verified_at'),
   
   // Custom attributes
@@ -112,6 +123,10 @@ export const networkParticipants = pgTable('network_participants', {
   // Timestamps
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at'),
+}, (table) => {
+  return {
+    locationIdx: index('network_participant_location_idx').on(table.latitude, table.longitude)
+  };
 });
 
 /**
@@ -193,11 +208,18 @@ export const networkConnections = pgTable('network_connections', {
   
   // Business details
   contractReference: text('contract_reference'),
+  contractId: integer('contract_id').references(() => contracts.id), // Contract approved in legal review
   contractEffectiveDate: timestamp('contract_effective_date'),
   contractEndDate: timestamp('contract_end_date'),
   
   // Technical connection details
   connectionDetails: jsonb('connection_details'),
+  connectionProfileId: integer('connection_profile_id').references(() => connectionProfiles.id), // Profile tested in technical validation
+  
+  // Onboarding: 'requested', 'technically_validated', 'legally_approved', 'activated', 'rejected'
+  // (null for connections created directly rather than onboarded)
+  onboardingStage: text('onboarding_stage'),
+  lastValidation: jsonb('last_validation').$type<ConnectionValidationResult>(),
   
   // Custom attributes
   metadata: jsonb('metadata'),
@@ -210,6 +232,11 @@ export const networkConnections = pgTable('network_connections', {
   // Tracking
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at'),
+}, (table) => {
+  return {
+    contractIdx: index('network_connections_contract_idx').on(table.contractId),
+    onboardingStageIdx: index('network_connections_onboarding_stage_idx').on(table.onboardingStage)
+  };
 });
 
 /**
@@ -239,6 +266,10 @@ export const networkServiceMetrics = pgTable('network_service_metrics', {
   // Timestamps
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at'),
+}, (table) => {
+  return {
+    participantServicePeriodIdx: index('network_service_metrics_period_idx').on(table.participantServiceId, table.periodEnd)
+  };
 });
 
 /**
@@ -315,12 +346,123 @@ export const networkEvents = pgTable('network_events', {
   createdAt: timestamp('created_at').notNull().defaultNow(),
 });
 
+/**
+ * Directory imports (e.g. NPPES dissemination files)
+ */
+export const networkDirectoryImports = pgTable('network_directory_imports', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  
+  // Import details
+  source: text('source').notNull().default('nppes'),
+  fileName: text('file_name'),
+  options: jsonb('options'),
+  status: text('status').notNull().default('running'), // 'running', 'completed', 'failed'
+  
+  // Results
+  stats: jsonb('stats').$type<DirectoryImportStats>(),
+  errors: jsonb('errors').$type<DirectoryImportError[]>(), // First rows that could not be imported
+  errorMessage: text('error_message'),
+  
+  // Tracking
+  startedBy: text('started_by'),
+  startedAt: timestamp('started_at').notNull().defaultNow(),
+  completedAt: timestamp('completed_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+/**
+ * Participants whose directory data disagrees with an external registry, for manual review
+ */
+export const networkVerificationReviews = pgTable('network_verification_reviews', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  
+  // References
+  participantId: uuid('participant_id').notNull().references(() => networkParticipants.id),
+  importId: uuid('import_id').references(() => networkDirectoryImports.id), // Most recent import that found the mismatch
+  npi: text('npi').notNull(),
+  
+  // What disagrees
+  reasons: jsonb('reasons').$type<string[]>().notNull(), // 'deactivated', 'name_mismatch', 'address_mismatch'
+  participantData: jsonb('participant_data'), // Directory values at the time of the mismatch
+  registryData: jsonb('registry_data'), // Registry values found
+  
+  // Review
+  status: text('status').notNull().default('open'), // 'open', 'accepted', 'dismissed', 'superseded'
+  resolutionNotes: text('resolution_notes'),
+  resolvedBy: text('resolved_by'),
+  resolvedAt: timestamp('resolved_at'),
+  
+  // Timestamps
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at'),
+}, (table) => {
+  return {
+    statusIdx: index('network_verification_review_status_idx').on(table.status, table.participantId)
+  };
+});
+
+/**
+ * Insurance plans offered by payer participants, published in the Plan-Net directory
+ */
+export const networkInsurancePlans = pgTable('network_insurance_plans', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  
+  // References
+  payerParticipantId: uuid('payer_participant_id').notNull().references(() => networkParticipants.id),
+  administratorParticipantId: uuid('administrator_participant_id').references(() => networkParticipants.id),
+  networkParticipantIds: jsonb('network_participant_ids').$type<string[]>(), // Participants of type 'network'
+  
+  // Plan details
+  name: text('name').notNull(),
+  alias: text('alias'),
+  planIdentifier: text('plan_identifier'), // e.g. HIOS plan ID
+  productType: text('product_type').notNull(), // Plan-Net InsuranceProductTypeCS code, e.g. 'commmed', 'medicaid'
+  planType: text('plan_type'), // Plan-Net InsurancePlanTypeCS code, e.g. 'gold'
+  status: text('status').notNull().default('active'), // 'draft', 'active', 'retired'
+  coverageStates: jsonb('coverage_states').$type<string[]>(),
+  periodStart: timestamp('period_start'),
+  periodEnd: timestamp('period_end'),
+  
+  // Custom attributes
+  metadata: jsonb('metadata'),
+  
+  // Timestamps
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at'),
+});
+
+/**
+ * Bulk exports of the Plan-Net directory as NDJSON files
+ */
+export const networkDirectoryExports = pgTable('network_directory_exports', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  
+  // Request
+  resourceTypes: jsonb('resource_types').$type<string[]>().notNull(),
+  since: timestamp('since'),
+  requestUrl: text('request_url').notNull(),
+  requestedBy: text('requested_by'),
+  
+  // Outcome
+  status: text('status').notNull().default('in_progress'), // 'in_progress', 'completed', 'failed'
+  output: jsonb('output').$type<DirectoryExportFile[]>(),
+  errorMessage: text('error_message'),
+  
+  // Timestamps
+  requestedAt: timestamp('requested_at').notNull().defaultNow(),
+  completedAt: timestamp('completed_at'),
+});
+
 // ============================================================================
 // Zod Schemas
 // ============================================================================
 
 // Network Participants
-export const insertNetworkParticipantSchema = createInsertSchema(networkParticipants);
+export const insertNetworkParticipantSchema = createInsertSchema(networkParticipants, {
+  latitude: z.number().min(-90).max(90).nullable().optional(),
+  longitude: z.number().min(-180).max(180).nullable().optional(),
+  specialties: z.array(z.string()).nullable().optional()
+});
 export const selectNetworkParticipantSchema = createSelectSchema(networkParticipants);
 
 // Network Services
@@ -339,6 +481,19 @@ export const selectNetworkConnectionSchema = createSelectSchema(networkConnectio
 export const insertNetworkMapRegionSchema = createInsertSchema(networkMapRegions);
 export const selectNetworkMapRegionSchema = createSelectSchema(networkMapRegions);
 
+// Insurance Plans
+export const insertNetworkInsurancePlanSchema = createInsertSchema(networkInsurancePlans, {
+  networkParticipantIds: z.array(z.string().uuid()).nullable().optional(),
+  coverageStates: z.array(z.string().length(2)).nullable().optional()
+});
+export const selectNetworkInsurancePlanSchema = createSelectSchema(networkInsurancePlans);
+
+// Directory Imports
+export const selectNetworkDirectoryImportSchema = createSelectSchema(networkDirectoryImports);
+
+// Verification Reviews
+export const selectNetworkVerificationReviewSchema = createSelectSchema(networkVerificationReviews);
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -361,4 +516,56 @@ export type InsertNetworkConnection = z.infer<typeof insertNetworkConnectionSche
 
 // Network Map Regions
 export type NetworkMapRegion = z.infer<typeof selectNetworkMapRegionSchema>;
-export type InsertNetworkMapRegion = z.infer<typeof insertNetworkMapRegionSchema>;
\ No newline at end of file
+export type InsertNetworkMapRegion = z.infer<typeof insertNetworkMapRegionSchema>;
+
+// Insurance Plans
+export type NetworkInsurancePlan = typeof networkInsurancePlans.$inferSelect;
+export type InsertNetworkInsurancePlan = z.infer<typeof insertNetworkInsurancePlanSchema>;
+
+// Directory Exports
+export type NetworkDirectoryExport = typeof networkDirectoryExports.$inferSelect;
+
+// Directory Imports
+export type NetworkDirectoryImport = typeof networkDirectoryImports.$inferSelect;
+
+// Verification Reviews
+export type NetworkVerificationReview = typeof networkVerificationReviews.$inferSelect;
+
+// Identifiers kept in network_participants.external_identifiers
+export interface ParticipantExternalIdentifiers {
+  npi?: string;
+  taxId?: string;
+  contractOrganizationId?: number; // The organization's ID on contracts (contract_participants.organization_id)
+  [key: string]: unknown;
+}
+
+export interface DirectoryImportStats {
+  totalRows: number;
+  invalidNpis: number; // Rows whose NPI fails the check digit
+  skipped: number; // Rows not in the directory (and not created) or outside the requested states
+  matched: number; // Participants compared with a row
+  verified: number;
+  mismatched: number; // Sent to review
+  created: number;
+}
+
+export interface DirectoryImportError {
+  row: number;
+  npi: string | null;
+  message: string;
+}
+
+export interface DirectoryExportFile {
+  type: string; // FHIR resource type
+  count: number;
+  fileName: string;
+}
+
+export interface ConnectionValidationResult {
+  connected: boolean;
+  protocolType: string;
+  protocolVersion: string;
+  testedAt: string;
+  lastError?: string;
+  metadata?: any;
+}
@@ -7,6 +7,8 @@
  * - Service capability tracking
  * - Inter-participant connections
  * - Network visualization and analytics
+ * - Proximity search ranked by distance and service quality
+ * - Insurance plans offered by payers
  */
 
 import { db } from '../../db';
@@ -19,6 +21,7 @@ import {
   networkRegionStats,
   networkServiceMetrics,
   networkEvents,
+  networkInsurancePlans,
   
   NetworkParticipant,
   InsertNetworkParticipant,
@@ -30,10 +33,29 @@ import {
   InsertNetworkConnection,
   NetworkMapRegion,
   InsertNetworkMapRegion,
+  NetworkInsurancePlan,
+  InsertNetworkInsurancePlan,
 } from '../../../shared/network-directory-schema';
-import { eq, and, inArray, like, isNull, not, or, desc, asc, sql } from 'drizzle-orm';
+import { eq, and, inArray, like, isNull, not, or, desc, asc, sql, between, lte, ne, type SQL, type AnyColumn } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
 import logger from '../../utils/logger';
+import {
+  boundingBox,
+  haversineMilesSql,
+  estimateDriveMinutes,
+  driveMinutesToMiles,
+  driveTimeBand
+} from './network-geo';
+import { isValidNpi } from './nppes';
+
+// Ranking weights for proximity search: closeness vs. service quality
+const DISTANCE_WEIGHT = 0.7;
+const QUALITY_WEIGHT = 0.3;
+// Quality assumed for participants without service metrics
+const NEUTRAL_QUALITY = 0.5;
+// Distance at which the closeness part of the score reaches zero when no radius is given
+const DEFAULT_DISTANCE_SCALE_MILES = 25;
+const MAX_PROXIMITY_RESULTS = 5000;
 
 /**
  * Search parameters for network participants
@@ -52,6 +74,62 @@ export interface ParticipantSearchParams {
   offset?: number;
 }
 
+/**
+ * Parameters for proximity search around a point
+ */
+export interface ProximitySearchParams {
+  latitude: number;
+  longitude: number;
+  radiusMiles?: number; // Only participants within this distance
+  nearest?: number; // Only the N nearest participants
+  maxDriveMinutes?: number; // Only participants within this estimated drive time
+  driveTimeBands?: number[]; // Drive-time bands in minutes to classify results into, e.g. [15, 30, 60]
+  types?: string[];
+  serviceType?: string; // Participant must offer a service of this type
+  specialty?: string;
+  acceptingNewPatients?: boolean;
+  sort?: 'distance' | 'relevance'; // Defaults to distance for nearest-N queries, relevance otherwise
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * A participant's service with its latest metrics
+ */
+export interface NearbyParticipantService {
+  id: string;
+  name: string;
+  type: string;
+  status: string;
+  successRate: number | null; // Fraction of requests that succeeded (0-1)
+  uptime: number | null; // Percent
+  averageResponseTime: number | null;
+}
+
+/**
+ * A proximity search result
+ */
+export interface NearbyParticipant {
+  id: string;
+  name: string;
+  displayName: string;
+  type: string;
+  latitude: number;
+  longitude: number;
+  address: string | null;
+  city: string | null;
+  state: string | null;
+  postalCode: string | null;
+  specialties: string[] | null;
+  acceptingNewPatients: boolean | null;
+  distanceMiles: number;
+  estimatedDriveMinutes: number;
+  driveTimeBand?: number; // Smallest requested band the estimated drive time falls within
+  qualityScore: number | null; // 0-1, from the latest metrics of the participant's services
+  score: number; // Ranking score, 0-1
+  services: NearbyParticipantService[];
+}
+
 /**
  * Search parameters for services
  */
@@ -89,6 +167,8 @@ export class NetworkDirectoryService {
    */
   async createParticipant(data: InsertNetworkParticipant): Promise<NetworkParticipant> {
     try {
+      this.assertValidNpi(data.externalIdentifiers);
+      
       // Generate ID if not provided
       if (!data.id) {
         data.id = uuidv4();
@@ -133,6 +213,8 @@ export class NetworkDirectoryService {
       // Remove id from update data if present
       delete data.id;
       
+      this.assertValidNpi(data.externalIdentifiers);
+      
       // Set updated timestamp
       data.updatedAt = new Date();
       
@@ -155,6 +237,16 @@ export class NetworkDirectoryService {
     }
   }
   
+  /**
+   * Reject NPIs that fail the check digit
+   */
+  private assertValidNpi(externalIdentifiers: unknown): void {
+    const npi = (externalIdentifiers as { npi?: unknown } | null | undefined)?.npi;
+    if (npi !== undefined && npi !== null && !isValidNpi(String(npi))) {
+      throw new Error(`Invalid NPI: ${npi}`);
+    }
+  }
+  
   /**
    * Delete a network participant
    */
@@ -254,22 +346,8 @@ export class NetworkDirectoryService {
       
       // Geospatial search if lat/long and radius provided
       if (params.latitude && params.longitude && params.radius) {
-        // This is a simplified version; in production, use PostGIS for proper spatial queries
-        // Here we're just doing a rough approximation
-        const lat = parseFloat(params.latitude);
-        const lng = parseFloat(params.longitude);
-        const radiusMiles = params.radius;
-        
-        // Convert miles to rough degrees (very approximate)
-        const latRadius = radiusMiles / 69; // ~69 miles per degree of latitude
-        const lngRadius = radiusMiles / (69 * Math.cos(lat * Math.PI / 180)); // Adjust for longitude
-        
-        // Filter by bounding box (approximate)
         query = query.where(
-          and(
-            sql`${networkParticipants.latitude}::float BETWEEN ${lat - latRadius} AND ${lat + latRadius}`,
-            sql`${networkParticipants.longitude}::float BETWEEN ${lng - lngRadius} AND ${lng + lngRadius}`
-          )
+          this.withinRadius(parseFloat(params.latitude), parseFloat(params.longitude), params.radius)
         );
       }
       
@@ -642,46 +720,19 @@ export class NetworkDirectoryService {
   // ============================================================================
   
   /**
-   * Create a new network connection
+   * Create a new network connection. It is requested through onboarding, so
+   * it starts pending and is only activated once its contract is approved.
    */
-  async createConnection(data: InsertNetworkConnection): Promise<NetworkConnection> {
-    try {
-      // Generate ID if not provided
-      if (!data.id) {
-        data.id = uuidv4();
-      }
-      
-      // Set timestamps
-      data.createdAt = new Date();
-      data.initiatedAt = new Date();
-      
-      // If status is 'active', set activatedAt
-      if (data.status === 'active') {
-        data.activatedAt = new Date();
-        data.lastStatusChangeAt = new Date();
-      }
-      
-      // Insert the connection record
-      const [connection] = await db.insert(networkConnections).values(data).returning();
-      
-      if (!connection) {
-        throw new Error('Failed to create network connection');
-      }
-      
-      // Record event
-      await this.recordNetworkEvent({
-        eventType: 'connection_created',
-        severity: 'info',
-        description: `Connection created from ${data.sourceParticipantId} to ${data.targetParticipantId}`,
-        connectionId: connection.id
-      });
-      
-      logger.info(`Created network connection: ${connection.id} (${data.sourceParticipantId} -> ${data.targetParticipantId})`);
-      return connection;
-    } catch (error) {
-      logger.error('Error creating network connection:', error);
-      throw error;
-    }
+  async createConnection(data: InsertNetworkConnection, requestedBy: string = 'system'): Promise<NetworkConnection> {
+    // Imported here: the onboarding service depends on this one
+    const { networkOnboardingService } = await import('./network-onboarding-service');
+    return networkOnboardingService.requestConnection({
+      sourceParticipantId: data.sourceParticipantId,
+      targetParticipantId: data.targetParticipantId,
+      enabledServices: (data.enabledServices as string[] | null | undefined) ?? undefined,
+      connectionProfileId: data.connectionProfileId ?? undefined,
+      connectionDetails: (data.connectionDetails as Record<string, any> | null | undefined) ?? undefined
+    }, requestedBy);
   }
   
   /**
@@ -704,18 +755,21 @@ export class NetworkDirectoryService {
     try {
       // Remove id from update data if present
       delete data.id;
-      
+
+      // Onboarding stages and contracts are only changed by the onboarding
+      // workflow, which checks the contract whenever a connection goes active
+      delete data.onboardingStage;
+      delete data.contractId;
+      if (data.status === 'active') {
+        throw new Error(`Connection ${id} can only be activated or reactivated through onboarding`);
+      }
+
       // Set updated timestamp
       data.updatedAt = new Date();
       
       // If status is changing, update lastStatusChangeAt
       if (data.status) {
         data.lastStatusChangeAt = new Date();
-        
-        // If status is changing to 'active', set activatedAt
-        if (data.status === 'active' && !data.activatedAt) {
-          data.activatedAt = new Date();
-        }
       }
       
       // Update the connection
@@ -880,6 +934,92 @@ export class NetworkDirectoryService {
     }
   }
   
+  // ============================================================================
+  // Insurance Plans
+  // ============================================================================
+  
+  /**
+   * Create an insurance plan for a payer participant
+   */
+  async createInsurancePlan(data: InsertNetworkInsurancePlan): Promise<NetworkInsurancePlan> {
+    try {
+      const payer = await this.getParticipant(data.payerParticipantId);
+      if (!payer || payer.type !== 'payer') {
+        throw new Error(`Payer participant ${data.payerParticipantId} not found`);
+      }
+      
+      await this.assertNetworkParticipants(data.networkParticipantIds);
+      
+      const [plan] = await db
+        .insert(networkInsurancePlans)
+        .values({ ...data, createdAt: new Date() })
+        .returning();
+      
+      logger.info(`Created insurance plan: ${plan.id} (${plan.name})`);
+      return plan;
+    } catch (error) {
+      logger.error('Error creating insurance plan:', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Get an insurance plan by ID
+   */
+  async getInsurancePlan(id: string): Promise<NetworkInsurancePlan | undefined> {
+    try {
+      const [plan] = await db.select().from(networkInsurancePlans).where(eq(networkInsurancePlans.id, id));
+      return plan;
+    } catch (error) {
+      logger.error(`Error getting insurance plan ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Update an insurance plan
+   */
+  async updateInsurancePlan(id: string, data: Partial<InsertNetworkInsurancePlan>): Promise<NetworkInsurancePlan | undefined> {
+    try {
+      delete data.id;
+      
+      await this.assertNetworkParticipants(data.networkParticipantIds);
+      
+      const [plan] = await db
+        .update(networkInsurancePlans)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(networkInsurancePlans.id, id))
+        .returning();
+      
+      if (plan) {
+        logger.info(`Updated insurance plan: ${id}`);
+      }
+      return plan;
+    } catch (error) {
+      logger.error(`Error updating insurance plan ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Reject plan networks that are not network participants
+   */
+  private async assertNetworkParticipants(ids: string[] | null | undefined): Promise<void> {
+    if (!ids || ids.length === 0) {
+      return;
+    }
+    
+    const networks = await db
+      .select({ id: networkParticipants.id })
+      .from(networkParticipants)
+      .where(and(inArray(networkParticipants.id, ids), eq(networkParticipants.type, 'network')));
+    
+    const missing = ids.filter(id => !networks.some(network => network.id === id));
+    if (missing.length > 0) {
+      throw new Error(`Not network participants: ${missing.join(', ')}`);
+    }
+  }
+  
   // ============================================================================
   // Mapping and Visualization
   // ============================================================================
@@ -913,7 +1053,8 @@ export class NetworkDirectoryService {
   }
   
   /**
-   * Get participants for a map view (with pagination and bounding box)
+   * Get participants for a map view (with pagination and bounding box),
+   * with their services loaded in the same query
    */
   async getMapParticipants(boundingBox?: {
     minLat: number,
@@ -922,7 +1063,26 @@ export class NetworkDirectoryService {
     maxLng: number
   }, types?: string[], limit: number = 100): Promise<any[]> {
     try {
-      let query = db
+      const conditions: SQL[] = [
+        eq(networkParticipants.active, true),
+        not(isNull(networkParticipants.latitude)),
+        not(isNull(networkParticipants.longitude))
+      ];
+      
+      // Apply type filter if provided
+      if (types && types.length > 0) {
+        conditions.push(inArray(networkParticipants.type, types as any));
+      }
+      
+      // Apply bounding box filter if provided
+      if (boundingBox) {
+        conditions.push(
+          between(networkParticipants.latitude, boundingBox.minLat, boundingBox.maxLat),
+          between(networkParticipants.longitude, boundingBox.minLng, boundingBox.maxLng)
+        );
+      }
+      
+      return await db
         .select({
           id: networkParticipants.id,
           name: networkParticipants.name,
@@ -931,64 +1091,198 @@ export class NetworkDirectoryService {
           longitude: networkParticipants.longitude,
           address: networkParticipants.addressLine1,
           city: networkParticipants.city,
-          state: networkParticipants.state
+          state: networkParticipants.state,
+          acceptingNewPatients: networkParticipants.acceptingNewPatients,
+          services: this.participantServicesJson()
         })
         .from(networkParticipants)
-        .where(
-          and(
-            eq(networkParticipants.active, true),
-            not(isNull(networkParticipants.latitude)),
-            not(isNull(networkParticipants.longitude))
-          )
-        );
+        .where(and(...conditions))
+        .limit(limit);
+    } catch (error) {
+      logger.error('Error getting map participants:', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Find participants near a point, within a radius or drive time or as the
+   * nearest N, ranked by distance or by distance and service quality.
+   * Services and their latest metrics are loaded in the same query.
+   */
+  async findNearbyParticipants(params: ProximitySearchParams): Promise<NearbyParticipant[]> {
+    try {
+      const { latitude, longitude } = params;
+      const distance = haversineMilesSql(networkParticipants.latitude, networkParticipants.longitude, latitude, longitude);
+      
+      // A drive time limit is a radius, since the estimate grows with distance
+      const radiusLimits = [
+        params.radiusMiles,
+        params.maxDriveMinutes !== undefined ? driveMinutesToMiles(params.maxDriveMinutes) : undefined
+      ].filter((value): value is number => value !== undefined);
+      const radiusMiles = radiusLimits.length > 0 ? Math.min(...radiusLimits) : undefined;
+      
+      const conditions: SQL[] = [
+        eq(networkParticipants.active, true),
+        not(isNull(networkParticipants.latitude)),
+        not(isNull(networkParticipants.longitude))
+      ];
+      
+      if (radiusMiles !== undefined) {
+        conditions.push(this.withinRadius(latitude, longitude, radiusMiles));
+      }
       
-      // Apply type filter if provided
-      if (types && types.length > 0) {
-        query = query.where(inArray(networkParticipants.type, types as any));
+      if (params.types && params.types.length > 0) {
+        conditions.push(inArray(networkParticipants.type, params.types as any));
       }
       
-      // Apply bounding box filter if provided
-      if (boundingBox) {
-        query = query.where(
-          and(
-            sql`${networkParticipants.latitude}::float BETWEEN ${boundingBox.minLat} AND ${boundingBox.maxLat}`,
-            sql`${networkParticipants.longitude}::float BETWEEN ${boundingBox.minLng} AND ${boundingBox.maxLng}`
-          )
-        );
+      if (params.serviceType) {
+        conditions.push(inArray(
+          networkParticipants.id,
+          db.select({ id: participantServices.participantId })
+            .from(participantServices)
+            .innerJoin(networkServices, eq(participantServices.serviceId, networkServices.id))
+            .where(
+              and(
+                eq(networkServices.type, params.serviceType as any),
+                ne(participantServices.status, 'unavailable')
+              )
+            )
+        ));
       }
       
-      // Apply limit
-      query = query.limit(limit);
+      if (params.specialty) {
+        conditions.push(sql`${networkParticipants.specialties} @> ${JSON.stringify([params.specialty])}::jsonb`);
+      }
       
-      // Execute query
-      const participants = await query;
+      if (params.acceptingNewPatients !== undefined) {
+        conditions.push(eq(networkParticipants.acceptingNewPatients, params.acceptingNewPatients));
+      }
       
-      // For each participant, get their enabled services
-      const enrichedParticipants = [];
+      const quality = this.participantQuality(params.serviceType);
+      const distanceScale = radiusMiles || DEFAULT_DISTANCE_SCALE_MILES;
+      const score = sql<number>`(${DISTANCE_WEIGHT} * (1 - least(${distance} / ${distanceScale}, 1)) + ${QUALITY_WEIGHT} * coalesce(${quality}, ${NEUTRAL_QUALITY}))`;
       
-      for (const participant of participants) {
-        // Get services
-        const services = await this.getServicesByParticipant(participant.id);
-        
-        // Add services to participant
-        enrichedParticipants.push({
-          ...participant,
-          services: services.map(s => ({
-            id: s.id,
-            name: s.name,
-            type: s.type,
-            status: s.status
-          }))
-        });
+      const sort = params.sort || (params.nearest ? 'distance' : 'relevance');
+      const limit = Math.min(params.nearest || params.limit || 100, MAX_PROXIMITY_RESULTS);
+      
+      let query = db
+        .select({
+          id: networkParticipants.id,
+          name: networkParticipants.name,
+          displayName: networkParticipants.displayName,
+          type: networkParticipants.type,
+          latitude: networkParticipants.latitude,
+          longitude: networkParticipants.longitude,
+          address: networkParticipants.addressLine1,
+          city: networkParticipants.city,
+          state: networkParticipants.state,
+          postalCode: networkParticipants.postalCode,
+          specialties: networkParticipants.specialties,
+          acceptingNewPatients: networkParticipants.acceptingNewPatients,
+          distanceMiles: distance,
+          qualityScore: quality,
+          score,
+          services: this.participantServicesJson()
+        })
+        .from(networkParticipants)
+        .where(and(...conditions))
+        .orderBy(...(sort === 'distance' ? [asc(distance)] : [desc(score), asc(distance)]))
+        .limit(limit);
+      
+      if (params.offset) {
+        query = query.offset(params.offset);
       }
       
-      return enrichedParticipants;
+      const rows = await query;
+      
+      return rows.map(row => {
+        const estimatedDriveMinutes = Math.round(estimateDriveMinutes(row.distanceMiles));
+        return {
+          ...row,
+          latitude: row.latitude!,
+          longitude: row.longitude!,
+          distanceMiles: Math.round(row.distanceMiles * 100) / 100,
+          estimatedDriveMinutes,
+          driveTimeBand: params.driveTimeBands ? driveTimeBand(estimatedDriveMinutes, params.driveTimeBands) : undefined
+        };
+      });
     } catch (error) {
-      logger.error('Error getting map participants:', error);
+      logger.error('Error finding nearby network participants:', error);
       throw error;
     }
   }
   
+  /**
+   * Condition for participants within a radius of a point: a bounding box the
+   * location index can use, then the exact distance
+   */
+  private withinRadius(latitude: number, longitude: number, radiusMiles: number): SQL {
+    const box = boundingBox(latitude, longitude, radiusMiles);
+    
+    return and(
+      between(networkParticipants.latitude, box.minLat, box.maxLat),
+      between(networkParticipants.longitude, box.minLng, box.maxLng),
+      lte(haversineMilesSql(networkParticipants.latitude, networkParticipants.longitude, latitude, longitude), radiusMiles)
+    )!;
+  }
+  
+  /**
+   * Subquery for the latest metrics of the participant service in the
+   * enclosing query, as success_rate (0-1), uptime and average_response_time
+   */
+  private latestServiceMetrics(): SQL {
+    return sql`lateral (
+      select
+        ${metricNumber(networkServiceMetrics.successfulRequests)} / nullif(${metricNumber(networkServiceMetrics.totalRequests)}, 0) as success_rate,
+        ${metricNumber(networkServiceMetrics.uptime)} as uptime,
+        ${metricNumber(networkServiceMetrics.averageResponseTime)} as average_response_time
+      from ${networkServiceMetrics}
+      where ${networkServiceMetrics.participantServiceId} = ${participantServices.id}
+      order by ${networkServiceMetrics.periodEnd} desc
+      limit 1
+    )`;
+  }
+  
+  /**
+   * Correlated subquery for a participant's services with their latest metrics, as JSON
+   */
+  private participantServicesJson(): SQL<NearbyParticipantService[]> {
+    return sql<NearbyParticipantService[]>`coalesce((
+      select json_agg(json_build_object(
+        'id', ${networkServices.id},
+        'name', ${networkServices.name},
+        'type', ${networkServices.type},
+        'status', ${participantServices.status},
+        'successRate', latest.success_rate,
+        'uptime', latest.uptime,
+        'averageResponseTime', latest.average_response_time
+      ) order by ${networkServices.name})
+      from ${participantServices}
+      inner join ${networkServices} on ${networkServices.id} = ${participantServices.serviceId}
+      left join ${this.latestServiceMetrics()} latest on true
+      where ${participantServices.participantId} = ${networkParticipants.id}
+    ), '[]'::json)`;
+  }
+  
+  /**
+   * Correlated subquery for a participant's service quality (0-1): the mean
+   * over its services (of a type, if given) of success rate and uptime from
+   * their latest metrics. Null when no service has metrics.
+   */
+  private participantQuality(serviceType?: string): SQL<number | null> {
+    return sql<number | null>`(
+      select avg((
+        coalesce(latest.success_rate, latest.uptime / 100) +
+        coalesce(latest.uptime / 100, latest.success_rate)
+      ) / 2)
+      from ${participantServices}
+      inner join ${networkServices} on ${networkServices.id} = ${participantServices.serviceId}
+      left join ${this.latestServiceMetrics()} latest on true
+      where ${participantServices.participantId} = ${networkParticipants.id}
+      ${serviceType ? sql`and ${networkServices.type} = ${serviceType}` : sql``}
+    )`;
+  }
+  
   /**
    * Get network statistics for visualization
    */
@@ -1115,5 +1409,12 @@ export class NetworkDirectoryService {
   }
 }
 
+/**
+ * Read a metric stored as text (e.g. "99.5" or "99.5%") as a number, null if blank
+ */
+function metricNumber(column: AnyColumn): SQL<number | null> {
+  return sql<number | null>`nullif(regexp_replace(${column}, '[^0-9.]', '', 'g'), '')::float`;
+}
+
 // Create and export the service instance
 export const networkDirectoryService = new NetworkDirectoryService();
\ No newline at end of file
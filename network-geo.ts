@@ -0,0 +1,98 @@
+/**
+ * Smart Health Hub - Network Geography
+ *
+ * Distance and drive time helpers for proximity search over network
+ * participants. Distances are great-circle (haversine) miles; drive times are
+ * estimated from distance, since no routing engine is available.
+ */
+
+import { sql, type SQL, type AnyColumn } from 'drizzle-orm';
+
+export const EARTH_RADIUS_MILES = 3958.8;
+
+// Road distance is longer than the straight line between two points
+const ROAD_CIRCUITY = 1.3;
+// The first road miles are driven at urban speed, the rest at highway speed
+const URBAN_ROAD_MILES = 10;
+const URBAN_SPEED_MPH = 25;
+const HIGHWAY_SPEED_MPH = 50;
+
+export interface BoundingBox {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+/**
+ * Great-circle distance in miles between two points
+ */
+export function haversineMiles(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * SQL expression for the great-circle distance in miles from a point to the
+ * coordinates in two columns
+ */
+export function haversineMilesSql(latColumn: AnyColumn | SQL, lngColumn: AnyColumn | SQL, lat: number, lng: number): SQL<number> {
+  return sql<number>`(2 * ${EARTH_RADIUS_MILES} * asin(least(1, sqrt(
+    power(sin(radians(${latColumn} - ${lat}) / 2), 2) +
+    cos(radians(${lat})) * cos(radians(${latColumn})) * power(sin(radians(${lngColumn} - ${lng}) / 2), 2)
+  ))))`;
+}
+
+/**
+ * Box containing every point within a radius, for an index-assisted prefilter.
+ * Near the poles or across the antimeridian the box covers all longitudes.
+ */
+export function boundingBox(lat: number, lng: number, radiusMiles: number): BoundingBox {
+  const latDelta = (radiusMiles / EARTH_RADIUS_MILES) * (180 / Math.PI);
+  const minLat = Math.max(-90, lat - latDelta);
+  const maxLat = Math.min(90, lat + latDelta);
+
+  const cosLat = Math.cos(lat * Math.PI / 180);
+  const lngDelta = cosLat > 1e-6 ? latDelta / cosLat : 360;
+  if (minLat <= -90 || maxLat >= 90 || lngDelta >= 180 || lng - lngDelta < -180 || lng + lngDelta > 180) {
+    return { minLat, maxLat, minLng: -180, maxLng: 180 };
+  }
+
+  return { minLat, maxLat, minLng: lng - lngDelta, maxLng: lng + lngDelta };
+}
+
+/**
+ * Estimated drive time in minutes for a straight-line distance
+ */
+export function estimateDriveMinutes(distanceMiles: number): number {
+  const roadMiles = distanceMiles * ROAD_CIRCUITY;
+  const urbanMiles = Math.min(roadMiles, URBAN_ROAD_MILES);
+  const highwayMiles = roadMiles - urbanMiles;
+
+  return (urbanMiles / URBAN_SPEED_MPH + highwayMiles / HIGHWAY_SPEED_MPH) * 60;
+}
+
+/**
+ * Straight-line distance reachable within a drive time (inverse of estimateDriveMinutes)
+ */
+export function driveMinutesToMiles(minutes: number): number {
+  const urbanMinutes = (URBAN_ROAD_MILES / URBAN_SPEED_MPH) * 60;
+  const roadMiles = minutes <= urbanMinutes
+    ? (minutes / 60) * URBAN_SPEED_MPH
+    : URBAN_ROAD_MILES + ((minutes - urbanMinutes) / 60) * HIGHWAY_SPEED_MPH;
+
+  return roadMiles / ROAD_CIRCUITY;
+}
+
+/**
+ * The smallest drive-time band (in minutes) a drive time falls within, or
+ * undefined if it is beyond every band
+ */
+export function driveTimeBand(minutes: number, bands: number[]): number | undefined {
+  return [...bands].sort((a, b) => a - b).find(band => minutes <= band);
+}
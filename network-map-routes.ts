@@ -0,0 +1,122 @@
+/**
+ * Network Map API Routes
+ *
+ * Proximity search behind the network map: participants around a point, with
+ * their services and latest metrics, so the map loads the area it shows
+ * rather than the whole directory.
+ */
+
+import express from 'express';
+import { z } from 'zod';
+import logger from '../../utils/logger';
+import { networkDirectoryService } from './network-directory-service';
+
+// Create a router
+const router = express.Router();
+
+// Middleware to check if the user is authenticated
+const isAuthenticated = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'Not authenticated' });
+  }
+  next();
+};
+
+// Comma-separated or repeated query parameter
+const listParam = z
+  .union([z.string(), z.array(z.string())])
+  .transform(value => (Array.isArray(value) ? value : value.split(',')).map(item => item.trim()).filter(Boolean));
+
+const nearbySchema = z
+  .object({
+    latitude: z.coerce.number().min(-90).max(90),
+    longitude: z.coerce.number().min(-180).max(180),
+    radiusMiles: z.coerce.number().positive().max(500).optional(),
+    maxDriveMinutes: z.coerce.number().positive().max(600).optional(),
+    nearest: z.coerce.number().int().min(1).max(500).optional(),
+    driveTimeBands: listParam.pipe(z.array(z.coerce.number().positive())).optional(),
+    types: listParam.optional(),
+    serviceType: z.string().optional(),
+    specialty: z.string().optional(),
+    acceptingNewPatients: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+    sort: z.enum(['distance', 'relevance']).optional(),
+    limit: z.coerce.number().int().min(1).max(500).default(100),
+    offset: z.coerce.number().int().min(0).default(0)
+  })
+  // An unbounded search would rank the whole directory
+  .refine(query => query.radiusMiles !== undefined || query.maxDriveMinutes !== undefined || query.nearest !== undefined, {
+    message: 'One of radiusMiles, maxDriveMinutes or nearest is required'
+  });
+
+/**
+ * @swagger
+ * /api/network/map/participants/nearby:
+ *   get:
+ *     summary: Find participants near a point
+ *     tags: [Network Map]
+ *     security:
+ *       - bearerAuth: []
+ *     description: >
+ *       Participants within radiusMiles or maxDriveMinutes of the point, or the
+ *       nearest N, with their services. Results are ranked by distance, or by
+ *       distance and service quality when sort is relevance.
+ *     parameters:
+ *       - in: query
+ *         name: latitude
+ *         required: true
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: longitude
+ *         required: true
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: radiusMiles
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: maxDriveMinutes
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: nearest
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: driveTimeBands
+ *         description: Comma-separated drive-time bands in minutes, e.g. 15,30,60
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: types
+ *         description: Comma-separated participant types
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: serviceType
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Nearby participants with distance, estimated drive time and services
+ *       400:
+ *         description: Invalid search, or no radius, drive time or nearest limit
+ *       401:
+ *         description: Not authenticated
+ */
+router.get('/participants/nearby', isAuthenticated, async (req, res) => {
+  try {
+    const query = nearbySchema.parse(req.query);
+    const participants = await networkDirectoryService.findNearbyParticipants(query);
+    res.json(participants);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid proximity search', errors: error.errors });
+    }
+    logger.error('Error finding nearby network participants:', error);
+    res.status(500).json({ message: 'Failed to find nearby participants', error: (error as Error).message });
+  }
+});
+
+export default router;
@@ -0,0 +1,374 @@
+/**
+ * Network Onboarding API Routes
+ *
+ * Staged onboarding of network connections: request, technical validation,
+ * legal review against a contract, and activation.
+ */
+
+import express from 'express';
+import { z } from 'zod';
+import logger from '../../utils/logger';
+import { networkOnboardingService, ConnectionOnboardingError } from './network-onboarding-service';
+
+// Create a router
+const router = express.Router();
+
+// Middleware to check if the user has admin permissions
+const isAdmin = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'Not authenticated' });
+  }
+  if (req.user?.role !== 'admin') {
+    return res.status(403).json({ message: 'Forbidden: Admin access required' });
+  }
+  next();
+};
+
+const onboardingStages = ['requested', 'technically_validated', 'legally_approved', 'activated', 'rejected'] as const;
+
+const requestConnectionSchema = z.object({
+  sourceParticipantId: z.string().uuid(),
+  targetParticipantId: z.string().uuid(),
+  enabledServices: z.array(z.string()).optional(),
+  connectionProfileId: z.number().int().positive().optional(),
+  connectionDetails: z.record(z.string(), z.any()).optional(),
+  notes: z.string().optional()
+});
+
+const listQueueSchema = z.object({
+  stage: z.union([z.enum(onboardingStages), z.array(z.enum(onboardingStages))]).optional()
+});
+
+const validateConnectionSchema = z.object({
+  connectionProfileId: z.number().int().positive().optional() // Defaults to the connection's profile
+});
+
+const attachContractSchema = z.object({
+  contractId: z.number().int().positive()
+});
+
+const rejectConnectionSchema = z.object({
+  reason: z.string().min(1)
+});
+
+/**
+ * Send an error, using the status of onboarding errors
+ */
+function sendError(res: express.Response, error: unknown, action: string, invalidMessage: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: invalidMessage, errors: error.errors });
+  }
+  if (error instanceof ConnectionOnboardingError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+
+  logger.error(`Error ${action}`, { error: (error as Error).message });
+  res.status(500).json({ message: `Failed ${action}`, error: (error as Error).message });
+}
+
+/**
+ * @swagger
+ * /api/network/onboarding/connections:
+ *   post:
+ *     summary: Request a connection between two network participants
+ *     tags: [Network Onboarding]
+ *     security:
+ *       - bearerAuth: []
+ *     description: >
+ *       Creates a pending connection in the requested stage. It must pass
+ *       technical validation and legal review before it can be activated.
+ *     responses:
+ *       201:
+ *         description: Connection requested
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - admin access required
+ *       404:
+ *         description: Participant not found
+ *       409:
+ *         description: A connection already exists between the participants
+ */
+router.post('/connections', isAdmin, async (req, res) => {
+  try {
+    const request = requestConnectionSchema.parse(req.body);
+    const connection = await networkOnboardingService.requestConnection(request, String(req.user!.id));
+    res.status(201).json(connection);
+  } catch (error) {
+    sendError(res, error, 'requesting network connection', 'Invalid connection request');
+  }
+});
+
+/**
+ * @swagger
+ * /api/network/onboarding/connections:
+ *   get:
+ *     summary: List connections in onboarding
+ *     tags: [Network Onboarding]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Connections in the given stages (by default those not yet activated or rejected), oldest first.
+ *     responses:
+ *       200:
+ *         description: Connections
+ *       400:
+ *         description: Invalid query
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - admin access required
+ */
+router.get('/connections', isAdmin, async (req, res) => {
+  try {
+    const { stage } = listQueueSchema.parse(req.query);
+    const stages = stage === undefined ? undefined : Array.isArray(stage) ? stage : [stage];
+    const connections = await networkOnboardingService.getOnboardingQueue(stages);
+    res.json(connections);
+  } catch (error) {
+    sendError(res, error, 'listing onboarding connections', 'Invalid onboarding query');
+  }
+});
+
+/**
+ * @swagger
+ * /api/network/onboarding/connections/{id}/validate:
+ *   post:
+ *     summary: Run technical validation of a connection
+ *     tags: [Network Onboarding]
+ *     security:
+ *       - bearerAuth: []
+ *     description: >
+ *       Tests the connection profile through its protocol adapter. A passing
+ *       test moves the connection to technically_validated; a failing one
+ *       leaves it requested so it can be tested again.
+ *     responses:
+ *       200:
+ *         description: The connection and the test result
+ *       400:
+ *         description: Invalid request, or no connection profile to test
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - admin access required
+ *       404:
+ *         description: Connection not found
+ *       409:
+ *         description: Connection is not awaiting technical validation
+ *       422:
+ *         description: Connection profile not found
+ */
+router.post('/connections/:id/validate', isAdmin, async (req, res) => {
+  try {
+    const { connectionProfileId } = validateConnectionSchema.parse(req.body);
+    const outcome = await networkOnboardingService.validateConnection(req.params.id, String(req.user!.id), connectionProfileId);
+    if (!outcome) {
+      return res.status(404).json({ message: 'Connection not found' });
+    }
+
+    res.json(outcome);
+  } catch (error) {
+    sendError(res, error, 'validating network connection', 'Invalid validation request');
+  }
+});
+
+/**
+ * @swagger
+ * /api/network/onboarding/connections/{id}/contract:
+ *   post:
+ *     summary: Complete legal review by attaching a contract
+ *     tags: [Network Onboarding]
+ *     security:
+ *       - bearerAuth: []
+ *     description: >
+ *       The contract must be in force, and both participants (by their
+ *       contract organization IDs) must be active contract participants.
+ *     responses:
+ *       200:
+ *         description: Legally approved connection
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - admin access required
+ *       404:
+ *         description: Connection not found
+ *       409:
+ *         description: Connection has not passed technical validation
+ *       422:
+ *         description: Contract not found, not in force, or missing a participant
+ */
+router.post('/connections/:id/contract', isAdmin, async (req, res) => {
+  try {
+    const { contractId } = attachContractSchema.parse(req.body);
+    const connection = await networkOnboardingService.attachContract(req.params.id, contractId, String(req.user!.id));
+    if (!connection) {
+      return res.status(404).json({ message: 'Connection not found' });
+    }
+
+    res.json(connection);
+  } catch (error) {
+    sendError(res, error, 'attaching contract to network connection', 'Invalid contract request');
+  }
+});
+
+/**
+ * @swagger
+ * /api/network/onboarding/connections/{id}/activate:
+ *   post:
+ *     summary: Activate a legally approved connection
+ *     tags: [Network Onboarding]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active connection
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - admin access required
+ *       404:
+ *         description: Connection not found
+ *       409:
+ *         description: Connection has not passed legal review
+ *       422:
+ *         description: Contract is no longer in force or no longer lists both participants
+ */
+router.post('/connections/:id/activate', isAdmin, async (req, res) => {
+  try {
+    const connection = await networkOnboardingService.activateConnection(req.params.id, String(req.user!.id));
+    if (!connection) {
+      return res.status(404).json({ message: 'Connection not found' });
+    }
+
+    res.json(connection);
+  } catch (error) {
+    sendError(res, error, 'activating network connection', 'Invalid activation request');
+  }
+});
+
+/**
+ * @swagger
+ * /api/network/onboarding/connections/{id}/reactivate:
+ *   post:
+ *     summary: Return a suspended connection to service once its contract is in force again
+ *     tags: [Network Onboarding]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active connection
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - admin access required
+ *       404:
+ *         description: Connection not found
+ *       409:
+ *         description: Connection is not suspended
+ *       422:
+ *         description: Contract is not in force or no longer lists both participants
+ */
+router.post('/connections/:id/reactivate', isAdmin, async (req, res) => {
+  try {
+    const connection = await networkOnboardingService.reactivateConnection(req.params.id, String(req.user!.id));
+    if (!connection) {
+      return res.status(404).json({ message: 'Connection not found' });
+    }
+
+    res.json(connection);
+  } catch (error) {
+    sendError(res, error, 'reactivating network connection', 'Invalid reactivation request');
+  }
+});
+
+/**
+ * @swagger
+ * /api/network/onboarding/connections/{id}/reject:
+ *   post:
+ *     summary: Reject a connection in onboarding
+ *     tags: [Network Onboarding]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Rejected (terminated) connection
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - admin access required
+ *       404:
+ *         description: Connection not found
+ *       409:
+ *         description: Connection is already activated or rejected
+ */
+router.post('/connections/:id/reject', isAdmin, async (req, res) => {
+  try {
+    const { reason } = rejectConnectionSchema.parse(req.body);
+    const connection = await networkOnboardingService.rejectConnection(req.params.id, String(req.user!.id), reason);
+    if (!connection) {
+      return res.status(404).json({ message: 'Connection not found' });
+    }
+
+    res.json(connection);
+  } catch (error) {
+    sendError(res, error, 'rejecting network connection', 'Invalid rejection');
+  }
+});
+
+/**
+ * @swagger
+ * /api/network/onboarding/connections/{id}/events:
+ *   get:
+ *     summary: Get the onboarding history of a connection
+ *     tags: [Network Onboarding]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Onboarding and suspension events, oldest first
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - admin access required
+ */
+router.get('/connections/:id/events', isAdmin, async (req, res) => {
+  try {
+    const events = await networkOnboardingService.getOnboardingEvents(req.params.id);
+    res.json(events);
+  } catch (error) {
+    sendError(res, error, 'getting onboarding events', 'Invalid request');
+  }
+});
+
+/**
+ * @swagger
+ * /api/network/onboarding/contract-expiry:
+ *   post:
+ *     summary: Suspend active connections whose contract has expired now
+ *     tags: [Network Onboarding]
+ *     security:
+ *       - bearerAuth: []
+ *     description: The same sweep runs periodically in the background.
+ *     responses:
+ *       200:
+ *         description: Number of connections suspended
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - admin access required
+ */
+router.post('/contract-expiry', isAdmin, async (req, res) => {
+  try {
+    const suspended = await networkOnboardingService.suspendExpiredConnections();
+    res.json({ suspended });
+  } catch (error) {
+    sendError(res, error, 'suspending connections with expired contracts', 'Invalid request');
+  }
+});
+
+export default router;
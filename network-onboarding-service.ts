@@ -0,0 +1,620 @@
+/**
+ * Smart Health Hub - Network Onboarding Service
+ *
+ * Staged onboarding of connections between network participants. A requested
+ * connection stays pending until it passes technical validation (a test of its
+ * connection profile through the protocol adapter), legal review (a contract on
+ * which both participants are listed) and activation. Each transition records a
+ * network event, and active connections are suspended when their contract expires.
+ */
+
+import { eq, ne, and, or, asc, inArray, lte, isNotNull, sql } from 'drizzle-orm';
+import { db } from '../../db';
+import logger from '../../utils/logger';
+import {
+  networkConnections,
+  networkParticipants,
+  networkEvents,
+  type NetworkConnection,
+  type NetworkParticipant,
+  type ConnectionValidationResult,
+  type ParticipantExternalIdentifiers
+} from '../../../shared/network-directory-schema';
+import { contracts, contractParticipants, type Contract } from '../../../shared/contract-schema';
+import { connectionProfiles } from '../../../shared/integration-schema';
+import { ProtocolAdapterFactory } from '../../protocols/protocol-adapter';
+import { FHIRR4Adapter } from '../../protocols/fhir-r4-adapter';
+import { networkDirectoryService } from './network-directory-service';
+
+export type OnboardingStage = 'requested' | 'technically_validated' | 'legally_approved' | 'activated' | 'rejected';
+
+// Contracts in these statuses cannot back a connection
+const INACTIVE_CONTRACT_STATUSES = ['draft', 'terminated', 'expired'];
+
+type DbExecutor = Pick<typeof db, 'select' | 'insert' | 'update'>;
+
+/**
+ * An onboarding request or transition that is not allowed, with the HTTP status to report
+ */
+export class ConnectionOnboardingError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 409
+  ) {
+    super(message);
+    this.name = 'ConnectionOnboardingError';
+  }
+}
+
+/**
+ * Request to onboard a connection
+ */
+export interface ConnectionRequest {
+  sourceParticipantId: string;
+  targetParticipantId: string;
+  enabledServices?: string[];
+  connectionProfileId?: number;
+  connectionDetails?: Record<string, any>;
+  notes?: string;
+}
+
+/**
+ * Outcome of technical validation
+ */
+export interface ConnectionValidationOutcome {
+  connection: NetworkConnection;
+  validation: ConnectionValidationResult;
+}
+
+/**
+ * Network Onboarding Service class
+ */
+export class NetworkOnboardingService {
+  constructor(private adapterFactory: ProtocolAdapterFactory) {}
+
+  /**
+   * Request a connection. It is created pending, in the 'requested' stage.
+   */
+  async requestConnection(request: ConnectionRequest, requestedBy: string): Promise<NetworkConnection> {
+    try {
+      if (request.sourceParticipantId === request.targetParticipantId) {
+        throw new ConnectionOnboardingError('A participant cannot connect to itself', 400);
+      }
+
+      const participants = await this.getParticipants(db, [request.sourceParticipantId, request.targetParticipantId]);
+      for (const participantId of [request.sourceParticipantId, request.targetParticipantId]) {
+        if (!participants.has(participantId)) {
+          throw new ConnectionOnboardingError(`Participant ${participantId} not found`, 404);
+        }
+      }
+
+      if (request.connectionProfileId !== undefined) {
+        await this.assertConnectionProfile(request.connectionProfileId);
+      }
+
+      // One open connection per direction
+      const [existing] = await db
+        .select({ id: networkConnections.id })
+        .from(networkConnections)
+        .where(
+          and(
+            eq(networkConnections.sourceParticipantId, request.sourceParticipantId),
+            eq(networkConnections.targetParticipantId, request.targetParticipantId),
+            ne(networkConnections.status, 'terminated')
+          )
+        )
+        .limit(1);
+      if (existing) {
+        throw new ConnectionOnboardingError(`Connection ${existing.id} already exists between these participants`);
+      }
+
+      const [connection] = await db
+        .insert(networkConnections)
+        .values({
+          sourceParticipantId: request.sourceParticipantId,
+          targetParticipantId: request.targetParticipantId,
+          status: 'pending',
+          enabledServices: request.enabledServices,
+          connectionProfileId: request.connectionProfileId,
+          connectionDetails: request.connectionDetails,
+          onboardingStage: 'requested',
+          metadata: { onboarding: { requestedBy, notes: request.notes } }
+        })
+        .returning();
+
+      await this.recordTransition(connection, 'connection_onboarding_requested', 'info',
+        `Onboarding requested for connection from ${participants.get(request.sourceParticipantId)!.name} to ${participants.get(request.targetParticipantId)!.name}`,
+        { requestedBy });
+
+      logger.info(`Requested network connection: ${connection.id} (${request.sourceParticipantId} -> ${request.targetParticipantId})`);
+      return connection;
+    } catch (error) {
+      logger.error('Error requesting network connection:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Run technical validation: test the connection profile through its protocol
+   * adapter. A passing test moves the connection to 'technically_validated';
+   * a failing one leaves (or returns) it in 'requested' so it can be retested.
+   */
+  async validateConnection(id: string, userId: string, connectionProfileId?: number): Promise<ConnectionValidationOutcome | undefined> {
+    try {
+      const connection = await networkDirectoryService.getConnection(id);
+      if (!connection) {
+        return undefined;
+      }
+      this.assertStage(connection, ['requested', 'technically_validated'], 'run technical validation');
+
+      const profileId = connectionProfileId ?? connection.connectionProfileId;
+      if (profileId === null || profileId === undefined) {
+        throw new ConnectionOnboardingError(`Connection ${id} has no connection profile to test`, 400);
+      }
+      const profile = await this.assertConnectionProfile(profileId);
+
+      // Test outside the transaction; the endpoint may be slow to answer
+      const validation: ConnectionValidationResult = {
+        connected: false,
+        protocolType: profile.protocolType,
+        protocolVersion: profile.protocolVersion,
+        testedAt: new Date().toISOString()
+      };
+      try {
+        const adapter = this.adapterFactory.getAdapter(profile.protocolType, profile.protocolVersion);
+        const status = await adapter.testConnection(profile);
+        validation.connected = status.connected;
+        validation.lastError = status.lastError;
+        validation.metadata = status.metadata;
+      } catch (error) {
+        validation.lastError = (error as Error).message;
+      }
+
+      const updated = await db.transaction(async (tx) => {
+        const current = await this.lockConnection(tx, id);
+        // The connection may have moved on while the test ran
+        this.assertStage(current!, ['requested', 'technically_validated'], 'run technical validation');
+
+        const [row] = await tx
+          .update(networkConnections)
+          .set({
+            connectionProfileId: profileId,
+            lastValidation: validation,
+            onboardingStage: validation.connected ? 'technically_validated' : 'requested',
+            updatedAt: new Date()
+          })
+          .where(eq(networkConnections.id, id))
+          .returning();
+
+        return row;
+      });
+
+      if (validation.connected) {
+        await this.recordTransition(updated, 'connection_onboarding_validated', 'info',
+          `Connection passed technical validation (${profile.protocolType} ${profile.protocolVersion})`,
+          { validatedBy: userId, connectionProfileId: profileId, validation });
+      } else {
+        await this.recordTransition(updated, 'connection_onboarding_validation_failed', 'warning',
+          `Connection failed technical validation: ${validation.lastError || 'not connected'}`,
+          { validatedBy: userId, connectionProfileId: profileId, validation });
+      }
+
+      logger.info(`Technical validation of network connection ${id}: ${validation.connected ? 'passed' : 'failed'}`);
+      return { connection: updated, validation };
+    } catch (error) {
+      logger.error(`Error validating network connection ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Legal review: attach a contract on which both participants are active
+   * contract participants. Moves the connection to 'legally_approved'; a
+   * replacement contract can be attached until the connection is activated.
+   */
+  async attachContract(id: string, contractId: number, userId: string): Promise<NetworkConnection | undefined> {
+    try {
+      const updated = await db.transaction(async (tx) => {
+        const connection = await this.lockConnection(tx, id);
+        if (!connection) {
+          return undefined;
+        }
+        this.assertStage(connection, ['technically_validated', 'legally_approved'], 'attach a contract');
+
+        const contract = await this.assertContractCovers(tx, contractId, connection);
+
+        const [row] = await tx
+          .update(networkConnections)
+          .set({
+            contractId: contract.id,
+            contractReference: contract.title,
+            contractEffectiveDate: contract.effectiveDate,
+            contractEndDate: contract.expirationDate,
+            onboardingStage: 'legally_approved',
+            updatedAt: new Date()
+          })
+          .where(eq(networkConnections.id, id))
+          .returning();
+
+        return row;
+      });
+
+      if (!updated) {
+        return undefined;
+      }
+
+      await this.recordTransition(updated, 'connection_onboarding_contract_approved', 'info',
+        `Contract "${updated.contractReference}" approved for connection`,
+        { approvedBy: userId, contractId });
+
+      logger.info(`Attached contract ${contractId} to network connection ${id}`);
+      return updated;
+    } catch (error) {
+      logger.error(`Error attaching contract to network connection ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Activate a legally approved connection. The contract is checked again,
+   * since it may have expired or lost a participant since legal review.
+   */
+  async activateConnection(id: string, userId: string): Promise<NetworkConnection | undefined> {
+    try {
+      const updated = await db.transaction(async (tx) => {
+        const connection = await this.lockConnection(tx, id);
+        if (!connection) {
+          return undefined;
+        }
+        this.assertStage(connection, ['legally_approved'], 'activate it');
+
+        const contract = await this.assertContractCovers(tx, connection.contractId!, connection);
+
+        const now = new Date();
+        const [row] = await tx
+          .update(networkConnections)
+          .set({
+            status: 'active',
+            onboardingStage: 'activated',
+            contractEndDate: contract.expirationDate,
+            activatedAt: now,
+            lastStatusChangeAt: now,
+            updatedAt: now
+          })
+          .where(eq(networkConnections.id, id))
+          .returning();
+
+        return row;
+      });
+
+      if (!updated) {
+        return undefined;
+      }
+
+      await this.recordTransition(updated, 'connection_onboarding_activated', 'info',
+        'Connection activated', { activatedBy: userId, contractId: updated.contractId });
+
+      logger.info(`Activated network connection: ${id}`);
+      return updated;
+    } catch (error) {
+      logger.error(`Error activating network connection ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Return a suspended connection to service. Its contract is checked again,
+   * as at activation; connections created before onboarding that have no
+   * linked contract are checked against their own contract end date.
+   */
+  async reactivateConnection(id: string, userId: string): Promise<NetworkConnection | undefined> {
+    try {
+      const updated = await db.transaction(async (tx) => {
+        const connection = await this.lockConnection(tx, id);
+        if (!connection) {
+          return undefined;
+        }
+        if (connection.onboardingStage && connection.onboardingStage !== 'activated') {
+          throw new ConnectionOnboardingError(
+            `Connection ${id} is ${connection.onboardingStage}; it must complete onboarding before activation`);
+        }
+        if (connection.status !== 'suspended') {
+          throw new ConnectionOnboardingError(`Connection ${id} is ${connection.status}; only suspended connections can be reactivated`);
+        }
+
+        const now = new Date();
+        let contractEndDate = connection.contractEndDate;
+        if (connection.contractId !== null) {
+          contractEndDate = (await this.assertContractCovers(tx, connection.contractId, connection)).expirationDate;
+        } else if (contractEndDate && contractEndDate <= now) {
+          throw new ConnectionOnboardingError(`Connection ${id}'s contract ended on ${contractEndDate.toISOString()}`, 422);
+        }
+
+        const [row] = await tx
+          .update(networkConnections)
+          .set({
+            status: 'active',
+            contractEndDate,
+            lastStatusChangeAt: now,
+            updatedAt: now
+          })
+          .where(eq(networkConnections.id, id))
+          .returning();
+
+        return row;
+      });
+
+      if (!updated) {
+        return undefined;
+      }
+
+      await this.recordTransition(updated, 'connection_onboarding_reactivated', 'info',
+        'Connection reactivated', { reactivatedBy: userId, contractId: updated.contractId });
+
+      logger.info(`Reactivated network connection: ${id}`);
+      return updated;
+    } catch (error) {
+      logger.error(`Error reactivating network connection ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reject a connection that has not been activated; it is terminated
+   */
+  async rejectConnection(id: string, userId: string, reason: string): Promise<NetworkConnection | undefined> {
+    try {
+      const updated = await db.transaction(async (tx) => {
+        const connection = await this.lockConnection(tx, id);
+        if (!connection) {
+          return undefined;
+        }
+        this.assertStage(connection, ['requested', 'technically_validated', 'legally_approved'], 'reject it');
+
+        const now = new Date();
+        const [row] = await tx
+          .update(networkConnections)
+          .set({
+            status: 'terminated',
+            onboardingStage: 'rejected',
+            lastStatusChangeAt: now,
+            updatedAt: now
+          })
+          .where(eq(networkConnections.id, id))
+          .returning();
+
+        return row;
+      });
+
+      if (!updated) {
+        return undefined;
+      }
+
+      await this.recordTransition(updated, 'connection_onboarding_rejected', 'info',
+        `Connection rejected: ${reason}`, { rejectedBy: userId, reason });
+
+      logger.info(`Rejected network connection: ${id}`);
+      return updated;
+    } catch (error) {
+      logger.error(`Error rejecting network connection ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * List connections in onboarding, oldest first
+   */
+  async getOnboardingQueue(stages: OnboardingStage[] = ['requested', 'technically_validated', 'legally_approved']): Promise<NetworkConnection[]> {
+    try {
+      return await db
+        .select()
+        .from(networkConnections)
+        .where(inArray(networkConnections.onboardingStage, stages))
+        .orderBy(asc(networkConnections.initiatedAt));
+    } catch (error) {
+      logger.error('Error getting network onboarding queue:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the onboarding events of a connection, oldest first
+   */
+  async getOnboardingEvents(id: string): Promise<any[]> {
+    try {
+      return await db
+        .select()
+        .from(networkEvents)
+        .where(
+          and(
+            eq(networkEvents.connectionId, id),
+            or(
+              sql`${networkEvents.eventType} like 'connection_onboarding_%'`,
+              eq(networkEvents.eventType, 'connection_suspended')
+            )
+          )
+        )
+        .orderBy(asc(networkEvents.eventTime));
+    } catch (error) {
+      logger.error(`Error getting onboarding events for network connection ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Suspend active connections whose contract has expired. The contract's
+   * current expiration date is used, falling back to the connection's own
+   * contract end date for connections without a linked contract.
+   */
+  async suspendExpiredConnections(now: Date = new Date()): Promise<number> {
+    const expirationDate = sql<Date | null>`coalesce(${contracts.expirationDate}, ${networkConnections.contractEndDate})`;
+
+    const expired = await db
+      .select({ id: networkConnections.id, contractId: networkConnections.contractId, expiredAt: expirationDate })
+      .from(networkConnections)
+      .leftJoin(contracts, eq(contracts.id, networkConnections.contractId))
+      .where(
+        and(
+          eq(networkConnections.status, 'active'),
+          isNotNull(expirationDate),
+          lte(expirationDate, now)
+        )
+      );
+
+    if (expired.length === 0) {
+      return 0;
+    }
+
+    const expiredAt = new Map(expired.map(row => [row.id, row.expiredAt]));
+    const suspended = await db
+      .update(networkConnections)
+      .set({ status: 'suspended', lastStatusChangeAt: now, updatedAt: now })
+      .where(
+        and(
+          inArray(networkConnections.id, expired.map(row => row.id)),
+          eq(networkConnections.status, 'active')
+        )
+      )
+      .returning();
+
+    for (const connection of suspended) {
+      const contractEnd = expiredAt.get(connection.id);
+      await networkDirectoryService.recordNetworkEvent({
+        eventType: 'connection_suspended',
+        severity: 'warning',
+        description: connection.contractReference
+          ? `Connection suspended: contract "${connection.contractReference}" expired`
+          : 'Connection suspended: contract expired',
+        connectionId: connection.id,
+        eventData: {
+          reason: 'contract_expired',
+          contractId: connection.contractId,
+          expiredAt: contractEnd ? new Date(contractEnd).toISOString() : null
+        }
+      });
+    }
+
+    if (suspended.length > 0) {
+      logger.info('Contract expiry sweep complete', { connectionsSuspended: suspended.length });
+    }
+
+    return suspended.length;
+  }
+
+  /**
+   * Start suspending connections with expired contracts on a timer
+   */
+  startPeriodicContractExpiry(intervalMs: number = 60 * 60 * 1000): void {
+    setInterval(() => {
+      this.suspendExpiredConnections().catch(error => {
+        logger.error('Error in periodic connection contract expiry:', error);
+      });
+    }, intervalMs).unref();
+  }
+
+  /**
+   * Check that a contract is in force and lists both participants of the
+   * connection as active contract participants
+   */
+  private async assertContractCovers(tx: DbExecutor, contractId: number, connection: NetworkConnection): Promise<Contract> {
+    const [contract] = await tx.select().from(contracts).where(eq(contracts.id, contractId));
+    if (!contract) {
+      throw new ConnectionOnboardingError(`Contract ${contractId} not found`, 422);
+    }
+    if (INACTIVE_CONTRACT_STATUSES.includes(contract.status)) {
+      throw new ConnectionOnboardingError(`Contract ${contractId} is ${contract.status}`, 422);
+    }
+    if (contract.expirationDate && contract.expirationDate <= new Date()) {
+      throw new ConnectionOnboardingError(`Contract ${contractId} expired on ${contract.expirationDate.toISOString()}`, 422);
+    }
+
+    const participantIds = [connection.sourceParticipantId, connection.targetParticipantId];
+    const participants = await this.getParticipants(tx, participantIds);
+
+    const organizationIds = new Map<string, number>();
+    for (const participantId of participantIds) {
+      const organizationId = (participants.get(participantId)?.externalIdentifiers as ParticipantExternalIdentifiers | null)
+        ?.contractOrganizationId;
+      if (typeof organizationId !== 'number') {
+        throw new ConnectionOnboardingError(
+          `Participant ${participants.get(participantId)?.name || participantId} has no contract organization ID`, 422);
+      }
+      organizationIds.set(participantId, organizationId);
+    }
+
+    const listed = await tx
+      .select({ organizationId: contractParticipants.organizationId })
+      .from(contractParticipants)
+      .where(
+        and(
+          eq(contractParticipants.contractId, contractId),
+          inArray(contractParticipants.organizationId, Array.from(organizationIds.values())),
+          eq(contractParticipants.status, 'active')
+        )
+      );
+    const listedIds = new Set(listed.map(row => row.organizationId));
+
+    const missing = participantIds.filter(participantId => !listedIds.has(organizationIds.get(participantId)!));
+    if (missing.length > 0) {
+      const names = missing.map(participantId => participants.get(participantId)!.name).join(' and ');
+      throw new ConnectionOnboardingError(`${names} must be participants on contract ${contractId}`, 422);
+    }
+
+    return contract;
+  }
+
+  private async assertConnectionProfile(id: number) {
+    const [profile] = await db.select().from(connectionProfiles).where(eq(connectionProfiles.id, id));
+    if (!profile) {
+      throw new ConnectionOnboardingError(`Connection profile ${id} not found`, 422);
+    }
+    return profile;
+  }
+
+  private assertStage(connection: NetworkConnection, allowed: OnboardingStage[], action: string): void {
+    if (!connection.onboardingStage) {
+      throw new ConnectionOnboardingError(`Connection ${connection.id} was not created through onboarding`);
+    }
+    if (!allowed.includes(connection.onboardingStage as OnboardingStage)) {
+      throw new ConnectionOnboardingError(
+        `Connection ${connection.id} is ${connection.onboardingStage}; it must be ${allowed.join(' or ')} to ${action}`);
+    }
+  }
+
+  private async lockConnection(tx: DbExecutor, id: string): Promise<NetworkConnection | undefined> {
+    const [connection] = await tx
+      .select()
+      .from(networkConnections)
+      .where(eq(networkConnections.id, id))
+      .for('update'); // Lock the row
+    return connection;
+  }
+
+  private async getParticipants(executor: DbExecutor, ids: string[]): Promise<Map<string, NetworkParticipant>> {
+    const rows = await executor.select().from(networkParticipants).where(inArray(networkParticipants.id, ids));
+    return new Map(rows.map(row => [row.id, row as NetworkParticipant]));
+  }
+
+  private async recordTransition(
+    connection: NetworkConnection,
+    eventType: string,
+    severity: string,
+    description: string,
+    eventData: Record<string, any>
+  ): Promise<void> {
+    await networkDirectoryService.recordNetworkEvent({
+      eventType,
+      severity,
+      description,
+      connectionId: connection.id,
+      eventData: { ...eventData, onboardingStage: connection.onboardingStage, status: connection.status }
+    });
+  }
+}
+
+// Protocol adapters used for technical validation
+const adapterFactory = new ProtocolAdapterFactory();
+adapterFactory.registerAdapter(new FHIRR4Adapter());
+
+// Create and export the service instance
+export const networkOnboardingService = new NetworkOnboardingService(adapterFactory);
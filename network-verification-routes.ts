@@ -0,0 +1,212 @@
+/**
+ * Network Verification API Routes
+ *
+ * NPPES imports that bulk load or verify network participants, and the review
+ * list of participants whose directory data disagrees with NPPES.
+ */
+
+import express from 'express';
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import logger from '../../utils/logger';
+import { nppesImportService } from './nppes-import-service';
+
+// NPPES dissemination files are large, so they are placed on the server rather than uploaded
+const NPPES_IMPORT_DIR = process.env.NPPES_IMPORT_DIR || 'imports/nppes';
+
+// Create a router
+const router = express.Router();
+
+// Middleware to check if the user has admin permissions
+const isAdmin = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'Not authenticated' });
+  }
+  if (req.user?.role !== 'admin') {
+    return res.status(403).json({ message: 'Forbidden: Admin access required' });
+  }
+  next();
+};
+
+const startImportSchema = z.object({
+  fileName: z.string().min(1), // File in the NPPES import directory
+  createMissing: z.boolean().default(false),
+  states: z.array(z.string().length(2)).optional()
+});
+
+const listReviewsSchema = z.object({
+  status: z.enum(['open', 'accepted', 'dismissed', 'superseded']).default('open'),
+  participantId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const resolveReviewSchema = z.object({
+  decision: z.enum(['accept', 'dismiss']),
+  notes: z.string().optional()
+});
+
+/**
+ * @swagger
+ * /api/network/verification/nppes/imports:
+ *   post:
+ *     summary: Import an NPPES dissemination file to verify or bulk load participants
+ *     tags: [Network Verification]
+ *     security:
+ *       - bearerAuth: []
+ *     description: >
+ *       Reads a CSV file from the server's NPPES import directory. Participants
+ *       are matched by NPI; set createMissing to also create participants for
+ *       NPIs not in the directory. The import runs in the background.
+ *     responses:
+ *       202:
+ *         description: Import started
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - admin access required
+ *       404:
+ *         description: File not found in the import directory
+ */
+router.post('/nppes/imports', isAdmin, async (req, res) => {
+  try {
+    const { fileName, createMissing, states } = startImportSchema.parse(req.body);
+
+    // Only files directly in the import directory
+    const filePath = path.join(NPPES_IMPORT_DIR, path.basename(fileName));
+    if (!fs.existsSync(filePath)) {
+      return res.status(404).json({ message: `NPPES file not found: ${path.basename(fileName)}` });
+    }
+
+    const { importRecord } = await nppesImportService.startImport(fs.createReadStream(filePath), {
+      fileName: path.basename(fileName),
+      startedBy: String(req.user!.id),
+      createMissing,
+      states
+    });
+
+    res.status(202).json(importRecord);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid NPPES import request', errors: error.errors });
+    }
+
+    logger.error('Error starting NPPES import', { error: (error as Error).message });
+    res.status(500).json({ message: 'Failed to start NPPES import', error: (error as Error).message });
+  }
+});
+
+/**
+ * @swagger
+ * /api/network/verification/nppes/imports/{id}:
+ *   get:
+ *     summary: Get an NPPES import's status and counts
+ *     tags: [Network Verification]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Import, with counts updated as it runs
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - admin access required
+ *       404:
+ *         description: Import not found
+ */
+router.get('/nppes/imports/:id', isAdmin, async (req, res) => {
+  try {
+    const importRecord = await nppesImportService.getImport(req.params.id);
+    if (!importRecord) {
+      return res.status(404).json({ message: 'Import not found' });
+    }
+
+    res.json(importRecord);
+  } catch (error) {
+    logger.error('Error getting NPPES import', { error: (error as Error).message });
+    res.status(500).json({ message: 'Failed to get NPPES import', error: (error as Error).message });
+  }
+});
+
+/**
+ * @swagger
+ * /api/network/verification/reviews:
+ *   get:
+ *     summary: List participants whose directory data disagrees with NPPES
+ *     tags: [Network Verification]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Reviews with the directory and NPPES values, newest first
+ *       400:
+ *         description: Invalid query
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - admin access required
+ */
+router.get('/reviews', isAdmin, async (req, res) => {
+  try {
+    const params = listReviewsSchema.parse(req.query);
+    const reviews = await nppesImportService.getReviews(params);
+    res.json(reviews);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid review query', errors: error.errors });
+    }
+
+    logger.error('Error listing verification reviews', { error: (error as Error).message });
+    res.status(500).json({ message: 'Failed to list verification reviews', error: (error as Error).message });
+  }
+});
+
+/**
+ * @swagger
+ * /api/network/verification/reviews/{id}/resolve:
+ *   post:
+ *     summary: Accept the NPPES data for a participant, or dismiss the mismatch
+ *     tags: [Network Verification]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Resolved review
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - admin access required
+ *       404:
+ *         description: Review not found
+ *       409:
+ *         description: Review already resolved
+ */
+router.post('/reviews/:id/resolve', isAdmin, async (req, res) => {
+  try {
+    const { decision, notes } = resolveReviewSchema.parse(req.body);
+
+    const review = await nppesImportService.resolveReview(req.params.id, decision, String(req.user!.id), notes);
+    if (!review) {
+      return res.status(404).json({ message: 'Verification review not found' });
+    }
+
+    res.json(review);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid review resolution', errors: error.errors });
+    }
+    if ((error as Error).message.includes('is already')) {
+      return res.status(409).json({ message: (error as Error).message });
+    }
+
+    logger.error('Error resolving verification review', { error: (error as Error).message });
+    res.status(500).json({ message: 'Failed to resolve verification review', error: (error as Error).message });
+  }
+});
+
+export default router;
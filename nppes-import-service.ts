@@ -0,0 +1,479 @@
+/**
+ * Smart Health Hub - NPPES Import Service
+ *
+ * Bulk loads and refreshes network participants from the NPPES dissemination
+ * file. Participants are matched by the NPI in their external identifiers.
+ * Those whose name and practice address agree with NPPES are verified, and
+ * the NPPES taxonomy and address are kept on the participant; the rest are
+ * marked as mismatched or deactivated and added to the verification review list.
+ */
+
+import { eq, and, desc, inArray, sql } from 'drizzle-orm';
+import { db } from '../../db';
+import logger from '../../utils/logger';
+import {
+  networkParticipants,
+  networkDirectoryImports,
+  networkVerificationReviews,
+  type NetworkParticipant,
+  type NetworkDirectoryImport,
+  type NetworkVerificationReview,
+  type DirectoryImportStats,
+  type DirectoryImportError
+} from '../../../shared/network-directory-schema';
+import {
+  readNppesRecords,
+  isValidNpi,
+  compareWithNppes,
+  participantTypeForNppes,
+  type NppesRecord
+} from './nppes';
+import { networkDirectoryService } from './network-directory-service';
+
+const BATCH_SIZE = 1000;
+const MAX_RECORDED_ERRORS = 100;
+
+type DbExecutor = Pick<typeof db, 'select' | 'insert' | 'update'>;
+
+/**
+ * Options for an NPPES import
+ */
+export interface NppesImportOptions {
+  fileName?: string;
+  startedBy?: string;
+  createMissing?: boolean; // Bulk load: create participants for active NPIs not in the directory
+  states?: string[]; // Only rows with a practice location in these states
+}
+
+/**
+ * Parameters for listing verification reviews
+ */
+export interface VerificationReviewSearchParams {
+  status?: string;
+  participantId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// The NPPES record last seen for a participant, kept in its metadata
+interface NppesSnapshot extends NppesRecord {
+  importId: string;
+  checkedAt: string;
+}
+
+/**
+ * NPPES Import Service
+ */
+export class NppesImportService {
+  constructor() {
+    logger.info('Initializing NPPES Import Service');
+  }
+
+  /**
+   * Start importing an NPPES dissemination file. Returns the import record
+   * straight away, and a promise for the record once the file is processed.
+   */
+  async startImport(
+    input: AsyncIterable<string | Buffer>,
+    options: NppesImportOptions = {}
+  ): Promise<{ importRecord: NetworkDirectoryImport, done: Promise<NetworkDirectoryImport> }> {
+    const [importRecord] = await db
+      .insert(networkDirectoryImports)
+      .values({
+        source: 'nppes',
+        fileName: options.fileName,
+        options: { createMissing: !!options.createMissing, states: options.states },
+        status: 'running',
+        stats: emptyStats(),
+        errors: [],
+        startedBy: options.startedBy
+      })
+      .returning();
+
+    logger.info(`Started NPPES import ${importRecord.id} (${options.fileName || 'stream'})`);
+
+    const done = this.runImport(importRecord.id, input, options);
+    // Failures are recorded on the import; keep an unobserved promise from crashing the process
+    done.catch(() => undefined);
+
+    return { importRecord, done };
+  }
+
+  /**
+   * Get an import by ID
+   */
+  async getImport(id: string): Promise<NetworkDirectoryImport | undefined> {
+    const [importRecord] = await db.select().from(networkDirectoryImports).where(eq(networkDirectoryImports.id, id));
+    return importRecord;
+  }
+
+  /**
+   * List verification reviews, newest first
+   */
+  async getReviews(params: VerificationReviewSearchParams = {}): Promise<NetworkVerificationReview[]> {
+    const conditions = [];
+    if (params.status) {
+      conditions.push(eq(networkVerificationReviews.status, params.status));
+    }
+    if (params.participantId) {
+      conditions.push(eq(networkVerificationReviews.participantId, params.participantId));
+    }
+
+    return db
+      .select()
+      .from(networkVerificationReviews)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(networkVerificationReviews.createdAt))
+      .limit(params.limit || 100)
+      .offset(params.offset || 0);
+  }
+
+  /**
+   * Resolve an open review. Accepting applies the NPPES name and practice
+   * address to the participant (or deactivates it, if NPPES has the NPI
+   * deactivated); dismissing keeps the directory's data. Either way the
+   * participant is then verified, unless accepted as deactivated.
+   */
+  async resolveReview(
+    id: string,
+    decision: 'accept' | 'dismiss',
+    userId: string,
+    notes?: string
+  ): Promise<NetworkVerificationReview | undefined> {
+    const resolved = await db.transaction(async (tx) => {
+      const [review] = await tx
+        .select()
+        .from(networkVerificationReviews)
+        .where(eq(networkVerificationReviews.id, id))
+        .for('update'); // Lock the row
+
+      if (!review) {
+        return undefined;
+      }
+      if (review.status !== 'open') {
+        throw new Error(`Verification review ${id} is already ${review.status}`);
+      }
+
+      const now = new Date();
+      const record = review.registryData as NppesRecord;
+
+      if (decision === 'accept' && record.deactivated) {
+        await tx
+          .update(networkParticipants)
+          .set({ active: false, verificationStatus: 'deactivated', updatedAt: now })
+          .where(eq(networkParticipants.id, review.participantId));
+      } else if (decision === 'accept') {
+        await tx
+          .update(networkParticipants)
+          .set({
+            name: record.name,
+            ...practiceAddressFields(record),
+            // Coordinates were for the old address
+            ...((review.reasons as string[]).includes('address_mismatch') ? { latitude: null, longitude: null } : {}),
+            ...(record.taxonomies.length > 0 ? { specialties: taxonomyCodes(record) } : {}),
+            verificationStatus: 'verified',
+            verifiedAt: now,
+            updatedAt: now
+          })
+          .where(eq(networkParticipants.id, review.participantId));
+      } else {
+        await tx
+          .update(networkParticipants)
+          .set({ verificationStatus: 'verified', verifiedAt: now, updatedAt: now })
+          .where(eq(networkParticipants.id, review.participantId));
+      }
+
+      const [updated] = await tx
+        .update(networkVerificationReviews)
+        .set({
+          status: decision === 'accept' ? 'accepted' : 'dismissed',
+          resolutionNotes: notes,
+          resolvedBy: userId,
+          resolvedAt: now,
+          updatedAt: now
+        })
+        .where(eq(networkVerificationReviews.id, id))
+        .returning();
+
+      return updated;
+    });
+
+    if (resolved) {
+      await networkDirectoryService.recordNetworkEvent({
+        eventType: 'participant_verification_reviewed',
+        severity: 'info',
+        description: `NPI ${resolved.npi} review ${resolved.status}`,
+        participantId: resolved.participantId,
+        eventData: { reviewId: resolved.id, reasons: resolved.reasons, resolvedBy: userId }
+      });
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Process the file in batches, recording progress and the outcome on the import
+   */
+  private async runImport(
+    importId: string,
+    input: AsyncIterable<string | Buffer>,
+    options: NppesImportOptions
+  ): Promise<NetworkDirectoryImport> {
+    const stats = emptyStats();
+    const errors: DirectoryImportError[] = [];
+    const states = options.states?.map(state => state.toUpperCase());
+
+    try {
+      let batch: NppesRecord[] = [];
+      for await (const record of readNppesRecords(input)) {
+        stats.totalRows++;
+
+        if (!isValidNpi(record.npi)) {
+          stats.invalidNpis++;
+          if (errors.length < MAX_RECORDED_ERRORS) {
+            errors.push({ row: stats.totalRows, npi: record.npi || null, message: 'Invalid NPI check digit' });
+          }
+          continue;
+        }
+        if (states && !states.includes((record.practiceAddress.state || '').toUpperCase())) {
+          stats.skipped++;
+          continue;
+        }
+
+        batch.push(record);
+        if (batch.length >= BATCH_SIZE) {
+          await this.applyBatch(importId, batch, options, stats);
+          batch = [];
+          await db.update(networkDirectoryImports).set({ stats }).where(eq(networkDirectoryImports.id, importId));
+        }
+      }
+      if (batch.length > 0) {
+        await this.applyBatch(importId, batch, options, stats);
+      }
+
+      const [completed] = await db
+        .update(networkDirectoryImports)
+        .set({ status: 'completed', stats, errors, completedAt: new Date() })
+        .where(eq(networkDirectoryImports.id, importId))
+        .returning();
+
+      logger.info(`Completed NPPES import ${importId}`, stats);
+
+      await networkDirectoryService.recordNetworkEvent({
+        eventType: 'directory_import_completed',
+        severity: stats.mismatched > 0 ? 'warning' : 'info',
+        description: `NPPES import verified ${stats.verified} and flagged ${stats.mismatched} participants for review`,
+        eventData: { importId, stats }
+      });
+
+      return completed;
+    } catch (error) {
+      logger.error(`NPPES import ${importId} failed:`, error);
+      await db
+        .update(networkDirectoryImports)
+        .set({ status: 'failed', stats, errors, errorMessage: (error as Error).message, completedAt: new Date() })
+        .where(eq(networkDirectoryImports.id, importId));
+      throw error;
+    }
+  }
+
+  /**
+   * Verify the participants with NPIs in a batch, and create participants for
+   * the rest if bulk loading
+   */
+  private async applyBatch(
+    importId: string,
+    batch: NppesRecord[],
+    options: NppesImportOptions,
+    stats: DirectoryImportStats
+  ): Promise<void> {
+    const records = new Map(batch.map(record => [record.npi, record]));
+    const npiExpression = sql<string>`${networkParticipants.externalIdentifiers}->>'npi'`;
+
+    await db.transaction(async (tx) => {
+      const participants = await tx
+        .select()
+        .from(networkParticipants)
+        .where(inArray(npiExpression, [...records.keys()]));
+
+      const matchedNpis = new Set<string>();
+      for (const participant of participants) {
+        const npi = participant.externalIdentifiers!.npi!;
+        matchedNpis.add(npi);
+        stats.matched++;
+        await this.verifyParticipant(tx, participant, records.get(npi)!, importId, stats);
+      }
+
+      for (const [npi, record] of records) {
+        if (matchedNpis.has(npi)) {
+          continue;
+        }
+        if (options.createMissing && !record.deactivated && record.entityType && record.name) {
+          await this.createParticipantFromRecord(tx, record, importId);
+          stats.created++;
+        } else {
+          stats.skipped++;
+        }
+      }
+    });
+  }
+
+  /**
+   * Compare a participant with its NPPES record and verify it or send it to review
+   */
+  private async verifyParticipant(
+    tx: DbExecutor,
+    participant: NetworkParticipant,
+    record: NppesRecord,
+    importId: string,
+    stats: DirectoryImportStats
+  ): Promise<void> {
+    const now = new Date();
+    const reasons = compareWithNppes(participant, record);
+    const metadata = {
+      ...((participant.metadata as Record<string, unknown> | null) || {}),
+      nppes: snapshot(record, importId, now)
+    };
+
+    if (reasons.length === 0) {
+      await tx
+        .update(networkParticipants)
+        .set({
+          verificationStatus: 'verified',
+          verifiedAt: now,
+          metadata,
+          // Keep the address and specialties current with NPPES
+          ...refreshedFields(participant, record),
+          updatedAt: now
+        })
+        .where(eq(networkParticipants.id, participant.id));
+
+      // An earlier mismatch has been fixed at one end or the other
+      await tx
+        .update(networkVerificationReviews)
+        .set({ status: 'superseded', resolutionNotes: `Matched NPPES in import ${importId}`, resolvedAt: now, updatedAt: now })
+        .where(
+          and(
+            eq(networkVerificationReviews.participantId, participant.id),
+            eq(networkVerificationReviews.status, 'open')
+          )
+        );
+
+      stats.verified++;
+      return;
+    }
+
+    await tx
+      .update(networkParticipants)
+      .set({
+        verificationStatus: reasons.includes('deactivated') ? 'deactivated' : 'mismatch',
+        metadata,
+        updatedAt: now
+      })
+      .where(eq(networkParticipants.id, participant.id));
+
+    const review = {
+      importId,
+      npi: record.npi,
+      reasons,
+      participantData: {
+        name: participant.name,
+        displayName: participant.displayName,
+        addressLine1: participant.addressLine1,
+        addressLine2: participant.addressLine2,
+        city: participant.city,
+        state: participant.state,
+        postalCode: participant.postalCode
+      },
+      registryData: record
+    };
+
+    // Keep one open review per participant, refreshed by each import
+    const [open] = await tx
+      .select({ id: networkVerificationReviews.id })
+      .from(networkVerificationReviews)
+      .where(
+        and(
+          eq(networkVerificationReviews.participantId, participant.id),
+          eq(networkVerificationReviews.status, 'open')
+        )
+      );
+
+    if (open) {
+      await tx
+        .update(networkVerificationReviews)
+        .set({ ...review, updatedAt: now })
+        .where(eq(networkVerificationReviews.id, open.id));
+    } else {
+      await tx.insert(networkVerificationReviews).values({ ...review, participantId: participant.id });
+    }
+
+    stats.mismatched++;
+  }
+
+  /**
+   * Create a verified participant from an NPPES record
+   */
+  private async createParticipantFromRecord(tx: DbExecutor, record: NppesRecord, importId: string): Promise<void> {
+    const now = new Date();
+
+    await tx.insert(networkParticipants).values({
+      name: record.name,
+      displayName: record.credential ? `${record.name}, ${record.credential}` : record.name,
+      type: participantTypeForNppes(record),
+      entityType: record.entityType!,
+      externalIdentifiers: { npi: record.npi },
+      ...practiceAddressFields(record),
+      contactPhone: record.practiceAddress.phone,
+      specialties: taxonomyCodes(record),
+      verificationStatus: 'verified',
+      verifiedAt: now,
+      metadata: { nppes: snapshot(record, importId, now) },
+      createdAt: now
+    });
+  }
+}
+
+function emptyStats(): DirectoryImportStats {
+  return { totalRows: 0, invalidNpis: 0, skipped: 0, matched: 0, verified: 0, mismatched: 0, created: 0 };
+}
+
+function snapshot(record: NppesRecord, importId: string, checkedAt: Date): NppesSnapshot {
+  return { ...record, importId, checkedAt: checkedAt.toISOString() };
+}
+
+// Primary taxonomy first
+function taxonomyCodes(record: NppesRecord): string[] {
+  return [...record.taxonomies]
+    .sort((a, b) => Number(b.primary) - Number(a.primary))
+    .map(taxonomy => taxonomy.code);
+}
+
+function practiceAddressFields(record: NppesRecord) {
+  const address = record.practiceAddress;
+  return {
+    addressLine1: address.line1,
+    addressLine2: address.line2,
+    city: address.city,
+    state: address.state,
+    postalCode: address.postalCode,
+    country: address.country || 'USA'
+  };
+}
+
+/**
+ * Address and specialties of a verified participant, taken from NPPES where it
+ * has them. A verified address matched NPPES by street and ZIP, so its
+ * coordinates still hold; one that could not be compared may have moved.
+ */
+function refreshedFields(participant: NetworkParticipant, record: NppesRecord) {
+  const compared = Boolean(participant.addressLine1 && participant.postalCode);
+  return {
+    ...(record.practiceAddress.line1 ? practiceAddressFields(record) : {}),
+    ...(record.practiceAddress.line1 && participant.addressLine1 && !compared ? { latitude: null, longitude: null } : {}),
+    ...(record.taxonomies.length > 0 ? { specialties: taxonomyCodes(record) } : {})
+  };
+}
+
+// Create and export the service instance
+export const nppesImportService = new NppesImportService();
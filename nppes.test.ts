@@ -0,0 +1,116 @@
+import { compareWithNppes, isValidNpi, readNppesRecords, type NppesRecord } from './nppes';
+
+const HEADER = [
+  'NPI',
+  'Entity Type Code',
+  'Provider Organization Name (Legal Business Name)',
+  'Provider Last Name (Legal Name)',
+  'Provider First Name',
+  'Provider First Line Business Practice Location Address',
+  'Provider Business Practice Location Address Postal Code',
+  'NPI Deactivation Date',
+  'NPI Reactivation Date',
+  'Healthcare Provider Taxonomy Code_1',
+  'Healthcare Provider Primary Taxonomy Switch_1'
+].join(',');
+
+async function* chunks(text: string): AsyncGenerator<string> {
+  yield text;
+}
+
+const readAll = async (lines: string[]): Promise<NppesRecord[]> => {
+  const records: NppesRecord[] = [];
+  for await (const record of readNppesRecords(chunks(lines.join('\n')))) {
+    records.push(record);
+  }
+  return records;
+};
+
+const participant = {
+  name: 'Dr. Jane Q Smith, MD',
+  displayName: 'Jane Smith',
+  addressLine1: '100 Main Street, Suite 200',
+  postalCode: '02115-1234'
+};
+
+const record = (overrides: Partial<NppesRecord> = {}): NppesRecord => ({
+  npi: '1234567893',
+  entityType: 'individual',
+  name: 'JANE SMITH',
+  credential: 'MD',
+  practiceAddress: { line1: '100 MAIN ST STE 200', line2: null, city: 'BOSTON', state: 'MA', postalCode: '021151234', country: 'US', phone: null },
+  taxonomies: [],
+  primaryTaxonomy: '207Q00000X',
+  enumerationDate: '2006-05-23',
+  lastUpdated: '2024-01-10',
+  deactivationDate: null,
+  deactivated: false,
+  ...overrides
+});
+
+describe('isValidNpi', () => {
+  it('accepts an NPI with a valid check digit', () => {
+    expect(isValidNpi('1234567893')).toBe(true);
+    expect(isValidNpi('1245319599')).toBe(true);
+  });
+
+  it('rejects a wrong check digit or a transposition', () => {
+    expect(isValidNpi('1234567890')).toBe(false);
+    expect(isValidNpi('1234567839')).toBe(false);
+  });
+
+  it('rejects anything but 10 digits', () => {
+    expect(isValidNpi('123456789')).toBe(false);
+    expect(isValidNpi('12345678931')).toBe(false);
+    expect(isValidNpi('123456789X')).toBe(false);
+    expect(isValidNpi('')).toBe(false);
+  });
+});
+
+describe('readNppesRecords', () => {
+  it('reads individuals and organizations, and whether the NPI is still deactivated', async () => {
+    const records = await readAll([
+      HEADER,
+      '1234567893,1,,SMITH,JANE,100 MAIN ST,021151234,,,207Q00000X,Y',
+      '1245319599,2,"CENTRAL HOSPITAL, INC",,,1 HOSPITAL DR,02115,,,282N00000X,Y',
+      '1003000126,,,,,,,03/01/2020,,,',
+      '1003000134,1,,DOE,JOHN,,,03/01/2020,06/15/2021,,'
+    ]);
+
+    expect(records.map(({ npi, entityType, name, deactivated }) => ({ npi, entityType, name, deactivated }))).toEqual([
+      { npi: '1234567893', entityType: 'individual', name: 'JANE SMITH', deactivated: false },
+      { npi: '1245319599', entityType: 'organization', name: 'CENTRAL HOSPITAL, INC', deactivated: false },
+      { npi: '1003000126', entityType: null, name: '', deactivated: true },
+      { npi: '1003000134', entityType: 'individual', name: 'JOHN DOE', deactivated: false }
+    ]);
+    expect(records[0].primaryTaxonomy).toBe('207Q00000X');
+    expect(records[2].deactivationDate).toBe('2020-03-01');
+  });
+
+  it('refuses a file without an NPI column', async () => {
+    await expect(readAll(['Name,Address', 'x,y'])).rejects.toThrow('missing NPI column');
+  });
+});
+
+describe('compareWithNppes', () => {
+  it('matches names ignoring titles and credentials, and addresses ignoring street abbreviations and ZIP+4', () => {
+    expect(compareWithNppes(participant, record())).toEqual([]);
+  });
+
+  it('reports a name or address that differs', () => {
+    expect(compareWithNppes(participant, record({ name: 'JANET SMYTHE' }))).toEqual(['name_mismatch']);
+    expect(compareWithNppes(participant, record({
+      practiceAddress: { ...record().practiceAddress, line1: '200 ELM ST' }
+    }))).toEqual(['address_mismatch']);
+  });
+
+  it('reports only the deactivation for a deactivated NPI', () => {
+    expect(compareWithNppes(participant, record({ name: '', deactivated: true }))).toEqual(['deactivated']);
+  });
+
+  it('does not report an address mismatch for a participant without an address', () => {
+    expect(compareWithNppes({ ...participant, addressLine1: null }, record({
+      practiceAddress: { ...record().practiceAddress, line1: '200 ELM ST' }
+    }))).toEqual([]);
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * Smart Health Hub - NPPES
+ *
+ * Reading the NPPES (National Plan and Provider Enumeration System) public
+ * dissemination file, NPI check digit validation, and comparison of NPPES
+ * records with network participants for verification.
+ */
+
+import { StringDecoder } from 'string_decoder';
+
+// NPIs are ISO 7812 card numbers under the US health industry prefix
+const NPI_CARD_PREFIX = '80840';
+const NPPES_TAXONOMY_SLOTS = 15;
+
+// Dissemination file columns used by the importer
+const COLUMNS = {
+  npi: 'NPI',
+  entityType: 'Entity Type Code',
+  organizationName: 'Provider Organization Name (Legal Business Name)',
+  lastName: 'Provider Last Name (Legal Name)',
+  firstName: 'Provider First Name',
+  middleName: 'Provider Middle Name',
+  credential: 'Provider Credential Text',
+  addressLine1: 'Provider First Line Business Practice Location Address',
+  addressLine2: 'Provider Second Line Business Practice Location Address',
+  city: 'Provider Business Practice Location Address City Name',
+  state: 'Provider Business Practice Location Address State Name',
+  postalCode: 'Provider Business Practice Location Address Postal Code',
+  country: 'Provider Business Practice Location Address Country Code (If outside U.S.)',
+  phone: 'Provider Business Practice Location Address Telephone Number',
+  enumerationDate: 'Provider Enumeration Date',
+  lastUpdated: 'Last Update Date',
+  deactivationDate: 'NPI Deactivation Date',
+  reactivationDate: 'NPI Reactivation Date',
+  taxonomyCode: (slot: number) => `Healthcare Provider Taxonomy Code_${slot}`,
+  licenseNumber: (slot: number) => `Provider License Number_${slot}`,
+  licenseState: (slot: number) => `Provider License Number State Code_${slot}`,
+  primaryTaxonomy: (slot: number) => `Healthcare Provider Primary Taxonomy Switch_${slot}`
+};
+
+// Words dropped before comparing names
+const NAME_NOISE = new Set([
+  'THE', 'INC', 'LLC', 'LLP', 'PLLC', 'PC', 'PA', 'CORP', 'CORPORATION', 'CO', 'LTD', 'COMPANY',
+  'DR', 'MD', 'DO', 'NP', 'RN', 'PHD', 'DDS', 'DMD', 'OD', 'DPM', 'PHARMD', 'JR', 'SR', 'II', 'III'
+]);
+
+// Street words normalized to their USPS abbreviations before comparing addresses
+const STREET_ABBREVIATIONS: Record<string, string> = {
+  STREET: 'ST', AVENUE: 'AVE', ROAD: 'RD', DRIVE: 'DR', BOULEVARD: 'BLVD', LANE: 'LN',
+  COURT: 'CT', PLACE: 'PL', PARKWAY: 'PKWY', HIGHWAY: 'HWY', CIRCLE: 'CIR', SUITE: 'STE',
+  BUILDING: 'BLDG', FLOOR: 'FL', NORTH: 'N', SOUTH: 'S', EAST: 'E', WEST: 'W'
+};
+
+export interface NppesAddress {
+  line1: string | null;
+  line2: string | null;
+  city: string | null;
+  state: string | null;
+  postalCode: string | null;
+  country: string | null;
+  phone: string | null;
+}
+
+export interface NppesTaxonomy {
+  code: string;
+  primary: boolean;
+  licenseNumber: string | null;
+  licenseState: string | null;
+}
+
+export interface NppesRecord {
+  npi: string;
+  entityType: 'individual' | 'organization' | null; // Blank for deactivated NPIs
+  name: string; // Organization legal name, or the individual's first and last name
+  credential: string | null;
+  practiceAddress: NppesAddress;
+  taxonomies: NppesTaxonomy[];
+  primaryTaxonomy: string | null;
+  enumerationDate: string | null; // ISO dates
+  lastUpdated: string | null;
+  deactivationDate: string | null;
+  deactivated: boolean; // Deactivated and not reactivated since
+}
+
+// The participant fields compared with an NPPES record
+export interface VerifiableParticipant {
+  name: string;
+  displayName: string;
+  addressLine1: string | null;
+  postalCode: string | null;
+}
+
+export type NppesMismatchReason = 'deactivated' | 'name_mismatch' | 'address_mismatch';
+
+/**
+ * Whether an NPI is 10 digits with a valid check digit (Luhn over the NPI
+ * prefixed with 80840)
+ */
+export function isValidNpi(npi: string): boolean {
+  if (!/^\d{10}$/.test(npi)) {
+    return false;
+  }
+
+  const digits = NPI_CARD_PREFIX + npi;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    // Double every second digit counting left from the check digit
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+}
+
+/**
+ * Parse CSV rows from text chunks. Handles quoted fields containing commas,
+ * line breaks and doubled quotes.
+ */
+export async function* parseCsvRows(input: AsyncIterable<string | Buffer> | Iterable<string | Buffer>): AsyncGenerator<string[]> {
+  const decoder = new StringDecoder('utf8');
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let quoteClosed = false; // Just left a quoted section; another quote means a literal quote
+
+  const finishRow = () => {
+    row.push(field);
+    const completed = row;
+    row = [];
+    field = '';
+    // Skip blank lines
+    return completed.length === 1 && completed[0] === '' ? null : completed;
+  };
+
+  for await (const chunk of input) {
+    const text = typeof chunk === 'string' ? chunk : decoder.write(chunk);
+    for (const char of text) {
+      if (inQuotes) {
+        if (char === '"') {
+          inQuotes = false;
+          quoteClosed = true;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        if (quoteClosed) {
+          field += '"';
+        }
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n') {
+        const completed = finishRow();
+        if (completed) {
+          yield completed;
+        }
+      } else if (char !== '\r') {
+        field += char;
+      }
+      quoteClosed = false;
+    }
+  }
+
+  field += decoder.end();
+  if (field !== '' || row.length > 0) {
+    const completed = finishRow();
+    if (completed) {
+      yield completed;
+    }
+  }
+}
+
+/**
+ * Read an NPPES dissemination file as records
+ */
+export async function* readNppesRecords(input: AsyncIterable<string | Buffer>): AsyncGenerator<NppesRecord> {
+  let header: Map<string, number> | null = null;
+
+  for await (const row of parseCsvRows(input)) {
+    if (!header) {
+      header = new Map(row.map((name, index) => [name.trim(), index]));
+      if (!header.has(COLUMNS.npi)) {
+        throw new Error('Not an NPPES dissemination file: missing NPI column');
+      }
+      continue;
+    }
+
+    const columns = header;
+    yield toNppesRecord(name => {
+      const index = columns.get(name);
+      const value = index === undefined ? undefined : row[index]?.trim();
+      return value ? value : null;
+    });
+  }
+}
+
+/**
+ * Directory participant type for an NPPES record, from its primary taxonomy
+ */
+export function participantTypeForNppes(record: NppesRecord): 'provider' | 'pharmacy' | 'lab' | 'imaging_center' {
+  const taxonomy = record.primaryTaxonomy || '';
+  if (taxonomy.startsWith('3336')) {
+    return 'pharmacy';
+  }
+  if (taxonomy.startsWith('291U')) {
+    return 'lab';
+  }
+  if (taxonomy === '261QR0200X' || taxonomy === '261QR0208X') {
+    return 'imaging_center';
+  }
+  return 'provider';
+}
+
+/**
+ * Compare a participant with the NPPES record for its NPI. Participants
+ * without an address on file are not an address mismatch.
+ */
+export function compareWithNppes(participant: VerifiableParticipant, record: NppesRecord): NppesMismatchReason[] {
+  // NPPES publishes only the NPI and dates for deactivated NPIs
+  if (record.deactivated) {
+    return ['deactivated'];
+  }
+
+  const reasons: NppesMismatchReason[] = [];
+
+  if (!namesMatch(participant.name, record.name) && !namesMatch(participant.displayName, record.name)) {
+    reasons.push('name_mismatch');
+  }
+
+  if (participant.addressLine1 && participant.postalCode && !addressesMatch(participant, record.practiceAddress)) {
+    reasons.push('address_mismatch');
+  }
+
+  return reasons;
+}
+
+function toNppesRecord(value: (column: string) => string | null): NppesRecord {
+  const taxonomies: NppesTaxonomy[] = [];
+  for (let slot = 1; slot <= NPPES_TAXONOMY_SLOTS; slot++) {
+    const code = value(COLUMNS.taxonomyCode(slot));
+    if (code) {
+      taxonomies.push({
+        code,
+        primary: value(COLUMNS.primaryTaxonomy(slot)) === 'Y',
+        licenseNumber: value(COLUMNS.licenseNumber(slot)),
+        licenseState: value(COLUMNS.licenseState(slot))
+      });
+    }
+  }
+
+  const entityTypeCode = value(COLUMNS.entityType);
+  const entityType = entityTypeCode === '1' ? 'individual' : entityTypeCode === '2' ? 'organization' : null;
+  const name = entityType === 'individual'
+    ? [value(COLUMNS.firstName), value(COLUMNS.middleName), value(COLUMNS.lastName)].filter(Boolean).join(' ')
+    : value(COLUMNS.organizationName) || '';
+
+  const deactivationDate = nppesDate(value(COLUMNS.deactivationDate));
+  const reactivationDate = nppesDate(value(COLUMNS.reactivationDate));
+
+  return {
+    npi: value(COLUMNS.npi) || '',
+    entityType,
+    name,
+    credential: value(COLUMNS.credential),
+    practiceAddress: {
+      line1: value(COLUMNS.addressLine1),
+      line2: value(COLUMNS.addressLine2),
+      city: value(COLUMNS.city),
+      state: value(COLUMNS.state),
+      postalCode: value(COLUMNS.postalCode),
+      country: value(COLUMNS.country),
+      phone: value(COLUMNS.phone)
+    },
+    taxonomies,
+    primaryTaxonomy: (taxonomies.find(taxonomy => taxonomy.primary) || taxonomies[0])?.code || null,
+    enumerationDate: nppesDate(value(COLUMNS.enumerationDate)),
+    lastUpdated: nppesDate(value(COLUMNS.lastUpdated)),
+    deactivationDate,
+    deactivated: !!deactivationDate && (!reactivationDate || reactivationDate < deactivationDate)
+  };
+}
+
+// NPPES dates are MM/DD/YYYY
+function nppesDate(value: string | null): string | null {
+  const match = value?.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  return match ? `${match[3]}-${match[1]}-${match[2]}` : null;
+}
+
+function nameTokens(name: string): string[] {
+  return name
+    .toUpperCase()
+    .replace(/[^A-Z0-9 ]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token && !NAME_NOISE.has(token));
+}
+
+// Names match if all the words of one appear in the other, so "Dr. Jane Q Smith, MD"
+// matches "JANE SMITH" and "Central Hospital" matches "CENTRAL HOSPITAL INC"
+function namesMatch(a: string, b: string): boolean {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) {
+    return false;
+  }
+
+  const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  return shorter.every(token => longer.includes(token));
+}
+
+function normalizeStreet(line: string): string {
+  return line
+    .toUpperCase()
+    .replace(/[^A-Z0-9 ]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => STREET_ABBREVIATIONS[word] || word)
+    .join(' ');
+}
+
+function addressesMatch(participant: VerifiableParticipant, address: NppesAddress): boolean {
+  if (!address.line1 || !address.postalCode) {
+    return false;
+  }
+
+  return participant.postalCode!.replace(/\D/g, '').slice(0, 5) === address.postalCode.replace(/\D/g, '').slice(0, 5) &&
+    normalizeStreet(participant.addressLine1!) === normalizeStreet(address.line1);
+}
@@ -0,0 +1,320 @@
+/**
+ * Plan-Net Directory FHIR API Routes
+ *
+ * Publishes the network directory as Da Vinci PDex Plan-Net resources, with
+ * the Plan-Net search parameters, _include/_revinclude and a bulk $export.
+ * Payer provider directories must be publicly accessible, so search and read
+ * do not require authentication; starting an export does.
+ */
+
+import express from 'express';
+import fs from 'fs';
+import logger from '../../utils/logger';
+import { FhirRequestError, operationOutcome, type FhirQuery } from '../scheduling/scheduling-fhir';
+import { planNetService } from './plan-net-service';
+import {
+  PLAN_NET_RESOURCE_TYPES,
+  planNetBundle,
+  searchValues,
+  type PlanNetResourceType
+} from './plan-net';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 1000;
+const EXPORT_OUTPUT_FORMATS = ['application/fhir+ndjson', 'application/ndjson', 'ndjson'];
+
+// Create a router
+const router = express.Router();
+
+// Middleware to check if the user is authenticated
+const isAuthenticated = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).type('application/fhir+json').json(operationOutcome('Not authenticated', 'login'));
+  }
+  next();
+};
+
+/**
+ * Base URL of this FHIR endpoint, for fullUrl and links
+ */
+function baseUrl(req: express.Request): string {
+  return `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+}
+
+/**
+ * Send a FHIR resource
+ */
+function sendResource(res: express.Response, resource: Record<string, any>, status: number = 200) {
+  res.status(status).type('application/fhir+json').json(resource);
+}
+
+/**
+ * Send an error as an OperationOutcome
+ */
+function sendError(res: express.Response, error: unknown, action: string) {
+  if (error instanceof FhirRequestError) {
+    return sendResource(res, operationOutcome(error.message, error.code), error.status);
+  }
+
+  logger.error(`Error ${action}`, { error: (error as Error).message });
+  sendResource(res, operationOutcome(`Failed ${action}: ${(error as Error).message}`, 'exception'), 500);
+}
+
+/**
+ * Check that a path segment is a published resource type
+ */
+function resourceType(type: string): PlanNetResourceType {
+  if (!(PLAN_NET_RESOURCE_TYPES as readonly string[]).includes(type)) {
+    throw new FhirRequestError(`Unsupported resource type: ${type}`, 404, 'not-supported');
+  }
+  return type as PlanNetResourceType;
+}
+
+/**
+ * Read _count and _offset
+ */
+function pageParams(query: FhirQuery): { count: number; offset: number } {
+  const [countValue] = searchValues(query, '_count');
+  const [offsetValue] = searchValues(query, '_offset');
+  const count = countValue === undefined ? DEFAULT_PAGE_SIZE : Number(countValue);
+  const offset = offsetValue === undefined ? 0 : Number(offsetValue);
+
+  if (!Number.isInteger(count) || count < 1 || !Number.isInteger(offset) || offset < 0) {
+    throw new FhirRequestError('_count must be a positive integer and _offset a non-negative integer');
+  }
+
+  return { count: Math.min(count, MAX_PAGE_SIZE), offset };
+}
+
+/**
+ * @swagger
+ * /plan-net/$export:
+ *   get:
+ *     summary: Start a bulk export of the Plan-Net directory
+ *     tags: [Plan-Net Directory]
+ *     security:
+ *       - bearerAuth: []
+ *     description: >
+ *       FHIR Bulk Data export. _type limits the resource types (all Plan-Net
+ *       types by default) and _since to resources changed since then. Poll the
+ *       Content-Location URL for the manifest of NDJSON files.
+ *     responses:
+ *       202:
+ *         description: Export started; Content-Location has the status URL
+ *       400:
+ *         description: Invalid export parameters
+ *       401:
+ *         description: Not authenticated
+ */
+router.get('/\\$export', isAuthenticated, async (req, res) => {
+  try {
+    const query = req.query as FhirQuery;
+
+    const [outputFormat] = searchValues(query, '_outputFormat');
+    if (outputFormat && !EXPORT_OUTPUT_FORMATS.includes(outputFormat)) {
+      throw new FhirRequestError(`Unsupported _outputFormat: ${outputFormat}`);
+    }
+
+    const requestedTypes = searchValues(query, '_type');
+    const types = requestedTypes.length > 0
+      ? Array.from(new Set(requestedTypes.map(type => resourceType(type))))
+      : [...PLAN_NET_RESOURCE_TYPES];
+
+    const [sinceValue] = searchValues(query, '_since');
+    const since = sinceValue ? new Date(sinceValue) : undefined;
+    if (since && isNaN(since.getTime())) {
+      throw new FhirRequestError(`Invalid _since: ${sinceValue}`);
+    }
+
+    const exportRecord = await planNetService.startExport(
+      types,
+      since,
+      `${baseUrl(req)}${req.url}`,
+      String(req.user!.id)
+    );
+
+    res.status(202)
+      .set('Content-Location', `${baseUrl(req)}/$export-status/${exportRecord.id}`)
+      .end();
+  } catch (error) {
+    sendError(res, error, 'starting Plan-Net export');
+  }
+});
+
+/**
+ * @swagger
+ * /plan-net/$export-status/{id}:
+ *   get:
+ *     summary: Get the status of a bulk export, or its manifest once complete
+ *     tags: [Plan-Net Directory]
+ *     responses:
+ *       200:
+ *         description: Export manifest listing the NDJSON files
+ *       202:
+ *         description: Export in progress
+ *       404:
+ *         description: Export not found
+ *       500:
+ *         description: Export failed
+ */
+router.get('/\\$export-status/:id', async (req, res) => {
+  try {
+    const exportRecord = await planNetService.getExport(req.params.id);
+    if (!exportRecord) {
+      throw new FhirRequestError(`Export ${req.params.id} not found`, 404, 'not-found');
+    }
+
+    if (exportRecord.status === 'in_progress') {
+      return res.status(202).set('X-Progress', 'in-progress').set('Retry-After', '10').end();
+    }
+    if (exportRecord.status === 'failed') {
+      return sendResource(res, operationOutcome(`Export failed: ${exportRecord.errorMessage}`, 'exception'), 500);
+    }
+
+    res.json({
+      transactionTime: exportRecord.requestedAt.toISOString(),
+      request: exportRecord.requestUrl,
+      requiresAccessToken: false,
+      output: (exportRecord.output || []).map(file => ({
+        type: file.type,
+        url: `${baseUrl(req)}/$export-files/${exportRecord.id}/${file.fileName}`,
+        count: file.count
+      })),
+      error: []
+    });
+  } catch (error) {
+    sendError(res, error, 'getting Plan-Net export status');
+  }
+});
+
+/**
+ * @swagger
+ * /plan-net/$export-status/{id}:
+ *   delete:
+ *     summary: Delete a bulk export and its files
+ *     tags: [Plan-Net Directory]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Only the user who requested the export, or an admin, may delete it.
+ *     responses:
+ *       202:
+ *         description: Export deleted
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Export was requested by another user
+ *       404:
+ *         description: Export not found
+ */
+router.delete('/\\$export-status/:id', isAuthenticated, async (req, res) => {
+  try {
+    const exportRecord = await planNetService.getExport(req.params.id);
+    if (!exportRecord) {
+      throw new FhirRequestError(`Export ${req.params.id} not found`, 404, 'not-found');
+    }
+    // Only the user who requested the export, or an admin, may delete it
+    if (req.user?.role !== 'admin' && exportRecord.requestedBy !== String(req.user!.id)) {
+      throw new FhirRequestError(`Export ${req.params.id} was requested by another user`, 403, 'forbidden');
+    }
+
+    await planNetService.deleteExport(exportRecord.id);
+
+    res.status(202).end();
+  } catch (error) {
+    sendError(res, error, 'deleting Plan-Net export');
+  }
+});
+
+/**
+ * @swagger
+ * /plan-net/$export-files/{id}/{fileName}:
+ *   get:
+ *     summary: Download an NDJSON file from a completed bulk export
+ *     tags: [Plan-Net Directory]
+ *     responses:
+ *       200:
+ *         description: application/fhir+ndjson file
+ *       404:
+ *         description: Export or file not found
+ */
+router.get('/\\$export-files/:id/:fileName', async (req, res) => {
+  try {
+    const exportRecord = await planNetService.getExport(req.params.id);
+    const filePath = exportRecord && planNetService.exportFilePath(exportRecord, req.params.fileName);
+    if (!filePath || !fs.existsSync(filePath)) {
+      throw new FhirRequestError(`Export file ${req.params.fileName} not found`, 404, 'not-found');
+    }
+
+    res.type('application/fhir+ndjson');
+    fs.createReadStream(filePath).pipe(res);
+  } catch (error) {
+    sendError(res, error, 'downloading Plan-Net export file');
+  }
+});
+
+/**
+ * @swagger
+ * /plan-net/{type}:
+ *   get:
+ *     summary: Search Plan-Net resources
+ *     tags: [Plan-Net Directory]
+ *     description: >
+ *       Practitioner, Organization, Location, HealthcareService, Endpoint,
+ *       OrganizationAffiliation or InsurancePlan, with the Plan-Net search
+ *       parameters, _include, _revinclude, _count and _offset.
+ *     responses:
+ *       200:
+ *         description: Searchset Bundle, with a next link when there are more results
+ *       400:
+ *         description: Invalid search parameters
+ *       404:
+ *         description: Unsupported resource type
+ */
+router.get('/:type', async (req, res) => {
+  try {
+    const type = resourceType(req.params.type);
+    const query = req.query as FhirQuery;
+    const page = pageParams(query);
+
+    const result = await planNetService.search(type, query, page);
+
+    let nextUrl: string | undefined;
+    if (result.hasMore) {
+      const next = new URL(`${baseUrl(req)}${req.url}`);
+      next.searchParams.set('_offset', String(page.offset + page.count));
+      nextUrl = next.toString();
+    }
+
+    sendResource(res, planNetBundle(baseUrl(req), `${baseUrl(req)}${req.url}`, result.matches, result.includes, nextUrl));
+  } catch (error) {
+    sendError(res, error, 'searching Plan-Net directory');
+  }
+});
+
+/**
+ * @swagger
+ * /plan-net/{type}/{id}:
+ *   get:
+ *     summary: Read a Plan-Net resource
+ *     tags: [Plan-Net Directory]
+ *     responses:
+ *       200:
+ *         description: The resource
+ *       404:
+ *         description: Resource or resource type not found
+ */
+router.get('/:type/:id', async (req, res) => {
+  try {
+    const type = resourceType(req.params.type);
+    const resource = await planNetService.read(type, req.params.id);
+    if (!resource) {
+      throw new FhirRequestError(`${type}/${req.params.id} not found`, 404, 'not-found');
+    }
+
+    sendResource(res, resource);
+  } catch (error) {
+    sendError(res, error, 'reading Plan-Net resource');
+  }
+});
+
+export default router;
@@ -0,0 +1,742 @@
+/**
+ * Smart Health Hub - Plan-Net Directory Service
+ *
+ * Searches the network directory as Plan-Net resources, resolves _include and
+ * _revinclude, and runs bulk $export jobs that write each resource type to an
+ * NDJSON file.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { once } from 'events';
+import { finished } from 'stream/promises';
+import { eq, and, or, ne, inArray, ilike, isNull, not, asc, gte, sql, type SQL, type AnyColumn } from 'drizzle-orm';
+import { db } from '../../db';
+import logger from '../../utils/logger';
+import {
+  networkParticipants,
+  networkServices,
+  participantServices,
+  networkConnections,
+  networkInsurancePlans,
+  networkDirectoryExports,
+  serviceTypeEnum,
+  type NetworkParticipant,
+  type NetworkDirectoryExport,
+  type DirectoryExportFile
+} from '../../../shared/network-directory-schema';
+import { FhirRequestError, type FhirQuery } from '../scheduling/scheduling-fhir';
+import {
+  PLAN_NET_REFERENCE_PARAMS,
+  toPractitioner,
+  toOrganization,
+  toLocation,
+  toHealthcareService,
+  toEndpoint,
+  toOrganizationAffiliation,
+  toInsurancePlan,
+  participantTypesForOrgType,
+  participantTypesForServiceCategory,
+  searchValues,
+  tokenValues,
+  referenceValues,
+  includeParams,
+  nearParam,
+  type FhirResource,
+  type PlanNetResourceType
+} from './plan-net';
+import { boundingBox, haversineMilesSql } from './network-geo';
+
+// Export files are written here, one directory per export
+const PLAN_NET_EXPORT_DIR = process.env.PLAN_NET_EXPORT_DIR || 'exports/plan-net';
+const EXPORT_PAGE_SIZE = 1000;
+// Most resources added to a search page by _include and _revinclude
+const MAX_INCLUDES = 1000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * A page of search results
+ */
+export interface PlanNetPage {
+  count: number;
+  offset: number;
+}
+
+export interface PlanNetSearchResult {
+  matches: FhirResource[];
+  includes: FhirResource[];
+  hasMore: boolean;
+}
+
+// A connection's enabledServices lists service IDs, or details naming one
+type EnabledServiceEntry = string | { serviceId?: string; id?: string } | null;
+
+/**
+ * Plan-Net Directory Service
+ */
+export class PlanNetService {
+  constructor() {
+    logger.info('Initializing Plan-Net Directory Service');
+  }
+
+  /**
+   * Search a resource type, with the resources requested by _include and _revinclude
+   */
+  async search(type: PlanNetResourceType, query: FhirQuery, page: PlanNetPage): Promise<PlanNetSearchResult> {
+    // Fetch one extra to know whether there is a next page
+    const found = await this.find(type, query, { count: page.count + 1, offset: page.offset });
+    const matches = found.slice(0, page.count);
+    const includes = await this.resolveIncludes(type, matches, query);
+
+    return { matches, includes, hasMore: found.length > page.count };
+  }
+
+  /**
+   * Read a resource by ID
+   */
+  async read(type: PlanNetResourceType, id: string): Promise<FhirResource | undefined> {
+    const [resource] = await this.find(type, { _id: id }, { count: 1, offset: 0 });
+    return resource;
+  }
+
+  // ============================================================================
+  // BULK EXPORT
+  // ============================================================================
+
+  /**
+   * Start a bulk export of the given resource types; the files are written in the background
+   */
+  async startExport(
+    resourceTypes: PlanNetResourceType[],
+    since: Date | undefined,
+    requestUrl: string,
+    requestedBy?: string
+  ): Promise<NetworkDirectoryExport> {
+    const [exportRecord] = await db
+      .insert(networkDirectoryExports)
+      .values({ resourceTypes, since, requestUrl, requestedBy, status: 'in_progress' })
+      .returning();
+
+    logger.info(`Started Plan-Net export ${exportRecord.id} (${resourceTypes.join(', ')})`);
+
+    this.runExport(exportRecord, resourceTypes).catch(error => {
+      logger.error(`Plan-Net export ${exportRecord.id} failed:`, error);
+    });
+
+    return exportRecord;
+  }
+
+  /**
+   * Get an export by ID
+   */
+  async getExport(id: string): Promise<NetworkDirectoryExport | undefined> {
+    if (!UUID_PATTERN.test(id)) {
+      return undefined;
+    }
+
+    const [exportRecord] = await db.select().from(networkDirectoryExports).where(eq(networkDirectoryExports.id, id));
+    return exportRecord;
+  }
+
+  /**
+   * Path of one of a completed export's files, if the export has it
+   */
+  exportFilePath(exportRecord: NetworkDirectoryExport, fileName: string): string | undefined {
+    const file = (exportRecord.output || []).find(output => output.fileName === fileName);
+    return file ? path.join(PLAN_NET_EXPORT_DIR, exportRecord.id, file.fileName) : undefined;
+  }
+
+  /**
+   * Delete an export and its files
+   */
+  async deleteExport(id: string): Promise<boolean> {
+    const exportRecord = await this.getExport(id);
+    if (!exportRecord) {
+      return false;
+    }
+
+    await fs.promises.rm(path.join(PLAN_NET_EXPORT_DIR, exportRecord.id), { recursive: true, force: true });
+    await db.delete(networkDirectoryExports).where(eq(networkDirectoryExports.id, id));
+
+    logger.info(`Deleted Plan-Net export ${id}`);
+    return true;
+  }
+
+  /**
+   * Write each resource type to an NDJSON file and record the output on the export
+   */
+  private async runExport(exportRecord: NetworkDirectoryExport, resourceTypes: PlanNetResourceType[]): Promise<void> {
+    const directory = path.join(PLAN_NET_EXPORT_DIR, exportRecord.id);
+    const output: DirectoryExportFile[] = [];
+
+    try {
+      await fs.promises.mkdir(directory, { recursive: true });
+
+      for (const type of resourceTypes) {
+        const fileName = `${type}.ndjson`;
+        const stream = fs.createWriteStream(path.join(directory, fileName));
+        let count = 0;
+
+        for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+          const resources = await this.find(type, {}, { count: EXPORT_PAGE_SIZE, offset }, exportRecord.since || undefined);
+          for (const resource of resources) {
+            if (!stream.write(JSON.stringify(resource) + '\n')) {
+              await once(stream, 'drain');
+            }
+          }
+          count += resources.length;
+          if (resources.length < EXPORT_PAGE_SIZE) {
+            break;
+          }
+        }
+
+        stream.end();
+        await finished(stream);
+        output.push({ type, count, fileName });
+      }
+
+      await db
+        .update(networkDirectoryExports)
+        .set({ status: 'completed', output, completedAt: new Date() })
+        .where(eq(networkDirectoryExports.id, exportRecord.id));
+
+      logger.info(`Completed Plan-Net export ${exportRecord.id}`);
+    } catch (error) {
+      await db
+        .update(networkDirectoryExports)
+        .set({ status: 'failed', output, errorMessage: (error as Error).message, completedAt: new Date() })
+        .where(eq(networkDirectoryExports.id, exportRecord.id));
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // SEARCH
+  // ============================================================================
+
+  /**
+   * Find resources of a type; since limits the results to those changed since then
+   */
+  private async find(type: PlanNetResourceType, query: FhirQuery, page: PlanNetPage, since?: Date): Promise<FhirResource[]> {
+    switch (type) {
+      case 'Practitioner':
+        return this.findPractitioners(query, page, since);
+      case 'Organization':
+        return this.findOrganizations(query, page, since);
+      case 'Location':
+        return this.findLocations(query, page, since);
+      case 'HealthcareService':
+        return this.findHealthcareServices(query, page, since);
+      case 'Endpoint':
+        return this.findEndpoints(query, page, since);
+      case 'OrganizationAffiliation':
+        return this.findOrganizationAffiliations(query, page, since);
+      case 'InsurancePlan':
+        return this.findInsurancePlans(query, page, since);
+    }
+  }
+
+  /**
+   * Practitioner: _id, name, family, given, identifier, qualification-code
+   */
+  private async findPractitioners(query: FhirQuery, page: PlanNetPage, since?: Date): Promise<FhirResource[]> {
+    const conditions = [
+      eq(networkParticipants.entityType, 'individual'),
+      ...this.participantConditions(query, since)
+    ];
+
+    for (const name of ['family', 'given']) {
+      const values = searchValues(query, name);
+      if (values.length > 0) {
+        conditions.push(or(...values.map(value => wordPrefix(networkParticipants.name, value)))!);
+      }
+    }
+
+    const qualifications = tokenValues(query, 'qualification-code');
+    if (qualifications.length > 0) {
+      conditions.push(containsAny(networkParticipants.specialties, qualifications));
+    }
+
+    const participants = await this.pageParticipants(conditions, page);
+    return participants.map(toPractitioner);
+  }
+
+  /**
+   * Organization: _id, name, identifier, type, address, address-city,
+   * address-state, address-postalcode, endpoint
+   */
+  private async findOrganizations(query: FhirQuery, page: PlanNetPage, since?: Date): Promise<FhirResource[]> {
+    const conditions = [
+      ne(networkParticipants.entityType, 'individual'),
+      ...this.participantConditions(query, since)
+    ];
+
+    const types = tokenValues(query, 'type');
+    if (types.length > 0) {
+      const participantTypes = types.flatMap(participantTypesForOrgType);
+      conditions.push(participantTypes.length > 0 ? inArray(networkParticipants.type, participantTypes) : sql`false`);
+    }
+
+    const endpoints = referenceValues(query, 'endpoint', 'Endpoint');
+    if (endpoints.length > 0) {
+      conditions.push(inArray(
+        networkParticipants.id,
+        db.select({ id: participantServices.participantId })
+          .from(participantServices)
+          .where(idIn(participantServices.id, endpoints))
+      ));
+    }
+
+    const participants = await this.pageParticipants(conditions, page);
+    return participants.map(toOrganization);
+  }
+
+  /**
+   * Location: _id, name, address, address-city, address-state,
+   * address-postalcode, organization, near (nearest first)
+   */
+  private async findLocations(query: FhirQuery, page: PlanNetPage, since?: Date): Promise<FhirResource[]> {
+    const conditions = [
+      or(not(isNull(networkParticipants.addressLine1)), not(isNull(networkParticipants.latitude)))!,
+      ...this.participantConditions(query, since)
+    ];
+
+    const organizations = referenceValues(query, 'organization', 'Organization');
+    if (organizations.length > 0) {
+      conditions.push(idIn(networkParticipants.id, organizations), ne(networkParticipants.entityType, 'individual'));
+    }
+
+    const near = nearParam(query);
+    if (!near) {
+      const participants = await this.pageParticipants(conditions, page);
+      return participants.map(toLocation);
+    }
+
+    const box = boundingBox(near.latitude, near.longitude, near.radiusMiles);
+    const distance = haversineMilesSql(networkParticipants.latitude, networkParticipants.longitude, near.latitude, near.longitude);
+    conditions.push(
+      sql`${networkParticipants.latitude} between ${box.minLat} and ${box.maxLat}`,
+      sql`${networkParticipants.longitude} between ${box.minLng} and ${box.maxLng}`,
+      sql`${distance} <= ${near.radiusMiles}`
+    );
+
+    const participants = await db
+      .select()
+      .from(networkParticipants)
+      .where(and(...conditions))
+      .orderBy(asc(distance), asc(networkParticipants.id))
+      .limit(page.count)
+      .offset(page.offset);
+
+    return participants.map(toLocation);
+  }
+
+  /**
+   * HealthcareService: _id, name, service-category, service-type, specialty,
+   * organization, location, endpoint
+   */
+  private async findHealthcareServices(query: FhirQuery, page: PlanNetPage, since?: Date): Promise<FhirResource[]> {
+    const conditions = this.serviceConditions(query, since);
+
+    const names = searchValues(query, 'name');
+    if (names.length > 0) {
+      conditions.push(or(...names.map(name => wordPrefix(networkServices.name, name)))!);
+    }
+
+    const categories = tokenValues(query, 'service-category');
+    if (categories.length > 0) {
+      const participantTypes = categories.flatMap(participantTypesForServiceCategory);
+      conditions.push(participantTypes.length > 0 ? inArray(networkParticipants.type, participantTypes) : sql`false`);
+    }
+
+    const serviceTypes = tokenValues(query, 'service-type')
+      .filter((code): code is typeof serviceTypeEnum.enumValues[number] => (serviceTypeEnum.enumValues as string[]).includes(code));
+    if (searchValues(query, 'service-type').length > 0) {
+      conditions.push(serviceTypes.length > 0 ? inArray(networkServices.type, serviceTypes) : sql`false`);
+    }
+
+    const specialties = tokenValues(query, 'specialty');
+    if (specialties.length > 0) {
+      conditions.push(containsAny(networkParticipants.specialties, specialties));
+    }
+
+    const locations = referenceValues(query, 'location', 'Location');
+    if (locations.length > 0) {
+      conditions.push(idIn(participantServices.participantId, locations));
+    }
+
+    const endpoints = referenceValues(query, 'endpoint', 'Endpoint');
+    if (endpoints.length > 0) {
+      conditions.push(idIn(participantServices.id, endpoints), hasEndpoint());
+    }
+
+    const rows = await this.pageServiceRows(conditions, page);
+    return rows.map(toHealthcareService);
+  }
+
+  /**
+   * Endpoint: _id, organization, connection-type. Only participant services
+   * with a technical endpoint address are endpoints.
+   */
+  private async findEndpoints(query: FhirQuery, page: PlanNetPage, since?: Date): Promise<FhirResource[]> {
+    const conditions = [hasEndpoint(), ...this.serviceConditions(query, since)];
+
+    const connectionTypes = tokenValues(query, 'connection-type');
+    if (connectionTypes.length > 0) {
+      conditions.push(inArray(
+        sql`coalesce(${participantServices.configurationDetails}->>'connectionType', 'hl7-fhir-rest')`,
+        connectionTypes
+      ));
+    }
+
+    const rows = await this.pageServiceRows(conditions, page);
+    return rows.map(toEndpoint);
+  }
+
+  /**
+   * OrganizationAffiliation: _id, primary-organization, participating-organization,
+   * network, location, service, specialty. Terminated connections and those
+   * with an individual at either end are not published.
+   */
+  private async findOrganizationAffiliations(query: FhirQuery, page: PlanNetPage, since?: Date): Promise<FhirResource[]> {
+    const organizations = db
+      .select({ id: networkParticipants.id })
+      .from(networkParticipants)
+      .where(ne(networkParticipants.entityType, 'individual'));
+
+    const conditions: SQL[] = [
+      ne(networkConnections.status, 'terminated'),
+      inArray(networkConnections.sourceParticipantId, organizations),
+      inArray(networkConnections.targetParticipantId, organizations)
+    ];
+
+    const ids = searchValues(query, '_id');
+    if (ids.length > 0) {
+      conditions.push(idIn(networkConnections.id, ids));
+    }
+
+    // Connections from a network organization are memberships of that network
+    const references: Array<[string, AnyColumn, PlanNetResourceType]> = [
+      ['primary-organization', networkConnections.sourceParticipantId, 'Organization'],
+      ['network', networkConnections.sourceParticipantId, 'Organization'],
+      ['participating-organization', networkConnections.targetParticipantId, 'Organization'],
+      ['location', networkConnections.targetParticipantId, 'Location']
+    ];
+    for (const [name, column, target] of references) {
+      const values = referenceValues(query, name, target);
+      if (values.length > 0) {
+        conditions.push(idIn(column, values));
+      }
+    }
+
+    const services = referenceValues(query, 'service', 'HealthcareService');
+    if (services.length > 0) {
+      conditions.push(inArray(
+        networkConnections.targetParticipantId,
+        db.select({ id: participantServices.participantId })
+          .from(participantServices)
+          .where(idIn(participantServices.id, services))
+      ));
+    }
+
+    const specialties = tokenValues(query, 'specialty');
+    if (specialties.length > 0) {
+      conditions.push(inArray(
+        networkConnections.targetParticipantId,
+        db.select({ id: networkParticipants.id })
+          .from(networkParticipants)
+          .where(containsAny(networkParticipants.specialties, specialties))
+      ));
+    }
+
+    if (since) {
+      conditions.push(changedSince(networkConnections.updatedAt, networkConnections.createdAt, since));
+    }
+
+    const connections = await db
+      .select()
+      .from(networkConnections)
+      .where(and(...conditions))
+      .orderBy(asc(networkConnections.id))
+      .limit(page.count)
+      .offset(page.offset);
+
+    if (connections.length === 0) {
+      return [];
+    }
+
+    const participantIds = Array.from(new Set(connections.flatMap(c => [c.sourceParticipantId, c.targetParticipantId])));
+    const participants = new Map(
+      (await db.select().from(networkParticipants).where(inArray(networkParticipants.id, participantIds)))
+        .map(participant => [participant.id, participant])
+    );
+
+    const targetIds = Array.from(new Set(connections.map(c => c.targetParticipantId)));
+    const targetServices = await db
+      .select({ id: participantServices.id, participantId: participantServices.participantId, serviceId: participantServices.serviceId })
+      .from(participantServices)
+      .where(inArray(participantServices.participantId, targetIds));
+
+    return connections.map(connection => {
+      // Services enabled on the connection, by service or participant service ID; all of the target's if none are listed
+      const enabled = ((connection.enabledServices as EnabledServiceEntry[] | null) || [])
+        .map(entry => (typeof entry === 'string' ? entry : entry?.serviceId || entry?.id))
+        .filter((id): id is string => Boolean(id));
+      const serviceIds = targetServices
+        .filter(service => service.participantId === connection.targetParticipantId)
+        .filter(service => enabled.length === 0 || enabled.includes(service.serviceId) || enabled.includes(service.id))
+        .map(service => service.id);
+
+      return toOrganizationAffiliation(
+        connection,
+        participants.get(connection.sourceParticipantId)!,
+        participants.get(connection.targetParticipantId)!,
+        serviceIds
+      );
+    });
+  }
+
+  /**
+   * InsurancePlan: _id, name, identifier, type, plan-type, owned-by,
+   * administered-by, network. Draft plans are not published.
+   */
+  private async findInsurancePlans(query: FhirQuery, page: PlanNetPage, since?: Date): Promise<FhirResource[]> {
+    const conditions: SQL[] = [ne(networkInsurancePlans.status, 'draft')];
+
+    const ids = searchValues(query, '_id');
+    if (ids.length > 0) {
+      conditions.push(idIn(networkInsurancePlans.id, ids));
+    }
+
+    const names = searchValues(query, 'name');
+    if (names.length > 0) {
+      conditions.push(or(...names.map(name => wordPrefix(networkInsurancePlans.name, name)))!);
+    }
+
+    const identifiers = tokenValues(query, 'identifier');
+    if (identifiers.length > 0) {
+      conditions.push(inArray(networkInsurancePlans.planIdentifier, identifiers));
+    }
+
+    const productTypes = tokenValues(query, 'type');
+    if (productTypes.length > 0) {
+      conditions.push(inArray(networkInsurancePlans.productType, productTypes));
+    }
+
+    const planTypes = tokenValues(query, 'plan-type');
+    if (planTypes.length > 0) {
+      conditions.push(inArray(networkInsurancePlans.planType, planTypes));
+    }
+
+    const owners = referenceValues(query, 'owned-by', 'Organization');
+    if (owners.length > 0) {
+      conditions.push(idIn(networkInsurancePlans.payerParticipantId, owners));
+    }
+
+    const administrators = referenceValues(query, 'administered-by', 'Organization');
+    if (administrators.length > 0) {
+      // Plans without an administrator are administered by their payer
+      conditions.push(or(
+        idIn(networkInsurancePlans.administratorParticipantId, administrators),
+        and(isNull(networkInsurancePlans.administratorParticipantId), idIn(networkInsurancePlans.payerParticipantId, administrators))
+      )!);
+    }
+
+    const networks = referenceValues(query, 'network', 'Organization');
+    if (networks.length > 0) {
+      conditions.push(containsAny(networkInsurancePlans.networkParticipantIds, networks));
+    }
+
+    if (since) {
+      conditions.push(changedSince(networkInsurancePlans.updatedAt, networkInsurancePlans.createdAt, since));
+    }
+
+    const plans = await db
+      .select()
+      .from(networkInsurancePlans)
+      .where(and(...conditions))
+      .orderBy(asc(networkInsurancePlans.name), asc(networkInsurancePlans.id))
+      .limit(page.count)
+      .offset(page.offset);
+
+    return plans.map(toInsurancePlan);
+  }
+
+  /**
+   * Conditions for the search parameters shared by participant-based resources:
+   * _id, name, identifier (NPI) and the address parameters
+   */
+  private participantConditions(query: FhirQuery, since?: Date): SQL[] {
+    const conditions: SQL[] = [];
+
+    const ids = searchValues(query, '_id');
+    if (ids.length > 0) {
+      conditions.push(idIn(networkParticipants.id, ids));
+    }
+
+    const names = searchValues(query, 'name');
+    if (names.length > 0) {
+      conditions.push(or(...names.flatMap(name => [
+        wordPrefix(networkParticipants.name, name),
+        wordPrefix(networkParticipants.displayName, name)
+      ]))!);
+    }
+
+    const npis = tokenValues(query, 'identifier');
+    if (npis.length > 0) {
+      conditions.push(inArray(sql`${networkParticipants.externalIdentifiers}->>'npi'`, npis));
+    }
+
+    const addresses = searchValues(query, 'address');
+    if (addresses.length > 0) {
+      const fullAddress = sql`concat_ws(' ', ${networkParticipants.addressLine1}, ${networkParticipants.addressLine2}, ${networkParticipants.city}, ${networkParticipants.state}, ${networkParticipants.postalCode})`;
+      conditions.push(or(...addresses.map(value => ilike(fullAddress, `%${escapeLike(value)}%`)))!);
+    }
+
+    const cities = searchValues(query, 'address-city');
+    if (cities.length > 0) {
+      conditions.push(or(...cities.map(city => ilike(networkParticipants.city, `${escapeLike(city)}%`)))!);
+    }
+
+    const states = searchValues(query, 'address-state');
+    if (states.length > 0) {
+      conditions.push(inArray(sql`upper(${networkParticipants.state})`, states.map(state => state.toUpperCase())));
+    }
+
+    const postalCodes = searchValues(query, 'address-postalcode');
+    if (postalCodes.length > 0) {
+      conditions.push(or(...postalCodes.map(code => ilike(networkParticipants.postalCode, `${escapeLike(code)}%`)))!);
+    }
+
+    if (since) {
+      conditions.push(changedSince(networkParticipants.updatedAt, networkParticipants.createdAt, since));
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Conditions for the search parameters shared by HealthcareService and
+   * Endpoint: _id and organization
+   */
+  private serviceConditions(query: FhirQuery, since?: Date): SQL[] {
+    const conditions: SQL[] = [];
+
+    const ids = searchValues(query, '_id');
+    if (ids.length > 0) {
+      conditions.push(idIn(participantServices.id, ids));
+    }
+
+    const organizations = referenceValues(query, 'organization', 'Organization');
+    if (organizations.length > 0) {
+      conditions.push(idIn(participantServices.participantId, organizations), ne(networkParticipants.entityType, 'individual'));
+    }
+
+    if (since) {
+      conditions.push(changedSince(participantServices.updatedAt, participantServices.createdAt, since));
+    }
+
+    return conditions;
+  }
+
+  private async pageParticipants(conditions: SQL[], page: PlanNetPage): Promise<NetworkParticipant[]> {
+    return db
+      .select()
+      .from(networkParticipants)
+      .where(and(...conditions))
+      .orderBy(asc(networkParticipants.name), asc(networkParticipants.id))
+      .limit(page.count)
+      .offset(page.offset);
+  }
+
+  private async pageServiceRows(conditions: SQL[], page: PlanNetPage) {
+    return db
+      .select({ participantService: participantServices, service: networkServices, participant: networkParticipants })
+      .from(participantServices)
+      .innerJoin(networkServices, eq(participantServices.serviceId, networkServices.id))
+      .innerJoin(networkParticipants, eq(participantServices.participantId, networkParticipants.id))
+      .where(and(...conditions))
+      .orderBy(asc(networkServices.name), asc(participantServices.id))
+      .limit(page.count)
+      .offset(page.offset);
+  }
+
+  /**
+   * Resources referenced by the matches (_include) or referencing them (_revinclude)
+   */
+  private async resolveIncludes(type: PlanNetResourceType, matches: FhirResource[], query: FhirQuery): Promise<FhirResource[]> {
+    const included = new Map<string, FhirResource>();
+    const matched = new Set(matches.map(resource => `${resource.resourceType}/${resource.id}`));
+    const add = (resources: FhirResource[]) => {
+      for (const resource of resources) {
+        const key = `${resource.resourceType}/${resource.id}`;
+        if (!matched.has(key) && included.size < MAX_INCLUDES) {
+          included.set(key, resource);
+        }
+      }
+    };
+
+    for (const { sourceType, param } of includeParams(query, '_include')) {
+      if (sourceType !== type) {
+        throw new FhirRequestError(`_include=${sourceType}:${param} does not apply to ${type}`);
+      }
+
+      const definition = PLAN_NET_REFERENCE_PARAMS[sourceType][param];
+      const ids = Array.from(new Set(
+        matches
+          .flatMap(resource => definition.references(resource))
+          .map(ref => ref?.reference?.split('/')[1])
+          .filter((id): id is string => !!id)
+      ));
+      if (ids.length > 0) {
+        add(await this.find(definition.target, { _id: ids }, { count: MAX_INCLUDES, offset: 0 }));
+      }
+    }
+
+    for (const { sourceType, param } of includeParams(query, '_revinclude')) {
+      const definition = PLAN_NET_REFERENCE_PARAMS[sourceType][param];
+      if (definition.target !== type) {
+        throw new FhirRequestError(`_revinclude=${sourceType}:${param} does not reference ${type}`);
+      }
+
+      if (matches.length > 0) {
+        add(await this.find(sourceType, { [param]: matches.map(resource => resource.id) }, { count: MAX_INCLUDES, offset: 0 }));
+      }
+    }
+
+    return Array.from(included.values());
+  }
+}
+
+// IDs are UUIDs; anything else matches nothing rather than failing the query
+function idIn(column: AnyColumn, ids: string[]): SQL {
+  const valid = ids.filter(id => UUID_PATTERN.test(id));
+  return valid.length > 0 ? inArray(column, valid) : sql`false`;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+// FHIR string search: case-insensitive match at the start of any word
+function wordPrefix(column: AnyColumn, value: string): SQL {
+  const pattern = escapeLike(value);
+  return or(ilike(column, `${pattern}%`), ilike(column, `% ${pattern}%`))!;
+}
+
+// A JSON array column containing any of the values
+function containsAny(column: AnyColumn, values: string[]): SQL {
+  return or(...values.map(value => sql`${column} @> ${JSON.stringify([value])}::jsonb`))!;
+}
+
+function changedSince(updatedAt: AnyColumn, createdAt: AnyColumn, since: Date): SQL {
+  return gte(sql`coalesce(${updatedAt}, ${createdAt})`, since);
+}
+
+function hasEndpoint(): SQL {
+  return sql`coalesce(${participantServices.configurationDetails}->>'endpointUrl', ${participantServices.configurationDetails}->>'url') is not null`;
+}
+
+// Create and export the service instance
+export const planNetService = new PlanNetService();
@@ -0,0 +1,523 @@
+/**
+ * Smart Health Hub - FHIR Plan-Net Mapping
+ *
+ * Maps the network directory to Da Vinci PDex Plan-Net (FHIR R4) resources:
+ * participants become Practitioner, Organization and Location resources,
+ * participant services become HealthcareService and Endpoint resources,
+ * connections become OrganizationAffiliation resources, and insurance plans
+ * become InsurancePlan resources. Also reads Plan-Net search parameters and
+ * describes the reference parameters used by _include and _revinclude.
+ */
+
+import {
+  type NetworkParticipant,
+  type NetworkService,
+  type ParticipantService,
+  type NetworkConnection,
+  type NetworkInsurancePlan,
+  type ParticipantExternalIdentifiers
+} from '../../../shared/network-directory-schema';
+import { FhirRequestError, type FhirQuery } from '../scheduling/scheduling-fhir';
+
+const PLAN_NET = 'http://hl7.org/fhir/us/davinci-pdex-plan-net';
+const NPI_SYSTEM = 'http://hl7.org/fhir/sid/us-npi';
+const NUCC_TAXONOMY_SYSTEM = 'http://nucc.org/provider-taxonomy';
+const ORG_TYPE_SYSTEM = `${PLAN_NET}/CodeSystem/OrgTypeCS`;
+const SERVICE_CATEGORY_SYSTEM = `${PLAN_NET}/CodeSystem/HealthcareServiceCategoryCS`;
+const ACCEPTING_PATIENTS_SYSTEM = `${PLAN_NET}/CodeSystem/AcceptingPatientsCS`;
+const AFFILIATION_ROLE_SYSTEM = `${PLAN_NET}/CodeSystem/OrganizationAffiliationRoleCS`;
+const PRODUCT_TYPE_SYSTEM = `${PLAN_NET}/CodeSystem/InsuranceProductTypeCS`;
+const PLAN_TYPE_SYSTEM = `${PLAN_NET}/CodeSystem/InsurancePlanTypeCS`;
+const NEW_PATIENTS_EXTENSION = `${PLAN_NET}/StructureDefinition/newpatients`;
+const CONNECTION_TYPE_SYSTEM = 'http://terminology.hl7.org/CodeSystem/endpoint-connection-type';
+const PAYLOAD_TYPE_SYSTEM = 'http://terminology.hl7.org/CodeSystem/endpoint-payload-type';
+const SERVICE_TYPE_SYSTEM = 'urn:smart-health-hub:network-service-type';
+
+export const PLAN_NET_RESOURCE_TYPES = [
+  'Practitioner',
+  'Organization',
+  'Location',
+  'HealthcareService',
+  'Endpoint',
+  'OrganizationAffiliation',
+  'InsurancePlan'
+] as const;
+
+export type PlanNetResourceType = typeof PLAN_NET_RESOURCE_TYPES[number];
+
+export type FhirResource = Record<string, any> & { resourceType: string; id: string };
+
+// Plan-Net organization type for each participant type
+const ORG_TYPES: Record<NetworkParticipant['type'], string> = {
+  provider: 'prvgrp',
+  health_system: 'prvgrp',
+  pharmacy: 'fac',
+  lab: 'fac',
+  imaging_center: 'fac',
+  payer: 'payer',
+  network: 'ntwk',
+  clearing_house: 'bus',
+  employer: 'bus',
+  state_hie: 'bus',
+  public_health_agency: 'bus',
+  other: 'bus'
+};
+
+// Plan-Net healthcare service category for each participant type
+const SERVICE_CATEGORIES: Partial<Record<NetworkParticipant['type'], string>> = {
+  pharmacy: 'pharm',
+  lab: 'lab',
+  imaging_center: 'outpat',
+  health_system: 'hosp'
+};
+const DEFAULT_SERVICE_CATEGORY = 'prov';
+
+// Where the references of each reference search parameter are in a mapped
+// resource, and the type they reference. These are the parameters that
+// _include and _revinclude accept.
+export const PLAN_NET_REFERENCE_PARAMS: Record<PlanNetResourceType, Record<string, {
+  target: PlanNetResourceType;
+  references: (resource: FhirResource) => Array<{ reference?: string } | undefined>;
+}>> = {
+  Practitioner: {},
+  Organization: {},
+  Location: {
+    organization: { target: 'Organization', references: r => [r.managingOrganization] }
+  },
+  HealthcareService: {
+    organization: { target: 'Organization', references: r => [r.providedBy] },
+    location: { target: 'Location', references: r => r.location || [] },
+    endpoint: { target: 'Endpoint', references: r => r.endpoint || [] }
+  },
+  Endpoint: {
+    organization: { target: 'Organization', references: r => [r.managingOrganization] }
+  },
+  OrganizationAffiliation: {
+    'primary-organization': { target: 'Organization', references: r => [r.organization] },
+    'participating-organization': { target: 'Organization', references: r => [r.participatingOrganization] },
+    network: { target: 'Organization', references: r => r.network || [] },
+    location: { target: 'Location', references: r => r.location || [] },
+    service: { target: 'HealthcareService', references: r => r.healthcareService || [] }
+  },
+  InsurancePlan: {
+    'owned-by': { target: 'Organization', references: r => [r.ownedBy] },
+    'administered-by': { target: 'Organization', references: r => [r.administeredBy] },
+    network: { target: 'Organization', references: r => r.network || [] }
+  }
+};
+
+// A participant service with the service definition and the participant offering it
+export interface DirectoryServiceRow {
+  participantService: ParticipantService;
+  service: NetworkService;
+  participant: NetworkParticipant;
+}
+
+// ---------- Resources ----------
+
+/**
+ * Map an individual participant to a Plan-Net Practitioner
+ */
+export function toPractitioner(participant: NetworkParticipant): FhirResource {
+  const nameParts = participant.name.trim().split(/\s+/);
+  const taxonomies: Array<{ code: string; licenseNumber?: string | null; licenseState?: string | null }> =
+    nppesMetadata(participant)?.taxonomies || specialtyCodes(participant).map(code => ({ code }));
+
+  return {
+    resourceType: 'Practitioner',
+    id: participant.id,
+    meta: meta(participant, 'plannet-Practitioner'),
+    ...identifiers(participant),
+    active: participant.active !== false,
+    name: [{
+      text: participant.displayName,
+      family: nameParts[nameParts.length - 1],
+      ...(nameParts.length > 1 && { given: nameParts.slice(0, -1) })
+    }],
+    ...telecom(participant),
+    ...address(participant),
+    ...(taxonomies.length > 0 && {
+      qualification: taxonomies.map(taxonomy => ({
+        ...(taxonomy.licenseNumber && { identifier: [{ value: taxonomy.licenseNumber }] }),
+        code: { coding: [{ system: NUCC_TAXONOMY_SYSTEM, code: taxonomy.code }] },
+        ...(taxonomy.licenseState && { issuer: { display: taxonomy.licenseState } })
+      }))
+    })
+  };
+}
+
+/**
+ * Map an organization participant to a Plan-Net Organization (or Network,
+ * for network participants)
+ */
+export function toOrganization(participant: NetworkParticipant): FhirResource {
+  return {
+    resourceType: 'Organization',
+    id: participant.id,
+    meta: meta(participant, participant.type === 'network' ? 'plannet-Network' : 'plannet-Organization'),
+    ...identifiers(participant),
+    active: participant.active !== false,
+    type: [{ coding: [{ system: ORG_TYPE_SYSTEM, code: ORG_TYPES[participant.type] }] }],
+    name: participant.name,
+    ...(participant.displayName !== participant.name && { alias: [participant.displayName] }),
+    ...telecom(participant),
+    ...address(participant)
+  };
+}
+
+/**
+ * Map a participant's address and coordinates to a Plan-Net Location with the
+ * participant's ID
+ */
+export function toLocation(participant: NetworkParticipant): FhirResource {
+  const addresses = address(participant).address;
+
+  return {
+    resourceType: 'Location',
+    id: participant.id,
+    meta: meta(participant, 'plannet-Location'),
+    status: participant.active !== false ? 'active' : 'inactive',
+    name: participant.displayName,
+    ...telecom(participant),
+    ...(addresses && { address: addresses[0] }),
+    ...(participant.latitude !== null && participant.longitude !== null && {
+      position: { latitude: participant.latitude, longitude: participant.longitude }
+    }),
+    ...(isOrganization(participant) && { managingOrganization: { reference: `Organization/${participant.id}` } })
+  };
+}
+
+/**
+ * Map a participant service to a Plan-Net HealthcareService
+ */
+export function toHealthcareService(row: DirectoryServiceRow): FhirResource {
+  const { participantService, service, participant } = row;
+
+  return {
+    resourceType: 'HealthcareService',
+    id: participantService.id,
+    meta: meta(participantService, 'plannet-HealthcareService'),
+    ...(participant.acceptingNewPatients !== null && {
+      extension: [{
+        url: NEW_PATIENTS_EXTENSION,
+        extension: [{
+          url: 'acceptingPatients',
+          valueCodeableConcept: {
+            coding: [{ system: ACCEPTING_PATIENTS_SYSTEM, code: participant.acceptingNewPatients ? 'newpt' : 'nopt' }]
+          }
+        }]
+      }]
+    }),
+    active: participantService.status === 'available' || participantService.status === 'degraded',
+    ...(isOrganization(participant) && { providedBy: { reference: `Organization/${participant.id}` } }),
+    category: [{
+      coding: [{ system: SERVICE_CATEGORY_SYSTEM, code: SERVICE_CATEGORIES[participant.type] || DEFAULT_SERVICE_CATEGORY }]
+    }],
+    type: [{ coding: [{ system: SERVICE_TYPE_SYSTEM, code: service.type }], text: service.name }],
+    ...specialty(participant),
+    ...(hasLocation(participant) && { location: [{ reference: `Location/${participant.id}` }] }),
+    name: service.name,
+    ...(service.description && { comment: service.description }),
+    ...(endpointAddress(participantService) && { endpoint: [{ reference: `Endpoint/${participantService.id}` }] })
+  };
+}
+
+/**
+ * Map a participant service with a technical endpoint to a Plan-Net Endpoint
+ */
+export function toEndpoint(row: DirectoryServiceRow): FhirResource {
+  const { participantService, service, participant } = row;
+  const details = (participantService.configurationDetails || {}) as Record<string, any>;
+
+  return {
+    resourceType: 'Endpoint',
+    id: participantService.id,
+    meta: meta(participantService, 'plannet-Endpoint'),
+    status: ENDPOINT_STATUSES[participantService.status],
+    connectionType: { system: CONNECTION_TYPE_SYSTEM, code: endpointConnectionType(participantService) },
+    name: `${service.name} - ${participant.displayName}`,
+    ...(isOrganization(participant) && { managingOrganization: { reference: `Organization/${participant.id}` } }),
+    ...(participant.contactEmail && { contact: [{ system: 'email', value: participant.contactEmail }] }),
+    payloadType: [{ coding: [{ system: PAYLOAD_TYPE_SYSTEM, code: 'any' }] }],
+    ...(details.payloadMimeTypes && { payloadMimeType: details.payloadMimeTypes }),
+    address: endpointAddress(participantService)
+  };
+}
+
+/**
+ * Map a connection between organizations to a Plan-Net OrganizationAffiliation.
+ * The target's services enabled on the connection are its healthcare services.
+ */
+export function toOrganizationAffiliation(
+  connection: NetworkConnection,
+  source: NetworkParticipant,
+  target: NetworkParticipant,
+  targetServiceIds: string[]
+): FhirResource {
+  return {
+    resourceType: 'OrganizationAffiliation',
+    id: connection.id,
+    meta: meta(connection, 'plannet-OrganizationAffiliation'),
+    active: connection.status === 'active',
+    ...((connection.contractEffectiveDate || connection.contractEndDate) && {
+      period: {
+        ...(connection.contractEffectiveDate && { start: connection.contractEffectiveDate.toISOString() }),
+        ...(connection.contractEndDate && { end: connection.contractEndDate.toISOString() })
+      }
+    }),
+    organization: { reference: `Organization/${source.id}` },
+    participatingOrganization: { reference: `Organization/${target.id}` },
+    ...(source.type === 'network' && { network: [{ reference: `Organization/${source.id}` }] }),
+    code: [{ coding: [{ system: AFFILIATION_ROLE_SYSTEM, code: 'member' }] }],
+    ...specialty(target),
+    ...(hasLocation(target) && { location: [{ reference: `Location/${target.id}` }] }),
+    ...(targetServiceIds.length > 0 && {
+      healthcareService: targetServiceIds.map(id => ({ reference: `HealthcareService/${id}` }))
+    })
+  };
+}
+
+/**
+ * Map an insurance plan to a Plan-Net InsurancePlan
+ */
+export function toInsurancePlan(plan: NetworkInsurancePlan): FhirResource {
+  const networks = (plan.networkParticipantIds || []).map(id => ({ reference: `Organization/${id}` }));
+
+  return {
+    resourceType: 'InsurancePlan',
+    id: plan.id,
+    meta: meta(plan, 'plannet-InsurancePlan'),
+    ...(plan.planIdentifier && { identifier: [{ value: plan.planIdentifier }] }),
+    status: plan.status,
+    type: [{ coding: [{ system: PRODUCT_TYPE_SYSTEM, code: plan.productType }] }],
+    name: plan.name,
+    ...(plan.alias && { alias: [plan.alias] }),
+    ...((plan.periodStart || plan.periodEnd) && {
+      period: {
+        ...(plan.periodStart && { start: plan.periodStart.toISOString() }),
+        ...(plan.periodEnd && { end: plan.periodEnd.toISOString() })
+      }
+    }),
+    ownedBy: { reference: `Organization/${plan.payerParticipantId}` },
+    administeredBy: { reference: `Organization/${plan.administratorParticipantId || plan.payerParticipantId}` },
+    ...(networks.length > 0 && { network: networks }),
+    ...(plan.planType && {
+      plan: [{
+        type: { coding: [{ system: PLAN_TYPE_SYSTEM, code: plan.planType }] },
+        ...(networks.length > 0 && { network: networks })
+      }]
+    })
+  };
+}
+
+/**
+ * Wrap a page of search results in a searchset Bundle
+ */
+export function planNetBundle(
+  baseUrl: string,
+  selfUrl: string,
+  matches: FhirResource[],
+  includes: FhirResource[],
+  nextUrl?: string
+): Record<string, any> {
+  const entry = (resource: FhirResource, mode: 'match' | 'include') => ({
+    fullUrl: `${baseUrl}/${resource.resourceType}/${resource.id}`,
+    resource,
+    search: { mode }
+  });
+
+  return {
+    resourceType: 'Bundle',
+    type: 'searchset',
+    link: [
+      { relation: 'self', url: selfUrl },
+      ...(nextUrl ? [{ relation: 'next', url: nextUrl }] : [])
+    ],
+    entry: [
+      ...matches.map(resource => entry(resource, 'match')),
+      ...includes.map(resource => entry(resource, 'include'))
+    ]
+  };
+}
+
+// ---------- Directory values ----------
+
+/**
+ * Participant types with a Plan-Net organization type
+ */
+export function participantTypesForOrgType(code: string): NetworkParticipant['type'][] {
+  return (Object.keys(ORG_TYPES) as NetworkParticipant['type'][]).filter(type => ORG_TYPES[type] === code);
+}
+
+/**
+ * Participant types with a Plan-Net healthcare service category
+ */
+export function participantTypesForServiceCategory(code: string): NetworkParticipant['type'][] {
+  return (Object.keys(ORG_TYPES) as NetworkParticipant['type'][])
+    .filter(type => (SERVICE_CATEGORIES[type] || DEFAULT_SERVICE_CATEGORY) === code);
+}
+
+/**
+ * Whether a participant has an address or coordinates to publish as a Location
+ */
+export function hasLocation(participant: NetworkParticipant): boolean {
+  return !!participant.addressLine1 || participant.latitude !== null;
+}
+
+/**
+ * The address of a participant service's technical endpoint, if it has one
+ */
+export function endpointAddress(participantService: ParticipantService): string | undefined {
+  const details = (participantService.configurationDetails || {}) as Record<string, any>;
+  return details.endpointUrl || details.url || undefined;
+}
+
+/**
+ * Connection type of a participant service's endpoint
+ */
+export function endpointConnectionType(participantService: ParticipantService): string {
+  const details = (participantService.configurationDetails || {}) as Record<string, any>;
+  return details.connectionType || 'hl7-fhir-rest';
+}
+
+// ---------- Search parameters ----------
+
+/**
+ * All values of a parameter; repeated parameters and comma-separated values
+ * are both accepted
+ */
+export function searchValues(query: FhirQuery, name: string): string[] {
+  const value = query[name];
+  if (value === undefined) {
+    return [];
+  }
+  return (Array.isArray(value) ? value : [value]).flatMap(v => v.split(',')).filter(Boolean);
+}
+
+/**
+ * Token values; only the code of system|code is matched
+ */
+export function tokenValues(query: FhirQuery, name: string): string[] {
+  return searchValues(query, name).map(value => (value.includes('|') ? value.split('|').pop()! : value)).filter(Boolean);
+}
+
+/**
+ * Reference values as IDs of the given type; accepts "Type/id", absolute URLs
+ * ending in "Type/id", and bare IDs
+ */
+export function referenceValues(query: FhirQuery, name: string, type: PlanNetResourceType): string[] {
+  return searchValues(query, name).map(value => {
+    const parts = value.split('/');
+    if (parts.length > 1 && parts[parts.length - 2] !== type) {
+      throw new FhirRequestError(`${name} must reference a ${type}`);
+    }
+    return parts[parts.length - 1];
+  });
+}
+
+/**
+ * Read _include or _revinclude values ("Type:param") and check them against
+ * the reference parameters this server supports
+ */
+export function includeParams(
+  query: FhirQuery,
+  name: '_include' | '_revinclude'
+): Array<{ sourceType: PlanNetResourceType; param: string }> {
+  return searchValues(query, name).map(value => {
+    const [sourceType, param] = value.split(':');
+    const definition = PLAN_NET_REFERENCE_PARAMS[sourceType as PlanNetResourceType]?.[param];
+    if (!definition) {
+      throw new FhirRequestError(`Unsupported ${name}: ${value}`);
+    }
+    return { sourceType: sourceType as PlanNetResourceType, param };
+  });
+}
+
+/**
+ * Read the near parameter (latitude|longitude|distance|units) into a point
+ * and radius in miles. Distance defaults to 25 and units to km, as in FHIR.
+ */
+export function nearParam(query: FhirQuery): { latitude: number; longitude: number; radiusMiles: number } | undefined {
+  const [value] = searchValues(query, 'near');
+  if (!value) {
+    return undefined;
+  }
+
+  const [latitude, longitude, distance = '25', units = 'km'] = value.split('|');
+  const point = { latitude: Number(latitude), longitude: Number(longitude), distance: Number(distance) };
+  if (Object.values(point).some(isNaN) || !['km', 'mi', '[mi_i]'].includes(units)) {
+    throw new FhirRequestError('near must be latitude|longitude|distance|units with units km or mi');
+  }
+
+  return {
+    latitude: point.latitude,
+    longitude: point.longitude,
+    radiusMiles: units === 'km' ? point.distance / 1.609344 : point.distance
+  };
+}
+
+// ---------- Helpers ----------
+
+const ENDPOINT_STATUSES: Record<ParticipantService['status'], string> = {
+  available: 'active',
+  degraded: 'active',
+  maintenance: 'suspended',
+  unavailable: 'off'
+};
+
+function isOrganization(participant: NetworkParticipant): boolean {
+  return participant.entityType !== 'individual';
+}
+
+function meta(record: { createdAt: Date; updatedAt: Date | null }, profile: string): Record<string, any> {
+  return {
+    lastUpdated: (record.updatedAt || record.createdAt).toISOString(),
+    profile: [`${PLAN_NET}/StructureDefinition/${profile}`]
+  };
+}
+
+function nppesMetadata(participant: NetworkParticipant): Record<string, any> | undefined {
+  return (participant.metadata as Record<string, any> | null)?.nppes;
+}
+
+function identifiers(participant: NetworkParticipant): { identifier?: Record<string, any>[] } {
+  const npi = (participant.externalIdentifiers as ParticipantExternalIdentifiers | null)?.npi;
+  return npi ? { identifier: [{ system: NPI_SYSTEM, value: npi }] } : {};
+}
+
+function telecom(participant: NetworkParticipant): { telecom?: Record<string, any>[] } {
+  const points = [
+    participant.contactPhone && { system: 'phone', value: participant.contactPhone },
+    participant.contactEmail && { system: 'email', value: participant.contactEmail },
+    participant.website && { system: 'url', value: participant.website }
+  ].filter(Boolean) as Record<string, any>[];
+
+  return points.length > 0 ? { telecom: points } : {};
+}
+
+function address(participant: NetworkParticipant): { address?: Record<string, any>[] } {
+  if (!participant.addressLine1) {
+    return {};
+  }
+
+  return {
+    address: [{
+      line: [participant.addressLine1, participant.addressLine2].filter(Boolean),
+      ...(participant.city && { city: participant.city }),
+      ...(participant.state && { state: participant.state }),
+      ...(participant.postalCode && { postalCode: participant.postalCode }),
+      ...(participant.country && { country: participant.country })
+    }]
+  };
+}
+
+function specialtyCodes(participant: NetworkParticipant): string[] {
+  return (participant.specialties as string[] | null) || [];
+}
+
+function specialty(participant: NetworkParticipant): { specialty?: Record<string, any>[] } {
+  const codes = specialtyCodes(participant);
+  return codes.length > 0
+    ? { specialty: codes.map(code => ({ coding: [{ system: NUCC_TAXONOMY_SYSTEM, code }] })) }
+    : {};
+}
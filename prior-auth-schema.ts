@@ -31,11 +31,30 @@ export const priorAuthStatusEnum = pgEnum("prior_auth_status", [
   "cancelled",
   "additional_info_needed",
   "expired",
+  "not_required", // CRD found no PA is needed
+  "exempt", // Goldcarded provider; PA skipped
+  "submission_failed", // PAS Claim/$submit did not reach the payer
 ]);
 
 // Enum for request format type
 export const requestFormatEnum = pgEnum("request_format", ["fhir", "x12"]);
 
+// Benefit parameters used by the internal claims adjudication engine.
+// Monetary amounts are in cents; rates are fractions (0.2 = 20%).
+export interface PayerAdjudicationRules {
+  feeScheduleId?: string;
+  region?: string;
+  annualDeductible?: number;
+  planYearStartMonth?: number; // 1-12; the deductible resets on the 1st of this month (January if unset)
+  coinsuranceRate?: number;
+  copayByServiceCode?: Record<string, number>;
+  bundlingEdits?: Array<{
+    primaryCode: string;
+    bundledCode: string;
+    bypassModifiers?: string[];
+  }>;
+}
+
 // Table for payer configuration
 export const payerConfig = pgTable(
   "payer_config",
@@ -60,6 +79,10 @@ export const payerConfig = pgTable(
       password?: string;
       certificateThumbprint?: string;
     }>(),
+    adjudicationRules: json("adjudication_rules").$type<PayerAdjudicationRules>(),
+    defaultRequiresPreAuth: boolean("default_requires_pre_auth").notNull().default(true),
+    defaultAuthMethod: text("default_auth_method"),
+    defaultInstructions: text("default_instructions"),
     enabled: boolean("enabled").default(true),
     cacheLifetimeMinutes: integer("cache_lifetime_minutes").default(1440),
     createdAt: timestamp("created_at").default(sql`now()`),
@@ -84,6 +107,14 @@ export const procedureOverride = pgTable(
     serviceCategory: text("service_category"),
     overridePath: priorAuthPathEnum("override_path").notNull(),
     description: text("description"),
+    requiresPreAuth: boolean("requires_pre_auth"), // Null falls back to the payer default
+    authMethod: text("auth_method"),
+    specialInstructions: text("special_instructions"),
+    documentationRequired: json("documentation_required").$type<string[]>(),
+    adjudicationAction: text("adjudication_action"), // pay, deny, fixed_amount
+    allowedAmountOverride: integer("allowed_amount_override"), // In cents, for fixed_amount
+    denialReasonCode: text("denial_reason_code"), // CARC used when action is deny
+    remarkCode: text("remark_code"), // RARC attached to the line
     createdAt: timestamp("created_at").default(sql`now()`),
     updatedAt: timestamp("updated_at").default(sql`now()`),
   },
@@ -219,6 +250,22 @@ export const insertPriorAuthRequestSchema = createInsertSchema(priorAuthRequest)
 export const insertPriorAuthLogSchema = createInsertSchema(priorAuthLog);
 export const insertCanonicalDataRuleSchema = createInsertSchema(canonicalDataRule);
 
+// Prior auth submission (CRD → DTR → PAS)
+export const priorAuthSubmissionSchema = z.object({
+  patientId: z.string().min(1),
+  providerId: z.string().min(1),
+  organizationId: z.string().optional(),
+  payerId: z.string().min(1),
+  procedureCode: z.string().min(1),
+  diagnosisCodes: z.array(z.string()).default([]),
+  serviceDate: z.coerce.date().optional(),
+  coverageId: z.string().optional(),
+  hook: z.enum(["order-select", "order-sign"]).default("order-sign"),
+  questionnaireResponses: z.array(z.record(z.any())).default([]),
+});
+
+export type PriorAuthSubmission = z.infer<typeof priorAuthSubmissionSchema>;
+
 // Types
 export type PayerConfig = typeof payerConfig.$inferSelect;
 export type InsertPayerConfig = typeof payerConfig.$inferInsert;
@@ -249,4 +296,7 @@ export const PriorAuthStatus = {
   CANCELLED: 'cancelled',
   ADDITIONAL_INFO_NEEDED: 'additional_info_needed',
   EXPIRED: 'expired',
+  NOT_REQUIRED: 'not_required',
+  EXEMPT: 'exempt',
+  SUBMISSION_FAILED: 'submission_failed',
 } as const;
\ No newline at end of file
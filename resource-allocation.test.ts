@@ -0,0 +1,70 @@
+import { allocateResources, createFreeCheck, describeRequirements } from './resource-allocation';
+
+const at = (time: string) => new Date(`2024-03-11T${time}:00Z`);
+
+describe('createFreeCheck', () => {
+  const isFree = createFreeCheck(
+    [
+      { id: 'room-1', capacity: 1, isActive: true },
+      { id: 'bay-1', capacity: 2, isActive: true },
+      { id: 'room-closed', capacity: 1, isActive: false }
+    ],
+    [
+      { resourceId: 'room-1', slotId: 'slot-1', startDateTime: at('09:00'), endDateTime: at('10:00') },
+      { resourceId: 'bay-1', startDateTime: at('09:00'), endDateTime: at('10:00') },
+      { resourceId: 'bay-1', startDateTime: at('09:30'), endDateTime: at('10:30') }
+    ]
+  );
+
+  it('treats overlapping bookings as taking the resource, and back-to-back ones as not', () => {
+    expect(isFree('room-1', at('09:30'), at('10:30'))).toBe(false);
+    expect(isFree('room-1', at('10:00'), at('11:00'))).toBe(true);
+  });
+
+  it('counts only bookings held at the same moment against the capacity', () => {
+    expect(isFree('bay-1', at('09:30'), at('10:00'))).toBe(false);
+    expect(isFree('bay-1', at('08:30'), at('09:15'))).toBe(true);
+  });
+
+  it('lets appointments in the same slot share its bookings', () => {
+    expect(isFree('room-1', at('09:00'), at('10:00'), 'slot-1')).toBe(true);
+  });
+
+  it('never frees inactive or unknown resources', () => {
+    expect(isFree('room-closed', at('12:00'), at('13:00'))).toBe(false);
+    expect(isFree('room-unknown', at('12:00'), at('13:00'))).toBe(false);
+  });
+});
+
+describe('allocateResources', () => {
+  const all = () => true;
+
+  it('picks a different resource for each requirement', () => {
+    expect(allocateResources(
+      [{ label: 'Exam room', resourceIds: ['room-1', 'room-2'] }, { label: 'Second exam room', resourceIds: ['room-1'] }],
+      all
+    )).toEqual({ resourceIds: ['room-2', 'room-1'], unmet: [] });
+  });
+
+  it('uses preferred resources for the requirements they belong to', () => {
+    expect(allocateResources([{ resourceIds: ['room-1', 'room-2'] }], all, ['room-2']).resourceIds).toEqual(['room-2']);
+  });
+
+  it('reports the requirements with no free resource', () => {
+    const ultrasound = { label: 'Ultrasound', resourceIds: ['ultrasound-1'] };
+    expect(allocateResources([{ resourceIds: ['room-1'] }, ultrasound], id => id !== 'ultrasound-1'))
+      .toEqual({ resourceIds: [], unmet: [ultrasound] });
+  });
+
+  it('fails every requirement when they compete for too few resources', () => {
+    const requirements = [{ resourceIds: ['room-1', 'room-2'] }, { resourceIds: ['room-1', 'room-2'] }, { resourceIds: ['room-2'] }];
+    expect(allocateResources(requirements, all)).toEqual({ resourceIds: [], unmet: requirements });
+  });
+});
+
+describe('describeRequirements', () => {
+  it('uses the label, or the resources when there is none', () => {
+    expect(describeRequirements([{ label: 'Exam room', resourceIds: ['room-1'] }, { resourceIds: ['ultrasound-1', 'ultrasound-2'] }]))
+      .toBe('Exam room, resource ultrasound-1 or ultrasound-2');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Smart Health Hub - Resource Allocation
+ *
+ * Decides whether resources (rooms, equipment, additional providers) are free
+ * for a time range given their capacity and existing bookings, and picks a
+ * different free resource for each of an appointment's resource requirements.
+ */
+
+import { type ResourceRequirement } from '../../../shared/scheduling-schema';
+
+// Something holding a resource for a time range: a reservation, or for
+// provider resources one of the provider's own appointments
+export interface ResourceBooking {
+  resourceId: string;
+  slotId?: string | null;
+  startDateTime: Date;
+  endDateTime: Date;
+}
+
+export interface AllocationResult {
+  resourceIds: string[]; // One per requirement, in requirement order; empty if allocation failed
+  unmet: ResourceRequirement[]; // Requirements that could not be met
+}
+
+// Whether a resource is free for a time range; bookings for the given slot
+// are shared by the slot's appointments and don't count against it
+export type ResourceFreeCheck = (resourceId: string, start: Date, end: Date, slotId?: string | null) => boolean;
+
+/**
+ * Build a free check from resources and the bookings that overlap the times
+ * that will be checked. Unknown and inactive resources are never free.
+ */
+export function createFreeCheck(
+  resources: Array<{ id: string; capacity: number; isActive: boolean }>,
+  bookings: ResourceBooking[]
+): ResourceFreeCheck {
+  const byId = new Map(resources.map(resource => [resource.id, resource]));
+  const bookingsByResource = new Map<string, ResourceBooking[]>();
+  for (const booking of bookings) {
+    const list = bookingsByResource.get(booking.resourceId) || [];
+    list.push(booking);
+    bookingsByResource.set(booking.resourceId, list);
+  }
+
+  return (resourceId, start, end, slotId) => {
+    const resource = byId.get(resourceId);
+    if (!resource || !resource.isActive) {
+      return false;
+    }
+
+    const overlapping = (bookingsByResource.get(resourceId) || []).filter(booking =>
+      (!slotId || booking.slotId !== slotId) &&
+      new Date(booking.startDateTime) < end &&
+      new Date(booking.endDateTime) > start
+    );
+
+    return maxConcurrent(overlapping) < resource.capacity;
+  };
+}
+
+/**
+ * Pick a different free resource for every requirement. Preferred resources
+ * (e.g. chosen by the patient) are used for the requirements they belong to.
+ */
+export function allocateResources(
+  requirements: ResourceRequirement[],
+  isFree: (resourceId: string) => boolean,
+  preferred: string[] = []
+): AllocationResult {
+  const candidates = requirements.map(requirement => {
+    const chosen = requirement.resourceIds.filter(id => preferred.includes(id));
+    return (chosen.length > 0 ? chosen : requirement.resourceIds).filter(isFree);
+  });
+
+  const unmet = requirements.filter((_, index) => candidates[index].length === 0);
+  if (unmet.length > 0) {
+    return { resourceIds: [], unmet };
+  }
+
+  // Requirements can share resources, so search for an assignment that uses each resource once
+  const assigned: string[] = [];
+  const assign = (index: number): boolean => {
+    if (index === requirements.length) {
+      return true;
+    }
+    for (const id of candidates[index]) {
+      if (!assigned.includes(id)) {
+        assigned.push(id);
+        if (assign(index + 1)) {
+          return true;
+        }
+        assigned.pop();
+      }
+    }
+    return false;
+  };
+
+  return assign(0)
+    ? { resourceIds: assigned, unmet: [] }
+    : { resourceIds: [], unmet: requirements };
+}
+
+/**
+ * Describe requirements for error messages, e.g. "Exam room, resource ultrasound-1"
+ */
+export function describeRequirements(requirements: ResourceRequirement[]): string {
+  return requirements
+    .map(requirement => requirement.label || `resource ${requirement.resourceIds.join(' or ')}`)
+    .join(', ');
+}
+
+// Most bookings that hold the resource at the same moment
+function maxConcurrent(bookings: ResourceBooking[]): number {
+  const edges = bookings.flatMap(booking => [
+    { at: new Date(booking.startDateTime).getTime(), delta: 1 },
+    { at: new Date(booking.endDateTime).getTime(), delta: -1 }
+  ]);
+  // Ends sort before starts at the same instant, so back-to-back bookings don't overlap
+  edges.sort((a, b) => a.at - b.at || a.delta - b.delta);
+
+  let current = 0;
+  let max = 0;
+  for (const edge of edges) {
+    current += edge.delta;
+    max = Math.max(max, current);
+  }
+  return max;
+}
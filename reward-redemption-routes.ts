@@ -0,0 +1,436 @@
+/**
+ * Reward Redemption API Routes
+ *
+ * Employees browse their employer's reward catalog, redeem wallet points for
+ * rewards and follow their redemptions. Admins manage the catalog and move
+ * redemptions through fulfillment, or refund them.
+ */
+
+import express from 'express';
+import { z } from 'zod';
+import logger from '../../utils/logger';
+import { insertRewardCatalogItemSchema } from '../../../shared/employer-schema';
+import { rewardRedemptionService } from './reward-redemption-service';
+import { WalletError } from './wallet-ledger-service';
+import { employerService } from './employer-service';
+
+// Create a router
+const router = express.Router();
+
+// Middleware to check if the user is authenticated
+const isAuthenticated = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'Not authenticated' });
+  }
+  next();
+};
+
+// Middleware to check if the user has admin permissions
+const isAdmin = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'Not authenticated' });
+  }
+  if (req.user?.role !== 'admin') {
+    return res.status(403).json({ message: 'Forbidden: Admin access required' });
+  }
+  next();
+};
+
+const catalogItemSchema = insertRewardCatalogItemSchema
+  .omit({ id: true, createdAt: true, updatedAt: true })
+  .extend({
+    startDate: z.coerce.date().nullable().optional(),
+    endDate: z.coerce.date().nullable().optional()
+  });
+
+const catalogItemUpdateSchema = catalogItemSchema.omit({ employerId: true }).partial();
+
+const redeemSchema = z.object({
+  catalogItemId: z.string().uuid(),
+  idempotencyKey: z.string().min(1).max(200).optional() // Client key, so a retried request does not redeem twice
+});
+
+const completeFulfillmentSchema = z.object({
+  fulfillmentReference: z.string().min(1),
+  fulfillmentData: z.record(z.string(), z.any()).optional()
+});
+
+const reasonSchema = z.object({
+  reason: z.string().min(1)
+});
+
+const paginationSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+/**
+ * Send an error, using the status of wallet errors
+ */
+function sendError(res: express.Response, error: unknown, action: string, invalidMessage: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: invalidMessage, errors: error.errors });
+  }
+  if (error instanceof WalletError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+
+  logger.error(`Error ${action}`, { error: (error as Error).message });
+  res.status(500).json({ message: `Failed ${action}`, error: (error as Error).message });
+}
+
+/**
+ * Load an employee the current user may act for: their own record, or any for
+ * admins. Sends the error response and returns undefined otherwise.
+ */
+async function getAccessibleEmployee(req: express.Request, res: express.Response, employeeId: string) {
+  const employee = await employerService.getEmployee(employeeId);
+  if (!employee) {
+    res.status(404).json({ message: 'Employee not found' });
+    return undefined;
+  }
+  if (req.user?.role !== 'admin' && employee.userId !== String(req.user!.id)) {
+    res.status(403).json({ message: 'Forbidden: Not your employee record' });
+    return undefined;
+  }
+  return employee;
+}
+
+/**
+ * @swagger
+ * /api/rewards/employees/{employeeId}/catalog:
+ *   get:
+ *     summary: Get the rewards an employee can redeem now
+ *     tags: [Rewards]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The employer's available rewards, cheapest first
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not the user's employee record
+ *       404:
+ *         description: Employee not found
+ */
+router.get('/employees/:employeeId/catalog', isAuthenticated, async (req, res) => {
+  try {
+    const employee = await getAccessibleEmployee(req, res, req.params.employeeId);
+    if (!employee) {
+      return;
+    }
+
+    res.json(await rewardRedemptionService.getCatalog(employee.employerId));
+  } catch (error) {
+    sendError(res, error, 'getting reward catalog', 'Invalid request');
+  }
+});
+
+/**
+ * @swagger
+ * /api/rewards/employees/{employeeId}/redemptions:
+ *   post:
+ *     summary: Redeem points for a reward
+ *     tags: [Rewards]
+ *     security:
+ *       - bearerAuth: []
+ *     description: >
+ *       Holds the reward's points until it is fulfilled. A request repeating
+ *       the idempotencyKey of an earlier redemption returns that redemption.
+ *     responses:
+ *       201:
+ *         description: The redemption
+ *       400:
+ *         description: Invalid redemption
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not the user's employee record
+ *       404:
+ *         description: Employee or reward not found
+ *       409:
+ *         description: Reward unavailable, out of stock or over its limit, or not enough points
+ */
+router.post('/employees/:employeeId/redemptions', isAuthenticated, async (req, res) => {
+  try {
+    const { catalogItemId, idempotencyKey } = redeemSchema.parse(req.body);
+    const employee = await getAccessibleEmployee(req, res, req.params.employeeId);
+    if (!employee) {
+      return;
+    }
+
+    const redemption = await rewardRedemptionService.redeem(employee.id, catalogItemId, idempotencyKey);
+    res.status(201).json(redemption);
+  } catch (error) {
+    sendError(res, error, 'redeeming reward', 'Invalid redemption');
+  }
+});
+
+/**
+ * @swagger
+ * /api/rewards/employees/{employeeId}/redemptions:
+ *   get:
+ *     summary: Get an employee's redemptions
+ *     tags: [Rewards]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The employee's redemptions, most recent first
+ *       400:
+ *         description: Invalid pagination
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not the user's employee record
+ *       404:
+ *         description: Employee not found
+ */
+router.get('/employees/:employeeId/redemptions', isAuthenticated, async (req, res) => {
+  try {
+    const { limit, offset } = paginationSchema.parse(req.query);
+    const employee = await getAccessibleEmployee(req, res, req.params.employeeId);
+    if (!employee) {
+      return;
+    }
+
+    res.json(await rewardRedemptionService.getEmployeeRedemptions(employee.id, limit, offset));
+  } catch (error) {
+    sendError(res, error, 'getting redemptions', 'Invalid pagination');
+  }
+});
+
+/**
+ * @swagger
+ * /api/rewards/employers/{employerId}/catalog:
+ *   get:
+ *     summary: Get an employer's whole reward catalog
+ *     tags: [Rewards]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Includes inactive, scheduled and out of stock rewards.
+ *     responses:
+ *       200:
+ *         description: The employer's rewards, cheapest first
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - admin access required
+ */
+router.get('/employers/:employerId/catalog', isAdmin, async (req, res) => {
+  try {
+    res.json(await rewardRedemptionService.getCatalog(req.params.employerId, false));
+  } catch (error) {
+    sendError(res, error, 'getting reward catalog', 'Invalid request');
+  }
+});
+
+/**
+ * @swagger
+ * /api/rewards/catalog:
+ *   post:
+ *     summary: Add a reward to an employer's catalog
+ *     tags: [Rewards]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: The catalog item
+ *       400:
+ *         description: Invalid catalog item
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - admin access required
+ */
+router.post('/catalog', isAdmin, async (req, res) => {
+  try {
+    const data = catalogItemSchema.parse(req.body);
+    res.status(201).json(await rewardRedemptionService.createCatalogItem(data));
+  } catch (error) {
+    sendError(res, error, 'creating catalog item', 'Invalid catalog item');
+  }
+});
+
+/**
+ * @swagger
+ * /api/rewards/catalog/{id}:
+ *   patch:
+ *     summary: Update a catalog item
+ *     tags: [Rewards]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Redemptions already made keep the cost they were made at.
+ *     responses:
+ *       200:
+ *         description: The updated catalog item
+ *       400:
+ *         description: Invalid catalog item
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - admin access required
+ *       404:
+ *         description: Catalog item not found
+ */
+router.patch('/catalog/:id', isAdmin, async (req, res) => {
+  try {
+    const data = catalogItemUpdateSchema.parse(req.body);
+    const item = await rewardRedemptionService.updateCatalogItem(req.params.id, data);
+    if (!item) {
+      return res.status(404).json({ message: 'Catalog item not found' });
+    }
+
+    res.json(item);
+  } catch (error) {
+    sendError(res, error, 'updating catalog item', 'Invalid catalog item');
+  }
+});
+
+/**
+ * @swagger
+ * /api/rewards/redemptions/{id}/start:
+ *   post:
+ *     summary: Send a held redemption for fulfillment
+ *     tags: [Rewards]
+ *     security:
+ *       - bearerAuth: []
+ *     description: The redemption's hold no longer expires.
+ *     responses:
+ *       200:
+ *         description: The redemption
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - admin access required
+ *       404:
+ *         description: Redemption not found
+ *       409:
+ *         description: Redemption not held
+ */
+router.post('/redemptions/:id/start', isAdmin, async (req, res) => {
+  try {
+    const redemption = await rewardRedemptionService.startFulfillment(req.params.id);
+    if (!redemption) {
+      return res.status(404).json({ message: 'Redemption not found' });
+    }
+
+    res.json(redemption);
+  } catch (error) {
+    sendError(res, error, 'starting fulfillment', 'Invalid request');
+  }
+});
+
+/**
+ * @swagger
+ * /api/rewards/redemptions/{id}/complete:
+ *   post:
+ *     summary: Record a redemption as fulfilled
+ *     tags: [Rewards]
+ *     security:
+ *       - bearerAuth: []
+ *     description: The held points are spent.
+ *     responses:
+ *       200:
+ *         description: The redemption
+ *       400:
+ *         description: Invalid fulfillment
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - admin access required
+ *       404:
+ *         description: Redemption not found
+ *       409:
+ *         description: Redemption not held or being fulfilled
+ */
+router.post('/redemptions/:id/complete', isAdmin, async (req, res) => {
+  try {
+    const { fulfillmentReference, fulfillmentData } = completeFulfillmentSchema.parse(req.body);
+    const redemption = await rewardRedemptionService.completeFulfillment(req.params.id, fulfillmentReference, fulfillmentData);
+    if (!redemption) {
+      return res.status(404).json({ message: 'Redemption not found' });
+    }
+
+    res.json(redemption);
+  } catch (error) {
+    sendError(res, error, 'completing fulfillment', 'Invalid fulfillment');
+  }
+});
+
+/**
+ * @swagger
+ * /api/rewards/redemptions/{id}/fail:
+ *   post:
+ *     summary: Record that a redemption could not be fulfilled
+ *     tags: [Rewards]
+ *     security:
+ *       - bearerAuth: []
+ *     description: The held points are released back to the employee.
+ *     responses:
+ *       200:
+ *         description: The redemption
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - admin access required
+ *       404:
+ *         description: Redemption not found
+ *       409:
+ *         description: Redemption not held or being fulfilled
+ */
+router.post('/redemptions/:id/fail', isAdmin, async (req, res) => {
+  try {
+    const { reason } = reasonSchema.parse(req.body);
+    const redemption = await rewardRedemptionService.failFulfillment(req.params.id, reason);
+    if (!redemption) {
+      return res.status(404).json({ message: 'Redemption not found' });
+    }
+
+    res.json(redemption);
+  } catch (error) {
+    sendError(res, error, 'failing fulfillment', 'Invalid request');
+  }
+});
+
+/**
+ * @swagger
+ * /api/rewards/redemptions/{id}/refund:
+ *   post:
+ *     summary: Refund a fulfilled redemption
+ *     tags: [Rewards]
+ *     security:
+ *       - bearerAuth: []
+ *     description: The points are returned to the employee's available balance.
+ *     responses:
+ *       200:
+ *         description: The redemption
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - admin access required
+ *       404:
+ *         description: Redemption not found
+ *       409:
+ *         description: Redemption not fulfilled
+ */
+router.post('/redemptions/:id/refund', isAdmin, async (req, res) => {
+  try {
+    const { reason } = reasonSchema.parse(req.body);
+    const redemption = await rewardRedemptionService.refundRedemption(req.params.id, reason);
+    if (!redemption) {
+      return res.status(404).json({ message: 'Redemption not found' });
+    }
+
+    res.json(redemption);
+  } catch (error) {
+    sendError(res, error, 'refunding redemption', 'Invalid request');
+  }
+});
+
+export default router;
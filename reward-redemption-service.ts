@@ -0,0 +1,437 @@
+/**
+ * Smart Health Hub - Reward Redemption Service
+ *
+ * Per-employer rewards catalogs and the redemption of points against them.
+ * Redeeming holds the points (and a unit of inventory); the reward is then
+ * fulfilled by the employer's gift card vendor, HSA custodian or payroll
+ * (premium discounts). Fulfillment spends the held points, while a failed,
+ * canceled or expired redemption releases them. Fulfilled redemptions can be
+ * refunded.
+ */
+
+import { eq, and, or, inArray, isNull, lte, gte, asc, desc, sql } from 'drizzle-orm';
+import { db } from '../../db';
+import logger from '../../utils/logger';
+import {
+  employees,
+  rewardCatalogItems,
+  rewardRedemptions,
+  walletPolicies,
+  type InsertRewardCatalogItem,
+  type RewardCatalogItem,
+  type RewardRedemption
+} from '../../../shared/employer-schema';
+import { walletLedgerService, WalletError } from './wallet-ledger-service';
+import { PG_UNIQUE_VIOLATION } from '../../../microservices/common/error/error-utils';
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Redemptions that count against an item's per-employee limit
+const STANDING_REDEMPTION_STATUSES = ['held', 'fulfilling', 'fulfilled'];
+
+const DEFAULT_HOLD_MINUTES = 24 * 60;
+
+/**
+ * Reward Redemption Service
+ */
+export class RewardRedemptionService {
+
+  // ============================================================================
+  // Catalog
+  // ============================================================================
+
+  /**
+   * Add a reward to an employer's catalog
+   */
+  async createCatalogItem(data: InsertRewardCatalogItem): Promise<RewardCatalogItem> {
+    try {
+      const [item] = await db
+        .insert(rewardCatalogItems)
+        .values({ ...data, createdAt: new Date() })
+        .returning();
+
+      logger.info(`Created reward catalog item: ${item.id} (${item.name}) for employer ${item.employerId}`);
+      return item;
+    } catch (error) {
+      logger.error('Error creating reward catalog item:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a catalog item. Redemptions already made keep the cost they were made at.
+   */
+  async updateCatalogItem(id: string, data: Partial<InsertRewardCatalogItem>): Promise<RewardCatalogItem | undefined> {
+    try {
+      delete data.id;
+      delete data.employerId;
+
+      const [item] = await db
+        .update(rewardCatalogItems)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(rewardCatalogItems.id, id))
+        .returning();
+
+      if (item) {
+        logger.info(`Updated reward catalog item: ${id}`);
+      }
+      return item;
+    } catch (error) {
+      logger.error(`Error updating reward catalog item ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get an employer's catalog, by default only the rewards available now
+   */
+  async getCatalog(employerId: string, availableOnly: boolean = true): Promise<RewardCatalogItem[]> {
+    try {
+      const now = new Date();
+      return await db
+        .select()
+        .from(rewardCatalogItems)
+        .where(
+          and(
+            eq(rewardCatalogItems.employerId, employerId),
+            availableOnly ? eq(rewardCatalogItems.active, true) : undefined,
+            availableOnly ? or(isNull(rewardCatalogItems.startDate), lte(rewardCatalogItems.startDate, now)) : undefined,
+            availableOnly ? or(isNull(rewardCatalogItems.endDate), gte(rewardCatalogItems.endDate, now)) : undefined,
+            availableOnly ? or(isNull(rewardCatalogItems.inventory), sql`${rewardCatalogItems.inventory} > 0`) : undefined
+          )
+        )
+        .orderBy(asc(rewardCatalogItems.pointsCost));
+    } catch (error) {
+      logger.error(`Error getting reward catalog for employer ${employerId}:`, error);
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // Redemptions
+  // ============================================================================
+
+  /**
+   * Redeem points for a catalog reward, holding the points until it is
+   * fulfilled. Retrying with the same idempotency key returns the original
+   * redemption.
+   */
+  async redeem(employeeId: string, catalogItemId: string, idempotencyKey?: string): Promise<RewardRedemption> {
+    try {
+      if (idempotencyKey) {
+        const existing = await this.findByIdempotencyKey(employeeId, idempotencyKey);
+        if (existing) {
+          return existing;
+        }
+      }
+
+      const redemption = await db.transaction(async (tx) => {
+        const [employee] = await tx.select().from(employees).where(eq(employees.id, employeeId));
+        if (!employee) {
+          throw new WalletError(`Employee ${employeeId} not found`, 404);
+        }
+
+        const [item] = await tx
+          .select()
+          .from(rewardCatalogItems)
+          .where(eq(rewardCatalogItems.id, catalogItemId))
+          .for('update'); // Lock the row
+        if (!item || item.employerId !== employee.employerId) {
+          throw new WalletError(`Reward ${catalogItemId} not found`, 404);
+        }
+
+        const now = new Date();
+        if (!item.active || (item.startDate && item.startDate > now) || (item.endDate && item.endDate < now)) {
+          throw new WalletError(`Reward ${item.name} is not available`);
+        }
+        if (item.inventory !== null && item.inventory <= 0) {
+          throw new WalletError(`Reward ${item.name} is out of stock`);
+        }
+        if (item.maxPerEmployee !== null) {
+          const [standing] = await tx
+            .select({ count: sql<number>`count(*)::int` })
+            .from(rewardRedemptions)
+            .where(
+              and(
+                eq(rewardRedemptions.employeeId, employeeId),
+                eq(rewardRedemptions.catalogItemId, item.id),
+                inArray(rewardRedemptions.status, STANDING_REDEMPTION_STATUSES)
+              )
+            );
+          if (standing.count >= item.maxPerEmployee) {
+            throw new WalletError(`Reward ${item.name} can be redeemed at most ${item.maxPerEmployee} times`);
+          }
+        }
+
+        const [policy] = await tx.select().from(walletPolicies).where(eq(walletPolicies.employerId, employee.employerId));
+        const holdMinutes = policy?.redemptionHoldMinutes ?? DEFAULT_HOLD_MINUTES;
+
+        const [created] = await tx
+          .insert(rewardRedemptions)
+          .values({
+            employeeId,
+            employerId: employee.employerId,
+            catalogItemId: item.id,
+            idempotencyKey,
+            pointsCost: item.pointsCost,
+            cashValue: item.cashValue,
+            status: 'held',
+            holdExpiresAt: new Date(now.getTime() + holdMinutes * 60 * 1000),
+            requestedAt: now,
+            createdAt: now
+          })
+          .returning();
+
+        // Fails if the employee does not have the points
+        await walletLedgerService.post(tx, {
+          employeeId,
+          transactionType: 'hold',
+          description: `Points held for ${item.name}`,
+          redemptionId: created.id,
+          rewardItemId: item.id,
+          entries: [
+            { account: 'available', amount: -item.pointsCost },
+            { account: 'held', amount: item.pointsCost }
+          ]
+        });
+
+        if (item.inventory !== null) {
+          await tx
+            .update(rewardCatalogItems)
+            .set({ inventory: item.inventory - 1, updatedAt: now })
+            .where(eq(rewardCatalogItems.id, item.id));
+        }
+
+        return created;
+      });
+
+      logger.info(`Employee ${employeeId} redeemed ${redemption.pointsCost} points for reward ${catalogItemId}: ${redemption.id}`);
+      return redemption;
+    } catch (error) {
+      // A concurrent retry with the same key got there first
+      if (idempotencyKey && (error as { code?: string }).code === PG_UNIQUE_VIOLATION) {
+        const existing = await this.findByIdempotencyKey(employeeId, idempotencyKey);
+        if (existing) {
+          return existing;
+        }
+      }
+
+      logger.error(`Error redeeming reward ${catalogItemId} for employee ${employeeId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a held redemption as sent for fulfillment, so its hold no longer expires
+   */
+  async startFulfillment(id: string): Promise<RewardRedemption | undefined> {
+    return await this.transition(id, ['held'], 'start fulfillment', async (tx, redemption, now) => {
+      return { status: 'fulfilling', fulfillmentStartedAt: now };
+    });
+  }
+
+  /**
+   * Record a fulfilled redemption, spending the held points
+   */
+  async completeFulfillment(id: string, fulfillmentReference: string, fulfillmentData?: Record<string, any>): Promise<RewardRedemption | undefined> {
+    return await this.transition(id, ['held', 'fulfilling'], 'complete fulfillment', async (tx, redemption, now) => {
+      await walletLedgerService.post(tx, {
+        employeeId: redemption.employeeId,
+        transactionType: 'redemption',
+        description: `Points redeemed (${fulfillmentReference})`,
+        redemptionId: redemption.id,
+        rewardItemId: redemption.catalogItemId,
+        entries: [
+          { account: 'held', amount: -redemption.pointsCost },
+          { account: 'redeemed', amount: redemption.pointsCost }
+        ]
+      });
+      return { status: 'fulfilled', fulfillmentReference, fulfillmentData, fulfilledAt: now };
+    });
+  }
+
+  /**
+   * Record a failed fulfillment, releasing the held points
+   */
+  async failFulfillment(id: string, reason: string): Promise<RewardRedemption | undefined> {
+    return await this.transition(id, ['held', 'fulfilling'], 'fail fulfillment', async (tx, redemption, now) => {
+      await this.release(tx, redemption, `Points released: fulfillment failed (${reason})`);
+      return { status: 'failed', failureReason: reason, closedAt: now };
+    });
+  }
+
+  /**
+   * Cancel a redemption that has not been sent for fulfillment, releasing the held points
+   */
+  async cancelRedemption(id: string): Promise<RewardRedemption | undefined> {
+    return await this.transition(id, ['held'], 'cancel it', async (tx, redemption, now) => {
+      await this.release(tx, redemption, 'Points released: redemption canceled');
+      return { status: 'canceled', closedAt: now };
+    });
+  }
+
+  /**
+   * Refund a fulfilled redemption, returning the points to the employee
+   */
+  async refundRedemption(id: string, reason: string): Promise<RewardRedemption | undefined> {
+    return await this.transition(id, ['fulfilled'], 'refund it', async (tx, redemption, now) => {
+      await walletLedgerService.post(tx, {
+        employeeId: redemption.employeeId,
+        transactionType: 'refund',
+        description: `Points refunded: ${reason}`,
+        redemptionId: redemption.id,
+        rewardItemId: redemption.catalogItemId,
+        entries: [
+          { account: 'redeemed', amount: -redemption.pointsCost },
+          { account: 'available', amount: redemption.pointsCost }
+        ]
+      });
+      return { status: 'refunded', refundReason: reason, closedAt: now };
+    });
+  }
+
+  /**
+   * Release the points of held redemptions that were not sent for fulfillment in time
+   */
+  async releaseExpiredHolds(now: Date = new Date()): Promise<number> {
+    const expired = await db
+      .select({ id: rewardRedemptions.id })
+      .from(rewardRedemptions)
+      .where(and(eq(rewardRedemptions.status, 'held'), lte(rewardRedemptions.holdExpiresAt, now)));
+
+    let released = 0;
+    for (const { id } of expired) {
+      try {
+        await this.transition(id, ['held'], 'expire its hold', async (tx, redemption, at) => {
+          await this.release(tx, redemption, 'Points released: redemption hold expired');
+          return { status: 'expired', closedAt: at };
+        });
+        released++;
+      } catch (error) {
+        logger.error(`Error releasing expired redemption hold ${id}:`, error);
+      }
+    }
+
+    if (released > 0) {
+      logger.info(`Released ${released} expired redemption holds`);
+    }
+    return released;
+  }
+
+  /**
+   * Start releasing expired holds on a timer
+   */
+  startPeriodicHoldRelease(intervalMs: number = 5 * 60 * 1000): void {
+    setInterval(() => {
+      this.releaseExpiredHolds().catch(error => {
+        logger.error('Error in periodic redemption hold release:', error);
+      });
+    }, intervalMs).unref();
+  }
+
+  /**
+   * Get a redemption by ID
+   */
+  async getRedemption(id: string): Promise<RewardRedemption | undefined> {
+    try {
+      const [redemption] = await db.select().from(rewardRedemptions).where(eq(rewardRedemptions.id, id));
+      return redemption;
+    } catch (error) {
+      logger.error(`Error getting redemption ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get an employee's redemptions, newest first
+   */
+  async getEmployeeRedemptions(employeeId: string, limit: number = 100, offset: number = 0): Promise<RewardRedemption[]> {
+    try {
+      return await db
+        .select()
+        .from(rewardRedemptions)
+        .where(eq(rewardRedemptions.employeeId, employeeId))
+        .orderBy(desc(rewardRedemptions.requestedAt))
+        .limit(limit)
+        .offset(offset);
+    } catch (error) {
+      logger.error(`Error getting redemptions for employee ${employeeId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move a redemption between statuses with it locked, applying any ledger
+   * postings in the same transaction
+   */
+  private async transition(
+    id: string,
+    from: string[],
+    action: string,
+    apply: (tx: DbTransaction, redemption: RewardRedemption, now: Date) => Promise<Partial<RewardRedemption>>
+  ): Promise<RewardRedemption | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [redemption] = await tx
+          .select()
+          .from(rewardRedemptions)
+          .where(eq(rewardRedemptions.id, id))
+          .for('update'); // Lock the row
+
+        if (!redemption) {
+          return undefined;
+        }
+        if (!from.includes(redemption.status)) {
+          throw new WalletError(`Redemption ${id} is ${redemption.status}; it must be ${from.join(' or ')} to ${action}`);
+        }
+
+        const now = new Date();
+        const changes = await apply(tx, redemption, now);
+        const [updated] = await tx
+          .update(rewardRedemptions)
+          .set({ ...changes, updatedAt: now })
+          .where(eq(rewardRedemptions.id, id))
+          .returning();
+
+        logger.info(`Redemption ${id}: ${redemption.status} -> ${updated.status}`);
+        return updated;
+      });
+    } catch (error) {
+      logger.error(`Error updating redemption ${id} to ${action}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Release held points back to the employee and return the unit of inventory
+   */
+  private async release(tx: DbTransaction, redemption: RewardRedemption, description: string): Promise<void> {
+    await walletLedgerService.post(tx, {
+      employeeId: redemption.employeeId,
+      transactionType: 'release',
+      description,
+      redemptionId: redemption.id,
+      rewardItemId: redemption.catalogItemId,
+      entries: [
+        { account: 'held', amount: -redemption.pointsCost },
+        { account: 'available', amount: redemption.pointsCost }
+      ]
+    });
+
+    await tx
+      .update(rewardCatalogItems)
+      .set({ inventory: sql`${rewardCatalogItems.inventory} + 1`, updatedAt: new Date() })
+      .where(and(eq(rewardCatalogItems.id, redemption.catalogItemId), sql`${rewardCatalogItems.inventory} is not null`));
+  }
+
+  private async findByIdempotencyKey(employeeId: string, idempotencyKey: string): Promise<RewardRedemption | undefined> {
+    const [redemption] = await db
+      .select()
+      .from(rewardRedemptions)
+      .where(and(eq(rewardRedemptions.employeeId, employeeId), eq(rewardRedemptions.idempotencyKey, idempotencyKey)));
+    return redemption;
+  }
+}
+
+// Create and export the service instance
+export const rewardRedemptionService = new RewardRedemptionService();
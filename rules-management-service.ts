@@ -2,6 +2,13 @@ import { logger } from "../../utils/logger";
 import { payerConfigService } from "./services/payer-config-service";
 import { canonicalRuleService } from "./services/canonical-rule-service";
 import { providerOrganizationConfigService } from "./services/provider-organization-config-service";
+import { goldcardingService } from "../../services/goldcarding/goldcarding-service";
+
+export interface PreAuthRequirement {
+  required: boolean;
+  source: "payer" | "organization" | "canonical" | "combined" | "goldcard";
+  details?: any;
+}
 
 /**
  * Rules Management Service
@@ -70,18 +77,109 @@ class RulesManagementService {
 
   /**
    * Check if pre-authorization is required for a procedure
-   * This is a convenience method that checks across payer, provider, and canonical rules
+   * This is a convenience method that checks across payer, provider, and canonical rules.
+   * Given the ordering provider it is the full decision of determinePreAuthRequirement,
+   * goldcard bypass included.
    */
   async isPreAuthRequired(
+    payerId: string,
+    procedureCode: string,
+    organizationId?: string,
+    patientData?: any,
+    providerId?: string
+  ): Promise<PreAuthRequirement> {
+    if (providerId) {
+      return this.determinePreAuthRequirement({ payerId, procedureCode, providerId, organizationId, patientData });
+    }
+
+    return this.getRuleRequirement(payerId, procedureCode, organizationId, patientData);
+  }
+
+  /**
+   * Decide whether an order needs prior authorization, taking goldcarding into account.
+   *
+   * Payer overrides, organization exceptions and canonical rules are resolved
+   * by getRuleRequirement. When PA would be required by the payer or a canonical
+   * rule and the ordering provider holds an active goldcard for the procedure,
+   * PA can be bypassed. A requirement set by the provider organization itself
+   * is never bypassed. This is only the decision: the caller that actually
+   * bypasses a request records the PA_EXEMPTION goldcard event.
+   */
+  async determinePreAuthRequirement(order: {
+    payerId: string;
+    procedureCode: string;
+    providerId: string;
+    organizationId?: string;
+    patientId?: string;
+    patientData?: any;
+  }): Promise<PreAuthRequirement> {
+    try {
+      const requirement = await this.getRuleRequirement(
+        order.payerId,
+        order.procedureCode,
+        order.organizationId,
+        order.patientData
+      );
+
+      if (!requirement.required || requirement.source === "organization") {
+        return requirement;
+      }
+
+      // The payer requirement wins in getRuleRequirement, so check whether the
+      // organization requires PA as well before considering a bypass
+      if (order.organizationId) {
+        const orgHandling = await providerOrganizationConfigService.getProcedureHandling(
+          order.organizationId,
+          order.procedureCode
+        );
+        if (orgHandling.requiresPreAuth) {
+          return {
+            required: true,
+            source: "organization",
+            details: orgHandling,
+          };
+        }
+      }
+
+      const goldcard = await goldcardingService.checkEligibility({
+        providerId: order.providerId,
+        serviceCode: order.procedureCode,
+        patientId: order.patientId,
+        payerId: order.payerId,
+      });
+
+      if (!goldcard.isEligible) {
+        return requirement;
+      }
+
+      return {
+        required: false,
+        source: "goldcard",
+        details: {
+          goldcard,
+          bypassedSource: requirement.source,
+          bypassedDetails: requirement.details,
+        },
+      };
+    } catch (error) {
+      logger.error(
+        `Error determining pre-auth requirement for ${order.procedureCode} ordered by provider ${order.providerId}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Whether payer, organization or canonical rules require pre-authorization,
+   * before any goldcard bypass
+   */
+  private async getRuleRequirement(
     payerId: string,
     procedureCode: string,
     organizationId?: string,
     patientData?: any
-  ): Promise<{
-    required: boolean;
-    source: "payer" | "organization" | "canonical" | "combined";
-    details?: any;
-  }> {
+  ): Promise<PreAuthRequirement> {
     try {
       const handling = await this.getProcedureHandling(
         payerId,
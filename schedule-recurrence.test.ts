@@ -0,0 +1,88 @@
+import {
+  expandRecurrence,
+  localTimeToUtc,
+  parseRRule,
+  toLocalDate,
+  RecurrenceRuleError
+} from './schedule-recurrence';
+
+const NEW_YORK = 'America/New_York';
+
+const expand = (rrule: string, dtstart: string, rangeStart: string, rangeEnd: string, extra: { exdates?: string[]; rdates?: string[] } = {}) =>
+  expandRecurrence({ rrule, ...extra }, dtstart, rangeStart, rangeEnd, NEW_YORK);
+
+describe('expandRecurrence', () => {
+  it('expands the second Tuesday of each month', () => {
+    expect(expand('FREQ=MONTHLY;BYDAY=2TU', '2024-01-01', '2024-01-01', '2024-04-30'))
+      .toEqual(['2024-01-09', '2024-02-13', '2024-03-12', '2024-04-09']);
+  });
+
+  it('skips weeks by INTERVAL, counting from DTSTART', () => {
+    expect(expand('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO', '2024-01-01', '2024-01-01', '2024-02-29'))
+      .toEqual(['2024-01-01', '2024-01-15', '2024-01-29', '2024-02-12', '2024-02-26']);
+    // A range starting mid-recurrence keeps the same phase
+    expect(expand('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO', '2024-01-01', '2024-01-20', '2024-02-10'))
+      .toEqual(['2024-01-29']);
+  });
+
+  it('takes the last weekday of each month with BYSETPOS=-1', () => {
+    expect(expand('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1', '2024-01-01', '2024-01-01', '2024-06-30'))
+      .toEqual(['2024-01-31', '2024-02-29', '2024-03-29', '2024-04-30', '2024-05-31', '2024-06-28']);
+  });
+
+  it('removes EXDATEs and adds RDATEs, resolving date-times in the time zone', () => {
+    const dates = expand('FREQ=WEEKLY;BYDAY=MO', '2024-01-01', '2024-01-01', '2024-01-31', {
+      // 03:00 UTC on the 16th is still the 15th in New York
+      exdates: ['20240108', '20240116T030000Z'],
+      rdates: ['2024-01-17']
+    });
+    expect(dates).toEqual(['2024-01-01', '2024-01-17', '2024-01-22', '2024-01-29']);
+  });
+
+  it('stops after COUNT occurrences, including those before the range', () => {
+    expect(expand('FREQ=DAILY;COUNT=5', '2024-01-01', '2024-01-04', '2024-01-31'))
+      .toEqual(['2024-01-04', '2024-01-05']);
+  });
+
+  it('keeps the same local dates across a DST change', () => {
+    expect(expand('FREQ=DAILY', '2024-03-09', '2024-03-09', '2024-03-11'))
+      .toEqual(['2024-03-09', '2024-03-10', '2024-03-11']);
+    expect(expand('FREQ=DAILY', '2024-11-02', '2024-11-02', '2024-11-04'))
+      .toEqual(['2024-11-02', '2024-11-03', '2024-11-04']);
+  });
+});
+
+describe('parseRRule', () => {
+  it('rejects frequencies finer than a day', () => {
+    expect(() => parseRRule('FREQ=HOURLY')).toThrow(RecurrenceRuleError);
+  });
+
+  it('rejects BYDAY ordinals outside monthly and yearly rules', () => {
+    expect(() => parseRRule('FREQ=WEEKLY;BYDAY=2TU')).toThrow('BYDAY ordinals');
+  });
+});
+
+describe('localTimeToUtc', () => {
+  it('keeps the wall-clock time on either side of a DST change', () => {
+    expect(localTimeToUtc('2024-03-09', '09:00', NEW_YORK).toISOString()).toBe('2024-03-09T14:00:00.000Z');
+    expect(localTimeToUtc('2024-03-11', '09:00', NEW_YORK).toISOString()).toBe('2024-03-11T13:00:00.000Z');
+  });
+
+  it('moves a time in the spring-forward gap to the other side of it', () => {
+    // 02:30 does not exist on 2024-03-10; it becomes 03:30 EDT
+    expect(localTimeToUtc('2024-03-10', '02:30', NEW_YORK).toISOString()).toBe('2024-03-10T07:30:00.000Z');
+  });
+
+  it('resolves a time repeated by the fall-back overlap to its first occurrence', () => {
+    // 01:30 happens twice on 2024-11-03; the first is 01:30 EDT
+    expect(localTimeToUtc('2024-11-03', '01:30', NEW_YORK).toISOString()).toBe('2024-11-03T05:30:00.000Z');
+    expect(localTimeToUtc('2024-11-03', '02:30', NEW_YORK).toISOString()).toBe('2024-11-03T07:30:00.000Z');
+  });
+});
+
+describe('toLocalDate', () => {
+  it('gives the date in the time zone, not in UTC', () => {
+    expect(toLocalDate(new Date('2024-03-10T04:30:00Z'), NEW_YORK)).toBe('2024-03-09');
+    expect(toLocalDate(new Date('2024-03-10T05:30:00Z'), NEW_YORK)).toBe('2024-03-10');
+  });
+});
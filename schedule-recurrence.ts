@@ -0,0 +1,587 @@
+/**
+ * Smart Health Hub - Schedule Recurrence
+ *
+ * RFC 5545 recurrence expansion (RRULE, EXRULE, RDATE, EXDATE) and IANA time
+ * zone conversion for slot generation. Recurrence is evaluated on local
+ * calendar dates in the schedule's time zone; times of day are converted to
+ * UTC afterwards, so slots keep their wall-clock times across DST changes.
+ *
+ * Schedule rules describe which days a provider works, so frequencies finer
+ * than DAILY and the BYHOUR/BYMINUTE/BYSECOND/BYWEEKNO/BYYEARDAY parts are
+ * rejected.
+ */
+
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceRuleError';
+  }
+}
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface ParsedRRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: string; // Raw UNTIL value, resolved against the schedule's time zone
+  byDay: { weekday: Weekday; ordinal?: number }[];
+  byMonthDay: number[];
+  byMonth: number[];
+  bySetPos: number[];
+  wkst: Weekday;
+}
+
+// A rule's recurrence set, as stored on schedule_recurrence_rules
+export interface RecurrenceSet {
+  rrule: string;
+  exrule?: string | null;
+  rdates?: string[] | null;
+  exdates?: string[] | null;
+}
+
+// Index matches Date.getUTCDay()
+const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bound on recurrence periods walked, so a rule that never matches cannot loop forever
+const MAX_PERIODS = 100000;
+
+const UNSUPPORTED_PARTS = ['BYSECOND', 'BYMINUTE', 'BYHOUR', 'BYWEEKNO', 'BYYEARDAY'];
+
+/**
+ * Parse an RRULE or EXRULE value (with or without the "RRULE:" prefix)
+ */
+export function parseRRule(text: string): ParsedRRule {
+  const value = text.trim().replace(/^(RRULE|EXRULE):/i, '');
+  if (!value) {
+    throw new RecurrenceRuleError('Recurrence rule is empty');
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of value.split(';')) {
+    const [name, partValue] = part.split('=');
+    if (!name || partValue === undefined) {
+      throw new RecurrenceRuleError(`Malformed recurrence rule part "${part}"`);
+    }
+    parts.set(name.trim().toUpperCase(), partValue.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ');
+  if (!freq) {
+    throw new RecurrenceRuleError('Recurrence rule has no FREQ');
+  }
+  if (['SECONDLY', 'MINUTELY', 'HOURLY'].includes(freq)) {
+    throw new RecurrenceRuleError(`FREQ=${freq} is not supported for schedule rules; use startTime/endTime for times of day`);
+  }
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) {
+    throw new RecurrenceRuleError(`Unknown FREQ "${freq}"`);
+  }
+
+  const rule: ParsedRRule = {
+    freq: freq as ParsedRRule['freq'],
+    interval: 1,
+    byDay: [],
+    byMonthDay: [],
+    byMonth: [],
+    bySetPos: [],
+    wkst: 'MO'
+  };
+
+  for (const [name, partValue] of parts) {
+    switch (name) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = parseInteger(name, partValue, 1, 1000);
+        break;
+      case 'COUNT':
+        rule.count = parseInteger(name, partValue, 1, 100000);
+        break;
+      case 'UNTIL':
+        parseDateValue(partValue, 'UTC'); // Validate the format
+        rule.until = partValue;
+        break;
+      case 'BYDAY':
+        rule.byDay = partValue.split(',').map(day => {
+          const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(day);
+          if (!match) {
+            throw new RecurrenceRuleError(`Invalid BYDAY value "${day}"`);
+          }
+          const ordinal = match[1] ? parseInt(match[1], 10) : undefined;
+          if (ordinal !== undefined && (ordinal === 0 || Math.abs(ordinal) > 53)) {
+            throw new RecurrenceRuleError(`Invalid BYDAY ordinal in "${day}"`);
+          }
+          return { weekday: match[2] as Weekday, ordinal };
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntegerList(name, partValue, 1, 31);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = partValue.split(',').map(month => parseInteger(name, month, 1, 12));
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseIntegerList(name, partValue, 1, 366);
+        break;
+      case 'WKST':
+        if (!WEEKDAYS.includes(partValue as Weekday)) {
+          throw new RecurrenceRuleError(`Invalid WKST "${partValue}"`);
+        }
+        rule.wkst = partValue as Weekday;
+        break;
+      default:
+        if (UNSUPPORTED_PARTS.includes(name)) {
+          throw new RecurrenceRuleError(`${name} is not supported for schedule rules`);
+        }
+        throw new RecurrenceRuleError(`Unknown recurrence rule part "${name}"`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new RecurrenceRuleError('COUNT and UNTIL cannot both be set');
+  }
+  if ((rule.freq === 'DAILY' || rule.freq === 'WEEKLY') && rule.byDay.some(day => day.ordinal !== undefined)) {
+    throw new RecurrenceRuleError(`BYDAY ordinals are only allowed with FREQ=MONTHLY or FREQ=YEARLY`);
+  }
+  if (rule.freq === 'WEEKLY' && rule.byMonthDay.length > 0) {
+    throw new RecurrenceRuleError('BYMONTHDAY is not allowed with FREQ=WEEKLY');
+  }
+  if (rule.bySetPos.length > 0 && rule.byDay.length + rule.byMonthDay.length + rule.byMonth.length === 0) {
+    throw new RecurrenceRuleError('BYSETPOS requires another BYxxx rule part');
+  }
+
+  return rule;
+}
+
+/**
+ * Validate a rule's recurrence set
+ * @throws RecurrenceRuleError describing the first problem found
+ */
+export function validateRecurrenceSet(set: RecurrenceSet): void {
+  parseRRule(set.rrule);
+  if (set.exrule) {
+    parseRRule(set.exrule);
+  }
+  for (const value of [...(set.rdates ?? []), ...(set.exdates ?? [])]) {
+    parseDateValue(value, 'UTC');
+  }
+}
+
+/**
+ * Build the weekly RRULE equivalent of the legacy daysOfWeek column
+ * @param daysOfWeek Comma-separated list of days (1-7, Monday is 1)
+ */
+export function daysOfWeekToRRule(daysOfWeek: string): string {
+  const days = daysOfWeek.split(',').map(day => {
+    const index = parseInt(day.trim(), 10);
+    if (isNaN(index) || index < 1 || index > 7) {
+      throw new RecurrenceRuleError(`Invalid day of week "${day}"`);
+    }
+    return WEEKDAYS[index % 7];
+  });
+
+  return `FREQ=WEEKLY;BYDAY=${days.join(',')}`;
+}
+
+/**
+ * Expand a recurrence set into local dates (YYYY-MM-DD)
+ * @param set The recurrence set
+ * @param dtstart First local date of the recurrence (DTSTART)
+ * @param rangeStart First local date to return
+ * @param rangeEnd Last local date to return
+ * @param timeZone IANA time zone UNTIL/RDATE/EXDATE date-times are resolved in
+ */
+export function expandRecurrence(
+  set: RecurrenceSet,
+  dtstart: string,
+  rangeStart: string,
+  rangeEnd: string,
+  timeZone: string
+): string[] {
+  const start = parseDay(dtstart);
+  const from = parseDay(rangeStart);
+  const to = parseDay(rangeEnd);
+
+  const dates = new Set(expandRule(parseRRule(set.rrule), start, from, to, timeZone));
+
+  for (const value of set.rdates ?? []) {
+    const day = parseDay(parseDateValue(value, timeZone));
+    if (day >= from && day <= to) dates.add(day);
+  }
+
+  if (set.exrule) {
+    for (const day of expandRule(parseRRule(set.exrule), start, from, to, timeZone)) {
+      dates.delete(day);
+    }
+  }
+
+  for (const value of set.exdates ?? []) {
+    dates.delete(parseDay(parseDateValue(value, timeZone)));
+  }
+
+  return [...dates].sort((a, b) => a - b).map(formatDay);
+}
+
+/**
+ * Whether a string is an IANA time zone known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The local date (YYYY-MM-DD) of an instant in a time zone
+ */
+export function toLocalDate(instant: Date, timeZone: string): string {
+  const { year, month, day } = localParts(instant, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Convert a local date and time of day in a time zone to a UTC instant.
+ * Times skipped by a DST gap use the offset before the gap (so 02:30 on a
+ * spring-forward day becomes 03:30); times repeated by a DST overlap resolve
+ * to the first occurrence, as RFC 5545 specifies.
+ * @param date Local date (YYYY-MM-DD)
+ * @param time Local time (HH:MM)
+ */
+export function localTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(n => parseInt(n, 10));
+  const [hour, minute] = time.split(':').map(n => parseInt(n, 10));
+  if ([year, month, day, hour, minute].some(isNaN)) {
+    throw new RecurrenceRuleError(`Invalid local date/time "${date} ${time}"`);
+  }
+
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const offsetBefore = offsetMinutes(new Date(wallClock - DAY_MS), timeZone);
+  const offsetAfter = offsetMinutes(new Date(wallClock + DAY_MS), timeZone);
+
+  const candidates = [offsetBefore, offsetAfter]
+    .map(offset => ({ offset, instant: wallClock - offset * 60000 }))
+    .filter(candidate => offsetMinutes(new Date(candidate.instant), timeZone) === candidate.offset)
+    .map(candidate => candidate.instant);
+
+  if (candidates.length === 0) {
+    // DST gap: the wall-clock time does not exist
+    return new Date(wallClock - offsetBefore * 60000);
+  }
+
+  return new Date(Math.min(...candidates));
+}
+
+// ---------- Rule expansion ----------
+
+/**
+ * Expand one RRULE/EXRULE into day numbers within [from, to]
+ */
+function expandRule(rule: ParsedRRule, start: number, from: number, to: number, timeZone: string): number[] {
+  const until = rule.until !== undefined ? parseDay(parseDateValue(rule.until, timeZone)) : undefined;
+  const last = until !== undefined ? Math.min(until, to) : to;
+  const results: number[] = [];
+  let emitted = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    const { first, candidates } = periodCandidates(rule, start, period);
+    if (first > last) break;
+
+    for (const day of applySetPos(rule, candidates)) {
+      if (day < start) continue;
+      if (until !== undefined && day > until) return results;
+      if (rule.count !== undefined && emitted >= rule.count) return results;
+      emitted++;
+      if (day >= from && day <= to) results.push(day);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Candidate days (sorted) for the nth period of a rule
+ */
+function periodCandidates(rule: ParsedRRule, start: number, period: number): { first: number; candidates: number[] } {
+  const startDate = fromDay(start);
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = start + period * rule.interval;
+      const { month, day: monthDay } = fromDay(day);
+      const keep = (rule.byMonth.length === 0 || rule.byMonth.includes(month))
+        && (rule.byMonthDay.length === 0 || rule.byMonthDay.some(value => resolveMonthDay(value, day) === monthDay))
+        && (rule.byDay.length === 0 || rule.byDay.some(byDay => byDay.weekday === weekday(day)));
+      return { first: day, candidates: keep ? [day] : [] };
+    }
+
+    case 'WEEKLY': {
+      const weekStart = start - ((weekdayIndex(start) - WEEKDAYS.indexOf(rule.wkst) + 7) % 7);
+      const first = weekStart + period * rule.interval * 7;
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map(byDay => byDay.weekday) : [weekday(start)];
+      const candidates = range(first, first + 6).filter(day =>
+        weekdays.includes(weekday(day))
+        && (rule.byMonth.length === 0 || rule.byMonth.includes(fromDay(day).month))
+      );
+      return { first, candidates };
+    }
+
+    case 'MONTHLY': {
+      const monthIndex = startDate.year * 12 + (startDate.month - 1) + period * rule.interval;
+      const year = Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      const first = toDay(year, month, 1);
+      if (rule.byMonth.length > 0 && !rule.byMonth.includes(month)) {
+        return { first, candidates: [] };
+      }
+      return { first, candidates: monthCandidates(rule, year, month, startDate.day) };
+    }
+
+    case 'YEARLY': {
+      const year = startDate.year + period * rule.interval;
+      const first = toDay(year, 1, 1);
+
+      if (rule.byMonth.length > 0) {
+        const candidates = [...rule.byMonth].sort((a, b) => a - b)
+          .flatMap(month => monthCandidates(rule, year, month, startDate.day));
+        return { first, candidates };
+      }
+
+      if (rule.byDay.length > 0) {
+        // Ordinals are relative to the year when BYMONTH is absent
+        let candidates = byDayCandidates(rule.byDay, first, toDay(year, 12, 31));
+        if (rule.byMonthDay.length > 0) {
+          candidates = candidates.filter(day =>
+            rule.byMonthDay.some(value => resolveMonthDay(value, day) === fromDay(day).day)
+          );
+        }
+        return { first, candidates };
+      }
+
+      if (rule.byMonthDay.length > 0) {
+        const candidates = range(1, 12).flatMap(month => monthCandidates(rule, year, month, startDate.day));
+        return { first, candidates };
+      }
+
+      const day = toDay(year, startDate.month, startDate.day);
+      const valid = fromDay(day).month === startDate.month; // Feb 29 only recurs in leap years
+      return { first, candidates: valid ? [day] : [] };
+    }
+  }
+}
+
+/**
+ * Candidate days within one month for MONTHLY rules and YEARLY rules with BYMONTH
+ */
+function monthCandidates(rule: ParsedRRule, year: number, month: number, defaultDay: number): number[] {
+  const first = toDay(year, month, 1);
+  const last = toDay(year, month, daysInMonth(year, month));
+
+  const monthDays = rule.byMonthDay
+    .map(value => value > 0 ? value : daysInMonth(year, month) + 1 + value)
+    .filter(day => day >= 1 && day <= daysInMonth(year, month))
+    .map(day => first + day - 1);
+
+  if (rule.byDay.length > 0) {
+    const weekdays = byDayCandidates(rule.byDay, first, last);
+    return rule.byMonthDay.length > 0 ? weekdays.filter(day => monthDays.includes(day)) : weekdays;
+  }
+
+  if (rule.byMonthDay.length > 0) {
+    return [...new Set(monthDays)].sort((a, b) => a - b);
+  }
+
+  // Months without the start's day of month (e.g. the 31st) are skipped
+  return defaultDay <= daysInMonth(year, month) ? [first + defaultDay - 1] : [];
+}
+
+/**
+ * Days in [first, last] matching BYDAY entries; ordinals count within the span
+ */
+function byDayCandidates(byDay: ParsedRRule['byDay'], first: number, last: number): number[] {
+  const days = new Set<number>();
+
+  for (const { weekday: target, ordinal } of byDay) {
+    const matching = range(first, last).filter(day => weekday(day) === target);
+    if (ordinal === undefined) {
+      matching.forEach(day => days.add(day));
+    } else {
+      const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+      if (day !== undefined) days.add(day);
+    }
+  }
+
+  return [...days].sort((a, b) => a - b);
+}
+
+function applySetPos(rule: ParsedRRule, candidates: number[]): number[] {
+  if (rule.bySetPos.length === 0) {
+    return candidates;
+  }
+
+  const selected = rule.bySetPos
+    .map(position => position > 0 ? candidates[position - 1] : candidates[candidates.length + position])
+    .filter((day): day is number => day !== undefined);
+
+  return [...new Set(selected)].sort((a, b) => a - b);
+}
+
+// ---------- Date values ----------
+
+/**
+ * Resolve a DATE or DATE-TIME value to a local date (YYYY-MM-DD).
+ * Accepts iCalendar (20250107, 20250107T090000, 20250107T140000Z) and ISO 8601 forms;
+ * UTC or offset date-times are converted into the time zone, floating ones are taken as local.
+ */
+function parseDateValue(value: string, timeZone: string): string {
+  const trimmed = value.trim();
+
+  const ical = /^(\d{4})(\d{2})(\d{2})(T(\d{2})(\d{2})(\d{2})(Z)?)?$/i.exec(trimmed);
+  if (ical) {
+    if (ical[8]) {
+      const instant = new Date(Date.UTC(+ical[1], +ical[2] - 1, +ical[3], +ical[5], +ical[6], +ical[7]));
+      return toLocalDate(instant, timeZone);
+    }
+    return checkDate(`${ical[1]}-${ical[2]}-${ical[3]}`, value);
+  }
+
+  const iso = /^(\d{4}-\d{2}-\d{2})(T[\d:.]+)?(Z|[+-]\d{2}:?\d{2})?$/i.exec(trimmed);
+  if (iso) {
+    if (iso[2] && iso[3]) {
+      const instant = new Date(trimmed);
+      if (isNaN(instant.getTime())) {
+        throw new RecurrenceRuleError(`Invalid date value "${value}"`);
+      }
+      return toLocalDate(instant, timeZone);
+    }
+    return checkDate(iso[1], value);
+  }
+
+  throw new RecurrenceRuleError(`Invalid date value "${value}"`);
+}
+
+function checkDate(date: string, original: string): string {
+  const [year, month, day] = date.split('-').map(n => parseInt(n, 10));
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) {
+    throw new RecurrenceRuleError(`Invalid date value "${original}"`);
+  }
+  return date;
+}
+
+// ---------- Calendar arithmetic on day numbers (days since 1970-01-01) ----------
+
+function toDay(year: number, month: number, day: number): number {
+  return Math.floor(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+function fromDay(dayNumber: number): { year: number; month: number; day: number } {
+  const date = new Date(dayNumber * DAY_MS);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function parseDay(date: string): number {
+  const [year, month, day] = date.split('-').map(n => parseInt(n, 10));
+  return toDay(year, month, day);
+}
+
+function formatDay(dayNumber: number): string {
+  const { year, month, day } = fromDay(dayNumber);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+function weekdayIndex(dayNumber: number): number {
+  return new Date(dayNumber * DAY_MS).getUTCDay();
+}
+
+function weekday(dayNumber: number): Weekday {
+  return WEEKDAYS[weekdayIndex(dayNumber)];
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function resolveMonthDay(value: number, dayNumber: number): number {
+  const { year, month } = fromDay(dayNumber);
+  return value > 0 ? value : daysInMonth(year, month) + 1 + value;
+}
+
+function range(first: number, last: number): number[] {
+  const values: number[] = [];
+  for (let value = first; value <= last; value++) values.push(value);
+  return values;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function parseInteger(name: string, value: string, min: number, max: number): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new RecurrenceRuleError(`Invalid ${name} value "${value}"`);
+  }
+  return parsed;
+}
+
+// Values in ±min..max, zero excluded
+function parseIntegerList(name: string, value: string, min: number, max: number): number[] {
+  return value.split(',').map(item => {
+    const parsed = Number(item);
+    if (!Number.isInteger(parsed) || Math.abs(parsed) < min || Math.abs(parsed) > max) {
+      throw new RecurrenceRuleError(`Invalid ${name} value "${item}"`);
+    }
+    return parsed;
+  });
+}
+
+// ---------- Time zones ----------
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function localParts(instant: Date, timeZone: string) {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour === 24 ? 0 : parts.hour,
+    minute: parts.minute,
+    second: parts.second
+  };
+}
+
+/**
+ * UTC offset of a time zone at an instant, in minutes (e.g. -300 for EST)
+ */
+function offsetMinutes(instant: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = localParts(instant, timeZone);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  const truncated = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((wallClock - truncated) / 60000);
+}
@@ -0,0 +1,392 @@
+/**
+ * Scheduling FHIR R4 API Routes
+ *
+ * Exposes schedules, slots and appointments as FHIR R4 Schedule, Slot and
+ * Appointment resources, with the Appointment/$find operation for bookable
+ * slots and Appointment/$book for booking one with the full MCP, eligibility
+ * and prior auth validation.
+ */
+
+import express from 'express';
+import logger from '../../../server/utils/logger';
+import { type Schedule, type Slot } from '../../../shared/scheduling-schema';
+import { schedulingService } from './scheduling-service';
+import {
+  FhirRequestError,
+  operationOutcome,
+  parametersToQuery,
+  readBookingRequest,
+  searchsetBundle,
+  toAppointmentSearchParams,
+  toFhirAppointment,
+  toFhirSchedule,
+  toFhirSlot,
+  toFindSlotSearchParams,
+  toProposedAppointment,
+  toScheduleSearchParams,
+  toSlotSearchParams,
+  type FhirQuery
+} from './scheduling-fhir';
+
+// Create a router
+const router = express.Router();
+
+// Roles that work with any patient's appointments; other users only with their own
+const STAFF_ROLES = ['admin', 'clinician', 'physician', 'nurse', 'provider'];
+
+// Middleware to check if the user is authenticated
+const isAuthenticated = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).type('application/fhir+json').json(operationOutcome('Not authenticated', 'login'));
+  }
+  next();
+};
+
+/**
+ * The patient a caller is limited to: their own, unless they are staff
+ */
+function ownPatientId(req: express.Request): string | undefined {
+  return req.user?.role && STAFF_ROLES.includes(req.user.role) ? undefined : String(req.user!.id);
+}
+
+/**
+ * Check a caller may act for a patient
+ */
+function checkPatientAccess(req: express.Request, patientId: string): void {
+  const ownId = ownPatientId(req);
+  if (ownId !== undefined && patientId !== ownId) {
+    throw new FhirRequestError(`Not allowed to access Patient/${patientId}`, 403, 'forbidden');
+  }
+}
+
+/**
+ * Base URL of this FHIR endpoint, for fullUrl and self links
+ */
+function baseUrl(req: express.Request): string {
+  return `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+}
+
+/**
+ * Send a FHIR resource
+ */
+function sendResource(res: express.Response, resource: Record<string, any>, status: number = 200) {
+  res.status(status).type('application/fhir+json').json(resource);
+}
+
+/**
+ * Send an error as an OperationOutcome
+ */
+function sendError(res: express.Response, error: unknown, action: string) {
+  if (error instanceof FhirRequestError) {
+    return sendResource(res, operationOutcome(error.message, error.code), error.status);
+  }
+
+  logger.error(`Error ${action}`, { error: (error as Error).message });
+  sendResource(res, operationOutcome(`Failed ${action}: ${(error as Error).message}`, 'exception'), 500);
+}
+
+/**
+ * Load the schedules of a set of slots, keyed by schedule ID
+ */
+async function loadSchedules(slotList: Slot[]): Promise<Map<string, Schedule>> {
+  const scheduleIds = Array.from(new Set(slotList.map(slot => slot.scheduleId)));
+  const loaded = await Promise.all(scheduleIds.map(id => schedulingService.getSchedule(id)));
+
+  return new Map(
+    loaded
+      .filter((schedule): schedule is Schedule => !!schedule)
+      .map(schedule => [schedule.id, schedule])
+  );
+}
+
+/**
+ * @swagger
+ * /fhir/Schedule:
+ *   get:
+ *     summary: Search schedules (actor, service-type, specialty, date)
+ *     tags: [Scheduling FHIR]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Searchset Bundle of Schedule resources
+ *       400:
+ *         description: Invalid search parameters
+ */
+router.get('/Schedule', isAuthenticated, async (req, res) => {
+  try {
+    const params = toScheduleSearchParams(req.query as FhirQuery);
+    const results = await schedulingService.searchSchedules(params);
+
+    sendResource(res, searchsetBundle(baseUrl(req), `${baseUrl(req)}${req.url}`, results.map(toFhirSchedule)));
+  } catch (error) {
+    sendError(res, error, 'searching schedules');
+  }
+});
+
+/**
+ * @swagger
+ * /fhir/Schedule/{id}:
+ *   get:
+ *     summary: Read a Schedule
+ *     tags: [Scheduling FHIR]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Schedule resource
+ *       404:
+ *         description: Schedule not found
+ */
+router.get('/Schedule/:id', isAuthenticated, async (req, res) => {
+  try {
+    const schedule = await schedulingService.getSchedule(req.params.id);
+    if (!schedule) {
+      throw new FhirRequestError(`Schedule/${req.params.id} not found`, 404, 'not-found');
+    }
+
+    sendResource(res, toFhirSchedule(schedule));
+  } catch (error) {
+    sendError(res, error, 'reading schedule');
+  }
+});
+
+/**
+ * @swagger
+ * /fhir/Slot:
+ *   get:
+ *     summary: Search slots (schedule.actor, service-type, specialty, start, status; free slots by default)
+ *     tags: [Scheduling FHIR]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Searchset Bundle of Slot resources
+ *       400:
+ *         description: Invalid search parameters
+ */
+router.get('/Slot', isAuthenticated, async (req, res) => {
+  try {
+    const params = toSlotSearchParams(req.query as FhirQuery);
+    const results = await schedulingService.searchAvailableSlots(params);
+    const scheduleMap = await loadSchedules(results);
+
+    sendResource(res, searchsetBundle(
+      baseUrl(req),
+      `${baseUrl(req)}${req.url}`,
+      results.map(slot => toFhirSlot(slot, scheduleMap.get(slot.scheduleId)))
+    ));
+  } catch (error) {
+    sendError(res, error, 'searching slots');
+  }
+});
+
+/**
+ * @swagger
+ * /fhir/Slot/{id}:
+ *   get:
+ *     summary: Read a Slot
+ *     tags: [Scheduling FHIR]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Slot resource
+ *       404:
+ *         description: Slot not found
+ */
+router.get('/Slot/:id', isAuthenticated, async (req, res) => {
+  try {
+    const slot = await schedulingService.getSlot(req.params.id);
+    if (!slot) {
+      throw new FhirRequestError(`Slot/${req.params.id} not found`, 404, 'not-found');
+    }
+
+    const schedule = await schedulingService.getSchedule(slot.scheduleId);
+    sendResource(res, toFhirSlot(slot, schedule));
+  } catch (error) {
+    sendError(res, error, 'reading slot');
+  }
+});
+
+/**
+ * @swagger
+ * /fhir/Appointment:
+ *   get:
+ *     summary: Search appointments (patient, practitioner, location, actor, appointment-type, specialty, status, date)
+ *     tags: [Scheduling FHIR]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Patients only find their own appointments; staff may search any patient's.
+ *     responses:
+ *       200:
+ *         description: Searchset Bundle of Appointment resources
+ *       400:
+ *         description: Invalid search parameters
+ *       403:
+ *         description: Searching another patient's appointments
+ */
+router.get('/Appointment', isAuthenticated, async (req, res) => {
+  try {
+    const params = toAppointmentSearchParams(req.query as FhirQuery);
+    if (params.patientId) {
+      checkPatientAccess(req, params.patientId);
+    }
+    params.patientId = params.patientId ?? ownPatientId(req);
+    const results = await schedulingService.searchAppointments(params);
+
+    sendResource(res, searchsetBundle(baseUrl(req), `${baseUrl(req)}${req.url}`, results.map(toFhirAppointment)));
+  } catch (error) {
+    sendError(res, error, 'searching appointments');
+  }
+});
+
+/**
+ * Appointment/$find: proposed Appointments for free slots, with the Slots included
+ */
+async function findAppointments(req: express.Request, res: express.Response, query: FhirQuery) {
+  try {
+    const params = toFindSlotSearchParams(query);
+    const freeSlots = await schedulingService.searchAvailableSlots(params);
+    const scheduleMap = await loadSchedules(freeSlots);
+
+    // Slots on inactive schedules cannot be booked
+    const bookable = freeSlots.filter(slot => scheduleMap.get(slot.scheduleId)?.status === 'active');
+
+    sendResource(res, searchsetBundle(
+      baseUrl(req),
+      `${baseUrl(req)}${req.url}`,
+      bookable.map(slot => toProposedAppointment(slot, scheduleMap.get(slot.scheduleId)!)),
+      bookable.map(slot => toFhirSlot(slot, scheduleMap.get(slot.scheduleId)))
+    ));
+  } catch (error) {
+    sendError(res, error, 'finding appointments');
+  }
+}
+
+/**
+ * @swagger
+ * /fhir/Appointment/$find:
+ *   get:
+ *     summary: Find bookable slots as proposed Appointments (start, end, practitioner, location, service-type, specialty)
+ *     tags: [Scheduling FHIR]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Searchset Bundle of proposed Appointments with their Slots included
+ *       400:
+ *         description: Missing or invalid parameters
+ *   post:
+ *     summary: Same as GET, with the parameters in a Parameters resource
+ *     tags: [Scheduling FHIR]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get('/Appointment/\\$find', isAuthenticated, async (req, res) => {
+  await findAppointments(req, res, req.query as FhirQuery);
+});
+
+router.post('/Appointment/\\$find', isAuthenticated, async (req, res) => {
+  try {
+    await findAppointments(req, res, parametersToQuery(req.body));
+  } catch (error) {
+    sendError(res, error, 'finding appointments');
+  }
+});
+
+/**
+ * @swagger
+ * /fhir/Appointment/$book:
+ *   post:
+ *     summary: Book a proposed Appointment (or Parameters with appt-resource, payer, referral, order, organization)
+ *     tags: [Scheduling FHIR]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Patients may only book for themselves; staff may book for any patient.
+ *     responses:
+ *       201:
+ *         description: The booked Appointment (status pending while prior auth is outstanding)
+ *       400:
+ *         description: Invalid booking request
+ *       403:
+ *         description: Booking for another patient
+ *       404:
+ *         description: Slot not found
+ *       409:
+ *         description: Slot or a resource it requires is no longer available
+ *       422:
+ *         description: Booking rejected by policy, eligibility or prior auth checks
+ */
+router.post('/Appointment/\\$book', isAuthenticated, async (req, res) => {
+  try {
+    const booking = readBookingRequest(req.body);
+    checkPatientAccess(req, booking.patientId);
+
+    let appointment;
+    try {
+      appointment = await schedulingService.bookAppointmentWithValidation(
+        booking.patientId,
+        booking.slotId,
+        booking.appointmentType,
+        booking.reason,
+        booking.payerId,
+        booking.referralId,
+        booking.orderId,
+        booking.organizationId
+      );
+    } catch (error) {
+      const message = (error as Error).message;
+      if (message === 'Slot not found') {
+        throw new FhirRequestError(`Slot/${booking.slotId} not found`, 404, 'not-found');
+      }
+      if (message === 'Slot is not available') {
+        throw new FhirRequestError(`Slot/${booking.slotId} is not available`, 409, 'conflict');
+      }
+      if (message.startsWith('Required resources are not available')) {
+        throw new FhirRequestError(message, 409, 'conflict');
+      }
+      if (/^(Booking validation|Eligibility check) failed/.test(message)) {
+        throw new FhirRequestError(message, 422, 'business-rule');
+      }
+      throw error;
+    }
+
+    res.location(`${baseUrl(req)}/Appointment/${appointment.id}`);
+    sendResource(res, toFhirAppointment(appointment), 201);
+  } catch (error) {
+    sendError(res, error, 'booking appointment');
+  }
+});
+
+/**
+ * @swagger
+ * /fhir/Appointment/{id}:
+ *   get:
+ *     summary: Read an Appointment
+ *     tags: [Scheduling FHIR]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Appointment resource
+ *       403:
+ *         description: Another patient's appointment
+ *       404:
+ *         description: Appointment not found
+ */
+router.get('/Appointment/:id', isAuthenticated, async (req, res) => {
+  try {
+    const appointment = await schedulingService.getAppointment(req.params.id);
+    if (!appointment) {
+      throw new FhirRequestError(`Appointment/${req.params.id} not found`, 404, 'not-found');
+    }
+    checkPatientAccess(req, appointment.patientId);
+
+    sendResource(res, toFhirAppointment(appointment));
+  } catch (error) {
+    sendError(res, error, 'reading appointment');
+  }
+});
+
+export default router;
@@ -0,0 +1,127 @@
+import type { Appointment } from '@shared/scheduling-schema';
+import {
+  FhirRequestError,
+  parametersToQuery,
+  readBookingRequest,
+  toAppointmentSearchParams,
+  toFhirAppointment,
+  toFindSlotSearchParams
+} from './scheduling-fhir';
+
+const bookable = {
+  resourceType: 'Appointment',
+  status: 'proposed',
+  appointmentType: { coding: [{ code: 'FOLLOWUP' }] },
+  reasonCode: [{ text: 'Knee pain' }],
+  slot: [{ reference: 'Slot/slot-1' }],
+  participant: [
+    { actor: { reference: 'Practitioner/dr-smith' } },
+    { actor: { reference: 'Patient/patient-1' } }
+  ]
+};
+
+describe('toFindSlotSearchParams', () => {
+  it('maps $find parameters to a search for free slots', () => {
+    expect(toFindSlotSearchParams({
+      start: '2024-03-11T09:00:00Z',
+      end: '2024-03-12T09:00:00Z',
+      practitioner: 'Practitioner/dr-smith',
+      location: 'Location/clinic-1'
+    })).toEqual({
+      providerId: 'dr-smith',
+      locationId: 'clinic-1',
+      serviceType: undefined,
+      specialty: undefined,
+      startDateTime: new Date('2024-03-11T09:00:00Z'),
+      endDateTime: new Date('2024-03-12T09:00:00Z'),
+      status: 'free'
+    });
+  });
+
+  it('requires a start and end, in order', () => {
+    expect(() => toFindSlotSearchParams({ start: '2024-03-11T09:00:00Z' })).toThrow('$find requires start and end');
+    expect(() => toFindSlotSearchParams({ start: '2024-03-12T09:00:00Z', end: '2024-03-11T09:00:00Z' }))
+      .toThrow('end must be after start');
+  });
+
+  it('refuses a practitioner reference to another resource type', () => {
+    expect(() => toFindSlotSearchParams({ start: '2024-03-11T09:00:00Z', end: '2024-03-12T09:00:00Z', practitioner: 'Patient/patient-1' }))
+      .toThrow(FhirRequestError);
+  });
+
+  it('reads the same parameters from a Parameters resource', () => {
+    const query = parametersToQuery({
+      resourceType: 'Parameters',
+      parameter: [
+        { name: 'start', valueDateTime: '2024-03-11T09:00:00Z' },
+        { name: 'end', valueDateTime: '2024-03-12T09:00:00Z' },
+        { name: 'practitioner', valueReference: { reference: 'Practitioner/dr-smith' } }
+      ]
+    });
+    expect(toFindSlotSearchParams(query).providerId).toBe('dr-smith');
+  });
+});
+
+describe('toAppointmentSearchParams', () => {
+  it('reads the patient from the patient parameter or a Patient actor', () => {
+    expect(toAppointmentSearchParams({ patient: 'Patient/patient-1', status: 'booked' }))
+      .toMatchObject({ patientId: 'patient-1', status: 'booked' });
+    expect(toAppointmentSearchParams({ actor: 'Patient/patient-1' }).patientId).toBe('patient-1');
+  });
+});
+
+describe('readBookingRequest', () => {
+  it('reads the patient, slot and type of the Appointment to book', () => {
+    expect(readBookingRequest(bookable)).toEqual({
+      patientId: 'patient-1',
+      slotId: 'slot-1',
+      appointmentType: 'FOLLOWUP',
+      reason: 'Knee pain',
+      payerId: undefined,
+      referralId: undefined,
+      orderId: undefined,
+      organizationId: undefined
+    });
+  });
+
+  it('reads the payer and referral from Parameters around the Appointment', () => {
+    const booking = readBookingRequest({
+      resourceType: 'Parameters',
+      parameter: [
+        { name: 'appt-resource', resource: bookable },
+        { name: 'payer', valueString: 'acme' },
+        { name: 'referral', valueString: 'ref-1' }
+      ]
+    });
+    expect(booking).toMatchObject({ patientId: 'patient-1', payerId: 'acme', referralId: 'ref-1' });
+  });
+
+  it('requires a Patient participant and exactly one Slot', () => {
+    expect(() => readBookingRequest({ ...bookable, participant: [{ actor: { reference: 'Practitioner/dr-smith' } }] }))
+      .toThrow('must have a Patient participant');
+    expect(() => readBookingRequest({ ...bookable, slot: [] })).toThrow('exactly one Slot');
+  });
+});
+
+describe('toFhirAppointment', () => {
+  it('lists the patient, practitioner and location as participants', () => {
+    const appointment = {
+      id: 'appt-1',
+      patientId: 'patient-1',
+      providerId: 'dr-smith',
+      locationId: 'clinic-1',
+      slotId: 'slot-1',
+      status: 'booked',
+      appointmentType: 'FOLLOWUP',
+      startDateTime: new Date('2024-03-11T09:00:00Z'),
+      endDateTime: new Date('2024-03-11T09:30:00Z'),
+      createdAt: new Date('2024-03-01T00:00:00Z'),
+      updatedAt: null
+    } as unknown as Appointment;
+
+    const resource = toFhirAppointment(appointment);
+    expect(resource.participant.map((p: any) => p.actor.reference))
+      .toEqual(['Patient/patient-1', 'Practitioner/dr-smith', 'Location/clinic-1']);
+    expect(resource).toMatchObject({ status: 'booked', start: '2024-03-11T09:00:00.000Z', slot: [{ reference: 'Slot/slot-1' }] });
+  });
+});
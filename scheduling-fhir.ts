@@ -0,0 +1,492 @@
+/**
+ * Smart Health Hub - Scheduling FHIR R4 Mapping
+ *
+ * Maps schedules, slots and appointments to FHIR R4 Schedule, Slot and
+ * Appointment resources, translates FHIR search parameters into the
+ * scheduling service's search params, and reads the inputs of the
+ * Appointment/$find and Appointment/$book operations.
+ */
+
+import {
+  type Schedule,
+  type Slot,
+  type Appointment
+} from '../../../shared/scheduling-schema';
+import {
+  type ScheduleSearchParams,
+  type SlotSearchParams,
+  type AppointmentSearchParams
+} from './scheduling-service';
+
+const TIMEZONE_EXTENSION = 'http://hl7.org/fhir/StructureDefinition/timezone';
+
+// Query values as parsed by Express (repeated parameters arrive as arrays)
+export type FhirQuery = Record<string, string | string[] | undefined>;
+
+/**
+ * A FHIR request that cannot be processed; reported as an OperationOutcome
+ */
+export class FhirRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 400,
+    public readonly code: string = 'invalid'
+  ) {
+    super(message);
+    this.name = 'FhirRequestError';
+  }
+}
+
+// Inputs to Appointment/$book
+export interface FhirBookingRequest {
+  patientId: string;
+  slotId: string;
+  appointmentType: string;
+  reason?: string;
+  payerId?: string;
+  referralId?: string;
+  orderId?: string;
+  organizationId?: string;
+}
+
+// ---------- Resources ----------
+
+/**
+ * Map a schedule to a FHIR Schedule
+ */
+export function toFhirSchedule(schedule: Schedule): Record<string, any> {
+  return {
+    resourceType: 'Schedule',
+    id: schedule.id,
+    meta: { lastUpdated: (schedule.updatedAt || schedule.createdAt).toISOString() },
+    extension: [{ url: TIMEZONE_EXTENSION, valueCode: schedule.timeZone }],
+    active: schedule.status === 'active',
+    serviceType: [codeableConcept(schedule.serviceType)],
+    ...(schedule.specialty && { specialty: [codeableConcept(schedule.specialty)] }),
+    actor: [
+      { reference: `Practitioner/${schedule.providerId}` },
+      ...(schedule.locationId ? [{ reference: `Location/${schedule.locationId}` }] : [])
+    ],
+    ...((schedule.startDate || schedule.endDate) && {
+      planningHorizon: {
+        ...(schedule.startDate && { start: schedule.startDate.toISOString() }),
+        ...(schedule.endDate && { end: schedule.endDate.toISOString() })
+      }
+    }),
+    ...(schedule.comments && { comment: schedule.comments })
+  };
+}
+
+/**
+ * Map a slot to a FHIR Slot; the schedule supplies the service type and specialty
+ */
+export function toFhirSlot(slot: Slot, schedule?: Schedule): Record<string, any> {
+  return {
+    resourceType: 'Slot',
+    id: slot.id,
+    meta: { lastUpdated: (slot.updatedAt || slot.createdAt).toISOString() },
+    schedule: { reference: `Schedule/${slot.scheduleId}` },
+    ...(schedule && { serviceType: [codeableConcept(schedule.serviceType)] }),
+    ...(schedule?.specialty && { specialty: [codeableConcept(schedule.specialty)] }),
+    status: slot.status,
+    start: slot.startDateTime.toISOString(),
+    end: slot.endDateTime.toISOString(),
+    ...(slot.overbooked && { overbooked: true }),
+    ...(slot.comments && { comment: slot.comments })
+  };
+}
+
+/**
+ * Map an appointment to a FHIR Appointment
+ */
+export function toFhirAppointment(appointment: Appointment): Record<string, any> {
+  const participantStatus = appointment.status === 'proposed' ? 'needs-action' : 'accepted';
+  const reason = appointment.reasonCode
+    ? { coding: [{ code: appointment.reasonCode }], ...(appointment.reason && { text: appointment.reason }) }
+    : appointment.reason ? { text: appointment.reason } : undefined;
+  const basedOn = [appointment.referralId, appointment.orderId]
+    .filter((id): id is string => !!id)
+    .map(id => ({ reference: `ServiceRequest/${id}` }));
+
+  return {
+    resourceType: 'Appointment',
+    id: appointment.id,
+    meta: { lastUpdated: (appointment.updatedAt || appointment.createdAt).toISOString() },
+    status: appointment.status,
+    ...(appointment.cancelReason && { cancelationReason: { text: appointment.cancelReason } }),
+    ...(appointment.specialty && { specialty: [codeableConcept(appointment.specialty)] }),
+    appointmentType: codeableConcept(appointment.appointmentType),
+    ...(reason && { reasonCode: [reason] }),
+    ...(appointment.priority && { priority: appointment.priority }),
+    ...(appointment.description && { description: appointment.description }),
+    start: appointment.startDateTime.toISOString(),
+    end: appointment.endDateTime.toISOString(),
+    ...(appointment.minutesDuration && { minutesDuration: appointment.minutesDuration }),
+    ...(appointment.slotId && { slot: [{ reference: `Slot/${appointment.slotId}` }] }),
+    created: appointment.createdAt.toISOString(),
+    ...(appointment.patientInstructions && { patientInstruction: appointment.patientInstructions }),
+    ...(basedOn.length > 0 && { basedOn }),
+    participant: [
+      { actor: { reference: `Patient/${appointment.patientId}` }, required: 'required', status: participantStatus },
+      { actor: { reference: `Practitioner/${appointment.providerId}` }, required: 'required', status: participantStatus },
+      ...(appointment.locationId
+        ? [{ actor: { reference: `Location/${appointment.locationId}` }, required: 'required', status: participantStatus }]
+        : [])
+    ]
+  };
+}
+
+/**
+ * Build the proposed Appointment that $find returns for a bookable slot
+ */
+export function toProposedAppointment(slot: Slot, schedule: Schedule): Record<string, any> {
+  return {
+    resourceType: 'Appointment',
+    status: 'proposed',
+    serviceType: [codeableConcept(schedule.serviceType)],
+    ...(schedule.specialty && { specialty: [codeableConcept(schedule.specialty)] }),
+    start: slot.startDateTime.toISOString(),
+    end: slot.endDateTime.toISOString(),
+    slot: [{ reference: `Slot/${slot.id}` }],
+    participant: [
+      { actor: { reference: `Practitioner/${schedule.providerId}` }, required: 'required', status: 'needs-action' },
+      ...(schedule.locationId
+        ? [{ actor: { reference: `Location/${schedule.locationId}` }, required: 'required', status: 'needs-action' }]
+        : [])
+    ]
+  };
+}
+
+/**
+ * Wrap resources in a searchset Bundle
+ */
+export function searchsetBundle(
+  baseUrl: string,
+  selfUrl: string,
+  matches: Record<string, any>[],
+  includes: Record<string, any>[] = []
+): Record<string, any> {
+  const entry = (resource: Record<string, any>, mode: 'match' | 'include') => ({
+    ...(resource.id && { fullUrl: `${baseUrl}/${resource.resourceType}/${resource.id}` }),
+    resource,
+    search: { mode }
+  });
+
+  return {
+    resourceType: 'Bundle',
+    type: 'searchset',
+    total: matches.length,
+    link: [{ relation: 'self', url: selfUrl }],
+    entry: [
+      ...matches.map(resource => entry(resource, 'match')),
+      ...includes.map(resource => entry(resource, 'include'))
+    ]
+  };
+}
+
+/**
+ * Build an OperationOutcome for an error
+ */
+export function operationOutcome(
+  diagnostics: string,
+  code: string = 'processing',
+  severity: 'error' | 'warning' | 'information' = 'error'
+): Record<string, any> {
+  return {
+    resourceType: 'OperationOutcome',
+    issue: [{ severity, code, diagnostics }]
+  };
+}
+
+// ---------- Search parameters ----------
+
+/**
+ * Schedule search: actor, service-type, specialty, date
+ */
+export function toScheduleSearchParams(query: FhirQuery): ScheduleSearchParams {
+  const params: ScheduleSearchParams = {};
+
+  for (const actor of values(query, 'actor')) {
+    applyActor(params, actor, 'actor', false);
+  }
+
+  params.serviceType = token(query, 'service-type');
+  params.specialty = token(query, 'specialty');
+
+  const date = dateRange(query, 'date');
+  params.startDate = date.lower;
+  params.endDate = date.upper;
+
+  return params;
+}
+
+/**
+ * Slot search: schedule.actor, service-type, specialty, start, status
+ */
+export function toSlotSearchParams(query: FhirQuery): SlotSearchParams {
+  const params: SlotSearchParams = {};
+
+  for (const actor of values(query, 'schedule.actor')) {
+    applyActor(params, actor, 'schedule.actor', false);
+  }
+
+  params.serviceType = token(query, 'service-type');
+  params.specialty = token(query, 'specialty');
+  params.status = token(query, 'status');
+
+  const start = dateRange(query, 'start');
+  params.startDateTime = start.lower;
+  params.endDateTime = start.upper;
+
+  return params;
+}
+
+/**
+ * Appointment search: patient, practitioner, location, actor, appointment-type,
+ * specialty, status, date
+ */
+export function toAppointmentSearchParams(query: FhirQuery): AppointmentSearchParams {
+  const params: AppointmentSearchParams = {};
+
+  for (const actor of values(query, 'actor')) {
+    applyActor(params, actor, 'actor', true);
+  }
+
+  const patient = reference(query, 'patient', 'Patient');
+  const practitioner = reference(query, 'practitioner', 'Practitioner');
+  const location = reference(query, 'location', 'Location');
+  if (patient) params.patientId = patient;
+  if (practitioner) params.providerId = practitioner;
+  if (location) params.locationId = location;
+
+  params.appointmentType = token(query, 'appointment-type');
+  params.specialty = token(query, 'specialty');
+  params.status = token(query, 'status');
+
+  const date = dateRange(query, 'date');
+  params.startDateTime = date.lower;
+  params.endDateTime = date.upper;
+
+  return params;
+}
+
+/**
+ * Appointment/$find: start, end, practitioner, location, service-type, specialty.
+ * Only free slots are returned.
+ */
+export function toFindSlotSearchParams(query: FhirQuery): SlotSearchParams {
+  const start = single(query, 'start');
+  const end = single(query, 'end');
+
+  if (!start || !end) {
+    throw new FhirRequestError('$find requires start and end', 400, 'required');
+  }
+
+  const params: SlotSearchParams = {
+    providerId: reference(query, 'practitioner', 'Practitioner'),
+    locationId: reference(query, 'location', 'Location'),
+    serviceType: token(query, 'service-type'),
+    specialty: token(query, 'specialty'),
+    startDateTime: parseDate(start, 'start'),
+    endDateTime: parseDate(end, 'end'),
+    status: 'free'
+  };
+
+  if (params.endDateTime! <= params.startDateTime!) {
+    throw new FhirRequestError('$find end must be after start');
+  }
+
+  return params;
+}
+
+/**
+ * Flatten a Parameters resource into query-style values so operations can be
+ * invoked with either GET or POST
+ */
+export function parametersToQuery(parameters: any): FhirQuery {
+  if (!parameters || parameters.resourceType !== 'Parameters') {
+    throw new FhirRequestError('Expected a Parameters resource');
+  }
+
+  const query: Record<string, string[]> = {};
+  for (const parameter of parameters.parameter || []) {
+    const value = parameter.valueString ?? parameter.valueCode ?? parameter.valueDateTime ??
+      parameter.valueDate ?? parameter.valueInstant ?? parameter.valueReference?.reference;
+    if (parameter.name && value !== undefined) {
+      query[parameter.name] = [...(query[parameter.name] || []), String(value)];
+    }
+  }
+
+  return query;
+}
+
+/**
+ * Read Appointment/$book input: either an Appointment, or Parameters with an
+ * appt-resource part and optional payer, referral, order and organization parts
+ */
+export function readBookingRequest(body: any): FhirBookingRequest {
+  let appointment = body;
+  let extras: FhirQuery = {};
+
+  if (body?.resourceType === 'Parameters') {
+    appointment = (body.parameter || []).find((p: any) => p.name === 'appt-resource')?.resource;
+    extras = parametersToQuery(body);
+  }
+
+  if (!appointment || appointment.resourceType !== 'Appointment') {
+    throw new FhirRequestError('$book requires an Appointment resource', 400, 'required');
+  }
+
+  const actors: string[] = (appointment.participant || [])
+    .map((p: any) => p.actor?.reference)
+    .filter((ref: unknown): ref is string => typeof ref === 'string');
+
+  const patientId = actors.map(ref => referenceId(ref, 'Patient')).find(Boolean);
+  if (!patientId) {
+    throw new FhirRequestError('Appointment must have a Patient participant', 400, 'required');
+  }
+
+  const slotRefs: string[] = (appointment.slot || []).map((s: any) => s.reference);
+  if (slotRefs.length !== 1) {
+    throw new FhirRequestError('Appointment must reference exactly one Slot', 400, 'required');
+  }
+
+  const slotId = referenceId(slotRefs[0], 'Slot');
+  if (!slotId) {
+    throw new FhirRequestError(`Invalid Slot reference: ${slotRefs[0]}`);
+  }
+
+  const appointmentType = appointment.appointmentType?.coding?.[0]?.code;
+  if (!appointmentType) {
+    throw new FhirRequestError('Appointment must have an appointmentType code', 400, 'required');
+  }
+
+  return {
+    patientId,
+    slotId,
+    appointmentType,
+    reason: appointment.reasonCode?.[0]?.text || appointment.description || undefined,
+    payerId: single(extras, 'payer'),
+    referralId: single(extras, 'referral'),
+    orderId: single(extras, 'order'),
+    organizationId: single(extras, 'organization')
+  };
+}
+
+// ---------- Helpers ----------
+
+function codeableConcept(code: string): Record<string, any> {
+  return { coding: [{ code }], text: code };
+}
+
+function values(query: FhirQuery, name: string): string[] {
+  const value = query[name];
+  if (value === undefined) {
+    return [];
+  }
+  return (Array.isArray(value) ? value : [value]).flatMap(v => v.split(','));
+}
+
+function single(query: FhirQuery, name: string): string | undefined {
+  const all = values(query, name);
+  if (all.length > 1) {
+    throw new FhirRequestError(`Only one value is supported for ${name}`);
+  }
+  return all[0];
+}
+
+// Token values may be system|code; only the code is matched
+function token(query: FhirQuery, name: string): string | undefined {
+  const value = single(query, name);
+  return value?.includes('|') ? value.split('|').pop() || undefined : value;
+}
+
+function reference(query: FhirQuery, name: string, type: string): string | undefined {
+  const value = single(query, name);
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const id = referenceId(value, type);
+  if (!id) {
+    throw new FhirRequestError(`${name} must reference a ${type}`);
+  }
+  return id;
+}
+
+// Accepts "Type/id", an absolute URL ending in "Type/id", or a bare id
+function referenceId(ref: string, type: string): string | undefined {
+  const parts = ref.split('/');
+  if (parts.length === 1) {
+    return ref || undefined;
+  }
+  return parts[parts.length - 2] === type ? parts[parts.length - 1] || undefined : undefined;
+}
+
+function applyActor(
+  params: { providerId?: string; locationId?: string; patientId?: string },
+  ref: string,
+  name: string,
+  allowPatient: boolean
+): void {
+  const [type, id] = ref.split('/').slice(-2);
+  if (!id) {
+    throw new FhirRequestError(`${name} must be a typed reference, e.g. Practitioner/123`);
+  }
+
+  if (type === 'Practitioner') {
+    params.providerId = id;
+  } else if (type === 'Location') {
+    params.locationId = id;
+  } else if (type === 'Patient' && allowPatient) {
+    params.patientId = id;
+  } else {
+    throw new FhirRequestError(`Unsupported ${name} type: ${type}`);
+  }
+}
+
+/**
+ * Read a date parameter with FHIR prefixes into inclusive bounds.
+ * ge/gt set the lower bound, le/lt the upper bound; eq or no prefix covers
+ * the whole period given (a day for a date, an instant for a dateTime).
+ */
+function dateRange(query: FhirQuery, name: string): { lower?: Date; upper?: Date } {
+  const range: { lower?: Date; upper?: Date } = {};
+
+  for (const raw of values(query, name)) {
+    const match = /^(eq|ge|gt|le|lt)?(.+)$/.exec(raw)!;
+    const prefix = match[1] || 'eq';
+    const value = match[2];
+    const date = parseDate(value, name);
+    const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+    const endOfPeriod = dateOnly ? new Date(date.getTime() + 24 * 60 * 60 * 1000 - 1) : date;
+
+    switch (prefix) {
+      case 'ge':
+        range.lower = date;
+        break;
+      case 'gt':
+        range.lower = new Date(endOfPeriod.getTime() + 1);
+        break;
+      case 'le':
+        range.upper = endOfPeriod;
+        break;
+      case 'lt':
+        range.upper = new Date(date.getTime() - 1);
+        break;
+      default:
+        range.lower = date;
+        range.upper = endOfPeriod;
+    }
+  }
+
+  return range;
+}
+
+function parseDate(value: string, name: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new FhirRequestError(`Invalid date for ${name}: ${value}`);
+  }
+  return date;
+}
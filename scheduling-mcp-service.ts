@@ -3,18 +3,45 @@
  * 
  * This service handles Model Context Protocol (MCP) integrations for the Scheduling service.
  * MCP allows for organization-specific rules, policies, and configurations to be applied
- * to scheduling operations.
+ * to scheduling operations. Organizations' executable policy rules (see
+ * scheduling-policy-rules.ts) are applied on booking and no-show, and each
+ * evaluation is recorded as a trace.
  */
 
 import { v4 as uuidv4 } from 'uuid';
+import { eq, and, or, gt, gte, lte, ne, desc, asc, sql, isNull } from 'drizzle-orm';
+import { db } from '../../db';
 import logger from '../../../server/utils/logger';
-import { type Schedule, type Slot, type Appointment } from '../../../shared/scheduling-schema';
+import {
+  schedules,
+  slots,
+  appointments,
+  schedulingPolicyRules,
+  schedulingRuleTraces,
+  type Schedule,
+  type Slot,
+  type Appointment,
+  type SchedulingPolicyRule,
+  type SchedulingRuleTrace,
+  type SchedulingRuleTrigger,
+  type InsertSchedulingPolicyRule
+} from '../../../shared/scheduling-schema';
+import {
+  evaluateSchedulingRules,
+  parseSchedulingRule,
+  type SchedulingRuleDefinition,
+  type SchedulingRuleFacts,
+  type SchedulingRulesResult
+} from './scheduling-policy-rules';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
 
 interface OrganizationPolicy {
   id: string;
   organizationId: string;
   policyType: string; // 'scheduling', 'appointment', etc.
-  rules: PolicyRule[];
+  rules: SchedulingPolicyRule[];
   effectiveFrom: Date;
   effectiveTo?: Date;
   active: boolean;
@@ -22,16 +49,6 @@ interface OrganizationPolicy {
   updatedAt?: Date;
 }
 
-interface PolicyRule {
-  id: string;
-  name: string;
-  description?: string;
-  conditionExpression: string; // JSON or string representation of condition
-  actionExpression: string; // JSON or string representation of action
-  priority: number;
-  active: boolean;
-}
-
 export interface SchedulingPolicy {
   maxAppointmentsPerSlot: number; // Default: 1, but can be overridden for group sessions
   minTimeBeforeBooking: number; // Minutes before a slot that it can be booked (0 = anytime)
@@ -64,6 +81,22 @@ export interface EligibilityProcessingRule {
   autoBookOnVerification: boolean;
 }
 
+// The booking or no-show that policy rules are evaluated for
+export interface SchedulingRuleContext {
+  patientId: string;
+  slotId?: string | null;
+  appointmentType?: string | null;
+  serviceType?: string | null;
+  specialty?: string | null;
+  providerId?: string | null;
+  locationId?: string | null;
+  startDateTime: Date;
+  endDateTime: Date;
+  payerId?: string | null;
+  referralId?: string | null;
+  isTelehealth?: boolean | null;
+}
+
 export class SchedulingMcpService {
   // Default policy that applies if no organization-specific policy exists
   private defaultPolicy: SchedulingPolicy = {
@@ -183,6 +216,140 @@ export class SchedulingMcpService {
     }
   }
 
+  /**
+   * Create a policy rule after validating its expressions
+   * @throws SchedulingRuleError if the expressions are invalid
+   */
+  async createPolicyRule(data: InsertSchedulingPolicyRule): Promise<SchedulingPolicyRule> {
+    parseSchedulingRule(data);
+
+    const [rule] = await db.insert(schedulingPolicyRules)
+      .values({ ...data, id: uuidv4() })
+      .returning();
+
+    return rule;
+  }
+
+  /**
+   * Get a policy rule by ID
+   */
+  async getPolicyRule(ruleId: string): Promise<SchedulingPolicyRule | undefined> {
+    const [rule] = await db.select()
+      .from(schedulingPolicyRules)
+      .where(eq(schedulingPolicyRules.id, ruleId));
+
+    return rule;
+  }
+
+  /**
+   * Update a policy rule, validating the expressions it ends up with
+   * @throws SchedulingRuleError if the expressions are invalid
+   */
+  async updatePolicyRule(
+    ruleId: string,
+    data: Partial<InsertSchedulingPolicyRule>
+  ): Promise<SchedulingPolicyRule | undefined> {
+    const existing = await this.getPolicyRule(ruleId);
+    if (!existing) {
+      return undefined;
+    }
+
+    parseSchedulingRule({
+      trigger: data.trigger ?? existing.trigger,
+      conditionExpression: data.conditionExpression ?? existing.conditionExpression,
+      actionExpression: data.actionExpression ?? existing.actionExpression
+    });
+
+    const [rule] = await db.update(schedulingPolicyRules)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(schedulingPolicyRules.id, ruleId))
+      .returning();
+
+    return rule;
+  }
+
+  /**
+   * Get an organization's policy rules, highest priority first, optionally
+   * only those for a trigger or in effect at a point in time
+   */
+  async getPolicyRules(
+    organizationId: string,
+    options: { trigger?: SchedulingRuleTrigger; effectiveAt?: Date } = {}
+  ): Promise<SchedulingPolicyRule[]> {
+    const conditions = [eq(schedulingPolicyRules.organizationId, organizationId)];
+
+    if (options.trigger) {
+      conditions.push(eq(schedulingPolicyRules.trigger, options.trigger));
+    }
+
+    if (options.effectiveAt) {
+      conditions.push(
+        eq(schedulingPolicyRules.active, true),
+        lte(schedulingPolicyRules.effectiveFrom, options.effectiveAt),
+        or(isNull(schedulingPolicyRules.effectiveTo), gt(schedulingPolicyRules.effectiveTo, options.effectiveAt))!
+      );
+    }
+
+    return await db.select()
+      .from(schedulingPolicyRules)
+      .where(and(...conditions))
+      .orderBy(desc(schedulingPolicyRules.priority), asc(schedulingPolicyRules.name));
+  }
+
+  /**
+   * Evaluate policy rules for a booking or no-show without acting on the
+   * result or recording a trace. Rules in effect at the given time are used
+   * (now by default), unless draft rules are passed to try out instead.
+   */
+  async dryRunPolicyRules(
+    organizationId: string,
+    trigger: SchedulingRuleTrigger,
+    context: SchedulingRuleContext,
+    options: { at?: Date; rules?: SchedulingRuleDefinition[] } = {}
+  ): Promise<SchedulingRulesResult> {
+    const at = options.at || new Date();
+    const rules = options.rules || await this.getPolicyRules(organizationId, { trigger, effectiveAt: at });
+
+    return await evaluateSchedulingRules(rules, trigger, this.buildRuleFacts(context, at));
+  }
+
+  /**
+   * Get the rule traces recorded for an appointment, oldest first
+   */
+  async getRuleTraces(appointmentId: string): Promise<SchedulingRuleTrace[]> {
+    return await db.select()
+      .from(schedulingRuleTraces)
+      .where(eq(schedulingRuleTraces.appointmentId, appointmentId))
+      .orderBy(asc(schedulingRuleTraces.evaluatedAt));
+  }
+
+  /**
+   * Whether the organization's policy rules have been evaluated for a patient,
+   * i.e. the patient has booked with the organization
+   */
+  async isOrganizationPatient(organizationId: string, patientId: string): Promise<boolean> {
+    const [trace] = await db.select({ id: schedulingRuleTraces.id })
+      .from(schedulingRuleTraces)
+      .where(
+        and(
+          eq(schedulingRuleTraces.organizationId, organizationId),
+          eq(schedulingRuleTraces.patientId, patientId)
+        )
+      )
+      .limit(1);
+
+    return !!trace;
+  }
+
+  /**
+   * Link a booking's rule trace to the appointment once it has been created
+   */
+  async attachRuleTrace(traceId: string, appointmentId: string): Promise<void> {
+    await db.update(schedulingRuleTraces)
+      .set({ appointmentId })
+      .where(eq(schedulingRuleTraces.id, traceId));
+  }
+
   /**
    * Validate a slot creation based on organization policies
    */
@@ -231,6 +398,8 @@ export class SchedulingMcpService {
     message?: string; 
     requiresPriorAuth?: boolean;
     requiresEligibility?: boolean;
+    depositAmount?: number;
+    ruleTraceId?: string;
   }> {
     try {
       const policy = await this.getSchedulingPolicy(organizationId);
@@ -268,10 +437,36 @@ export class SchedulingMcpService {
       // Check if eligibility verification is required
       const requiresEligibility = !!payerId;
       
+      // Apply the organization's policy rules on top of the fixed policy
+      const { outcome, traceId } = await this.applyPolicyRules(organizationId, 'booking', {
+        patientId,
+        slotId: slotData.id,
+        appointmentType: appointmentData.appointmentType,
+        serviceType: scheduleData.serviceType,
+        specialty: scheduleData.specialty,
+        providerId: scheduleData.providerId,
+        locationId: scheduleData.locationId,
+        startDateTime: slotData.startDateTime,
+        endDateTime: slotData.endDateTime,
+        payerId,
+        referralId: appointmentData.referralId,
+        isTelehealth: appointmentData.isTelehealth
+      });
+      
+      if (outcome.denied) {
+        return {
+          valid: false,
+          message: outcome.denied.message,
+          ruleTraceId: traceId
+        };
+      }
+      
       return { 
         valid: true,
-        requiresPriorAuth,
-        requiresEligibility
+        requiresPriorAuth: requiresPriorAuth || !!outcome.requiresPriorAuth,
+        requiresEligibility: requiresEligibility || !!outcome.requiresEligibility,
+        depositAmount: outcome.depositAmount,
+        ruleTraceId: traceId
       };
     } catch (error) {
       logger.error('Error validating appointment booking:', error);
@@ -340,7 +535,7 @@ export class SchedulingMcpService {
   }
 
   /**
-   * Process no-show policy
+   * Process no-show policy, releasing the appointment's slot to the waitlist
    */
   async processNoShow(
     organizationId: string,
@@ -352,6 +547,53 @@ export class SchedulingMcpService {
     message: string; 
   }> {
     try {
+      // Release the slot and offer it to the waitlist; policy still applies if this fails
+      const { waitlistService } = await import('./waitlist-service');
+      await waitlistService.handleNoShow(appointmentData).catch(error => {
+        logger.error('Error offering no-show slot to waitlist:', error);
+      });
+      
+      // Policy rules take precedence over the fixed no-show policy
+      const [slotSchedule] = appointmentData.slotId
+        ? await db.select({ serviceType: schedules.serviceType })
+          .from(slots)
+          .innerJoin(schedules, eq(slots.scheduleId, schedules.id))
+          .where(eq(slots.id, appointmentData.slotId))
+        : [];
+      
+      const { outcome } = await this.applyPolicyRules(organizationId, 'no_show', {
+        patientId: appointmentData.patientId,
+        slotId: appointmentData.slotId,
+        appointmentType: appointmentData.appointmentType,
+        serviceType: slotSchedule?.serviceType,
+        specialty: appointmentData.specialty,
+        providerId: appointmentData.providerId,
+        locationId: appointmentData.locationId,
+        startDateTime: appointmentData.startDateTime,
+        endDateTime: appointmentData.endDateTime,
+        payerId: appointmentData.payerId,
+        referralId: appointmentData.referralId,
+        isTelehealth: appointmentData.isTelehealth
+      }, appointmentId);
+      
+      if (outcome.fee !== undefined || outcome.restrictionDays !== undefined) {
+        const messages: string[] = [];
+        if (outcome.fee !== undefined) {
+          messages.push(`No-show fee of $${outcome.fee} applied`);
+        }
+        if (outcome.restrictionDays !== undefined) {
+          messages.push(`Booking restricted for ${outcome.restrictionDays} days due to no-show`);
+        }
+        
+        return {
+          fee: outcome.fee,
+          restrictions: outcome.restrictionDays !== undefined
+            ? { type: 'booking_restriction', days: outcome.restrictionDays }
+            : undefined,
+          message: messages.join('; ')
+        };
+      }
+      
       const policy = await this.getSchedulingPolicy(organizationId);
       
       if (policy.cancelNoShowPolicy === 'fee' && policy.noShowFeeAmount) {
@@ -377,6 +619,123 @@ export class SchedulingMcpService {
       return { message: 'Error processing no-show policy' };
     }
   }
+
+  /**
+   * Evaluate the organization's rules in effect now and record the trace.
+   * No trace is recorded when the organization has no rules for the trigger.
+   */
+  private async applyPolicyRules(
+    organizationId: string,
+    trigger: SchedulingRuleTrigger,
+    context: SchedulingRuleContext,
+    appointmentId?: string
+  ): Promise<SchedulingRulesResult & { traceId?: string }> {
+    const now = new Date();
+    const rules = await this.getPolicyRules(organizationId, { trigger, effectiveAt: now });
+    if (rules.length === 0) {
+      return { outcome: {}, trace: [] };
+    }
+
+    const result = await evaluateSchedulingRules(rules, trigger, this.buildRuleFacts(context, now));
+
+    const [trace] = await db.insert(schedulingRuleTraces)
+      .values({
+        id: uuidv4(),
+        organizationId,
+        trigger,
+        patientId: context.patientId,
+        slotId: context.slotId,
+        appointmentId,
+        outcome: result.outcome,
+        rules: result.trace,
+        evaluatedAt: now
+      })
+      .returning();
+
+    logger.info('Applied scheduling policy rules', {
+      organizationId,
+      trigger,
+      patientId: context.patientId,
+      fired: result.trace.filter(entry => entry.result === 'fired').map(entry => entry.ruleId)
+    });
+
+    return { ...result, traceId: trace.id };
+  }
+
+  /**
+   * Facts about a booking or no-show as of a point in time. Patient history
+   * counts are read once per fact and period.
+   */
+  private buildRuleFacts(context: SchedulingRuleContext, at: Date): SchedulingRuleFacts {
+    const counts = new Map<string, Promise<number>>();
+
+    return {
+      count: (fact, periodDays) => {
+        const key = `${fact}:${periodDays}`;
+        if (!counts.has(key)) {
+          counts.set(key, this.countPatientAppointments(context.patientId, fact, periodDays, at));
+        }
+        return counts.get(key)!;
+      },
+
+      number: fact => {
+        const start = new Date(context.startDateTime).getTime();
+        switch (fact) {
+          case 'appointment.lead_time_hours':
+            return (start - at.getTime()) / HOUR_MS;
+          case 'appointment.duration_minutes':
+            return (new Date(context.endDateTime).getTime() - start) / (60 * 1000);
+        }
+      },
+
+      value: fact => {
+        switch (fact) {
+          case 'appointment.type': return context.appointmentType;
+          case 'appointment.service_type': return context.serviceType;
+          case 'appointment.specialty': return context.specialty;
+          case 'appointment.provider_id': return context.providerId;
+          case 'appointment.location_id': return context.locationId;
+          case 'patient.payer_id': return context.payerId;
+        }
+      },
+
+      flag: fact => {
+        switch (fact) {
+          case 'appointment.telehealth': return !!context.isTelehealth;
+          case 'appointment.has_referral': return !!context.referralId;
+        }
+      }
+    };
+  }
+
+  /**
+   * Count a patient's appointments with a status over the days before a point in time
+   */
+  private async countPatientAppointments(
+    patientId: string,
+    fact: Parameters<SchedulingRuleFacts['count']>[0],
+    periodDays: number,
+    at: Date
+  ): Promise<number> {
+    const statusCondition = fact === 'patient.no_shows'
+      ? eq(appointments.status, 'noshow')
+      : fact === 'patient.cancellations'
+        ? eq(appointments.status, 'cancelled')
+        : ne(appointments.status, 'entered-in-error');
+
+    const [row] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(appointments)
+      .where(
+        and(
+          eq(appointments.patientId, patientId),
+          statusCondition,
+          gte(appointments.startDateTime, new Date(at.getTime() - periodDays * DAY_MS)),
+          lte(appointments.startDateTime, at)
+        )
+      );
+
+    return row?.count ?? 0;
+  }
 }
 
 // Singleton instance
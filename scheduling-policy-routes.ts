@@ -0,0 +1,301 @@
+/**
+ * Scheduling Policy Rule API Routes
+ *
+ * Management of organizations' executable scheduling policy rules, dry runs
+ * of rules against a sample booking or no-show, and the rule traces recorded
+ * for appointments.
+ */
+
+import express from 'express';
+import { z } from 'zod';
+import logger from '../../../server/utils/logger';
+import {
+  insertSchedulingPolicyRuleSchema,
+  schedulingRuleTriggers
+} from '../../../shared/scheduling-schema';
+import { schedulingMcpService } from './scheduling-mcp-service';
+import { SchedulingRuleError } from './scheduling-policy-rules';
+
+// Create a router
+const router = express.Router();
+
+// Middleware to check if the user is authenticated
+const isAuthenticated = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'Not authenticated' });
+  }
+  next();
+};
+
+/**
+ * Whether the user may manage and try out an organization's rules: admins and
+ * members of the organization
+ */
+function isOrganizationMember(req: express.Request, organizationId: string): boolean {
+  return req.user?.role === 'admin' ||
+    (req.user?.organizationId != null && String(req.user.organizationId) === organizationId);
+}
+
+// Expressions are stored as JSON text; clients may send them as objects
+const expressionSchema = z.union([z.string(), z.record(z.unknown())])
+  .transform(value => (typeof value === 'string' ? value : JSON.stringify(value)));
+
+const ruleExpressionsSchema = z.object({
+  conditionExpression: expressionSchema.optional(),
+  actionExpression: expressionSchema.optional()
+});
+
+const listRulesSchema = z.object({
+  organizationId: z.string().min(1),
+  trigger: z.enum(schedulingRuleTriggers).optional(),
+  effectiveAt: z.coerce.date().optional()
+});
+
+const dryRunSchema = z.object({
+  organizationId: z.string().min(1),
+  trigger: z.enum(schedulingRuleTriggers),
+  at: z.coerce.date().optional(), // Evaluate as of this time; defaults to now
+  context: z.object({
+    patientId: z.string().min(1),
+    appointmentType: z.string().optional(),
+    serviceType: z.string().optional(),
+    specialty: z.string().optional(),
+    providerId: z.string().optional(),
+    locationId: z.string().optional(),
+    startDateTime: z.coerce.date(),
+    endDateTime: z.coerce.date(),
+    payerId: z.string().optional(),
+    referralId: z.string().optional(),
+    isTelehealth: z.boolean().optional()
+  }),
+  // Draft rules to evaluate instead of the organization's stored rules
+  rules: z.array(z.object({
+    id: z.string().optional(),
+    name: z.string().min(1),
+    conditionExpression: expressionSchema,
+    actionExpression: expressionSchema,
+    priority: z.number().int().default(0)
+  })).optional()
+});
+
+/**
+ * @swagger
+ * /api/scheduling/policy/rules:
+ *   get:
+ *     summary: List an organization's scheduling policy rules
+ *     tags: [Scheduling Policy]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Pass effectiveAt to list only the active rules in effect at that time.
+ *     responses:
+ *       200:
+ *         description: Rules, highest priority first
+ *       400:
+ *         description: Invalid query
+ *       401:
+ *         description: Not authenticated
+ */
+router.get('/rules', isAuthenticated, async (req, res) => {
+  try {
+    const { organizationId, trigger, effectiveAt } = listRulesSchema.parse(req.query);
+    const rules = await schedulingMcpService.getPolicyRules(organizationId, { trigger, effectiveAt });
+    res.json(rules);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid rule query', errors: error.errors });
+    }
+
+    logger.error('Error listing scheduling policy rules', { error: (error as Error).message });
+    res.status(500).json({ message: 'Failed to list scheduling policy rules', error: (error as Error).message });
+  }
+});
+
+/**
+ * @swagger
+ * /api/scheduling/policy/rules:
+ *   post:
+ *     summary: Create a scheduling policy rule
+ *     tags: [Scheduling Policy]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Rule created
+ *       400:
+ *         description: Invalid rule, with the problems found in its expressions
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not an admin or a member of the organization
+ */
+router.post('/rules', isAuthenticated, async (req, res) => {
+  try {
+    const data = insertSchedulingPolicyRuleSchema.parse({
+      ...req.body,
+      ...ruleExpressionsSchema.parse(req.body),
+      createdBy: String(req.user!.id)
+    });
+    if (!isOrganizationMember(req, data.organizationId)) {
+      return res.status(403).json({ message: 'Forbidden: Not a member of this organization' });
+    }
+
+    const rule = await schedulingMcpService.createPolicyRule(data);
+    res.status(201).json(rule);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid scheduling policy rule', errors: error.errors });
+    }
+    if (error instanceof SchedulingRuleError) {
+      return res.status(400).json({ message: error.message, errors: error.issues });
+    }
+
+    logger.error('Error creating scheduling policy rule', { error: (error as Error).message });
+    res.status(500).json({ message: 'Failed to create scheduling policy rule', error: (error as Error).message });
+  }
+});
+
+/**
+ * @swagger
+ * /api/scheduling/policy/rules/{id}:
+ *   put:
+ *     summary: Update a scheduling policy rule
+ *     tags: [Scheduling Policy]
+ *     security:
+ *       - bearerAuth: []
+ *     description: To retire a rule without losing its history, set effectiveTo or active rather than deleting it.
+ *     responses:
+ *       200:
+ *         description: Updated rule
+ *       400:
+ *         description: Invalid rule, with the problems found in its expressions
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not an admin or a member of the rule's organization
+ *       404:
+ *         description: Rule not found
+ */
+router.put('/rules/:id', isAuthenticated, async (req, res) => {
+  try {
+    const data = insertSchedulingPolicyRuleSchema.partial().parse({
+      ...req.body,
+      ...ruleExpressionsSchema.parse(req.body)
+    });
+
+    const existing = await schedulingMcpService.getPolicyRule(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: 'Scheduling policy rule not found' });
+    }
+    // Moving a rule to another organization needs membership of both
+    if (
+      !isOrganizationMember(req, existing.organizationId) ||
+      (data.organizationId !== undefined && !isOrganizationMember(req, data.organizationId))
+    ) {
+      return res.status(403).json({ message: 'Forbidden: Not a member of this organization' });
+    }
+
+    const rule = await schedulingMcpService.updatePolicyRule(req.params.id, data);
+    if (!rule) {
+      return res.status(404).json({ message: 'Scheduling policy rule not found' });
+    }
+
+    res.json(rule);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid scheduling policy rule', errors: error.errors });
+    }
+    if (error instanceof SchedulingRuleError) {
+      return res.status(400).json({ message: error.message, errors: error.issues });
+    }
+
+    logger.error('Error updating scheduling policy rule', { error: (error as Error).message });
+    res.status(500).json({ message: 'Failed to update scheduling policy rule', error: (error as Error).message });
+  }
+});
+
+/**
+ * @swagger
+ * /api/scheduling/policy/rules/dry-run:
+ *   post:
+ *     summary: Evaluate policy rules against a sample booking or no-show
+ *     tags: [Scheduling Policy]
+ *     security:
+ *       - bearerAuth: []
+ *     description: >
+ *       Evaluates the organization's rules in effect at the given time (or
+ *       draft rules passed in the request) and returns the combined outcome and
+ *       a trace of every rule. Nothing is booked, charged or recorded. The
+ *       patient's appointment history is read, so members of the organization
+ *       may only use patients who have booked with it.
+ *     responses:
+ *       200:
+ *         description: Outcome and rule trace
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not an admin or a member of the organization, or not a patient of the organization
+ */
+router.post('/rules/dry-run', isAuthenticated, async (req, res) => {
+  try {
+    const { organizationId, trigger, at, context, rules } = dryRunSchema.parse(req.body);
+    if (!isOrganizationMember(req, organizationId)) {
+      return res.status(403).json({ message: 'Forbidden: Not a member of this organization' });
+    }
+    if (req.user?.role !== 'admin' && !(await schedulingMcpService.isOrganizationPatient(organizationId, context.patientId))) {
+      return res.status(403).json({ message: 'Forbidden: Not a patient of this organization' });
+    }
+
+    const result = await schedulingMcpService.dryRunPolicyRules(organizationId, trigger, context, {
+      at,
+      rules: rules?.map((rule, index) => ({ ...rule, id: rule.id || `draft-${index + 1}`, trigger }))
+    });
+    res.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid dry run request', errors: error.errors });
+    }
+
+    logger.error('Error dry running scheduling policy rules', { error: (error as Error).message });
+    res.status(500).json({ message: 'Failed to evaluate scheduling policy rules', error: (error as Error).message });
+  }
+});
+
+/**
+ * @swagger
+ * /api/scheduling/policy/appointments/{id}/rule-traces:
+ *   get:
+ *     summary: Get the policy rule traces recorded for an appointment
+ *     tags: [Scheduling Policy]
+ *     security:
+ *       - bearerAuth: []
+ *     description: >
+ *       Admins see every trace; other users see the traces of their own
+ *       appointments and those evaluated under their organization's rules.
+ *     responses:
+ *       200:
+ *         description: Traces of the booking and any no-show evaluation, oldest first
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not the user's appointment or organization
+ */
+router.get('/appointments/:id/rule-traces', isAuthenticated, async (req, res) => {
+  try {
+    const traces = await schedulingMcpService.getRuleTraces(req.params.id);
+    const visible = traces.filter(trace =>
+      trace.patientId === String(req.user!.id) || isOrganizationMember(req, trace.organizationId)
+    );
+    if (traces.length > 0 && visible.length === 0) {
+      return res.status(403).json({ message: 'Forbidden: Not your appointment' });
+    }
+
+    res.json(visible);
+  } catch (error) {
+    logger.error('Error getting scheduling rule traces', { error: (error as Error).message });
+    res.status(500).json({ message: 'Failed to get scheduling rule traces', error: (error as Error).message });
+  }
+});
+
+export default router;
@@ -0,0 +1,164 @@
+import {
+  evaluateSchedulingRules,
+  isRuleEffective,
+  parseSchedulingRule,
+  SchedulingRuleError,
+  type SchedulingRuleDefinition,
+  type SchedulingRuleFacts
+} from './scheduling-policy-rules';
+
+jest.mock('../../../shared/scheduling-schema', () => jest.requireActual('./scheduling-schema'), { virtual: true });
+
+const condition = (when: object) => JSON.stringify({ version: 1, when });
+const actions = (...list: object[]) => JSON.stringify({ version: 1, actions: list });
+
+const rule = (overrides: Partial<SchedulingRuleDefinition> = {}): SchedulingRuleDefinition => ({
+  id: 'rule-1',
+  name: 'Frequent no-shows',
+  trigger: 'booking',
+  conditionExpression: condition({ type: 'count', fact: 'patient.no_shows', operator: '>=', value: 2, periodDays: 180 }),
+  actionExpression: actions({ type: 'require_deposit', amount: 25 }),
+  priority: 0,
+  ...overrides
+});
+
+const facts = (overrides: Partial<SchedulingRuleFacts> = {}): SchedulingRuleFacts => ({
+  count: async () => 0,
+  number: () => 48,
+  value: () => undefined,
+  flag: () => false,
+  ...overrides
+});
+
+describe('parseSchedulingRule', () => {
+  it('reads the condition and actions of a valid rule', () => {
+    expect(parseSchedulingRule(rule())).toEqual({
+      condition: { version: 1, when: { type: 'count', fact: 'patient.no_shows', operator: '>=', value: 2, periodDays: 180 } },
+      actions: { version: 1, actions: [{ type: 'require_deposit', amount: 25 }] }
+    });
+  });
+
+  it('lists every problem found', () => {
+    const parse = () => parseSchedulingRule(rule({
+      conditionExpression: condition({ type: 'count', fact: 'patient.height', operator: '>=', value: 2, periodDays: 180 }),
+      actionExpression: '{ not json'
+    }));
+
+    expect(parse).toThrow(SchedulingRuleError);
+    try {
+      parse();
+    } catch (error) {
+      const { issues } = error as SchedulingRuleError;
+      expect(issues).toHaveLength(2);
+      expect(issues[0]).toMatch(/^condition\.when/);
+      expect(issues[1]).toMatch(/^actions: not valid JSON/);
+    }
+  });
+
+  it('refuses actions that do not belong to the trigger', () => {
+    expect(() => parseSchedulingRule(rule({ actionExpression: actions({ type: 'charge_fee', amount: 50 }) })))
+      .toThrow('charge_fee cannot be used in a booking rule');
+  });
+
+  it('refuses expressions nested too deeply', () => {
+    let when: object = { type: 'always' };
+    for (let i = 0; i < 12; i++) {
+      when = { type: 'not', clause: when };
+    }
+    expect(() => parseSchedulingRule(rule({ conditionExpression: condition(when) })))
+      .toThrow('nested more than 12 levels deep');
+  });
+});
+
+describe('isRuleEffective', () => {
+  const from = new Date('2024-03-01T00:00:00Z');
+  const to = new Date('2024-04-01T00:00:00Z');
+
+  it('applies from effectiveFrom up to but not including effectiveTo', () => {
+    expect(isRuleEffective({ active: true, effectiveFrom: from, effectiveTo: to }, new Date('2024-02-29T23:59:59Z'))).toBe(false);
+    expect(isRuleEffective({ active: true, effectiveFrom: from, effectiveTo: to }, from)).toBe(true);
+    expect(isRuleEffective({ active: true, effectiveFrom: from, effectiveTo: to }, to)).toBe(false);
+  });
+
+  it('is open-ended without effectiveTo, and never applies when inactive', () => {
+    expect(isRuleEffective({ active: true, effectiveFrom: from, effectiveTo: null }, new Date('2030-01-01T00:00:00Z'))).toBe(true);
+    expect(isRuleEffective({ active: false, effectiveFrom: from }, new Date('2024-03-15T00:00:00Z'))).toBe(false);
+  });
+});
+
+describe('evaluateSchedulingRules', () => {
+  it('fires a rule whose condition matches and explains why', async () => {
+    const { outcome, trace } = await evaluateSchedulingRules([rule()], 'booking', facts({ count: async () => 3 }));
+
+    expect(outcome).toEqual({ depositAmount: 25 });
+    expect(trace).toEqual([expect.objectContaining({
+      result: 'fired',
+      applied: ['require_deposit'],
+      explanation: 'Patient no-shows in the last 180 days: 3 (meets >= 2)'
+    })]);
+  });
+
+  it('lets the highest priority rule set each action, and stops at a deny', async () => {
+    const { outcome, trace } = await evaluateSchedulingRules([
+      rule({ id: 'low', name: 'Low', priority: 1, conditionExpression: condition({ type: 'always' }) }),
+      rule({ id: 'high', name: 'High', priority: 5, conditionExpression: condition({ type: 'always' }), actionExpression: actions({ type: 'require_deposit', amount: 100 }) }),
+      rule({ id: 'deny', name: 'Deny', priority: 3, conditionExpression: condition({ type: 'always' }), actionExpression: actions({ type: 'deny', message: 'Closed' }) })
+    ], 'booking', facts());
+
+    expect(outcome).toEqual({ depositAmount: 100, denied: { ruleId: 'deny', message: 'Closed' } });
+    expect(trace.map(entry => [entry.ruleId, entry.result])).toEqual([['high', 'fired'], ['deny', 'fired'], ['low', 'skipped']]);
+  });
+
+  it('fails closed on an unknown fact, applying only deny, prior auth and eligibility', async () => {
+    const { outcome, trace } = await evaluateSchedulingRules([
+      rule({
+        conditionExpression: condition({ type: 'number', fact: 'appointment.lead_time_hours', operator: '<', value: 24 }),
+        actionExpression: actions({ type: 'require_deposit', amount: 25 }, { type: 'require_prior_auth' })
+      })
+    ], 'booking', facts({ number: () => null }));
+
+    expect(outcome).toEqual({ requiresPriorAuth: true });
+    expect(trace[0]).toMatchObject({ result: 'unknown', applied: ['require_prior_auth'] });
+  });
+
+  it('decides a clause the unknown fact does not affect', async () => {
+    const { outcome } = await evaluateSchedulingRules([
+      rule({
+        conditionExpression: condition({
+          type: 'all',
+          clauses: [
+            { type: 'number', fact: 'appointment.lead_time_hours', operator: '<', value: 24 },
+            { type: 'flag', fact: 'appointment.telehealth', value: true }
+          ]
+        }),
+        actionExpression: actions({ type: 'require_prior_auth' })
+      })
+    ], 'booking', facts({ number: () => null, flag: () => false }));
+
+    expect(outcome).toEqual({});
+  });
+
+  it('denies a booking for review when a stored rule no longer parses', async () => {
+    const { outcome, trace } = await evaluateSchedulingRules([rule({ actionExpression: '{ not json' })], 'booking', facts());
+
+    expect(outcome.denied?.message).toContain('could not be decided, so the booking needs review');
+    expect(trace[0].result).toBe('error');
+  });
+
+  it('fails closed when a fact cannot be read', async () => {
+    const { outcome, trace } = await evaluateSchedulingRules([
+      rule({ actionExpression: actions({ type: 'deny', message: 'Too many no-shows' }) })
+    ], 'booking', facts({ count: async () => { throw new Error('database unavailable'); } }));
+
+    expect(outcome.denied?.message).toMatch(/^Too many no-shows \(rule "Frequent no-shows" could not be decided/);
+    expect(trace[0]).toMatchObject({ result: 'error', explanation: 'database unavailable' });
+  });
+
+  it('only evaluates rules for the trigger', async () => {
+    const { trace } = await evaluateSchedulingRules([
+      rule({ trigger: 'no_show', actionExpression: actions({ type: 'charge_fee', amount: 50 }) })
+    ], 'booking', facts());
+
+    expect(trace).toEqual([]);
+  });
+});
@@ -0,0 +1,430 @@
+/**
+ * Smart Health Hub - Scheduling Policy Rules
+ *
+ * Validation and evaluation of organization policy rules written in the
+ * scheduling rule language (see schedulingRuleConditionSchema and
+ * schedulingRuleActionsSchema). Rules are evaluated highest priority first;
+ * a deny stops evaluation, and for every other action the highest priority
+ * rule that sets it wins. Each evaluation returns a trace of what every rule
+ * did and why.
+ *
+ * A rule that can't be decided, because a fact it depends on is unknown or
+ * it fails to evaluate, fails closed: its deny, prior auth and eligibility
+ * actions still apply, so the booking is held for review rather than let through.
+ */
+
+import { z } from 'zod';
+import {
+  schedulingRuleConditionSchema,
+  schedulingRuleActionsSchema,
+  schedulingRuleCountFacts,
+  schedulingRuleNumberFacts,
+  schedulingRuleValueFacts,
+  schedulingRuleFlagFacts,
+  type SchedulingRuleAction,
+  type SchedulingRuleActions,
+  type SchedulingRuleClause,
+  type SchedulingRuleCondition,
+  type SchedulingRuleOutcome,
+  type SchedulingRuleTraceEntry,
+  type SchedulingRuleTrigger
+} from '../../../shared/scheduling-schema';
+
+type CountFact = (typeof schedulingRuleCountFacts)[number];
+type NumberFact = (typeof schedulingRuleNumberFacts)[number];
+type ValueFact = (typeof schedulingRuleValueFacts)[number];
+type FlagFact = (typeof schedulingRuleFlagFacts)[number];
+
+// Bounds on stored expressions, so evaluating a rule stays cheap
+const MAX_EXPRESSION_LENGTH = 10000;
+const MAX_EXPRESSION_DEPTH = 12;
+
+// Actions still applied when a rule can't be decided; fees and deposits are not charged on a guess
+const FAIL_CLOSED_ACTIONS: SchedulingRuleAction['type'][] = ['deny', 'require_prior_auth', 'require_eligibility'];
+
+// Triggers each action can be used with
+const ACTION_TRIGGERS: Record<SchedulingRuleAction['type'], SchedulingRuleTrigger[]> = {
+  deny: ['booking'],
+  require_deposit: ['booking'],
+  require_prior_auth: ['booking'],
+  require_eligibility: ['booking'],
+  charge_fee: ['no_show'],
+  restrict_booking: ['no_show']
+};
+
+const FACT_LABELS: Record<CountFact | NumberFact | ValueFact | FlagFact, string> = {
+  'patient.no_shows': 'Patient no-shows',
+  'patient.cancellations': 'Patient cancellations',
+  'patient.appointments': 'Patient appointments',
+  'appointment.lead_time_hours': 'Hours until the appointment',
+  'appointment.duration_minutes': 'Appointment duration in minutes',
+  'appointment.type': 'Appointment type',
+  'appointment.service_type': 'Service type',
+  'appointment.specialty': 'Specialty',
+  'appointment.provider_id': 'Provider',
+  'appointment.location_id': 'Location',
+  'patient.payer_id': 'Payer',
+  'appointment.telehealth': 'Telehealth appointment',
+  'appointment.has_referral': 'Referral attached'
+};
+
+export class SchedulingRuleError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(message);
+    this.name = 'SchedulingRuleError';
+  }
+}
+
+/**
+ * Facts about the patient and the appointment that rules are evaluated against
+ */
+export interface SchedulingRuleFacts {
+  count(fact: CountFact, periodDays: number): Promise<number>;
+  number(fact: NumberFact): number | null;
+  value(fact: ValueFact): string | null | undefined;
+  flag(fact: FlagFact): boolean;
+}
+
+// The parts of a stored rule (or a draft tried in a dry run) needed to evaluate it
+export interface SchedulingRuleDefinition {
+  id: string;
+  name: string;
+  trigger: string;
+  conditionExpression: string;
+  actionExpression: string;
+  priority: number;
+}
+
+export interface SchedulingRulesResult {
+  outcome: SchedulingRuleOutcome;
+  trace: SchedulingRuleTraceEntry[];
+}
+
+// Whether a clause matched; null when a fact it depends on is unknown
+interface ClauseResult {
+  matched: boolean | null;
+  description: string;
+}
+
+/**
+ * Parse and validate a rule's expressions before it is saved
+ * @throws SchedulingRuleError listing every problem found
+ */
+export function parseSchedulingRule(rule: Pick<SchedulingRuleDefinition, 'trigger' | 'conditionExpression' | 'actionExpression'>): {
+  condition: SchedulingRuleCondition;
+  actions: SchedulingRuleActions;
+} {
+  const issues: string[] = [];
+
+  const condition = parseDocument(rule.conditionExpression, 'condition', schedulingRuleConditionSchema, issues);
+  const actions = parseDocument(rule.actionExpression, 'actions', schedulingRuleActionsSchema, issues);
+
+  if (actions) {
+    actions.actions.forEach((action, index) => {
+      if (!ACTION_TRIGGERS[action.type].includes(rule.trigger as SchedulingRuleTrigger)) {
+        issues.push(`actions.actions.${index}: ${action.type} cannot be used in a ${rule.trigger} rule`);
+      }
+    });
+  }
+
+  if (issues.length > 0 || !condition || !actions) {
+    throw new SchedulingRuleError(`Invalid scheduling rule: ${issues.join('; ')}`, issues);
+  }
+
+  return { condition, actions };
+}
+
+/**
+ * Whether a rule applies at a point in time
+ */
+export function isRuleEffective(
+  rule: { active: boolean; effectiveFrom: Date; effectiveTo?: Date | null },
+  at: Date
+): boolean {
+  return rule.active &&
+    new Date(rule.effectiveFrom) <= at &&
+    (!rule.effectiveTo || new Date(rule.effectiveTo) > at);
+}
+
+/**
+ * Evaluate rules for a trigger, highest priority first. Rules whose
+ * expressions no longer validate, or whose facts can't be read, are recorded
+ * as errors in the trace; like rules that depend on an unknown fact, they
+ * fail closed.
+ */
+export async function evaluateSchedulingRules(
+  rules: SchedulingRuleDefinition[],
+  trigger: SchedulingRuleTrigger,
+  facts: SchedulingRuleFacts
+): Promise<SchedulingRulesResult> {
+  const ordered = rules
+    .filter(rule => rule.trigger === trigger)
+    .sort((a, b) => b.priority - a.priority || a.name.localeCompare(b.name));
+
+  const outcome: SchedulingRuleOutcome = {};
+  const trace: SchedulingRuleTraceEntry[] = [];
+
+  for (const rule of ordered) {
+    const entry: SchedulingRuleTraceEntry = {
+      ruleId: rule.id,
+      name: rule.name,
+      priority: rule.priority,
+      result: 'not_matched',
+      explanation: '',
+      applied: []
+    };
+    trace.push(entry);
+
+    if (outcome.denied) {
+      entry.result = 'skipped';
+      entry.explanation = `Booking already denied by rule ${outcome.denied.ruleId}`;
+      continue;
+    }
+
+    let actions: SchedulingRuleActions | null = null;
+    let matched: ClauseResult;
+    try {
+      const parsed = parseSchedulingRule(rule);
+      actions = parsed.actions;
+      matched = await evaluateClause(parsed.condition.when, facts);
+    } catch (error) {
+      entry.result = 'error';
+      entry.explanation = (error as Error).message;
+      failClosed(outcome, entry, rule, actions);
+      continue;
+    }
+
+    entry.explanation = matched.description;
+    if (matched.matched === null) {
+      entry.result = 'unknown';
+      failClosed(outcome, entry, rule, actions);
+      continue;
+    }
+
+    if (!matched.matched) {
+      continue;
+    }
+
+    entry.result = 'fired';
+    for (const action of actions.actions) {
+      if (applyAction(outcome, action, rule.id)) {
+        entry.applied.push(action.type);
+      }
+    }
+  }
+
+  return { outcome, trace };
+}
+
+/**
+ * Apply the fail-closed actions of a rule that couldn't be decided. A booking
+ * rule whose actions can't be read at all denies the booking for review.
+ */
+function failClosed(
+  outcome: SchedulingRuleOutcome,
+  entry: SchedulingRuleTraceEntry,
+  rule: SchedulingRuleDefinition,
+  actions: SchedulingRuleActions | null
+): void {
+  const review = `rule "${rule.name}" could not be decided, so the booking needs review`;
+
+  const applied = actions
+    ? actions.actions.filter(action => FAIL_CLOSED_ACTIONS.includes(action.type))
+    : rule.trigger === 'booking' ? [{ type: 'deny' as const, message: review }] : [];
+
+  for (const action of applied) {
+    const effective = action.type === 'deny' && actions ? { ...action, message: `${action.message} (${review})` } : action;
+    if (applyAction(outcome, effective, rule.id)) {
+      entry.applied.push(action.type);
+    }
+  }
+}
+
+/**
+ * Apply an action unless a higher priority rule already set its effect
+ * @returns whether the action took effect
+ */
+function applyAction(outcome: SchedulingRuleOutcome, action: SchedulingRuleAction, ruleId: string): boolean {
+  switch (action.type) {
+    case 'deny':
+      if (outcome.denied) return false;
+      outcome.denied = { ruleId, message: action.message };
+      return true;
+
+    case 'require_deposit':
+      if (outcome.depositAmount !== undefined) return false;
+      outcome.depositAmount = action.amount;
+      return true;
+
+    case 'require_prior_auth':
+      if (outcome.requiresPriorAuth) return false;
+      outcome.requiresPriorAuth = true;
+      return true;
+
+    case 'require_eligibility':
+      if (outcome.requiresEligibility) return false;
+      outcome.requiresEligibility = true;
+      return true;
+
+    case 'charge_fee':
+      if (outcome.fee !== undefined) return false;
+      outcome.fee = action.amount;
+      return true;
+
+    case 'restrict_booking':
+      if (outcome.restrictionDays !== undefined) return false;
+      outcome.restrictionDays = action.days;
+      return true;
+  }
+}
+
+/**
+ * Evaluate a clause; the description explains the facts it was decided on.
+ * Unknown facts make a clause unknown unless the rest of it decides the result.
+ */
+async function evaluateClause(
+  clause: SchedulingRuleClause,
+  facts: SchedulingRuleFacts
+): Promise<ClauseResult> {
+  switch (clause.type) {
+    case 'all': {
+      const results = await Promise.all(clause.clauses.map(child => evaluateClause(child, facts)));
+      return {
+        matched: results.some(result => result.matched === false)
+          ? false
+          : results.some(result => result.matched === null) ? null : true,
+        description: results.map(result => result.description).join(' and ')
+      };
+    }
+
+    case 'any': {
+      const results = await Promise.all(clause.clauses.map(child => evaluateClause(child, facts)));
+      return {
+        matched: results.some(result => result.matched === true)
+          ? true
+          : results.some(result => result.matched === null) ? null : false,
+        description: `either ${results.map(result => result.description).join(' or ')}`
+      };
+    }
+
+    case 'not': {
+      const inner = await evaluateClause(clause.clause, facts);
+      return { matched: inner.matched === null ? null : !inner.matched, description: `not (${inner.description})` };
+    }
+
+    case 'always':
+      return { matched: true, description: 'Applies to every appointment' };
+
+    case 'count': {
+      const actual = await facts.count(clause.fact, clause.periodDays);
+      const matched = compare(actual, clause.operator, clause.value);
+      return {
+        matched,
+        description: `${FACT_LABELS[clause.fact]} in the last ${clause.periodDays} days: ${actual} ` +
+          `(${matched ? 'meets' : 'does not meet'} ${clause.operator} ${clause.value})`
+      };
+    }
+
+    case 'number': {
+      const actual = facts.number(clause.fact);
+      if (actual === null) {
+        return { matched: null, description: `${FACT_LABELS[clause.fact]} is unknown` };
+      }
+
+      const rounded = Math.round(actual * 100) / 100;
+      const matched = compare(actual, clause.operator, clause.value);
+      return {
+        matched,
+        description: `${FACT_LABELS[clause.fact]}: ${rounded} ` +
+          `(${matched ? 'meets' : 'does not meet'} ${clause.operator} ${clause.value})`
+      };
+    }
+
+    case 'value': {
+      const actual = facts.value(clause.fact);
+      const listed = clause.values.map(value => `"${value}"`).join(', ');
+      const requirement = clause.operator === 'in' ? `one of ${listed}` : `none of ${listed}`;
+
+      if (!actual) {
+        return {
+          matched: clause.operator === 'not_in',
+          description: `${FACT_LABELS[clause.fact]} is not set (rule expects ${requirement})`
+        };
+      }
+
+      const listedMatch = clause.values.some(value => value.toLowerCase() === actual.toLowerCase());
+      const matched = clause.operator === 'in' ? listedMatch : !listedMatch;
+      return {
+        matched,
+        description: `${FACT_LABELS[clause.fact]} is "${actual}" (${matched ? 'is' : 'is not'} ${requirement})`
+      };
+    }
+
+    case 'flag': {
+      const actual = facts.flag(clause.fact);
+      return {
+        matched: actual === clause.value,
+        description: `${FACT_LABELS[clause.fact]}: ${actual ? 'yes' : 'no'}`
+      };
+    }
+  }
+}
+
+/**
+ * Parse a JSON document and validate it, collecting issues prefixed with its name
+ */
+function parseDocument<T>(
+  expression: string,
+  name: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  issues: string[]
+): T | null {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    issues.push(`${name}: expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+    return null;
+  }
+
+  let input: unknown;
+  try {
+    input = JSON.parse(expression);
+  } catch (error) {
+    issues.push(`${name}: not valid JSON (${(error as Error).message})`);
+    return null;
+  }
+
+  if (depth(input) > MAX_EXPRESSION_DEPTH) {
+    issues.push(`${name}: expression is nested more than ${MAX_EXPRESSION_DEPTH} levels deep`);
+    return null;
+  }
+
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    issues.push(...result.error.issues.map(issue =>
+      `${[name, ...issue.path].join('.')}: ${issue.message}`
+    ));
+    return null;
+  }
+
+  return result.data;
+}
+
+// Nesting depth of a parsed JSON value; objects add a level, arrays don't
+function depth(value: unknown, level: number = 0): number {
+  if (level > MAX_EXPRESSION_DEPTH || value === null || typeof value !== 'object') {
+    return level;
+  }
+
+  const children = Array.isArray(value) ? value : Object.values(value as Record<string, unknown>);
+  const nested = Array.isArray(value) ? level : level + 1;
+  return children.reduce<number>((max, child) => Math.max(max, depth(child, nested)), nested);
+}
+
+function compare(actual: number, operator: string, expected: number): boolean {
+  switch (operator) {
+    case '>=': return actual >= expected;
+    case '>': return actual > expected;
+    case '<=': return actual <= expected;
+    case '<': return actual < expected;
+    default: return actual === expected;
+  }
+}
@@ -89,6 +89,38 @@ export const specialtyEnum = pgEnum('specialty', [
   'other'               // Other specialties
 ]);
 
+/**
+ * Waitlist entry status values
+ */
+export const waitlistEntryStatusEnum = pgEnum('waitlist_entry_status', [
+  'waiting',    // Waiting for a matching slot
+  'offered',    // A slot is currently held for this entry
+  'booked',     // An offered slot was accepted and booked
+  'cancelled',  // Patient left the waitlist
+  'expired'     // Date window passed without a booking
+]);
+
+/**
+ * Waitlist offer status values
+ */
+export const waitlistOfferStatusEnum = pgEnum('waitlist_offer_status', [
+  'pending',    // Slot is held awaiting the patient's response
+  'accepted',   // Patient accepted and the appointment was booked
+  'declined',   // Patient declined the offer
+  'expired',    // Hold lapsed without a response
+  'failed'      // Patient accepted but booking validation failed
+]);
+
+/**
+ * Scheduling resource types
+ */
+export const schedulingResourceTypeEnum = pgEnum('scheduling_resource_type', [
+  'room',       // Exam room, procedure room, class room
+  'equipment',  // E.g., an ultrasound machine
+  'provider',   // An additional provider, e.g., for multi-provider visits
+  'staff'       // Other staff, e.g., an interpreter or nurse
+]);
+
 // ---------- Tables ----------
 
 /**
@@ -108,6 +140,8 @@ export const schedules = pgTable('schedules', {
   minmaxPatients: text('minmax_patients'), // Min and max patients per slot (e.g., "1:1" or "1:2")
   comments: text('comments'), // Additional comments
   planningHorizonDays: integer('planning_horizon_days'), // How many days in advance to create slots
+  timeZone: text('time_zone').notNull().default('UTC'), // IANA time zone slots are generated in (e.g., "America/Chicago")
+  resourceRequirements: json('resource_requirements').$type<ResourceRequirement[]>(), // Resources every appointment on this schedule needs besides the provider
   mcpModelRef: text('mcp_model_ref'), // Reference to MCP model if applicable
   mcpVersion: text('mcp_version'), // Version of MCP model
   customData: json('custom_data'), // For partner-specific extensions
@@ -122,9 +156,13 @@ export const schedules = pgTable('schedules', {
 export const scheduleRecurrenceRules = pgTable('schedule_recurrence_rules', {
   id: text('id').primaryKey(), // UUID
   scheduleId: text('schedule_id').notNull().references(() => schedules.id, { onDelete: 'cascade' }),
-  daysOfWeek: text('days_of_week').notNull(), // Comma-separated list of days (1-7, Monday is 1)
-  startTime: text('start_time').notNull(), // e.g., "09:00"
-  endTime: text('end_time').notNull(), // e.g., "17:00"
+  daysOfWeek: text('days_of_week'), // Comma-separated list of days (1-7, Monday is 1); used when rrule is not set
+  rrule: text('rrule'), // RFC 5545 RRULE for the days this pattern applies (e.g., "FREQ=MONTHLY;BYDAY=1MO")
+  exrule: text('exrule'), // RFC 5545 EXRULE for days excluded from the pattern
+  rdates: json('rdates').$type<string[]>(), // Extra dates (RDATE), e.g. "20250107" or "2025-01-07"
+  exdates: json('exdates').$type<string[]>(), // Excluded dates (EXDATE)
+  startTime: text('start_time').notNull(), // Local time in the schedule's time zone, e.g., "09:00"
+  endTime: text('end_time').notNull(), // Local time in the schedule's time zone, e.g., "17:00"
   slotDurationMinutes: integer('slot_duration_minutes').notNull(), // Length of each slot
   effectiveFrom: timestamp('effective_from'), // When this pattern starts
   effectiveTo: timestamp('effective_to'), // When this pattern ends
@@ -143,6 +181,8 @@ export const scheduleBlackoutPeriods = pgTable('schedule_blackout_periods', {
   startDateTime: timestamp('start_date_time').notNull(),
   endDateTime: timestamp('end_date_time').notNull(),
   reason: text('reason'),
+  source: text('source'), // Where an imported blackout came from (e.g., "calendar:<connectionId>"); null if entered manually
+  externalEventId: text('external_event_id'), // UID of the external calendar event behind an imported blackout; UID;occurrence start for a recurring event
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at')
 });
@@ -222,6 +262,72 @@ export const appointmentHistory = pgTable('appointment_history', {
   notes: text('notes') // Additional notes
 });
 
+/**
+ * Waitlist Entries
+ * Patients waiting for a slot matching their constraints to free up
+ */
+export const waitlistEntries = pgTable('waitlist_entries', {
+  id: text('id').primaryKey(), // UUID
+  patientId: text('patient_id').notNull(), // Reference to patient
+  providerId: text('provider_id'), // Required provider (any provider if not set)
+  locationId: text('location_id'), // Required location (any location if not set)
+  serviceType: text('service_type'), // Required service type (any service if not set)
+  appointmentType: appointmentTypeEnum('appointment_type').notNull(), // Type used when booking
+  earliestDate: timestamp('earliest_date'), // Start of the acceptable date window
+  latestDate: timestamp('latest_date'), // End of the acceptable date window
+  minNoticeHours: integer('min_notice_hours').default(0).notNull(), // Earliest notice the patient needs before a slot
+  priority: integer('priority').default(0).notNull(), // Higher priority entries are offered first
+  status: waitlistEntryStatusEnum('status').default('waiting').notNull(),
+  reason: text('reason'), // Reason for visit, passed through to the booking
+  payerId: text('payer_id'), // Patient's insurance, passed through to the booking
+  referralId: text('referral_id'),
+  orderId: text('order_id'),
+  organizationId: text('organization_id'), // Organization whose MCP policy applies to the booking
+  appointmentId: text('appointment_id'), // Appointment booked from this entry
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at')
+});
+
+/**
+ * Waitlist Offers
+ * A freed slot held for a waitlist entry until the offer is answered or expires
+ */
+export const waitlistOffers = pgTable('waitlist_offers', {
+  id: text('id').primaryKey(), // UUID
+  waitlistEntryId: text('waitlist_entry_id').notNull().references(() => waitlistEntries.id, { onDelete: 'cascade' }),
+  slotId: text('slot_id').notNull().references(() => slots.id, { onDelete: 'cascade' }),
+  status: waitlistOfferStatusEnum('status').default('pending').notNull(),
+  expiresAt: timestamp('expires_at').notNull(), // When the hold lapses and the slot rolls to the next entry
+  respondedAt: timestamp('responded_at'),
+  appointmentId: text('appointment_id'), // Appointment booked on acceptance
+  failureReason: text('failure_reason'), // Why booking failed on acceptance
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at')
+});
+
+/**
+ * Calendar Connections
+ * A user's external CalDAV calendar that appointments are pushed to and,
+ * for providers, busy times are pulled from
+ */
+export const calendarConnections = pgTable('calendar_connections', {
+  id: text('id').primaryKey(), // UUID
+  userId: text('user_id').notNull(), // User who owns the calendar
+  calendarUrl: text('calendar_url').notNull(), // CalDAV calendar collection URL
+  credentials: json('credentials').$type<{
+    username?: string;
+    password?: string;
+    bearerToken?: string;
+  }>(),
+  providerId: text('provider_id'), // Provider whose schedules receive busy times as blackouts
+  pullBusyTimes: boolean('pull_busy_times').default(false).notNull(),
+  lastBusyPullAt: timestamp('last_busy_pull_at'),
+  lastError: text('last_error'), // Last connection-level failure (e.g., busy time pull)
+  isActive: boolean('is_active').default(true).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at')
+});
+
 /**
  * Calendar Sync Data
  * For tracking calendar integration
@@ -230,11 +336,89 @@ export const calendarSync = pgTable('calendar_sync', {
   id: text('id').primaryKey(), // UUID
   appointmentId: text('appointment_id').notNull().references(() => appointments.id, { onDelete: 'cascade' }),
   userId: text('user_id').notNull(), // User whose calendar was synced
-  calendarProvider: text('calendar_provider').notNull(), // e.g., "google", "outlook"
-  externalEventId: text('external_event_id'), // ID in external calendar
-  syncStatus: text('sync_status').notNull(), // e.g., "synced", "failed"
+  calendarProvider: text('calendar_provider').notNull(), // "caldav", or "ics" for the subscription feed
+  connectionId: text('connection_id').references(() => calendarConnections.id, { onDelete: 'set null' }), // CalDAV connection pushed to
+  externalEventId: text('external_event_id'), // iCalendar UID of the event in the external calendar
+  etag: text('etag'), // ETag of the event last written, for detecting external edits
+  sequence: integer('sequence').default(0).notNull(), // iCalendar SEQUENCE of the event last written
+  syncStatus: text('sync_status').notNull(), // "pending", "synced", "failed" or "conflict"
   lastSyncAt: timestamp('last_sync_at').notNull(),
-  errorMessage: text('error_message') // If sync failed
+  errorMessage: text('error_message'), // If sync failed
+  conflictDetails: json('conflict_details') // What differed when the external event was changed outside SHH
+});
+
+/**
+ * Scheduling Resources
+ * Rooms, equipment and additional providers or staff that appointments can
+ * require besides the schedule's provider
+ */
+export const schedulingResources = pgTable('scheduling_resources', {
+  id: text('id').primaryKey(), // UUID
+  name: text('name').notNull(), // E.g., "Exam Room 3" or "Ultrasound 1"
+  resourceType: schedulingResourceTypeEnum('resource_type').notNull(),
+  locationId: text('location_id'), // Where the resource is
+  providerId: text('provider_id'), // For provider resources, whose own appointments also make it busy
+  capacity: integer('capacity').default(1).notNull(), // Reservations the resource can hold at the same time
+  isActive: boolean('is_active').default(true).notNull(),
+  customData: json('custom_data'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at')
+});
+
+/**
+ * Resource Reservations
+ * A resource held for a slot's time. Appointments in the same slot (e.g., a
+ * group class) share the slot's reservations.
+ */
+export const resourceReservations = pgTable('resource_reservations', {
+  id: text('id').primaryKey(), // UUID
+  resourceId: text('resource_id').notNull().references(() => schedulingResources.id, { onDelete: 'cascade' }),
+  slotId: text('slot_id').references(() => slots.id, { onDelete: 'cascade' }),
+  appointmentId: text('appointment_id').references(() => appointments.id, { onDelete: 'set null' }), // Appointment whose booking made the reservation
+  startDateTime: timestamp('start_date_time').notNull(),
+  endDateTime: timestamp('end_date_time').notNull(),
+  status: text('status').default('active').notNull(), // "active" or "released"
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at')
+});
+
+/**
+ * Scheduling Policy Rules
+ * An organization's executable policy rules, written in the scheduling rule
+ * language (see schedulingRuleConditionSchema and schedulingRuleActionsSchema)
+ */
+export const schedulingPolicyRules = pgTable('scheduling_policy_rules', {
+  id: text('id').primaryKey(), // UUID
+  organizationId: text('organization_id').notNull(), // Organization the rule belongs to
+  name: text('name').notNull(),
+  description: text('description'),
+  trigger: text('trigger').notNull(), // "booking" or "no_show"
+  conditionExpression: text('condition_expression').notNull(), // JSON condition document
+  actionExpression: text('action_expression').notNull(), // JSON actions document
+  priority: integer('priority').default(0).notNull(), // Higher priority rules are evaluated first
+  active: boolean('active').default(true).notNull(),
+  effectiveFrom: timestamp('effective_from').defaultNow().notNull(), // When the rule starts applying
+  effectiveTo: timestamp('effective_to'), // When the rule stops applying (exclusive); open-ended if not set
+  createdBy: text('created_by'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at')
+});
+
+/**
+ * Scheduling Rule Traces
+ * The policy rules evaluated for a booking or no-show, which of them fired
+ * and the combined outcome
+ */
+export const schedulingRuleTraces = pgTable('scheduling_rule_traces', {
+  id: text('id').primaryKey(), // UUID
+  organizationId: text('organization_id').notNull(),
+  trigger: text('trigger').notNull(), // "booking" or "no_show"
+  patientId: text('patient_id').notNull(),
+  slotId: text('slot_id'), // Slot being booked
+  appointmentId: text('appointment_id').references(() => appointments.id, { onDelete: 'cascade' }), // Set once the booking is created
+  outcome: json('outcome').$type<SchedulingRuleOutcome>().notNull(),
+  rules: json('rules').$type<SchedulingRuleTraceEntry[]>().notNull(),
+  evaluatedAt: timestamp('evaluated_at').defaultNow().notNull()
 });
 
 // ---------- Relations ----------
@@ -265,6 +449,221 @@ export const appointmentsRelations = relations(appointments, ({ one, many }) =>
   calendarSyncRecords: many(calendarSync)
 }));
 
+export const calendarConnectionsRelations = relations(calendarConnections, ({ many }) => ({
+  syncRecords: many(calendarSync)
+}));
+
+export const calendarSyncRelations = relations(calendarSync, ({ one }) => ({
+  appointment: one(appointments, {
+    fields: [calendarSync.appointmentId],
+    references: [appointments.id]
+  }),
+  connection: one(calendarConnections, {
+    fields: [calendarSync.connectionId],
+    references: [calendarConnections.id]
+  })
+}));
+
+export const waitlistEntriesRelations = relations(waitlistEntries, ({ many }) => ({
+  offers: many(waitlistOffers)
+}));
+
+export const waitlistOffersRelations = relations(waitlistOffers, ({ one }) => ({
+  entry: one(waitlistEntries, {
+    fields: [waitlistOffers.waitlistEntryId],
+    references: [waitlistEntries.id]
+  }),
+  slot: one(slots, {
+    fields: [waitlistOffers.slotId],
+    references: [slots.id]
+  })
+}));
+
+export const schedulingResourcesRelations = relations(schedulingResources, ({ many }) => ({
+  reservations: many(resourceReservations)
+}));
+
+export const resourceReservationsRelations = relations(resourceReservations, ({ one }) => ({
+  resource: one(schedulingResources, {
+    fields: [resourceReservations.resourceId],
+    references: [schedulingResources.id]
+  }),
+  slot: one(slots, {
+    fields: [resourceReservations.slotId],
+    references: [slots.id]
+  }),
+  appointment: one(appointments, {
+    fields: [resourceReservations.appointmentId],
+    references: [appointments.id]
+  })
+}));
+
+export const schedulingRuleTracesRelations = relations(schedulingRuleTraces, ({ one }) => ({
+  appointment: one(appointments, {
+    fields: [schedulingRuleTraces.appointmentId],
+    references: [appointments.id]
+  })
+}));
+
+// ---------- Resource Requirements ----------
+
+// One resource an appointment needs: any one of the listed resources will do,
+// e.g. { label: 'Exam room', resourceIds: [room1, room2] }
+export interface ResourceRequirement {
+  label?: string;
+  resourceIds: string[];
+}
+
+export const resourceRequirementSchema = z.object({
+  label: z.string().optional(),
+  resourceIds: z.array(z.string().min(1)).min(1)
+});
+
+// ---------- Scheduling Rule Language ----------
+
+// Stored in scheduling_policy_rules.condition_expression / action_expression
+//
+// Both are versioned JSON documents. A condition is an expression tree over a
+// fixed set of typed facts about the patient and the appointment, and actions
+// come from a fixed list, so a rule can't run code or read anything else.
+// Count facts are over the last periodDays before evaluation.
+export const SCHEDULING_RULE_VERSION = 1;
+
+export const schedulingRuleTriggers = ['booking', 'no_show'] as const;
+
+export const schedulingRuleCountFacts = [
+  'patient.no_shows', // Appointments the patient did not show up for
+  'patient.cancellations', // Appointments cancelled
+  'patient.appointments' // Appointments of any status
+] as const;
+
+export const schedulingRuleNumberFacts = [
+  'appointment.lead_time_hours', // Hours from evaluation until the appointment starts
+  'appointment.duration_minutes'
+] as const;
+
+export const schedulingRuleValueFacts = [
+  'appointment.type',
+  'appointment.service_type',
+  'appointment.specialty',
+  'appointment.provider_id',
+  'appointment.location_id',
+  'patient.payer_id'
+] as const;
+
+export const schedulingRuleFlagFacts = [
+  'appointment.telehealth',
+  'appointment.has_referral'
+] as const;
+
+export type SchedulingRuleTrigger = (typeof schedulingRuleTriggers)[number];
+
+export type SchedulingRuleClause =
+  | { type: 'all'; clauses: SchedulingRuleClause[] }
+  | { type: 'any'; clauses: SchedulingRuleClause[] }
+  | { type: 'not'; clause: SchedulingRuleClause }
+  | { type: 'always' }
+  | {
+      type: 'count';
+      fact: (typeof schedulingRuleCountFacts)[number];
+      operator: '>=' | '>' | '<=' | '<' | '=';
+      value: number;
+      periodDays: number;
+    }
+  | {
+      type: 'number';
+      fact: (typeof schedulingRuleNumberFacts)[number];
+      operator: '>=' | '>' | '<=' | '<' | '=';
+      value: number;
+    }
+  | {
+      type: 'value';
+      fact: (typeof schedulingRuleValueFacts)[number];
+      operator: 'in' | 'not_in';
+      values: string[];
+    }
+  | {
+      type: 'flag';
+      fact: (typeof schedulingRuleFlagFacts)[number];
+      value: boolean;
+    };
+
+export const schedulingRuleClauseSchema: z.ZodType<SchedulingRuleClause> = z.lazy(() =>
+  z.discriminatedUnion('type', [
+    z.object({ type: z.literal('all'), clauses: z.array(schedulingRuleClauseSchema).min(1) }),
+    z.object({ type: z.literal('any'), clauses: z.array(schedulingRuleClauseSchema).min(1) }),
+    z.object({ type: z.literal('not'), clause: schedulingRuleClauseSchema }),
+    z.object({ type: z.literal('always') }),
+    z.object({
+      type: z.literal('count'),
+      fact: z.enum(schedulingRuleCountFacts),
+      operator: z.enum(['>=', '>', '<=', '<', '=']),
+      value: z.number().int().min(0),
+      periodDays: z.number().int().min(1).max(3650)
+    }),
+    z.object({
+      type: z.literal('number'),
+      fact: z.enum(schedulingRuleNumberFacts),
+      operator: z.enum(['>=', '>', '<=', '<', '=']),
+      value: z.number()
+    }),
+    z.object({
+      type: z.literal('value'),
+      fact: z.enum(schedulingRuleValueFacts),
+      operator: z.enum(['in', 'not_in']),
+      values: z.array(z.string().min(1)).min(1)
+    }),
+    z.object({
+      type: z.literal('flag'),
+      fact: z.enum(schedulingRuleFlagFacts),
+      value: z.boolean()
+    })
+  ])
+);
+
+export const schedulingRuleActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('deny'), message: z.string().min(1) }), // booking
+  z.object({ type: z.literal('require_deposit'), amount: z.number().positive() }), // booking
+  z.object({ type: z.literal('require_prior_auth') }), // booking
+  z.object({ type: z.literal('require_eligibility') }), // booking
+  z.object({ type: z.literal('charge_fee'), amount: z.number().positive() }), // no_show
+  z.object({ type: z.literal('restrict_booking'), days: z.number().int().min(1).max(3650) }) // no_show
+]);
+
+export const schedulingRuleConditionSchema = z.object({
+  version: z.literal(SCHEDULING_RULE_VERSION),
+  when: schedulingRuleClauseSchema
+});
+
+export const schedulingRuleActionsSchema = z.object({
+  version: z.literal(SCHEDULING_RULE_VERSION),
+  actions: z.array(schedulingRuleActionSchema).min(1)
+});
+
+export type SchedulingRuleAction = z.infer<typeof schedulingRuleActionSchema>;
+export type SchedulingRuleCondition = z.infer<typeof schedulingRuleConditionSchema>;
+export type SchedulingRuleActions = z.infer<typeof schedulingRuleActionsSchema>;
+
+// Combined effect of the rules that fired
+export interface SchedulingRuleOutcome {
+  denied?: { ruleId: string; message: string };
+  depositAmount?: number;
+  requiresPriorAuth?: boolean;
+  requiresEligibility?: boolean;
+  fee?: number;
+  restrictionDays?: number;
+}
+
+// What happened to one rule during an evaluation
+export interface SchedulingRuleTraceEntry {
+  ruleId: string;
+  name: string;
+  priority: number;
+  result: 'fired' | 'not_matched' | 'unknown' | 'skipped' | 'error'; // unknown: depends on a fact that isn't known; skipped: a higher priority rule denied the booking
+  explanation: string;
+  applied: SchedulingRuleAction['type'][]; // Actions that took effect; the rest were already set by higher priority rules
+}
+
 // ---------- Zod Schemas ----------
 
 // Select schemas
@@ -275,9 +674,18 @@ export const selectRecurrenceRuleSchema = createSelectSchema(scheduleRecurrenceR
 export const selectBlackoutPeriodSchema = createSelectSchema(scheduleBlackoutPeriods);
 export const selectAppointmentHistorySchema = createSelectSchema(appointmentHistory);
 export const selectCalendarSyncSchema = createSelectSchema(calendarSync);
+export const selectCalendarConnectionSchema = createSelectSchema(calendarConnections);
+export const selectWaitlistEntrySchema = createSelectSchema(waitlistEntries);
+export const selectWaitlistOfferSchema = createSelectSchema(waitlistOffers);
+export const selectSchedulingResourceSchema = createSelectSchema(schedulingResources);
+export const selectResourceReservationSchema = createSelectSchema(resourceReservations);
+export const selectSchedulingPolicyRuleSchema = createSelectSchema(schedulingPolicyRules);
+export const selectSchedulingRuleTraceSchema = createSelectSchema(schedulingRuleTraces);
 
 // Insert schemas
-export const insertScheduleSchema = createInsertSchema(schedules)
+export const insertScheduleSchema = createInsertSchema(schedules, {
+  resourceRequirements: z.array(resourceRequirementSchema).nullable().optional()
+})
   .omit({ createdAt: true, updatedAt: true });
 
 export const insertSlotSchema = createInsertSchema(slots)
@@ -297,6 +705,25 @@ export const insertAppointmentHistorySchema = createInsertSchema(appointmentHist
 
 export const insertCalendarSyncSchema = createInsertSchema(calendarSync);
 
+export const insertCalendarConnectionSchema = createInsertSchema(calendarConnections)
+  .omit({ lastBusyPullAt: true, lastError: true, createdAt: true, updatedAt: true });
+
+export const insertWaitlistEntrySchema = createInsertSchema(waitlistEntries)
+  .omit({ status: true, appointmentId: true, createdAt: true, updatedAt: true });
+
+export const insertWaitlistOfferSchema = createInsertSchema(waitlistOffers)
+  .omit({ createdAt: true, updatedAt: true });
+
+export const insertSchedulingResourceSchema = createInsertSchema(schedulingResources, {
+  capacity: z.number().int().min(1).optional()
+})
+  .omit({ createdAt: true, updatedAt: true });
+
+export const insertSchedulingPolicyRuleSchema = createInsertSchema(schedulingPolicyRules, {
+  trigger: z.enum(schedulingRuleTriggers)
+})
+  .omit({ id: true, createdAt: true, updatedAt: true });
+
 // ---------- Types ----------
 
 // Select types
@@ -307,6 +734,13 @@ export type RecurrenceRule = z.infer<typeof selectRecurrenceRuleSchema>;
 export type BlackoutPeriod = z.infer<typeof selectBlackoutPeriodSchema>;
 export type AppointmentHistory = z.infer<typeof selectAppointmentHistorySchema>;
 export type CalendarSync = z.infer<typeof selectCalendarSyncSchema>;
+export type CalendarConnection = z.infer<typeof selectCalendarConnectionSchema>;
+export type WaitlistEntry = z.infer<typeof selectWaitlistEntrySchema>;
+export type WaitlistOffer = z.infer<typeof selectWaitlistOfferSchema>;
+export type SchedulingResource = z.infer<typeof selectSchedulingResourceSchema>;
+export type ResourceReservation = z.infer<typeof selectResourceReservationSchema>;
+export type SchedulingPolicyRule = z.infer<typeof selectSchedulingPolicyRuleSchema>;
+export type SchedulingRuleTrace = z.infer<typeof selectSchedulingRuleTraceSchema>;
 
 // Insert types
 export type InsertSchedule = z.infer<typeof insertScheduleSchema>;
@@ -316,10 +750,18 @@ export type InsertRecurrenceRule = z.infer<typeof insertRecurrenceRuleSchema>;
 export type InsertBlackoutPeriod = z.infer<typeof insertBlackoutPeriodSchema>;
 export type InsertAppointmentHistory = z.infer<typeof insertAppointmentHistorySchema>;
 export type InsertCalendarSync = z.infer<typeof insertCalendarSyncSchema>;
+export type InsertCalendarConnection = z.infer<typeof insertCalendarConnectionSchema>;
+export type InsertWaitlistEntry = z.infer<typeof insertWaitlistEntrySchema>;
+export type InsertWaitlistOffer = z.infer<typeof insertWaitlistOfferSchema>;
+export type InsertSchedulingResource = z.infer<typeof insertSchedulingResourceSchema>;
+export type InsertSchedulingPolicyRule = z.infer<typeof insertSchedulingPolicyRuleSchema>;
 
 // Enum types
 export type AppointmentStatus = z.infer<typeof appointmentStatusEnum.enum>;
 export type SlotStatus = z.infer<typeof slotStatusEnum.enum>;
 export type ScheduleStatus = z.infer<typeof scheduleStatusEnum.enum>;
 export type AppointmentType = z.infer<typeof appointmentTypeEnum.enum>;
-export type Specialty = z.infer<typeof specialtyEnum.enum>;
\ No newline at end of file
+export type Specialty = z.infer<typeof specialtyEnum.enum>;
+export type WaitlistEntryStatus = z.infer<typeof waitlistEntryStatusEnum.enum>;
+export type WaitlistOfferStatus = z.infer<typeof waitlistOfferStatusEnum.enum>;
+export type SchedulingResourceType = z.infer<typeof schedulingResourceTypeEnum.enum>;
\ No newline at end of file
@@ -0,0 +1,176 @@
+import { getTableColumns, type Table } from 'drizzle-orm';
+import { schedulingService } from './scheduling-service';
+import { appointments, resourceReservations, slots } from './scheduling-schema';
+
+// The real drizzle query builder over a stand-in connection: each query's SQL
+// is recorded and answered with the rows given for it (none by default), so
+// tests check what is asked for.
+jest.mock('../../db', () => {
+  const { drizzle } = jest.requireActual('drizzle-orm/pg-proxy');
+  const queries: { sql: string; params: unknown[] }[] = [];
+  const responses: { match: string; rows: unknown[][] }[] = [];
+  const db = drizzle(async (sql: string, params: unknown[]) => {
+    queries.push({ sql, params });
+    return { rows: responses.find(response => sql.includes(response.match))?.rows ?? [] };
+  });
+  db.transaction = async (fn: (tx: unknown) => Promise<unknown>) => fn(db);
+
+  return {
+    db,
+    queries,
+    respond: (match: string, rows: unknown[][]) => { responses.push({ match, rows }); },
+    reset: () => { queries.length = 0; responses.length = 0; }
+  };
+}, { virtual: true });
+
+jest.mock('../../../shared/scheduling-schema', () => jest.requireActual('./scheduling-schema'), { virtual: true });
+
+jest.mock('../../../server/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), debug: jest.fn(), error: jest.fn() }
+}), { virtual: true });
+
+jest.mock('postgres', () => jest.fn(), { virtual: true });
+
+jest.mock('uuid', () => ({ v4: () => 'generated-id' }), { virtual: true });
+
+const { queries, respond, reset } = jest.requireMock('../../db');
+
+const lastQuery = (): { sql: string; params: unknown[] } => queries[queries.length - 1];
+
+const findQuery = (match: string): { sql: string; params: unknown[] } | undefined =>
+  queries.find((query: { sql: string }) => query.sql.includes(match));
+
+// A row as the driver returns it: values in the table's column order
+const row = (table: Table, values: Record<string, unknown>): unknown[] =>
+  Object.keys(getTableColumns(table)).map(key => values[key] ?? null);
+
+beforeEach(() => reset());
+
+describe('schedulingService searches', () => {
+  const start = new Date('2024-03-11T13:00:00Z');
+  const end = new Date('2024-03-12T13:00:00Z');
+
+  it('applies every slot filter together', async () => {
+    await schedulingService.searchAvailableSlots({ providerId: 'dr-smith', locationId: 'clinic-1', startDateTime: start, endDateTime: end });
+
+    const { sql, params } = lastQuery();
+    expect(sql).toContain('"schedules"."provider_id" = $');
+    expect(sql).toContain('"schedules"."location_id" = $');
+    expect(sql).toContain('"slots"."start_date_time" >= $');
+    expect(sql).toContain('"slots"."end_date_time" <= $');
+    expect(sql).toContain('"slots"."status" = $');
+    expect(params).toEqual(expect.arrayContaining(['free', 'dr-smith', 'clinic-1']));
+  });
+
+  it('applies every appointment filter together', async () => {
+    await schedulingService.searchAppointments({ patientId: 'patient-1', providerId: 'dr-smith', status: 'booked', startDateTime: start });
+
+    const { sql, params } = lastQuery();
+    expect(sql).toContain('"appointments"."patient_id" = $');
+    expect(sql).toContain('"appointments"."provider_id" = $');
+    expect(sql).toContain('"appointments"."status" = $');
+    expect(sql).toContain('"appointments"."start_date_time" >= $');
+    expect(params).toEqual(expect.arrayContaining(['patient-1', 'dr-smith', 'booked']));
+  });
+
+  it('keeps the provider filter on active schedules', async () => {
+    await schedulingService.searchSchedules({ providerId: 'dr-smith' });
+
+    const { sql, params } = lastQuery();
+    expect(sql).toContain('"schedules"."status" = $');
+    expect(sql).toContain('"schedules"."provider_id" = $');
+    expect(params).toEqual(expect.arrayContaining(['active', 'dr-smith']));
+  });
+
+  it('applies every resource filter together', async () => {
+    await schedulingService.searchResources({ resourceType: 'room', locationId: 'clinic-1', activeOnly: true });
+
+    const { sql, params } = lastQuery();
+    expect(sql).toContain('"scheduling_resources"."resource_type" = $');
+    expect(sql).toContain('"scheduling_resources"."location_id" = $');
+    expect(sql).toContain('"scheduling_resources"."is_active" = $');
+    expect(params).toEqual(expect.arrayContaining(['room', 'clinic-1', true]));
+  });
+
+  it('keeps the schedule filter on blackouts in a date range', async () => {
+    await schedulingService.getBlackoutPeriods('schedule-1', start, end);
+
+    const { sql, params } = lastQuery();
+    expect(sql).toContain('"schedule_blackout_periods"."schedule_id" = $');
+    expect(sql).toContain('"schedule_blackout_periods"."start_date_time" between $');
+    expect(params).toEqual(expect.arrayContaining(['schedule-1']));
+  });
+});
+
+describe('schedulingService group booking', () => {
+  const groupSlot = row(slots, {
+    id: 'slot-1',
+    scheduleId: 'schedule-1',
+    startDateTime: '2024-03-11 13:00:00',
+    endDateTime: '2024-03-11 14:00:00',
+    status: 'free',
+    maxAppointments: 3,
+    createdAt: '2024-03-01 00:00:00'
+  });
+
+  const booking = { slotId: 'slot-1', patientId: 'patient-1', providerId: 'dr-smith', appointmentType: 'GROUP' } as any;
+
+  const bookWithTaken = async (taken: number) => {
+    respond('from "slots"', [groupSlot]);
+    respond('count(*)::int', [['slot-1', taken]]);
+    respond('insert into "appointments"', [row(appointments, {
+      id: 'generated-id',
+      slotId: 'slot-1',
+      patientId: 'patient-1',
+      providerId: 'dr-smith',
+      appointmentType: 'GROUP',
+      status: 'booked',
+      startDateTime: '2024-03-11 13:00:00',
+      endDateTime: '2024-03-11 14:00:00',
+      createdAt: '2024-03-01 00:00:00'
+    })]);
+
+    return await schedulingService.createAppointment(booking);
+  };
+
+  it('locks the slot and keeps it free while places are left', async () => {
+    const appointment = await bookWithTaken(1);
+
+    expect(appointment.id).toBe('generated-id');
+    expect(findQuery('from "slots"')!.sql).toMatch(/for update$/);
+    // The slot stays free and isn't linked to this appointment
+    expect(findQuery('update "slots"')!.params).toEqual(['free', null, expect.any(String), 'slot-1']);
+  });
+
+  it('marks the slot busy when the last place is taken', async () => {
+    await bookWithTaken(2);
+
+    expect(findQuery('update "slots"')!.params).toEqual(['busy', 'generated-id', expect.any(String), 'slot-1']);
+  });
+
+  it('refuses a booking once every place is taken', async () => {
+    await expect(bookWithTaken(3)).rejects.toThrow('Slot is not available');
+
+    expect(findQuery('insert into "appointments"')).toBeUndefined();
+  });
+
+  it('shares the resources reserved by the first booking', async () => {
+    respond('from "schedules"', [[JSON.stringify([{ label: 'Group room', resourceIds: ['room-1'] }])]]);
+    respond('from "resource_reservations"', [row(resourceReservations, {
+      id: 'reservation-1',
+      resourceId: 'room-1',
+      slotId: 'slot-1',
+      appointmentId: 'appointment-0',
+      startDateTime: '2024-03-11 13:00:00',
+      endDateTime: '2024-03-11 14:00:00',
+      status: 'active',
+      createdAt: '2024-03-01 00:00:00'
+    })]);
+
+    await bookWithTaken(1);
+
+    expect(findQuery('insert into "resource_reservations"')).toBeUndefined();
+    expect(findQuery('from "scheduling_resources"')).toBeUndefined();
+  });
+});
@@ -7,7 +7,7 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import { eq, and, or, between, lte, gte, desc, sql, inArray } from 'drizzle-orm';
+import { eq, and, or, between, lt, lte, gt, gte, ne, desc, sql, inArray, notInArray, type SQL } from 'drizzle-orm';
 import { db } from '../../db';
 import logger from '../../../server/utils/logger';
 import postgres from 'postgres';
@@ -19,6 +19,8 @@ import {
   appointments,
   appointmentHistory,
   calendarSync,
+  schedulingResources,
+  resourceReservations,
   type Schedule,
   type Slot,
   type RecurrenceRule,
@@ -26,14 +28,49 @@ import {
   type Appointment,
   type AppointmentHistory,
   type CalendarSync,
+  type SchedulingResource,
+  type ResourceReservation,
+  type ResourceRequirement,
   type InsertSchedule,
   type InsertSlot,
   type InsertRecurrenceRule,
   type InsertBlackoutPeriod,
   type InsertAppointment,
   type InsertAppointmentHistory,
-  type InsertCalendarSync
+  type InsertCalendarSync,
+  type InsertSchedulingResource
 } from '../../../shared/scheduling-schema';
+import {
+  daysOfWeekToRRule,
+  expandRecurrence,
+  isValidTimeZone,
+  localTimeToUtc,
+  toLocalDate,
+  validateRecurrenceSet,
+  type RecurrenceSet
+} from './schedule-recurrence';
+import {
+  allocateResources,
+  createFreeCheck,
+  describeRequirements,
+  type ResourceBooking
+} from './resource-allocation';
+
+// Appointments in these statuses no longer take up a slot's seat or hold resources
+const INACTIVE_APPOINTMENT_STATUSES = ['cancelled', 'noshow', 'entered-in-error'];
+
+// The database or a transaction
+export type DbExecutor = Pick<typeof db, 'select' | 'insert' | 'update'>;
+
+/**
+ * Booking into a slot held tentatively for the patient, e.g. by a waitlist
+ * offer. The slot is booked from its held status without being freed first,
+ * and onBooked runs in the booking transaction so the holder's own records
+ * commit or roll back with the appointment.
+ */
+export interface SlotHoldBooking {
+  onBooked: (tx: DbExecutor, appointment: Appointment) => Promise<void>;
+}
 
 // Type for schedule search params
 export interface ScheduleSearchParams {
@@ -56,6 +93,21 @@ export interface SlotSearchParams {
   status?: string;
 }
 
+// A bookable slot with the resources its appointment would be given
+export interface SlotBookingOption {
+  slot: Slot;
+  resourceIds: string[]; // One per resource requirement of the slot's schedule
+  seatsLeft: number; // Remaining places in a group slot (1 for an ordinary slot)
+}
+
+// Type for resource search params
+export interface ResourceSearchParams {
+  resourceType?: string;
+  locationId?: string;
+  providerId?: string;
+  activeOnly?: boolean;
+}
+
 // Type for appointment search params
 export interface AppointmentSearchParams {
   patientId?: string;
@@ -106,6 +158,14 @@ export class SchedulingService {
       serviceType: data.serviceType 
     });
     
+    if (data.timeZone && !isValidTimeZone(data.timeZone)) {
+      throw new Error(`Unknown time zone: ${data.timeZone}`);
+    }
+    
+    if (data.resourceRequirements) {
+      await this.validateResourceRequirements(data.resourceRequirements);
+    }
+    
     const [schedule] = await db.insert(schedules)
       .values({
         ...data,
@@ -135,6 +195,14 @@ export class SchedulingService {
     scheduleId: string, 
     data: Partial<Omit<InsertSchedule, 'id'>>
   ): Promise<Schedule | undefined> {
+    if (data.timeZone && !isValidTimeZone(data.timeZone)) {
+      throw new Error(`Unknown time zone: ${data.timeZone}`);
+    }
+    
+    if (data.resourceRequirements) {
+      await this.validateResourceRequirements(data.resourceRequirements);
+    }
+    
     const [schedule] = await db.update(schedules)
       .set({
         ...data,
@@ -177,51 +245,50 @@ export class SchedulingService {
    * Search for schedules based on criteria
    */
   async searchSchedules(params: ScheduleSearchParams): Promise<Schedule[]> {
-    let query = db.select().from(schedules);
+    // Status is active by default
+    const conditions: SQL[] = [eq(schedules.status, 'active')];
     
     // Apply filters
     if (params.providerId) {
-      query = query.where(eq(schedules.providerId, params.providerId));
+      conditions.push(eq(schedules.providerId, params.providerId));
     }
     
     if (params.locationId) {
-      query = query.where(eq(schedules.locationId, params.locationId));
+      conditions.push(eq(schedules.locationId, params.locationId));
     }
     
     if (params.serviceType) {
-      query = query.where(eq(schedules.serviceType, params.serviceType));
+      conditions.push(eq(schedules.serviceType, params.serviceType));
     }
     
     if (params.specialty) {
-      query = query.where(eq(schedules.specialty, params.specialty));
+      conditions.push(eq(schedules.specialty, params.specialty));
     }
     
     // Date range filtering
     if (params.startDate) {
-      query = query.where(
+      conditions.push(
         or(
           sql`${schedules.endDate} IS NULL`,
           gte(schedules.endDate, params.startDate)
-        )
+        )!
       );
     }
     
     if (params.endDate) {
-      query = query.where(
+      conditions.push(
         or(
           sql`${schedules.startDate} IS NULL`,
           lte(schedules.startDate, params.endDate)
-        )
+        )!
       );
     }
     
-    // Status is active by default
-    query = query.where(eq(schedules.status, 'active'));
-    
     // Order by name
-    query = query.orderBy(schedules.name);
-    
-    return await query;
+    return await db.select()
+      .from(schedules)
+      .where(and(...conditions))
+      .orderBy(schedules.name);
   }
 
   // ========== RECURRENCE RULES MANAGEMENT ==========
@@ -230,6 +297,9 @@ export class SchedulingService {
    * Create a new recurrence rule for a schedule
    */
   async createRecurrenceRule(data: InsertRecurrenceRule): Promise<RecurrenceRule> {
+    // Throws RecurrenceRuleError if the pattern is invalid
+    validateRecurrenceSet(this.getRecurrenceSet(data));
+    
     const [rule] = await db.insert(scheduleRecurrenceRules)
       .values({
         ...data,
@@ -257,6 +327,16 @@ export class SchedulingService {
     ruleId: string, 
     data: Partial<Omit<InsertRecurrenceRule, 'id' | 'scheduleId'>>
   ): Promise<RecurrenceRule | undefined> {
+    if (data.rrule || data.exrule || data.rdates || data.exdates || data.daysOfWeek) {
+      const [existing] = await db.select()
+        .from(scheduleRecurrenceRules)
+        .where(eq(scheduleRecurrenceRules.id, ruleId));
+      
+      if (existing) {
+        validateRecurrenceSet(this.getRecurrenceSet({ ...existing, ...data }));
+      }
+    }
+    
     const [rule] = await db.update(scheduleRecurrenceRules)
       .set({
         ...data,
@@ -268,6 +348,25 @@ export class SchedulingService {
     return rule;
   }
 
+  /**
+   * Get the RFC 5545 recurrence set for a rule, falling back to the legacy
+   * daysOfWeek list when no RRULE is set
+   */
+  private getRecurrenceSet(
+    rule: Pick<InsertRecurrenceRule, 'rrule' | 'exrule' | 'rdates' | 'exdates' | 'daysOfWeek'>
+  ): RecurrenceSet {
+    if (!rule.rrule && !rule.daysOfWeek) {
+      throw new Error('Recurrence rule needs either an rrule or daysOfWeek');
+    }
+    
+    return {
+      rrule: rule.rrule || daysOfWeekToRRule(rule.daysOfWeek!),
+      exrule: rule.exrule,
+      rdates: rule.rdates,
+      exdates: rule.exdates
+    };
+  }
+
   /**
    * Delete a recurrence rule
    */
@@ -304,13 +403,11 @@ export class SchedulingService {
     startDate?: Date, 
     endDate?: Date
   ): Promise<BlackoutPeriod[]> {
-    let query = db.select()
-      .from(scheduleBlackoutPeriods)
-      .where(eq(scheduleBlackoutPeriods.scheduleId, scheduleId));
+    const conditions: SQL[] = [eq(scheduleBlackoutPeriods.scheduleId, scheduleId)];
     
     // Apply date filters if provided
     if (startDate && endDate) {
-      query = query.where(
+      conditions.push(
         or(
           // Blackout starts within the date range
           between(scheduleBlackoutPeriods.startDateTime, startDate, endDate),
@@ -321,14 +418,18 @@ export class SchedulingService {
             lte(scheduleBlackoutPeriods.startDateTime, startDate),
             gte(scheduleBlackoutPeriods.endDateTime, endDate)
           )
-        )
+        )!
       );
     } else if (startDate) {
-      query = query.where(gte(scheduleBlackoutPeriods.endDateTime, startDate));
+      conditions.push(gte(scheduleBlackoutPeriods.endDateTime, startDate));
     } else if (endDate) {
-      query = query.where(lte(scheduleBlackoutPeriods.startDateTime, endDate));
+      conditions.push(lte(scheduleBlackoutPeriods.startDateTime, endDate));
     }
     
+    const query = db.select()
+      .from(scheduleBlackoutPeriods)
+      .where(and(...conditions));
+    
     return await query;
   }
 
@@ -361,6 +462,325 @@ export class SchedulingService {
     return result.length > 0;
   }
 
+  // ========== RESOURCE MANAGEMENT ==========
+
+  /**
+   * Create a resource (room, equipment, additional provider or staff)
+   */
+  async createResource(data: InsertSchedulingResource): Promise<SchedulingResource> {
+    const [resource] = await db.insert(schedulingResources)
+      .values({
+        ...data,
+        id: data.id || uuidv4(),
+        updatedAt: new Date()
+      })
+      .returning();
+    
+    return resource;
+  }
+
+  /**
+   * Get a resource by ID
+   */
+  async getResource(resourceId: string): Promise<SchedulingResource | undefined> {
+    const [resource] = await db.select()
+      .from(schedulingResources)
+      .where(eq(schedulingResources.id, resourceId));
+    
+    return resource;
+  }
+
+  /**
+   * Update a resource
+   */
+  async updateResource(
+    resourceId: string,
+    data: Partial<Omit<InsertSchedulingResource, 'id'>>
+  ): Promise<SchedulingResource | undefined> {
+    const [resource] = await db.update(schedulingResources)
+      .set({
+        ...data,
+        updatedAt: new Date()
+      })
+      .where(eq(schedulingResources.id, resourceId))
+      .returning();
+    
+    return resource;
+  }
+
+  /**
+   * Search for resources based on criteria
+   */
+  async searchResources(params: ResourceSearchParams): Promise<SchedulingResource[]> {
+    const conditions: SQL[] = [];
+    
+    if (params.resourceType) {
+      conditions.push(eq(schedulingResources.resourceType, params.resourceType));
+    }
+    
+    if (params.locationId) {
+      conditions.push(eq(schedulingResources.locationId, params.locationId));
+    }
+    
+    if (params.providerId) {
+      conditions.push(eq(schedulingResources.providerId, params.providerId));
+    }
+    
+    if (params.activeOnly) {
+      conditions.push(eq(schedulingResources.isActive, true));
+    }
+    
+    const query = db.select()
+      .from(schedulingResources)
+      .where(and(...conditions));
+    
+    return await query.orderBy(schedulingResources.name);
+  }
+
+  /**
+   * Get a resource's active reservations overlapping a time range
+   */
+  async getResourceReservations(
+    resourceId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<ResourceReservation[]> {
+    return await db.select()
+      .from(resourceReservations)
+      .where(
+        and(
+          eq(resourceReservations.resourceId, resourceId),
+          eq(resourceReservations.status, 'active'),
+          lt(resourceReservations.startDateTime, endDate),
+          gt(resourceReservations.endDateTime, startDate)
+        )
+      )
+      .orderBy(resourceReservations.startDateTime);
+  }
+
+  /**
+   * Check that every resource a schedule requires exists
+   */
+  private async validateResourceRequirements(requirements: ResourceRequirement[]): Promise<void> {
+    if (requirements.some(requirement => requirement.resourceIds.length === 0)) {
+      throw new Error('Each resource requirement must list at least one resource');
+    }
+    
+    const resourceIds = Array.from(new Set(requirements.flatMap(requirement => requirement.resourceIds)));
+    if (resourceIds.length === 0) {
+      return;
+    }
+    
+    const found = await db.select({ id: schedulingResources.id })
+      .from(schedulingResources)
+      .where(inArray(schedulingResources.id, resourceIds));
+    
+    const missing = resourceIds.filter(id => !found.some(resource => resource.id === id));
+    if (missing.length > 0) {
+      throw new Error(`Unknown scheduling resources: ${missing.join(', ')}`);
+    }
+  }
+
+  /**
+   * Load what holds resources between two times: active reservations and,
+   * for provider resources, the provider's own appointments. With lock set
+   * the resource rows are locked, so concurrent bookings of the same
+   * resources are serialized.
+   */
+  private async loadResourceFreeCheck(
+    executor: DbExecutor,
+    resourceIds: string[],
+    startDate: Date,
+    endDate: Date,
+    lock: boolean = false
+  ) {
+    if (resourceIds.length === 0) {
+      return createFreeCheck([], []);
+    }
+    
+    const resourceQuery = executor.select()
+      .from(schedulingResources)
+      .where(inArray(schedulingResources.id, resourceIds))
+      .orderBy(schedulingResources.id); // Consistent lock order
+    const resources = lock ? await resourceQuery.for('update') : await resourceQuery;
+    
+    const reservations = await executor.select()
+      .from(resourceReservations)
+      .where(
+        and(
+          inArray(resourceReservations.resourceId, resourceIds),
+          eq(resourceReservations.status, 'active'),
+          lt(resourceReservations.startDateTime, endDate),
+          gt(resourceReservations.endDateTime, startDate)
+        )
+      );
+    
+    const bookings: ResourceBooking[] = [...reservations];
+    
+    const providerResources = resources.filter(resource => resource.resourceType === 'provider' && resource.providerId);
+    if (providerResources.length > 0) {
+      const providerAppointments = await executor.select()
+        .from(appointments)
+        .where(
+          and(
+            inArray(appointments.providerId, providerResources.map(resource => resource.providerId!)),
+            notInArray(appointments.status, INACTIVE_APPOINTMENT_STATUSES),
+            lt(appointments.startDateTime, endDate),
+            gt(appointments.endDateTime, startDate)
+          )
+        );
+      
+      for (const resource of providerResources) {
+        bookings.push(...providerAppointments
+          .filter(appointment => appointment.providerId === resource.providerId)
+          .map(appointment => ({
+            resourceId: resource.id,
+            slotId: appointment.slotId,
+            startDateTime: appointment.startDateTime,
+            endDateTime: appointment.endDateTime
+          })));
+      }
+    }
+    
+    return createFreeCheck(resources, bookings);
+  }
+
+  /**
+   * Count the appointments taking up seats in slots
+   */
+  private async countSlotAppointments(
+    executor: DbExecutor,
+    slotIds: string[],
+    excludeAppointmentId?: string
+  ): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    if (slotIds.length === 0) {
+      return counts;
+    }
+    
+    const rows = await executor.select({
+      slotId: appointments.slotId,
+      count: sql<number>`count(*)::int`
+    })
+      .from(appointments)
+      .where(
+        and(
+          inArray(appointments.slotId, slotIds),
+          notInArray(appointments.status, INACTIVE_APPOINTMENT_STATUSES),
+          ...(excludeAppointmentId ? [ne(appointments.id, excludeAppointmentId)] : [])
+        )
+      )
+      .groupBy(appointments.slotId);
+    
+    for (const row of rows) {
+      counts.set(row.slotId!, row.count);
+    }
+    return counts;
+  }
+
+  /**
+   * Reserve the resources a slot's schedule requires, for an appointment
+   * being booked into it. A group slot's resources are reserved by its first
+   * booking and shared by the rest. Nothing is reserved unless every
+   * requirement can be met.
+   * @param resourceIds resources the appointment asked for, if any
+   */
+  private async reserveSlotResources(
+    tx: DbExecutor,
+    slot: Slot,
+    appointmentId: string,
+    resourceIds: string[] = []
+  ): Promise<ResourceReservation[]> {
+    const [schedule] = await tx.select({ resourceRequirements: schedules.resourceRequirements })
+      .from(schedules)
+      .where(eq(schedules.id, slot.scheduleId));
+    
+    const requirements = schedule?.resourceRequirements || [];
+    const requiredIds = requirements.flatMap(requirement => requirement.resourceIds);
+    
+    const notRequired = resourceIds.filter(id => !requiredIds.includes(id));
+    if (notRequired.length > 0) {
+      throw new Error(`Resources not used by this schedule: ${notRequired.join(', ')}`);
+    }
+    
+    if (requirements.length === 0) {
+      return [];
+    }
+    
+    const existing = await tx.select()
+      .from(resourceReservations)
+      .where(
+        and(
+          eq(resourceReservations.slotId, slot.id),
+          eq(resourceReservations.status, 'active')
+        )
+      );
+    
+    if (existing.length > 0) {
+      const unavailable = resourceIds.filter(id => !existing.some(reservation => reservation.resourceId === id));
+      if (unavailable.length > 0) {
+        throw new Error(`Required resources are not available: ${unavailable.join(', ')}`);
+      }
+      return existing;
+    }
+    
+    const isFree = await this.loadResourceFreeCheck(
+      tx,
+      Array.from(new Set(requiredIds)),
+      slot.startDateTime,
+      slot.endDateTime,
+      true
+    );
+    
+    const allocation = allocateResources(
+      requirements,
+      id => isFree(id, slot.startDateTime, slot.endDateTime, slot.id),
+      resourceIds
+    );
+    
+    if (allocation.unmet.length > 0) {
+      throw new Error(`Required resources are not available: ${describeRequirements(allocation.unmet)}`);
+    }
+    
+    return await tx.insert(resourceReservations)
+      .values(allocation.resourceIds.map(resourceId => ({
+        id: uuidv4(),
+        resourceId,
+        slotId: slot.id,
+        appointmentId,
+        startDateTime: slot.startDateTime,
+        endDateTime: slot.endDateTime,
+        updatedAt: new Date()
+      })))
+      .returning();
+  }
+
+  /**
+   * Release a slot's resource reservations once no appointment in it needs them
+   */
+  private async releaseSlotResources(
+    tx: DbExecutor,
+    slotId: string,
+    leavingAppointmentId: string
+  ): Promise<void> {
+    const counts = await this.countSlotAppointments(tx, [slotId], leavingAppointmentId);
+    if ((counts.get(slotId) || 0) > 0) {
+      return;
+    }
+    
+    await tx.update(resourceReservations)
+      .set({
+        status: 'released',
+        updatedAt: new Date()
+      })
+      .where(
+        and(
+          eq(resourceReservations.slotId, slotId),
+          eq(resourceReservations.status, 'active')
+        )
+      );
+  }
+
   // ========== SLOT MANAGEMENT ==========
 
   /**
@@ -569,54 +989,115 @@ export class SchedulingService {
   }
 
   /**
-   * Search for available slots based on criteria
+   * Search for available slots based on criteria. Free slots are only
+   * returned if every resource their schedule requires is free too.
    */
   async searchAvailableSlots(params: SlotSearchParams): Promise<Slot[]> {
-    // Start with a join to get schedule info
-    let query = db.select({
-      slot: slots
-    })
-    .from(slots)
-    .innerJoin(schedules, eq(slots.scheduleId, schedules.id));
+    if (params.status && params.status !== 'free') {
+      const results = await this.querySlots(params);
+      return results.map(r => r.slot);
+    }
+    
+    const options = await this.searchAvailableSlotOptions(params);
+    return options.map(option => option.slot);
+  }
+
+  /**
+   * Search for free slots with the combination of resources each would be
+   * booked with and the places left in group slots
+   */
+  async searchAvailableSlotOptions(params: SlotSearchParams): Promise<SlotBookingOption[]> {
+    const results = await this.querySlots({ ...params, status: 'free' });
+    if (results.length === 0) {
+      return [];
+    }
+    
+    // Places already taken in group slots
+    const groupSlotIds = results
+      .filter(r => (r.slot.maxAppointments || 1) > 1)
+      .map(r => r.slot.id);
+    const seatsTaken = await this.countSlotAppointments(db, groupSlotIds);
+    
+    // What holds the required resources across the whole search window
+    const resourceIds = Array.from(new Set(results.flatMap(r =>
+      (r.resourceRequirements || []).flatMap(requirement => requirement.resourceIds)
+    )));
+    const isFree = await this.loadResourceFreeCheck(
+      db,
+      resourceIds,
+      new Date(Math.min(...results.map(r => r.slot.startDateTime.getTime()))),
+      new Date(Math.max(...results.map(r => r.slot.endDateTime.getTime())))
+    );
+    
+    const options: SlotBookingOption[] = [];
+    for (const { slot, resourceRequirements } of results) {
+      const seatsLeft = (slot.maxAppointments || 1) - (seatsTaken.get(slot.id) || 0);
+      if (seatsLeft <= 0) {
+        continue;
+      }
+      
+      const allocation = allocateResources(
+        resourceRequirements || [],
+        id => isFree(id, slot.startDateTime, slot.endDateTime, slot.id)
+      );
+      if (allocation.unmet.length > 0) {
+        continue;
+      }
+      
+      options.push({ slot, resourceIds: allocation.resourceIds, seatsLeft });
+    }
+    
+    return options;
+  }
+
+  /**
+   * Query slots by slot and schedule criteria, with the schedule's resource requirements
+   */
+  private async querySlots(
+    params: SlotSearchParams
+  ): Promise<Array<{ slot: Slot; resourceRequirements: ResourceRequirement[] | null }>> {
+    // By default, only show free slots
+    const conditions: SQL[] = [eq(slots.status, params.status || 'free')];
     
     // Apply filters related to schedule
     if (params.providerId) {
-      query = query.where(eq(schedules.providerId, params.providerId));
+      conditions.push(eq(schedules.providerId, params.providerId));
     }
     
     if (params.locationId) {
-      query = query.where(eq(schedules.locationId, params.locationId));
+      conditions.push(eq(schedules.locationId, params.locationId));
     }
     
     if (params.serviceType) {
-      query = query.where(eq(schedules.serviceType, params.serviceType));
+      conditions.push(eq(schedules.serviceType, params.serviceType));
     }
     
     if (params.specialty) {
-      query = query.where(eq(schedules.specialty, params.specialty));
+      conditions.push(eq(schedules.specialty, params.specialty));
     }
     
     // Apply filters related to slot
     if (params.startDateTime) {
-      query = query.where(gte(slots.startDateTime, params.startDateTime));
+      conditions.push(gte(slots.startDateTime, params.startDateTime));
     }
     
     if (params.endDateTime) {
-      query = query.where(lte(slots.endDateTime, params.endDateTime));
+      conditions.push(lte(slots.endDateTime, params.endDateTime));
     }
     
-    // By default, only show free slots
-    query = query.where(eq(slots.status, params.status || 'free'));
-    
-    // Order by date and time
-    query = query.orderBy(slots.startDateTime);
-    
-    const results = await query;
-    return results.map(r => r.slot);
+    // Join to get schedule info, ordered by date and time
+    return await db.select({
+      slot: slots,
+      resourceRequirements: schedules.resourceRequirements
+    })
+    .from(slots)
+    .innerJoin(schedules, eq(slots.scheduleId, schedules.id))
+    .where(and(...conditions))
+    .orderBy(slots.startDateTime);
   }
 
   /**
-   * Generate slots based on recurrence rules
+   * Generate slots based on recurrence rules, in the schedule's time zone
    */
   async generateSlotsFromRules(
     scheduleId: string, 
@@ -651,53 +1132,52 @@ export class SchedulingService {
     
     const slotsToCreate: InsertSlot[] = [];
     
-    // For each day in the date range
-    const currentDate = new Date(startDate);
-    const endDateValue = endDate.getTime();
+    // Recurrence is evaluated on local dates in the schedule's time zone
+    const timeZone = schedule.timeZone || 'UTC';
+    const rangeStart = toLocalDate(startDate, timeZone);
+    const rangeEnd = toLocalDate(endDate, timeZone);
     
-    while (currentDate.getTime() <= endDateValue) {
-      const dayOfWeek = ((currentDate.getDay() + 6) % 7) + 1; // Convert to 1-7 (Monday is 1)
-      const currentDateStr = currentDate.toISOString().split('T')[0]; // YYYY-MM-DD
+    for (const rule of rules) {
+      if (!rule.isActive) continue;
       
-      // Find rules that apply to this day
-      for (const rule of rules) {
-        if (!rule.isActive) continue;
-        
-        // Skip if rule is not effective yet or has expired
-        if (rule.effectiveFrom && new Date(rule.effectiveFrom) > currentDate) continue;
-        if (rule.effectiveTo && new Date(rule.effectiveTo) < currentDate) continue;
-        
-        // Check if this day of week is included in the rule
-        const daysArray = rule.daysOfWeek.split(',').map(d => parseInt(d.trim()));
-        if (!daysArray.includes(dayOfWeek)) continue;
-        
-        // Calculate slot times for this day
-        const [startHour, startMinute] = rule.startTime.split(':').map(n => parseInt(n));
-        const [endHour, endMinute] = rule.endTime.split(':').map(n => parseInt(n));
-        
-        // Create a slot for each time period in the rule
-        let slotStart = new Date(currentDate);
-        slotStart.setHours(startHour, startMinute, 0, 0);
+      // The pattern is anchored at its effective date (DTSTART), e.g. for INTERVAL=2
+      const anchor = rule.effectiveFrom || schedule.startDate || rule.createdAt;
+      const dates = expandRecurrence(
+        this.getRecurrenceSet(rule),
+        toLocalDate(new Date(anchor), timeZone),
+        rangeStart,
+        rangeEnd,
+        timeZone
+      );
+      
+      for (const date of dates) {
+        // Slot times are wall-clock times in the schedule's zone; stepping in
+        // absolute time keeps slot lengths correct across a DST change
+        const ruleStartTime = localTimeToUtc(date, rule.startTime, timeZone);
+        const ruleEndTime = localTimeToUtc(date, rule.endTime, timeZone);
         
-        const ruleEndTime = new Date(currentDate);
-        ruleEndTime.setHours(endHour, endMinute, 0, 0);
+        let slotStart = ruleStartTime;
         
         while (slotStart < ruleEndTime) {
-          const slotEnd = new Date(slotStart);
-          slotEnd.setMinutes(slotStart.getMinutes() + rule.slotDurationMinutes);
+          const slotEnd = new Date(slotStart.getTime() + rule.slotDurationMinutes * 60000);
           
           // Don't create slots past the rule end time
           if (slotEnd > ruleEndTime) break;
           
+          // Skip slots outside the requested range, or when the rule is not effective yet or has expired
+          const isEffective = slotStart >= startDate && slotEnd <= endDate &&
+            (!rule.effectiveFrom || slotStart >= new Date(rule.effectiveFrom)) &&
+            (!rule.effectiveTo || slotStart <= new Date(rule.effectiveTo));
+          
           // Check for conflicts with blackout periods
           const isInBlackout = blackouts.some(blackout => 
             slotStart < blackout.endDateTime && 
             slotEnd > blackout.startDateTime
           );
           
-          if (!isInBlackout) {
-            // Check for duplicates with existing slots
-            const isDuplicate = existingSlots.some(existingSlot => 
+          if (isEffective && !isInBlackout) {
+            // Check for duplicates with existing slots (or slots from an overlapping rule)
+            const isDuplicate = [...existingSlots, ...slotsToCreate].some(existingSlot => 
               slotStart.getTime() === existingSlot.startDateTime.getTime() && 
               slotEnd.getTime() === existingSlot.endDateTime.getTime()
             );
@@ -717,12 +1197,9 @@ export class SchedulingService {
           }
           
           // Move to next slot start time
-          slotStart = new Date(slotEnd);
+          slotStart = slotEnd;
         }
       }
-      
-      // Move to next day
-      currentDate.setDate(currentDate.getDate() + 1);
     }
     
     // Create all the generated slots
@@ -732,9 +1209,15 @@ export class SchedulingService {
   // ========== APPOINTMENT MANAGEMENT ==========
 
   /**
-   * Create a new appointment
+   * Create a new appointment. Booking into a slot also reserves every resource
+   * the slot's schedule requires, or fails without booking anything.
+   * @param options.resourceIds specific resources to book, e.g. a chosen room
+   * @param options.hold books a slot held for the patient instead of a free one
    */
-  async createAppointment(data: InsertAppointment): Promise<Appointment> {
+  async createAppointment(
+    data: InsertAppointment,
+    options: { resourceIds?: string[]; hold?: SlotHoldBooking } = {}
+  ): Promise<Appointment> {
     // Start a transaction for this booking
     return await db.transaction(async (tx) => {
       // If a slotId is provided, check if it's available and lock it
@@ -744,22 +1227,30 @@ export class SchedulingService {
           .where(
             and(
               eq(slots.id, data.slotId),
-              eq(slots.status, 'free')
+              eq(slots.status, options.hold ? 'busy-tentative' : 'free')
             )
           )
-          .forUpdate(); // Lock the row
+          .for('update'); // Lock the row
         
         if (!slot) {
           throw new Error('Slot is not available');
         }
         
-        // Update the slot status to busy and link it to this appointment
+        // Group slots stay free until every place is taken
+        const capacity = slot.maxAppointments || 1;
+        const seatsTaken = (await this.countSlotAppointments(tx, [slot.id])).get(slot.id) || 0;
+        if (seatsTaken >= capacity) {
+          throw new Error('Slot is not available');
+        }
+        
+        // Mark the slot busy once full and link it to the appointment that filled it
         const appointmentId = data.id || uuidv4();
+        const full = seatsTaken + 1 >= capacity;
         
         await tx.update(slots)
           .set({
-            status: 'busy',
-            appointmentId,
+            status: full ? 'busy' : 'free',
+            appointmentId: full ? appointmentId : slot.appointmentId,
             updatedAt: new Date()
           })
           .where(eq(slots.id, data.slotId));
@@ -775,6 +1266,9 @@ export class SchedulingService {
           })
           .returning();
         
+        // Reserve the required resources; any that are taken roll back the whole booking
+        await this.reserveSlotResources(tx, slot, appointment.id, options.resourceIds);
+        
         // Create an appointment history record
         await tx.insert(appointmentHistory)
           .values({
@@ -785,6 +1279,10 @@ export class SchedulingService {
             reason: 'Initial booking'
           });
         
+        if (options.hold) {
+          await options.hold.onBooked(tx, appointment);
+        }
+        
         return appointment;
       } 
       // If no slotId but we have startDateTime and endDateTime, create without a slot
@@ -835,7 +1333,7 @@ export class SchedulingService {
     reason?: string
   ): Promise<Appointment | undefined> {
     // Start a transaction for this update
-    return await db.transaction(async (tx) => {
+    const updatedAppointment = await db.transaction(async (tx) => {
       // Get the current appointment
       const [appointment] = await tx.select()
         .from(appointments)
@@ -863,6 +1361,8 @@ export class SchedulingService {
               updatedAt: new Date()
             })
             .where(eq(slots.id, appointment.slotId));
+          
+          await this.releaseSlotResources(tx, appointment.slotId, appointmentId);
         }
         
         // Reserve the new slot
@@ -874,20 +1374,29 @@ export class SchedulingService {
               eq(slots.status, 'free')
             )
           )
-          .forUpdate(); // Lock the row
+          .for('update'); // Lock the row
         
         if (!newSlot) {
           throw new Error('New slot is not available');
         }
         
+        const capacity = newSlot.maxAppointments || 1;
+        const seatsTaken = (await this.countSlotAppointments(tx, [newSlot.id])).get(newSlot.id) || 0;
+        if (seatsTaken >= capacity) {
+          throw new Error('New slot is not available');
+        }
+        
+        const full = seatsTaken + 1 >= capacity;
         await tx.update(slots)
           .set({
-            status: 'busy',
-            appointmentId,
+            status: full ? 'busy' : 'free',
+            appointmentId: full ? appointmentId : newSlot.appointmentId,
             updatedAt: new Date()
           })
           .where(eq(slots.id, data.slotId));
         
+        await this.reserveSlotResources(tx, newSlot, appointmentId);
+        
         // If using a new slot, update appointment times to match
         data.startDateTime = newSlot.startDateTime;
         data.endDateTime = newSlot.endDateTime;
@@ -901,6 +1410,8 @@ export class SchedulingService {
             updatedAt: new Date()
           })
           .where(eq(slots.id, appointment.slotId));
+        
+        await this.releaseSlotResources(tx, appointment.slotId, appointmentId);
       }
       
       // Update the appointment
@@ -927,17 +1438,28 @@ export class SchedulingService {
       
       return updatedAppointment;
     });
+    
+    // Push the change to any calendars the appointment is synced to
+    try {
+      const { calendarSyncService } = await import('./calendar-sync-service');
+      await calendarSyncService.pushAppointmentChanges(appointmentId);
+    } catch (error) {
+      // Sync failures are recorded on calendar_sync; the update itself stands
+      logger.error('Error pushing appointment change to calendars:', error);
+    }
+    
+    return updatedAppointment;
   }
 
   /**
-   * Cancel an appointment
+   * Cancel an appointment and offer its freed slot to the waitlist
    */
   async cancelAppointment(
     appointmentId: string,
     cancelReason: string,
     cancelledBy: string
   ): Promise<Appointment | undefined> {
-    return await this.updateAppointment(
+    const appointment = await this.updateAppointment(
       appointmentId,
       {
         status: 'cancelled',
@@ -946,53 +1468,65 @@ export class SchedulingService {
       cancelledBy,
       'Appointment cancelled'
     );
+    
+    if (appointment?.slotId) {
+      try {
+        const { waitlistService } = await import('./waitlist-service');
+        await waitlistService.offerFreedSlot(appointment.slotId);
+      } catch (error) {
+        // The cancellation stands even if the waitlist could not be offered the slot
+        logger.error('Error offering cancelled slot to waitlist:', error);
+      }
+    }
+    
+    return appointment;
   }
 
   /**
    * Search for appointments based on criteria
    */
   async searchAppointments(params: AppointmentSearchParams): Promise<Appointment[]> {
-    let query = db.select()
-      .from(appointments);
+    const conditions: SQL[] = [];
     
     // Apply filters
     if (params.patientId) {
-      query = query.where(eq(appointments.patientId, params.patientId));
+      conditions.push(eq(appointments.patientId, params.patientId));
     }
     
     if (params.providerId) {
-      query = query.where(eq(appointments.providerId, params.providerId));
+      conditions.push(eq(appointments.providerId, params.providerId));
     }
     
     if (params.locationId) {
-      query = query.where(eq(appointments.locationId, params.locationId));
+      conditions.push(eq(appointments.locationId, params.locationId));
     }
     
     if (params.appointmentType) {
-      query = query.where(eq(appointments.appointmentType, params.appointmentType));
+      conditions.push(eq(appointments.appointmentType, params.appointmentType));
     }
     
     if (params.specialty) {
-      query = query.where(eq(appointments.specialty, params.specialty));
+      conditions.push(eq(appointments.specialty, params.specialty));
     }
     
     if (params.status) {
-      query = query.where(eq(appointments.status, params.status));
+      conditions.push(eq(appointments.status, params.status));
     }
     
     // Apply date filters
     if (params.startDateTime) {
-      query = query.where(gte(appointments.startDateTime, params.startDateTime));
+      conditions.push(gte(appointments.startDateTime, params.startDateTime));
     }
     
     if (params.endDateTime) {
-      query = query.where(lte(appointments.endDateTime, params.endDateTime));
+      conditions.push(lte(appointments.endDateTime, params.endDateTime));
     }
     
     // Order by date and time
-    query = query.orderBy(appointments.startDateTime);
-    
-    return await query;
+    return await db.select()
+      .from(appointments)
+      .where(and(...conditions))
+      .orderBy(appointments.startDateTime);
   }
 
   /**
@@ -1060,7 +1594,7 @@ export class SchedulingService {
   }
 
   /**
-   * Sync appointment to external calendar
+   * Sync appointment to external calendar ("caldav", or "ics" for the user's subscription feed)
    */
   async syncToCalendar(
     appointmentId: string,
@@ -1073,28 +1607,16 @@ export class SchedulingService {
       throw new Error('Appointment not found');
     }
     
-    // This would integrate with the Calendar Sync Service
-    // For now, just record the sync attempt
     logger.info('Syncing appointment to calendar', { appointmentId, userId, calendarProvider });
     
-    const [calendarSyncRecord] = await db.insert(calendarSync)
-      .values({
-        id: uuidv4(),
-        appointmentId,
-        userId,
-        calendarProvider,
-        syncStatus: 'synced',
-        lastSyncAt: new Date(),
-        externalEventId: `ext-cal-${appointmentId}`
-      })
-      .returning();
-    
-    return calendarSyncRecord;
+    const { calendarSyncService } = await import('./calendar-sync-service');
+    return await calendarSyncService.syncAppointment(appointment, userId, calendarProvider);
   }
 
   /**
    * Execute a booking with MCP validation
    * (This performs the full booking flow with all validations)
+   * @param hold books a slot held for the patient, keeping the hold until the booking commits
    */
   async bookAppointmentWithValidation(
     patientId: string,
@@ -1104,7 +1626,9 @@ export class SchedulingService {
     payerId?: string,
     referralId?: string,
     orderId?: string,
-    organizationId?: string
+    organizationId?: string,
+    resourceIds?: string[],
+    hold?: SlotHoldBooking
   ): Promise<Appointment> {
     // Import MCP service
     const { schedulingMcpService } = await import('./scheduling-mcp-service');
@@ -1115,7 +1639,7 @@ export class SchedulingService {
       throw new Error('Slot not found');
     }
     
-    if (slot.status !== 'free') {
+    if (slot.status !== (hold ? 'busy-tentative' : 'free')) {
       throw new Error('Slot is not available');
     }
     
@@ -1139,7 +1663,8 @@ export class SchedulingService {
         patientId,
         providerId: schedule.providerId,
         startDateTime: slot.startDateTime,
-        endDateTime: slot.endDateTime
+        endDateTime: slot.endDateTime,
+        referralId
       },
       payerId
     );
@@ -1148,6 +1673,15 @@ export class SchedulingService {
       throw new Error(`Booking validation failed: ${validationResult.message}`);
     }
     
+    // A required check can't be made without a payer, so the booking is refused rather than let through
+    const missingPayerChecks = [
+      validationResult.requiresEligibility && 'eligibility',
+      validationResult.requiresPriorAuth && 'prior authorization'
+    ].filter(Boolean);
+    if (missingPayerChecks.length > 0 && !payerId) {
+      throw new Error(`Booking validation failed: ${missingPayerChecks.join(' and ')} must be checked, but no payer was given`);
+    }
+    
     // Determine if we need to check eligibility
     if (validationResult.requiresEligibility && payerId) {
       logger.info('Performing eligibility check based on MCP policy', { 
@@ -1213,8 +1747,16 @@ export class SchedulingService {
       }
     }
     
+    // A deposit required by policy rules holds the booking as pending until it is paid
+    if (validationResult.depositAmount) {
+      appointmentStatus = 'pending';
+      logger.info('Deposit required by policy rules - booking as pending', {
+        patientId, slotId, depositAmount: validationResult.depositAmount
+      });
+    }
+    
     // Create the appointment with the determined status
-    return await this.createAppointment({
+    const appointment = await this.createAppointment({
       slotId,
       patientId,
       providerId: schedule.providerId,
@@ -1229,8 +1771,17 @@ export class SchedulingService {
       referralId,
       orderId,
       eligibilityVerified: !!payerId,
-      priorAuthStatus
-    });
+      priorAuthStatus,
+      customData: validationResult.depositAmount
+        ? { depositRequired: { amount: validationResult.depositAmount } }
+        : undefined
+    }, { resourceIds, hold });
+    
+    if (validationResult.ruleTraceId) {
+      await schedulingMcpService.attachRuleTrace(validationResult.ruleTraceId, appointment.id);
+    }
+    
+    return appointment;
   }
 }
 
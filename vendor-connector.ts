@@ -0,0 +1,306 @@
+/**
+ * Wellness Vendor Connector Framework
+ *
+ * Defines the interface for wellness vendor connectors. Each vendor (or
+ * family of vendors sharing a feed format) has a connector that links
+ * employee accounts through OAuth, pulls activity incrementally from a
+ * cursor, and parses webhook pushes. Connectors only talk to the vendor;
+ * storing tokens, cursors and records is left to the vendor sync service.
+ */
+
+import axios from 'axios';
+import type {
+  VendorIntegration,
+  VendorAccountCredentials,
+  WellnessVendor
+} from '../../../shared/employer-schema';
+
+/**
+ * The integration a connector is working for. Configuration comes from the
+ * vendor's integration details overlaid with the employer integration's
+ * configuration; secrets come from the employer integration's credentials.
+ */
+export interface VendorConnectorContext {
+  vendor: WellnessVendor;
+  integration: VendorIntegration;
+  config: Record<string, any>;
+  secrets: Record<string, any>;
+}
+
+/**
+ * An activity record as delivered by a vendor, normalized
+ */
+export interface VendorActivityRecord {
+  externalId: string; // Stable vendor ID of the record
+  dataType: string; // Used as the wellness activity type
+  activityDate: Date;
+  activityData: Record<string, any>;
+  verified?: boolean; // Measured by a device rather than self-reported
+  deleted?: boolean; // Removed at the vendor
+  rawData: unknown;
+}
+
+/**
+ * A record the connector could not normalize
+ */
+export interface VendorRecordError {
+  externalId?: string;
+  message: string;
+  rawData: unknown;
+}
+
+/**
+ * One page of an incremental pull
+ */
+export interface VendorActivityPage {
+  records: VendorActivityRecord[];
+  errors: VendorRecordError[];
+  nextCursor: string | null; // Position to resume from; null keeps the current one
+  hasMore: boolean;
+}
+
+/**
+ * Activity pushed by a vendor, grouped by the vendor's account ID
+ */
+export interface VendorWebhookBatch {
+  externalAccountId: string;
+  records: VendorActivityRecord[];
+  errors: VendorRecordError[];
+}
+
+/**
+ * A webhook request as received
+ */
+export interface VendorWebhookRequest {
+  headers: Record<string, string | string[] | undefined>;
+  rawBody: Buffer;
+}
+
+/**
+ * The vendor account an authorization linked
+ */
+export interface VendorLinkResult {
+  credentials: VendorAccountCredentials;
+  externalId: string;
+  externalUsername?: string;
+}
+
+/**
+ * Raised when the vendor rejects an account's credentials, so the employee
+ * has to link the account again
+ */
+export class VendorAuthorizationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VendorAuthorizationError';
+  }
+}
+
+/**
+ * Raised when a webhook request cannot be authenticated or parsed
+ */
+export class VendorWebhookError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'VendorWebhookError';
+  }
+}
+
+/**
+ * Wellness vendor connector interface
+ * All vendor connectors must implement this interface
+ */
+export interface VendorConnector {
+  // Identification, matched against wellness_vendors.connector_type
+  readonly connectorType: string;
+
+  // Account linking
+  getAuthorizationUrl(context: VendorConnectorContext, state: string, redirectUri: string): string;
+  completeAuthorization(context: VendorConnectorContext, code: string, redirectUri: string): Promise<VendorLinkResult>;
+  refreshCredentials(context: VendorConnectorContext, credentials: VendorAccountCredentials): Promise<VendorAccountCredentials>;
+  revokeCredentials(context: VendorConnectorContext, credentials: VendorAccountCredentials): Promise<void>;
+
+  // Incremental pull; a null cursor starts from the connector's backfill window
+  fetchActivity(context: VendorConnectorContext, credentials: VendorAccountCredentials, cursor: string | null): Promise<VendorActivityPage>;
+
+  // Webhook push
+  parseWebhook(context: VendorConnectorContext, request: VendorWebhookRequest): Promise<VendorWebhookBatch[]>;
+}
+
+/**
+ * Abstract base class for vendor connectors
+ * Provides the standard OAuth 2.0 authorization code flow
+ */
+export abstract class BaseVendorConnector implements VendorConnector {
+  abstract readonly connectorType: string;
+
+  /**
+   * Pull a page of activity
+   */
+  abstract fetchActivity(context: VendorConnectorContext, credentials: VendorAccountCredentials, cursor: string | null): Promise<VendorActivityPage>;
+
+  /**
+   * Authenticate and parse a webhook request
+   */
+  abstract parseWebhook(context: VendorConnectorContext, request: VendorWebhookRequest): Promise<VendorWebhookBatch[]>;
+
+  /**
+   * Identify the vendor account that tokens belong to
+   */
+  protected abstract getAccountIdentity(
+    context: VendorConnectorContext,
+    credentials: VendorAccountCredentials
+  ): Promise<{ externalId: string; externalUsername?: string }>;
+
+  /**
+   * Get the vendor's authorization URL for redirect
+   */
+  getAuthorizationUrl(context: VendorConnectorContext, state: string, redirectUri: string): string {
+    const params = new URLSearchParams({
+      client_id: this.requireSecret(context, 'clientId'),
+      redirect_uri: redirectUri,
+      response_type: 'code',
+      state
+    });
+
+    const scopes: string[] = context.config.scopes || [];
+    if (scopes.length > 0) {
+      params.append('scope', scopes.join(' '));
+    }
+
+    return `${this.requireConfig(context, 'authorizationUrl')}?${params.toString()}`;
+  }
+
+  /**
+   * Exchange an authorization code for tokens and identify the account
+   */
+  async completeAuthorization(context: VendorConnectorContext, code: string, redirectUri: string): Promise<VendorLinkResult> {
+    const credentials = await this.requestTokens(context, {
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri
+    });
+    const identity = await this.getAccountIdentity(context, credentials);
+    return { credentials, ...identity };
+  }
+
+  /**
+   * Refresh an access token. The refresh token is kept if the vendor does not rotate it.
+   */
+  async refreshCredentials(context: VendorConnectorContext, credentials: VendorAccountCredentials): Promise<VendorAccountCredentials> {
+    if (!credentials.refreshToken) {
+      throw new VendorAuthorizationError('Access token expired and no refresh token was issued');
+    }
+
+    const refreshed = await this.requestTokens(context, {
+      grant_type: 'refresh_token',
+      refresh_token: credentials.refreshToken
+    });
+    return { ...refreshed, refreshToken: refreshed.refreshToken || credentials.refreshToken };
+  }
+
+  /**
+   * Revoke tokens, if the vendor has a revocation endpoint
+   */
+  async revokeCredentials(context: VendorConnectorContext, credentials: VendorAccountCredentials): Promise<void> {
+    if (!context.config.revocationUrl) {
+      return;
+    }
+
+    await axios.post(
+      context.config.revocationUrl,
+      new URLSearchParams({
+        token: credentials.refreshToken || credentials.accessToken,
+        client_id: this.requireSecret(context, 'clientId'),
+        client_secret: this.requireSecret(context, 'clientSecret')
+      }).toString(),
+      { headers: { 'Content-Type': 'application/x-www-form-urlencoded' }, timeout: 10000 }
+    );
+  }
+
+  /**
+   * Request tokens from the token endpoint
+   */
+  protected async requestTokens(context: VendorConnectorContext, grant: Record<string, string>): Promise<VendorAccountCredentials> {
+    try {
+      const response = await axios.post(
+        this.requireConfig(context, 'tokenUrl'),
+        new URLSearchParams({
+          ...grant,
+          client_id: this.requireSecret(context, 'clientId'),
+          client_secret: this.requireSecret(context, 'clientSecret')
+        }).toString(),
+        { headers: { 'Content-Type': 'application/x-www-form-urlencoded' }, timeout: 10000 }
+      );
+
+      const data = response.data;
+      if (!data?.access_token) {
+        throw new Error('Token response did not include an access token');
+      }
+
+      return {
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token,
+        tokenType: data.token_type,
+        scope: data.scope,
+        expiresAt: data.expires_in ? new Date(Date.now() + Number(data.expires_in) * 1000).toISOString() : undefined
+      };
+    } catch (error) {
+      // invalid_grant and similar: the code or refresh token is no good
+      if (axios.isAxiosError(error) && error.response && error.response.status >= 400 && error.response.status < 500) {
+        throw new VendorAuthorizationError(`Token request rejected: ${error.response.data?.error || error.response.status}`);
+      }
+      throw error;
+    }
+  }
+
+  protected requireConfig(context: VendorConnectorContext, key: string): string {
+    const value = context.config[key];
+    if (!value) {
+      throw new Error(`Vendor integration ${context.integration.id} is missing configuration ${key}`);
+    }
+    return value;
+  }
+
+  protected requireSecret(context: VendorConnectorContext, key: string): string {
+    const value = context.secrets[key];
+    if (!value) {
+      throw new Error(`Vendor integration ${context.integration.id} is missing credential ${key}`);
+    }
+    return value;
+  }
+}
+
+/**
+ * Vendor connector registry
+ */
+export class VendorConnectorRegistry {
+  private connectors: Map<string, VendorConnector> = new Map();
+
+  /**
+   * Register a vendor connector
+   */
+  registerConnector(connector: VendorConnector): void {
+    this.connectors.set(connector.connectorType, connector);
+  }
+
+  /**
+   * Get the connector of a connector type
+   */
+  getConnector(connectorType: string): VendorConnector {
+    const connector = this.connectors.get(connectorType);
+
+    if (!connector) {
+      throw new Error(`No vendor connector registered for ${connectorType}`);
+    }
+
+    return connector;
+  }
+
+  /**
+   * Get the registered connector types
+   */
+  getConnectorTypes(): string[] {
+    return Array.from(this.connectors.keys());
+  }
+}
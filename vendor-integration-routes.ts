@@ -0,0 +1,319 @@
+/**
+ * Wellness Vendor Integration API Routes
+ *
+ * Linking employee accounts at wellness vendors, on-demand syncs, sync run
+ * history, and the webhook endpoint vendors push activity to.
+ */
+
+import express from 'express';
+import { z } from 'zod';
+import logger from '../../utils/logger';
+import { vendorSyncService, VendorIntegrationError } from './vendor-sync-service';
+import { VendorWebhookError } from './vendor-connector';
+
+// Create a router
+const router = express.Router();
+
+// Middleware to check if the user is authenticated
+const isAuthenticated = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'Not authenticated' });
+  }
+  next();
+};
+
+// Middleware to check if the user has admin permissions
+const isAdmin = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'Not authenticated' });
+  }
+  if (req.user?.role !== 'admin') {
+    return res.status(403).json({ message: 'Forbidden: Admin access required' });
+  }
+  next();
+};
+
+const startLinkSchema = z.object({
+  redirectUri: z.string().url()
+});
+
+const completeLinkSchema = z.object({
+  state: z.string().min(1),
+  code: z.string().min(1),
+  redirectUri: z.string().url()
+});
+
+/**
+ * Send an error, using the status of vendor integration errors
+ */
+function sendError(res: express.Response, error: unknown, action: string, invalidMessage: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: invalidMessage, errors: error.errors });
+  }
+  if (error instanceof VendorIntegrationError || error instanceof VendorWebhookError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+
+  logger.error(`Error ${action}`, { error: (error as Error).message });
+  res.status(500).json({ message: `Failed ${action}`, error: (error as Error).message });
+}
+
+/**
+ * Whether the current user may act on an account: its employee, or an admin
+ */
+async function canAccessAccount(req: express.Request, accountId: string): Promise<boolean> {
+  if (req.user?.role === 'admin') {
+    return true;
+  }
+  const accounts = await vendorSyncService.getUserAccounts(String(req.user!.id));
+  return accounts.some(account => account.id === accountId);
+}
+
+/**
+ * @swagger
+ * /api/wellness-vendors/accounts:
+ *   get:
+ *     summary: Get the current user's linked vendor accounts
+ *     tags: [Wellness Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Vendor accounts, without their tokens
+ *       401:
+ *         description: Not authenticated
+ */
+router.get('/accounts', isAuthenticated, async (req, res) => {
+  try {
+    const accounts = await vendorSyncService.getUserAccounts(String(req.user!.id));
+    res.json(accounts);
+  } catch (error) {
+    sendError(res, error, 'getting vendor accounts', 'Invalid request');
+  }
+});
+
+/**
+ * @swagger
+ * /api/wellness-vendors/integrations/{integrationId}/link:
+ *   post:
+ *     summary: Start linking the current user's account at a vendor
+ *     tags: [Wellness Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     description: >
+ *       Returns the vendor's authorization URL. The vendor redirects back to
+ *       redirectUri with a code and state, which complete the link.
+ *     responses:
+ *       200:
+ *         description: Account ID and authorization URL
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: No employee record for the user at the integration's employer
+ *       409:
+ *         description: Integration is not active
+ *       422:
+ *         description: Vendor has no activity connector
+ */
+router.post('/integrations/:integrationId/link', isAuthenticated, async (req, res) => {
+  try {
+    const { redirectUri } = startLinkSchema.parse(req.body);
+    const employee = await vendorSyncService.findEmployeeForUser(String(req.user!.id), req.params.integrationId);
+    if (!employee) {
+      return res.status(404).json({ message: 'Vendor integration not found' });
+    }
+
+    const { account, authorizationUrl } = await vendorSyncService.startAccountLink(employee.id, req.params.integrationId, redirectUri);
+    res.json({ accountId: account.id, authorizationUrl });
+  } catch (error) {
+    sendError(res, error, 'starting vendor account link', 'Invalid link request');
+  }
+});
+
+/**
+ * @swagger
+ * /api/wellness-vendors/link/callback:
+ *   post:
+ *     summary: Complete linking a vendor account with the code the vendor returned
+ *     tags: [Wellness Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     description: The account's activity backfill is pulled in the background.
+ *     responses:
+ *       200:
+ *         description: Linked account
+ *       400:
+ *         description: Invalid request, or unknown or expired state
+ *       401:
+ *         description: Not authenticated
+ *       409:
+ *         description: The vendor account is linked to another employee
+ */
+router.post('/link/callback', isAuthenticated, async (req, res) => {
+  try {
+    const { state, code, redirectUri } = completeLinkSchema.parse(req.body);
+    const { credentials, linkState, ...account } = await vendorSyncService.completeAccountLink(state, code, redirectUri, String(req.user!.id));
+    res.json(account);
+  } catch (error) {
+    sendError(res, error, 'completing vendor account link', 'Invalid link callback');
+  }
+});
+
+/**
+ * @swagger
+ * /api/wellness-vendors/accounts/{id}:
+ *   delete:
+ *     summary: Unlink a vendor account
+ *     tags: [Wellness Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Revokes the account's tokens where the vendor supports it. Activity already synced is kept.
+ *     responses:
+ *       204:
+ *         description: Account unlinked
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Account not found
+ */
+router.delete('/accounts/:id', isAuthenticated, async (req, res) => {
+  try {
+    if (!(await canAccessAccount(req, req.params.id))) {
+      return res.status(404).json({ message: 'Vendor account not found' });
+    }
+
+    const account = await vendorSyncService.unlinkAccount(req.params.id);
+    if (!account) {
+      return res.status(404).json({ message: 'Vendor account not found' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    sendError(res, error, 'unlinking vendor account', 'Invalid request');
+  }
+});
+
+/**
+ * @swagger
+ * /api/wellness-vendors/accounts/{id}/sync:
+ *   post:
+ *     summary: Pull a vendor account's activity now
+ *     tags: [Wellness Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The sync run, with its record counts and errors
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Account not found
+ *       409:
+ *         description: Account is not connected or is already syncing
+ */
+router.post('/accounts/:id/sync', isAuthenticated, async (req, res) => {
+  try {
+    if (!(await canAccessAccount(req, req.params.id))) {
+      return res.status(404).json({ message: 'Vendor account not found' });
+    }
+
+    const run = await vendorSyncService.syncAccount(req.params.id);
+    res.json(run);
+  } catch (error) {
+    sendError(res, error, 'syncing vendor account', 'Invalid request');
+  }
+});
+
+/**
+ * @swagger
+ * /api/wellness-vendors/accounts/{id}/runs:
+ *   get:
+ *     summary: Get a vendor account's sync runs
+ *     tags: [Wellness Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sync runs, newest first
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Account not found
+ */
+router.get('/accounts/:id/runs', isAuthenticated, async (req, res) => {
+  try {
+    if (!(await canAccessAccount(req, req.params.id))) {
+      return res.status(404).json({ message: 'Vendor account not found' });
+    }
+
+    const runs = await vendorSyncService.getAccountSyncRuns(req.params.id);
+    res.json(runs);
+  } catch (error) {
+    sendError(res, error, 'getting vendor sync runs', 'Invalid request');
+  }
+});
+
+/**
+ * @swagger
+ * /api/wellness-vendors/integrations/{integrationId}/runs:
+ *   get:
+ *     summary: Get an integration's sync runs, including webhook deliveries
+ *     tags: [Wellness Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sync runs, newest first
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - admin access required
+ */
+router.get('/integrations/:integrationId/runs', isAdmin, async (req, res) => {
+  try {
+    const runs = await vendorSyncService.getIntegrationSyncRuns(req.params.integrationId);
+    res.json(runs);
+  } catch (error) {
+    sendError(res, error, 'getting vendor integration sync runs', 'Invalid request');
+  }
+});
+
+/**
+ * @swagger
+ * /api/wellness-vendors/webhooks/{integrationId}:
+ *   post:
+ *     summary: Receive activity pushed by a vendor
+ *     tags: [Wellness Vendors]
+ *     description: >
+ *       The vendor's connector authenticates the request (e.g. by signature),
+ *       so no session is needed. The body must reach this route unparsed.
+ *     responses:
+ *       202:
+ *         description: Delivery recorded as a sync run
+ *       400:
+ *         description: Invalid webhook body
+ *       401:
+ *         description: Webhook could not be authenticated
+ *       404:
+ *         description: Integration not found
+ */
+router.post('/webhooks/:integrationId', express.raw({ type: () => true, limit: '5mb' }), async (req, res) => {
+  try {
+    if (!Buffer.isBuffer(req.body)) {
+      logger.error('Vendor webhook body was parsed before reaching the webhook route');
+      return res.status(400).json({ message: 'Webhook body could not be read' });
+    }
+
+    const run = await vendorSyncService.handleWebhook(req.params.integrationId, {
+      headers: req.headers,
+      rawBody: req.body
+    });
+    res.status(202).json({ runId: run.id, status: run.status });
+  } catch (error) {
+    sendError(res, error, 'receiving vendor webhook', 'Invalid webhook');
+  }
+});
+
+export default router;
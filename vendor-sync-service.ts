@@ -0,0 +1,721 @@
+/**
+ * Smart Health Hub - Vendor Sync Service
+ *
+ * Connects employee accounts at wellness vendors and brings their activity in
+ * through the vendor's connector (see vendor-connector). Accounts are linked
+ * through OAuth, activity is pulled incrementally from each account's cursor
+ * and pushed by vendor webhooks. The records a sync delivers are stored in
+ * vendor_activity_sync, one row per vendor record, deduplicated by the
+ * vendor's record ID, with the cursor of the page that delivered it and any
+ * processing error, and handed to the incentive engine. A record the vendor
+ * revises or deletes invalidates the activity it created.
+ *
+ * The run itself (one pull or webhook delivery: the cursor it started from
+ * and reached, its counts and errors) is a vendor_sync_runs row that its
+ * records point to. vendor_activity_sync has a row per record, so it cannot
+ * also hold the run, and a run that fails before any record arrives would
+ * otherwise leave no trace.
+ */
+
+import { eq, and, or, isNull, lt, gte, desc, inArray } from 'drizzle-orm';
+import { createHash, randomBytes } from 'crypto';
+import { db } from '../../db';
+import logger from '../../utils/logger';
+import {
+  employees,
+  wellnessActivities,
+  wellnessVendors,
+  employerVendorIntegrations,
+  employeeVendorAccounts,
+  vendorSyncRuns,
+  vendorActivitySync,
+  type Employee,
+  type EmployeeVendorAccount,
+  type VendorAccountCredentials,
+  type VendorSyncError,
+  type VendorSyncRun
+} from '../../../shared/employer-schema';
+import {
+  VendorConnectorRegistry,
+  VendorAuthorizationError,
+  type VendorActivityRecord,
+  type VendorConnector,
+  type VendorConnectorContext,
+  type VendorRecordError,
+  type VendorWebhookRequest
+} from './vendor-connector';
+import { GenericActivityFeedConnector } from './generic-activity-feed-connector';
+import { incentiveEngineService } from './incentive-engine-service';
+
+const LINK_STATE_TTL_MS = 10 * 60 * 1000;
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+const DEFAULT_MAX_PAGES = 20;
+// A run still marked running after this long is assumed to have died
+const STALE_RUN_MS = 30 * 60 * 1000;
+
+/**
+ * A vendor integration request that cannot be carried out, with the HTTP status to report
+ */
+export class VendorIntegrationError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 409
+  ) {
+    super(message);
+    this.name = 'VendorIntegrationError';
+  }
+}
+
+/**
+ * Counts kept while storing records for a sync run
+ */
+interface RunTally {
+  recordsReceived: number;
+  recordsCreated: number;
+  recordsUpdated: number;
+  recordsDuplicate: number;
+  recordsFailed: number;
+  errors: VendorSyncError[];
+}
+
+/**
+ * Vendor Sync Service
+ */
+export class VendorSyncService {
+  constructor(private readonly connectors: VendorConnectorRegistry) {}
+
+  // ============================================================================
+  // Account Linking
+  // ============================================================================
+
+  /**
+   * Start linking an employee's account at a vendor. Returns the URL to send
+   * the employee to; the vendor redirects back to redirectUri with the state.
+   */
+  async startAccountLink(
+    employeeId: string,
+    integrationId: string,
+    redirectUri: string
+  ): Promise<{ account: EmployeeVendorAccount; authorizationUrl: string }> {
+    try {
+      const { connector, context } = await this.getConnector(integrationId);
+      if (context.integration.status !== 'active') {
+        throw new VendorIntegrationError(`Vendor integration ${integrationId} is not active`);
+      }
+
+      const [employee] = await db.select().from(employees).where(eq(employees.id, employeeId));
+      if (!employee || employee.employerId !== context.integration.employerId) {
+        throw new VendorIntegrationError(`Employee ${employeeId} not found for this integration`, 404);
+      }
+
+      const state = randomBytes(32).toString('hex');
+      const now = new Date();
+      const linkState = { linkState: state, linkStateExpiresAt: new Date(now.getTime() + LINK_STATE_TTL_MS) };
+
+      const [existing] = await db
+        .select()
+        .from(employeeVendorAccounts)
+        .where(and(eq(employeeVendorAccounts.employeeId, employeeId), eq(employeeVendorAccounts.integrationId, integrationId)));
+
+      const [account] = existing
+        ? await db
+          .update(employeeVendorAccounts)
+          .set({
+            ...linkState,
+            // A connected account stays connected until the new authorization completes
+            accountStatus: existing.accountStatus === 'connected' ? 'connected' : 'pending_authorization',
+            updatedAt: now
+          })
+          .where(eq(employeeVendorAccounts.id, existing.id))
+          .returning()
+        : await db
+          .insert(employeeVendorAccounts)
+          .values({ employeeId, integrationId, accountStatus: 'pending_authorization', ...linkState, createdAt: now })
+          .returning();
+
+      return { account, authorizationUrl: connector.getAuthorizationUrl(context, state, redirectUri) };
+    } catch (error) {
+      logger.error(`Error starting vendor account link for employee ${employeeId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Complete linking with the code the vendor redirected back with, then pull
+   * the account's backfill in the background
+   */
+  async completeAccountLink(state: string, code: string, redirectUri: string, userId: string): Promise<EmployeeVendorAccount> {
+    try {
+      const [row] = await db
+        .select({ account: employeeVendorAccounts, userId: employees.userId })
+        .from(employeeVendorAccounts)
+        .innerJoin(employees, eq(employees.id, employeeVendorAccounts.employeeId))
+        .where(eq(employeeVendorAccounts.linkState, state));
+      const pending = row?.account;
+      // The link must be completed by the user who started it
+      if (!pending || row.userId !== userId || !pending.linkStateExpiresAt || pending.linkStateExpiresAt < new Date()) {
+        throw new VendorIntegrationError('Account link request not found or expired', 400);
+      }
+
+      const { connector, context } = await this.getConnector(pending.integrationId);
+      const link = await connector.completeAuthorization(context, code, redirectUri);
+
+      const [linkedElsewhere] = await db
+        .select({ id: employeeVendorAccounts.id })
+        .from(employeeVendorAccounts)
+        .where(
+          and(
+            eq(employeeVendorAccounts.integrationId, pending.integrationId),
+            eq(employeeVendorAccounts.externalId, link.externalId),
+            eq(employeeVendorAccounts.accountStatus, 'connected')
+          )
+        );
+      if (linkedElsewhere && linkedElsewhere.id !== pending.id) {
+        throw new VendorIntegrationError('This vendor account is already linked to another employee');
+      }
+
+      const now = new Date();
+      // A different vendor account starts from the backfill again
+      const syncCursor = pending.externalId && pending.externalId !== link.externalId ? null : pending.syncCursor;
+      const [account] = await db
+        .update(employeeVendorAccounts)
+        .set({
+          externalId: link.externalId,
+          externalUsername: link.externalUsername,
+          credentials: link.credentials,
+          accountStatus: 'connected',
+          connectDate: now,
+          linkState: null,
+          linkStateExpiresAt: null,
+          syncCursor,
+          updatedAt: now
+        })
+        .where(eq(employeeVendorAccounts.id, pending.id))
+        .returning();
+
+      logger.info(`Linked vendor account ${account.id} for employee ${account.employeeId} (${link.externalId})`);
+
+      this.syncAccount(account.id).catch(error => {
+        logger.error(`Error in initial sync of vendor account ${account.id}:`, error);
+      });
+
+      return account;
+    } catch (error) {
+      logger.error('Error completing vendor account link:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Disconnect an account, revoking its tokens at the vendor where supported.
+   * Activity already brought in is kept.
+   */
+  async unlinkAccount(accountId: string): Promise<EmployeeVendorAccount | undefined> {
+    try {
+      const [account] = await db.select().from(employeeVendorAccounts).where(eq(employeeVendorAccounts.id, accountId));
+      if (!account) {
+        return undefined;
+      }
+
+      if (account.credentials) {
+        try {
+          const { connector, context } = await this.getConnector(account.integrationId);
+          await connector.revokeCredentials(context, account.credentials);
+        } catch (error) {
+          logger.warn(`Could not revoke vendor tokens for account ${accountId}:`, error);
+        }
+      }
+
+      const [updated] = await db
+        .update(employeeVendorAccounts)
+        .set({ accountStatus: 'disconnected', credentials: null, syncCursor: null, linkState: null, linkStateExpiresAt: null, updatedAt: new Date() })
+        .where(eq(employeeVendorAccounts.id, accountId))
+        .returning();
+
+      logger.info(`Unlinked vendor account ${accountId}`);
+      return updated;
+    } catch (error) {
+      logger.error(`Error unlinking vendor account ${accountId}:`, error);
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // Pull
+  // ============================================================================
+
+  /**
+   * Pull an account's activity from its cursor, a page at a time. The cursor
+   * is saved after each page, so a failed run resumes where it stopped.
+   */
+  async syncAccount(accountId: string, maxPages: number = DEFAULT_MAX_PAGES): Promise<VendorSyncRun> {
+    const [account] = await db.select().from(employeeVendorAccounts).where(eq(employeeVendorAccounts.id, accountId));
+    if (!account) {
+      throw new VendorIntegrationError(`Vendor account ${accountId} not found`, 404);
+    }
+    if (account.accountStatus !== 'connected' || !account.credentials) {
+      throw new VendorIntegrationError(`Vendor account ${accountId} is not connected`);
+    }
+
+    const [running] = await db
+      .select({ id: vendorSyncRuns.id })
+      .from(vendorSyncRuns)
+      .where(
+        and(
+          eq(vendorSyncRuns.employeeVendorAccountId, accountId),
+          eq(vendorSyncRuns.status, 'running'),
+          gte(vendorSyncRuns.startedAt, new Date(Date.now() - STALE_RUN_MS))
+        )
+      );
+    if (running) {
+      throw new VendorIntegrationError(`Vendor account ${accountId} is already syncing (run ${running.id})`);
+    }
+
+    const [run] = await db
+      .insert(vendorSyncRuns)
+      .values({
+        integrationId: account.integrationId,
+        employeeVendorAccountId: accountId,
+        trigger: 'pull',
+        cursorBefore: account.syncCursor
+      })
+      .returning();
+
+    const tally = newTally();
+    let cursor = account.syncCursor;
+    let failure: Error | undefined;
+
+    try {
+      const { connector, context } = await this.getConnector(account.integrationId);
+      const credentials = await this.freshCredentials(connector, context, account);
+
+      for (let page = 0; page < maxPages; page++) {
+        const result = await connector.fetchActivity(context, credentials, cursor);
+        await this.storeRecords(account.id, run.id, cursor, result.records, tally);
+        recordErrors(result.errors, tally);
+
+        cursor = result.nextCursor ?? cursor;
+        await db
+          .update(employeeVendorAccounts)
+          .set({ syncCursor: cursor, updatedAt: new Date() })
+          .where(eq(employeeVendorAccounts.id, accountId));
+
+        if (!result.hasMore) {
+          break;
+        }
+      }
+    } catch (error) {
+      failure = error as Error;
+      tally.errors.push({ message: failure.message });
+
+      if (error instanceof VendorAuthorizationError) {
+        await db
+          .update(employeeVendorAccounts)
+          .set({ accountStatus: 'reauthorization_required', updatedAt: new Date() })
+          .where(eq(employeeVendorAccounts.id, accountId));
+        logger.warn(`Vendor account ${accountId} needs to be linked again: ${failure.message}`);
+      } else {
+        logger.error(`Error syncing vendor account ${accountId}:`, error);
+      }
+    }
+
+    const now = new Date();
+    if (!failure) {
+      await db
+        .update(employeeVendorAccounts)
+        .set({ lastSyncDate: now, updatedAt: now })
+        .where(eq(employeeVendorAccounts.id, accountId));
+      await db
+        .update(employerVendorIntegrations)
+        .set({ lastSyncDate: now })
+        .where(eq(employerVendorIntegrations.id, account.integrationId));
+    }
+
+    return await this.finishRun(run.id, tally, failure, cursor);
+  }
+
+  /**
+   * Pull every connected account of active integrations not synced within the interval
+   */
+  async syncDueAccounts(staleAfterMs: number = 60 * 60 * 1000): Promise<{ succeeded: number; failed: number }> {
+    const due = await db
+      .select({ id: employeeVendorAccounts.id })
+      .from(employeeVendorAccounts)
+      .innerJoin(employerVendorIntegrations, eq(employerVendorIntegrations.id, employeeVendorAccounts.integrationId))
+      .where(
+        and(
+          eq(employeeVendorAccounts.accountStatus, 'connected'),
+          eq(employerVendorIntegrations.status, 'active'),
+          or(
+            isNull(employeeVendorAccounts.lastSyncDate),
+            lt(employeeVendorAccounts.lastSyncDate, new Date(Date.now() - staleAfterMs))
+          )
+        )
+      );
+
+    const result = { succeeded: 0, failed: 0 };
+    for (const { id } of due) {
+      try {
+        const run = await this.syncAccount(id);
+        if (run.status === 'failed') {
+          result.failed++;
+        } else {
+          result.succeeded++;
+        }
+      } catch (error) {
+        logger.error(`Error syncing vendor account ${id}:`, error);
+        result.failed++;
+      }
+    }
+
+    if (due.length > 0) {
+      logger.info('Vendor account sync complete', result);
+    }
+    return result;
+  }
+
+  /**
+   * Start pulling due accounts on a timer
+   */
+  startPeriodicSync(intervalMs: number = 15 * 60 * 1000, staleAfterMs?: number): void {
+    setInterval(() => {
+      this.syncDueAccounts(staleAfterMs).catch(error => {
+        logger.error('Error in periodic vendor sync:', error);
+      });
+    }, intervalMs).unref();
+  }
+
+  // ============================================================================
+  // Webhooks
+  // ============================================================================
+
+  /**
+   * Ingest a webhook delivery for an integration. The connector authenticates
+   * the request; activity for accounts that are not connected is rejected.
+   */
+  async handleWebhook(integrationId: string, request: VendorWebhookRequest): Promise<VendorSyncRun> {
+    const { connector, context } = await this.getConnector(integrationId);
+    const batches = await connector.parseWebhook(context, request);
+
+    const [run] = await db
+      .insert(vendorSyncRuns)
+      .values({ integrationId, trigger: 'webhook' })
+      .returning();
+
+    const tally = newTally();
+    let failure: Error | undefined;
+    try {
+      const externalIds = batches.map(batch => batch.externalAccountId);
+      const accounts = externalIds.length === 0 ? [] : await db
+        .select()
+        .from(employeeVendorAccounts)
+        .where(
+          and(
+            eq(employeeVendorAccounts.integrationId, integrationId),
+            eq(employeeVendorAccounts.accountStatus, 'connected'),
+            inArray(employeeVendorAccounts.externalId, externalIds)
+          )
+        );
+      const accountsByExternalId = new Map(accounts.map(account => [account.externalId!, account]));
+
+      for (const batch of batches) {
+        const account = accountsByExternalId.get(batch.externalAccountId);
+        if (!account) {
+          tally.recordsReceived += batch.records.length;
+          tally.recordsFailed += batch.records.length;
+          tally.errors.push({ message: `No connected account for vendor user ${batch.externalAccountId}` });
+          continue;
+        }
+
+        await this.storeRecords(account.id, run.id, null, batch.records, tally);
+        recordErrors(batch.errors, tally);
+      }
+    } catch (error) {
+      failure = error as Error;
+      tally.errors.push({ message: failure.message });
+      logger.error(`Error ingesting webhook for vendor integration ${integrationId}:`, error);
+    }
+
+    return await this.finishRun(run.id, tally, failure, null);
+  }
+
+  // ============================================================================
+  // Runs
+  // ============================================================================
+
+  /**
+   * Get the sync runs of an account, newest first
+   */
+  async getAccountSyncRuns(accountId: string, limit: number = 50): Promise<VendorSyncRun[]> {
+    try {
+      return await db
+        .select()
+        .from(vendorSyncRuns)
+        .where(eq(vendorSyncRuns.employeeVendorAccountId, accountId))
+        .orderBy(desc(vendorSyncRuns.startedAt))
+        .limit(limit);
+    } catch (error) {
+      logger.error(`Error getting sync runs for vendor account ${accountId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the sync runs of an integration (pulls and webhook deliveries), newest first
+   */
+  async getIntegrationSyncRuns(integrationId: string, limit: number = 50): Promise<VendorSyncRun[]> {
+    try {
+      return await db
+        .select()
+        .from(vendorSyncRuns)
+        .where(eq(vendorSyncRuns.integrationId, integrationId))
+        .orderBy(desc(vendorSyncRuns.startedAt))
+        .limit(limit);
+    } catch (error) {
+      logger.error(`Error getting sync runs for vendor integration ${integrationId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the vendor accounts of a user's employee records, without their tokens
+   */
+  async getUserAccounts(userId: string): Promise<Omit<EmployeeVendorAccount, 'credentials' | 'linkState'>[]> {
+    try {
+      const rows = await db
+        .select({ account: employeeVendorAccounts })
+        .from(employeeVendorAccounts)
+        .innerJoin(employees, eq(employees.id, employeeVendorAccounts.employeeId))
+        .where(eq(employees.userId, userId));
+      return rows.map(({ account: { credentials, linkState, ...account } }) => account);
+    } catch (error) {
+      logger.error(`Error getting vendor accounts for user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a user's employee record at the employer of an integration
+   */
+  async findEmployeeForUser(userId: string, integrationId: string): Promise<Employee | undefined> {
+    try {
+      const [row] = await db
+        .select({ employee: employees })
+        .from(employees)
+        .innerJoin(employerVendorIntegrations, eq(employerVendorIntegrations.employerId, employees.employerId))
+        .where(and(eq(employees.userId, userId), eq(employerVendorIntegrations.id, integrationId)));
+      return row?.employee;
+    } catch (error) {
+      logger.error(`Error finding employee of user ${userId} for vendor integration ${integrationId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store delivered records, deduplicated by the vendor's record ID. A revised
+   * record goes back to pending and a deleted one is marked deleted; either
+   * way the activity it created is invalidated.
+   */
+  private async storeRecords(
+    accountId: string,
+    runId: string,
+    cursor: string | null,
+    records: VendorActivityRecord[],
+    tally: RunTally
+  ): Promise<void> {
+    for (const record of records) {
+      tally.recordsReceived++;
+      try {
+        const contentHash = recordHash(record);
+        const [existing] = await db
+          .select()
+          .from(vendorActivitySync)
+          .where(
+            and(
+              eq(vendorActivitySync.employeeVendorAccountId, accountId),
+              eq(vendorActivitySync.dataType, record.dataType),
+              eq(vendorActivitySync.externalId, record.externalId)
+            )
+          );
+
+        if (existing ? existing.contentHash === contentHash : record.deleted) {
+          tally.recordsDuplicate++;
+          continue;
+        }
+
+        const now = new Date();
+        const values = {
+          syncRunId: runId,
+          syncDate: now,
+          activityDate: record.activityDate,
+          contentHash,
+          syncCursor: cursor,
+          rawData: record.rawData,
+          processedData: { activityType: record.dataType, verified: record.verified ?? false, activityData: record.activityData },
+          status: record.deleted ? 'deleted' : 'pending',
+          processedAt: null,
+          activityId: null,
+          errorDetails: null
+        };
+
+        if (!existing) {
+          const inserted = await db
+            .insert(vendorActivitySync)
+            .values({ ...values, employeeVendorAccountId: accountId, dataType: record.dataType, externalId: record.externalId, createdAt: now })
+            .onConflictDoNothing()
+            .returning({ id: vendorActivitySync.id });
+          // Delivered concurrently by another run
+          if (inserted.length === 0) {
+            tally.recordsDuplicate++;
+          } else {
+            tally.recordsCreated++;
+          }
+          continue;
+        }
+
+        if (existing.activityId) {
+          await this.invalidateSyncedActivity(existing.activityId, record.deleted ? 'Deleted by vendor' : 'Revised by vendor');
+        }
+        await db
+          .update(vendorActivitySync)
+          .set({ ...values, updatedAt: now })
+          .where(eq(vendorActivitySync.id, existing.id));
+        tally.recordsUpdated++;
+      } catch (error) {
+        tally.recordsFailed++;
+        tally.errors.push({ externalId: record.externalId, message: (error as Error).message });
+        logger.error(`Error storing vendor record ${record.externalId} for account ${accountId}:`, error);
+      }
+    }
+  }
+
+  private async invalidateSyncedActivity(activityId: string, reason: string): Promise<void> {
+    const [activity] = await db
+      .select({ status: wellnessActivities.status })
+      .from(wellnessActivities)
+      .where(eq(wellnessActivities.id, activityId));
+    if (activity && activity.status !== 'invalidated') {
+      await incentiveEngineService.invalidateActivity(activityId, reason, 'vendor_sync');
+    }
+  }
+
+  /**
+   * Record a run's outcome, then hand new records to the incentive engine
+   */
+  private async finishRun(runId: string, tally: RunTally, failure: Error | undefined, cursorAfter: string | null): Promise<VendorSyncRun> {
+    const status = failure ? 'failed' : tally.recordsFailed > 0 ? 'partial' : 'succeeded';
+    const [run] = await db
+      .update(vendorSyncRuns)
+      .set({
+        status,
+        cursorAfter,
+        recordsReceived: tally.recordsReceived,
+        recordsCreated: tally.recordsCreated,
+        recordsUpdated: tally.recordsUpdated,
+        recordsDuplicate: tally.recordsDuplicate,
+        recordsFailed: tally.recordsFailed,
+        errorDetails: tally.errors.length > 0 ? tally.errors : null,
+        finishedAt: new Date()
+      })
+      .where(eq(vendorSyncRuns.id, runId))
+      .returning();
+
+    logger.info(`Vendor sync run ${runId} ${status}`, {
+      received: tally.recordsReceived,
+      created: tally.recordsCreated,
+      updated: tally.recordsUpdated,
+      duplicate: tally.recordsDuplicate,
+      failed: tally.recordsFailed
+    });
+
+    if (tally.recordsCreated > 0 || tally.recordsUpdated > 0) {
+      try {
+        await incentiveEngineService.processVendorActivitySyncs();
+      } catch (error) {
+        logger.error(`Error processing activity from vendor sync run ${runId}:`, error);
+      }
+    }
+
+    return run;
+  }
+
+  /**
+   * The account's credentials, refreshed and saved if about to expire
+   */
+  private async freshCredentials(
+    connector: VendorConnector,
+    context: VendorConnectorContext,
+    account: EmployeeVendorAccount
+  ): Promise<VendorAccountCredentials> {
+    const credentials = account.credentials!;
+    if (!credentials.expiresAt || new Date(credentials.expiresAt).getTime() - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+      return credentials;
+    }
+
+    const refreshed = await connector.refreshCredentials(context, credentials);
+    await db
+      .update(employeeVendorAccounts)
+      .set({ credentials: refreshed, updatedAt: new Date() })
+      .where(eq(employeeVendorAccounts.id, account.id));
+    return refreshed;
+  }
+
+  /**
+   * The connector of an integration's vendor, with the integration's configuration
+   */
+  private async getConnector(integrationId: string): Promise<{ connector: VendorConnector; context: VendorConnectorContext }> {
+    const [row] = await db
+      .select({ integration: employerVendorIntegrations, vendor: wellnessVendors })
+      .from(employerVendorIntegrations)
+      .innerJoin(wellnessVendors, eq(wellnessVendors.id, employerVendorIntegrations.vendorId))
+      .where(eq(employerVendorIntegrations.id, integrationId));
+
+    if (!row) {
+      throw new VendorIntegrationError(`Vendor integration ${integrationId} not found`, 404);
+    }
+    if (!row.vendor.connectorType) {
+      throw new VendorIntegrationError(`Vendor ${row.vendor.name} has no activity connector`, 422);
+    }
+
+    return {
+      connector: this.connectors.getConnector(row.vendor.connectorType),
+      context: {
+        vendor: row.vendor,
+        integration: row.integration,
+        config: {
+          ...((row.vendor.integrationDetails as Record<string, any> | null) || {}),
+          ...((row.integration.configData as Record<string, any> | null) || {})
+        },
+        secrets: (row.integration.credentials as Record<string, any> | null) || {}
+      }
+    };
+  }
+}
+
+function newTally(): RunTally {
+  return { recordsReceived: 0, recordsCreated: 0, recordsUpdated: 0, recordsDuplicate: 0, recordsFailed: 0, errors: [] };
+}
+
+function recordErrors(errors: VendorRecordError[], tally: RunTally): void {
+  for (const error of errors) {
+    tally.recordsReceived++;
+    tally.recordsFailed++;
+    tally.errors.push({ externalId: error.externalId, message: error.message, details: error.rawData });
+  }
+}
+
+/**
+ * Hash of what a record says, to tell revisions from repeats
+ */
+function recordHash(record: VendorActivityRecord): string {
+  return createHash('sha256')
+    .update(JSON.stringify([record.dataType, record.activityDate.toISOString(), record.activityData, record.verified ?? false, record.deleted ?? false]))
+    .digest('hex');
+}
+
+// Register the connectors this deployment supports
+const vendorConnectorRegistry = new VendorConnectorRegistry();
+vendorConnectorRegistry.registerConnector(new GenericActivityFeedConnector());
+
+// Create and export the service instance
+export const vendorSyncService = new VendorSyncService(vendorConnectorRegistry);
@@ -0,0 +1,343 @@
+import { waitlistService } from './waitlist-service';
+import { schedulingService } from './scheduling-service';
+import { waitlistWebhooks } from '../webhooks/webhook-triggers';
+
+// An in-memory stand-in for the tables the waitlist touches. Conditions are
+// plain predicates over rows, and a transaction rolls the tables back if it throws.
+jest.mock('../../db', () => {
+  type Row = Record<string, any>;
+  type Column = { column: string; desc?: boolean };
+
+  let tables: Record<string, Row[]> = {};
+  const rowsOf = (table: { tableName: string }) => (tables[table.tableName] ??= []);
+  const pick = (row: Row, fields?: Record<string, Column>) => fields
+    ? Object.fromEntries(Object.entries(fields).map(([key, column]) => [key, row[column.column]]))
+    : { ...row };
+  const compare = (order: Column[]) => (a: Row, b: Row) => {
+    for (const { column, desc } of order) {
+      if (a[column] < b[column]) return desc ? 1 : -1;
+      if (a[column] > b[column]) return desc ? -1 : 1;
+    }
+    return 0;
+  };
+  const query = (run: () => any): any => ({
+    then: (resolve: any, reject: any) => Promise.resolve().then(run).then(resolve, reject)
+  });
+
+  const db: any = {
+    select: (fields?: Record<string, Column>) => ({
+      from: (table: { tableName: string }) => {
+        let where: (row: Row) => boolean = () => true;
+        let order: Column[] = [];
+        const q = query(() => rowsOf(table).filter(where).sort(compare(order)).map(row => pick(row, fields)));
+        q.where = (predicate: (row: Row) => boolean) => { where = predicate; return q; };
+        q.orderBy = (...columns: Column[]) => { order = columns; return q; };
+        q.for = () => q; // The select builder's row lock, .for('update')
+        return q;
+      }
+    }),
+    update: (table: { tableName: string }) => ({
+      set: (data: Row) => ({
+        where: (predicate: (row: Row) => boolean) => {
+          const run = () => rowsOf(table).filter(predicate).map(row => Object.assign(row, data));
+          const q = query(() => { run(); });
+          q.returning = (fields?: Record<string, Column>) => query(() => run().map(row => pick(row, fields)));
+          return q;
+        }
+      })
+    }),
+    insert: (table: { tableName: string }) => ({
+      values: (values: Row) => {
+        const run = () => [{ ...rowsOf(table)[rowsOf(table).push({ ...values }) - 1] }];
+        const q = query(() => { run(); });
+        q.returning = () => query(run);
+        return q;
+      }
+    }),
+    transaction: async (fn: (tx: any) => Promise<any>) => {
+      const saved = structuredClone(tables);
+      try {
+        return await fn(db);
+      } catch (error) {
+        tables = saved;
+        throw error;
+      }
+    }
+  };
+
+  return {
+    db,
+    rows: (tableName: string) => (tables[tableName] ??= []),
+    reset: () => { tables = {}; }
+  };
+}, { virtual: true });
+
+jest.mock('drizzle-orm', () => {
+  type Row = Record<string, any>;
+  type Column = { column: string };
+  type Predicate = ((row: Row) => boolean) | undefined;
+  // Comparisons with null are never true, as in SQL
+  const compare = (test: (a: any, b: any) => boolean) => (column: Column, value: any) =>
+    (row: Row) => row[column.column] != null && value != null && test(row[column.column], value);
+  return {
+    eq: compare((a, b) => a === b),
+    lte: compare((a, b) => a <= b),
+    gte: compare((a, b) => a >= b),
+    isNull: (column: Column) => (row: Row) => row[column.column] == null,
+    and: (...predicates: Predicate[]) => (row: Row) => predicates.every(p => !p || p(row)),
+    or: (...predicates: Predicate[]) => (row: Row) => predicates.some(p => p && p(row)),
+    desc: (column: Column) => ({ ...column, desc: true })
+  };
+});
+
+jest.mock('../../../shared/scheduling-schema', () => {
+  const table = (tableName: string) =>
+    new Proxy({}, { get: (_, column) => (column === 'tableName' ? tableName : { column }) });
+  return {
+    slots: table('slots'),
+    waitlistEntries: table('waitlistEntries'),
+    waitlistOffers: table('waitlistOffers')
+  };
+}, { virtual: true });
+
+jest.mock('./scheduling-service', () => ({
+  schedulingService: {
+    getSlot: jest.fn(),
+    getSchedule: jest.fn(),
+    bookAppointmentWithValidation: jest.fn()
+  }
+}));
+
+jest.mock('../webhooks/webhook-triggers', () => ({
+  waitlistWebhooks: {
+    slotOffered: jest.fn(),
+    booked: jest.fn(),
+    offerExpired: jest.fn()
+  }
+}), { virtual: true });
+
+jest.mock('../../../server/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), debug: jest.fn(), error: jest.fn() }
+}), { virtual: true });
+
+jest.mock('uuid', () => {
+  let next = 0;
+  return { v4: () => `id-${++next}` };
+}, { virtual: true });
+
+const { rows, reset } = jest.requireMock('../../db');
+const scheduling = jest.mocked(schedulingService);
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = Date.now();
+
+const schedule = {
+  id: 'schedule-1',
+  providerId: 'dr-smith',
+  locationId: 'clinic-1',
+  serviceType: 'consult',
+  status: 'active'
+};
+
+const entry = (id: string, overrides: Record<string, any> = {}) => ({
+  id,
+  patientId: `patient-${id}`,
+  providerId: null,
+  locationId: null,
+  serviceType: null,
+  earliestDate: null,
+  latestDate: null,
+  minNoticeHours: 0,
+  priority: 0,
+  appointmentType: 'follow-up',
+  reason: null,
+  payerId: null,
+  referralId: null,
+  orderId: null,
+  organizationId: null,
+  status: 'waiting',
+  createdAt: new Date(now - 24 * HOUR_MS),
+  ...overrides
+});
+
+const slot = () => rows('slots')[0];
+const offers = () => rows('waitlistOffers');
+const entryStatus = (id: string) => rows('waitlistEntries').find((e: any) => e.id === id).status;
+
+beforeEach(() => {
+  reset();
+  jest.clearAllMocks();
+
+  rows('slots').push({
+    id: 'slot-1',
+    scheduleId: schedule.id,
+    status: 'free',
+    startDateTime: new Date(now + 48 * HOUR_MS),
+    endDateTime: new Date(now + 48.5 * HOUR_MS)
+  });
+
+  scheduling.getSlot.mockImplementation(async (id: string) => rows('slots').find((s: any) => s.id === id));
+  scheduling.getSchedule.mockImplementation(async () => schedule as any);
+
+  // Books like SchedulingService.createAppointment: from the held status, in one transaction
+  scheduling.bookAppointmentWithValidation.mockImplementation(async (patientId, slotId, ...rest) => {
+    const hold = rest[rest.length - 1] as any;
+    const { db } = jest.requireMock('../../db');
+    return await db.transaction(async (tx: any) => {
+      const held = rows('slots').find((s: any) => s.id === slotId && s.status === 'busy-tentative');
+      if (!held) {
+        throw new Error('Slot is not available');
+      }
+      held.status = 'busy';
+      const appointment = { id: 'appointment-1', patientId, slotId };
+      await hold.onBooked(tx, appointment);
+      return appointment as any;
+    });
+  });
+});
+
+describe('offerFreedSlot', () => {
+  it('holds the slot for the highest priority matching entry', async () => {
+    rows('waitlistEntries').push(
+      entry('a'),
+      entry('b', { priority: 5 }),
+      entry('c', { providerId: 'dr-jones', priority: 9 })
+    );
+
+    const offer = await waitlistService.offerFreedSlot('slot-1');
+
+    expect(offer).toMatchObject({ waitlistEntryId: 'b', slotId: 'slot-1', status: 'pending' });
+    expect(slot().status).toBe('busy-tentative');
+    expect(entryStatus('b')).toBe('offered');
+    expect(waitlistWebhooks.slotOffered).toHaveBeenCalledWith('patient-b', expect.objectContaining({ slotId: 'slot-1' }));
+  });
+
+  it('skips entries that need more notice than the slot gives', async () => {
+    rows('waitlistEntries').push(entry('a', { minNoticeHours: 72 }));
+
+    expect(await waitlistService.offerFreedSlot('slot-1')).toBeNull();
+    expect(slot().status).toBe('free');
+  });
+
+  it('does not hold the slot past the notice the patient needs', async () => {
+    rows('waitlistEntries').push(entry('a', { minNoticeHours: 47.9 }));
+
+    const offer = await waitlistService.offerFreedSlot('slot-1');
+
+    expect(offer!.expiresAt.getTime()).toBe(slot().startDateTime.getTime() - 47.9 * HOUR_MS);
+  });
+});
+
+describe('acceptOffer', () => {
+  it('books the slot from its hold and records the appointment with the offer', async () => {
+    rows('waitlistEntries').push(entry('a'));
+    const offer = await waitlistService.offerFreedSlot('slot-1');
+
+    const appointment = await waitlistService.acceptOffer(offer!.id);
+
+    expect(appointment.id).toBe('appointment-1');
+    expect(slot().status).toBe('busy');
+    expect(offers()[0]).toMatchObject({ status: 'accepted', appointmentId: 'appointment-1' });
+    expect(rows('waitlistEntries')[0]).toMatchObject({ status: 'booked', appointmentId: 'appointment-1' });
+    expect(waitlistWebhooks.booked).toHaveBeenCalled();
+  });
+
+  it('passes the still-held slot to the next entry when booking fails', async () => {
+    rows('waitlistEntries').push(entry('a', { priority: 1 }), entry('b'));
+    const offer = await waitlistService.offerFreedSlot('slot-1');
+    scheduling.bookAppointmentWithValidation.mockRejectedValueOnce(new Error('Booking validation failed: no referral'));
+
+    await expect(waitlistService.acceptOffer(offer!.id)).rejects.toThrow('no referral');
+
+    expect(offers()[0]).toMatchObject({ status: 'failed', failureReason: 'Booking validation failed: no referral' });
+    expect(entryStatus('a')).toBe('waiting');
+    expect(offers()[1]).toMatchObject({ waitlistEntryId: 'b', status: 'pending' });
+    expect(slot().status).toBe('busy-tentative');
+  });
+
+  it('rolls back the booking when the waitlist records cannot be written', async () => {
+    rows('waitlistEntries').push(entry('a'));
+    const offer = await waitlistService.offerFreedSlot('slot-1');
+    scheduling.bookAppointmentWithValidation.mockImplementationOnce(async (_patientId, _slotId, ...rest) => {
+      const { db } = jest.requireMock('../../db');
+      return await db.transaction(async (tx: any) => {
+        slot().status = 'busy';
+        await (rest[rest.length - 1] as any).onBooked(tx, { id: 'appointment-1' });
+        throw new Error('connection lost');
+      });
+    });
+
+    await expect(waitlistService.acceptOffer(offer!.id)).rejects.toThrow('connection lost');
+
+    expect(slot().status).toBe('free');
+    expect(offers()[0].status).toBe('failed');
+    expect(offers()[0].appointmentId).toBeUndefined();
+    expect(entryStatus('a')).toBe('waiting');
+  });
+
+  it('refuses an offer whose hold has lapsed and expires it', async () => {
+    rows('waitlistEntries').push(entry('a'));
+    const offer = await waitlistService.offerFreedSlot('slot-1');
+    offers()[0].expiresAt = new Date(now - 1000);
+
+    await expect(waitlistService.acceptOffer(offer!.id)).rejects.toThrow('Waitlist offer has expired');
+
+    expect(offers()[0].status).toBe('expired');
+    expect(scheduling.bookAppointmentWithValidation).not.toHaveBeenCalled();
+  });
+});
+
+describe('declineOffer', () => {
+  it('passes the held slot to the next entry without freeing it', async () => {
+    rows('waitlistEntries').push(entry('a', { priority: 1 }), entry('b'));
+    const offer = await waitlistService.offerFreedSlot('slot-1');
+    const statuses: string[] = [];
+    scheduling.getSlot.mockImplementation(async (id: string) => {
+      statuses.push(slot().status);
+      return rows('slots').find((s: any) => s.id === id);
+    });
+
+    await waitlistService.declineOffer(offer!.id);
+
+    expect(statuses).not.toContain('free');
+    expect(offers().map((o: any) => [o.waitlistEntryId, o.status])).toEqual([['a', 'declined'], ['b', 'pending']]);
+    expect(entryStatus('a')).toBe('waiting');
+    expect(slot().status).toBe('busy-tentative');
+  });
+
+  it('frees the slot when nobody else matches', async () => {
+    rows('waitlistEntries').push(entry('a'));
+    const offer = await waitlistService.offerFreedSlot('slot-1');
+
+    await waitlistService.declineOffer(offer!.id);
+
+    expect(slot().status).toBe('free');
+    expect(offers()).toHaveLength(1);
+  });
+
+  it('refuses an offer that is no longer pending', async () => {
+    rows('waitlistEntries').push(entry('a'));
+    const offer = await waitlistService.offerFreedSlot('slot-1');
+    await waitlistService.acceptOffer(offer!.id);
+
+    await expect(waitlistService.declineOffer(offer!.id)).rejects.toThrow('Waitlist offer is accepted');
+  });
+});
+
+describe('expireOffers', () => {
+  it('expires lapsed offers and entries whose date window has passed', async () => {
+    rows('waitlistEntries').push(entry('a'), entry('b', { latestDate: new Date(now - HOUR_MS) }));
+    await waitlistService.offerFreedSlot('slot-1');
+    offers()[0].expiresAt = new Date(now - 1000);
+
+    const result = await waitlistService.expireOffers(new Date(now));
+
+    expect(result).toEqual({ offersExpired: 1, entriesExpired: 1 });
+    expect(offers()[0].status).toBe('expired');
+    expect(entryStatus('a')).toBe('waiting');
+    expect(entryStatus('b')).toBe('expired');
+    expect(slot().status).toBe('free');
+    expect(waitlistWebhooks.offerExpired).toHaveBeenCalledWith('patient-a', expect.objectContaining({ slotId: 'slot-1' }));
+  });
+});
@@ -0,0 +1,621 @@
+/**
+ * Smart Health Hub - Appointment Waitlist Service
+ *
+ * Patients join the waitlist with constraints on provider, location, service
+ * type, date window and the notice they need. When a slot is freed by a
+ * cancellation or no-show, it is held for the next matching entry and offered
+ * to that patient. Offers that are declined or not answered in time roll the
+ * slot on to the next entry; accepted offers are booked through
+ * SchedulingService.bookAppointmentWithValidation.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { eq, and, or, lte, gte, desc, isNull } from 'drizzle-orm';
+import { db } from '../../db';
+import logger from '../../../server/utils/logger';
+import { waitlistWebhooks } from '../webhooks/webhook-triggers';
+import {
+  slots,
+  waitlistEntries,
+  waitlistOffers,
+  type Schedule,
+  type Slot,
+  type Appointment,
+  type WaitlistEntry,
+  type WaitlistOffer,
+  type InsertWaitlistEntry
+} from '../../../shared/scheduling-schema';
+import { schedulingService, type DbExecutor } from './scheduling-service';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Appointment Waitlist Service
+ */
+export class WaitlistService {
+  // How long a freed slot is held for a patient before it rolls to the next entry
+  private offerHoldMinutes = 30;
+
+  constructor() {
+    logger.info('Initializing Appointment Waitlist Service');
+  }
+
+  // ========== WAITLIST ENTRIES ==========
+
+  /**
+   * Add a patient to the waitlist
+   */
+  async joinWaitlist(data: InsertWaitlistEntry): Promise<WaitlistEntry> {
+    if (data.earliestDate && data.latestDate && data.latestDate < data.earliestDate) {
+      throw new Error('Waitlist date window ends before it starts');
+    }
+
+    if (data.minNoticeHours !== undefined && data.minNoticeHours < 0) {
+      throw new Error('Minimum notice cannot be negative');
+    }
+
+    const [entry] = await db.insert(waitlistEntries)
+      .values({
+        ...data,
+        id: data.id || uuidv4(),
+        status: 'waiting',
+        updatedAt: new Date()
+      })
+      .returning();
+
+    logger.info('Patient joined waitlist', {
+      waitlistEntryId: entry.id,
+      patientId: entry.patientId,
+      providerId: entry.providerId,
+      serviceType: entry.serviceType
+    });
+
+    return entry;
+  }
+
+  /**
+   * Get a waitlist entry by ID
+   */
+  async getEntry(entryId: string): Promise<WaitlistEntry | undefined> {
+    const [entry] = await db.select()
+      .from(waitlistEntries)
+      .where(eq(waitlistEntries.id, entryId));
+
+    return entry;
+  }
+
+  /**
+   * Get a patient's waitlist entries, most recent first
+   */
+  async getPatientEntries(patientId: string): Promise<WaitlistEntry[]> {
+    return await db.select()
+      .from(waitlistEntries)
+      .where(eq(waitlistEntries.patientId, patientId))
+      .orderBy(desc(waitlistEntries.createdAt));
+  }
+
+  /**
+   * Remove a patient from the waitlist, releasing any slot held for them
+   */
+  async cancelEntry(entryId: string): Promise<WaitlistEntry | undefined> {
+    const [entry] = await db.update(waitlistEntries)
+      .set({
+        status: 'cancelled',
+        updatedAt: new Date()
+      })
+      .where(
+        and(
+          eq(waitlistEntries.id, entryId),
+          or(
+            eq(waitlistEntries.status, 'waiting'),
+            eq(waitlistEntries.status, 'offered')
+          )
+        )
+      )
+      .returning();
+
+    if (!entry) {
+      return undefined;
+    }
+
+    const pendingOffers = await db.select()
+      .from(waitlistOffers)
+      .where(
+        and(
+          eq(waitlistOffers.waitlistEntryId, entryId),
+          eq(waitlistOffers.status, 'pending')
+        )
+      );
+
+    for (const offer of pendingOffers) {
+      await this.closeOffer(offer, 'declined');
+    }
+
+    return entry;
+  }
+
+  // ========== OFFERS ==========
+
+  /**
+   * Get an offer by ID
+   */
+  async getOffer(offerId: string): Promise<WaitlistOffer | undefined> {
+    const [offer] = await db.select()
+      .from(waitlistOffers)
+      .where(eq(waitlistOffers.id, offerId));
+
+    return offer;
+  }
+
+  /**
+   * Hold a freed slot for the next matching waitlist entry and offer it.
+   * Returns null when the slot is not free or nobody on the waitlist matches.
+   */
+  async offerFreedSlot(slotId: string): Promise<WaitlistOffer | null> {
+    return await this.offerSlot(slotId, 'free');
+  }
+
+  /**
+   * Accept an offer and book the held slot
+   * @throws if the offer is no longer pending or the booking fails validation
+   */
+  async acceptOffer(offerId: string): Promise<Appointment> {
+    const offer = await this.getOffer(offerId);
+    if (!offer) {
+      throw new Error('Waitlist offer not found');
+    }
+
+    if (offer.status !== 'pending') {
+      throw new Error(`Waitlist offer is ${offer.status}`);
+    }
+
+    if (offer.expiresAt <= new Date()) {
+      await this.expireOffer(offer);
+      throw new Error('Waitlist offer has expired');
+    }
+
+    const entry = await this.getEntry(offer.waitlistEntryId);
+    if (!entry) {
+      throw new Error('Waitlist entry not found');
+    }
+
+    // Claim the offer so a concurrent expiry sweep or second accept cannot act on it
+    const claimed = await this.updatePendingOffer(db, offer.id, {
+      status: 'accepted',
+      respondedAt: new Date()
+    });
+
+    if (!claimed) {
+      throw new Error('Waitlist offer is no longer pending');
+    }
+
+    try {
+      // Book the slot from its hold; the offer and entry are updated in the booking transaction
+      const appointment = await schedulingService.bookAppointmentWithValidation(
+        entry.patientId,
+        offer.slotId,
+        entry.appointmentType,
+        entry.reason || undefined,
+        entry.payerId || undefined,
+        entry.referralId || undefined,
+        entry.orderId || undefined,
+        entry.organizationId || undefined,
+        undefined,
+        {
+          onBooked: async (tx, booked) => {
+            await tx.update(waitlistOffers)
+              .set({
+                appointmentId: booked.id,
+                updatedAt: new Date()
+              })
+              .where(eq(waitlistOffers.id, offer.id));
+
+            await tx.update(waitlistEntries)
+              .set({
+                status: 'booked',
+                appointmentId: booked.id,
+                updatedAt: new Date()
+              })
+              .where(eq(waitlistEntries.id, entry.id));
+          }
+        }
+      );
+
+      await waitlistWebhooks.booked(entry.patientId, {
+        offerId: offer.id,
+        waitlistEntryId: entry.id,
+        slotId: offer.slotId,
+        appointmentId: appointment.id
+      });
+
+      return appointment;
+    } catch (error) {
+      logger.warn('Booking from waitlist offer failed', {
+        offerId: offer.id,
+        slotId: offer.slotId,
+        error: (error as Error).message
+      });
+
+      await db.transaction(async (tx) => {
+        await tx.update(waitlistOffers)
+          .set({
+            status: 'failed',
+            failureReason: (error as Error).message,
+            updatedAt: new Date()
+          })
+          .where(eq(waitlistOffers.id, offer.id));
+
+        await this.returnToWaiting(tx, entry.id);
+      });
+
+      await this.offerSlot(offer.slotId, 'busy-tentative');
+
+      throw error;
+    }
+  }
+
+  /**
+   * Decline an offer; the slot rolls to the next matching entry
+   */
+  async declineOffer(offerId: string): Promise<WaitlistOffer> {
+    const offer = await this.getOffer(offerId);
+    if (!offer) {
+      throw new Error('Waitlist offer not found');
+    }
+
+    const declined = await this.closeOffer(offer, 'declined');
+    if (!declined) {
+      throw new Error(`Waitlist offer is ${offer.status}`);
+    }
+
+    return declined;
+  }
+
+  /**
+   * Expire offers whose hold has lapsed and waitlist entries whose date window has passed
+   */
+  async expireOffers(now: Date = new Date()): Promise<{ offersExpired: number; entriesExpired: number }> {
+    const lapsedOffers = await db.select()
+      .from(waitlistOffers)
+      .where(
+        and(
+          eq(waitlistOffers.status, 'pending'),
+          lte(waitlistOffers.expiresAt, now)
+        )
+      );
+
+    let offersExpired = 0;
+    for (const offer of lapsedOffers) {
+      try {
+        if (await this.expireOffer(offer)) {
+          offersExpired++;
+        }
+      } catch (error) {
+        logger.error('Error expiring waitlist offer', { offerId: offer.id, error });
+      }
+    }
+
+    const expiredEntries = await db.update(waitlistEntries)
+      .set({
+        status: 'expired',
+        updatedAt: now
+      })
+      .where(
+        and(
+          eq(waitlistEntries.status, 'waiting'),
+          lte(waitlistEntries.latestDate, now)
+        )
+      )
+      .returning({ id: waitlistEntries.id });
+
+    if (offersExpired > 0 || expiredEntries.length > 0) {
+      logger.info('Waitlist expiry sweep complete', {
+        offersExpired,
+        entriesExpired: expiredEntries.length
+      });
+    }
+
+    return { offersExpired, entriesExpired: expiredEntries.length };
+  }
+
+  /**
+   * Start expiring lapsed offers on a timer
+   */
+  startPeriodicOfferExpiry(intervalMs: number = 60 * 1000): void {
+    setInterval(() => {
+      this.expireOffers().catch(error => {
+        logger.error('Error in periodic waitlist offer expiry:', error);
+      });
+    }, intervalMs).unref();
+  }
+
+  // ========== FREED SLOTS ==========
+
+  /**
+   * Release the slot of a no-show appointment and offer it to the waitlist
+   */
+  async handleNoShow(appointment: Appointment): Promise<WaitlistOffer | null> {
+    if (!appointment.slotId) {
+      return null;
+    }
+
+    await db.update(slots)
+      .set({
+        status: 'free',
+        appointmentId: null,
+        updatedAt: new Date()
+      })
+      .where(
+        and(
+          eq(slots.id, appointment.slotId),
+          eq(slots.appointmentId, appointment.id)
+        )
+      );
+
+    return await this.offerFreedSlot(appointment.slotId);
+  }
+
+  /**
+   * Offer a slot to the next matching waitlist entry. A slot still held from a
+   * closed offer passes straight to the next entry without being freed, so it
+   * cannot be booked from under the waitlist in between; if nobody else
+   * matches, the hold is released.
+   */
+  private async offerSlot(slotId: string, fromStatus: 'free' | 'busy-tentative'): Promise<WaitlistOffer | null> {
+    const slot = await schedulingService.getSlot(slotId);
+    const now = new Date();
+
+    if (!slot || slot.status !== fromStatus) {
+      return null;
+    }
+
+    const schedule = slot.startDateTime > now ? await schedulingService.getSchedule(slot.scheduleId) : undefined;
+    if (!schedule || schedule.status !== 'active') {
+      await this.releaseHeld(slotId, fromStatus);
+      return null;
+    }
+
+    const candidates = await this.findCandidates(slot, schedule, now);
+
+    for (const candidate of candidates) {
+      const holdEnd = now.getTime() + this.offerHoldMinutes * 60 * 1000;
+      // Don't hold the slot past the point where it no longer gives the patient enough notice
+      const noticeEnd = slot.startDateTime.getTime() - candidate.minNoticeHours * HOUR_MS;
+      const expiresAt = new Date(Math.min(holdEnd, noticeEnd));
+
+      const result = await db.transaction(async (tx) => {
+        const [availableSlot] = await tx.select()
+          .from(slots)
+          .where(
+            and(
+              eq(slots.id, slotId),
+              eq(slots.status, fromStatus)
+            )
+          )
+          .for('update'); // Lock the row
+
+        if (!availableSlot) {
+          return { slotTaken: true, offer: null };
+        }
+
+        // Another offer may have claimed this entry since the candidates were read
+        const [claimed] = await tx.update(waitlistEntries)
+          .set({
+            status: 'offered',
+            updatedAt: now
+          })
+          .where(
+            and(
+              eq(waitlistEntries.id, candidate.id),
+              eq(waitlistEntries.status, 'waiting')
+            )
+          )
+          .returning();
+
+        if (!claimed) {
+          return { slotTaken: false, offer: null };
+        }
+
+        await tx.update(slots)
+          .set({
+            status: 'busy-tentative',
+            updatedAt: now
+          })
+          .where(eq(slots.id, slotId));
+
+        const [offer] = await tx.insert(waitlistOffers)
+          .values({
+            id: uuidv4(),
+            waitlistEntryId: candidate.id,
+            slotId,
+            status: 'pending',
+            expiresAt,
+            updatedAt: now
+          })
+          .returning();
+
+        return { slotTaken: false, offer };
+      });
+
+      if (result.slotTaken) {
+        return null;
+      }
+
+      if (result.offer) {
+        logger.info('Freed slot offered to waitlisted patient', {
+          offerId: result.offer.id,
+          waitlistEntryId: candidate.id,
+          patientId: candidate.patientId,
+          slotId,
+          expiresAt
+        });
+
+        await waitlistWebhooks.slotOffered(candidate.patientId, {
+          offerId: result.offer.id,
+          waitlistEntryId: candidate.id,
+          slotId,
+          providerId: schedule.providerId,
+          locationId: schedule.locationId,
+          serviceType: schedule.serviceType,
+          startDateTime: slot.startDateTime,
+          endDateTime: slot.endDateTime,
+          expiresAt
+        });
+
+        return result.offer;
+      }
+    }
+
+    logger.debug('No waitlist entry matches freed slot', { slotId });
+    await this.releaseHeld(slotId, fromStatus);
+    return null;
+  }
+
+  /**
+   * Waiting entries that match a slot, in offer order (priority, then time joined).
+   * Entries already offered this slot and entries needing more notice are skipped.
+   */
+  private async findCandidates(slot: Slot, schedule: Schedule, now: Date): Promise<WaitlistEntry[]> {
+    const entries = await db.select()
+      .from(waitlistEntries)
+      .where(
+        and(
+          eq(waitlistEntries.status, 'waiting'),
+          or(isNull(waitlistEntries.providerId), eq(waitlistEntries.providerId, schedule.providerId)),
+          schedule.locationId
+            ? or(isNull(waitlistEntries.locationId), eq(waitlistEntries.locationId, schedule.locationId))
+            : isNull(waitlistEntries.locationId),
+          or(isNull(waitlistEntries.serviceType), eq(waitlistEntries.serviceType, schedule.serviceType)),
+          or(isNull(waitlistEntries.earliestDate), lte(waitlistEntries.earliestDate, slot.startDateTime)),
+          or(isNull(waitlistEntries.latestDate), gte(waitlistEntries.latestDate, slot.startDateTime))
+        )
+      )
+      .orderBy(desc(waitlistEntries.priority), waitlistEntries.createdAt);
+
+    const previousOffers = await db.select({ waitlistEntryId: waitlistOffers.waitlistEntryId })
+      .from(waitlistOffers)
+      .where(eq(waitlistOffers.slotId, slot.id));
+    const alreadyOffered = new Set(previousOffers.map(o => o.waitlistEntryId));
+
+    const noticeMs = slot.startDateTime.getTime() - now.getTime();
+
+    return entries.filter(entry =>
+      !alreadyOffered.has(entry.id) && noticeMs >= entry.minNoticeHours * HOUR_MS
+    );
+  }
+
+  /**
+   * Expire a pending offer and roll the slot on
+   */
+  private async expireOffer(offer: WaitlistOffer): Promise<WaitlistOffer | null> {
+    const expired = await this.closeOffer(offer, 'expired');
+
+    if (expired) {
+      const entry = await this.getEntry(offer.waitlistEntryId);
+      if (entry) {
+        await waitlistWebhooks.offerExpired(entry.patientId, {
+          offerId: offer.id,
+          waitlistEntryId: entry.id,
+          slotId: offer.slotId
+        });
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Close a pending offer without booking: put the entry back on the waitlist
+   * and pass the held slot to the next entry
+   */
+  private async closeOffer(
+    offer: WaitlistOffer,
+    status: 'declined' | 'expired'
+  ): Promise<WaitlistOffer | null> {
+    const closed = await db.transaction(async (tx) => {
+      const row = await this.updatePendingOffer(tx, offer.id, {
+        status,
+        respondedAt: status === 'declined' ? new Date() : null
+      });
+
+      if (row) {
+        await this.returnToWaiting(tx, offer.waitlistEntryId);
+      }
+
+      return row;
+    });
+
+    if (!closed) {
+      return null;
+    }
+
+    await this.offerSlot(offer.slotId, 'busy-tentative');
+
+    return closed;
+  }
+
+  /**
+   * Update an offer only while it is still pending
+   */
+  private async updatePendingOffer(
+    executor: DbExecutor,
+    offerId: string,
+    data: Partial<Pick<WaitlistOffer, 'status' | 'respondedAt'>>
+  ): Promise<WaitlistOffer | undefined> {
+    const [offer] = await executor.update(waitlistOffers)
+      .set({
+        ...data,
+        updatedAt: new Date()
+      })
+      .where(
+        and(
+          eq(waitlistOffers.id, offerId),
+          eq(waitlistOffers.status, 'pending')
+        )
+      )
+      .returning();
+
+    return offer;
+  }
+
+  /**
+   * Put an entry whose offer was not booked back on the waitlist
+   */
+  private async returnToWaiting(executor: DbExecutor, entryId: string): Promise<void> {
+    await executor.update(waitlistEntries)
+      .set({
+        status: 'waiting',
+        updatedAt: new Date()
+      })
+      .where(
+        and(
+          eq(waitlistEntries.id, entryId),
+          eq(waitlistEntries.status, 'offered')
+        )
+      );
+  }
+
+  /**
+   * Free a slot that was held for a waitlist offer nobody else can take
+   */
+  private async releaseHeld(slotId: string, fromStatus: 'free' | 'busy-tentative'): Promise<void> {
+    if (fromStatus !== 'busy-tentative') {
+      return;
+    }
+
+    await db.update(slots)
+      .set({
+        status: 'free',
+        updatedAt: new Date()
+      })
+      .where(
+        and(
+          eq(slots.id, slotId),
+          eq(slots.status, 'busy-tentative')
+        )
+      );
+  }
+}
+
+// Singleton instance
+export const waitlistService = new WaitlistService();
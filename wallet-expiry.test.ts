@@ -0,0 +1,83 @@
+import { expiredPoints, WalletHistoryEntry } from './wallet-expiry';
+
+const day = (date: string) => new Date(`${date}T00:00:00Z`);
+
+const entry = (
+  transactionType: string,
+  points: number,
+  date: string,
+  extra: Partial<WalletHistoryEntry> = {}
+): WalletHistoryEntry => ({
+  transactionType,
+  points,
+  transactionDate: day(date),
+  expiresAt: null,
+  awardId: null,
+  redemptionId: null,
+  ...extra
+});
+
+const award = (points: number, date: string, expires: string | null, awardId = `award-${date}`) =>
+  entry('award', points, date, { awardId, expiresAt: expires ? day(expires) : null });
+
+describe('expiredPoints', () => {
+  it('expires what is left of an award past its expiry', () => {
+    const history = [
+      award(100, '2024-01-10', '2025-01-01'),
+      entry('hold', -30, '2024-06-01', { redemptionId: 'r1' })
+    ];
+    expect(expiredPoints(history, day('2024-12-31'))).toBe(0);
+    expect(expiredPoints(history, day('2025-01-01'))).toBe(70);
+  });
+
+  it('does not count spending from before an award against it', () => {
+    // Opening points were spent before the expiring award existed
+    const history = [
+      entry('opening_balance', 50, '2024-01-01'),
+      entry('hold', -50, '2024-02-01', { redemptionId: 'r1' }),
+      award(100, '2024-03-01', '2025-01-01')
+    ];
+    expect(expiredPoints(history, day('2025-02-01'))).toBe(100);
+  });
+
+  it('spends the points that expire soonest first', () => {
+    const history = [
+      award(100, '2024-01-10', null, 'forever'),
+      award(100, '2024-03-01', '2025-01-01', 'expiring'),
+      entry('hold', -60, '2024-06-01', { redemptionId: 'r1' })
+    ];
+    expect(expiredPoints(history, day('2025-01-01'))).toBe(40);
+  });
+
+  it('returns released and refunded points to the awards the hold drew on', () => {
+    const history = [
+      award(100, '2024-01-10', '2025-01-01'),
+      entry('hold', -80, '2024-06-01', { redemptionId: 'r1' }),
+      entry('release', 80, '2024-06-03', { redemptionId: 'r1' }),
+      entry('hold', -40, '2024-07-01', { redemptionId: 'r2' }),
+      entry('redemption', 0, '2024-07-02', { redemptionId: 'r2' }),
+      entry('refund', 40, '2024-08-01', { redemptionId: 'r2' })
+    ];
+    expect(expiredPoints(history, day('2025-01-01'))).toBe(100);
+  });
+
+  it('takes a reversal from its own award', () => {
+    const history = [
+      award(100, '2024-01-10', '2025-01-01', 'a1'),
+      award(50, '2024-02-10', null, 'a2'),
+      entry('reversal', -50, '2024-03-01', { awardId: 'a2' })
+    ];
+    expect(expiredPoints(history, day('2025-01-01'))).toBe(100);
+  });
+
+  it('does not expire points an earlier run already expired', () => {
+    const history = [
+      award(100, '2024-01-10', '2025-01-01'),
+      award(100, '2024-06-10', '2025-06-01'),
+      entry('expiration', -100, '2025-01-02'),
+      entry('hold', -30, '2025-02-01', { redemptionId: 'r1' })
+    ];
+    expect(expiredPoints(history, day('2025-01-02'))).toBe(0);
+    expect(expiredPoints(history, day('2025-06-01'))).toBe(70);
+  });
+});
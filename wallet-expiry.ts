@@ -0,0 +1,138 @@
+/**
+ * Wallet Point Expiry
+ *
+ * Works out how many of an employee's points have expired by replaying their
+ * wallet transactions as lots. Awards, opening balances and other credits
+ * each add a lot; spending draws on the lots that exist at the time, those
+ * that expire soonest first, so points are never taken from an award made
+ * after they were spent. A reversal draws on its own award's lot first, and
+ * points a released or refunded redemption gives back return to the lots its
+ * hold drew on, keeping their expiry. Whatever is left in lots past their
+ * expiry has expired.
+ *
+ * Everything here is pure so it can be checked against hand-built histories.
+ */
+
+/**
+ * A wallet transaction as replayed, in posting order
+ */
+export interface WalletHistoryEntry {
+  transactionType: string;
+  points: number; // Change in the employee's available points
+  transactionDate: Date;
+  expiresAt: Date | null;
+  awardId: string | null;
+  redemptionId: string | null;
+}
+
+interface Lot {
+  sequence: number;
+  awardId: string | null;
+  expiresAt: Date | null;
+  remaining: number;
+}
+
+type Draw = { lot: Lot; points: number }[];
+
+/**
+ * Points left in lots that expired by a time
+ * @param history The employee's wallet transactions in posting order
+ * @param now Time to expire points as of
+ */
+export function expiredPoints(history: WalletHistoryEntry[], now: Date): number {
+  const lots: Lot[] = [];
+  // What each redemption's hold drew on, so released or refunded points go back
+  const holds = new Map<string, Draw>();
+
+  const addLot = (sequence: number, points: number, expiresAt: Date | null, awardId: string | null = null) => {
+    lots.push({ sequence, awardId, expiresAt, remaining: points });
+  };
+
+  history.forEach((entry, sequence) => {
+    switch (entry.transactionType) {
+      case 'award':
+        if (entry.points > 0) {
+          addLot(sequence, entry.points, entry.expiresAt, entry.awardId);
+        }
+        break;
+
+      case 'hold': {
+        const draw = drawPoints(lots, -entry.points);
+        if (entry.redemptionId) {
+          holds.set(entry.redemptionId, [...(holds.get(entry.redemptionId) ?? []), ...draw]);
+        }
+        break;
+      }
+
+      case 'release':
+      case 'refund': {
+        const draw = entry.redemptionId ? holds.get(entry.redemptionId) ?? [] : [];
+        if (entry.redemptionId) {
+          holds.delete(entry.redemptionId);
+        }
+        let returned = entry.points;
+        for (const part of draw) {
+          const points = Math.min(part.points, returned);
+          part.lot.remaining += points;
+          returned -= points;
+        }
+        if (returned > 0) {
+          addLot(sequence, returned, null);
+        }
+        break;
+      }
+
+      case 'expiration':
+        // An earlier run expired what was left of the lots expired by then
+        drawPoints(lots, -entry.points, lot => lot.expiresAt !== null && lot.expiresAt <= entry.transactionDate);
+        break;
+
+      case 'reversal': {
+        const own = drawPoints(lots, -entry.points, lot => entry.awardId !== null && lot.awardId === entry.awardId);
+        const taken = own.reduce((sum, part) => sum + part.points, 0);
+        drawPoints(lots, -entry.points - taken);
+        break;
+      }
+
+      default:
+        // Opening balances and adjustments
+        if (entry.points > 0) {
+          addLot(sequence, entry.points, entry.expiresAt);
+        } else if (entry.points < 0) {
+          drawPoints(lots, -entry.points);
+        }
+    }
+  });
+
+  return lots
+    .filter(lot => lot.expiresAt !== null && lot.expiresAt <= now)
+    .reduce((sum, lot) => sum + lot.remaining, 0);
+}
+
+/**
+ * Take points from the lots that expire soonest (then the oldest), returning
+ * what was taken from each. Points beyond what the lots hold are not taken;
+ * they leave the balance negative instead.
+ */
+function drawPoints(lots: Lot[], points: number, eligible: (lot: Lot) => boolean = () => true): Draw {
+  const candidates = lots
+    .filter(lot => lot.remaining > 0 && eligible(lot))
+    .sort((a, b) => expiryTime(a) - expiryTime(b) || a.sequence - b.sequence);
+
+  const draw: Draw = [];
+  let needed = points;
+  for (const lot of candidates) {
+    if (needed <= 0) {
+      break;
+    }
+    const taken = Math.min(lot.remaining, needed);
+    lot.remaining -= taken;
+    needed -= taken;
+    draw.push({ lot, points: taken });
+  }
+  return draw;
+}
+
+function expiryTime(lot: Lot): number {
+  return lot.expiresAt ? lot.expiresAt.getTime() : Infinity;
+}
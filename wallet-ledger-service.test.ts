@@ -0,0 +1,205 @@
+import { getTableColumns, type Table } from 'drizzle-orm';
+import { rewardRedemptionService } from './reward-redemption-service';
+import { walletLedgerService, WalletError } from './wallet-ledger-service';
+import { employees, rewardCatalogItems, rewardRedemptions, walletAccounts, walletTransactions } from './employer-schema';
+
+// The real drizzle query builder over a stand-in connection: each query's SQL
+// is recorded and answered with the rows given for it (none by default), so
+// tests check what is asked for.
+jest.mock('../../db', () => {
+  const { drizzle } = jest.requireActual('drizzle-orm/pg-proxy');
+  const queries: { sql: string; params: unknown[] }[] = [];
+  const responses: { match: string; rows: unknown[][] }[] = [];
+  const db = drizzle(async (sql: string, params: unknown[]) => {
+    queries.push({ sql, params });
+    return { rows: responses.find(response => sql.includes(response.match))?.rows ?? [] };
+  });
+  db.transaction = async (fn: (tx: unknown) => Promise<unknown>) => fn(db);
+
+  return {
+    db,
+    queries,
+    respond: (match: string, rows: unknown[][]) => { responses.push({ match, rows }); },
+    reset: () => { queries.length = 0; responses.length = 0; }
+  };
+}, { virtual: true });
+
+jest.mock('../../../shared/employer-schema', () => jest.requireActual('./employer-schema'), { virtual: true });
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), debug: jest.fn(), error: jest.fn() }
+}), { virtual: true });
+
+jest.mock('../../../microservices/common/error/error-utils', () => ({ PG_UNIQUE_VIOLATION: '23505' }), { virtual: true });
+
+const { db, queries, respond, reset } = jest.requireMock('../../db');
+
+const findQuery = (match: string): { sql: string; params: unknown[] } | undefined =>
+  queries.find((query: { sql: string }) => query.sql.includes(match));
+
+// A row as the driver returns it: values in the table's column order
+const row = (table: Table, values: Record<string, unknown>): unknown[] =>
+  Object.keys(getTableColumns(table)).map(key => values[key] ?? null);
+
+const account = (id: string, accountType: string, balance: number) =>
+  row(walletAccounts, { id, employerId: 'employer-1', employeeId: accountType === 'available' || accountType === 'held' ? 'employee-1' : null, accountType, balance, createdAt: '2024-01-01 00:00:00' });
+
+// Answer the queries a posting makes, with the accounts' balances before it
+const givenAccounts = (...accounts: unknown[][]) => {
+  respond('select "employer_id" from "employees"', [['employer-1']]);
+  respond('from "wallet_accounts"', accounts);
+  respond('insert into "wallet_transactions"', [row(walletTransactions, {
+    id: 'transaction-1',
+    employeeId: 'employee-1',
+    transactionDate: '2024-03-01 00:00:00',
+    transactionType: 'posted',
+    points: 0,
+    createdAt: '2024-03-01 00:00:00'
+  })]);
+};
+
+// Account balances as the posting left them, by account id
+const balancesAfter = (): Record<string, number> => Object.fromEntries(
+  queries
+    .filter((query: { sql: string }) => query.sql.startsWith('update "wallet_accounts"'))
+    .map((query: { params: unknown[] }) => [query.params[2], query.params[0]])
+);
+
+beforeEach(() => reset());
+
+describe('walletLedgerService.post', () => {
+  it('refuses postings whose entries do not sum to zero', async () => {
+    await expect(walletLedgerService.post(db, {
+      employeeId: 'employee-1',
+      transactionType: 'award',
+      description: 'Unbalanced',
+      entries: [{ account: 'funding', amount: -100 }, { account: 'available', amount: 90 }]
+    })).rejects.toThrow('Unbalanced wallet posting for award');
+
+    expect(queries).toHaveLength(0);
+  });
+
+  it('locks the accounts in id order and moves the points between them', async () => {
+    givenAccounts(account('account-available', 'available', 0), account('account-funding', 'funding', 0));
+
+    await walletLedgerService.postAward(db, { employeeId: 'employee-1', points: 100, awardId: 'award-1', description: 'Screening' });
+
+    expect(findQuery('from "wallet_accounts"')!.sql).toMatch(/order by "wallet_accounts"."id" asc for update$/);
+    expect(findQuery('insert into "wallet_ledger_entries"')!.params).toEqual(expect.arrayContaining([-100, 100]));
+    expect(balancesAfter()).toEqual({ 'account-funding': -100, 'account-available': 100 });
+  });
+
+  it('refuses to spend more points than are available', async () => {
+    givenAccounts(account('account-available', 'available', 50), account('account-held', 'held', 0));
+
+    const hold = walletLedgerService.post(db, {
+      employeeId: 'employee-1',
+      transactionType: 'hold',
+      description: 'Points held',
+      entries: [{ account: 'available', amount: -100 }, { account: 'held', amount: 100 }]
+    });
+
+    await expect(hold).rejects.toThrow(WalletError);
+    await expect(hold).rejects.toThrow('Insufficient available points: 50');
+    expect(findQuery('insert into "wallet_transactions"')).toBeUndefined();
+    expect(balancesAfter()).toEqual({});
+  });
+
+  it('lets a reversal take back points already spent', async () => {
+    givenAccounts(account('account-available', 'available', 30), account('account-funding', 'funding', -100));
+
+    await walletLedgerService.postReversal(db, { employeeId: 'employee-1', points: 100, awardId: 'award-1', description: 'Reversed' });
+
+    expect(balancesAfter()).toEqual({ 'account-available': -70, 'account-funding': 0 });
+  });
+});
+
+describe('rewardRedemptionService postings', () => {
+  const givenRedemption = (status: string) => {
+    const redemption = row(rewardRedemptions, {
+      id: 'redemption-1',
+      employeeId: 'employee-1',
+      employerId: 'employer-1',
+      catalogItemId: 'item-1',
+      pointsCost: 100,
+      status,
+      requestedAt: '2024-03-01 00:00:00',
+      createdAt: '2024-03-01 00:00:00'
+    });
+    respond('from "reward_redemptions"', [redemption]);
+    respond('update "reward_redemptions"', [redemption]);
+  };
+
+  it('holds the points of a new redemption and takes a unit of inventory', async () => {
+    givenAccounts(account('account-available', 'available', 250), account('account-held', 'held', 0));
+    respond('from "employees"', [row(employees, { id: 'employee-1', employerId: 'employer-1', email: 'jane@example.com', createdAt: '2024-01-01 00:00:00' })]);
+    respond('from "reward_catalog_items"', [row(rewardCatalogItems, {
+      id: 'item-1',
+      employerId: 'employer-1',
+      name: 'Gift card',
+      rewardType: 'gift_card',
+      pointsCost: 100,
+      inventory: 5,
+      active: true,
+      createdAt: '2024-01-01 00:00:00'
+    })]);
+    respond('insert into "reward_redemptions"', [row(rewardRedemptions, {
+      id: 'redemption-1',
+      employeeId: 'employee-1',
+      employerId: 'employer-1',
+      catalogItemId: 'item-1',
+      pointsCost: 100,
+      status: 'held',
+      requestedAt: '2024-03-01 00:00:00',
+      createdAt: '2024-03-01 00:00:00'
+    })]);
+
+    await rewardRedemptionService.redeem('employee-1', 'item-1');
+
+    expect(findQuery('from "reward_catalog_items"')!.sql).toMatch(/for update$/);
+    expect(findQuery('insert into "wallet_transactions"')!.params).toContain('hold');
+    expect(balancesAfter()).toEqual({ 'account-available': 150, 'account-held': 100 });
+    expect(findQuery('update "reward_catalog_items"')!.params[0]).toBe(4);
+  });
+
+  it('releases held points back to the employee when a redemption is canceled', async () => {
+    givenRedemption('held');
+    givenAccounts(account('account-available', 'available', 20), account('account-held', 'held', 100));
+
+    await rewardRedemptionService.cancelRedemption('redemption-1');
+
+    expect(findQuery('from "reward_redemptions"')!.sql).toMatch(/for update$/);
+    expect(findQuery('insert into "wallet_transactions"')!.params).toContain('release');
+    expect(balancesAfter()).toEqual({ 'account-held': 0, 'account-available': 120 });
+    // The unit of inventory goes back too
+    expect(findQuery('update "reward_catalog_items"')).toBeDefined();
+  });
+
+  it('spends held points when a redemption is fulfilled', async () => {
+    givenRedemption('fulfilling');
+    givenAccounts(account('account-held', 'held', 100), account('account-redeemed', 'redeemed', 400));
+
+    await rewardRedemptionService.completeFulfillment('redemption-1', 'GC-123');
+
+    expect(balancesAfter()).toEqual({ 'account-held': 0, 'account-redeemed': 500 });
+  });
+
+  it('returns the points of a refunded redemption to the available account', async () => {
+    givenRedemption('fulfilled');
+    givenAccounts(account('account-redeemed', 'redeemed', 500), account('account-available', 'available', 0));
+
+    await rewardRedemptionService.refundRedemption('redemption-1', 'Card never arrived');
+
+    expect(findQuery('insert into "wallet_transactions"')!.params).toContain('refund');
+    expect(balancesAfter()).toEqual({ 'account-redeemed': 400, 'account-available': 100 });
+  });
+
+  it('refuses to refund a redemption that was not fulfilled, posting nothing', async () => {
+    givenRedemption('held');
+
+    await expect(rewardRedemptionService.refundRedemption('redemption-1', 'Changed mind'))
+      .rejects.toThrow('Redemption redemption-1 is held; it must be fulfilled to refund it');
+    expect(findQuery('insert into "wallet_transactions"')).toBeUndefined();
+  });
+});
@@ -0,0 +1,584 @@
+/**
+ * Smart Health Hub - Wallet Ledger Service
+ *
+ * The points wallet as a double-entry ledger. Every change to a wallet is a
+ * wallet transaction whose ledger entries sum to zero: awards move points from
+ * the employer's funding account to the employee's available account, holds
+ * move them to the employee's held account, and so on. Account balances are
+ * updated with every posting while the accounts are locked, so concurrent
+ * redemptions cannot spend the same points, and periodic balance snapshots
+ * let the ledger be verified without replaying it from the start.
+ */
+
+import { eq, and, or, inArray, isNull, gt, lte, asc, sql } from 'drizzle-orm';
+import { db } from '../../db';
+import logger from '../../utils/logger';
+import {
+  employees,
+  walletTransactions,
+  walletAccounts,
+  walletLedgerEntries,
+  walletBalanceSnapshots,
+  walletPolicies,
+  type InsertWalletPolicy,
+  type WalletAccount,
+  type WalletPolicy,
+  type WalletTransaction
+} from '../../../shared/employer-schema';
+import { expiredPoints } from './wallet-expiry';
+
+export type WalletAccountType = 'available' | 'held' | 'funding' | 'redeemed' | 'expired';
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const EMPLOYEE_ACCOUNT_TYPES: WalletAccountType[] = ['available', 'held'];
+
+// Postings that may leave an employee account negative, e.g. reversing points already spent
+const NEGATIVE_BALANCE_TRANSACTION_TYPES = ['reversal', 'adjustment', 'opening_balance'];
+
+/**
+ * A wallet operation that is not allowed, with the HTTP status to report
+ */
+export class WalletError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 409
+  ) {
+    super(message);
+    this.name = 'WalletError';
+  }
+}
+
+/**
+ * A balanced set of ledger entries for one employee's wallet
+ */
+export interface WalletPosting {
+  employeeId: string;
+  transactionType: string;
+  description: string;
+  entries: { account: WalletAccountType; amount: number }[];
+  awardId?: string;
+  redemptionId?: string;
+  rewardItemId?: string;
+  expiresAt?: Date | null;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * An employee's points
+ */
+export interface WalletBalance {
+  available: number;
+  held: number; // Awaiting fulfillment of redemptions
+}
+
+/**
+ * A problem found by verifying the ledger
+ */
+export interface LedgerDiscrepancy {
+  kind: 'unbalanced_transaction' | 'account_balance' | 'snapshot';
+  transactionId?: string;
+  accountId?: string;
+  snapshotId?: string;
+  expected: number;
+  actual: number;
+}
+
+/**
+ * Wallet Ledger Service
+ */
+export class WalletLedgerService {
+
+  /**
+   * Post a balanced transaction within the caller's database transaction.
+   * The employee's and employer's accounts are created if needed and locked.
+   */
+  async post(tx: DbTransaction, posting: WalletPosting): Promise<WalletTransaction> {
+    const total = posting.entries.reduce((sum, entry) => sum + entry.amount, 0);
+    if (posting.entries.length < 2 || total !== 0 || posting.entries.some(entry => !Number.isInteger(entry.amount) || entry.amount === 0)) {
+      throw new Error(`Unbalanced wallet posting for ${posting.transactionType}`);
+    }
+
+    const accounts = await this.lockAccounts(tx, posting.employeeId, posting.entries.map(entry => entry.account));
+
+    const balances = new Map<WalletAccountType, number>();
+    for (const entry of posting.entries) {
+      balances.set(entry.account, (balances.get(entry.account) ?? accounts.get(entry.account)!.balance) + entry.amount);
+    }
+    for (const [accountType, balance] of balances) {
+      if (balance < 0 && EMPLOYEE_ACCOUNT_TYPES.includes(accountType) &&
+          !NEGATIVE_BALANCE_TRANSACTION_TYPES.includes(posting.transactionType)) {
+        throw new WalletError(`Insufficient ${accountType} points: ${accounts.get(accountType)!.balance}`);
+      }
+    }
+
+    const now = new Date();
+    const [transaction] = await tx
+      .insert(walletTransactions)
+      .values({
+        employeeId: posting.employeeId,
+        transactionDate: now,
+        transactionType: posting.transactionType,
+        points: posting.entries.filter(entry => entry.account === 'available').reduce((sum, entry) => sum + entry.amount, 0),
+        awardId: posting.awardId,
+        redemptionId: posting.redemptionId,
+        rewardItemId: posting.rewardItemId,
+        expiresAt: posting.expiresAt,
+        description: posting.description,
+        metadata: posting.metadata,
+        createdAt: now
+      })
+      .returning();
+
+    await tx.insert(walletLedgerEntries).values(
+      posting.entries.map(entry => ({
+        transactionId: transaction.id,
+        accountId: accounts.get(entry.account)!.id,
+        amount: entry.amount,
+        createdAt: now
+      }))
+    );
+
+    for (const [accountType, balance] of balances) {
+      await tx
+        .update(walletAccounts)
+        .set({ balance, updatedAt: now })
+        .where(eq(walletAccounts.id, accounts.get(accountType)!.id));
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Post an incentive award, with the expiry the employer's policy gives it
+   */
+  async postAward(
+    tx: DbTransaction,
+    award: { employeeId: string; points: number; awardId: string; description: string }
+  ): Promise<WalletTransaction> {
+    const [employee] = await tx.select({ employerId: employees.employerId }).from(employees).where(eq(employees.id, award.employeeId));
+    const [policy] = employee
+      ? await tx.select().from(walletPolicies).where(eq(walletPolicies.employerId, employee.employerId))
+      : [];
+
+    return await this.post(tx, {
+      employeeId: award.employeeId,
+      transactionType: 'award',
+      description: award.description,
+      awardId: award.awardId,
+      expiresAt: pointExpiry(policy, new Date()),
+      entries: [
+        { account: 'funding', amount: -award.points },
+        { account: 'available', amount: award.points }
+      ]
+    });
+  }
+
+  /**
+   * Post the reversal of an incentive award. The points are taken back even if
+   * that leaves the employee's available balance negative.
+   */
+  async postReversal(
+    tx: DbTransaction,
+    reversal: { employeeId: string; points: number; awardId: string; description: string }
+  ): Promise<WalletTransaction> {
+    return await this.post(tx, {
+      employeeId: reversal.employeeId,
+      transactionType: 'reversal',
+      description: reversal.description,
+      awardId: reversal.awardId,
+      entries: [
+        { account: 'available', amount: -reversal.points },
+        { account: 'funding', amount: reversal.points }
+      ]
+    });
+  }
+
+  /**
+   * Carry wallets that predate the ledger over into it. A wallet's points were
+   * the sum of its wallet transactions, and transactions from before the
+   * ledger have no ledger entries; each wallet with such points gets one
+   * opening balance posting from the employer's funding account. Wallets
+   * already opened are skipped, so this is safe to run at every start.
+   */
+  async openLegacyBalances(): Promise<{ employees: number; points: number }> {
+    const unposted = sql`not exists (select 1 from wallet_ledger_entries e where e.transaction_id = ${walletTransactions.id})`;
+    const notOpened = sql`not exists (select 1 from wallet_transactions o
+      where o.employee_id = ${walletTransactions.employeeId} and o.transaction_type = 'opening_balance')`;
+
+    const wallets = await db
+      .select({
+        employeeId: walletTransactions.employeeId,
+        points: sql<number>`sum(${walletTransactions.points})::int`,
+        transactions: sql<number>`count(*)::int`
+      })
+      .from(walletTransactions)
+      .where(and(unposted, notOpened))
+      .groupBy(walletTransactions.employeeId)
+      .having(sql`sum(${walletTransactions.points}) <> 0`);
+
+    const result = { employees: 0, points: 0 };
+    for (const wallet of wallets) {
+      try {
+        const opened = await db.transaction(async (tx) => {
+          await this.lockAccounts(tx, wallet.employeeId, ['available', 'funding']);
+
+          // Opened by another instance since the wallets were listed
+          const [existing] = await tx
+            .select({ id: walletTransactions.id })
+            .from(walletTransactions)
+            .where(and(eq(walletTransactions.employeeId, wallet.employeeId), eq(walletTransactions.transactionType, 'opening_balance')));
+          if (existing) {
+            return false;
+          }
+
+          await this.post(tx, {
+            employeeId: wallet.employeeId,
+            transactionType: 'opening_balance',
+            description: `Opening balance of ${wallet.points} points from ${wallet.transactions} earlier wallet transactions`,
+            metadata: { legacyTransactions: wallet.transactions },
+            entries: [
+              { account: 'funding', amount: -wallet.points },
+              { account: 'available', amount: wallet.points }
+            ]
+          });
+          return true;
+        });
+
+        if (opened) {
+          result.employees++;
+          result.points += wallet.points;
+        }
+      } catch (error) {
+        logger.error(`Error opening wallet ledger for employee ${wallet.employeeId}:`, error);
+      }
+    }
+
+    if (result.employees > 0) {
+      logger.info('Opened wallet ledger balances for wallets that predate it', result);
+    }
+    return result;
+  }
+
+  /**
+   * Get an employee's available and held points
+   */
+  async getBalance(employeeId: string): Promise<WalletBalance> {
+    try {
+      const accounts = await db
+        .select()
+        .from(walletAccounts)
+        .where(and(eq(walletAccounts.employeeId, employeeId), inArray(walletAccounts.accountType, EMPLOYEE_ACCOUNT_TYPES)));
+
+      const balance: WalletBalance = { available: 0, held: 0 };
+      for (const account of accounts) {
+        balance[account.accountType as keyof WalletBalance] = account.balance;
+      }
+      return balance;
+    } catch (error) {
+      logger.error(`Error getting wallet balance for employee ${employeeId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get an employer's wallet policy
+   */
+  async getPolicy(employerId: string): Promise<WalletPolicy | undefined> {
+    try {
+      const [policy] = await db.select().from(walletPolicies).where(eq(walletPolicies.employerId, employerId));
+      return policy;
+    } catch (error) {
+      logger.error(`Error getting wallet policy for employer ${employerId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create or replace an employer's wallet policy. A new expiry policy applies
+   * to points awarded from then on.
+   */
+  async setPolicy(employerId: string, data: Omit<InsertWalletPolicy, 'id' | 'employerId' | 'createdAt' | 'updatedAt'>): Promise<WalletPolicy> {
+    try {
+      if (data.pointExpiry === 'months_after_award' && !data.pointExpiryMonths) {
+        throw new WalletError('pointExpiryMonths is required when points expire months after award', 400);
+      }
+
+      const now = new Date();
+      const [policy] = await db
+        .insert(walletPolicies)
+        .values({ ...data, employerId, createdAt: now })
+        .onConflictDoUpdate({ target: walletPolicies.employerId, set: { ...data, updatedAt: now } })
+        .returning();
+
+      logger.info(`Set wallet policy for employer ${employerId}: points expire ${policy.pointExpiry}`);
+      return policy;
+    } catch (error) {
+      logger.error(`Error setting wallet policy for employer ${employerId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Expire awarded points past their expiry date. The employee's transactions
+   * are replayed so each spending draws on the awards that existed when it was
+   * made, those expiring first, and the employee loses only what is left of
+   * the expired awards.
+   */
+  async expirePoints(now: Date = new Date()): Promise<{ employees: number; points: number }> {
+    const candidates = await db
+      .selectDistinct({ employeeId: walletTransactions.employeeId })
+      .from(walletTransactions)
+      .innerJoin(walletAccounts, and(
+        eq(walletAccounts.employeeId, walletTransactions.employeeId),
+        eq(walletAccounts.accountType, 'available')
+      ))
+      .where(
+        and(
+          eq(walletTransactions.transactionType, 'award'),
+          lte(walletTransactions.expiresAt, now),
+          gt(walletAccounts.balance, 0)
+        )
+      );
+
+    const result = { employees: 0, points: 0 };
+    for (const { employeeId } of candidates) {
+      try {
+        const expired = await db.transaction(async (tx) => {
+          const accounts = await this.lockAccounts(tx, employeeId, ['available', 'expired']);
+          const available = accounts.get('available')!.balance;
+
+          // Posting order is ledger entry order; transactions from before the ledger are in its opening balance
+          const firstEntryId = sql`(select min(e.id) from wallet_ledger_entries e where e.transaction_id = ${walletTransactions.id})`;
+          const history = await tx
+            .select({
+              transactionType: walletTransactions.transactionType,
+              points: walletTransactions.points,
+              transactionDate: walletTransactions.transactionDate,
+              expiresAt: walletTransactions.expiresAt,
+              awardId: walletTransactions.awardId,
+              redemptionId: walletTransactions.redemptionId
+            })
+            .from(walletTransactions)
+            .where(and(eq(walletTransactions.employeeId, employeeId), sql`${firstEntryId} is not null`))
+            .orderBy(asc(firstEntryId));
+
+          const points = Math.min(available, expiredPoints(history, now));
+          if (points <= 0) {
+            return 0;
+          }
+
+          await this.post(tx, {
+            employeeId,
+            transactionType: 'expiration',
+            description: `${points} points expired`,
+            entries: [
+              { account: 'available', amount: -points },
+              { account: 'expired', amount: points }
+            ]
+          });
+          return points;
+        });
+
+        if (expired > 0) {
+          result.employees++;
+          result.points += expired;
+        }
+      } catch (error) {
+        logger.error(`Error expiring wallet points for employee ${employeeId}:`, error);
+      }
+    }
+
+    if (result.points > 0) {
+      logger.info('Wallet point expiry complete', result);
+    }
+    return result;
+  }
+
+  /**
+   * Record the balance of every account, one employer at a time
+   */
+  async snapshotBalances(): Promise<number> {
+    const employers = await db.selectDistinct({ employerId: walletAccounts.employerId }).from(walletAccounts);
+
+    let snapshots = 0;
+    for (const { employerId } of employers) {
+      snapshots += await db.transaction(async (tx) => {
+        // Locked, so no posting is part way through
+        const accounts = await tx
+          .select()
+          .from(walletAccounts)
+          .where(eq(walletAccounts.employerId, employerId))
+          .orderBy(asc(walletAccounts.id))
+          .for('update'); // Lock the rows
+
+        const lastEntries = await tx
+          .select({ accountId: walletLedgerEntries.accountId, lastEntryId: sql<number>`max(${walletLedgerEntries.id})::int` })
+          .from(walletLedgerEntries)
+          .where(inArray(walletLedgerEntries.accountId, accounts.map(account => account.id)))
+          .groupBy(walletLedgerEntries.accountId);
+        const lastEntryIds = new Map(lastEntries.map(row => [row.accountId, row.lastEntryId]));
+
+        await tx.insert(walletBalanceSnapshots).values(
+          accounts.map(account => ({
+            accountId: account.id,
+            balance: account.balance,
+            lastEntryId: lastEntryIds.get(account.id) ?? 0
+          }))
+        );
+        return accounts.length;
+      });
+    }
+
+    logger.info(`Recorded ${snapshots} wallet balance snapshots`);
+    return snapshots;
+  }
+
+  /**
+   * Verify an employer's ledger: every transaction balances, every account's
+   * balance is the sum of its entries, and every snapshot matches the entries
+   * up to the last one it includes
+   */
+  async verifyLedger(employerId: string): Promise<LedgerDiscrepancy[]> {
+    try {
+      const discrepancies: LedgerDiscrepancy[] = [];
+      const employerAccounts = db.select({ id: walletAccounts.id }).from(walletAccounts).where(eq(walletAccounts.employerId, employerId));
+
+      const unbalanced = await db
+        .select({ transactionId: walletLedgerEntries.transactionId, total: sql<number>`sum(${walletLedgerEntries.amount})::int` })
+        .from(walletLedgerEntries)
+        .where(inArray(walletLedgerEntries.accountId, employerAccounts))
+        .groupBy(walletLedgerEntries.transactionId)
+        .having(sql`sum(${walletLedgerEntries.amount}) <> 0`);
+      for (const row of unbalanced) {
+        discrepancies.push({ kind: 'unbalanced_transaction', transactionId: row.transactionId, expected: 0, actual: row.total });
+      }
+
+      const accounts = await db
+        .select({
+          id: walletAccounts.id,
+          balance: walletAccounts.balance,
+          total: sql<number>`coalesce((select sum(e.amount) from wallet_ledger_entries e where e.account_id = ${walletAccounts.id}), 0)::int`
+        })
+        .from(walletAccounts)
+        .where(eq(walletAccounts.employerId, employerId));
+      for (const account of accounts) {
+        if (account.balance !== account.total) {
+          discrepancies.push({ kind: 'account_balance', accountId: account.id, expected: account.total, actual: account.balance });
+        }
+      }
+
+      const snapshots = await db
+        .select({
+          id: walletBalanceSnapshots.id,
+          accountId: walletBalanceSnapshots.accountId,
+          balance: walletBalanceSnapshots.balance,
+          total: sql<number>`coalesce((select sum(e.amount) from wallet_ledger_entries e
+            where e.account_id = ${walletBalanceSnapshots.accountId} and e.id <= ${walletBalanceSnapshots.lastEntryId}), 0)::int`
+        })
+        .from(walletBalanceSnapshots)
+        .where(inArray(walletBalanceSnapshots.accountId, employerAccounts));
+      for (const snapshot of snapshots) {
+        if (snapshot.balance !== snapshot.total) {
+          discrepancies.push({ kind: 'snapshot', snapshotId: snapshot.id, accountId: snapshot.accountId, expected: snapshot.total, actual: snapshot.balance });
+        }
+      }
+
+      if (discrepancies.length > 0) {
+        logger.warn(`Wallet ledger for employer ${employerId} has ${discrepancies.length} discrepancies`);
+      }
+      return discrepancies;
+    } catch (error) {
+      logger.error(`Error verifying wallet ledger for employer ${employerId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Start expiring points on a timer
+   */
+  startPeriodicPointExpiry(intervalMs: number = 60 * 60 * 1000): void {
+    setInterval(() => {
+      this.expirePoints().catch(error => {
+        logger.error('Error in periodic wallet point expiry:', error);
+      });
+    }, intervalMs).unref();
+  }
+
+  /**
+   * Start recording balance snapshots on a timer
+   */
+  startPeriodicBalanceSnapshots(intervalMs: number = 24 * 60 * 60 * 1000): void {
+    setInterval(() => {
+      this.snapshotBalances().catch(error => {
+        logger.error('Error in periodic wallet balance snapshot:', error);
+      });
+    }, intervalMs).unref();
+  }
+
+  /**
+   * Lock an employee's accounts and their employer's, creating any that do not
+   * exist yet. Rows are locked in id order so concurrent postings cannot deadlock.
+   */
+  private async lockAccounts(
+    tx: DbTransaction,
+    employeeId: string,
+    accountTypes: WalletAccountType[]
+  ): Promise<Map<WalletAccountType, WalletAccount>> {
+    const [employee] = await tx.select({ employerId: employees.employerId }).from(employees).where(eq(employees.id, employeeId));
+    if (!employee) {
+      throw new WalletError(`Employee ${employeeId} not found`, 404);
+    }
+
+    const types = Array.from(new Set(accountTypes));
+    const employeeTypes = types.filter(type => EMPLOYEE_ACCOUNT_TYPES.includes(type));
+    const employerTypes = types.filter(type => !EMPLOYEE_ACCOUNT_TYPES.includes(type));
+
+    await tx
+      .insert(walletAccounts)
+      .values(types.map(type => ({
+        employerId: employee.employerId,
+        employeeId: employeeTypes.includes(type) ? employeeId : null,
+        accountType: type
+      })))
+      .onConflictDoNothing();
+
+    const accounts = await tx
+      .select()
+      .from(walletAccounts)
+      .where(
+        or(
+          employeeTypes.length > 0
+            ? and(eq(walletAccounts.employeeId, employeeId), inArray(walletAccounts.accountType, employeeTypes))
+            : undefined,
+          employerTypes.length > 0
+            ? and(eq(walletAccounts.employerId, employee.employerId), isNull(walletAccounts.employeeId), inArray(walletAccounts.accountType, employerTypes))
+            : undefined
+        )
+      )
+      .orderBy(asc(walletAccounts.id))
+      .for('update'); // Lock the rows
+
+    return new Map(accounts.map(account => [account.accountType as WalletAccountType, account]));
+  }
+}
+
+/**
+ * When points awarded now expire under a policy, null if they do not
+ */
+export function pointExpiry(policy: WalletPolicy | undefined, awardedAt: Date): Date | null {
+  switch (policy?.pointExpiry) {
+    case 'months_after_award': {
+      const expiresAt = new Date(awardedAt);
+      expiresAt.setUTCMonth(expiresAt.getUTCMonth() + (policy.pointExpiryMonths || 0));
+      return expiresAt;
+    }
+    case 'end_of_year':
+      return new Date(Date.UTC(awardedAt.getUTCFullYear() + 1, 0, 1));
+    default:
+      return null;
+  }
+}
+
+// Create and export the service instance
+export const walletLedgerService = new WalletLedgerService();
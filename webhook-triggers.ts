@@ -270,4 +270,180 @@ export const fhirWebhooks = {
       }
     });
   }
-};
\ No newline at end of file
+};
+// Consent-related webhook triggers
+export const consentWebhooks = {
+  /**
+   * Trigger webhook when a partner requests a new scope of consent
+   */
+  async requestCreated(requestId: string, requestData: any): Promise<void> {
+    await triggerWebhook({
+      eventName: 'consent.request_created',
+      payload: {
+        requestId,
+        ...requestData,
+        timestamp: new Date().toISOString()
+      }
+    });
+  },
+
+  /**
+   * Trigger webhook when a patient approves a consent request
+   */
+  async requestApproved(requestId: string, consentId: string, requestData: any): Promise<void> {
+    await triggerWebhook({
+      eventName: 'consent.request_approved',
+      payload: {
+        requestId,
+        consentId,
+        ...requestData,
+        timestamp: new Date().toISOString()
+      }
+    });
+  },
+
+  /**
+   * Trigger webhook when a patient rejects a consent request
+   */
+  async requestRejected(requestId: string, requestData: any): Promise<void> {
+    await triggerWebhook({
+      eventName: 'consent.request_rejected',
+      payload: {
+        requestId,
+        ...requestData,
+        timestamp: new Date().toISOString()
+      }
+    });
+  },
+
+  /**
+   * Trigger webhook when a consent request lapses without a response
+   */
+  async requestExpired(requestId: string, requestData: any): Promise<void> {
+    await triggerWebhook({
+      eventName: 'consent.request_expired',
+      payload: {
+        requestId,
+        ...requestData,
+        timestamp: new Date().toISOString()
+      }
+    });
+  },
+
+  /**
+   * Trigger webhook when a consent request (and any consent it produced) is revoked
+   */
+  async requestRevoked(requestId: string, requestData: any): Promise<void> {
+    await triggerWebhook({
+      eventName: 'consent.request_revoked',
+      payload: {
+        requestId,
+        ...requestData,
+        timestamp: new Date().toISOString()
+      }
+    });
+  }
+};
+
+// Goldcarding-related webhook triggers
+export const goldcardWebhooks = {
+  /**
+   * Trigger webhook when a goldcarded provider falls below the rule thresholds
+   */
+  async gracePeriodStarted(providerId: string, eligibilityData: any): Promise<void> {
+    await triggerWebhook({
+      eventName: 'goldcard.grace_period_started',
+      payload: {
+        providerId,
+        ...eligibilityData,
+        timestamp: new Date().toISOString()
+      }
+    });
+  },
+
+  /**
+   * Trigger webhook when a provider's goldcard is renewed after review
+   */
+  async renewed(providerId: string, eligibilityData: any): Promise<void> {
+    await triggerWebhook({
+      eventName: 'goldcard.renewed',
+      payload: {
+        providerId,
+        ...eligibilityData,
+        timestamp: new Date().toISOString()
+      }
+    });
+  },
+
+  /**
+   * Trigger webhook when a provider's goldcard lapses at the end of its period
+   */
+  async expired(providerId: string, eligibilityData: any): Promise<void> {
+    await triggerWebhook({
+      eventName: 'goldcard.expired',
+      payload: {
+        providerId,
+        ...eligibilityData,
+        timestamp: new Date().toISOString()
+      }
+    });
+  },
+
+  /**
+   * Trigger webhook when a provider's goldcard is revoked after the grace period
+   */
+  async revoked(providerId: string, eligibilityData: any): Promise<void> {
+    await triggerWebhook({
+      eventName: 'goldcard.revoked',
+      payload: {
+        providerId,
+        ...eligibilityData,
+        timestamp: new Date().toISOString()
+      }
+    });
+  }
+};
+
+export const waitlistWebhooks = {
+  /**
+   * Trigger webhook when a freed slot is held and offered to a waitlisted patient
+   */
+  async slotOffered(patientId: string, offerData: any): Promise<void> {
+    await triggerWebhook({
+      eventName: 'waitlist.slot_offered',
+      payload: {
+        patientId,
+        ...offerData,
+        timestamp: new Date().toISOString()
+      }
+    });
+  },
+
+  /**
+   * Trigger webhook when an offer lapses without a response
+   */
+  async offerExpired(patientId: string, offerData: any): Promise<void> {
+    await triggerWebhook({
+      eventName: 'waitlist.offer_expired',
+      payload: {
+        patientId,
+        ...offerData,
+        timestamp: new Date().toISOString()
+      }
+    });
+  },
+
+  /**
+   * Trigger webhook when an accepted offer is booked
+   */
+  async booked(patientId: string, offerData: any): Promise<void> {
+    await triggerWebhook({
+      eventName: 'waitlist.booked',
+      payload: {
+        patientId,
+        ...offerData,
+        timestamp: new Date().toISOString()
+      }
+    });
+  }
+};
@@ -0,0 +1,150 @@
+/**
+ * Wellness Activity API Routes
+ *
+ * Recording wellness activities by hand, which evaluates the incentive rules
+ * they concern, and invalidating activities that should no longer count.
+ * Vendor activity arrives through the vendor integration routes instead.
+ */
+
+import express from 'express';
+import { z } from 'zod';
+import logger from '../../utils/logger';
+import { incentiveEngineService } from './incentive-engine-service';
+import { employerService } from './employer-service';
+
+// Create a router
+const router = express.Router();
+
+// Middleware to check if the user is authenticated
+const isAuthenticated = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'Not authenticated' });
+  }
+  next();
+};
+
+// Middleware to check if the user has admin permissions
+const isAdmin = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'Not authenticated' });
+  }
+  if (req.user?.role !== 'admin') {
+    return res.status(403).json({ message: 'Forbidden: Admin access required' });
+  }
+  next();
+};
+
+const recordActivitySchema = z.object({
+  employeeId: z.string().uuid(),
+  programId: z.string().uuid().optional(),
+  contentId: z.string().uuid().optional(),
+  activityType: z.string().min(1),
+  activityDate: z.coerce.date(),
+  status: z.enum(['completed', 'verified']).default('completed'),
+  activityData: z.record(z.string(), z.any()).optional(),
+  sourceId: z.string().min(1).optional() // Client key, so a retried request is not recorded twice
+});
+
+const invalidateActivitySchema = z.object({
+  reason: z.string().min(1)
+});
+
+/**
+ * Send an error
+ */
+function sendError(res: express.Response, error: unknown, action: string, invalidMessage: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: invalidMessage, errors: error.errors });
+  }
+
+  logger.error(`Error ${action}`, { error: (error as Error).message });
+  res.status(500).json({ message: `Failed ${action}`, error: (error as Error).message });
+}
+
+/**
+ * @swagger
+ * /api/wellness/activities:
+ *   post:
+ *     summary: Record a wellness activity
+ *     tags: [Wellness Activities]
+ *     security:
+ *       - bearerAuth: []
+ *     description: >
+ *       Records a manual activity for the current user's employee record (or
+ *       any employee, for admins) and evaluates the incentive rules it
+ *       concerns. Only admins may record verified activities. A request
+ *       repeating the sourceId of an activity already recorded returns that
+ *       activity instead of recording it again.
+ *     responses:
+ *       200:
+ *         description: Activity already recorded under this sourceId
+ *       201:
+ *         description: The activity and the awards it earned
+ *       400:
+ *         description: Invalid activity
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not the user's employee record, or a verified activity from a non-admin
+ *       404:
+ *         description: Employee not found
+ */
+router.post('/activities', isAuthenticated, async (req, res) => {
+  try {
+    const { sourceId, ...activity } = recordActivitySchema.parse(req.body);
+
+    const isAdminUser = req.user?.role === 'admin';
+    const employee = await employerService.getEmployee(activity.employeeId);
+    if (!employee) {
+      return res.status(404).json({ message: 'Employee not found' });
+    }
+    if (!isAdminUser && employee.userId !== String(req.user!.id)) {
+      return res.status(403).json({ message: 'Forbidden: Not your employee record' });
+    }
+    if (!isAdminUser && activity.status === 'verified') {
+      return res.status(403).json({ message: 'Forbidden: Only admins may record verified activities' });
+    }
+
+    const result = await incentiveEngineService.recordActivity({ ...activity, sourceType: 'manual', sourceId });
+    res.status(result.duplicate ? 200 : 201).json(result);
+  } catch (error) {
+    sendError(res, error, 'recording wellness activity', 'Invalid wellness activity');
+  }
+});
+
+/**
+ * @swagger
+ * /api/wellness/activities/{id}/invalidate:
+ *   post:
+ *     summary: Invalidate a wellness activity
+ *     tags: [Wellness Activities]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Reverses the awards the activity no longer supports.
+ *     responses:
+ *       200:
+ *         description: The invalidated activity and the awards reversed
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden - admin access required
+ *       404:
+ *         description: Activity not found
+ */
+router.post('/activities/:id/invalidate', isAdmin, async (req, res) => {
+  try {
+    const { reason } = invalidateActivitySchema.parse(req.body);
+    const result = await incentiveEngineService.invalidateActivity(req.params.id, reason, String(req.user!.id));
+    if (!result) {
+      return res.status(404).json({ message: 'Activity not found' });
+    }
+
+    res.json(result);
+  } catch (error) {
+    sendError(res, error, 'invalidating wellness activity', 'Invalid invalidation request');
+  }
+});
+
+export default router;
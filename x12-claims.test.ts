@@ -0,0 +1,179 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import type { Claim, ClaimLineItem } from '@shared/claims-schema';
+import { build837, parse277CA, parse835, parse999, isProcessedClaimStatus, X12ClaimParties, X12SubmitterInfo } from './x12-claims';
+import { parseX12, readEnvelope } from './x12-utils';
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, 'fixtures', 'x12', name), 'utf8');
+
+// The claim the 277CA and 835 fixtures answer
+const CLAIM_ID = '3f2a9c1e-7b4d-4e8a-9c61-0d5e2f7a8b90';
+const LINE_ID = '9d8c7b6a-5e4f-4a3b-8c2d-1e0f9a8b7c6d';
+
+const claim = {
+  id: CLAIM_ID,
+  type: 'PROFESSIONAL',
+  totalAmount: 15000,
+  patientControlNumber: null,
+  serviceStartDate: new Date('2024-03-10T00:00:00Z'),
+  serviceEndDate: null
+} as unknown as Claim;
+
+const lineItems = [{
+  id: LINE_ID,
+  claimId: CLAIM_ID,
+  sequence: 1,
+  serviceCode: '99213',
+  quantity: 1,
+  unitPrice: 15000,
+  totalPrice: 15000,
+  serviceDate: new Date('2024-03-10T00:00:00Z'),
+  placeOfService: '11',
+  diagnosisCodes: ['E11.9', 'I10'],
+  modifiers: ['25'],
+  metadata: null
+}] as unknown as ClaimLineItem[];
+
+const parties: X12ClaimParties = {
+  billingProvider: {
+    name: 'Riverside Clinic',
+    npi: '1234567893',
+    taxId: '12-3456789',
+    address: { line1: '100 Main St', city: 'Springfield', state: 'il', postalCode: '62701-1234' }
+  },
+  subscriber: {
+    memberId: 'MEM123456',
+    firstName: 'Jane',
+    lastName: 'Doe',
+    dateOfBirth: '1980-05-14',
+    gender: 'F'
+  },
+  payer: { name: 'Acme Health Plan', payerId: 'ACME01' }
+};
+
+const submitter: X12SubmitterInfo = {
+  submitterName: 'Smart Health Hub',
+  submitterId: 'SHHSUBMITTER',
+  contactName: 'Billing Desk',
+  contactPhone: '(555) 010-0000',
+  receiverName: 'Acme Health Plan',
+  receiverId: 'ACME01'
+};
+
+const envelope = {
+  senderId: 'SHHSUBMITTER',
+  receiverId: 'ACME01',
+  applicationSenderCode: 'SHHSUBMITTER',
+  applicationReceiverCode: 'ACME01',
+  controlNumber: 42,
+  timestamp: new Date('2024-03-15T12:00:00Z')
+};
+
+describe('build837', () => {
+  const content = build837(claim, lineItems, parties, submitter, envelope);
+  const { segments } = parseX12(content);
+  const find = (id: string, qualifier?: string) =>
+    segments.find(s => s.id === id && (qualifier === undefined || s.elements[0] === qualifier))!;
+
+  it('wraps the claim in a professional 837 envelope', () => {
+    const parsed = readEnvelope(segments);
+    expect(parsed.transactionSetId).toBe('837');
+    expect(parsed.implementationReference).toBe('005010X222A1');
+    expect(parsed.interchangeControlNumber).toBe('000000042');
+    expect(find('SE').elements[0]).toBe(String(segments.indexOf(find('SE')) - segments.indexOf(find('ST')) + 1));
+  });
+
+  it('sends a 20-character patient control number derived from the claim ID in CLM01', () => {
+    expect(find('CLM').elements[0]).toBe('3f2a9c1e7b4d4e8a9c61');
+    expect(find('CLM').elements[1]).toBe('150.00');
+  });
+
+  it('sends a stored patient control number exactly as stored', () => {
+    const stored = build837({ ...claim, patientControlNumber: 'Pcn-00042' }, lineItems, parties, submitter, envelope);
+    expect(parseX12(stored).segments.find(s => s.id === 'CLM')!.elements[0]).toBe('Pcn-00042');
+  });
+
+  it('rejects a patient control number longer than CLM01 allows', () => {
+    expect(() => build837({ ...claim, patientControlNumber: 'P'.repeat(21) }, lineItems, parties, submitter, envelope))
+      .toThrow('longer than 20 characters');
+  });
+
+  it('upper-cases names and addresses', () => {
+    expect(find('NM1', 'IL').elements.slice(2, 4)).toEqual(['DOE', 'JANE']);
+    expect(find('N4').elements).toEqual(['SPRINGFIELD', 'IL', '627011234']);
+  });
+
+  it('points service lines at claim-level diagnoses', () => {
+    expect(find('HI').elements).toEqual(['ABK:E119', 'ABF:I10']);
+    expect(find('SV1').elements[0]).toBe('HC:99213:25');
+    expect(find('SV1').elements[6]).toBe('1:2');
+    expect(find('REF', '6R').elements[1]).toBe(LINE_ID);
+  });
+
+  it('rejects claims missing required parties', () => {
+    expect(() => build837(claim, lineItems, { ...parties, payer: { name: 'Acme', payerId: '' } }, submitter, envelope))
+      .toThrow('missing payer ID');
+  });
+});
+
+describe('responses to a sent claim', () => {
+  const sent = build837(claim, lineItems, parties, submitter, envelope);
+  const clm01 = parseX12(sent).segments.find(s => s.id === 'CLM')!.elements[0];
+
+  it('parses a 999 that accepts the transaction set', () => {
+    const { acknowledgments } = parse999(fixture('999-accepted.edi'));
+    expect(acknowledgments).toEqual([
+      { groupControlNumber: '42', transactionSetControlNumber: '0001', status: 'A', accepted: true, errors: [] }
+    ]);
+  });
+
+  it('parses a 999 rejection with its segment errors', () => {
+    const [ack] = parse999(fixture('999-rejected.edi')).acknowledgments;
+    expect(ack.accepted).toBe(false);
+    expect(ack.status).toBe('R');
+    expect(ack.errors).toEqual([
+      { segmentId: 'NM1', position: '12', code: '8' },
+      { position: '9', code: '7' }
+    ]);
+  });
+
+  it('matches the 277CA claim acknowledgment to the CLM01 sent', () => {
+    const { claims } = parse277CA(fixture('277ca.edi'));
+    expect(claims).toHaveLength(2);
+
+    const [accepted, rejected] = claims;
+    expect(accepted.patientControlNumber).toBe(clm01);
+    expect(accepted.accepted).toBe(true);
+    expect(accepted.payerClaimControlNumber).toBe('PAYERCLAIM001');
+    expect(accepted.chargeAmount).toBe(15000);
+
+    expect(rejected.accepted).toBe(false);
+    expect(rejected.categoryCode).toBe('A3');
+  });
+
+  it('matches the 835 claim payment and service line to what was sent', () => {
+    const remittance = parse835(fixture('835.edi'));
+    expect(remittance.payment).toMatchObject({ handlingCode: 'I', amount: 12000, method: 'ACH', traceNumber: 'EFT0001' });
+    expect(remittance.payeeNpi).toBe('1234567893');
+
+    const [payment] = remittance.claims;
+    expect(payment.patientControlNumber).toBe(clm01);
+    expect(isProcessedClaimStatus(payment.statusCode)).toBe(true);
+    expect(payment).toMatchObject({ chargeAmount: 15000, paidAmount: 12000, patientResponsibility: 3000 });
+    expect(payment.adjustments).toEqual([{ groupCode: 'PR', reasonCode: '1', amount: 3000, quantity: undefined }]);
+
+    const [service] = payment.services;
+    expect(service).toMatchObject({
+      procedureCode: '99213',
+      modifiers: ['25'],
+      allowedAmount: 15000,
+      lineItemControlNumber: LINE_ID,
+      remarkCodes: ['N130']
+    });
+    expect(service.serviceDate).toEqual(new Date('2024-03-10T00:00:00Z'));
+  });
+
+  it('refuses a document of the wrong transaction set', () => {
+    expect(() => parse835(fixture('277ca.edi'))).toThrow('Expected transaction set 835 but found 277');
+  });
+});
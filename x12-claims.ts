@@ -0,0 +1,637 @@
+/**
+ * X12 Claims Transactions
+ *
+ * Builds 837P/837I (5010) claim submissions from claims and claim line items,
+ * and parses the responses payers and clearinghouses send back:
+ * - 999 implementation acknowledgments
+ * - 277CA claim acknowledgments
+ * - 835 remittance advice
+ *
+ * Everything here is pure string-in/string-out so it can be exercised
+ * offline against fixture files.
+ */
+import { Claim, ClaimLineItem } from '@shared/claims-schema';
+import {
+  X12Delimiters,
+  X12Envelope,
+  X12EnvelopeOptions,
+  X12Segment,
+  X12ParseError,
+  DEFAULT_DELIMITERS,
+  buildInterchange,
+  component,
+  formatAmount,
+  formatDate,
+  formatTime,
+  parseAmount,
+  parseDate,
+  parseX12,
+  readEnvelope,
+  sanitize,
+  sanitizeName,
+  segment
+} from './x12-utils';
+
+export const X12_837P_VERSION = '005010X222A1';
+export const X12_837I_VERSION = '005010X223A2';
+
+// Postal address used by billing provider and subscriber loops
+export interface X12Address {
+  line1: string;
+  line2?: string;
+  city: string;
+  state: string;
+  postalCode: string;
+}
+
+// Submitter and receiver of the interchange (1000A/1000B)
+export interface X12SubmitterInfo {
+  submitterName: string;
+  submitterId: string;
+  contactName: string;
+  contactPhone: string;
+  receiverName: string;
+  receiverId: string;
+}
+
+// Claim parties carried on claims.metadata.x12
+export interface X12ClaimParties {
+  billingProvider: {
+    name: string;
+    npi: string;
+    taxId: string;
+    address: X12Address;
+  };
+  renderingProvider?: {
+    firstName: string;
+    lastName: string;
+    npi: string;
+  };
+  subscriber: {
+    memberId: string;
+    firstName: string;
+    lastName: string;
+    dateOfBirth: string; // YYYY-MM-DD
+    gender: 'M' | 'F' | 'U';
+    groupNumber?: string;
+    address?: X12Address;
+  };
+  payer: {
+    name: string;
+    payerId: string;
+  };
+  claimFilingIndicator?: string; // SBR09, e.g. CI (commercial), MB (Medicare Part B)
+  frequencyCode?: string; // CLM05-3, 1 = original
+  facilityTypeCode?: string; // 837I CLM05-1, e.g. 11 (hospital inpatient)
+  admissionTypeCode?: string; // 837I CL1-1
+  admissionSourceCode?: string; // 837I CL1-2
+  patientStatusCode?: string; // 837I CL1-3
+}
+
+// 999 acknowledgment of one transaction set
+export interface X12TransactionAcknowledgment {
+  groupControlNumber: string;
+  transactionSetControlNumber?: string;
+  status: string; // IK5-1 / AK9-1: A accepted, E accepted with errors, R rejected, ...
+  accepted: boolean;
+  errors: Array<{ segmentId?: string; position?: string; code?: string }>;
+}
+
+export interface X12FunctionalAcknowledgment {
+  envelope: X12Envelope;
+  acknowledgments: X12TransactionAcknowledgment[];
+}
+
+// 277CA status of one claim
+export interface X12ClaimAcknowledgment {
+  patientControlNumber: string;
+  payerClaimControlNumber?: string;
+  categoryCode: string; // STC01-1, e.g. A1, A3
+  statusCode?: string; // STC01-2
+  entityCode?: string; // STC01-3
+  effectiveDate?: Date;
+  chargeAmount?: number;
+  accepted: boolean;
+  statuses: Array<{ categoryCode: string; statusCode?: string; entityCode?: string }>;
+}
+
+export interface X12ClaimAcknowledgmentReport {
+  envelope: X12Envelope;
+  claims: X12ClaimAcknowledgment[];
+}
+
+// CAS adjustment (amounts in cents)
+export interface X12Adjustment {
+  groupCode: string;
+  reasonCode: string;
+  amount: number;
+  quantity?: number;
+}
+
+// 835 service line payment
+export interface X12ServicePayment {
+  procedureCode: string;
+  modifiers: string[];
+  chargeAmount: number;
+  paidAmount: number;
+  allowedAmount?: number;
+  units?: number;
+  serviceDate?: Date;
+  lineItemControlNumber?: string;
+  adjustments: X12Adjustment[];
+  remarkCodes: string[];
+}
+
+// 835 claim payment
+export interface X12ClaimPayment {
+  patientControlNumber: string;
+  statusCode: string; // CLP02
+  chargeAmount: number;
+  paidAmount: number;
+  patientResponsibility: number;
+  payerClaimControlNumber?: string;
+  adjustments: X12Adjustment[];
+  services: X12ServicePayment[];
+}
+
+export interface X12Remittance {
+  envelope: X12Envelope;
+  payment: {
+    handlingCode: string; // BPR01
+    amount: number;
+    creditDebit: string;
+    method: string; // BPR04: ACH, CHK, NON, ...
+    paymentDate?: Date;
+    traceNumber?: string;
+    originatorId?: string;
+  };
+  payerName?: string;
+  payeeName?: string;
+  payeeNpi?: string;
+  claims: X12ClaimPayment[];
+}
+
+// CLM01 is at most 20 characters in the 5010 837
+const MAX_PATIENT_CONTROL_NUMBER_LENGTH = 20;
+
+// CLP02 claim status codes that indicate the claim was processed
+const PROCESSED_CLAIM_STATUS_CODES = ['1', '2', '3', '19', '20', '21'];
+
+// 277CA STC01-1 categories that indicate the claim was accepted into adjudication
+const ACCEPTED_CLAIM_CATEGORIES = ['A1', 'A2'];
+
+/**
+ * The patient control number sent in CLM01: the claim's own, or the first 20
+ * hex digits of its ID. Payers echo it back on the 277CA and 835.
+ */
+export function patientControlNumberFor(claim: Pick<Claim, 'id' | 'patientControlNumber'>): string {
+  return claim.patientControlNumber || claim.id.replace(/-/g, '').slice(0, MAX_PATIENT_CONTROL_NUMBER_LENGTH);
+}
+
+/**
+ * Serialize a claim as an 837P (professional) or 837I (institutional) interchange
+ * @param claim The claim
+ * @param lineItems The claim line items
+ * @param parties Billing provider, subscriber and payer details
+ * @param submitter Submitter and receiver of the interchange
+ * @param envelope Envelope options (control number, sender/receiver IDs)
+ * @returns The X12 interchange
+ */
+export function build837(
+  claim: Claim,
+  lineItems: ClaimLineItem[],
+  parties: X12ClaimParties,
+  submitter: X12SubmitterInfo,
+  envelope: Omit<X12EnvelopeOptions, 'functionalIdentifierCode' | 'implementationReference'>,
+  delimiters: X12Delimiters = DEFAULT_DELIMITERS
+): string {
+  const institutional = claim.type === 'INSTITUTIONAL';
+  if (!institutional && claim.type !== 'PROFESSIONAL') {
+    throw new Error(`Claim type ${claim.type} cannot be sent as an 837P or 837I`);
+  }
+
+  validate837(claim, lineItems, parties, institutional);
+
+  const d = delimiters;
+  const seg = (id: string, elements: Array<string | number | undefined | null>) => segment(id, elements, d);
+  const timestamp = envelope.timestamp || new Date();
+  const orderedLines = [...lineItems].sort((a, b) => a.sequence - b.sequence);
+  const patientControlNumber = patientControlNumberFor(claim);
+
+  // Collect claim-level diagnoses in line order so pointers stay stable
+  const diagnoses: string[] = [];
+  for (const line of orderedLines) {
+    for (const code of asStringArray(line.diagnosisCodes)) {
+      const normalized = code.replace('.', '').toUpperCase();
+      if (!diagnoses.includes(normalized)) {
+        diagnoses.push(normalized);
+      }
+    }
+  }
+
+  const body: string[] = [];
+
+  body.push(seg('BHT', ['0019', '00', sanitize(claim.id, d).slice(0, 30), formatDate(timestamp), formatTime(timestamp), 'CH']));
+
+  // 1000A submitter / 1000B receiver
+  body.push(seg('NM1', ['41', '2', sanitizeName(submitter.submitterName, d), '', '', '', '', '46', submitter.submitterId]));
+  body.push(seg('PER', ['IC', sanitizeName(submitter.contactName, d), 'TE', submitter.contactPhone.replace(/\D/g, '')]));
+  body.push(seg('NM1', ['40', '2', sanitizeName(submitter.receiverName, d), '', '', '', '', '46', submitter.receiverId]));
+
+  // 2000A billing provider
+  const billing = parties.billingProvider;
+  body.push(seg('HL', ['1', '', '20', '1']));
+  body.push(seg('NM1', ['85', '2', sanitizeName(billing.name, d), '', '', '', '', 'XX', billing.npi]));
+  body.push(...addressSegments(billing.address, d));
+  body.push(seg('REF', ['EI', billing.taxId.replace(/\D/g, '')]));
+
+  // 2000B subscriber (patient is the subscriber)
+  const subscriber = parties.subscriber;
+  body.push(seg('HL', ['2', '1', '22', '0']));
+  body.push(seg('SBR', ['P', '18', subscriber.groupNumber, '', '', '', '', '', parties.claimFilingIndicator || 'CI']));
+  body.push(seg('NM1', ['IL', '1', sanitizeName(subscriber.lastName, d), sanitizeName(subscriber.firstName, d), '', '', '', 'MI', subscriber.memberId]));
+  if (subscriber.address) {
+    body.push(...addressSegments(subscriber.address, d));
+  }
+  body.push(seg('DMG', ['D8', subscriber.dateOfBirth.replace(/-/g, ''), subscriber.gender]));
+  body.push(seg('NM1', ['PR', '2', sanitizeName(parties.payer.name, d), '', '', '', '', 'PI', parties.payer.payerId]));
+
+  // 2300 claim
+  const frequency = parties.frequencyCode || '1';
+  const placeOrFacility = institutional
+    ? `${parties.facilityTypeCode}${d.component}A${d.component}${frequency}`
+    : `${orderedLines[0].placeOfService || '11'}${d.component}B${d.component}${frequency}`;
+
+  body.push(seg('CLM', [sanitize(patientControlNumber, d), formatAmount(claim.totalAmount), '', '', placeOrFacility, 'Y', 'A', 'Y', 'Y']));
+
+  if (institutional) {
+    const start = claim.serviceStartDate || orderedLines[0].serviceDate || timestamp;
+    const end = claim.serviceEndDate || start;
+    body.push(seg('DTP', ['434', 'RD8', `${formatDate(start)}-${formatDate(end)}`]));
+    body.push(seg('CL1', [parties.admissionTypeCode, parties.admissionSourceCode, parties.patientStatusCode]));
+  }
+
+  if (diagnoses.length > 0) {
+    // Principal diagnosis is ABK, the rest ABF
+    body.push(seg('HI', diagnoses.slice(0, 12).map((code, index) =>
+      `${index === 0 ? 'ABK' : 'ABF'}${d.component}${code}`
+    )));
+  }
+
+  // 2310B rendering provider (professional only)
+  if (!institutional && parties.renderingProvider) {
+    const rendering = parties.renderingProvider;
+    body.push(seg('NM1', ['82', '1', sanitizeName(rendering.lastName, d), sanitizeName(rendering.firstName, d), '', '', '', 'XX', rendering.npi]));
+  }
+
+  // 2400 service lines
+  orderedLines.forEach((line, index) => {
+    const modifiers = asStringArray(line.modifiers).slice(0, 4);
+    const procedure = [`HC`, line.serviceCode, ...modifiers].join(d.component);
+
+    body.push(seg('LX', [index + 1]));
+
+    if (institutional) {
+      const revenueCode = (line.metadata as any)?.revenueCode;
+      body.push(seg('SV2', [revenueCode, procedure, formatAmount(line.totalPrice), 'UN', line.quantity]));
+    } else {
+      const pointers = asStringArray(line.diagnosisCodes)
+        .map(code => diagnoses.indexOf(code.replace('.', '').toUpperCase()) + 1)
+        .filter(pointer => pointer > 0 && pointer <= 12)
+        .slice(0, 4);
+      body.push(seg('SV1', [procedure, formatAmount(line.totalPrice), 'UN', line.quantity, line.placeOfService, '', pointers.join(d.component)]));
+    }
+
+    if (line.serviceDate) {
+      body.push(seg('DTP', ['472', 'D8', formatDate(line.serviceDate)]));
+    }
+
+    // Line item control number, echoed back on 835 REF*6R
+    body.push(seg('REF', ['6R', line.id]));
+  });
+
+  return buildInterchange('837', body, {
+    ...envelope,
+    timestamp,
+    functionalIdentifierCode: 'HC',
+    implementationReference: institutional ? X12_837I_VERSION : X12_837P_VERSION
+  }, d);
+}
+
+/**
+ * Parse a 999 implementation acknowledgment
+ */
+export function parse999(content: string): X12FunctionalAcknowledgment {
+  const { segments } = parseX12(content);
+  const envelope = readEnvelope(segments);
+  assertTransactionSet(envelope, '999');
+
+  const acknowledgments: X12TransactionAcknowledgment[] = [];
+  let groupControlNumber = '';
+  let current: X12TransactionAcknowledgment | null = null;
+
+  for (const seg of segments) {
+    switch (seg.id) {
+      case 'AK1':
+        groupControlNumber = seg.elements[1];
+        break;
+      case 'AK2':
+        current = {
+          groupControlNumber,
+          transactionSetControlNumber: seg.elements[1],
+          status: 'A',
+          accepted: true,
+          errors: []
+        };
+        acknowledgments.push(current);
+        break;
+      case 'IK3':
+        current?.errors.push({ segmentId: seg.elements[0], position: seg.elements[1], code: seg.elements[3] });
+        break;
+      case 'IK4':
+        current?.errors.push({ position: seg.elements[0], code: seg.elements[2] });
+        break;
+      case 'IK5':
+        if (current) {
+          current.status = seg.elements[0];
+          current.accepted = seg.elements[0] === 'A' || seg.elements[0] === 'E';
+        }
+        current = null;
+        break;
+      case 'AK9':
+        // A group-level status with no AK2 loops acknowledges the whole group
+        if (acknowledgments.length === 0) {
+          acknowledgments.push({
+            groupControlNumber,
+            status: seg.elements[0],
+            accepted: seg.elements[0] === 'A' || seg.elements[0] === 'E',
+            errors: []
+          });
+        }
+        break;
+    }
+  }
+
+  return { envelope, acknowledgments };
+}
+
+/**
+ * Parse a 277CA claim acknowledgment
+ */
+export function parse277CA(content: string): X12ClaimAcknowledgmentReport {
+  const { segments, delimiters } = parseX12(content);
+  const envelope = readEnvelope(segments);
+  assertTransactionSet(envelope, '277');
+
+  const claims: X12ClaimAcknowledgment[] = [];
+  let levelCode = '';
+  let current: X12ClaimAcknowledgment | null = null;
+
+  for (const seg of segments) {
+    switch (seg.id) {
+      case 'HL':
+        levelCode = seg.elements[2];
+        current = null;
+        break;
+      case 'TRN':
+        // Claim-level trace (2200D) carries the patient control number
+        if (levelCode === 'PT') {
+          current = {
+            patientControlNumber: seg.elements[1],
+            categoryCode: '',
+            accepted: false,
+            statuses: []
+          };
+          claims.push(current);
+        }
+        break;
+      case 'STC':
+        if (current) {
+          const statuses = [seg.elements[0], seg.elements[9], seg.elements[10]]
+            .filter((value): value is string => !!value)
+            .map(value => ({
+              categoryCode: component(value, 0, delimiters) || '',
+              statusCode: component(value, 1, delimiters),
+              entityCode: component(value, 2, delimiters)
+            }));
+
+          current.statuses.push(...statuses);
+
+          if (!current.categoryCode && statuses.length > 0) {
+            current.categoryCode = statuses[0].categoryCode;
+            current.statusCode = statuses[0].statusCode;
+            current.entityCode = statuses[0].entityCode;
+            current.effectiveDate = parseDate(seg.elements[1]);
+            current.chargeAmount = seg.elements[3] ? parseAmount(seg.elements[3]) : undefined;
+          }
+
+          current.accepted = current.statuses.every(status => ACCEPTED_CLAIM_CATEGORIES.includes(status.categoryCode));
+        }
+        break;
+      case 'REF':
+        if (current && seg.elements[0] === '1K') {
+          current.payerClaimControlNumber = seg.elements[1];
+        }
+        break;
+    }
+  }
+
+  return { envelope, claims };
+}
+
+/**
+ * Parse an 835 remittance advice
+ */
+export function parse835(content: string): X12Remittance {
+  const { segments, delimiters } = parseX12(content);
+  const envelope = readEnvelope(segments);
+  assertTransactionSet(envelope, '835');
+
+  const bpr = segments.find(s => s.id === 'BPR');
+  if (!bpr) {
+    throw new X12ParseError('835 is missing BPR segment');
+  }
+  const trn = segments.find(s => s.id === 'TRN');
+
+  const remittance: X12Remittance = {
+    envelope,
+    payment: {
+      handlingCode: bpr.elements[0],
+      amount: parseAmount(bpr.elements[1]),
+      creditDebit: bpr.elements[2],
+      method: bpr.elements[3],
+      paymentDate: parseDate(bpr.elements[15]),
+      traceNumber: trn?.elements[1],
+      originatorId: trn?.elements[2]
+    },
+    claims: []
+  };
+
+  let claim: X12ClaimPayment | null = null;
+  let service: X12ServicePayment | null = null;
+
+  for (const seg of segments) {
+    switch (seg.id) {
+      case 'N1':
+        if (seg.elements[0] === 'PR') {
+          remittance.payerName = seg.elements[1];
+        } else if (seg.elements[0] === 'PE') {
+          remittance.payeeName = seg.elements[1];
+          if (seg.elements[2] === 'XX') {
+            remittance.payeeNpi = seg.elements[3];
+          }
+        }
+        break;
+      case 'CLP':
+        service = null;
+        claim = {
+          patientControlNumber: seg.elements[0],
+          statusCode: seg.elements[1],
+          chargeAmount: parseAmount(seg.elements[2]),
+          paidAmount: parseAmount(seg.elements[3]),
+          patientResponsibility: parseAmount(seg.elements[4]),
+          payerClaimControlNumber: seg.elements[6],
+          adjustments: [],
+          services: []
+        };
+        remittance.claims.push(claim);
+        break;
+      case 'SVC':
+        if (claim) {
+          const procedure = seg.elements[0] || '';
+          const parts = procedure.split(delimiters.component);
+          service = {
+            procedureCode: parts[1] || '',
+            modifiers: parts.slice(2).filter(Boolean),
+            chargeAmount: parseAmount(seg.elements[1]),
+            paidAmount: parseAmount(seg.elements[2]),
+            units: seg.elements[4] ? Number(seg.elements[4]) : undefined,
+            adjustments: [],
+            remarkCodes: []
+          };
+          claim.services.push(service);
+        }
+        break;
+      case 'CAS': {
+        const adjustments = parseCas(seg);
+        if (service) {
+          service.adjustments.push(...adjustments);
+        } else if (claim) {
+          claim.adjustments.push(...adjustments);
+        }
+        break;
+      }
+      case 'DTM':
+        if (service && (seg.elements[0] === '472' || seg.elements[0] === '150')) {
+          service.serviceDate = parseDate(seg.elements[1]);
+        }
+        break;
+      case 'REF':
+        if (service && seg.elements[0] === '6R') {
+          service.lineItemControlNumber = seg.elements[1];
+        }
+        break;
+      case 'AMT':
+        if (service && seg.elements[0] === 'B6') {
+          service.allowedAmount = parseAmount(seg.elements[1]);
+        }
+        break;
+      case 'LQ':
+        if (service && seg.elements[0] === 'HE') {
+          service.remarkCodes.push(seg.elements[1]);
+        }
+        break;
+      case 'PLB':
+      case 'SE':
+        claim = null;
+        service = null;
+        break;
+    }
+  }
+
+  return remittance;
+}
+
+/**
+ * Whether an 835 CLP02 status means the claim was processed (paid or adjudicated to zero)
+ */
+export function isProcessedClaimStatus(statusCode: string): boolean {
+  return PROCESSED_CLAIM_STATUS_CODES.includes(statusCode);
+}
+
+/**
+ * Parse the group/reason/amount/quantity triplets of a CAS segment
+ */
+function parseCas(seg: X12Segment): X12Adjustment[] {
+  const groupCode = seg.elements[0];
+  const adjustments: X12Adjustment[] = [];
+
+  for (let i = 1; i < seg.elements.length; i += 3) {
+    const reasonCode = seg.elements[i];
+    if (!reasonCode) {
+      continue;
+    }
+    adjustments.push({
+      groupCode,
+      reasonCode,
+      amount: parseAmount(seg.elements[i + 1]),
+      quantity: seg.elements[i + 2] ? Number(seg.elements[i + 2]) : undefined
+    });
+  }
+
+  return adjustments;
+}
+
+/**
+ * Build N3/N4 address segments
+ */
+function addressSegments(address: X12Address, d: X12Delimiters): string[] {
+  return [
+    segment('N3', [sanitizeName(address.line1, d), sanitizeName(address.line2, d)], d),
+    segment('N4', [sanitizeName(address.city, d), address.state.toUpperCase(), address.postalCode.replace(/\D/g, '')], d)
+  ];
+}
+
+/**
+ * Check the required 837 data is present before building
+ */
+function validate837(claim: Claim, lineItems: ClaimLineItem[], parties: X12ClaimParties, institutional: boolean): void {
+  const missing: string[] = [];
+
+  if (lineItems.length === 0) missing.push('line items');
+  if (!parties.billingProvider?.npi) missing.push('billing provider NPI');
+  if (!parties.billingProvider?.taxId) missing.push('billing provider tax ID');
+  if (!parties.billingProvider?.address) missing.push('billing provider address');
+  if (!parties.subscriber?.memberId) missing.push('subscriber member ID');
+  if (!parties.subscriber?.dateOfBirth) missing.push('subscriber date of birth');
+  if (!parties.payer?.payerId) missing.push('payer ID');
+
+  if (claim.patientControlNumber && claim.patientControlNumber.length > MAX_PATIENT_CONTROL_NUMBER_LENGTH) {
+    throw new Error(`Claim ${claim.id} cannot be sent as X12: patient control number is longer than ${MAX_PATIENT_CONTROL_NUMBER_LENGTH} characters`);
+  }
+
+  if (institutional) {
+    if (!parties.facilityTypeCode) missing.push('facility type code');
+    if (lineItems.some(line => !(line.metadata as any)?.revenueCode)) missing.push('line revenue codes');
+  }
+
+  if (missing.length > 0) {
+    throw new Error(`Claim ${claim.id} cannot be sent as X12: missing ${missing.join(', ')}`);
+  }
+}
+
+/**
+ * Ensure a parsed document is the expected transaction set
+ */
+function assertTransactionSet(envelope: X12Envelope, expected: string): void {
+  if (envelope.transactionSetId !== expected) {
+    throw new X12ParseError(`Expected transaction set ${expected} but found ${envelope.transactionSetId || 'none'}`);
+  }
+}
+
+/**
+ * Read a jsonb array column as strings
+ */
+function asStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(String) : [];
+}
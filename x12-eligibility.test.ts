@@ -0,0 +1,101 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { build270, parse271, summarizeBenefits, X12EligibilityInquiryData } from './x12-eligibility';
+import { parseX12, readEnvelope } from './x12-utils';
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, 'fixtures', 'x12', name), 'utf8');
+
+// The trace the 271 fixture answers, as eligibility_requests.transactionId stores it
+const TRACE_NUMBER = '5b1e7c2a-4d3f-4e6a-8b9c-0a1d2e3f4a5b';
+
+const inquiry: X12EligibilityInquiryData = {
+  traceNumber: TRACE_NUMBER,
+  originatorId: '1234567893',
+  payer: { name: 'Acme Health Plan', payerId: 'ACME01' },
+  provider: { name: 'Riverside Clinic', npi: '1234567893' },
+  subscriber: { memberId: 'MEM123456', firstName: 'Jane', lastName: 'Doe', dateOfBirth: '1980-05-14', gender: 'F' },
+  serviceTypes: ['30', '98'],
+  servicedDate: '2024-03-15'
+};
+
+const envelope = {
+  senderId: 'SHHSUBMITTER',
+  receiverId: 'ACME01',
+  applicationSenderCode: 'SHHSUBMITTER',
+  applicationReceiverCode: 'ACME01',
+  controlNumber: 43,
+  timestamp: new Date('2024-03-15T12:00:00Z')
+};
+
+describe('build270', () => {
+  const { segments } = parseX12(build270(inquiry, envelope));
+  const find = (id: string, qualifier?: string) =>
+    segments.find(s => s.id === id && (qualifier === undefined || s.elements[0] === qualifier))!;
+
+  it('wraps the inquiry in a 270 envelope', () => {
+    const parsed = readEnvelope(segments);
+    expect(parsed.transactionSetId).toBe('270');
+    expect(parsed.implementationReference).toBe('005010X279A1');
+    expect(parsed.interchangeControlNumber).toBe('000000043');
+  });
+
+  it('sends the trace number in TRN02 exactly as stored', () => {
+    expect(find('TRN').elements.slice(0, 3)).toEqual(['1', TRACE_NUMBER, '1234567893']);
+    expect(find('BHT').elements[2]).toBe(TRACE_NUMBER);
+  });
+
+  it('upper-cases names and asks for each service type', () => {
+    expect(find('NM1', 'IL').elements.slice(2, 4)).toEqual(['DOE', 'JANE']);
+    expect(find('NM1', 'PR').elements[2]).toBe('ACME HEALTH PLAN');
+    expect(segments.filter(s => s.id === 'EQ').map(s => s.elements[0])).toEqual(['30', '98']);
+  });
+
+  it('rejects inquiries without a member ID', () => {
+    expect(() => build270({ ...inquiry, subscriber: { ...inquiry.subscriber, memberId: '' } }, envelope))
+      .toThrow('requires a member ID');
+  });
+});
+
+describe('parse271', () => {
+  const response = parse271(fixture('271.edi'));
+
+  it('echoes the trace number of the 270 sent, up to case', () => {
+    const sent = parseX12(build270(inquiry, envelope)).segments.find(s => s.id === 'TRN')!.elements[1];
+    expect(response.traceNumber!.toLowerCase()).toBe(sent.toLowerCase());
+  });
+
+  it('reads the payer outside related entities, the subscriber and plan dates', () => {
+    expect(response).toMatchObject({
+      payerName: 'ACME HEALTH PLAN',
+      payerId: 'ACME01',
+      subscriber: { memberId: 'MEM123456', firstName: 'JANE', lastName: 'DOE' },
+      issues: []
+    });
+    expect(response.planBegin).toEqual(new Date('2024-01-01T00:00:00Z'));
+    expect(response.planEnd).toEqual(new Date('2024-12-31T00:00:00Z'));
+  });
+
+  it('reads each EB loop with its messages', () => {
+    expect(response.benefits).toHaveLength(5);
+    expect(response.benefits[1].messages).toEqual(['OFFICE VISIT COPAY']);
+  });
+
+  it('folds benefits into rows per service type and network', () => {
+    const rows = summarizeBenefits(response.benefits);
+    const plan = rows.find(row => row.serviceType === '30' && row.networkStatus === 'in-network')!;
+    expect(plan).toMatchObject({
+      benefitType: 'medical',
+      deductibleAmount: 150000,
+      deductibleRemaining: 90000,
+      coinsurancePercentage: 20,
+      unit: 'calendar year'
+    });
+
+    const office = rows.find(row => row.serviceType === '98')!;
+    expect(office).toMatchObject({ copayAmount: 2500, authorizationRequired: false, networkStatus: 'in-network' });
+  });
+
+  it('refuses a document of the wrong transaction set', () => {
+    expect(() => parse271(fixture('835.edi'))).toThrow('Expected transaction set 271 but found 835');
+  });
+});
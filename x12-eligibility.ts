@@ -0,0 +1,457 @@
+/**
+ * X12 Eligibility Transactions
+ *
+ * Builds 270 (5010) eligibility inquiries and parses 271 eligibility
+ * responses into benefit rows shaped for eligibility_benefits.
+ *
+ * Like the claims transactions, everything here is pure string-in/string-out
+ * so 271 fixture files can be parsed offline.
+ */
+import {
+  X12Delimiters,
+  X12Envelope,
+  X12EnvelopeOptions,
+  X12ParseError,
+  DEFAULT_DELIMITERS,
+  buildInterchange,
+  formatDate,
+  formatTime,
+  parseAmount,
+  parseDate,
+  parseX12,
+  readEnvelope,
+  sanitize,
+  sanitizeName,
+  segment
+} from './x12-utils';
+
+export const X12_270_VERSION = '005010X279A1';
+
+// Parties and service types for one 270 inquiry
+export interface X12EligibilityInquiryData {
+  traceNumber: string; // TRN02, echoed back on the 271
+  originatorId: string; // TRN03
+  payer: { name: string; payerId: string };
+  provider: { name: string; npi: string };
+  subscriber: {
+    memberId: string;
+    firstName: string;
+    lastName: string;
+    dateOfBirth?: string; // YYYY-MM-DD
+    gender?: 'M' | 'F' | 'U';
+  };
+  serviceTypes: string[]; // EQ01 service type codes, e.g. 30 (health benefit plan coverage)
+  servicedDate?: string; // YYYY-MM-DD
+}
+
+// One EB loop of a 271
+export interface X12EligibilityBenefit {
+  infoCode: string; // EB01: 1 active, 6 inactive, A coinsurance, B copay, C deductible, G out of pocket, ...
+  coverageLevel?: string; // EB02: IND, FAM, ...
+  serviceTypes: string[]; // EB03
+  insuranceType?: string; // EB04
+  planDescription?: string; // EB05
+  timePeriod?: string; // EB06: 23 calendar year, 29 remaining, ...
+  amount?: number; // EB07, in cents
+  percent?: number; // EB08, as a fraction (0.2 = 20%)
+  quantityQualifier?: string; // EB09
+  quantity?: number; // EB10
+  authorizationRequired?: boolean; // EB11
+  inNetwork?: string; // EB12: Y, N, W (not applicable)
+  messages: string[]; // MSG
+}
+
+// AAA request validation error
+export interface X12ValidationIssue {
+  loop: string; // HL level code, or '' for the information source before any HL
+  valid: boolean; // AAA01
+  rejectReason?: string; // AAA03
+  followUpAction?: string; // AAA04
+}
+
+export interface X12EligibilityResponseData {
+  envelope: X12Envelope;
+  traceNumber?: string;
+  payerName?: string;
+  payerId?: string;
+  subscriber?: {
+    memberId?: string;
+    firstName?: string;
+    lastName?: string;
+  };
+  planBegin?: Date;
+  planEnd?: Date;
+  benefits: X12EligibilityBenefit[];
+  issues: X12ValidationIssue[];
+}
+
+// Benefit row in the shape of eligibility_benefits (without responseId)
+export interface X12BenefitSummary {
+  benefitType: string;
+  serviceType: string;
+  serviceTypeName?: string;
+  isCovered?: boolean;
+  networkStatus?: string;
+  unit?: string;
+  copayAmount?: number;
+  coinsurancePercentage?: number;
+  deductibleAmount?: number;
+  deductibleRemaining?: number;
+  outOfPocketAmount?: number;
+  outOfPocketRemaining?: number;
+  benefitDescription?: string;
+  limitValue?: number;
+  limitUnit?: string;
+  remainingValue?: number;
+  authorizationRequired?: boolean;
+  additionalInfo: {
+    coverageLevel?: string;
+    insuranceType?: string;
+    planDescription?: string;
+    timePeriod?: string;
+  };
+}
+
+// Common service type codes (X12 1365)
+export const SERVICE_TYPE_NAMES: Record<string, string> = {
+  '1': 'Medical Care',
+  '2': 'Surgical',
+  '4': 'Diagnostic X-Ray',
+  '5': 'Diagnostic Lab',
+  '30': 'Health Benefit Plan Coverage',
+  '33': 'Chiropractic',
+  '35': 'Dental Care',
+  '42': 'Home Health Care',
+  '45': 'Hospice',
+  '47': 'Hospital',
+  '48': 'Hospital - Inpatient',
+  '50': 'Hospital - Outpatient',
+  '86': 'Emergency Services',
+  '88': 'Pharmacy',
+  '98': 'Professional (Physician) Visit - Office',
+  'AL': 'Vision (Optometry)',
+  'MH': 'Mental Health',
+  'UC': 'Urgent Care'
+};
+
+// Service types reported under a benefit category other than medical
+const DENTAL_SERVICE_TYPES = ['23', '24', '25', '26', '27', '35', '36', '37', '38', '39', '40', '41'];
+const VISION_SERVICE_TYPES = ['AL', 'AM', 'AN', 'AO'];
+const PHARMACY_SERVICE_TYPES = ['88', '89', '90', '91'];
+
+// EB06 time period qualifiers
+const TIME_PERIOD_UNITS: Record<string, string> = {
+  '6': 'hour',
+  '7': 'day',
+  '21': 'years',
+  '22': 'service year',
+  '23': 'calendar year',
+  '24': 'year to date',
+  '25': 'contract',
+  '26': 'episode',
+  '27': 'visit',
+  '29': 'remaining',
+  '32': 'lifetime',
+  '33': 'lifetime remaining'
+};
+
+// EB09 quantity qualifiers
+const QUANTITY_UNITS: Record<string, string> = {
+  'DY': 'days',
+  'HS': 'hours',
+  'MN': 'months',
+  'VS': 'visits',
+  'YY': 'years'
+};
+
+/**
+ * Serialize a 270 eligibility inquiry interchange
+ * @param inquiry Parties and service types to ask about
+ * @param envelope Envelope options (control number, sender/receiver IDs)
+ * @returns The X12 interchange
+ */
+export function build270(
+  inquiry: X12EligibilityInquiryData,
+  envelope: Omit<X12EnvelopeOptions, 'functionalIdentifierCode' | 'implementationReference'>,
+  delimiters: X12Delimiters = DEFAULT_DELIMITERS
+): string {
+  const d = delimiters;
+  const seg = (id: string, elements: Array<string | number | undefined | null>) => segment(id, elements, d);
+  const timestamp = envelope.timestamp || new Date();
+  const subscriber = inquiry.subscriber;
+
+  if (!subscriber.memberId || !inquiry.payer.payerId || !inquiry.provider.npi) {
+    throw new Error('Eligibility inquiry requires a member ID, payer ID and provider NPI');
+  }
+
+  const body: string[] = [];
+
+  body.push(seg('BHT', ['0022', '13', sanitize(inquiry.traceNumber, d).slice(0, 50), formatDate(timestamp), formatTime(timestamp)]));
+
+  // 2000A information source (payer)
+  body.push(seg('HL', ['1', '', '20', '1']));
+  body.push(seg('NM1', ['PR', '2', sanitizeName(inquiry.payer.name, d), '', '', '', '', 'PI', inquiry.payer.payerId]));
+
+  // 2000B information receiver (provider)
+  body.push(seg('HL', ['2', '1', '21', '1']));
+  body.push(seg('NM1', ['1P', '2', sanitizeName(inquiry.provider.name, d), '', '', '', '', 'XX', inquiry.provider.npi]));
+
+  // 2000C subscriber
+  body.push(seg('HL', ['3', '2', '22', '0']));
+  body.push(seg('TRN', ['1', sanitize(inquiry.traceNumber, d), inquiry.originatorId]));
+  body.push(seg('NM1', ['IL', '1', sanitizeName(subscriber.lastName, d), sanitizeName(subscriber.firstName, d), '', '', '', 'MI', subscriber.memberId]));
+  if (subscriber.dateOfBirth) {
+    body.push(seg('DMG', ['D8', subscriber.dateOfBirth.replace(/-/g, ''), subscriber.gender]));
+  }
+  body.push(seg('DTP', ['291', 'D8', (inquiry.servicedDate || timestamp.toISOString().slice(0, 10)).replace(/-/g, '')]));
+
+  const serviceTypes = inquiry.serviceTypes.length > 0 ? inquiry.serviceTypes : ['30'];
+  for (const serviceType of serviceTypes.slice(0, 99)) {
+    body.push(seg('EQ', [serviceType]));
+  }
+
+  return buildInterchange('270', body, {
+    ...envelope,
+    timestamp,
+    functionalIdentifierCode: 'HS',
+    implementationReference: X12_270_VERSION
+  }, d);
+}
+
+/**
+ * Parse a 271 eligibility response
+ */
+export function parse271(content: string): X12EligibilityResponseData {
+  const { segments, delimiters } = parseX12(content);
+  const envelope = readEnvelope(segments);
+
+  if (envelope.transactionSetId !== '271') {
+    throw new X12ParseError(`Expected transaction set 271 but found ${envelope.transactionSetId || 'none'}`);
+  }
+
+  const response: X12EligibilityResponseData = { envelope, benefits: [], issues: [] };
+  let levelCode = '';
+  let benefit: X12EligibilityBenefit | null = null;
+  let inRelatedEntity = false;
+
+  for (const seg of segments) {
+    switch (seg.id) {
+      case 'HL':
+        levelCode = seg.elements[2];
+        benefit = null;
+        break;
+      case 'TRN':
+        // 2100C/D trace echoes the 270 TRN02
+        if ((levelCode === '22' || levelCode === '23') && !response.traceNumber) {
+          response.traceNumber = seg.elements[1];
+        }
+        break;
+      case 'NM1':
+        if (inRelatedEntity) {
+          break;
+        }
+        if (seg.elements[0] === 'PR') {
+          response.payerName = seg.elements[2];
+          response.payerId = seg.elements[8];
+        } else if (seg.elements[0] === 'IL') {
+          response.subscriber = {
+            lastName: seg.elements[2],
+            firstName: seg.elements[3],
+            memberId: seg.elements[8]
+          };
+        }
+        break;
+      case 'AAA':
+        response.issues.push({
+          loop: levelCode,
+          valid: seg.elements[0] === 'Y',
+          rejectReason: seg.elements[2],
+          followUpAction: seg.elements[3]
+        });
+        break;
+      case 'DTP':
+        if (!benefit) {
+          readPlanDates(response, seg.elements);
+        }
+        break;
+      case 'EB':
+        benefit = {
+          infoCode: seg.elements[0],
+          coverageLevel: seg.elements[1] || undefined,
+          serviceTypes: (seg.elements[2] || '').split(delimiters.repetition).filter(Boolean),
+          insuranceType: seg.elements[3] || undefined,
+          planDescription: seg.elements[4] || undefined,
+          timePeriod: seg.elements[5] || undefined,
+          amount: seg.elements[6] ? parseAmount(seg.elements[6]) : undefined,
+          percent: seg.elements[7] ? Number(seg.elements[7]) : undefined,
+          quantityQualifier: seg.elements[8] || undefined,
+          quantity: seg.elements[9] ? Number(seg.elements[9]) : undefined,
+          authorizationRequired: seg.elements[10] ? seg.elements[10] === 'Y' : undefined,
+          inNetwork: seg.elements[11] || undefined,
+          messages: []
+        };
+        response.benefits.push(benefit);
+        break;
+      case 'MSG':
+        benefit?.messages.push(seg.elements[0]);
+        break;
+      case 'LS':
+        inRelatedEntity = true;
+        break;
+      case 'LE':
+        inRelatedEntity = false;
+        break;
+    }
+  }
+
+  return response;
+}
+
+/**
+ * Fold 271 EB loops into one benefit row per service type, coverage level and network
+ * @param benefits Parsed EB loops
+ * @returns Rows in the shape of eligibility_benefits
+ */
+export function summarizeBenefits(benefits: X12EligibilityBenefit[]): X12BenefitSummary[] {
+  const rows = new Map<string, X12BenefitSummary>();
+
+  for (const benefit of benefits) {
+    const networkStatus = networkStatusOf(benefit.inNetwork);
+    const coverageLevel = benefit.coverageLevel;
+    // EB loops without EB03 apply to the plan as a whole (service type 30)
+    const serviceTypes = benefit.serviceTypes.length > 0 ? benefit.serviceTypes : ['30'];
+
+    for (const serviceType of serviceTypes) {
+      const key = `${serviceType}|${coverageLevel || ''}|${networkStatus || ''}`;
+      let row = rows.get(key);
+
+      if (!row) {
+        row = {
+          benefitType: benefitTypeOf(serviceType),
+          serviceType,
+          serviceTypeName: SERVICE_TYPE_NAMES[serviceType],
+          networkStatus,
+          additionalInfo: {
+            coverageLevel,
+            insuranceType: benefit.insuranceType,
+            planDescription: benefit.planDescription
+          }
+        };
+        rows.set(key, row);
+      }
+
+      applyBenefit(row, benefit);
+    }
+  }
+
+  return Array.from(rows.values());
+}
+
+/**
+ * Apply one EB loop to a benefit row
+ */
+function applyBenefit(row: X12BenefitSummary, benefit: X12EligibilityBenefit): void {
+  const remaining = benefit.timePeriod === '29' || benefit.timePeriod === '33';
+
+  switch (benefit.infoCode) {
+    case '1':
+      row.isCovered = true;
+      break;
+    case '6':
+    case 'I':
+      row.isCovered = false;
+      break;
+    case 'A':
+      if (benefit.percent !== undefined) {
+        row.coinsurancePercentage = Math.round(benefit.percent * 100);
+      }
+      break;
+    case 'B':
+      if (benefit.amount !== undefined) {
+        row.copayAmount = benefit.amount;
+      }
+      break;
+    case 'C':
+      if (benefit.amount !== undefined) {
+        if (remaining) {
+          row.deductibleRemaining = benefit.amount;
+        } else {
+          row.deductibleAmount = benefit.amount;
+        }
+      }
+      break;
+    case 'G':
+      if (benefit.amount !== undefined) {
+        if (remaining) {
+          row.outOfPocketRemaining = benefit.amount;
+        } else {
+          row.outOfPocketAmount = benefit.amount;
+        }
+      }
+      break;
+    case 'F':
+      if (benefit.quantity !== undefined) {
+        if (remaining) {
+          row.remainingValue = benefit.quantity;
+        } else {
+          row.limitValue = benefit.quantity;
+          row.limitUnit = QUANTITY_UNITS[benefit.quantityQualifier || ''] || benefit.quantityQualifier;
+        }
+      }
+      break;
+  }
+
+  if (benefit.timePeriod && !remaining) {
+    row.unit = TIME_PERIOD_UNITS[benefit.timePeriod] || benefit.timePeriod;
+    row.additionalInfo.timePeriod = benefit.timePeriod;
+  }
+
+  if (benefit.authorizationRequired !== undefined) {
+    row.authorizationRequired = benefit.authorizationRequired;
+  }
+
+  if (benefit.planDescription && !row.additionalInfo.planDescription) {
+    row.additionalInfo.planDescription = benefit.planDescription;
+  }
+
+  if (benefit.messages.length > 0) {
+    const description = [row.benefitDescription, ...benefit.messages].filter(Boolean).join(' ');
+    row.benefitDescription = description.slice(0, 1000);
+  }
+}
+
+/**
+ * Read plan begin/end dates from a subscriber-level DTP
+ */
+function readPlanDates(response: X12EligibilityResponseData, elements: string[]): void {
+  const [qualifier, format, value] = elements;
+
+  if (format === 'RD8' && value && (qualifier === '291' || qualifier === '346' || qualifier === '307')) {
+    const [start, end] = value.split('-');
+    response.planBegin = parseDate(start);
+    response.planEnd = parseDate(end);
+  } else if (qualifier === '346') {
+    response.planBegin = parseDate(value);
+  } else if (qualifier === '347') {
+    response.planEnd = parseDate(value);
+  }
+}
+
+/**
+ * Benefit category for a service type code
+ */
+function benefitTypeOf(serviceType: string): string {
+  if (DENTAL_SERVICE_TYPES.includes(serviceType)) return 'dental';
+  if (VISION_SERVICE_TYPES.includes(serviceType)) return 'vision';
+  if (PHARMACY_SERVICE_TYPES.includes(serviceType)) return 'pharmacy';
+  return 'medical';
+}
+
+/**
+ * Network status for an EB12 in-plan-network indicator
+ */
+function networkStatusOf(indicator?: string): string | undefined {
+  if (indicator === 'Y') return 'in-network';
+  if (indicator === 'N') return 'out-network';
+  return undefined;
+}
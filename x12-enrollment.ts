@@ -0,0 +1,189 @@
+/**
+ * X12 Enrollment Transactions
+ *
+ * Parses 834 (5010) benefit enrollment and maintenance files into member
+ * records. Employers send 834s either as full files (every enrolled member)
+ * or as change files (only the members that changed).
+ *
+ * Like the other transactions, everything here is pure string-in/data-out
+ * so 834 fixture files can be parsed offline.
+ */
+import {
+  X12Envelope,
+  X12ParseError,
+  parseDate,
+  parseX12,
+  readEnvelope
+} from './x12-utils';
+
+export const X12_834_VERSION = '005010X220A1';
+
+// INS03 maintenance type codes
+export const MAINTENANCE_TYPES: Record<string, string> = {
+  '001': 'change',
+  '021': 'addition',
+  '024': 'cancellation_or_termination',
+  '025': 'reinstatement',
+  '030': 'audit_or_compare'
+};
+
+// INS08 employment status codes that mean the employee has left
+const ENDED_EMPLOYMENT_STATUSES = ['TE', 'RT'];
+
+// One INS loop (2000) and what follows it up to the next
+export interface X12EnrollmentMember {
+  position: number; // 1-based INS loop number in the file
+  subscriber: boolean; // INS01 = Y; dependents are N
+  relationshipCode?: string; // INS02, 18 = self
+  maintenanceTypeCode: string; // INS03
+  maintenanceReasonCode?: string; // INS04
+  employmentStatusCode?: string; // INS08
+  subscriberId?: string; // REF*0F
+  departmentNumber?: string; // REF*DX
+  lastName?: string;
+  firstName?: string;
+  middleName?: string;
+  memberIdentifier?: string; // NM109
+  email?: string; // PER communication number qualified EM
+  employmentBeginDate?: Date; // DTP*336
+  employmentEndDate?: Date; // DTP*337
+  eligibilityEndDate?: Date; // DTP*357
+  benefitEndDate?: Date; // DTP*349 in the 2300 coverage loop, latest of them
+}
+
+export interface X12EnrollmentData {
+  envelope: X12Envelope;
+  transactionPurposeCode?: string; // BGN01, 00 = original, 15 = re-submission
+  actionCode?: string; // BGN08, 2 = change, 4 = verify, RX = replace
+  fullFile: boolean; // Lists every enrolled member, so absence means termination
+  members: X12EnrollmentMember[];
+}
+
+/**
+ * Parse an 834 benefit enrollment file
+ */
+export function parse834(content: string): X12EnrollmentData {
+  const { segments } = parseX12(content);
+  const envelope = readEnvelope(segments);
+
+  if (envelope.transactionSetId !== '834') {
+    throw new X12ParseError(`Expected transaction set 834 but found ${envelope.transactionSetId || 'none'}`);
+  }
+
+  const data: X12EnrollmentData = { envelope, fullFile: false, members: [] };
+  let member: X12EnrollmentMember | null = null;
+  let inCoverage = false;
+
+  segments.forEach((seg, index) => {
+    switch (seg.id) {
+      case 'BGN':
+        data.transactionPurposeCode = seg.elements[0];
+        data.actionCode = seg.elements[7] || undefined;
+        break;
+      case 'INS':
+        if (!seg.elements[0] || !seg.elements[2]) {
+          throw new X12ParseError('INS segment is missing the subscriber indicator or maintenance type', index);
+        }
+        member = {
+          position: data.members.length + 1,
+          subscriber: seg.elements[0] === 'Y',
+          relationshipCode: seg.elements[1] || undefined,
+          maintenanceTypeCode: seg.elements[2],
+          maintenanceReasonCode: seg.elements[3] || undefined,
+          employmentStatusCode: seg.elements[7] || undefined
+        };
+        data.members.push(member);
+        inCoverage = false;
+        break;
+      case 'REF':
+        if (!member || inCoverage) {
+          break;
+        }
+        if (seg.elements[0] === '0F') {
+          member.subscriberId = seg.elements[1];
+        } else if (seg.elements[0] === 'DX') {
+          member.departmentNumber = seg.elements[1];
+        }
+        break;
+      case 'NM1':
+        // 2100A member name; other NM1 loops (employer, school, custodial parent) are ignored
+        if (member && !inCoverage && (seg.elements[0] === 'IL' || seg.elements[0] === '74')) {
+          member.lastName = seg.elements[2] || undefined;
+          member.firstName = seg.elements[3] || undefined;
+          member.middleName = seg.elements[4] || undefined;
+          member.memberIdentifier = seg.elements[8] || undefined;
+        }
+        break;
+      case 'PER':
+        if (member && !inCoverage && seg.elements[0] === 'IP') {
+          // Up to three qualifier/number pairs in PER03-PER08
+          for (let i = 2; i < 8; i += 2) {
+            if (seg.elements[i] === 'EM' && seg.elements[i + 1]) {
+              member.email = seg.elements[i + 1];
+              break;
+            }
+          }
+        }
+        break;
+      case 'DTP':
+        if (member) {
+          readMemberDate(member, seg.elements[0], parseDate(seg.elements[2]), inCoverage);
+        }
+        break;
+      case 'HD':
+        inCoverage = true;
+        break;
+      case 'SE':
+        member = null;
+        break;
+    }
+  });
+
+  data.fullFile = data.actionCode === 'RX' || data.actionCode === '4' ||
+    (data.members.length > 0 && data.members.every(m => m.maintenanceTypeCode === '030'));
+
+  return data;
+}
+
+/**
+ * Whether a member record ends the subscriber's employment. A cancellation
+ * (INS03 024) on its own only ends coverage, e.g. when the employee drops the
+ * plan; employment has ended when INS08 says so or an employment end date
+ * (DTP*337) is given.
+ */
+export function isTermination(member: X12EnrollmentMember): boolean {
+  return (member.employmentStatusCode !== undefined && ENDED_EMPLOYMENT_STATUSES.includes(member.employmentStatusCode)) ||
+    member.employmentEndDate !== undefined;
+}
+
+/**
+ * The date a terminated member's employment ended, by the most specific date given
+ */
+export function terminationDate(member: X12EnrollmentMember): Date | undefined {
+  return member.employmentEndDate || member.eligibilityEndDate || member.benefitEndDate;
+}
+
+function readMemberDate(member: X12EnrollmentMember, qualifier: string, date: Date | undefined, inCoverage: boolean): void {
+  if (!date) {
+    return;
+  }
+
+  if (inCoverage) {
+    if (qualifier === '349' && (!member.benefitEndDate || date > member.benefitEndDate)) {
+      member.benefitEndDate = date;
+    }
+    return;
+  }
+
+  switch (qualifier) {
+    case '336':
+      member.employmentBeginDate = date;
+      break;
+    case '337':
+      member.employmentEndDate = date;
+      break;
+    case '357':
+      member.eligibilityEndDate = date;
+      break;
+  }
+}
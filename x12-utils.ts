@@ -0,0 +1,321 @@
+/**
+ * X12 Utilities
+ *
+ * Shared helpers for building and parsing ASC X12 5010 interchanges:
+ * delimiter detection, segment tokenizing, ISA/GS/ST envelopes and
+ * value formatting. Transaction-specific builders and parsers live in
+ * their own modules and use these primitives.
+ */
+import { eq, sql } from 'drizzle-orm';
+import { x12ControlNumbers } from '@shared/claims-schema';
+
+// Default 5010 delimiters
+export interface X12Delimiters {
+  element: string;
+  component: string;
+  repetition: string;
+  segment: string;
+}
+
+export const DEFAULT_DELIMITERS: X12Delimiters = {
+  element: '*',
+  component: ':',
+  repetition: '^',
+  segment: '~'
+};
+
+// A parsed segment: id plus its elements (elements[0] is the first element after the id)
+export interface X12Segment {
+  id: string;
+  elements: string[];
+}
+
+// Envelope identifiers for an outbound interchange
+export interface X12EnvelopeOptions {
+  senderQualifier?: string;
+  senderId: string;
+  receiverQualifier?: string;
+  receiverId: string;
+  applicationSenderCode: string;
+  applicationReceiverCode: string;
+  functionalIdentifierCode: string; // HC (837), HS (270), ...
+  implementationReference: string; // e.g. 005010X222A1
+  usageIndicator?: 'T' | 'P';
+  controlNumber: number;
+  timestamp?: Date;
+}
+
+// Envelope identifiers read from an inbound interchange
+export interface X12Envelope {
+  senderId: string;
+  receiverId: string;
+  interchangeControlNumber: string;
+  groupControlNumber?: string;
+  functionalIdentifierCode?: string;
+  transactionSetId?: string;
+  transactionSetControlNumber?: string;
+  implementationReference?: string;
+  usageIndicator?: string;
+}
+
+/**
+ * Error raised when an X12 document cannot be parsed
+ */
+export class X12ParseError extends Error {
+  constructor(message: string, public segmentIndex?: number) {
+    super(message);
+    this.name = 'X12ParseError';
+  }
+}
+
+/**
+ * Detect delimiters from the fixed-width ISA segment
+ * @param content Raw X12 content
+ * @returns The delimiters used by the interchange
+ */
+export function detectDelimiters(content: string): X12Delimiters {
+  const start = content.indexOf('ISA');
+  if (start < 0 || content.length < start + 106) {
+    throw new X12ParseError('Missing or truncated ISA segment');
+  }
+
+  const isa = content.slice(start, start + 106);
+  return {
+    element: isa[3],
+    repetition: isa[82],
+    component: isa[104],
+    segment: isa[105]
+  };
+}
+
+/**
+ * Split an X12 document into segments
+ * @param content Raw X12 content
+ * @returns Delimiters and segments in document order
+ */
+export function parseX12(content: string): { delimiters: X12Delimiters; segments: X12Segment[] } {
+  const delimiters = detectDelimiters(content);
+  const body = content.slice(content.indexOf('ISA'));
+
+  const segments = body
+    .split(delimiters.segment)
+    .map(raw => raw.replace(/[\r\n]/g, '').trim())
+    .filter(raw => raw.length > 0)
+    .map(raw => {
+      const [id, ...elements] = raw.split(delimiters.element);
+      return { id, elements };
+    });
+
+  if (segments.length === 0 || segments[0].id !== 'ISA') {
+    throw new X12ParseError('Interchange must begin with ISA');
+  }
+
+  return { delimiters, segments };
+}
+
+/**
+ * Read the envelope identifiers from parsed segments
+ */
+export function readEnvelope(segments: X12Segment[]): X12Envelope {
+  const isa = segments.find(s => s.id === 'ISA');
+  if (!isa) {
+    throw new X12ParseError('Missing ISA segment');
+  }
+
+  const gs = segments.find(s => s.id === 'GS');
+  const st = segments.find(s => s.id === 'ST');
+
+  return {
+    senderId: isa.elements[5]?.trim(),
+    receiverId: isa.elements[7]?.trim(),
+    interchangeControlNumber: isa.elements[12],
+    usageIndicator: isa.elements[14],
+    functionalIdentifierCode: gs?.elements[0],
+    groupControlNumber: gs?.elements[5],
+    transactionSetId: st?.elements[0],
+    transactionSetControlNumber: st?.elements[1],
+    implementationReference: st?.elements[2] || gs?.elements[7]
+  };
+}
+
+/**
+ * Get a component of a composite element (e.g. "HC:99213:25" → index 1 = "99213")
+ */
+export function component(value: string | undefined, index: number, delimiters: X12Delimiters = DEFAULT_DELIMITERS): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return value.split(delimiters.component)[index] || undefined;
+}
+
+/**
+ * Serialize a segment, dropping trailing empty elements
+ */
+export function segment(id: string, elements: Array<string | number | undefined | null>, delimiters: X12Delimiters = DEFAULT_DELIMITERS): string {
+  const values = elements.map(e => (e === undefined || e === null ? '' : String(e)));
+  while (values.length > 0 && values[values.length - 1] === '') {
+    values.pop();
+  }
+  return [id, ...values].join(delimiters.element) + delimiters.segment;
+}
+
+/**
+ * Wrap transaction set body segments (from BHT/BHT-equivalent onward) in
+ * ST/SE, GS/GE and ISA/IEA envelopes.
+ * @param transactionSetId ST01 (e.g. "837", "270")
+ * @param body Serialized body segments, without ST/SE
+ * @param options Envelope options
+ * @returns The complete interchange
+ */
+export function buildInterchange(
+  transactionSetId: string,
+  body: string[],
+  options: X12EnvelopeOptions,
+  delimiters: X12Delimiters = DEFAULT_DELIMITERS
+): string {
+  const timestamp = options.timestamp || new Date();
+  const controlNumber = formatControlNumber(options.controlNumber);
+  const transactionSetControlNumber = '0001';
+
+  const isa = [
+    'ISA',
+    '00', padRight('', 10),
+    '00', padRight('', 10),
+    options.senderQualifier || 'ZZ', padRight(options.senderId, 15),
+    options.receiverQualifier || 'ZZ', padRight(options.receiverId, 15),
+    formatDate(timestamp).slice(2),
+    formatTime(timestamp),
+    delimiters.repetition,
+    '00501',
+    controlNumber,
+    '0',
+    options.usageIndicator || 'T',
+    delimiters.component
+  ].join(delimiters.element) + delimiters.segment;
+
+  const st = segment('ST', [transactionSetId, transactionSetControlNumber, options.implementationReference], delimiters);
+  // SE01 counts ST and SE themselves
+  const se = segment('SE', [body.length + 2, transactionSetControlNumber], delimiters);
+
+  return [
+    isa,
+    segment('GS', [
+      options.functionalIdentifierCode,
+      options.applicationSenderCode,
+      options.applicationReceiverCode,
+      formatDate(timestamp),
+      formatTime(timestamp),
+      options.controlNumber,
+      'X',
+      options.implementationReference
+    ], delimiters),
+    st,
+    ...body,
+    se,
+    segment('GE', [1, options.controlNumber], delimiters),
+    segment('IEA', [1, controlNumber], delimiters)
+  ].join('\n');
+}
+
+/**
+ * Format an ISA13 control number (9 digits, zero padded)
+ */
+export function formatControlNumber(controlNumber: number): string {
+  return String(controlNumber % 1000000000).padStart(9, '0');
+}
+
+/**
+ * Format a date as CCYYMMDD (UTC)
+ */
+export function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * Format a time as HHMM (UTC)
+ */
+export function formatTime(date: Date): string {
+  return date.toISOString().slice(11, 16).replace(':', '');
+}
+
+/**
+ * Parse a CCYYMMDD date (UTC)
+ */
+export function parseDate(value: string | undefined): Date | undefined {
+  if (!value || !/^\d{8}$/.test(value)) {
+    return undefined;
+  }
+  return new Date(Date.UTC(Number(value.slice(0, 4)), Number(value.slice(4, 6)) - 1, Number(value.slice(6, 8))));
+}
+
+/**
+ * Format an amount in cents as an X12 decimal (e.g. 12550 → "125.50")
+ */
+export function formatAmount(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+/**
+ * Parse an X12 decimal amount into cents
+ */
+export function parseAmount(value: string | undefined): number {
+  if (!value) {
+    return 0;
+  }
+  const amount = Number(value);
+  return Number.isFinite(amount) ? Math.round(amount * 100) : 0;
+}
+
+/**
+ * Strip characters that collide with delimiters. Case is kept, so identifiers
+ * (control numbers, trace numbers) come back exactly as they were sent.
+ */
+export function sanitize(value: string | undefined | null, delimiters: X12Delimiters = DEFAULT_DELIMITERS): string {
+  if (!value) {
+    return '';
+  }
+  const reserved = [delimiters.element, delimiters.component, delimiters.repetition, delimiters.segment];
+  return value
+    .split('')
+    .filter(ch => !reserved.includes(ch))
+    .join('')
+    .trim();
+}
+
+/**
+ * Sanitize a name or address, upper-cased as payers expect
+ */
+export function sanitizeName(value: string | undefined | null, delimiters: X12Delimiters = DEFAULT_DELIMITERS): string {
+  return sanitize(value, delimiters).toUpperCase();
+}
+
+/**
+ * Pad a fixed-width ISA field
+ */
+export function padRight(value: string, length: number): string {
+  return value.slice(0, length).padEnd(length, ' ');
+}
+
+/**
+ * Allocate the next interchange/group control number for a sender
+ * @param database Database or transaction to allocate in
+ * @param senderId The ISA06 interchange sender ID
+ * @returns The next control number
+ */
+export async function nextControlNumber(database: any, senderId: string): Promise<number> {
+  await database
+    .insert(x12ControlNumbers)
+    .values({ senderId, lastControlNumber: 0 })
+    .onConflictDoNothing();
+
+  const [row] = await database
+    .update(x12ControlNumbers)
+    .set({
+      lastControlNumber: sql`${x12ControlNumbers.lastControlNumber} + 1`,
+      updatedAt: new Date()
+    })
+    .where(eq(x12ControlNumbers.senderId, senderId))
+    .returning();
+
+  return row.lastControlNumber;
+}